@@ -0,0 +1,459 @@
+-- ============================================================================
+-- ATOMIC SALE TRANSACTION
+-- ============================================================================
+-- This script creates the process_complete_sale() function used by the POS.
+-- The sale, its service items, bottle consumption, commissions and client
+-- statistics are written in a single transaction: either everything is
+-- committed or nothing is. A client-supplied request key makes the call
+-- idempotent, so a retried submit returns the original sale instead of
+-- charging and consuming stock a second time.
+--
+-- Discounts, payment tenders and tips are validated by record_sale_discounts()
+-- (sale-discounts.sql), record_sale_payments() (sale-payments.sql) and
+-- record_sale_tips() (sale-tips.sql), TVA is recorded by record_sale_taxes()
+-- (sale-invoices.sql), retail products are recorded by record_sale_retail_items()
+-- (sale-retail.sql), the sale is attached to its cash drawer session
+-- by attach_sale_to_cash_session() (cash-drawer-sessions.sql) and numbered
+-- by assign_sale_receipt_number() (sale-receipts.sql) and
+-- assign_sale_invoice_number() (sale-invoices.sql); run the feature scripts
+-- in the order listed in the README.
+-- ============================================================================
+
+-- Idempotency key supplied by the POS for each checkout attempt
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS request_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_request_key
+    ON public.sales(request_key)
+    WHERE request_key IS NOT NULL;
+
+COMMENT ON COLUMN public.sales.request_key IS 'Client-generated idempotency key; a retried checkout with the same key returns the existing sale';
+
+-- ----------------------------------------------------------------------------
+-- Consume a quantity of a product, in its unit (product-units.sql), from its
+-- bottles first expired first out, through consume_product_lots()
+-- (product-lots.sql). Pieces are taken whole. The product row is locked for
+-- the rest of the transaction and an exception aborts the whole sale on
+-- insufficient stock.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.consume_product_ml(
+    p_product_id UUID,
+    p_required_ml NUMERIC,
+    p_sale_id UUID,
+    p_service_id UUID,
+    p_staff_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_product RECORD;
+    v_total_available NUMERIC;
+    v_sealed INTEGER;
+    v_open_ml NUMERIC;
+    v_bottles_opened INTEGER := 0;
+    v_unit TEXT;
+    v_quantity NUMERIC;
+BEGIN
+    SELECT id, name, unit, sealed_bottles, open_bottle_remaining_ml, bottle_capacity_ml
+    INTO v_product
+    FROM public.products
+    WHERE id = p_product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product not found: %', p_product_id;
+    END IF;
+
+    v_unit := COALESCE(v_product.unit, 'ml');
+    v_quantity := CASE WHEN v_unit = 'pieces' THEN CEIL(p_required_ml) ELSE p_required_ml END;
+
+    v_total_available := (COALESCE(v_product.sealed_bottles, 0) * COALESCE(v_product.bottle_capacity_ml, 0))
+        + COALESCE(v_product.open_bottle_remaining_ml, 0);
+
+    IF v_total_available < v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for %. Available: % %, Required: % %',
+            v_product.name, v_total_available, v_unit, v_quantity, v_unit;
+    END IF;
+
+    -- The product totals are kept in sync from the lots
+    v_bottles_opened := public.consume_product_lots(p_product_id, v_quantity);
+
+    SELECT COALESCE(sealed_bottles, 0), COALESCE(open_bottle_remaining_ml, 0)
+    INTO v_sealed, v_open_ml
+    FROM public.products
+    WHERE id = p_product_id;
+
+    INSERT INTO public.product_consumption_log (
+        product_id, sale_id, service_id, consumption_type, ml_consumed, bottles_opened,
+        remaining_ml_before, remaining_ml_after, sealed_bottles_before, sealed_bottles_after, staff_id
+    ) VALUES (
+        p_product_id, p_sale_id, p_service_id, 'service', v_quantity, v_bottles_opened,
+        COALESCE(v_product.open_bottle_remaining_ml, 0), v_open_ml,
+        COALESCE(v_product.sealed_bottles, 0), v_sealed, p_staff_id
+    );
+
+    RETURN jsonb_build_object(
+        'productId', p_product_id,
+        'productName', v_product.name,
+        'quantityUsed', v_quantity,
+        'unit', v_unit,
+        'bottlesOpened', v_bottles_opened,
+        'sealedBottles', v_sealed,
+        'openMl', v_open_ml,
+        'totalRemainingMl', (v_sealed * v_product.bottle_capacity_ml) + v_open_ml
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Build the response returned to the POS for a committed sale
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.build_sale_result(p_sale_id UUID, p_replayed BOOLEAN)
+RETURNS JSONB AS $$
+DECLARE
+    v_sale RECORD;
+BEGIN
+    SELECT * INTO v_sale FROM public.sales WHERE id = p_sale_id;
+
+    RETURN jsonb_build_object(
+        'replayed', p_replayed,
+        'sale', to_jsonb(v_sale),
+        'receiptNumber', v_sale.receipt_number,
+        'invoiceNumber', v_sale.invoice_number,
+        'staffName', (SELECT u.name FROM public.users u WHERE u.id = v_sale.staff_id),
+        'client', (
+            SELECT jsonb_build_object('name', c.name, 'phone', c.phone)
+            FROM public.clients c WHERE c.id = v_sale.client_id
+        ),
+        'serviceItems', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'serviceId', si.service_id,
+                'name', s.name,
+                'originalPrice', si.original_price,
+                'adjustedPrice', si.adjusted_price,
+                'priceAdjustmentReason', si.price_adjustment_reason,
+                'discountAmount', si.discount_amount,
+                'taxRate', si.tax_rate,
+                'taxAmount', si.tax_amount,
+                'quantity', si.quantity_sold
+            ) ORDER BY si.created_at)
+            FROM public.service_items si
+            JOIN public.services s ON s.id = si.service_id
+            WHERE si.sale_id = p_sale_id
+        ), '[]'::jsonb),
+        'retailItems', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'productId', ri.product_id,
+                'productName', p.name,
+                'quantity', ri.quantity,
+                'unitPrice', ri.unit_price,
+                'unitCost', ri.unit_cost,
+                'taxRate', ri.tax_rate,
+                'priceIncludesTax', ri.price_includes_tax,
+                'taxAmount', ri.tax_amount
+            ) ORDER BY ri.created_at)
+            FROM public.sale_retail_items ri
+            JOIN public.products p ON p.id = ri.product_id
+            WHERE ri.sale_id = p_sale_id
+        ), '[]'::jsonb),
+        'discounts', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'source', d.source,
+                'scope', d.scope,
+                'discountType', d.discount_type,
+                'value', d.value,
+                'amount', d.amount,
+                'serviceId', d.service_id,
+                'code', d.code,
+                'loyaltyPoints', d.loyalty_points,
+                'reason', d.reason
+            ) ORDER BY d.created_at)
+            FROM public.sale_discounts d
+            WHERE d.sale_id = p_sale_id
+        ), '[]'::jsonb),
+        'taxLines', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'rate', tl.tax_rate,
+                'inclusive', tl.price_includes_tax,
+                'taxableAmount', tl.taxable_amount,
+                'taxAmount', tl.tax_amount
+            ) ORDER BY tl.tax_rate)
+            FROM public.sale_tax_lines tl
+            WHERE tl.sale_id = p_sale_id
+        ), '[]'::jsonb),
+        'payments', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'method', sp.method,
+                'amount', sp.amount,
+                'tendered', sp.tendered,
+                'changeGiven', sp.change_given,
+                'reference', sp.reference
+            ) ORDER BY sp.created_at)
+            FROM public.sale_payments sp
+            WHERE sp.sale_id = p_sale_id
+        ), '[]'::jsonb),
+        'tips', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'staffId', t.staff_id,
+                'staffName', u.name,
+                'amount', t.amount
+            ) ORDER BY t.created_at)
+            FROM public.sale_tips t
+            JOIN public.users u ON u.id = t.staff_id
+            WHERE t.sale_id = p_sale_id
+        ), '[]'::jsonb),
+        'stockUpdates', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'productId', l.product_id,
+                'productName', p.name,
+                'quantityUsed', l.ml_consumed,
+                'unit', COALESCE(p.unit, 'ml'),
+                'bottlesOpened', l.bottles_opened
+            ) ORDER BY l.created_at)
+            FROM public.product_consumption_log l
+            JOIN public.products p ON p.id = l.product_id
+            WHERE l.sale_id = p_sale_id
+        ), '[]'::jsonb),
+        'commission', COALESCE((
+            SELECT SUM(commission_amount) FROM public.commissions WHERE sale_id = p_sale_id
+        ), 0)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Process a complete multi-service POS sale in one transaction
+--
+-- Expected payload:
+-- {
+--   "requestKey": "uuid",
+--   "clientId": "uuid",
+--   "staffId": "uuid",
+--   "paymentMethod": "cash" | "card" | "transfer" | "mixed",
+--   "totalAmount": 250, -- tax included, after discounts
+--   "notes": "...",
+--   "services": [{
+--     "serviceId": "uuid", "adjustedPrice": 180,
+--     "priceAdjustmentReason": "...", "quantity": 1,
+--     "discountAmount": 18,
+--     "discount": { "discountType": "percentage", "value": 10 }, -- manual line discount as entered
+--     "staffId": "uuid", -- who performed it, when not the sale's staff member
+--     "products": [{ "productId": "uuid", "quantity": 30, "unit": "ml" }], -- in the product's unit
+--   }],
+--   "retailItems": [{ "productId": "uuid", "quantity": 2 }],
+--   "discounts": [{
+--     "source": "manual" | "promo" | "loyalty", "scope": "cart" | "service",
+--     "discountType": "percentage" | "fixed", "value": 10, "amount": 18,
+--     "promoCodeId": "uuid", "code": "...", "loyaltyPoints": 0, "reason": "..."
+--   }],
+--   "payments": [{
+--     "method": "cash" | "card" | "transfer", "amount": 150,
+--     "tendered": 200, "changeGiven": 50, "reference": "..."
+--   }],
+--   "tipAmount": 20,
+--   "tips": [{ "staffId": "uuid", "amount": 20 }],
+--   "cashSessionId": "uuid",
+--   "soldAt": "2024-05-01T10:15:00Z", -- checkout time, kept when synced later
+--   "bookingId": "uuid" -- when checking out a booking
+-- }
+--
+-- discountAmount is the discount taken off the whole line (all quantities);
+-- service lines and commissions are recorded at the discounted price. Retail
+-- quantities are whole sealed bottles (or units), priced from the product.
+-- A service line's original price is the service's list price; an adjusted
+-- price below it counts as a manual discount.
+-- Commissions and product use of a service line go to its own staffId, so
+-- each staff member of a multi-service booking is credited for their part.
+-- A sale needs at least one service or one retail product. A sale queued
+-- offline is dated and matched to its cash drawer session by soldAt, not by
+-- the time it reaches the server.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.process_complete_sale(p_sale JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_request_key TEXT := NULLIF(p_sale->>'requestKey', '');
+    v_client_id UUID := (p_sale->>'clientId')::UUID;
+    v_staff_id UUID := (p_sale->>'staffId')::UUID;
+    v_total NUMERIC := COALESCE((p_sale->>'totalAmount')::NUMERIC, 0);
+    v_sold_at TIMESTAMPTZ := COALESCE(NULLIF(p_sale->>'soldAt', '')::TIMESTAMPTZ, NOW());
+    v_sale_id UUID;
+    v_existing_id UUID;
+    v_primary_service_id UUID;
+    v_service JSONB;
+    v_product JSONB;
+    v_service_row RECORD;
+    v_line_staff_id UUID;
+    v_is_bottle_tracked BOOLEAN;
+    v_quantity INTEGER;
+    v_adjusted NUMERIC;
+    v_line_discount NUMERIC;
+    v_unit_discount NUMERIC;
+    v_net NUMERIC;
+    v_subtotal NUMERIC := 0;
+    v_discount_total NUMERIC := 0;
+    v_tax_added NUMERIC := 0;
+    i INTEGER;
+BEGIN
+    IF v_request_key IS NULL THEN
+        RAISE EXCEPTION 'A request key is required to process a sale';
+    END IF;
+
+    IF v_client_id IS NULL OR v_staff_id IS NULL THEN
+        RAISE EXCEPTION 'Client and staff are required to process a sale';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_sale->'services', '[]'::jsonb)) = 0
+        AND jsonb_array_length(COALESCE(p_sale->'retailItems', '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'At least one service or retail product is required for a sale';
+    END IF;
+
+    IF (p_sale->>'paymentMethod') NOT IN ('cash', 'card', 'transfer', 'mixed') THEN
+        RAISE EXCEPTION 'Invalid payment method: %', p_sale->>'paymentMethod';
+    END IF;
+
+    -- Allows for a POS clock slightly ahead of the server
+    IF v_sold_at > NOW() + INTERVAL '5 minutes' THEN
+        RAISE EXCEPTION 'Sale time % is in the future', v_sold_at;
+    END IF;
+
+    -- Replay: the sale was already committed for this key
+    SELECT id INTO v_existing_id FROM public.sales WHERE request_key = v_request_key;
+    IF FOUND THEN
+        RETURN public.build_sale_result(v_existing_id, true);
+    END IF;
+
+    -- NULL for a sale made only of retail products
+    v_primary_service_id := NULLIF(p_sale->'services'->0->>'serviceId', '')::UUID;
+
+    INSERT INTO public.sales (
+        client_id, service_id, staff_id, total_amount, payment_method, status, notes, request_key, created_at
+    ) VALUES (
+        v_client_id, v_primary_service_id, v_staff_id, v_total,
+        p_sale->>'paymentMethod', 'completed', COALESCE(p_sale->>'notes', ''), v_request_key, v_sold_at
+    )
+    ON CONFLICT (request_key) WHERE request_key IS NOT NULL DO NOTHING
+    RETURNING id INTO v_sale_id;
+
+    -- A concurrent retry committed first; return its result
+    IF v_sale_id IS NULL THEN
+        SELECT id INTO v_existing_id FROM public.sales WHERE request_key = v_request_key;
+        RETURN public.build_sale_result(v_existing_id, true);
+    END IF;
+
+    FOR v_service IN SELECT * FROM jsonb_array_elements(COALESCE(p_sale->'services', '[]'::jsonb)) LOOP
+        SELECT id, name, price, commission_percent INTO v_service_row
+        FROM public.services
+        WHERE id = (v_service->>'serviceId')::UUID;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Service not found: %', v_service->>'serviceId';
+        END IF;
+
+        v_line_staff_id := COALESCE(NULLIF(v_service->>'staffId', '')::UUID, v_staff_id);
+        v_quantity := GREATEST(COALESCE((v_service->>'quantity')::INTEGER, 1), 1);
+        v_adjusted := COALESCE((v_service->>'adjustedPrice')::NUMERIC, 0);
+        v_line_discount := COALESCE((v_service->>'discountAmount')::NUMERIC, 0);
+        v_unit_discount := ROUND(v_line_discount / v_quantity, 2);
+        v_net := v_adjusted - v_unit_discount;
+
+        IF v_line_discount < 0 OR v_net < 0 THEN
+            RAISE EXCEPTION 'Invalid discount for service %', v_service_row.name;
+        END IF;
+
+        v_subtotal := v_subtotal + (v_adjusted * v_quantity);
+        v_discount_total := v_discount_total + v_line_discount;
+
+        FOR i IN 1..v_quantity LOOP
+            INSERT INTO public.service_items (
+                sale_id, service_id, original_price, adjusted_price, discount_amount,
+                price_adjustment_reason, quantity_sold
+            ) VALUES (
+                v_sale_id, v_service_row.id,
+                COALESCE(v_service_row.price, v_adjusted),
+                v_net, v_unit_discount, v_service->>'priceAdjustmentReason', 1
+            );
+
+            IF COALESCE(v_service_row.commission_percent, 0) > 0 THEN
+                INSERT INTO public.commissions (
+                    staff_id, sale_id, service_id, commission_amount, commission_percentage, status
+                ) VALUES (
+                    v_line_staff_id, v_sale_id, v_service_row.id,
+                    (v_net * v_service_row.commission_percent) / 100,
+                    v_service_row.commission_percent, 'pending'
+                );
+            END IF;
+        END LOOP;
+
+        FOR v_product IN SELECT * FROM jsonb_array_elements(COALESCE(v_service->'products', '[]'::jsonb)) LOOP
+            CONTINUE WHEN COALESCE((v_product->>'quantity')::NUMERIC, 0) <= 0;
+
+            PERFORM public.consume_product_ml(
+                (v_product->>'productId')::UUID,
+                (v_product->>'quantity')::NUMERIC,
+                v_sale_id,
+                v_service_row.id,
+                v_line_staff_id
+            );
+
+            SELECT COALESCE(is_bottle_tracked, false) INTO v_is_bottle_tracked
+            FROM public.products WHERE id = (v_product->>'productId')::UUID;
+
+            -- Bottle-tracked products are already logged in product_consumption_log
+            IF NOT v_is_bottle_tracked THEN
+                INSERT INTO public.sale_product_usage (sale_id, product_id, qty_used, unit)
+                SELECT v_sale_id, p.id, (v_product->>'quantity')::NUMERIC, COALESCE(p.unit, 'ml')
+                FROM public.products p
+                WHERE p.id = (v_product->>'productId')::UUID;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    -- Sells whole sealed bottles over the counter at the product price
+    v_subtotal := v_subtotal + public.record_sale_retail_items(v_sale_id, p_sale);
+
+    -- Records the TVA of each line; tax on exclusive prices is added to the total
+    v_tax_added := public.record_sale_taxes(v_sale_id);
+
+    -- Validates promo codes, loyalty points and manual discount limits
+    PERFORM public.record_sale_discounts(v_sale_id, p_sale, v_subtotal, v_discount_total, v_tax_added);
+
+    -- Records the staff tip shares, paid on top of the sale total
+    PERFORM public.record_sale_tips(v_sale_id, p_sale);
+
+    -- Validates that the tenders add up to the sale total plus tip
+    PERFORM public.record_sale_payments(v_sale_id, p_sale);
+
+    -- Attaches the sale to the cash drawer session it was rung up in
+    PERFORM public.attach_sale_to_cash_session(v_sale_id, p_sale);
+
+    -- Links the sale to the booking it pays for and completes the booking
+    PERFORM public.attach_sale_to_booking(v_sale_id, p_sale);
+
+    -- Numbers the receipt and invoice last, so the counters are held as
+    -- briefly as possible
+    PERFORM public.assign_sale_receipt_number(v_sale_id);
+    PERFORM public.assign_sale_invoice_number(v_sale_id);
+
+    UPDATE public.clients
+    SET
+        total_visits = COALESCE(total_visits, 0) + 1,
+        total_spent = COALESCE(total_spent, 0) + v_total,
+        last_visit = GREATEST(COALESCE(last_visit, v_sold_at), v_sold_at),
+        updated_at = NOW()
+    WHERE id = v_client_id;
+
+    RETURN public.build_sale_result(v_sale_id, false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; the helpers run inside process_complete_sale() only and
+-- must not be callable on their own, as they bypass RLS
+REVOKE EXECUTE ON FUNCTION public.consume_product_ml(UUID, NUMERIC, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+-- The process-sale edge function consumes stock with the service role key
+GRANT EXECUTE ON FUNCTION public.consume_product_ml(UUID, NUMERIC, UUID, UUID, UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.build_sale_result(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_complete_sale(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.process_complete_sale(JSONB) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION public.consume_product_ml(UUID, NUMERIC, UUID, UUID, UUID) IS 'Consumes a quantity of a product in its unit, first expired first out; raises on insufficient stock';
+COMMENT ON FUNCTION public.process_complete_sale(JSONB) IS 'Atomically records a multi-service POS sale with its retail products, stock consumption and commissions; idempotent on requestKey';
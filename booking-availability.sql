@@ -0,0 +1,317 @@
+-- ============================================================================
+-- BOOKING AVAILABILITY
+-- ============================================================================
+-- This script makes online booking offer only slots that are genuinely free:
+-- inside the weekly working hours of a staff member who performs the service,
+-- clear of their other bookings and of the buffer (clean-up and turnover
+-- time) that follows every service.
+--
+-- The public booking page computes the free slots from get_bookable_staff(),
+-- staff_working_hours and get_staff_busy_times(), which expose no client data.
+-- The booking itself goes through create_public_booking(), which checks the
+-- slot again under a per-staff lock, so a slot taken in the meantime is
+-- rejected. A trigger on bookings refuses overlapping bookings for the same
+-- staff member whichever screen they come from.
+--
+-- Working hours are in salon local time (see salon_timezone()).
+-- ============================================================================
+
+-- Clean-up and turnover time kept free after a service
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes >= 0);
+
+-- Weekly working hours; a staff member can work several ranges in a day
+CREATE TABLE IF NOT EXISTS public.staff_working_hours (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    staff_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday, as Date.getDay()
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_time > start_time),
+    UNIQUE (staff_id, weekday, start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_working_hours_staff_id ON public.staff_working_hours(staff_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_staff_start_at ON public.bookings(staff_id, start_at);
+
+-- ----------------------------------------------------------------------------
+-- Time zone the working hours and booking dates are expressed in
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.salon_timezone()
+RETURNS TEXT AS $$
+    SELECT 'Africa/Casablanca'::TEXT;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ----------------------------------------------------------------------------
+-- Staff get a default week (Monday to Saturday, 09:00-19:00, the hours the
+-- booking page offered before) until an admin sets their own hours
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.add_default_staff_working_hours()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role = 'staff' AND NOT EXISTS (
+        SELECT 1 FROM public.staff_working_hours WHERE staff_id = NEW.id
+    ) THEN
+        INSERT INTO public.staff_working_hours (staff_id, weekday, start_time, end_time)
+        SELECT NEW.id, d.weekday, '09:00', '19:00'
+        FROM generate_series(1, 6) AS d(weekday);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS add_default_staff_working_hours ON public.users;
+CREATE TRIGGER add_default_staff_working_hours
+    AFTER INSERT OR UPDATE OF role ON public.users
+    FOR EACH ROW
+    EXECUTE FUNCTION public.add_default_staff_working_hours();
+
+INSERT INTO public.staff_working_hours (staff_id, weekday, start_time, end_time)
+SELECT u.id, d.weekday, '09:00', '19:00'
+FROM public.users u
+CROSS JOIN generate_series(1, 6) AS d(weekday)
+WHERE u.role = 'staff'
+  AND NOT EXISTS (SELECT 1 FROM public.staff_working_hours h WHERE h.staff_id = u.id);
+
+-- ----------------------------------------------------------------------------
+-- Staff who can be booked for a service: the staff assigned to it, or every
+-- staff member when the service has no assignment
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_bookable_staff(p_service_id UUID)
+RETURNS TABLE (staff_id UUID, staff_name TEXT) AS $$
+    WITH assigned AS (
+        SELECT jsonb_array_elements_text(COALESCE(to_jsonb(s.assigned_staff), '[]'::jsonb))::UUID AS id
+        FROM public.services s
+        WHERE s.id = p_service_id
+    )
+    SELECT u.id, u.name::TEXT
+    FROM public.users u
+    WHERE u.id IN (SELECT id FROM assigned)
+       OR (u.role = 'staff' AND NOT EXISTS (SELECT 1 FROM assigned))
+    ORDER BY u.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Times the given staff are busy between two instants: their bookings that
+-- are not cancelled or no-shows, each extended by its service buffer. Used by
+-- the public booking page, which cannot read bookings; at most 31 days.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_staff_busy_times(
+    p_staff_ids UUID[],
+    p_from TIMESTAMP WITH TIME ZONE,
+    p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (staff_id UUID, start_at TIMESTAMP WITH TIME ZONE, end_at TIMESTAMP WITH TIME ZONE) AS $$
+    SELECT
+        b.staff_id,
+        b.start_at,
+        b.end_at + make_interval(mins => COALESCE(s.buffer_minutes, 0))
+    FROM public.bookings b
+    LEFT JOIN public.services s ON s.id = b.service_id
+    WHERE b.staff_id = ANY(p_staff_ids)
+      AND COALESCE(b.status, 'pending') NOT IN ('cancelled', 'no_show')
+      AND b.start_at < p_to
+      AND b.end_at + make_interval(mins => COALESCE(s.buffer_minutes, 0)) > p_from
+      AND p_to <= p_from + INTERVAL '31 days'
+    ORDER BY b.start_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Whether a staff member is free from p_start_at to p_end_at plus the buffer
+-- of the service being booked, given the buffers of their other bookings
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.is_staff_slot_free(
+    p_staff_id UUID,
+    p_start_at TIMESTAMP WITH TIME ZONE,
+    p_end_at TIMESTAMP WITH TIME ZONE,
+    p_buffer_minutes INTEGER DEFAULT 0,
+    p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+    SELECT NOT EXISTS (
+        SELECT 1
+        FROM public.bookings b
+        LEFT JOIN public.services s ON s.id = b.service_id
+        WHERE b.staff_id = p_staff_id
+          AND b.id IS DISTINCT FROM p_exclude_booking_id
+          AND COALESCE(b.status, 'pending') NOT IN ('cancelled', 'no_show')
+          AND b.start_at < p_end_at + make_interval(mins => COALESCE(p_buffer_minutes, 0))
+          AND b.end_at + make_interval(mins => COALESCE(s.buffer_minutes, 0)) > p_start_at
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Whether a booking falls inside one of the staff member's working ranges
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.is_within_working_hours(
+    p_staff_id UUID,
+    p_start_at TIMESTAMP WITH TIME ZONE,
+    p_end_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.staff_working_hours h
+        WHERE h.staff_id = p_staff_id
+          AND h.weekday = EXTRACT(DOW FROM p_start_at AT TIME ZONE public.salon_timezone())
+          AND (p_start_at AT TIME ZONE public.salon_timezone())::DATE = (p_end_at AT TIME ZONE public.salon_timezone())::DATE
+          AND h.start_time <= (p_start_at AT TIME ZONE public.salon_timezone())::TIME
+          AND h.end_time >= (p_end_at AT TIME ZONE public.salon_timezone())::TIME
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Refuse a booking that overlaps another booking of the same staff member.
+-- Bookings of a staff member are checked one at a time (advisory lock), so
+-- two clients taking the same slot at once cannot both succeed.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.check_booking_overlap()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_buffer INTEGER;
+BEGIN
+    IF NEW.staff_id IS NULL OR NEW.start_at IS NULL OR NEW.end_at IS NULL
+       OR COALESCE(NEW.status, 'pending') IN ('cancelled', 'no_show') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Status changes of a booking that already holds its slot need no check
+    IF TG_OP = 'UPDATE'
+       AND NEW.staff_id IS NOT DISTINCT FROM OLD.staff_id
+       AND NEW.start_at IS NOT DISTINCT FROM OLD.start_at
+       AND NEW.end_at IS NOT DISTINCT FROM OLD.end_at
+       AND COALESCE(OLD.status, 'pending') NOT IN ('cancelled', 'no_show') THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('booking_staff:' || NEW.staff_id::TEXT));
+
+    SELECT buffer_minutes INTO v_buffer FROM public.services WHERE id = NEW.service_id;
+
+    IF NOT public.is_staff_slot_free(NEW.staff_id, NEW.start_at, NEW.end_at, COALESCE(v_buffer, 0), NEW.id) THEN
+        RAISE EXCEPTION 'Time slot no longer available: the staff member is already booked at this time';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_booking_overlap ON public.bookings;
+CREATE TRIGGER check_booking_overlap
+    BEFORE INSERT OR UPDATE OF staff_id, start_at, end_at, status ON public.bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_booking_overlap();
+
+-- ----------------------------------------------------------------------------
+-- Book a slot from the public page. p_booking:
+-- {
+--   "clientId": "uuid", "serviceId": "uuid",
+--   "staffId": "uuid",            -- optional; the client's preferred stylist
+--   "startAt": "2026-10-20T10:00:00Z", "notes": "..."
+-- }
+-- Without a preference the slot goes to the bookable staff member with the
+-- fewest bookings that day who is working and free. Raises 'Time slot no
+-- longer available' when nobody is.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.create_public_booking(p_booking JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_service RECORD;
+    v_start TIMESTAMP WITH TIME ZONE := (p_booking->>'startAt')::TIMESTAMP WITH TIME ZONE;
+    v_end TIMESTAMP WITH TIME ZONE;
+    v_preferred UUID := NULLIF(p_booking->>'staffId', '')::UUID;
+    v_local_day DATE;
+    v_candidate RECORD;
+    v_booking RECORD;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.clients WHERE id = (p_booking->>'clientId')::UUID) THEN
+        RAISE EXCEPTION 'Client not found: %', p_booking->>'clientId';
+    END IF;
+
+    SELECT id, name, duration, buffer_minutes INTO v_service
+    FROM public.services
+    WHERE id = (p_booking->>'serviceId')::UUID AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Service not found: %', p_booking->>'serviceId';
+    END IF;
+
+    IF v_start IS NULL OR v_start <= NOW() THEN
+        RAISE EXCEPTION 'Bookings must start in the future';
+    END IF;
+
+    v_end := v_start + make_interval(mins => v_service.duration);
+    v_local_day := (v_start AT TIME ZONE public.salon_timezone())::DATE;
+
+    FOR v_candidate IN
+        SELECT bs.staff_id, bs.staff_name
+        FROM public.get_bookable_staff(v_service.id) bs
+        WHERE v_preferred IS NULL OR bs.staff_id = v_preferred
+        ORDER BY (
+            SELECT COUNT(*) FROM public.bookings b
+            WHERE b.staff_id = bs.staff_id
+              AND COALESCE(b.status, 'pending') NOT IN ('cancelled', 'no_show')
+              AND (b.start_at AT TIME ZONE public.salon_timezone())::DATE = v_local_day
+        ), bs.staff_name
+    LOOP
+        PERFORM pg_advisory_xact_lock(hashtext('booking_staff:' || v_candidate.staff_id::TEXT));
+
+        CONTINUE WHEN NOT public.is_within_working_hours(v_candidate.staff_id, v_start, v_end);
+        CONTINUE WHEN NOT public.is_staff_slot_free(v_candidate.staff_id, v_start, v_end, v_service.buffer_minutes);
+
+        INSERT INTO public.bookings (
+            client_id, service_id, staff_id, date, time, duration,
+            start_at, end_at, status, notes
+        ) VALUES (
+            (p_booking->>'clientId')::UUID, v_service.id, v_candidate.staff_id,
+            v_local_day, (v_start AT TIME ZONE public.salon_timezone())::TIME, v_service.duration,
+            v_start, v_end, 'pending', NULLIF(p_booking->>'notes', '')
+        )
+        RETURNING * INTO v_booking;
+
+        RETURN jsonb_build_object(
+            'id', v_booking.id,
+            'staffId', v_candidate.staff_id,
+            'staffName', v_candidate.staff_name,
+            'startAt', v_booking.start_at,
+            'endAt', v_booking.end_at
+        );
+    END LOOP;
+
+    RAISE EXCEPTION 'Time slot no longer available for %', v_service.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; the public booking page runs as anon. The slot checks
+-- are internal to the booking functions and triggers.
+REVOKE EXECUTE ON FUNCTION public.is_staff_slot_free(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_within_working_hours(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_bookable_staff(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_staff_busy_times(UUID[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_public_booking(JSONB) TO anon, authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.staff_working_hours ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read working hours; the public booking page builds its slots from them
+CREATE POLICY "Allow everyone to read staff working hours" ON public.staff_working_hours
+    FOR SELECT TO anon, authenticated USING (true);
+
+-- Only admins can change working hours
+CREATE POLICY "Allow admin users to manage staff working hours" ON public.staff_working_hours
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.services.buffer_minutes IS 'Clean-up and turnover time kept free after the service';
+COMMENT ON TABLE public.staff_working_hours IS 'Weekly working hours of each staff member, in salon local time';
+COMMENT ON COLUMN public.staff_working_hours.weekday IS '0 = Sunday ... 6 = Saturday';
+COMMENT ON FUNCTION public.get_staff_busy_times(UUID[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) IS 'Busy periods of staff, buffers included, without client data';
+COMMENT ON FUNCTION public.create_public_booking(JSONB) IS 'Books a free slot for an online client, rejecting slots taken in the meantime';
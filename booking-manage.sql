@@ -0,0 +1,273 @@
+-- ============================================================================
+-- SELF-SERVICE BOOKING MANAGEMENT
+-- ============================================================================
+-- Builds on booking-availability.sql, booking-segments.sql and
+-- booking-reminders.sql. Each booking has a secret manage token; the link
+-- /booking/manage/<token>, sent with the confirmation and reminder, lets the
+-- client see their upcoming bookings and cancel or reschedule them without
+-- signing in. A link works until the start of the booking it was sent for.
+--
+-- Changes are only allowed up to cancellation_notice_hours() before a
+-- booking; later than that the client has to call the salon. Rescheduling
+-- goes through the same checks as create_public_booking(): the staff member
+-- must offer the service, be working and be free, under the same lock.
+-- Multi-service bookings can be cancelled but not moved online.
+-- ============================================================================
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS manage_token TEXT UNIQUE
+    DEFAULT replace(gen_random_uuid()::TEXT, '-', '') || replace(gen_random_uuid()::TEXT, '-', '');
+
+-- ----------------------------------------------------------------------------
+-- How long before a booking clients can still cancel or move it online
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.cancellation_notice_hours()
+RETURNS INTEGER AS $$
+    SELECT 24;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ----------------------------------------------------------------------------
+-- Client behind a manage token, while the token's booking is upcoming
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.manage_token_client(p_token TEXT)
+RETURNS UUID AS $$
+    SELECT client_id
+    FROM public.bookings
+    WHERE manage_token = p_token AND start_at > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- The page behind a manage link, or NULL when the link is not valid:
+-- { "clientName": "...", "cancellationNoticeHours": 24,
+--   "bookings": [{ "id", "serviceId", "serviceName", "duration", "bufferMinutes",
+--                  "staffId", "staffName", "startAt", "endAt", "status",
+--                  "hasSegments", "canChange" }, ...] }
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_managed_bookings(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_client_id UUID := public.manage_token_client(p_token);
+BEGIN
+    IF v_client_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'clientName', (SELECT name FROM public.clients WHERE id = v_client_id),
+        'cancellationNoticeHours', public.cancellation_notice_hours(),
+        'bookings', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', b.id,
+                'serviceId', b.service_id,
+                'serviceName', s.name,
+                'duration', b.duration,
+                'bufferMinutes', COALESCE(s.buffer_minutes, 0),
+                'staffId', b.staff_id,
+                'staffName', u.name,
+                'startAt', b.start_at,
+                'endAt', b.end_at,
+                'status', b.status,
+                'hasSegments', b.has_segments,
+                'canChange', b.start_at - NOW() >= make_interval(hours => public.cancellation_notice_hours())
+            ) ORDER BY b.start_at)
+            FROM public.bookings b
+            JOIN public.services s ON s.id = b.service_id
+            LEFT JOIN public.users u ON u.id = b.staff_id
+            WHERE b.client_id = v_client_id
+              AND b.status IN ('pending', 'confirmed')
+              AND b.start_at > NOW()
+        ), '[]'::JSONB)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Upcoming booking of the token's client that may still be changed online.
+-- Raises 'This link is no longer valid', 'Booking not found' or 'Too late to
+-- change this booking online'.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.managed_booking(p_token TEXT, p_booking_id UUID)
+RETURNS public.bookings AS $$
+DECLARE
+    v_client_id UUID := public.manage_token_client(p_token);
+    v_booking public.bookings;
+BEGIN
+    IF v_client_id IS NULL THEN
+        RAISE EXCEPTION 'This link is no longer valid';
+    END IF;
+
+    SELECT * INTO v_booking
+    FROM public.bookings
+    WHERE id = p_booking_id
+      AND client_id = v_client_id
+      AND status IN ('pending', 'confirmed')
+      AND start_at > NOW()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found';
+    END IF;
+
+    IF v_booking.start_at - NOW() < make_interval(hours => public.cancellation_notice_hours()) THEN
+        RAISE EXCEPTION 'Too late to change this booking online';
+    END IF;
+
+    RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.cancel_managed_booking(p_token TEXT, p_booking_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM public.managed_booking(p_token, p_booking_id);
+    PERFORM public.set_booking_status(p_booking_id, 'cancelled', 'Cancelled by the client online');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Move a booking to a new start. p_change:
+-- { "startAt": "2026-10-20T10:00:00Z",
+--   "staffId": "uuid" }               -- optional; without it anyone free
+-- Returns { "id", "staffId", "staffName", "startAt", "endAt" } or raises
+-- 'Time slot no longer available' as create_public_booking() does.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.reschedule_managed_booking(p_token TEXT, p_booking_id UUID, p_change JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_booking public.bookings;
+    v_service RECORD;
+    v_start TIMESTAMP WITH TIME ZONE := (p_change->>'startAt')::TIMESTAMP WITH TIME ZONE;
+    v_end TIMESTAMP WITH TIME ZONE;
+    v_preferred UUID := NULLIF(p_change->>'staffId', '')::UUID;
+    v_local_day DATE;
+    v_candidate RECORD;
+BEGIN
+    v_booking := public.managed_booking(p_token, p_booking_id);
+
+    IF v_booking.has_segments THEN
+        RAISE EXCEPTION 'Bookings with several services cannot be moved online';
+    END IF;
+
+    IF v_start IS NULL OR v_start <= NOW() THEN
+        RAISE EXCEPTION 'Bookings must start in the future';
+    END IF;
+
+    SELECT id, name, duration, buffer_minutes INTO v_service
+    FROM public.services
+    WHERE id = v_booking.service_id;
+
+    v_end := v_start + make_interval(mins => v_service.duration);
+    v_local_day := (v_start AT TIME ZONE public.salon_timezone())::DATE;
+
+    FOR v_candidate IN
+        SELECT bs.staff_id, bs.staff_name
+        FROM public.get_bookable_staff(v_service.id) bs
+        WHERE v_preferred IS NULL OR bs.staff_id = v_preferred
+        ORDER BY (bs.staff_id = v_booking.staff_id) DESC, (
+            SELECT COUNT(*) FROM public.bookings b
+            WHERE b.staff_id = bs.staff_id
+              AND COALESCE(b.status, 'pending') NOT IN ('cancelled', 'no_show')
+              AND (b.start_at AT TIME ZONE public.salon_timezone())::DATE = v_local_day
+        ), bs.staff_name
+    LOOP
+        PERFORM pg_advisory_xact_lock(hashtext('booking_staff:' || v_candidate.staff_id::TEXT));
+
+        CONTINUE WHEN NOT public.is_within_working_hours(v_candidate.staff_id, v_start, v_end);
+        CONTINUE WHEN NOT public.is_staff_slot_free(v_candidate.staff_id, v_start, v_end, v_service.buffer_minutes, v_booking.id);
+
+        UPDATE public.bookings
+        SET staff_id = v_candidate.staff_id,
+            date = v_local_day,
+            time = (v_start AT TIME ZONE public.salon_timezone())::TIME,
+            duration = v_service.duration,
+            start_at = v_start,
+            end_at = v_end,
+            updated_at = NOW()
+        WHERE id = v_booking.id;
+
+        -- The client is reminded again of the new time
+        DELETE FROM public.booking_messages
+        WHERE booking_id = v_booking.id AND kind = 'reminder';
+
+        RETURN jsonb_build_object(
+            'id', v_booking.id,
+            'staffId', v_candidate.staff_id,
+            'staffName', v_candidate.staff_name,
+            'startAt', v_start,
+            'endAt', v_end
+        );
+    END LOOP;
+
+    RAISE EXCEPTION 'Time slot no longer available for %', v_service.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Due messages carry the booking's manage token, for the link in them.
+-- Replaces the version of booking-reminders.sql.
+-- ----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.get_due_booking_messages(INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_due_booking_messages(p_reminder_hours INTEGER DEFAULT 24)
+RETURNS TABLE (
+    booking_id UUID,
+    kind TEXT,
+    client_name TEXT,
+    client_phone TEXT,
+    client_language TEXT,
+    service_name TEXT,
+    staff_name TEXT,
+    start_at TIMESTAMP WITH TIME ZONE,
+    manage_token TEXT
+) AS $$
+    WITH candidates AS (
+        SELECT b.id, 'confirmation'::TEXT AS kind
+        FROM public.bookings b
+        WHERE b.created_at > NOW() - INTERVAL '1 day'
+          AND EXISTS (
+              SELECT 1 FROM public.booking_status_history h
+              WHERE h.booking_id = b.id AND h.from_status IS NULL AND h.changed_by IS NULL
+          )
+        UNION ALL
+        SELECT b.id, 'reminder'::TEXT
+        FROM public.bookings b
+        WHERE b.start_at <= NOW() + make_interval(hours => p_reminder_hours)
+          -- Bookings made within the reminder window are fresh in mind
+          AND b.created_at < b.start_at - make_interval(hours => p_reminder_hours)
+    )
+    SELECT b.id, c.kind, cl.name, cl.phone, cl.language, s.name, u.name, b.start_at, b.manage_token
+    FROM candidates c
+    JOIN public.bookings b ON b.id = c.id
+    JOIN public.clients cl ON cl.id = b.client_id
+    JOIN public.services s ON s.id = b.service_id
+    JOIN public.users u ON u.id = b.staff_id
+    WHERE b.status IN ('pending', 'confirmed')
+      AND b.start_at > NOW()
+      AND COALESCE(cl.phone, '') <> ''
+      AND NOT EXISTS (
+          SELECT 1 FROM public.booking_messages m
+          WHERE m.booking_id = b.id AND m.kind = c.kind AND m.status <> 'failed'
+      )
+      AND (
+          SELECT COUNT(*) FROM public.booking_messages m
+          WHERE m.booking_id = b.id AND m.kind = c.kind AND m.status = 'failed'
+      ) < 3
+    ORDER BY b.start_at;
+$$ LANGUAGE sql STABLE;
+
+-- Grant permissions; the manage page runs as anon and only reaches bookings
+-- through these functions
+REVOKE EXECUTE ON FUNCTION public.manage_token_client(TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.managed_booking(TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cancellation_notice_hours() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_managed_bookings(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_managed_booking(TEXT, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reschedule_managed_booking(TEXT, UUID, JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_due_booking_messages(INTEGER) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.bookings.manage_token IS 'Secret of the link the client manages their bookings with';
+COMMENT ON FUNCTION public.cancellation_notice_hours() IS 'Hours before a booking after which it can no longer be changed online';
+COMMENT ON FUNCTION public.get_managed_bookings(TEXT) IS 'Upcoming bookings of the client behind a manage link';
+COMMENT ON FUNCTION public.cancel_managed_booking(TEXT, UUID) IS 'Cancels a booking from its client''s manage link, within the notice window';
+COMMENT ON FUNCTION public.reschedule_managed_booking(TEXT, UUID, JSONB) IS 'Moves a booking from its client''s manage link to a slot that is still free';
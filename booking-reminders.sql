@@ -0,0 +1,193 @@
+-- ============================================================================
+-- BOOKING REMINDERS AND CONFIRMATIONS
+-- ============================================================================
+-- Builds on booking-status.sql. Clients get a WhatsApp message when they book
+-- online and a reminder some hours before each booking, in their language.
+-- Both ask them to reply 1 to confirm or 2 to cancel; the whatsapp-webhook
+-- edge function passes replies and delivery receipts back here.
+--
+-- Every message sent or received is logged against its booking in
+-- booking_messages, failed attempts included, so the front desk can see who
+-- was reached. The app's scheduler sends the messages (see schedulerService)
+-- and retries a failed one up to three times.
+-- ============================================================================
+
+-- Language of the messages a client receives; NULL uses the salon's default
+ALTER TABLE public.clients
+ADD COLUMN IF NOT EXISTS language TEXT CHECK (language IN ('fr', 'ar', 'en'));
+
+CREATE TABLE IF NOT EXISTS public.booking_messages (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('confirmation', 'reminder', 'reply')),
+    direction TEXT NOT NULL CHECK (direction IN ('outbound', 'inbound')),
+    phone TEXT NOT NULL,
+    body TEXT NOT NULL,
+    -- outbound: sent, then delivered and read as receipts arrive, or failed;
+    -- inbound: received
+    status TEXT NOT NULL CHECK (status IN ('sent', 'delivered', 'read', 'failed', 'received')),
+    error TEXT,
+    provider_message_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_messages_booking ON public.booking_messages(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_booking_messages_provider_id ON public.booking_messages(provider_message_id);
+
+-- ----------------------------------------------------------------------------
+-- Last nine digits of a phone number, which match whether it was written
+-- 06..., +2126... or 2126...
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.phone_key(p_phone TEXT)
+RETURNS TEXT AS $$
+    SELECT RIGHT(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 9);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ----------------------------------------------------------------------------
+-- Messages to send now: a confirmation for upcoming bookings made online
+-- (created without a signed-in user) in the last day, and a reminder for
+-- upcoming bookings starting within p_reminder_hours that were made before
+-- that. A message is due until it has been sent, or has failed three times.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_due_booking_messages(p_reminder_hours INTEGER DEFAULT 24)
+RETURNS TABLE (
+    booking_id UUID,
+    kind TEXT,
+    client_name TEXT,
+    client_phone TEXT,
+    client_language TEXT,
+    service_name TEXT,
+    staff_name TEXT,
+    start_at TIMESTAMP WITH TIME ZONE
+) AS $$
+    WITH candidates AS (
+        SELECT b.id, 'confirmation'::TEXT AS kind
+        FROM public.bookings b
+        WHERE b.created_at > NOW() - INTERVAL '1 day'
+          AND EXISTS (
+              SELECT 1 FROM public.booking_status_history h
+              WHERE h.booking_id = b.id AND h.from_status IS NULL AND h.changed_by IS NULL
+          )
+        UNION ALL
+        SELECT b.id, 'reminder'::TEXT
+        FROM public.bookings b
+        WHERE b.start_at <= NOW() + make_interval(hours => p_reminder_hours)
+          -- Bookings made within the reminder window are fresh in mind
+          AND b.created_at < b.start_at - make_interval(hours => p_reminder_hours)
+    )
+    SELECT b.id, c.kind, cl.name, cl.phone, cl.language, s.name, u.name, b.start_at
+    FROM candidates c
+    JOIN public.bookings b ON b.id = c.id
+    JOIN public.clients cl ON cl.id = b.client_id
+    JOIN public.services s ON s.id = b.service_id
+    JOIN public.users u ON u.id = b.staff_id
+    WHERE b.status IN ('pending', 'confirmed')
+      AND b.start_at > NOW()
+      AND COALESCE(cl.phone, '') <> ''
+      AND NOT EXISTS (
+          SELECT 1 FROM public.booking_messages m
+          WHERE m.booking_id = b.id AND m.kind = c.kind AND m.status <> 'failed'
+      )
+      AND (
+          SELECT COUNT(*) FROM public.booking_messages m
+          WHERE m.booking_id = b.id AND m.kind = c.kind AND m.status = 'failed'
+      ) < 3
+    ORDER BY b.start_at;
+$$ LANGUAGE sql STABLE;
+
+-- ----------------------------------------------------------------------------
+-- A client's reply: "1" confirms and "2" cancels the upcoming booking they
+-- were last messaged about. Anything else is only logged. Returns
+-- { "bookingId": "uuid" | null, "action": "confirmed" | "cancelled" | "ignored" }.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.handle_booking_reply(p_phone TEXT, p_body TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_booking public.bookings;
+    v_answer TEXT := btrim(COALESCE(p_body, ''));
+    v_action TEXT := 'ignored';
+BEGIN
+    SELECT b.* INTO v_booking
+    FROM public.booking_messages m
+    JOIN public.bookings b ON b.id = m.booking_id
+    WHERE m.direction = 'outbound'
+      AND m.status <> 'failed'
+      AND public.phone_key(m.phone) = public.phone_key(p_phone)
+      AND b.status IN ('pending', 'confirmed')
+      AND b.start_at > NOW()
+    ORDER BY m.created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('bookingId', NULL, 'action', v_action);
+    END IF;
+
+    INSERT INTO public.booking_messages (booking_id, kind, direction, phone, body, status)
+    VALUES (v_booking.id, 'reply', 'inbound', p_phone, COALESCE(p_body, ''), 'received');
+
+    IF v_answer = '1' THEN
+        IF v_booking.status = 'pending' THEN
+            PERFORM public.set_booking_status(v_booking.id, 'confirmed', 'Confirmed by the client''s reply');
+        END IF;
+        v_action := 'confirmed';
+    ELSIF v_answer = '2' THEN
+        PERFORM public.set_booking_status(v_booking.id, 'cancelled', 'Cancelled by the client''s reply');
+        v_action := 'cancelled';
+    END IF;
+
+    RETURN jsonb_build_object('bookingId', v_booking.id, 'action', v_action);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Delivery receipt for a sent message. Statuses only move forward, as
+-- receipts can arrive out of order.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_booking_message_status(
+    p_provider_message_id TEXT,
+    p_status TEXT,
+    p_error TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+    UPDATE public.booking_messages
+    SET status = p_status,
+        error = COALESCE(p_error, error),
+        updated_at = NOW()
+    WHERE provider_message_id = p_provider_message_id
+      AND direction = 'outbound'
+      AND p_status IN ('delivered', 'read', 'failed')
+      AND CASE status WHEN 'sent' THEN 1 WHEN 'delivered' THEN 2 WHEN 'read' THEN 3 ELSE 4 END
+        < CASE p_status WHEN 'delivered' THEN 2 WHEN 'read' THEN 3 ELSE 4 END;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Grant permissions; replies and receipts come in through the webhook, which
+-- uses the service role
+GRANT EXECUTE ON FUNCTION public.phone_key(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_due_booking_messages(INTEGER) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.handle_booking_reply(TEXT, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.record_booking_message_status(TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.handle_booking_reply(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_booking_message_status(TEXT, TEXT, TEXT) TO service_role;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.booking_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read booking messages" ON public.booking_messages
+    FOR SELECT TO authenticated USING (true);
+
+-- The scheduler runs in the admin's browser and logs what it sends
+CREATE POLICY "Allow admin users to log booking messages" ON public.booking_messages
+    FOR INSERT TO authenticated WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.clients.language IS 'Language of the messages sent to the client (fr, ar or en); NULL uses the salon default';
+COMMENT ON TABLE public.booking_messages IS 'Confirmations, reminders and client replies per booking, with their delivery status';
+COMMENT ON FUNCTION public.get_due_booking_messages(INTEGER) IS 'Confirmations and reminders that are due and not yet sent';
+COMMENT ON FUNCTION public.handle_booking_reply(TEXT, TEXT) IS 'Confirms or cancels a booking from the client''s 1/2 reply';
+COMMENT ON FUNCTION public.record_booking_message_status(TEXT, TEXT, TEXT) IS 'Records a delivery receipt for a sent message';
@@ -0,0 +1,291 @@
+-- ============================================================================
+-- MULTI-SERVICE BOOKINGS
+-- ============================================================================
+-- Builds on booking-availability.sql, staff-schedules.sql and
+-- booking-status.sql. A visit such as "colour with Fatima, then blow-dry with
+-- Sara" is one booking made of ordered segments, each with its own service,
+-- staff member and times. The booking row keeps the first segment's service
+-- and staff and spans the whole visit; its status covers every segment.
+--
+-- Each segment holds only its own staff member's time: busy times and the
+-- overlap checks read booking_staff_periods, which lists the segments of
+-- multi-service bookings and the booking itself otherwise.
+-- ============================================================================
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS has_segments BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.booking_segments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    position SMALLINT NOT NULL CHECK (position >= 0),
+    service_id UUID NOT NULL REFERENCES public.services(id),
+    staff_id UUID NOT NULL REFERENCES public.users(id),
+    start_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_at > start_at),
+    UNIQUE (booking_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_segments_staff_start_at ON public.booking_segments(staff_id, start_at);
+
+-- ----------------------------------------------------------------------------
+-- Staff time held by each booking
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE VIEW public.booking_staff_periods
+WITH (security_invoker = true) AS
+    SELECT b.id AS booking_id, b.staff_id, b.service_id, b.start_at, b.end_at, b.status
+    FROM public.bookings b
+    WHERE NOT b.has_segments
+    UNION ALL
+    SELECT s.booking_id, s.staff_id, s.service_id, s.start_at, s.end_at, b.status
+    FROM public.booking_segments s
+    JOIN public.bookings b ON b.id = s.booking_id;
+
+-- ----------------------------------------------------------------------------
+-- Busy periods and free slots, segment by segment. Replace the versions of
+-- booking-availability.sql.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_staff_busy_times(
+    p_staff_ids UUID[],
+    p_from TIMESTAMP WITH TIME ZONE,
+    p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (staff_id UUID, start_at TIMESTAMP WITH TIME ZONE, end_at TIMESTAMP WITH TIME ZONE) AS $$
+    SELECT
+        p.staff_id,
+        p.start_at,
+        p.end_at + make_interval(mins => COALESCE(s.buffer_minutes, 0))
+    FROM public.booking_staff_periods p
+    LEFT JOIN public.services s ON s.id = p.service_id
+    WHERE p.staff_id = ANY(p_staff_ids)
+      AND COALESCE(p.status, 'pending') NOT IN ('cancelled', 'no_show')
+      AND p.start_at < p_to
+      AND p.end_at + make_interval(mins => COALESCE(s.buffer_minutes, 0)) > p_from
+      AND p_to <= p_from + INTERVAL '31 days'
+    ORDER BY p.start_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.is_staff_slot_free(
+    p_staff_id UUID,
+    p_start_at TIMESTAMP WITH TIME ZONE,
+    p_end_at TIMESTAMP WITH TIME ZONE,
+    p_buffer_minutes INTEGER DEFAULT 0,
+    p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+    SELECT NOT EXISTS (
+        SELECT 1
+        FROM public.booking_staff_periods p
+        LEFT JOIN public.services s ON s.id = p.service_id
+        WHERE p.staff_id = p_staff_id
+          AND p.booking_id IS DISTINCT FROM p_exclude_booking_id
+          AND COALESCE(p.status, 'pending') NOT IN ('cancelled', 'no_show')
+          AND p.start_at < p_end_at + make_interval(mins => COALESCE(p_buffer_minutes, 0))
+          AND p.end_at + make_interval(mins => COALESCE(s.buffer_minutes, 0)) > p_start_at
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Bookings trigger: multi-service bookings are checked segment by segment
+-- instead. Replaces the version of staff-schedules.sql.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.check_booking_overlap()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_buffer INTEGER;
+BEGIN
+    IF NEW.has_segments OR NEW.staff_id IS NULL OR NEW.start_at IS NULL OR NEW.end_at IS NULL
+       OR COALESCE(NEW.status, 'pending') IN ('cancelled', 'no_show') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Status changes of a booking that already holds its slot need no check
+    IF TG_OP = 'UPDATE'
+       AND NEW.staff_id IS NOT DISTINCT FROM OLD.staff_id
+       AND NEW.start_at IS NOT DISTINCT FROM OLD.start_at
+       AND NEW.end_at IS NOT DISTINCT FROM OLD.end_at
+       AND COALESCE(OLD.status, 'pending') NOT IN ('cancelled', 'no_show') THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT public.is_within_working_hours(NEW.staff_id, NEW.start_at, NEW.end_at) THEN
+        RAISE EXCEPTION 'Staff member is not working at this time (outside their schedule, on a break, day off, leave or holiday)';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('booking_staff:' || NEW.staff_id::TEXT));
+
+    SELECT buffer_minutes INTO v_buffer FROM public.services WHERE id = NEW.service_id;
+
+    IF NOT public.is_staff_slot_free(NEW.staff_id, NEW.start_at, NEW.end_at, COALESCE(v_buffer, 0), NEW.id) THEN
+        RAISE EXCEPTION 'Time slot no longer available: the staff member is already booked at this time';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Segments get the same checks as single bookings: inside the staff member's
+-- schedule and clear of their other bookings
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.check_booking_segment_overlap()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_status TEXT;
+    v_buffer INTEGER;
+    v_service_name TEXT;
+BEGIN
+    SELECT status INTO v_status FROM public.bookings WHERE id = NEW.booking_id;
+
+    IF COALESCE(v_status, 'pending') IN ('cancelled', 'no_show') THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT name, buffer_minutes INTO v_service_name, v_buffer FROM public.services WHERE id = NEW.service_id;
+
+    IF NOT public.is_within_working_hours(NEW.staff_id, NEW.start_at, NEW.end_at) THEN
+        RAISE EXCEPTION 'Staff member is not working at this time for %', v_service_name;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('booking_staff:' || NEW.staff_id::TEXT));
+
+    IF NOT public.is_staff_slot_free(NEW.staff_id, NEW.start_at, NEW.end_at, COALESCE(v_buffer, 0), NEW.booking_id) THEN
+        RAISE EXCEPTION 'Time slot no longer available for %: the staff member is already booked at this time', v_service_name;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_booking_segment_overlap ON public.booking_segments;
+CREATE TRIGGER check_booking_segment_overlap
+    BEFORE INSERT OR UPDATE OF staff_id, start_at, end_at ON public.booking_segments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_booking_segment_overlap();
+
+-- ----------------------------------------------------------------------------
+-- Book several services back to back, from the public page or the admin
+-- screen. p_booking:
+-- {
+--   "clientId": "uuid", "startAt": "2026-10-20T10:00:00Z", "notes": "...",
+--   "segments": [
+--     { "serviceId": "uuid", "staffId": "uuid" },  -- in the order performed
+--     ...
+--   ]
+-- }
+-- Each segment starts when the previous one ends and must go to a staff
+-- member offering the service. Raises 'Time slot no longer available' when
+-- one of them has been booked in the meantime.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.create_multi_service_booking(p_booking JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_start TIMESTAMP WITH TIME ZONE := (p_booking->>'startAt')::TIMESTAMP WITH TIME ZONE;
+    v_segment_start TIMESTAMP WITH TIME ZONE;
+    v_segment JSONB;
+    v_position INTEGER := 0;
+    v_service RECORD;
+    v_staff_id UUID;
+    v_segments JSONB := '[]'::JSONB;
+    v_first JSONB;
+    v_booking RECORD;
+BEGIN
+    IF jsonb_array_length(COALESCE(p_booking->'segments', '[]'::JSONB)) < 2 THEN
+        RAISE EXCEPTION 'A multi-service booking needs at least two services';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.clients WHERE id = (p_booking->>'clientId')::UUID) THEN
+        RAISE EXCEPTION 'Client not found: %', p_booking->>'clientId';
+    END IF;
+
+    IF v_start IS NULL OR v_start <= NOW() THEN
+        RAISE EXCEPTION 'Bookings must start in the future';
+    END IF;
+
+    -- Lay the segments out back to back
+    v_segment_start := v_start;
+    FOR v_segment IN SELECT * FROM jsonb_array_elements(p_booking->'segments') LOOP
+        SELECT id, name, duration INTO v_service
+        FROM public.services
+        WHERE id = (v_segment->>'serviceId')::UUID AND is_active = true;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Service not found: %', v_segment->>'serviceId';
+        END IF;
+
+        v_staff_id := NULLIF(v_segment->>'staffId', '')::UUID;
+        IF NOT EXISTS (SELECT 1 FROM public.get_bookable_staff(v_service.id) WHERE staff_id = v_staff_id) THEN
+            RAISE EXCEPTION 'No staff member chosen who offers %', v_service.name;
+        END IF;
+
+        v_segments := v_segments || jsonb_build_object(
+            'position', v_position,
+            'serviceId', v_service.id,
+            'staffId', v_staff_id,
+            'duration', v_service.duration,
+            'startAt', v_segment_start,
+            'endAt', v_segment_start + make_interval(mins => v_service.duration)
+        );
+        v_segment_start := v_segment_start + make_interval(mins => v_service.duration);
+        v_position := v_position + 1;
+    END LOOP;
+
+    v_first := v_segments->0;
+
+    INSERT INTO public.bookings (
+        client_id, service_id, staff_id, date, time, duration,
+        start_at, end_at, status, notes, has_segments
+    ) VALUES (
+        (p_booking->>'clientId')::UUID, (v_first->>'serviceId')::UUID, (v_first->>'staffId')::UUID,
+        (v_start AT TIME ZONE public.salon_timezone())::DATE, (v_start AT TIME ZONE public.salon_timezone())::TIME,
+        EXTRACT(EPOCH FROM v_segment_start - v_start)::INTEGER / 60,
+        v_start, v_segment_start, 'pending', NULLIF(p_booking->>'notes', ''), true
+    )
+    RETURNING * INTO v_booking;
+
+    -- The segment trigger checks each staff member's schedule and bookings
+    INSERT INTO public.booking_segments (booking_id, position, service_id, staff_id, start_at, end_at)
+    SELECT
+        v_booking.id,
+        (segment->>'position')::SMALLINT,
+        (segment->>'serviceId')::UUID,
+        (segment->>'staffId')::UUID,
+        (segment->>'startAt')::TIMESTAMP WITH TIME ZONE,
+        (segment->>'endAt')::TIMESTAMP WITH TIME ZONE
+    FROM jsonb_array_elements(v_segments) AS segment;
+
+    RETURN jsonb_build_object(
+        'id', v_booking.id,
+        'startAt', v_booking.start_at,
+        'endAt', v_booking.end_at,
+        'segments', v_segments
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; the public booking page runs as anon
+GRANT EXECUTE ON FUNCTION public.create_multi_service_booking(JSONB) TO anon, authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.booking_segments ENABLE ROW LEVEL SECURITY;
+
+-- Staff see who does what in every visit, as they do for bookings
+CREATE POLICY "Allow authenticated users to read booking segments" ON public.booking_segments
+    FOR SELECT TO authenticated USING (true);
+
+-- Segments are created by create_multi_service_booking(); admins may fix them
+CREATE POLICY "Allow admin users to manage booking segments" ON public.booking_segments
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.bookings.has_segments IS 'Multi-service booking; staff time is held by its booking_segments';
+COMMENT ON TABLE public.booking_segments IS 'Services of a multi-service booking in the order performed, each with its own staff member';
+COMMENT ON VIEW public.booking_staff_periods IS 'Staff time held by bookings: segments of multi-service bookings, the booking itself otherwise';
+COMMENT ON FUNCTION public.create_multi_service_booking(JSONB) IS 'Books several services back to back with their own staff, rejecting slots taken in the meantime';
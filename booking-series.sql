@@ -0,0 +1,221 @@
+-- ============================================================================
+-- RECURRING BOOKINGS
+-- ============================================================================
+-- Builds on booking-status.sql and booking-segments.sql. A standing
+-- appointment ("every four weeks with Fatima") is a booking series: a rule
+-- (every N weeks, until a date or for a number of visits) and the bookings
+-- generated from it, numbered in order. Each occurrence is an ordinary
+-- booking, so availability, status and checkout work as for any other; the
+-- series only records where they came from so they can be changed together.
+-- Occurrences keep the first one's time of day in the salon's time zone.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.booking_series (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES public.services(id),
+    staff_id UUID NOT NULL REFERENCES public.users(id),
+    interval_weeks SMALLINT NOT NULL CHECK (interval_weeks BETWEEN 1 AND 52),
+    until_date DATE,
+    occurrence_count SMALLINT CHECK (occurrence_count BETWEEN 1 AND 52),
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES public.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.booking_series(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS series_index SMALLINT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series ON public.bookings(series_id, series_index);
+
+-- ----------------------------------------------------------------------------
+-- Create a series and book its occurrences. p_series:
+-- {
+--   "clientId": "uuid", "serviceId": "uuid", "staffId": "uuid",
+--   "startAt": "2026-10-20T10:00:00Z",  -- first occurrence
+--   "intervalWeeks": 2,
+--   "untilDate": "2027-03-31",          -- and/or
+--   "count": 10,                        -- at most 52 occurrences either way
+--   "skipIndexes": [3, 7],              -- occurrences already known to be taken
+--   "notes": "..."
+-- }
+-- Occurrences that are taken or outside the staff member's schedule are
+-- skipped and reported rather than failing the series:
+-- { "seriesId": "uuid",
+--   "created": [{ "index": 0, "id": "uuid", "startAt": "..." }, ...],
+--   "skipped": [{ "index": 3, "startAt": "...", "reason": "..." }, ...] }
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.create_booking_series(p_series JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_start TIMESTAMP WITH TIME ZONE := (p_series->>'startAt')::TIMESTAMP WITH TIME ZONE;
+    v_local_start TIMESTAMP;
+    v_interval INTEGER := (p_series->>'intervalWeeks')::INTEGER;
+    v_until DATE := NULLIF(p_series->>'untilDate', '')::DATE;
+    v_count INTEGER := LEAST(COALESCE(NULLIF(p_series->>'count', '')::INTEGER, 52), 52);
+    v_skip INTEGER[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_series->'skipIndexes', '[]'::JSONB))::INTEGER);
+    v_service RECORD;
+    v_series_id UUID;
+    v_index INTEGER;
+    v_occurrence_local TIMESTAMP;
+    v_occurrence TIMESTAMP WITH TIME ZONE;
+    v_booking_id UUID;
+    v_created JSONB := '[]'::JSONB;
+    v_skipped JSONB := '[]'::JSONB;
+BEGIN
+    IF v_start IS NULL OR v_start <= NOW() THEN
+        RAISE EXCEPTION 'Bookings must start in the future';
+    END IF;
+
+    IF v_interval IS NULL OR v_interval NOT BETWEEN 1 AND 52 THEN
+        RAISE EXCEPTION 'Repeat every 1 to 52 weeks';
+    END IF;
+
+    IF v_until IS NULL AND NULLIF(p_series->>'count', '') IS NULL THEN
+        RAISE EXCEPTION 'A series needs an end date or a number of bookings';
+    END IF;
+
+    SELECT id, name, duration INTO v_service
+    FROM public.services
+    WHERE id = (p_series->>'serviceId')::UUID AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Service not found: %', p_series->>'serviceId';
+    END IF;
+
+    INSERT INTO public.booking_series (
+        client_id, service_id, staff_id, interval_weeks, until_date,
+        occurrence_count, starts_at, notes
+    ) VALUES (
+        (p_series->>'clientId')::UUID, v_service.id, (p_series->>'staffId')::UUID, v_interval, v_until,
+        NULLIF(p_series->>'count', '')::SMALLINT, v_start, NULLIF(p_series->>'notes', '')
+    )
+    RETURNING id INTO v_series_id;
+
+    -- Step in salon time so a visit at 10:00 stays at 10:00 across DST changes
+    v_local_start := v_start AT TIME ZONE public.salon_timezone();
+
+    FOR v_index IN 0 .. v_count - 1 LOOP
+        v_occurrence_local := v_local_start + make_interval(weeks => v_index * v_interval);
+        EXIT WHEN v_until IS NOT NULL AND v_occurrence_local::DATE > v_until;
+        v_occurrence := v_occurrence_local AT TIME ZONE public.salon_timezone();
+
+        IF v_index = ANY(v_skip) THEN
+            v_skipped := v_skipped || jsonb_build_object(
+                'index', v_index, 'startAt', v_occurrence, 'reason', 'Not available'
+            );
+            CONTINUE;
+        END IF;
+
+        -- The bookings trigger checks the schedule and other bookings
+        BEGIN
+            INSERT INTO public.bookings (
+                client_id, service_id, staff_id, date, time, duration,
+                start_at, end_at, status, notes, series_id, series_index
+            ) VALUES (
+                (p_series->>'clientId')::UUID, v_service.id, (p_series->>'staffId')::UUID,
+                v_occurrence_local::DATE, v_occurrence_local::TIME, v_service.duration,
+                v_occurrence, v_occurrence + make_interval(mins => v_service.duration),
+                'pending', NULLIF(p_series->>'notes', ''), v_series_id, v_index
+            )
+            RETURNING id INTO v_booking_id;
+
+            v_created := v_created || jsonb_build_object(
+                'index', v_index, 'id', v_booking_id, 'startAt', v_occurrence
+            );
+        EXCEPTION WHEN raise_exception THEN
+            v_skipped := v_skipped || jsonb_build_object(
+                'index', v_index, 'startAt', v_occurrence, 'reason', SQLERRM
+            );
+        END;
+    END LOOP;
+
+    IF jsonb_array_length(v_created) = 0 THEN
+        RAISE EXCEPTION 'None of the dates in this series is available';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'seriesId', v_series_id,
+        'created', v_created,
+        'skipped', v_skipped
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------------------------------------
+-- Cancel one occurrence, it and the ones after it ('following'), or every
+-- occurrence of its series ('all'). Occurrences the client has already
+-- arrived for, or that are over, are left as they are. Returns the ids of
+-- the cancelled bookings; each change is logged with the note.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.cancel_booking_series(
+    p_booking_id UUID,
+    p_scope TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS UUID[] AS $$
+DECLARE
+    v_booking public.bookings;
+    v_ids UUID[];
+BEGIN
+    IF p_scope NOT IN ('this', 'following', 'all') THEN
+        RAISE EXCEPTION 'Unknown scope: %', p_scope;
+    END IF;
+
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found';
+    END IF;
+
+    IF p_scope = 'this' OR v_booking.series_id IS NULL THEN
+        PERFORM public.set_booking_status(p_booking_id, 'cancelled', p_note);
+        RETURN ARRAY[p_booking_id];
+    END IF;
+
+    PERFORM set_config('app.booking_status_note', COALESCE(p_note, ''), true);
+
+    WITH cancelled AS (
+        UPDATE public.bookings
+        SET status = 'cancelled',
+            updated_at = NOW()
+        WHERE series_id = v_booking.series_id
+          AND (p_scope = 'all' OR series_index >= v_booking.series_index)
+          AND COALESCE(status, 'pending') IN ('pending', 'confirmed')
+        RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), ARRAY[]::UUID[]) INTO v_ids FROM cancelled;
+
+    PERFORM set_config('app.booking_status_note', '', true);
+
+    RETURN v_ids;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant permissions; both run as the caller, so RLS on bookings applies
+GRANT EXECUTE ON FUNCTION public.create_booking_series(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_booking_series(UUID, TEXT, TEXT) TO authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read booking series" ON public.booking_series
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow admin users to manage booking series" ON public.booking_series
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.booking_series IS 'Recurrence rules of standing appointments; their bookings carry series_id';
+COMMENT ON COLUMN public.bookings.series_id IS 'Booking series this booking was generated from, if any';
+COMMENT ON COLUMN public.bookings.series_index IS '0-based position of the booking in its series';
+COMMENT ON FUNCTION public.create_booking_series(JSONB) IS 'Creates a booking series, skipping and reporting dates that are not available';
+COMMENT ON FUNCTION public.cancel_booking_series(UUID, TEXT, TEXT) IS 'Cancels one occurrence, it and the following ones, or a whole series';
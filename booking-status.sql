@@ -0,0 +1,173 @@
+-- ============================================================================
+-- BOOKING STATUS LIFECYCLE
+-- ============================================================================
+-- One set of statuses for every screen:
+--   pending -> confirmed -> checked_in -> in_progress -> completed
+-- plus cancelled and no_show. Steps may be skipped going forward, never taken
+-- back, and completed, cancelled and no_show are final. The transition table
+-- is mirrored in src/services/BookingStatusService.ts.
+--
+-- The booking_status_transition trigger refuses any other change, stamps the
+-- time of each step on the booking and logs who made it in
+-- booking_status_history, whether the change came from set_booking_status()
+-- or a plain UPDATE.
+-- ============================================================================
+
+-- Older staff screens wrote 'scheduled' for bookings that were not confirmed
+UPDATE public.bookings SET status = 'pending' WHERE status IS NULL OR status = 'scheduled';
+
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE public.bookings ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE public.bookings ALTER COLUMN status SET NOT NULL;
+ALTER TABLE public.bookings ADD CONSTRAINT bookings_status_check CHECK (
+    status IN ('pending', 'confirmed', 'checked_in', 'in_progress', 'completed', 'cancelled', 'no_show')
+);
+
+-- When each step happened
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMP WITH TIME ZONE;
+
+-- Every status a booking went through; changed_by is empty for public
+-- bookings and changes made by the server
+CREATE TABLE IF NOT EXISTS public.booking_status_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_status_history_booking ON public.booking_status_history(booking_id, changed_at);
+
+-- ----------------------------------------------------------------------------
+-- The allowed moves
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.booking_status_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT CASE p_from
+        WHEN 'pending' THEN p_to IN ('confirmed', 'checked_in', 'cancelled', 'no_show')
+        WHEN 'confirmed' THEN p_to IN ('checked_in', 'in_progress', 'cancelled', 'no_show')
+        WHEN 'checked_in' THEN p_to IN ('in_progress', 'cancelled')
+        WHEN 'in_progress' THEN p_to = 'completed'
+        ELSE false
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ----------------------------------------------------------------------------
+-- Refuse other moves and stamp the time of the new status
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.enforce_booking_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status NOT IN ('pending', 'confirmed') THEN
+            RAISE EXCEPTION 'New bookings must be pending or confirmed, not %', NEW.status;
+        END IF;
+    ELSIF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    ELSIF NOT public.booking_status_transition_allowed(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Booking cannot go from % to %', OLD.status, NEW.status;
+    END IF;
+
+    CASE NEW.status
+        WHEN 'confirmed' THEN NEW.confirmed_at := NOW();
+        WHEN 'checked_in' THEN NEW.checked_in_at := NOW();
+        WHEN 'in_progress' THEN NEW.started_at := NOW();
+        WHEN 'completed' THEN NEW.completed_at := NOW();
+        WHEN 'cancelled' THEN NEW.cancelled_at := NOW();
+        WHEN 'no_show' THEN NEW.no_show_at := NOW();
+        ELSE NULL;
+    END CASE;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS booking_status_transition ON public.bookings;
+CREATE TRIGGER booking_status_transition
+    BEFORE INSERT OR UPDATE OF status ON public.bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_booking_status();
+
+-- ----------------------------------------------------------------------------
+-- Log each status with the user who set it. set_booking_status() passes its
+-- note through the app.booking_status_note setting.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.log_booking_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.booking_status_history (booking_id, from_status, to_status, changed_by, note)
+    VALUES (
+        NEW.id,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        NEW.status,
+        auth.uid(),
+        NULLIF(current_setting('app.booking_status_note', true), '')
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS booking_status_history_log ON public.bookings;
+CREATE TRIGGER booking_status_history_log
+    AFTER INSERT OR UPDATE OF status ON public.bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_booking_status();
+
+-- ----------------------------------------------------------------------------
+-- Move a booking to a new status with an optional note (e.g. why it was
+-- cancelled). Runs as the caller, so RLS on bookings still applies.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_booking_status(
+    p_booking_id UUID,
+    p_status TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS public.bookings AS $$
+DECLARE
+    v_booking public.bookings;
+BEGIN
+    PERFORM set_config('app.booking_status_note', COALESCE(p_note, ''), true);
+
+    UPDATE public.bookings
+    SET status = p_status,
+        updated_at = NOW()
+    WHERE id = p_booking_id
+    RETURNING * INTO v_booking;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found';
+    END IF;
+
+    PERFORM set_config('app.booking_status_note', '', true);
+
+    RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.booking_status_transition_allowed(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_booking_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- Add RLS (Row Level Security) policies; rows are only written by the trigger
+ALTER TABLE public.booking_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read booking status history" ON public.booking_status_history
+    FOR SELECT TO authenticated USING (true);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.booking_status_history IS 'Each status a booking went through, when and by whom';
+COMMENT ON FUNCTION public.booking_status_transition_allowed(TEXT, TEXT) IS 'Whether a booking may move from one status to another';
+COMMENT ON FUNCTION public.set_booking_status(UUID, TEXT, TEXT) IS 'Moves a booking to a new status, logging the note with the change';
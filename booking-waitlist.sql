@@ -0,0 +1,312 @@
+-- ============================================================================
+-- BOOKING WAITLIST
+-- ============================================================================
+-- Builds on booking-availability.sql and booking-status.sql. Clients join a
+-- waitlist for a service, optionally with a preferred staff member, for a
+-- window of dates: from the public booking page or added by staff. When a
+-- booking is cancelled or moved, however that happens, a trigger on bookings
+-- calls create_waitlist_offers() to find the entries the freed slot suits
+-- and record an offer for each, with a secret token; the app's scheduler
+-- sends each client a WhatsApp message with a claim link. The first client
+-- to claim books the slot, if it is still free, and the other offers for it
+-- lapse. Offers expire after a while, or when the slot starts.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.waitlist_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES public.services(id),
+    staff_id UUID REFERENCES public.users(id), -- preferred staff member; NULL for anyone
+    date_from DATE NOT NULL,
+    date_to DATE NOT NULL,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'booked', 'cancelled')),
+    source TEXT NOT NULL DEFAULT 'staff' CHECK (source IN ('public', 'staff')),
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL, -- once booked
+    created_by UUID REFERENCES public.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (date_to >= date_from)
+);
+
+CREATE TABLE IF NOT EXISTS public.waitlist_offers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    entry_id UUID NOT NULL REFERENCES public.waitlist_entries(id) ON DELETE CASCADE,
+    source_booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL, -- the cancelled booking
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+    staff_id UUID NOT NULL REFERENCES public.users(id),
+    start_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'claimed', 'superseded')),
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL, -- once claimed
+    sent_at TIMESTAMP WITH TIME ZONE,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_service ON public.waitlist_entries(service_id, status, date_from, date_to);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_entry ON public.waitlist_offers(entry_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_source_booking ON public.waitlist_offers(source_booking_id);
+
+-- ----------------------------------------------------------------------------
+-- Join the waitlist from the public booking page. p_entry:
+-- { "clientId": "uuid", "serviceId": "uuid", "staffId": "uuid" | null,
+--   "dateFrom": "2026-10-20", "dateTo": "2026-10-27", "notes": "..." }
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.join_waitlist(p_entry JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_from DATE := (p_entry->>'dateFrom')::DATE;
+    v_to DATE := (p_entry->>'dateTo')::DATE;
+    v_staff_id UUID := NULLIF(p_entry->>'staffId', '')::UUID;
+    v_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.clients WHERE id = (p_entry->>'clientId')::UUID) THEN
+        RAISE EXCEPTION 'Client not found: %', p_entry->>'clientId';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.services WHERE id = (p_entry->>'serviceId')::UUID AND is_active = true) THEN
+        RAISE EXCEPTION 'Service not found: %', p_entry->>'serviceId';
+    END IF;
+
+    IF v_from IS NULL OR v_to IS NULL OR v_to < v_from
+       OR v_to < (NOW() AT TIME ZONE public.salon_timezone())::DATE THEN
+        RAISE EXCEPTION 'Choose dates from today onwards';
+    END IF;
+
+    IF v_staff_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.get_bookable_staff((p_entry->>'serviceId')::UUID) WHERE staff_id = v_staff_id
+    ) THEN
+        RAISE EXCEPTION 'This staff member does not offer the service';
+    END IF;
+
+    INSERT INTO public.waitlist_entries (client_id, service_id, staff_id, date_from, date_to, notes, source)
+    VALUES (
+        (p_entry->>'clientId')::UUID, (p_entry->>'serviceId')::UUID, v_staff_id,
+        v_from, v_to, NULLIF(p_entry->>'notes', ''), 'public'
+    )
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Offer the slot a booking held before it was cancelled or moved (p_freed is
+-- the booking as it was) to up to p_limit waiting clients, longest waiting
+-- first: same service, the booked staff member or no preference, a date in
+-- their window and no other offer pending. Nothing is offered when the slot
+-- is not free any more, e.g. a booking moved by a few minutes. Multi-service
+-- bookings are not offered. Returns the number of offers made; they are
+-- sent by the scheduler.
+-- ----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.create_waitlist_offers(UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.create_waitlist_offers(
+    p_freed public.bookings,
+    p_valid_minutes INTEGER DEFAULT 120,
+    p_limit INTEGER DEFAULT 3
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_end_at TIMESTAMP WITH TIME ZONE;
+    v_offered INTEGER;
+BEGIN
+    IF p_freed.has_segments OR p_freed.start_at <= NOW() THEN
+        RETURN 0;
+    END IF;
+
+    SELECT p_freed.start_at + make_interval(mins => duration) INTO v_end_at
+    FROM public.services
+    WHERE id = p_freed.service_id;
+
+    IF v_end_at IS NULL OR NOT public.is_staff_slot_free(p_freed.staff_id, p_freed.start_at, v_end_at) THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO public.waitlist_offers (entry_id, source_booking_id, staff_id, start_at, end_at, expires_at)
+    SELECT
+        e.id, p_freed.id, p_freed.staff_id, p_freed.start_at, v_end_at,
+        LEAST(NOW() + make_interval(mins => p_valid_minutes), p_freed.start_at)
+    FROM public.waitlist_entries e
+    JOIN public.clients c ON c.id = e.client_id
+    WHERE e.status = 'waiting'
+      AND e.service_id = p_freed.service_id
+      AND (e.staff_id IS NULL OR e.staff_id = p_freed.staff_id)
+      AND e.client_id <> p_freed.client_id
+      AND (p_freed.start_at AT TIME ZONE public.salon_timezone())::DATE BETWEEN e.date_from AND e.date_to
+      AND c.phone IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM public.waitlist_offers o
+          WHERE o.entry_id = e.id AND o.status = 'open' AND o.expires_at > NOW()
+      )
+    ORDER BY e.created_at
+    LIMIT p_limit;
+
+    GET DIAGNOSTICS v_offered = ROW_COUNT;
+    RETURN v_offered;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Offers the old slot of a booking that was cancelled, or moved to another
+-- time or staff member, while it was still to come
+CREATE OR REPLACE FUNCTION public.offer_freed_booking_slot()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE(OLD.status, 'pending') IN ('cancelled', 'completed', 'no_show') THEN
+        RETURN NULL;
+    END IF;
+
+    IF NEW.status = 'cancelled'
+       OR NEW.start_at IS DISTINCT FROM OLD.start_at
+       OR NEW.staff_id IS DISTINCT FROM OLD.staff_id THEN
+        PERFORM public.create_waitlist_offers(OLD);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS bookings_offer_freed_slot ON public.bookings;
+CREATE TRIGGER bookings_offer_freed_slot
+    AFTER UPDATE OF status, start_at, staff_id ON public.bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.offer_freed_booking_slot();
+
+-- ----------------------------------------------------------------------------
+-- Offers the scheduler still has to message: open, not expired and not sent.
+-- Returns what the app needs to message each client.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_unsent_waitlist_offers()
+RETURNS TABLE (
+    offer_id UUID,
+    token TEXT,
+    client_name TEXT,
+    client_phone TEXT,
+    service_name TEXT,
+    staff_name TEXT,
+    start_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE
+) AS $$
+    SELECT o.id, o.token, c.name, c.phone, s.name, u.name, o.start_at, o.expires_at
+    FROM public.waitlist_offers o
+    JOIN public.waitlist_entries e ON e.id = o.entry_id
+    JOIN public.clients c ON c.id = e.client_id
+    JOIN public.services s ON s.id = e.service_id
+    JOIN public.users u ON u.id = o.staff_id
+    WHERE o.status = 'open' AND o.sent_at IS NULL AND o.expires_at > NOW()
+    ORDER BY o.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- The offer behind a claim link, for the public claim page. An open offer
+-- past its expiry reads as 'expired'.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_waitlist_offer(p_token TEXT)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'status', CASE WHEN o.status = 'open' AND o.expires_at <= NOW() THEN 'expired' ELSE o.status END,
+        'clientName', c.name,
+        'serviceName', s.name,
+        'staffName', u.name,
+        'startAt', o.start_at,
+        'endAt', o.end_at,
+        'expiresAt', o.expires_at
+    )
+    FROM public.waitlist_offers o
+    JOIN public.waitlist_entries e ON e.id = o.entry_id
+    JOIN public.clients c ON c.id = e.client_id
+    JOIN public.services s ON s.id = e.service_id
+    JOIN public.users u ON u.id = o.staff_id
+    WHERE o.token = p_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Claim an offer: books the slot if it is still free (the bookings trigger
+-- checks), marks the entry booked and lapses the other offers of the slot.
+-- Raises 'This offer is no longer available' when it was claimed, lapsed or
+-- expired, and 'Time slot no longer available' when it has been booked.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_offer RECORD;
+    v_booking RECORD;
+BEGIN
+    SELECT o.*, e.client_id, e.service_id, e.notes AS entry_notes, s.duration
+    INTO v_offer
+    FROM public.waitlist_offers o
+    JOIN public.waitlist_entries e ON e.id = o.entry_id
+    JOIN public.services s ON s.id = e.service_id
+    WHERE o.token = p_token
+    FOR UPDATE OF o;
+
+    IF NOT FOUND OR v_offer.status <> 'open' OR v_offer.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'This offer is no longer available';
+    END IF;
+
+    INSERT INTO public.bookings (
+        client_id, service_id, staff_id, date, time, duration,
+        start_at, end_at, status, notes
+    ) VALUES (
+        v_offer.client_id, v_offer.service_id, v_offer.staff_id,
+        (v_offer.start_at AT TIME ZONE public.salon_timezone())::DATE,
+        (v_offer.start_at AT TIME ZONE public.salon_timezone())::TIME,
+        v_offer.duration, v_offer.start_at, v_offer.end_at, 'confirmed', v_offer.entry_notes
+    )
+    RETURNING * INTO v_booking;
+
+    UPDATE public.waitlist_offers
+    SET status = 'claimed', booking_id = v_booking.id, claimed_at = NOW()
+    WHERE id = v_offer.id;
+
+    UPDATE public.waitlist_offers
+    SET status = 'superseded'
+    WHERE source_booking_id = v_offer.source_booking_id AND start_at = v_offer.start_at
+      AND id <> v_offer.id AND status = 'open';
+
+    UPDATE public.waitlist_entries
+    SET status = 'booked', booking_id = v_booking.id, updated_at = NOW()
+    WHERE id = v_offer.entry_id;
+
+    RETURN jsonb_build_object(
+        'id', v_booking.id,
+        'startAt', v_booking.start_at,
+        'endAt', v_booking.end_at
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; the booking and claim pages run as anon. Offers are
+-- only made by the bookings trigger
+GRANT EXECUTE ON FUNCTION public.join_waitlist(JSONB) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_waitlist_offers(public.bookings, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_unsent_waitlist_offers() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_unsent_waitlist_offers() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_waitlist_offer(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_offer(TEXT) TO anon, authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+-- Staff add clients to the waitlist and see who is waiting
+CREATE POLICY "Allow authenticated users to manage waitlist entries" ON public.waitlist_entries
+    FOR ALL TO authenticated USING (true);
+
+-- Offers are created by the bookings trigger; the scheduler records when they were sent
+CREATE POLICY "Allow authenticated users to read waitlist offers" ON public.waitlist_offers
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated users to update waitlist offers" ON public.waitlist_offers
+    FOR UPDATE TO authenticated USING (true);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.waitlist_entries IS 'Clients waiting for a slot for a service, with an optional preferred staff member and a date window';
+COMMENT ON TABLE public.waitlist_offers IS 'Freed slots offered to waiting clients; the token is the secret of the claim link';
+COMMENT ON FUNCTION public.join_waitlist(JSONB) IS 'Adds a client to the waitlist from the public booking page';
+COMMENT ON FUNCTION public.create_waitlist_offers(public.bookings, INTEGER, INTEGER) IS 'Offers the slot a cancelled or moved booking held to matching waitlist entries';
+COMMENT ON FUNCTION public.get_unsent_waitlist_offers() IS 'Open offers no client has been messaged about yet, for the scheduler to send';
+COMMENT ON FUNCTION public.get_waitlist_offer(TEXT) IS 'Details of the offer behind a claim link';
+COMMENT ON FUNCTION public.claim_waitlist_offer(TEXT) IS 'Books an offered slot if it is still free and closes the other offers for it';
@@ -0,0 +1,224 @@
+-- ============================================================================
+-- CASH DRAWER SESSIONS
+-- ============================================================================
+-- This script adds register sessions for the POS. An operator opens a session
+-- with the float counted into the drawer, records cash taken in or paid out
+-- during the day, and closes it with the counted cash. Every POS sale is
+-- attached to the session its operator had open when it was made, and the
+-- expected cash and the discrepancy are stored when the session is closed
+-- (Z-report).
+-- ============================================================================
+
+-- One register session per POS operator shift
+CREATE TABLE IF NOT EXISTS public.cash_drawer_sessions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    staff_id UUID NOT NULL REFERENCES public.users(id),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    opening_float NUMERIC(10,2) NOT NULL DEFAULT 0.00 CHECK (opening_float >= 0),
+    opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    expected_cash NUMERIC(10,2),
+    counted_cash NUMERIC(10,2),
+    discrepancy NUMERIC(10,2),
+    closing_notes TEXT,
+    closed_by UUID REFERENCES public.users(id)
+);
+
+-- An operator can only have one open session at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_drawer_sessions_open_staff
+    ON public.cash_drawer_sessions(staff_id)
+    WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_cash_drawer_sessions_closed_at ON public.cash_drawer_sessions(closed_at);
+
+-- Cash taken in or paid out of the drawer outside of sales
+CREATE TABLE IF NOT EXISTS public.cash_drawer_movements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    session_id UUID NOT NULL REFERENCES public.cash_drawer_sessions(id) ON DELETE CASCADE,
+    movement_type TEXT NOT NULL CHECK (movement_type IN ('cash_in', 'cash_out')),
+    amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+    reason TEXT NOT NULL,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_drawer_movements_session_id ON public.cash_drawer_movements(session_id);
+
+-- Session each sale was rung up in
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS cash_session_id UUID REFERENCES public.cash_drawer_sessions(id);
+
+CREATE INDEX IF NOT EXISTS idx_sales_cash_session_id ON public.sales(cash_session_id);
+
+-- ----------------------------------------------------------------------------
+-- Attach a sale to a cash drawer session. Called by process_complete_sale().
+-- Uses cashSessionId from the payload when given, otherwise the operator's
+-- session open at the time of the sale. The session must have been open when
+-- the sale was made. A sale queued offline can reach the server after its
+-- session was closed; it is still attached to that session, whose expected
+-- cash and discrepancy are settled again with the sale's cash tenders.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.attach_sale_to_cash_session(p_sale_id UUID, p_sale JSONB)
+RETURNS VOID AS $$
+DECLARE
+    v_session_id UUID := NULLIF(p_sale->>'cashSessionId', '')::UUID;
+    v_sold_at TIMESTAMPTZ;
+    v_session RECORD;
+    v_cash NUMERIC;
+BEGIN
+    SELECT created_at INTO v_sold_at FROM public.sales WHERE id = p_sale_id;
+
+    IF v_session_id IS NULL THEN
+        SELECT id INTO v_session_id
+        FROM public.cash_drawer_sessions
+        WHERE staff_id = (p_sale->>'staffId')::UUID
+            AND opened_at <= v_sold_at
+            AND (closed_at IS NULL OR closed_at >= v_sold_at)
+        ORDER BY opened_at DESC
+        LIMIT 1;
+
+        IF v_session_id IS NULL THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    SELECT * INTO v_session
+    FROM public.cash_drawer_sessions
+    WHERE id = v_session_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Cash drawer session not found: %', v_session_id;
+    END IF;
+
+    IF v_sold_at < v_session.opened_at
+        OR (v_session.status = 'closed' AND v_sold_at > v_session.closed_at) THEN
+        RAISE EXCEPTION 'Cash drawer session % was not open when the sale was made at %', v_session_id, v_sold_at;
+    END IF;
+
+    UPDATE public.sales SET cash_session_id = v_session_id WHERE id = p_sale_id;
+
+    IF v_session.status = 'closed' THEN
+        SELECT COALESCE(SUM(amount), 0) INTO v_cash
+        FROM public.sale_payments
+        WHERE sale_id = p_sale_id AND method = 'cash';
+
+        UPDATE public.cash_drawer_sessions
+        SET
+            expected_cash = expected_cash + v_cash,
+            discrepancy = counted_cash - (expected_cash + v_cash)
+        WHERE id = v_session_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Close a session: expected cash = float + cash tenders of the session's
+-- sales + cash in - cash out. Cash paid back on refunds is recorded as a
+-- cash-out movement by refund_sale() (sale-refunds.sql). Only the session's
+-- operator or an admin can close it; the close is signed with the caller.
+-- ----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.close_cash_drawer_session(UUID, NUMERIC, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.close_cash_drawer_session(
+    p_session_id UUID,
+    p_counted_cash NUMERIC,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_closed_by UUID := auth.uid();
+    v_session RECORD;
+    v_cash_sales NUMERIC;
+    v_cash_in NUMERIC;
+    v_cash_out NUMERIC;
+    v_expected NUMERIC;
+BEGIN
+    SELECT * INTO v_session
+    FROM public.cash_drawer_sessions
+    WHERE id = p_session_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Cash drawer session not found: %', p_session_id;
+    END IF;
+
+    IF v_session.staff_id IS DISTINCT FROM v_closed_by
+        AND NOT EXISTS (SELECT 1 FROM public.users WHERE id = v_closed_by AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only the session''s operator or an admin can close cash drawer session %', p_session_id;
+    END IF;
+
+    IF v_session.status <> 'open' THEN
+        RAISE EXCEPTION 'Cash drawer session % is already closed', p_session_id;
+    END IF;
+
+    IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+        RAISE EXCEPTION 'Counted cash must be zero or more';
+    END IF;
+
+    SELECT COALESCE(SUM(sp.amount), 0) INTO v_cash_sales
+    FROM public.sale_payments sp
+    JOIN public.sales s ON s.id = sp.sale_id
+    WHERE s.cash_session_id = p_session_id AND sp.method = 'cash';
+
+    SELECT
+        COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_in'), 0),
+        COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_out'), 0)
+    INTO v_cash_in, v_cash_out
+    FROM public.cash_drawer_movements
+    WHERE session_id = p_session_id;
+
+    v_expected := v_session.opening_float + v_cash_sales + v_cash_in - v_cash_out;
+
+    UPDATE public.cash_drawer_sessions
+    SET
+        status = 'closed',
+        closed_at = NOW(),
+        expected_cash = v_expected,
+        counted_cash = p_counted_cash,
+        discrepancy = p_counted_cash - v_expected,
+        closing_notes = p_notes,
+        closed_by = v_closed_by
+    WHERE id = p_session_id
+    RETURNING * INTO v_session;
+
+    RETURN to_jsonb(v_session);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; attach_sale_to_cash_session() is internal to
+-- process_complete_sale()
+REVOKE EXECUTE ON FUNCTION public.attach_sale_to_cash_session(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_cash_drawer_session(UUID, NUMERIC, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_cash_drawer_session(UUID, NUMERIC, TEXT) TO authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.cash_drawer_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_drawer_movements ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read sessions and movements
+CREATE POLICY "Allow authenticated users to read cash drawer sessions" ON public.cash_drawer_sessions
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated users to read cash drawer movements" ON public.cash_drawer_movements
+    FOR SELECT TO authenticated USING (true);
+
+-- Operators open their own sessions; closing goes through close_cash_drawer_session()
+CREATE POLICY "Allow authenticated users to open cash drawer sessions" ON public.cash_drawer_sessions
+    FOR INSERT TO authenticated WITH CHECK (staff_id = auth.uid());
+
+CREATE POLICY "Allow authenticated users to record cash drawer movements" ON public.cash_drawer_movements
+    FOR INSERT TO authenticated WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.cash_drawer_sessions
+            WHERE id = session_id AND status = 'open'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.cash_drawer_sessions IS 'POS register sessions with opening float and end-of-day cash count';
+COMMENT ON COLUMN public.cash_drawer_sessions.discrepancy IS 'counted_cash - expected_cash; negative when cash is missing';
+COMMENT ON TABLE public.cash_drawer_movements IS 'Cash taken in or paid out of the drawer outside of sales';
+COMMENT ON COLUMN public.sales.cash_session_id IS 'Cash drawer session the sale was rung up in';
+COMMENT ON FUNCTION public.attach_sale_to_cash_session(UUID, JSONB) IS 'Attaches a sale to the given or the operator''s cash drawer session open when the sale was made';
+COMMENT ON FUNCTION public.close_cash_drawer_session(UUID, NUMERIC, TEXT) IS 'Closes the caller''s (or, for an admin, any) cash drawer session and records expected cash and discrepancy';
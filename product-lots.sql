@@ -0,0 +1,304 @@
+-- ============================================================================
+-- PRODUCT LOTS AND EXPIRY
+-- ============================================================================
+-- This script tracks stock bottle by bottle. Each bottle (or unit) is a lot
+-- row with its batch number, expiry date, the date it was opened and the ml
+-- left in it, so several bottles of a product can be open at once. Products
+-- get a period after opening (PAO, the "12M" jar symbol) in months; a bottle
+-- is to be used by its expiry date or its opening date plus the PAO,
+-- whichever comes first.
+--
+-- products.sealed_bottles and products.open_bottle_remaining_ml stay as the
+-- totals the rest of the app reads: sealed_bottles counts the unopened lots
+-- and open_bottle_remaining_ml adds up what is left in all open ones. Both
+-- are kept in sync from the lots. Writes that still change the totals
+-- directly (manual edits, retail sales, refunds, stocktakes) are carried over
+-- to the lots: bottles taken out are the first to expire, bottles added have
+-- no batch details.
+--
+-- Consumption goes through consume_product_lots(), first expired first out:
+-- open bottles first, the one to use soonest first, then sealed bottles by
+-- expiry. Outside of a sale the app consumes through consume_service_product();
+-- only admins write lots directly. Run after atomic-sale-transaction.sql and
+-- purchase-orders.sql, whose consume_product_ml() and receive_purchase_order()
+-- write lots.
+-- ============================================================================
+
+-- Months a product keeps once opened; NULL when it has no PAO
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS pao_months INTEGER CHECK (pao_months > 0);
+
+CREATE TABLE IF NOT EXISTS public.product_lots (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    batch_number TEXT,
+    expires_at DATE,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    opened_at TIMESTAMP WITH TIME ZONE, -- NULL while sealed
+    capacity_ml NUMERIC(10,2) NOT NULL CHECK (capacity_ml > 0),
+    remaining_ml NUMERIC(10,2) NOT NULL CHECK (remaining_ml >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (remaining_ml <= capacity_ml)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_lots_product_id ON public.product_lots(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_lots_expires_at ON public.product_lots(expires_at);
+
+-- ----------------------------------------------------------------------------
+-- Date a lot is to be used by: its expiry, or its opening plus the PAO
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.product_lot_use_by(
+    p_expires_at DATE,
+    p_opened_at TIMESTAMP WITH TIME ZONE,
+    p_pao_months INTEGER
+)
+RETURNS DATE AS $$
+    SELECT LEAST(p_expires_at, (p_opened_at + make_interval(months => p_pao_months))::DATE);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ----------------------------------------------------------------------------
+-- Keep the product totals in line with its lots. Skipped when the lots are
+-- being changed by reconcile_product_lots(), which starts from the totals.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.sync_product_stock_from_lots()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+BEGIN
+    IF pg_trigger_depth() > 1 THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE public.products p
+    SET sealed_bottles = totals.sealed,
+        open_bottle_remaining_ml = totals.open_ml,
+        updated_at = NOW()
+    FROM (
+        SELECT
+            COUNT(*) FILTER (WHERE opened_at IS NULL AND remaining_ml > 0) AS sealed,
+            COALESCE(SUM(remaining_ml) FILTER (WHERE opened_at IS NOT NULL), 0) AS open_ml
+        FROM public.product_lots
+        WHERE product_id = v_product_id
+    ) totals
+    WHERE p.id = v_product_id
+      AND (p.sealed_bottles IS DISTINCT FROM totals.sealed
+           OR p.open_bottle_remaining_ml IS DISTINCT FROM totals.open_ml);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS product_lots_sync_stock ON public.product_lots;
+CREATE TRIGGER product_lots_sync_stock
+    AFTER INSERT OR UPDATE OR DELETE ON public.product_lots
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_product_stock_from_lots();
+
+-- ----------------------------------------------------------------------------
+-- Bring a product's lots in line with its totals after they were written
+-- directly. Sealed bottles taken out are the first to expire; sealed bottles
+-- added are new lots. Open ml taken out comes from the open bottles to use
+-- soonest; open ml added goes back into the latest opened bottles, then into
+-- a newly opened one.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.reconcile_product_lots(p_product_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_product RECORD;
+    v_capacity NUMERIC;
+    v_lot_sealed INTEGER;
+    v_lot_open_ml NUMERIC;
+    v_difference NUMERIC;
+    v_lot RECORD;
+    v_take NUMERIC;
+BEGIN
+    SELECT id, sealed_bottles, open_bottle_remaining_ml, bottle_capacity_ml, pao_months
+    INTO v_product
+    FROM public.products
+    WHERE id = p_product_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_capacity := COALESCE(NULLIF(v_product.bottle_capacity_ml, 0), 1000);
+
+    SELECT
+        COUNT(*) FILTER (WHERE opened_at IS NULL AND remaining_ml > 0),
+        COALESCE(SUM(remaining_ml) FILTER (WHERE opened_at IS NOT NULL), 0)
+    INTO v_lot_sealed, v_lot_open_ml
+    FROM public.product_lots
+    WHERE product_id = p_product_id;
+
+    IF COALESCE(v_product.sealed_bottles, 0) > v_lot_sealed THEN
+        INSERT INTO public.product_lots (product_id, capacity_ml, remaining_ml)
+        SELECT p_product_id, v_capacity, v_capacity
+        FROM generate_series(1, v_product.sealed_bottles - v_lot_sealed);
+    ELSIF COALESCE(v_product.sealed_bottles, 0) < v_lot_sealed THEN
+        DELETE FROM public.product_lots
+        WHERE id IN (
+            SELECT id FROM public.product_lots
+            WHERE product_id = p_product_id AND opened_at IS NULL AND remaining_ml > 0
+            ORDER BY expires_at NULLS LAST, received_at
+            LIMIT v_lot_sealed - COALESCE(v_product.sealed_bottles, 0)
+        );
+    END IF;
+
+    v_difference := COALESCE(v_product.open_bottle_remaining_ml, 0) - v_lot_open_ml;
+
+    IF v_difference < 0 THEN
+        FOR v_lot IN
+            SELECT * FROM public.product_lots
+            WHERE product_id = p_product_id AND opened_at IS NOT NULL AND remaining_ml > 0
+            ORDER BY public.product_lot_use_by(expires_at, opened_at, v_product.pao_months) NULLS LAST, opened_at
+        LOOP
+            EXIT WHEN v_difference >= 0;
+            v_take := LEAST(v_lot.remaining_ml, -v_difference);
+            UPDATE public.product_lots SET remaining_ml = remaining_ml - v_take WHERE id = v_lot.id;
+            v_difference := v_difference + v_take;
+        END LOOP;
+    ELSIF v_difference > 0 THEN
+        FOR v_lot IN
+            SELECT * FROM public.product_lots
+            WHERE product_id = p_product_id AND opened_at IS NOT NULL AND remaining_ml < capacity_ml
+            ORDER BY opened_at DESC
+        LOOP
+            EXIT WHEN v_difference <= 0;
+            v_take := LEAST(v_lot.capacity_ml - v_lot.remaining_ml, v_difference);
+            UPDATE public.product_lots SET remaining_ml = remaining_ml + v_take WHERE id = v_lot.id;
+            v_difference := v_difference - v_take;
+        END LOOP;
+
+        WHILE v_difference > 0 LOOP
+            v_take := LEAST(v_capacity, v_difference);
+            INSERT INTO public.product_lots (product_id, capacity_ml, remaining_ml, opened_at)
+            VALUES (p_product_id, v_capacity, v_take, NOW());
+            v_difference := v_difference - v_take;
+        END LOOP;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.reconcile_product_lots_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Totals written by sync_product_stock_from_lots() already match the lots
+    IF pg_trigger_depth() > 1 THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM public.reconcile_product_lots(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS products_reconcile_lots ON public.products;
+CREATE TRIGGER products_reconcile_lots
+    AFTER INSERT OR UPDATE OF sealed_bottles, open_bottle_remaining_ml ON public.products
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reconcile_product_lots_on_change();
+
+-- ----------------------------------------------------------------------------
+-- Take ml from a product's lots, first expired first out: open bottles by
+-- the date they are to be used by, then sealed bottles by expiry, opening
+-- them as needed. Raises on insufficient stock. Returns the bottles opened.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.consume_product_lots(p_product_id UUID, p_required_ml NUMERIC)
+RETURNS INTEGER AS $$
+DECLARE
+    v_lot RECORD;
+    v_remaining NUMERIC := p_required_ml;
+    v_take NUMERIC;
+    v_bottles_opened INTEGER := 0;
+BEGIN
+    FOR v_lot IN
+        SELECT l.*
+        FROM public.product_lots l
+        JOIN public.products p ON p.id = l.product_id
+        WHERE l.product_id = p_product_id AND l.remaining_ml > 0
+        ORDER BY
+            l.opened_at IS NULL,
+            public.product_lot_use_by(l.expires_at, l.opened_at, p.pao_months) NULLS LAST,
+            COALESCE(l.opened_at, l.received_at),
+            l.created_at
+        FOR UPDATE OF l
+    LOOP
+        EXIT WHEN v_remaining <= 0;
+
+        v_take := LEAST(v_lot.remaining_ml, v_remaining);
+        UPDATE public.product_lots
+        SET remaining_ml = remaining_ml - v_take,
+            opened_at = COALESCE(opened_at, NOW())
+        WHERE id = v_lot.id;
+
+        IF v_lot.opened_at IS NULL THEN
+            v_bottles_opened := v_bottles_opened + 1;
+        END IF;
+        v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    IF v_remaining > 0 THEN
+        RAISE EXCEPTION 'Insufficient stock: % ml short', v_remaining;
+    END IF;
+
+    RETURN v_bottles_opened;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Consume a product used for a service, logged against the signed-in staff
+-- member, in one transaction through consume_product_ml()
+-- (atomic-sale-transaction.sql). Raises on insufficient stock.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.consume_service_product(
+    p_product_id UUID,
+    p_required_ml NUMERIC,
+    p_sale_id UUID DEFAULT NULL,
+    p_service_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role IN ('admin', 'staff')) THEN
+        RAISE EXCEPTION 'Only staff can consume products';
+    END IF;
+
+    IF p_required_ml IS NULL OR p_required_ml <= 0 THEN
+        RAISE EXCEPTION 'The quantity to consume must be more than zero';
+    END IF;
+
+    RETURN public.consume_product_ml(p_product_id, p_required_ml, p_sale_id, p_service_id, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Existing stock becomes lots; the open bottle is dated from today
+SELECT public.reconcile_product_lots(id)
+FROM public.products
+WHERE NOT EXISTS (SELECT 1 FROM public.product_lots WHERE product_id = products.id);
+
+-- Grant permissions; lots are only consumed and reconciled through sales,
+-- consume_service_product() and the product triggers
+REVOKE EXECUTE ON FUNCTION public.consume_product_lots(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reconcile_product_lots(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_service_product(UUID, NUMERIC, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.consume_service_product(UUID, NUMERIC, UUID, UUID) TO authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.product_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read product lots" ON public.product_lots
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow admin users to manage product lots" ON public.product_lots
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.products.pao_months IS 'Period after opening in months (PAO symbol); NULL when none';
+COMMENT ON TABLE public.product_lots IS 'One row per bottle or unit in stock, with batch, expiry, opening date and ml left';
+COMMENT ON FUNCTION public.consume_product_lots(UUID, NUMERIC) IS 'Takes ml from a product first expired first out; raises on insufficient stock';
+COMMENT ON FUNCTION public.consume_service_product(UUID, NUMERIC, UUID, UUID) IS 'Consumes a product for a service first expired first out, logged against the calling staff member';
+COMMENT ON FUNCTION public.reconcile_product_lots(UUID) IS 'Carries stock totals written directly on a product over to its lots';
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- PRODUCT UNITS OF MEASURE
+-- ============================================================================
+-- This script fixes the unit each product is stocked in: 'ml', 'g' or
+-- 'pieces' (gloves, foils, wax strips). The bottle columns keep their names
+-- but are read in the product's unit: bottle_capacity_ml is the content of
+-- one bottle, jar or box, open_bottle_remaining_ml and product_lots.remaining_ml
+-- what is left, and the quantities services require (services.required_products)
+-- and consume (product_consumption_log.ml_consumed) are in the same unit.
+-- Pieces are consumed whole: consume_product_ml() (atomic-sale-transaction.sql)
+-- rounds a fractional quantity up.
+--
+-- Free-text units saved before are mapped to the closest unit; anything that
+-- is not grams or pieces was stocked in ml.
+-- ============================================================================
+
+UPDATE public.products
+SET unit = CASE
+    WHEN LOWER(TRIM(COALESCE(unit, ''))) IN ('g', 'gr', 'gram', 'grams') THEN 'g'
+    WHEN LOWER(TRIM(COALESCE(unit, ''))) IN ('pieces', 'piece', 'pcs', 'pc', 'unit', 'units') THEN 'pieces'
+    ELSE 'ml'
+END
+WHERE unit IS NULL OR unit NOT IN ('ml', 'g', 'pieces');
+
+ALTER TABLE public.products ALTER COLUMN unit SET DEFAULT 'ml';
+ALTER TABLE public.products ALTER COLUMN unit SET NOT NULL;
+
+ALTER TABLE public.products DROP CONSTRAINT IF EXISTS products_unit_check;
+ALTER TABLE public.products
+ADD CONSTRAINT products_unit_check CHECK (unit IN ('ml', 'g', 'pieces'));
+
+COMMENT ON COLUMN public.products.unit IS 'Stock unit: ml, g or pieces; bottle_capacity_ml, open_bottle_remaining_ml and service quantities are in this unit';
+COMMENT ON COLUMN public.products.bottle_capacity_ml IS 'Content of one bottle, jar or box, in the product unit';
+COMMENT ON COLUMN public.products.open_bottle_remaining_ml IS 'Left in the open bottles, in the product unit';
@@ -0,0 +1,345 @@
+-- ============================================================================
+-- SUPPLIERS AND PURCHASE ORDERS
+-- ============================================================================
+-- This script adds a suppliers directory, with contacts, lead times and the
+-- price each supplier charges per product, and purchase orders that go from
+-- draft to sent, then partially received and received as deliveries come in.
+--
+-- Receiving goes through receive_purchase_order(): it adds the delivered
+-- bottles to sealed_bottles, logs the restock in stock_history like a manual
+-- restock, and keeps the cost actually paid on each receipt. Orders are
+-- numbered BC-2026-0001 from the gap-free counters of sale-receipts.sql.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.suppliers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    contact_name TEXT,
+    phone TEXT,
+    email TEXT,
+    lead_time_days INTEGER NOT NULL DEFAULT 7 CHECK (lead_time_days >= 0),
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Catalogue: what a supplier charges for a bottle (or unit) of a product
+CREATE TABLE IF NOT EXISTS public.supplier_products (
+    supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    unit_cost NUMERIC(10,2) NOT NULL CHECK (unit_cost >= 0),
+    supplier_sku TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (supplier_id, product_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_number TEXT UNIQUE,
+    supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+    status TEXT NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'sent', 'partially_received', 'received')),
+    expected_at DATE,
+    notes TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders(status);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_lines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products(id),
+    quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0), -- sealed bottles or units
+    quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+    unit_cost NUMERIC(10,2) NOT NULL DEFAULT 0.00 CHECK (unit_cost >= 0), -- agreed when ordering
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (quantity_received <= quantity_ordered)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order_id ON public.purchase_order_lines(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_product_id ON public.purchase_order_lines(product_id);
+
+-- One row per delivery of a line, at the cost actually invoiced
+CREATE TABLE IF NOT EXISTS public.purchase_order_receipts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    line_id UUID NOT NULL REFERENCES public.purchase_order_lines(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_cost NUMERIC(10,2) NOT NULL CHECK (unit_cost >= 0),
+    invoice_number TEXT,
+    received_by UUID REFERENCES public.users(id),
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_receipts_line_id ON public.purchase_order_receipts(line_id);
+
+-- ----------------------------------------------------------------------------
+-- Number new orders, and keep them moving forward: draft -> sent ->
+-- partially received -> received. Receiving only happens through
+-- receive_purchase_order(). Runs as the owner to take the order number, as
+-- next_document_number() is not callable by users.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.enforce_purchase_order_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_year TEXT := to_char(NOW(), 'YYYY');
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'draft' THEN
+            RAISE EXCEPTION 'New purchase orders must be drafts, not %', NEW.status;
+        END IF;
+        NEW.order_number := 'BC-' || v_year || '-' ||
+            lpad(public.next_document_number('purchase-order-' || v_year)::TEXT, 4, '0');
+        NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.status = 'draft' AND NEW.status = 'sent') OR
+        (OLD.status IN ('sent', 'partially_received') AND NEW.status IN ('partially_received', 'received'))
+    ) THEN
+        RAISE EXCEPTION 'Purchase order cannot go from % to %', OLD.status, NEW.status;
+    END IF;
+
+    CASE NEW.status
+        WHEN 'sent' THEN NEW.sent_at := NOW();
+        WHEN 'received' THEN NEW.received_at := NOW();
+        ELSE NULL;
+    END CASE;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS purchase_order_status_transition ON public.purchase_orders;
+CREATE TRIGGER purchase_order_status_transition
+    BEFORE INSERT OR UPDATE OF status ON public.purchase_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_purchase_order_status();
+
+-- ----------------------------------------------------------------------------
+-- What was ordered is fixed once the order has been sent
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.enforce_purchase_order_line_draft()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_status TEXT;
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.product_id = OLD.product_id
+        AND NEW.quantity_ordered = OLD.quantity_ordered
+        AND NEW.unit_cost = OLD.unit_cost THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT status INTO v_status
+    FROM public.purchase_orders
+    WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.purchase_order_id ELSE NEW.purchase_order_id END;
+
+    IF v_status IS NOT NULL AND v_status <> 'draft' THEN
+        RAISE EXCEPTION 'Lines of a % purchase order cannot be changed', v_status;
+    END IF;
+
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS purchase_order_line_draft ON public.purchase_order_lines;
+CREATE TRIGGER purchase_order_line_draft
+    BEFORE INSERT OR UPDATE OR DELETE ON public.purchase_order_lines
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_purchase_order_line_draft();
+
+-- ----------------------------------------------------------------------------
+-- Receive a delivery against a sent order. p_receipt:
+--   { "invoiceNumber": "F-123",
+--     "lines": [{ "lineId": "uuid", "quantity": 2, "unitCost": 84.00,
+--                 "batchNumber": "L2291", "expiresAt": "2028-03-31" }] }
+-- Each line adds its bottles to the product as lots of that batch, takes the
+-- invoiced cost as the product's cost and is logged as a restock. More than
+-- is still outstanding on a line cannot be received. Only admins can receive
+-- deliveries. Returns { "status": "partially_received" | "received" }.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_order_id UUID, p_receipt JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_order RECORD;
+    v_item JSONB;
+    v_line RECORD;
+    v_quantity INTEGER;
+    v_unit_cost NUMERIC;
+    v_bottles INTEGER;
+    v_invoice TEXT := NULLIF(btrim(COALESCE(p_receipt->>'invoiceNumber', '')), '');
+    v_status TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can receive purchase orders';
+    END IF;
+
+    SELECT po.*, s.name AS supplier_name INTO v_order
+    FROM public.purchase_orders po
+    JOIN public.suppliers s ON s.id = po.supplier_id
+    WHERE po.id = p_order_id
+    FOR UPDATE OF po;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Purchase order not found: %', p_order_id;
+    END IF;
+
+    IF v_order.status NOT IN ('sent', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is % and cannot be received', v_order.order_number, v_order.status;
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_receipt->'lines', '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'Nothing to receive';
+    END IF;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_receipt->'lines') LOOP
+        v_quantity := COALESCE((v_item->>'quantity')::INTEGER, 0);
+
+        SELECT l.*, p.name AS product_name, COALESCE(NULLIF(p.bottle_capacity_ml, 0), 1000) AS bottle_capacity_ml INTO v_line
+        FROM public.purchase_order_lines l
+        JOIN public.products p ON p.id = l.product_id
+        WHERE l.id = (v_item->>'lineId')::UUID AND l.purchase_order_id = p_order_id
+        FOR UPDATE OF l;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line % is not on purchase order %', v_item->>'lineId', v_order.order_number;
+        END IF;
+
+        IF v_quantity <= 0 THEN
+            RAISE EXCEPTION 'Received quantities must be greater than zero';
+        END IF;
+
+        IF v_quantity > v_line.quantity_ordered - v_line.quantity_received THEN
+            RAISE EXCEPTION 'Only % of % left to receive on %',
+                v_line.quantity_ordered - v_line.quantity_received, v_line.product_name, v_order.order_number;
+        END IF;
+
+        v_unit_cost := COALESCE((v_item->>'unitCost')::NUMERIC, v_line.unit_cost);
+
+        INSERT INTO public.purchase_order_receipts (line_id, quantity, unit_cost, invoice_number, received_by)
+        VALUES (v_line.id, v_quantity, v_unit_cost, v_invoice, auth.uid());
+
+        UPDATE public.purchase_order_lines
+        SET quantity_received = quantity_received + v_quantity
+        WHERE id = v_line.id;
+
+        -- One lot per bottle; the lots add them to sealed_bottles (product-lots.sql)
+        INSERT INTO public.product_lots (product_id, batch_number, expires_at, capacity_ml, remaining_ml)
+        SELECT v_line.product_id,
+               NULLIF(btrim(COALESCE(v_item->>'batchNumber', '')), ''),
+               NULLIF(v_item->>'expiresAt', '')::DATE,
+               v_line.bottle_capacity_ml,
+               v_line.bottle_capacity_ml
+        FROM generate_series(1, v_quantity);
+
+        UPDATE public.products
+        SET cost = CASE WHEN v_unit_cost > 0 THEN v_unit_cost ELSE cost END,
+            updated_at = NOW()
+        WHERE id = v_line.product_id
+        RETURNING sealed_bottles INTO v_bottles;
+
+        -- Same reason format as a manual restock, so restock history can read it
+        INSERT INTO public.stock_history (
+            product_id, movement_type, quantity_before, quantity_change, quantity_after, reason
+        ) VALUES (
+            v_line.product_id, 'restock', v_bottles - v_quantity, v_quantity, v_bottles,
+            'Restock: ' || v_quantity || ' bottles added for ' || v_order.order_number ||
+            ' from ' || v_order.supplier_name ||
+            COALESCE(' (Invoice: ' || v_invoice || ')', '')
+        );
+    END LOOP;
+
+    v_status := CASE
+        WHEN EXISTS (
+            SELECT 1 FROM public.purchase_order_lines
+            WHERE purchase_order_id = p_order_id AND quantity_received < quantity_ordered
+        ) THEN 'partially_received'
+        ELSE 'received'
+    END;
+
+    UPDATE public.purchase_orders
+    SET status = v_status, updated_at = NOW()
+    WHERE id = p_order_id;
+
+    RETURN jsonb_build_object('status', v_status);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; receive_purchase_order() checks that the caller is an admin
+REVOKE EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB) TO authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read suppliers" ON public.suppliers
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated users to read supplier products" ON public.supplier_products
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated users to read purchase orders" ON public.purchase_orders
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated users to read purchase order lines" ON public.purchase_order_lines
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated users to read purchase order receipts" ON public.purchase_order_receipts
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow admin users to manage suppliers" ON public.suppliers
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Allow admin users to manage supplier products" ON public.supplier_products
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Receipts are only written by receive_purchase_order()
+CREATE POLICY "Allow admin users to manage purchase orders" ON public.purchase_orders
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Allow admin users to manage purchase order lines" ON public.purchase_order_lines
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.suppliers IS 'Suppliers directory with contacts and delivery lead times';
+COMMENT ON TABLE public.supplier_products IS 'Price each supplier charges per product';
+COMMENT ON TABLE public.purchase_orders IS 'Orders to suppliers: draft, sent, partially received or received';
+COMMENT ON TABLE public.purchase_order_lines IS 'Products ordered on a purchase order, with the quantity received so far';
+COMMENT ON TABLE public.purchase_order_receipts IS 'Deliveries received against purchase order lines at the invoiced cost';
+COMMENT ON FUNCTION public.receive_purchase_order(UUID, JSONB) IS 'Receives a delivery: restocks the products and records the actual cost';
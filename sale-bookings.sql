@@ -0,0 +1,78 @@
+-- ============================================================================
+-- BOOKING CHECKOUT
+-- ============================================================================
+-- Builds on booking-status.sql. A booking is checked out by ringing it up in
+-- the POS: the sale carries the booking's id, so revenue can be split between
+-- booked clients and walk-ins, and completed bookings without a sale show up
+-- as unpaid. A booking is paid by at most one sale that is not voided.
+-- ============================================================================
+
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_booking_id_paid
+    ON public.sales(booking_id)
+    WHERE booking_id IS NOT NULL AND status <> 'voided';
+
+-- ----------------------------------------------------------------------------
+-- Attach a sale to the booking it pays for. Called by process_complete_sale()
+-- with bookingId from the payload; does nothing for walk-in sales. The
+-- booking is taken through the remaining steps to completed.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.attach_sale_to_booking(p_sale_id UUID, p_sale JSONB)
+RETURNS VOID AS $$
+DECLARE
+    v_booking_id UUID := NULLIF(p_sale->>'bookingId', '')::UUID;
+    v_status TEXT;
+BEGIN
+    IF v_booking_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT status INTO v_status
+    FROM public.bookings
+    WHERE id = v_booking_id
+    FOR UPDATE;
+
+    IF v_status IS NULL THEN
+        RAISE EXCEPTION 'Booking not found: %', v_booking_id;
+    END IF;
+
+    IF v_status IN ('cancelled', 'no_show') THEN
+        RAISE EXCEPTION 'A % booking cannot be checked out', v_status;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.sales
+        WHERE booking_id = v_booking_id AND status <> 'voided' AND id <> p_sale_id
+    ) THEN
+        RAISE EXCEPTION 'This booking has already been paid';
+    END IF;
+
+    UPDATE public.sales SET booking_id = v_booking_id WHERE id = p_sale_id;
+
+    -- Each step is logged in booking_status_history with this note
+    PERFORM set_config('app.booking_status_note', 'Paid at checkout', true);
+
+    IF v_status = 'pending' THEN
+        UPDATE public.bookings SET status = 'checked_in', updated_at = NOW() WHERE id = v_booking_id;
+    END IF;
+
+    IF v_status IN ('pending', 'confirmed', 'checked_in') THEN
+        UPDATE public.bookings SET status = 'in_progress', updated_at = NOW() WHERE id = v_booking_id;
+    END IF;
+
+    IF v_status <> 'completed' THEN
+        UPDATE public.bookings SET status = 'completed', updated_at = NOW() WHERE id = v_booking_id;
+    END IF;
+
+    PERFORM set_config('app.booking_status_note', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal to process_complete_sale(); not callable on its own
+REVOKE EXECUTE ON FUNCTION public.attach_sale_to_booking(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.sales.booking_id IS 'Booking this sale paid for; empty for walk-in sales';
+COMMENT ON FUNCTION public.attach_sale_to_booking(UUID, JSONB) IS 'Links a POS sale to the booking it pays for and completes the booking';
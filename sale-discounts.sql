@@ -0,0 +1,333 @@
+-- ============================================================================
+-- DISCOUNTS, PROMO CODES AND LOYALTY REDEMPTIONS
+-- ============================================================================
+-- This script adds promo codes, client loyalty points and the per-sale
+-- discount breakdown. process_complete_sale() stores each service line at its
+-- discounted price (so commissions are computed on the discounted amount) and
+-- calls record_sale_discounts() to validate and record the discounts in the
+-- same transaction.
+-- ============================================================================
+
+-- Promo codes managed by admins
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code TEXT NOT NULL,
+    description TEXT,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    discount_value NUMERIC(10,2) NOT NULL CHECK (discount_value > 0),
+    scope TEXT NOT NULL DEFAULT 'cart' CHECK (scope IN ('cart', 'service')),
+    service_ids UUID[] NOT NULL DEFAULT '{}',
+    min_subtotal NUMERIC(10,2),
+    valid_from TIMESTAMP WITH TIME ZONE,
+    valid_until TIMESTAMP WITH TIME ZONE,
+    usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0),
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_code ON public.promo_codes(UPPER(code));
+
+-- Loyalty points balance per client
+ALTER TABLE public.clients
+ADD COLUMN IF NOT EXISTS loyalty_points INTEGER NOT NULL DEFAULT 0;
+
+-- Sale totals before and after discounts
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS subtotal_amount NUMERIC(10,2),
+ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10,2) NOT NULL DEFAULT 0.00;
+
+-- Discount taken off each service line (adjusted_price is stored net of it)
+ALTER TABLE public.service_items
+ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10,2) NOT NULL DEFAULT 0.00;
+
+-- Discounts applied to a sale
+CREATE TABLE IF NOT EXISTS public.sale_discounts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+    source TEXT NOT NULL CHECK (source IN ('manual', 'promo', 'loyalty')),
+    scope TEXT NOT NULL CHECK (scope IN ('cart', 'service')),
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    value NUMERIC(10,2) NOT NULL,
+    amount NUMERIC(10,2) NOT NULL,
+    service_id UUID REFERENCES public.services(id),
+    promo_code_id UUID REFERENCES public.promo_codes(id),
+    code TEXT,
+    loyalty_points INTEGER,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_sale_discounts_sale_id ON public.sale_discounts(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_discounts_promo_code_id ON public.sale_discounts(promo_code_id);
+
+-- ----------------------------------------------------------------------------
+-- Amount a discount takes off a base price, never more than the base itself
+-- (DiscountService.getDiscountAmount)
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.discount_amount(p_base NUMERIC, p_discount_type TEXT, p_value NUMERIC)
+RETURNS NUMERIC AS $$
+    SELECT CASE
+        WHEN COALESCE(p_base, 0) <= 0 OR COALESCE(p_value, 0) <= 0 THEN 0
+        WHEN p_discount_type = 'percentage' THEN ROUND(LEAST(p_base * LEAST(p_value, 100) / 100, p_base), 2)
+        ELSE ROUND(LEAST(p_value, p_base), 2)
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ----------------------------------------------------------------------------
+-- What a promo code takes off a sale, worked out from the promo code itself in
+-- the order DiscountService.calculate() applies discounts: manual line
+-- discounts, then service promo codes on each matching line, or cart promo
+-- codes on what is left after the manual cart discount.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.promo_discount_amount(
+    p_promo_code_id UUID,
+    p_sale JSONB
+)
+RETURNS NUMERIC AS $$
+DECLARE
+    v_promo RECORD;
+    v_service JSONB;
+    v_discount JSONB;
+    v_net NUMERIC;
+    v_quantity INTEGER;
+    v_base NUMERIC := 0;
+    v_amount NUMERIC := 0;
+BEGIN
+    SELECT * INTO v_promo FROM public.promo_codes WHERE id = p_promo_code_id;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    FOR v_service IN SELECT * FROM jsonb_array_elements(COALESCE(p_sale->'services', '[]'::jsonb)) LOOP
+        v_quantity := GREATEST(COALESCE((v_service->>'quantity')::INTEGER, 1), 1);
+        v_net := COALESCE((v_service->>'adjustedPrice')::NUMERIC, 0);
+        v_net := v_net - public.discount_amount(
+            v_net, v_service->'discount'->>'discountType', (v_service->'discount'->>'value')::NUMERIC
+        );
+
+        IF v_promo.scope = 'service' THEN
+            IF cardinality(v_promo.service_ids) = 0
+                OR (v_service->>'serviceId')::UUID = ANY(v_promo.service_ids) THEN
+                v_amount := v_amount + public.discount_amount(v_net, v_promo.discount_type, v_promo.discount_value) * v_quantity;
+            END IF;
+        ELSE
+            v_base := v_base + v_net * v_quantity;
+        END IF;
+    END LOOP;
+
+    IF v_promo.scope = 'service' THEN
+        RETURN ROUND(v_amount, 2);
+    END IF;
+
+    FOR v_discount IN SELECT * FROM jsonb_array_elements(COALESCE(p_sale->'discounts', '[]'::jsonb)) LOOP
+        IF v_discount->>'source' = 'manual' AND v_discount->>'scope' = 'cart' THEN
+            v_base := v_base - public.discount_amount(
+                v_base, v_discount->>'discountType', (v_discount->>'value')::NUMERIC
+            );
+        END IF;
+    END LOOP;
+
+    RETURN public.discount_amount(v_base, v_promo.discount_type, v_promo.discount_value);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ----------------------------------------------------------------------------
+-- Validate and record the discounts of a sale. Called by
+-- process_complete_sale() once the service lines are written:
+--   p_subtotal       sum of line prices before discounts
+--   p_line_discount  sum of the discounts taken off the lines
+--   p_tax_added      TVA added on top of tax-exclusive prices (sale-invoices.sql)
+--
+-- Promo amounts must match promo_discount_amount() to the cent per unit sold.
+-- Staff may grant manual discounts up to 20% of the services' list prices (the
+-- signed-in cashier's role decides) and a loyalty point is worth 0.50 DH,
+-- earned at 1 point per 10 DH paid (keep in sync with DiscountService).
+-- ----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.record_sale_discounts(UUID, JSONB, NUMERIC, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.record_sale_discounts(
+    p_sale_id UUID,
+    p_sale JSONB,
+    p_subtotal NUMERIC,
+    p_line_discount NUMERIC,
+    p_tax_added NUMERIC DEFAULT 0
+)
+RETURNS VOID AS $$
+DECLARE
+    v_client_id UUID := (p_sale->>'clientId')::UUID;
+    v_total NUMERIC := COALESCE((p_sale->>'totalAmount')::NUMERIC, 0);
+    v_tolerance NUMERIC := 0.01 * GREATEST(jsonb_array_length(p_sale->'services'), 1);
+    v_unit_tolerance NUMERIC;
+    v_discount JSONB;
+    v_promo RECORD;
+    v_points INTEGER;
+    v_amount NUMERIC;
+    v_promo_amount NUMERIC;
+    v_discount_total NUMERIC := 0;
+    v_manual_total NUMERIC := 0;
+    v_original_subtotal NUMERIC := 0;
+    v_cashier_role TEXT;
+BEGIN
+    IF ABS(p_subtotal - p_line_discount + p_tax_added - v_total) > v_tolerance THEN
+        RAISE EXCEPTION 'Sale total % does not match the discounted service prices %',
+            v_total, p_subtotal - p_line_discount + p_tax_added;
+    END IF;
+
+    -- Price overrides below the list price count as manual discounts. The
+    -- service lines hold the list price from public.services and the adjusted
+    -- price less the unit's share of the discounts listed below.
+    SELECT COALESCE(SUM(original_price), 0),
+           COALESCE(SUM(GREATEST(original_price - (adjusted_price + COALESCE(discount_amount, 0)), 0)), 0)
+    INTO v_original_subtotal, v_manual_total
+    FROM public.service_items
+    WHERE sale_id = p_sale_id;
+
+    -- Cart discounts are rounded per unit, so may be a cent off per unit sold
+    SELECT 0.01 * GREATEST(COALESCE(SUM(GREATEST(COALESCE((s->>'quantity')::INTEGER, 1), 1)), 0), 1)
+    INTO v_unit_tolerance
+    FROM jsonb_array_elements(COALESCE(p_sale->'services', '[]'::jsonb)) s;
+
+    FOR v_discount IN SELECT * FROM jsonb_array_elements(COALESCE(p_sale->'discounts', '[]'::jsonb)) LOOP
+        v_amount := COALESCE((v_discount->>'amount')::NUMERIC, 0);
+        CONTINUE WHEN v_amount <= 0;
+
+        v_discount_total := v_discount_total + v_amount;
+
+        IF v_discount->>'source' = 'promo' THEN
+            SELECT * INTO v_promo
+            FROM public.promo_codes
+            WHERE id = (v_discount->>'promoCodeId')::UUID
+            FOR UPDATE;
+
+            IF NOT FOUND OR NOT v_promo.is_active THEN
+                RAISE EXCEPTION 'Promo code % is not active', v_discount->>'code';
+            END IF;
+
+            IF (v_promo.valid_from IS NOT NULL AND v_promo.valid_from > NOW())
+                OR (v_promo.valid_until IS NOT NULL AND v_promo.valid_until < NOW()) THEN
+                RAISE EXCEPTION 'Promo code % is not valid at this date', v_promo.code;
+            END IF;
+
+            IF v_promo.usage_limit IS NOT NULL AND v_promo.usage_count >= v_promo.usage_limit THEN
+                RAISE EXCEPTION 'Promo code % has reached its usage limit', v_promo.code;
+            END IF;
+
+            IF v_promo.min_subtotal IS NOT NULL AND p_subtotal < v_promo.min_subtotal THEN
+                RAISE EXCEPTION 'Promo code % requires a minimum purchase of %', v_promo.code, v_promo.min_subtotal;
+            END IF;
+
+            v_promo_amount := public.promo_discount_amount(v_promo.id, p_sale);
+
+            IF ABS(v_amount - v_promo_amount) > v_unit_tolerance THEN
+                RAISE EXCEPTION 'Promo code % takes % off this sale, not %', v_promo.code, v_promo_amount, v_amount;
+            END IF;
+
+            -- Recorded as defined on the promo code, whatever the POS sent
+            v_discount := v_discount || jsonb_build_object(
+                'scope', v_promo.scope,
+                'discountType', v_promo.discount_type,
+                'value', v_promo.discount_value,
+                'code', v_promo.code
+            );
+
+            UPDATE public.promo_codes
+            SET usage_count = usage_count + 1, updated_at = NOW()
+            WHERE id = v_promo.id;
+
+        ELSIF v_discount->>'source' = 'loyalty' THEN
+            v_points := COALESCE((v_discount->>'loyaltyPoints')::INTEGER, 0);
+
+            IF v_amount > v_points * 0.5 + 0.01 THEN
+                RAISE EXCEPTION 'Loyalty discount of % exceeds the value of % points', v_amount, v_points;
+            END IF;
+
+            UPDATE public.clients
+            SET loyalty_points = loyalty_points - v_points
+            WHERE id = v_client_id AND loyalty_points >= v_points;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Client does not have % loyalty points to redeem', v_points;
+            END IF;
+
+        ELSIF v_discount->>'source' = 'manual' THEN
+            v_manual_total := v_manual_total + v_amount;
+
+        ELSE
+            RAISE EXCEPTION 'Invalid discount source: %', v_discount->>'source';
+        END IF;
+
+        INSERT INTO public.sale_discounts (
+            sale_id, source, scope, discount_type, value, amount,
+            service_id, promo_code_id, code, loyalty_points, reason
+        ) VALUES (
+            p_sale_id, v_discount->>'source', COALESCE(v_discount->>'scope', 'cart'),
+            COALESCE(v_discount->>'discountType', 'fixed'),
+            COALESCE((v_discount->>'value')::NUMERIC, v_amount), v_amount,
+            NULLIF(v_discount->>'serviceId', '')::UUID, NULLIF(v_discount->>'promoCodeId', '')::UUID,
+            v_discount->>'code', v_points, v_discount->>'reason'
+        );
+
+        v_points := NULL;
+    END LOOP;
+
+    IF ABS(v_discount_total - p_line_discount) > v_tolerance THEN
+        RAISE EXCEPTION 'Discount breakdown % does not match the discounted service prices %',
+            v_discount_total, p_line_discount;
+    END IF;
+
+    -- The limit is the cashier's, not that of the staff member credited with
+    -- the sale (the booked stylist on a booking checkout)
+    SELECT role INTO v_cashier_role FROM public.users WHERE id = auth.uid();
+
+    IF COALESCE(v_cashier_role, 'staff') <> 'admin'
+        AND v_manual_total > (v_original_subtotal * 20 / 100) + 0.01 THEN
+        RAISE EXCEPTION 'Manual discounts above 20%% of the sale require an admin';
+    END IF;
+
+    UPDATE public.sales
+    SET subtotal_amount = p_subtotal, discount_amount = p_line_discount
+    WHERE id = p_sale_id;
+
+    UPDATE public.clients
+    SET loyalty_points = loyalty_points + FLOOR(v_total * 0.1)::INTEGER
+    WHERE id = v_client_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal to process_complete_sale(); not callable on its own
+REVOKE EXECUTE ON FUNCTION public.promo_discount_amount(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_sale_discounts(UUID, JSONB, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sale_discounts ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read promo codes and sale discounts
+CREATE POLICY "Allow authenticated users to read promo codes" ON public.promo_codes
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated users to read sale discounts" ON public.sale_discounts
+    FOR SELECT TO authenticated USING (true);
+
+-- Only admins can manage promo codes
+CREATE POLICY "Allow admin users to manage promo codes" ON public.promo_codes
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.promo_codes IS 'Promo codes with validity dates and usage limits, applied at the POS';
+COMMENT ON COLUMN public.promo_codes.service_ids IS 'For service-scoped codes: the services it applies to (empty = all services)';
+COMMENT ON TABLE public.sale_discounts IS 'Manual, promo code and loyalty discounts applied to a sale';
+COMMENT ON COLUMN public.clients.loyalty_points IS 'Loyalty points balance; earned on every sale, redeemable as a discount';
+COMMENT ON COLUMN public.service_items.discount_amount IS 'Discount taken off this line; adjusted_price is net of it';
+COMMENT ON FUNCTION public.discount_amount(NUMERIC, TEXT, NUMERIC) IS 'Amount a percentage or fixed discount takes off a base price';
+COMMENT ON FUNCTION public.promo_discount_amount(UUID, JSONB) IS 'Amount a promo code takes off a sale, from the promo code definition';
+COMMENT ON FUNCTION public.record_sale_discounts(UUID, JSONB, NUMERIC, NUMERIC, NUMERIC) IS 'Validates promo codes, loyalty redemptions and manual discount limits for a sale and records them';
@@ -0,0 +1,160 @@
+-- ============================================================================
+-- TVA AND INVOICE NUMBERS
+-- ============================================================================
+-- This script adds VAT (TVA) to POS sales and numbers every sale as an
+-- invoice. Each service carries its TVA rate and whether its price includes
+-- the tax; record_sale_taxes() stores the tax of every service line and a
+-- breakdown per rate for the sale. Tax on tax-exclusive prices is added on
+-- top of the line prices, so the sale total is always the amount paid (TTC).
+--
+-- Invoice numbers (FA-2026-000001) restart every year and are taken from the
+-- gap-free counters of sale-receipts.sql when the sale is committed.
+-- ============================================================================
+
+-- TVA rate of each service and product (Moroccan rates: 0, 7, 10, 14, 20)
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2) NOT NULL DEFAULT 20.00 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2) NOT NULL DEFAULT 20.00 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT true;
+
+-- Tax of each service line
+ALTER TABLE public.service_items
+ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0.00,
+ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0.00;
+
+-- Sale TVA total and invoice number
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0.00,
+ADD COLUMN IF NOT EXISTS invoice_number TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_invoice_number
+    ON public.sales(invoice_number)
+    WHERE invoice_number IS NOT NULL;
+
+-- TVA breakdown of a sale, one row per rate and pricing mode
+CREATE TABLE IF NOT EXISTS public.sale_tax_lines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+    tax_rate NUMERIC(5,2) NOT NULL,
+    price_includes_tax BOOLEAN NOT NULL,
+    taxable_amount NUMERIC(10,2) NOT NULL, -- amount before tax (HT)
+    tax_amount NUMERIC(10,2) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (sale_id, tax_rate, price_includes_tax)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_tax_lines_sale_id ON public.sale_tax_lines(sale_id);
+
+-- ----------------------------------------------------------------------------
+-- Compute and record the TVA of a sale's service lines. Called by
+-- process_complete_sale() once the lines are written at their discounted
+-- price. Tax is rounded per unit (keep in sync with TaxService). Retail lines
+-- are taxed as they are recorded (sale-retail.sql) and join the breakdown
+-- here. Returns the tax added on top of tax-exclusive prices, which the sale
+-- total includes.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_sale_taxes(p_sale_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+    v_tax_total NUMERIC;
+    v_tax_added NUMERIC;
+BEGIN
+    UPDATE public.service_items si
+    SET
+        tax_rate = s.tax_rate,
+        price_includes_tax = s.price_includes_tax,
+        tax_amount = CASE
+            WHEN s.price_includes_tax THEN ROUND(si.adjusted_price * s.tax_rate / (100 + s.tax_rate), 2)
+            ELSE ROUND(si.adjusted_price * s.tax_rate / 100, 2)
+        END
+    FROM public.services s
+    WHERE s.id = si.service_id AND si.sale_id = p_sale_id;
+
+    INSERT INTO public.sale_tax_lines (sale_id, tax_rate, price_includes_tax, taxable_amount, tax_amount)
+    SELECT
+        p_sale_id,
+        tax_rate,
+        price_includes_tax,
+        SUM(CASE WHEN price_includes_tax THEN line_amount - tax_amount ELSE line_amount END),
+        SUM(tax_amount)
+    FROM (
+        SELECT tax_rate, price_includes_tax, adjusted_price AS line_amount, tax_amount
+        FROM public.service_items
+        WHERE sale_id = p_sale_id
+        UNION ALL
+        SELECT tax_rate, price_includes_tax, unit_price * quantity, tax_amount
+        FROM public.sale_retail_items
+        WHERE sale_id = p_sale_id
+    ) lines
+    GROUP BY tax_rate, price_includes_tax;
+
+    SELECT
+        COALESCE(SUM(tax_amount), 0),
+        COALESCE(SUM(tax_amount) FILTER (WHERE NOT price_includes_tax), 0)
+    INTO v_tax_total, v_tax_added
+    FROM public.sale_tax_lines
+    WHERE sale_id = p_sale_id;
+
+    UPDATE public.sales SET tax_amount = v_tax_total WHERE id = p_sale_id;
+
+    RETURN v_tax_added;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Number a sale as an invoice. Called by process_complete_sale() once the
+-- sale has passed every other check; numbering restarts every year. The year
+-- is that of the sale's checkout time, so an offline sale synced after New
+-- Year is numbered in the year it was made.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.assign_sale_invoice_number(p_sale_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_invoice_number TEXT;
+    v_year TEXT;
+BEGIN
+    SELECT invoice_number, to_char(COALESCE(created_at, NOW()) AT TIME ZONE 'Africa/Casablanca', 'YYYY')
+    INTO v_invoice_number, v_year
+    FROM public.sales
+    WHERE id = p_sale_id;
+
+    IF v_invoice_number IS NOT NULL THEN
+        RETURN v_invoice_number;
+    END IF;
+
+    v_invoice_number := 'FA-' || v_year || '-' ||
+        lpad(public.next_document_number('invoice-' || v_year)::TEXT, 6, '0');
+
+    UPDATE public.sales SET invoice_number = v_invoice_number WHERE id = p_sale_id;
+
+    RETURN v_invoice_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal to process_complete_sale(); not callable on its own, so invoice
+-- numbers cannot be taken outside a committed sale
+REVOKE EXECUTE ON FUNCTION public.record_sale_taxes(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assign_sale_invoice_number(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.sale_tax_lines ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read tax lines; they are written by record_sale_taxes()
+CREATE POLICY "Allow authenticated users to read sale tax lines" ON public.sale_tax_lines
+    FOR SELECT TO authenticated USING (true);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.services.tax_rate IS 'TVA rate in percent applied to the service';
+COMMENT ON COLUMN public.services.price_includes_tax IS 'true when price is TTC (tax included), false when TVA is added on top';
+COMMENT ON COLUMN public.products.tax_rate IS 'TVA rate in percent applied to retail sales of the product';
+COMMENT ON COLUMN public.products.price_includes_tax IS 'true when price is TTC (tax included), false when TVA is added on top';
+COMMENT ON COLUMN public.service_items.tax_amount IS 'TVA of this line, included in or added to adjusted_price';
+COMMENT ON COLUMN public.sales.tax_amount IS 'Total TVA of the sale; total_amount is always tax included';
+COMMENT ON COLUMN public.sales.invoice_number IS 'Gap-free yearly invoice number assigned when the sale is committed';
+COMMENT ON TABLE public.sale_tax_lines IS 'TVA breakdown of a sale per rate';
+COMMENT ON FUNCTION public.record_sale_taxes(UUID) IS 'Records the TVA of a sale''s lines and returns the tax added to exclusive prices';
+COMMENT ON FUNCTION public.assign_sale_invoice_number(UUID) IS 'Assigns the next invoice number of the year the sale was made to a sale';
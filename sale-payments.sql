@@ -0,0 +1,119 @@
+-- ============================================================================
+-- SPLIT AND MIXED PAYMENTS
+-- ============================================================================
+-- This script lets a sale be paid with several tenders (part cash, part
+-- card, ...). Each tender is stored in sale_payments with the amount applied
+-- to the sale; cash tenders also keep the amount handed over and the change
+-- given back. sales.payment_method holds the single tender type used, or
+-- 'mixed' when several were combined.
+-- ============================================================================
+
+-- Allow 'mixed' as the sale payment method
+ALTER TABLE public.sales DROP CONSTRAINT IF EXISTS sales_payment_method_check;
+ALTER TABLE public.sales
+ADD CONSTRAINT sales_payment_method_check
+    CHECK (payment_method IN ('cash', 'card', 'transfer', 'mixed'));
+
+-- One row per tender used on a sale
+CREATE TABLE IF NOT EXISTS public.sale_payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+    method TEXT NOT NULL CHECK (method IN ('cash', 'card', 'transfer')),
+    amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+    tendered NUMERIC(10,2),
+    change_given NUMERIC(10,2) NOT NULL DEFAULT 0.00,
+    reference TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_sale_payments_sale_id ON public.sale_payments(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_payments_method ON public.sale_payments(method);
+
+-- Existing sales were paid with a single tender
+INSERT INTO public.sale_payments (sale_id, method, amount, created_at)
+SELECT s.id, s.payment_method, s.total_amount, s.created_at
+FROM public.sales s
+WHERE s.total_amount > 0
+  AND s.payment_method IN ('cash', 'card', 'transfer')
+  AND NOT EXISTS (SELECT 1 FROM public.sale_payments p WHERE p.sale_id = s.id);
+
+-- ----------------------------------------------------------------------------
+-- Validate and record the tenders of a sale. Called by process_complete_sale().
+-- Applied amounts must add up to the sale total plus any tip (sale-tips.sql);
+-- only cash may carry change. Payloads without "payments" are recorded as a
+-- single tender of paymentMethod for the full amount.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_sale_payments(p_sale_id UUID, p_sale JSONB)
+RETURNS VOID AS $$
+DECLARE
+    v_total NUMERIC := COALESCE((p_sale->>'totalAmount')::NUMERIC, 0);
+    v_tip NUMERIC := COALESCE((
+        SELECT SUM((t->>'amount')::NUMERIC) FROM jsonb_array_elements(COALESCE(p_sale->'tips', '[]'::jsonb)) t
+    ), 0);
+    v_payments JSONB := COALESCE(p_sale->'payments', '[]'::jsonb);
+    v_payment JSONB;
+    v_amount NUMERIC;
+    v_change NUMERIC;
+    v_paid NUMERIC := 0;
+BEGIN
+    v_total := v_total + v_tip;
+
+    IF jsonb_array_length(v_payments) = 0 THEN
+        IF v_total > 0 THEN
+            IF p_sale->>'paymentMethod' NOT IN ('cash', 'card', 'transfer') THEN
+                RAISE EXCEPTION 'Payment tenders are required for a % sale', p_sale->>'paymentMethod';
+            END IF;
+
+            INSERT INTO public.sale_payments (sale_id, method, amount)
+            VALUES (p_sale_id, p_sale->>'paymentMethod', v_total);
+        END IF;
+        RETURN;
+    END IF;
+
+    FOR v_payment IN SELECT * FROM jsonb_array_elements(v_payments) LOOP
+        v_amount := COALESCE((v_payment->>'amount')::NUMERIC, 0);
+        v_change := COALESCE((v_payment->>'changeGiven')::NUMERIC, 0);
+
+        IF v_payment->>'method' NOT IN ('cash', 'card', 'transfer') THEN
+            RAISE EXCEPTION 'Invalid payment method: %', v_payment->>'method';
+        END IF;
+
+        IF v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero';
+        END IF;
+
+        IF v_change < 0 OR (v_change > 0 AND v_payment->>'method' <> 'cash') THEN
+            RAISE EXCEPTION 'Change can only be given on cash payments';
+        END IF;
+
+        INSERT INTO public.sale_payments (sale_id, method, amount, tendered, change_given, reference)
+        VALUES (
+            p_sale_id, v_payment->>'method', v_amount,
+            (v_payment->>'tendered')::NUMERIC, v_change, v_payment->>'reference'
+        );
+
+        v_paid := v_paid + v_amount;
+    END LOOP;
+
+    IF ABS(v_paid - v_total) > 0.01 THEN
+        RAISE EXCEPTION 'Payments of % do not match the amount due of %', v_paid, v_total;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal to process_complete_sale(); not callable on its own
+REVOKE EXECUTE ON FUNCTION public.record_sale_payments(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.sale_payments ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read sale payments
+CREATE POLICY "Allow authenticated users to read sale payments" ON public.sale_payments
+    FOR SELECT TO authenticated USING (true);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.sale_payments IS 'Payment tenders used on a sale; amounts add up to the sale total plus tip';
+COMMENT ON COLUMN public.sale_payments.amount IS 'Amount applied to the sale (excludes change given back)';
+COMMENT ON COLUMN public.sale_payments.tendered IS 'Cash handed over by the client, when different from the amount applied';
+COMMENT ON FUNCTION public.record_sale_payments(UUID, JSONB) IS 'Validates that the tenders of a sale add up to its total and records them';
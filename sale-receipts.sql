@@ -0,0 +1,86 @@
+-- ============================================================================
+-- SALE RECEIPT NUMBERS
+-- ============================================================================
+-- This script gives every POS sale a sequential receipt number. Numbers come
+-- from a counter row in document_sequences rather than a Postgres sequence:
+-- the counter is incremented inside the sale transaction, so a sale that
+-- rolls back gives its number back and the printed receipts never skip one.
+-- Concurrent checkouts queue on the counter row for the last few statements
+-- of process_complete_sale() only.
+-- ============================================================================
+
+-- One counter per numbered document type
+CREATE TABLE IF NOT EXISTS public.document_sequences (
+    name TEXT PRIMARY KEY,
+    last_value BIGINT NOT NULL DEFAULT 0 CHECK (last_value >= 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Receipt number printed on the sale's receipt
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS receipt_number BIGINT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_receipt_number
+    ON public.sales(receipt_number)
+    WHERE receipt_number IS NOT NULL;
+
+-- ----------------------------------------------------------------------------
+-- Take the next number of a document sequence. The counter row stays locked
+-- until the calling transaction ends.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.next_document_number(p_name TEXT)
+RETURNS BIGINT AS $$
+DECLARE
+    v_value BIGINT;
+BEGIN
+    INSERT INTO public.document_sequences (name, last_value)
+    VALUES (p_name, 1)
+    ON CONFLICT (name) DO UPDATE
+    SET last_value = public.document_sequences.last_value + 1, updated_at = NOW()
+    RETURNING last_value INTO v_value;
+
+    RETURN v_value;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Number a sale's receipt. Called by process_complete_sale() once the sale
+-- has passed every other check.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.assign_sale_receipt_number(p_sale_id UUID)
+RETURNS BIGINT AS $$
+DECLARE
+    v_number BIGINT;
+BEGIN
+    SELECT receipt_number INTO v_number FROM public.sales WHERE id = p_sale_id;
+
+    IF v_number IS NOT NULL THEN
+        RETURN v_number;
+    END IF;
+
+    v_number := public.next_document_number('receipt');
+
+    UPDATE public.sales SET receipt_number = v_number WHERE id = p_sale_id;
+
+    RETURN v_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; numbers are only taken inside process_complete_sale() and
+-- the numbering triggers, so no caller can burn one
+REVOKE EXECUTE ON FUNCTION public.next_document_number(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assign_sale_receipt_number(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.document_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read the counters; they only change through
+-- next_document_number()
+CREATE POLICY "Allow authenticated users to read document sequences" ON public.document_sequences
+    FOR SELECT TO authenticated USING (true);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.document_sequences IS 'Gap-free counters for numbered documents (receipts)';
+COMMENT ON COLUMN public.sales.receipt_number IS 'Sequential receipt number assigned when the sale is committed';
+COMMENT ON FUNCTION public.next_document_number(TEXT) IS 'Returns the next number of a document counter; locked until the transaction ends';
+COMMENT ON FUNCTION public.assign_sale_receipt_number(UUID) IS 'Assigns the next receipt number to a sale';
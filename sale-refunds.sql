@@ -0,0 +1,380 @@
+-- ============================================================================
+-- SALE REFUNDS AND VOIDS
+-- ============================================================================
+-- This script adds the tables and columns needed to refund or void a sale,
+-- in full or per service line. Each refund records who performed it and why;
+-- consumed product ml is returned to stock and matching commissions are
+-- cancelled (pending) or clawed back (already paid). Everything a refund
+-- changes is written in a single transaction by refund_sale().
+-- ============================================================================
+
+-- Allow the new sale statuses
+ALTER TABLE public.sales DROP CONSTRAINT IF EXISTS sales_status_check;
+ALTER TABLE public.sales
+ADD CONSTRAINT sales_status_check
+    CHECK (status IN ('completed', 'partially_refunded', 'refunded', 'voided'));
+
+-- Running total of the amount refunded on a sale
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0.00;
+
+-- One row per refund or void performed on a sale
+CREATE TABLE IF NOT EXISTS public.sale_refunds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+    refund_type TEXT NOT NULL CHECK (refund_type IN ('void', 'full', 'partial')),
+    amount NUMERIC(10,2) NOT NULL DEFAULT 0.00,
+    reason TEXT NOT NULL,
+    refunded_by UUID NOT NULL REFERENCES public.users(id),
+    service_item_ids UUID[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Part of a refund paid back in cash from the drawer
+ALTER TABLE public.sale_refunds
+ADD COLUMN IF NOT EXISTS cash_amount NUMERIC(10,2) NOT NULL DEFAULT 0.00;
+
+-- Unpaid tip given back to the client when a sale is voided
+ALTER TABLE public.sale_refunds
+ADD COLUMN IF NOT EXISTS tip_amount NUMERIC(10,2) NOT NULL DEFAULT 0.00;
+
+-- Refunded service lines
+ALTER TABLE public.service_items
+ADD COLUMN IF NOT EXISTS refund_id UUID REFERENCES public.sale_refunds(id),
+ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+
+-- Commission cancellation and clawback tracking
+ALTER TABLE public.commissions
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+ADD COLUMN IF NOT EXISTS clawback_of UUID REFERENCES public.commissions(id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_sale_refunds_sale_id ON public.sale_refunds(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_refunds_created_at ON public.sale_refunds(created_at);
+CREATE INDEX IF NOT EXISTS idx_service_items_refund_id ON public.service_items(refund_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commissions_clawback_of
+    ON public.commissions(clawback_of)
+    WHERE clawback_of IS NOT NULL;
+
+-- ----------------------------------------------------------------------------
+-- Refund or void a sale in one transaction. p_service_item_ids selects the
+-- service lines of a partial refund; NULL refunds every line not yet
+-- refunded, retail products included (retail lines are only refunded with
+-- the whole sale). Consumed product goes back into the open bottles, retail
+-- bottles back to the sealed stock, and one commission per refunded line is
+-- cancelled or, when already paid, clawed back. The client loses the loyalty
+-- points earned on the refunded amount; once nothing is left to refund, the
+-- points they redeemed are given back and the promo code use is released. A
+-- void also cancels the unpaid tips and gives them back with the refund. Cash
+-- is paid back first, up to the cash the client paid, as a cash-out of the
+-- admin's open cash drawer session.
+--
+-- Uses the tables of sale-discounts.sql, sale-payments.sql, sale-tips.sql,
+-- cash-drawer-sessions.sql, sale-invoices.sql and sale-retail.sql; run the
+-- feature scripts in the order listed in the README.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.refund_sale(
+    p_sale_id UUID,
+    p_mode TEXT,
+    p_service_item_ids UUID[],
+    p_reason TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_refunded_by UUID := auth.uid();
+    v_reason TEXT := NULLIF(TRIM(COALESCE(p_reason, '')), '');
+    v_sale RECORD;
+    v_refund RECORD;
+    v_open_items INTEGER;
+    v_open_retail INTEGER;
+    v_item_ids UUID[];
+    v_retail_ids UUID[];
+    v_is_full BOOLEAN;
+    v_amount NUMERIC;
+    v_tip_amount NUMERIC := 0;
+    v_already_refunded NUMERIC;
+    v_cash_amount NUMERIC;
+    v_session_id UUID;
+    v_redeemed_points INTEGER := 0;
+    v_commission_reason TEXT;
+    v_log RECORD;
+    v_item RECORD;
+    v_commission RECORD;
+    v_product RECORD;
+    v_restore NUMERIC;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = v_refunded_by AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can refund or void sales';
+    END IF;
+
+    IF v_reason IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to refund a sale';
+    END IF;
+
+    IF p_mode NOT IN ('void', 'refund') THEN
+        RAISE EXCEPTION 'Invalid refund mode: %', p_mode;
+    END IF;
+
+    SELECT * INTO v_sale FROM public.sales WHERE id = p_sale_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sale not found: %', p_sale_id;
+    END IF;
+
+    IF v_sale.status IN ('refunded', 'voided') THEN
+        RAISE EXCEPTION 'This sale has already been fully refunded';
+    END IF;
+
+    SELECT COUNT(*) INTO v_open_items
+    FROM public.service_items
+    WHERE sale_id = p_sale_id AND refund_id IS NULL;
+
+    SELECT COUNT(*) INTO v_open_retail
+    FROM public.sale_retail_items
+    WHERE sale_id = p_sale_id AND refund_id IS NULL;
+
+    SELECT COALESCE(array_agg(id), '{}') INTO v_item_ids
+    FROM public.service_items
+    WHERE sale_id = p_sale_id AND refund_id IS NULL
+      AND (p_mode = 'void' OR p_service_item_ids IS NULL OR id = ANY(p_service_item_ids));
+
+    -- Retail lines are only refunded with the whole sale
+    SELECT COALESCE(array_agg(id), '{}') INTO v_retail_ids
+    FROM public.sale_retail_items
+    WHERE sale_id = p_sale_id AND refund_id IS NULL
+      AND (p_mode = 'void' OR p_service_item_ids IS NULL);
+
+    IF cardinality(v_item_ids) = 0 AND cardinality(v_retail_ids) = 0 THEN
+        RAISE EXCEPTION 'No refundable service lines selected';
+    END IF;
+
+    v_is_full := cardinality(v_item_ids) = v_open_items AND cardinality(v_retail_ids) = v_open_retail;
+    v_already_refunded := COALESCE(v_sale.refunded_amount, 0);
+
+    IF v_is_full THEN
+        v_amount := GREATEST(0, v_sale.total_amount - v_already_refunded);
+    ELSE
+        -- What the client paid for the lines: TVA added on top of a
+        -- tax-exclusive price is refunded with it
+        SELECT COALESCE(SUM(adjusted_price + CASE WHEN price_includes_tax THEN 0 ELSE tax_amount END), 0)
+        INTO v_amount
+        FROM public.service_items
+        WHERE id = ANY(v_item_ids);
+    END IF;
+
+    -- A void gives back the tips not yet paid out to staff
+    IF p_mode = 'void' THEN
+        SELECT COALESCE(SUM(amount), 0) INTO v_tip_amount
+        FROM public.sale_tips
+        WHERE sale_id = p_sale_id AND status = 'pending';
+    END IF;
+
+    -- Cash paid on the sale and not yet given back comes out of the drawer
+    SELECT GREATEST(0, LEAST(
+        v_amount + v_tip_amount,
+        COALESCE((SELECT SUM(amount) FROM public.sale_payments WHERE sale_id = p_sale_id AND method = 'cash'), 0)
+            - COALESCE((SELECT SUM(cash_amount) FROM public.sale_refunds WHERE sale_id = p_sale_id), 0)
+    )) INTO v_cash_amount;
+
+    IF v_cash_amount > 0 THEN
+        SELECT id INTO v_session_id
+        FROM public.cash_drawer_sessions
+        WHERE staff_id = v_refunded_by AND status = 'open'
+        FOR UPDATE;
+
+        IF v_session_id IS NULL THEN
+            RAISE EXCEPTION 'Open a cash drawer session to pay back % in cash', v_cash_amount;
+        END IF;
+    END IF;
+
+    INSERT INTO public.sale_refunds (
+        sale_id, refund_type, amount, tip_amount, cash_amount, reason, refunded_by, service_item_ids
+    ) VALUES (
+        p_sale_id,
+        CASE WHEN p_mode = 'void' THEN 'void' WHEN v_is_full THEN 'full' ELSE 'partial' END,
+        v_amount + v_tip_amount, v_tip_amount, v_cash_amount, v_reason, v_refunded_by, v_item_ids
+    )
+    RETURNING * INTO v_refund;
+
+    IF v_cash_amount > 0 THEN
+        INSERT INTO public.cash_drawer_movements (session_id, movement_type, amount, reason, created_by)
+        VALUES (v_session_id, 'cash_out', v_cash_amount, 'Refund: ' || v_reason, v_refunded_by);
+    END IF;
+
+    UPDATE public.service_items
+    SET refund_id = v_refund.id, refunded_at = NOW()
+    WHERE id = ANY(v_item_ids);
+
+    UPDATE public.sale_retail_items
+    SET refund_id = v_refund.id, refunded_at = NOW()
+    WHERE id = ANY(v_retail_ids);
+
+    -- Return stock: each service line owns an equal share of its service's
+    -- consumption. It goes back into the open bottles and the lots follow
+    -- (product-lots.sql).
+    FOR v_log IN
+        SELECT
+            l.product_id,
+            l.service_id,
+            l.ml_consumed,
+            (SELECT COUNT(*) FROM public.service_items si
+             WHERE si.sale_id = p_sale_id AND si.service_id = l.service_id) AS line_count,
+            (SELECT COUNT(*) FROM public.service_items si
+             WHERE si.id = ANY(v_item_ids) AND si.service_id = l.service_id) AS refunded_count
+        FROM public.product_consumption_log l
+        WHERE l.sale_id = p_sale_id AND l.consumption_type = 'service'
+    LOOP
+        CONTINUE WHEN v_log.refunded_count = 0;
+
+        v_restore := v_log.ml_consumed * v_log.refunded_count / GREATEST(v_log.line_count, 1);
+        CONTINUE WHEN v_restore <= 0;
+
+        SELECT id, COALESCE(sealed_bottles, 0) AS sealed_bottles,
+            COALESCE(open_bottle_remaining_ml, 0) AS open_ml
+        INTO v_product
+        FROM public.products
+        WHERE id = v_log.product_id
+        FOR UPDATE;
+
+        UPDATE public.products
+        SET open_bottle_remaining_ml = v_product.open_ml + v_restore, updated_at = NOW()
+        WHERE id = v_log.product_id;
+
+        -- Logged as negative consumption so per-sale totals net out after a refund
+        INSERT INTO public.product_consumption_log (
+            product_id, sale_id, service_id, consumption_type, ml_consumed, bottles_opened,
+            remaining_ml_before, remaining_ml_after, sealed_bottles_before, sealed_bottles_after, staff_id
+        ) VALUES (
+            v_log.product_id, p_sale_id, v_log.service_id, 'return', -v_restore, 0,
+            v_product.open_ml, v_product.open_ml + v_restore,
+            v_product.sealed_bottles, v_product.sealed_bottles, v_refunded_by
+        );
+    END LOOP;
+
+    -- Returned retail bottles go back to the sealed stock
+    FOR v_item IN
+        SELECT product_id, quantity FROM public.sale_retail_items WHERE id = ANY(v_retail_ids)
+    LOOP
+        UPDATE public.products
+        SET sealed_bottles = COALESCE(sealed_bottles, 0) + v_item.quantity, updated_at = NOW()
+        WHERE id = v_item.product_id;
+    END LOOP;
+
+    -- Reverse one commission per refunded service line. A paid commission
+    -- cannot be cancelled; a negative pending row deducts it from the staff
+    -- member's next payout instead.
+    v_commission_reason := 'Sale ' || CASE WHEN p_mode = 'void' THEN 'voided' ELSE 'refunded' END || ': ' || v_reason;
+
+    FOR v_item IN
+        SELECT service_id, COUNT(*) AS refunded_count
+        FROM public.service_items
+        WHERE id = ANY(v_item_ids)
+        GROUP BY service_id
+    LOOP
+        FOR v_commission IN
+            SELECT c.*
+            FROM public.commissions c
+            WHERE c.sale_id = p_sale_id
+              AND c.service_id = v_item.service_id
+              AND c.clawback_of IS NULL
+              AND c.status <> 'cancelled'
+              AND NOT EXISTS (SELECT 1 FROM public.commissions cb WHERE cb.clawback_of = c.id)
+            ORDER BY c.created_at
+            LIMIT v_item.refunded_count
+        LOOP
+            IF v_commission.status = 'paid' THEN
+                INSERT INTO public.commissions (
+                    staff_id, sale_id, service_id, commission_percentage, commission_amount,
+                    status, clawback_of, cancellation_reason
+                ) VALUES (
+                    v_commission.staff_id, p_sale_id, v_commission.service_id,
+                    v_commission.commission_percentage, -ABS(v_commission.commission_amount),
+                    'pending', v_commission.id, v_commission_reason
+                );
+            ELSE
+                UPDATE public.commissions
+                SET status = 'cancelled', cancelled_at = NOW(), cancellation_reason = v_commission_reason
+                WHERE id = v_commission.id;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    -- A voided sale's unpaid tip went back to the client with the refund;
+    -- tips already paid out stay with staff
+    IF p_mode = 'void' THEN
+        UPDATE public.sale_tips
+        SET status = 'cancelled'
+        WHERE sale_id = p_sale_id AND status = 'pending';
+    END IF;
+
+    UPDATE public.sales
+    SET
+        status = CASE WHEN NOT v_is_full THEN 'partially_refunded' WHEN p_mode = 'void' THEN 'voided' ELSE 'refunded' END,
+        refunded_amount = v_already_refunded + v_amount
+    WHERE id = p_sale_id;
+
+    -- Nothing left to refund: the redeemed points come back and the promo code
+    -- can be used again
+    IF v_is_full THEN
+        SELECT COALESCE(SUM(loyalty_points), 0) INTO v_redeemed_points
+        FROM public.sale_discounts
+        WHERE sale_id = p_sale_id AND source = 'loyalty';
+
+        UPDATE public.promo_codes
+        SET usage_count = GREATEST(usage_count - 1, 0), updated_at = NOW()
+        WHERE id IN (
+            SELECT promo_code_id FROM public.sale_discounts
+            WHERE sale_id = p_sale_id AND source = 'promo' AND promo_code_id IS NOT NULL
+        );
+    END IF;
+
+    -- Keep client totals in line with what was actually paid, and take back
+    -- the points earned on the refunded amount (1 per 10 DH, as in
+    -- record_sale_discounts())
+    UPDATE public.clients
+    SET
+        total_spent = GREATEST(0, COALESCE(total_spent, 0) - v_amount),
+        total_visits = CASE
+            WHEN p_mode = 'void' THEN GREATEST(0, COALESCE(total_visits, 0) - 1)
+            ELSE total_visits
+        END,
+        loyalty_points = GREATEST(0, COALESCE(loyalty_points, 0)
+            - (FLOOR((v_already_refunded + v_amount) * 0.1) - FLOOR(v_already_refunded * 0.1))::INTEGER
+            + v_redeemed_points),
+        updated_at = NOW()
+    WHERE id = v_sale.client_id;
+
+    RETURN to_jsonb(v_refund);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; refund_sale() checks that the caller is an admin
+REVOKE EXECUTE ON FUNCTION public.refund_sale(UUID, TEXT, UUID[], TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.refund_sale(UUID, TEXT, UUID[], TEXT) TO authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.sale_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read refunds
+CREATE POLICY "Allow authenticated users to read sale refunds" ON public.sale_refunds
+    FOR SELECT TO authenticated USING (true);
+
+-- Only admins can refund or void sales
+CREATE POLICY "Allow admin users to create sale refunds" ON public.sale_refunds
+    FOR INSERT TO authenticated WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.sale_refunds IS 'Refunds and voids performed on sales, with the operator and reason';
+COMMENT ON COLUMN public.sale_refunds.refund_type IS 'void (sale cancelled), full (all remaining lines refunded) or partial (selected lines)';
+COMMENT ON COLUMN public.sale_refunds.service_item_ids IS 'Service lines covered by this refund';
+COMMENT ON COLUMN public.sale_refunds.tip_amount IS 'Unpaid tip given back on a void; included in amount but not in sales.refunded_amount';
+COMMENT ON COLUMN public.sale_refunds.cash_amount IS 'Part of the refund paid back in cash, recorded as a cash-out of the drawer';
+COMMENT ON COLUMN public.sales.refunded_amount IS 'Total amount refunded on this sale across all refunds';
+COMMENT ON COLUMN public.commissions.clawback_of IS 'For negative clawback rows: the paid commission being reversed';
+COMMENT ON FUNCTION public.refund_sale(UUID, TEXT, UUID[], TEXT) IS 'Refunds or voids a sale in one transaction, reversing stock, commissions, tips, loyalty points and promo code use';
@@ -0,0 +1,124 @@
+-- ============================================================================
+-- RETAIL PRODUCT SALES
+-- ============================================================================
+-- This script lets the POS sell products over the counter, with or without
+-- services in the same sale. Retail is sold by whole sealed bottle (or by
+-- unit for products not measured in ml) at products.price: the sale takes
+-- sealed_bottles off the stock and never touches the open bottle.
+--
+-- Each retail line keeps the price and cost at the time of sale so retail
+-- revenue and margin can be reported apart from service revenue. Retail
+-- lines are not discounted and earn no commission.
+-- ============================================================================
+
+-- A sale made only of retail products has no service
+ALTER TABLE public.sales ALTER COLUMN service_id DROP NOT NULL;
+
+-- One row per product sold over the counter in a sale
+CREATE TABLE IF NOT EXISTS public.sale_retail_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products(id),
+    quantity INTEGER NOT NULL CHECK (quantity > 0), -- sealed bottles or units
+    unit_price NUMERIC(10,2) NOT NULL,
+    unit_cost NUMERIC(10,2) NOT NULL DEFAULT 0.00,
+    tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0.00,
+    price_includes_tax BOOLEAN NOT NULL DEFAULT true,
+    tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0.00,
+    refund_id UUID REFERENCES public.sale_refunds(id),
+    refunded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_sale_retail_items_sale_id ON public.sale_retail_items(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_retail_items_product_id ON public.sale_retail_items(product_id);
+
+-- ----------------------------------------------------------------------------
+-- Record the retail lines of a sale and take the bottles off the stock.
+-- Called by process_complete_sale() before the taxes are recorded. Lines are
+-- priced from the product, never from the payload; the sale total check in
+-- record_sale_discounts() rejects a cart priced from stale products. Returns
+-- the retail subtotal, which is added to the sale subtotal.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_sale_retail_items(p_sale_id UUID, p_sale JSONB)
+RETURNS NUMERIC AS $$
+DECLARE
+    v_item JSONB;
+    v_product RECORD;
+    v_quantity INTEGER;
+    v_unit_tax NUMERIC;
+    v_retail_total NUMERIC := 0;
+BEGIN
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_sale->'retailItems', '[]'::jsonb)) LOOP
+        v_quantity := COALESCE((v_item->>'quantity')::INTEGER, 0);
+
+        IF v_quantity <= 0 THEN
+            RAISE EXCEPTION 'Retail quantities must be whole bottles or units greater than zero';
+        END IF;
+
+        SELECT id, name, price, cost, sealed_bottles, tax_rate, price_includes_tax
+        INTO v_product
+        FROM public.products
+        WHERE id = (v_item->>'productId')::UUID
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product not found: %', v_item->>'productId';
+        END IF;
+
+        IF COALESCE(v_product.sealed_bottles, 0) < v_quantity THEN
+            RAISE EXCEPTION 'Insufficient stock for %. Available: % sealed, Required: %',
+                v_product.name, COALESCE(v_product.sealed_bottles, 0), v_quantity;
+        END IF;
+
+        UPDATE public.products
+        SET sealed_bottles = sealed_bottles - v_quantity, updated_at = NOW()
+        WHERE id = v_product.id;
+
+        -- Rounded per unit, as record_sale_taxes() does for service lines
+        v_unit_tax := CASE
+            WHEN v_product.price_includes_tax THEN ROUND(COALESCE(v_product.price, 0) * v_product.tax_rate / (100 + v_product.tax_rate), 2)
+            ELSE ROUND(COALESCE(v_product.price, 0) * v_product.tax_rate / 100, 2)
+        END;
+
+        INSERT INTO public.sale_retail_items (
+            sale_id, product_id, quantity, unit_price, unit_cost,
+            tax_rate, price_includes_tax, tax_amount
+        ) VALUES (
+            p_sale_id, v_product.id, v_quantity, COALESCE(v_product.price, 0), COALESCE(v_product.cost, 0),
+            v_product.tax_rate, v_product.price_includes_tax, v_unit_tax * v_quantity
+        );
+
+        v_retail_total := v_retail_total + COALESCE(v_product.price, 0) * v_quantity;
+    END LOOP;
+
+    RETURN v_retail_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal to process_complete_sale(); not callable on its own
+REVOKE EXECUTE ON FUNCTION public.record_sale_retail_items(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.sale_retail_items ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read retail lines; they are written by record_sale_retail_items()
+CREATE POLICY "Allow authenticated users to read sale retail items" ON public.sale_retail_items
+    FOR SELECT TO authenticated USING (true);
+
+-- Only admins can mark retail lines as refunded
+CREATE POLICY "Allow admin users to update sale retail items" ON public.sale_retail_items
+    FOR UPDATE TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.sale_retail_items IS 'Products sold over the counter, by sealed bottle or unit';
+COMMENT ON COLUMN public.sale_retail_items.unit_price IS 'products.price at the time of sale';
+COMMENT ON COLUMN public.sale_retail_items.unit_cost IS 'products.cost at the time of sale; margin is unit_price - unit_cost';
+COMMENT ON COLUMN public.sale_retail_items.tax_amount IS 'TVA of the whole line, included in or added to unit_price * quantity';
+COMMENT ON FUNCTION public.record_sale_retail_items(UUID, JSONB) IS 'Records the retail lines of a sale, takes sealed bottles off the stock and returns the retail subtotal';
@@ -0,0 +1,89 @@
+-- ============================================================================
+-- STAFF TIPS
+-- ============================================================================
+-- This script records tips (gratuities) left by clients at checkout. A tip
+-- is paid on top of the sale total and is kept out of revenue: the sale keeps
+-- its total_amount, sales.tip_amount holds the tip, and sale_tips holds each
+-- staff member's share until it is paid out with their commissions.
+-- ============================================================================
+
+-- Tip paid on top of the sale total
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS tip_amount NUMERIC(10,2) NOT NULL DEFAULT 0.00;
+
+-- One row per staff member sharing the tip of a sale
+CREATE TABLE IF NOT EXISTS public.sale_tips (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+    staff_id UUID NOT NULL REFERENCES public.users(id),
+    amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'cancelled')),
+    paid_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (sale_id, staff_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_sale_tips_sale_id ON public.sale_tips(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_tips_staff_status ON public.sale_tips(staff_id, status);
+
+-- ----------------------------------------------------------------------------
+-- Validate and record the tip shares of a sale. Called by
+-- process_complete_sale() before the payments are checked, since the tenders
+-- must cover the sale total plus the tip.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_sale_tips(p_sale_id UUID, p_sale JSONB)
+RETURNS VOID AS $$
+DECLARE
+    v_tip JSONB;
+    v_amount NUMERIC;
+    v_tip_total NUMERIC := 0;
+BEGIN
+    FOR v_tip IN SELECT * FROM jsonb_array_elements(COALESCE(p_sale->'tips', '[]'::jsonb)) LOOP
+        v_amount := COALESCE((v_tip->>'amount')::NUMERIC, 0);
+
+        IF v_amount <= 0 THEN
+            RAISE EXCEPTION 'Tip amounts must be greater than zero';
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = (v_tip->>'staffId')::UUID) THEN
+            RAISE EXCEPTION 'Tip staff member not found: %', v_tip->>'staffId';
+        END IF;
+
+        INSERT INTO public.sale_tips (sale_id, staff_id, amount)
+        VALUES (p_sale_id, (v_tip->>'staffId')::UUID, v_amount);
+
+        v_tip_total := v_tip_total + v_amount;
+    END LOOP;
+
+    IF p_sale ? 'tipAmount' AND ABS(v_tip_total - COALESCE((p_sale->>'tipAmount')::NUMERIC, 0)) > 0.01 THEN
+        RAISE EXCEPTION 'Tip shares of % do not match the tip of %', v_tip_total, p_sale->>'tipAmount';
+    END IF;
+
+    UPDATE public.sales SET tip_amount = v_tip_total WHERE id = p_sale_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal to process_complete_sale(); not callable on its own
+REVOKE EXECUTE ON FUNCTION public.record_sale_tips(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.sale_tips ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read tips
+CREATE POLICY "Allow authenticated users to read sale tips" ON public.sale_tips
+    FOR SELECT TO authenticated USING (true);
+
+-- Only admins can mark tips as paid or cancel them
+CREATE POLICY "Allow admin users to update sale tips" ON public.sale_tips
+    FOR UPDATE TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.sales.tip_amount IS 'Tip paid on top of total_amount; not part of revenue';
+COMMENT ON TABLE public.sale_tips IS 'Staff shares of the tip left on a sale, paid out with commissions';
+COMMENT ON FUNCTION public.record_sale_tips(UUID, JSONB) IS 'Validates and records the staff tip shares of a sale';
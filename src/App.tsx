@@ -3,6 +3,8 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import Login from '@/pages/Login';
 import PublicBooking from '@/pages/PublicBooking';
+import WaitlistClaim from '@/pages/WaitlistClaim';
+import ManageBooking from '@/pages/ManageBooking';
 import AdminLayout from '@/layouts/AdminLayout';
 import StaffLayout from '@/layouts/StaffLayout';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
@@ -38,8 +40,10 @@ const App: React.FC = () => {
   return (
     <ErrorBoundary>
       <Routes>
-        {/* Public route - no authentication required */}
+        {/* Public routes - no authentication required */}
         <Route path="/booking" element={<PublicBooking />} />
+        <Route path="/booking/claim/:token" element={<WaitlistClaim />} />
+        <Route path="/booking/manage/:token" element={<ManageBooking />} />
         
         {/* Protected routes */}
         <Route path="/*" element={
@@ -1,21 +1,36 @@
 import { Request, Response } from 'express';
 import { saleService } from '../services/database';
 
-// POST /api/sales - Create a complete sale with multiple services and products
+// POST /api/sales - Create a complete sale with multiple services, products and retail items
 export const createSale = async (req: Request, res: Response) => {
   try {
     const {
+      requestKey,
       clientId,
-      services,
+      services = [],
+      retailItems = [],
+      discounts,
+      payments,
+      tipAmount,
+      tips,
+      cashSessionId,
+      soldAt,
       staffId,
       paymentMethod,
+      totalAmount,
       notes
     } = req.body;
 
     // Validate required fields
-    if (!clientId || !services || !Array.isArray(services) || services.length === 0 || !staffId || !paymentMethod) {
+    if (!requestKey || !clientId || !Array.isArray(services) || !Array.isArray(retailItems) || !staffId || !paymentMethod) {
+      return res.status(400).json({
+        error: 'Missing required fields: requestKey, clientId, services, staffId, paymentMethod'
+      });
+    }
+
+    if (services.length === 0 && retailItems.length === 0) {
       return res.status(400).json({
-        error: 'Missing required fields: clientId, services, staffId, paymentMethod'
+        error: 'A sale needs at least one service or retail item'
       });
     }
 
@@ -36,25 +51,44 @@ export const createSale = async (req: Request, res: Response) => {
       }
     }
 
+    // Validate retail items: whole sealed bottles or units
+    for (const item of retailItems) {
+      if (!item.productId || !Number.isInteger(item.quantity) || item.quantity <= 0) {
+        return res.status(400).json({
+          error: 'Each retail item must have productId and a whole quantity greater than zero'
+        });
+      }
+    }
+
     // Validate payment method
-    if (!['cash', 'card', 'transfer'].includes(paymentMethod)) {
+    if (!['cash', 'card', 'transfer', 'mixed'].includes(paymentMethod)) {
       return res.status(400).json({
-        error: 'Payment method must be one of: cash, card, transfer'
+        error: 'Payment method must be one of: cash, card, transfer, mixed'
       });
     }
 
     console.log('🛒 Creating sale with data:', {
       clientId,
       servicesCount: services.length,
+      retailItemsCount: retailItems.length,
       staffId,
       paymentMethod
     });
 
     const result = await saleService.createCompleteSale({
+      requestKey,
       clientId,
       services,
+      retailItems,
+      discounts,
+      payments,
+      tipAmount,
+      tips,
+      cashSessionId,
+      soldAt,
       staffId,
       paymentMethod,
+      totalAmount,
       notes
     });
 
@@ -64,7 +98,7 @@ export const createSale = async (req: Request, res: Response) => {
       });
     }
 
-    res.status(201).json({
+    res.status(result.replayed ? 200 : 201).json({
       success: true,
       data: {
         sale: result.sale,
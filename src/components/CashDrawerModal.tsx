@@ -0,0 +1,434 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  Wallet,
+  ArrowDownCircle,
+  ArrowUpCircle,
+  Lock,
+  Printer,
+  AlertCircle
+} from 'lucide-react';
+import { CashDrawerMovement, CashDrawerSession, Sale } from '@/types';
+import { cashDrawerService } from '@/services/database';
+import { CashDrawerService, ZReport } from '@/services/CashDrawerService';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatPrice } from '@/utils/currency';
+
+interface CashDrawerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: CashDrawerSession | null;
+  onSessionChange: (session: CashDrawerSession | null) => void;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const CashDrawerModal: React.FC<CashDrawerModalProps> = ({
+  isOpen,
+  onClose,
+  session,
+  onSessionChange
+}) => {
+  const { user } = useAuth();
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movements, setMovements] = useState<CashDrawerMovement[]>([]);
+  const [sessionSales, setSessionSales] = useState<Sale[]>([]);
+  const [movementType, setMovementType] = useState<CashDrawerMovement['movementType']>('cash_out');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [countedCash, setCountedCash] = useState('');
+  const [closingNotes, setClosingNotes] = useState('');
+  const [zReport, setZReport] = useState<ZReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setErrors({});
+      setZReport(null);
+      setOpeningFloat('');
+      setCountedCash('');
+      setClosingNotes('');
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen && session) {
+      loadSessionActivity(session.id);
+    }
+  }, [isOpen, session?.id]);
+
+  const loadSessionActivity = async (sessionId: string) => {
+    const [movementsData, salesData] = await Promise.all([
+      cashDrawerService.getMovements(sessionId),
+      cashDrawerService.getSessionSales(sessionId),
+    ]);
+    setMovements(movementsData);
+    setSessionSales(salesData);
+  };
+
+  const report = session ? CashDrawerService.buildZReport(session, sessionSales, movements) : null;
+  const counted = parseFloat(countedCash);
+  const liveDiscrepancy = report && !isNaN(counted) ? counted - report.expectedCash : null;
+
+  const handleOpenSession = async () => {
+    const amount = parseFloat(openingFloat) || 0;
+    if (!user) return;
+
+    if (amount < 0) {
+      setErrors({ openingFloat: 'The opening float cannot be negative' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const opened = await cashDrawerService.openSession(user.id, amount);
+      if (opened) {
+        onSessionChange(opened);
+        onClose();
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddMovement = async () => {
+    const amount = parseFloat(movementAmount);
+    const newErrors: Record<string, string> = {};
+
+    if (!amount || amount <= 0) {
+      newErrors.movementAmount = 'Enter an amount greater than zero';
+    }
+    if (!movementReason.trim()) {
+      newErrors.movementReason = 'A reason is required';
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0 || !session || !user) return;
+
+    setLoading(true);
+    try {
+      const movement = await cashDrawerService.addMovement({
+        sessionId: session.id,
+        movementType,
+        amount,
+        reason: movementReason,
+        createdBy: user.id,
+      });
+
+      if (movement) {
+        setMovements(prev => [...prev, movement]);
+        setMovementAmount('');
+        setMovementReason('');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCloseSession = async () => {
+    if (!session || !user) return;
+
+    if (isNaN(counted) || counted < 0) {
+      setErrors({ countedCash: 'Count the cash in the drawer before closing' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const closed = await cashDrawerService.closeSession(session.id, counted, closingNotes);
+      if (closed) {
+        const closedSession = { ...closed, staffName: session.staffName };
+        setZReport(CashDrawerService.buildZReport(closedSession, sessionSales, movements));
+        onSessionChange(null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePrintZReport = () => {
+    if (!zReport) return;
+
+    const printWindow = window.open('', '_blank', 'width=420,height=640');
+    if (!printWindow) return;
+
+    printWindow.document.write(
+      `<html><head><title>Z-Report</title></head><body>` +
+      `<pre style="font-family: monospace; font-size: 12px;">${escapeHtml(CashDrawerService.formatZReport(zReport))}</pre>` +
+      `</body></html>`
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-white rounded-xl shadow-2xl w-full max-w-xl max-h-[90vh] overflow-hidden"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-primary-50 to-primary-100">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-primary-100 rounded-lg">
+                <Wallet className="w-6 h-6 text-primary-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  {zReport ? 'Z-Report' : session ? 'Cash Drawer' : 'Open Cash Drawer'}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  {session
+                    ? `Opened ${new Date(session.openedAt).toLocaleString()}`
+                    : zReport ? 'Session closed' : 'Count the float in the drawer to start your shift'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="overflow-y-auto max-h-[calc(90vh-160px)]">
+            <div className="p-6 space-y-6">
+              {/* Z-report after closing */}
+              {zReport && (
+                <pre className="bg-gray-50 rounded-lg p-4 text-xs font-mono text-gray-800 whitespace-pre-wrap">
+                  {CashDrawerService.formatZReport(zReport)}
+                </pre>
+              )}
+
+              {/* Open a session */}
+              {!session && !zReport && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Opening float
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={openingFloat}
+                    onChange={(e) => setOpeningFloat(e.target.value)}
+                    placeholder="0.00"
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                      errors.openingFloat ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.openingFloat && (
+                    <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                      <AlertCircle className="w-4 h-4" />
+                      {errors.openingFloat}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Open session summary */}
+              {session && report && (
+                <>
+                  <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+                    <div className="flex justify-between text-gray-600">
+                      <span>Opening float</span>
+                      <span>{formatPrice(session.openingFloat)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>Cash sales ({report.salesCount} sales)</span>
+                      <span>{formatPrice(report.totalsByMethod.cash)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>Cash in</span>
+                      <span>+{formatPrice(report.cashIn)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>Cash out</span>
+                      <span>-{formatPrice(report.cashOut)}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1">
+                      <span>Expected in drawer</span>
+                      <span>{formatPrice(report.expectedCash)}</span>
+                    </div>
+                  </div>
+
+                  {/* Cash in / out */}
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-3">Cash in / cash out</h3>
+                    <div className="grid grid-cols-2 gap-3 mb-3">
+                      <button
+                        type="button"
+                        onClick={() => setMovementType('cash_in')}
+                        className={`p-2 rounded-lg border flex items-center justify-center gap-2 text-sm transition-colors ${
+                          movementType === 'cash_in' ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <ArrowDownCircle className="w-4 h-4" />
+                        Cash in
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setMovementType('cash_out')}
+                        className={`p-2 rounded-lg border flex items-center justify-center gap-2 text-sm transition-colors ${
+                          movementType === 'cash_out' ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <ArrowUpCircle className="w-4 h-4" />
+                        Cash out
+                      </button>
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={movementAmount}
+                        onChange={(e) => setMovementAmount(e.target.value)}
+                        placeholder="Amount"
+                        className={`w-28 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                          errors.movementAmount ? 'border-red-500' : 'border-gray-300'
+                        }`}
+                      />
+                      <input
+                        type="text"
+                        value={movementReason}
+                        onChange={(e) => setMovementReason(e.target.value)}
+                        placeholder="Reason (refund, petty cash, bank drop...)"
+                        className={`flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                          errors.movementReason ? 'border-red-500' : 'border-gray-300'
+                        }`}
+                      />
+                      <button
+                        type="button"
+                        onClick={handleAddMovement}
+                        disabled={loading}
+                        className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg border border-gray-200 transition-colors disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                    </div>
+                    {(errors.movementAmount || errors.movementReason) && (
+                      <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                        <AlertCircle className="w-4 h-4" />
+                        {errors.movementAmount || errors.movementReason}
+                      </p>
+                    )}
+                    {movements.length > 0 && (
+                      <div className="mt-3 space-y-1 text-sm">
+                        {movements.map(movement => (
+                          <div key={movement.id} className="flex justify-between text-gray-600">
+                            <span>
+                              {new Date(movement.createdAt).toLocaleTimeString()} · {movement.reason}
+                            </span>
+                            <span className={movement.movementType === 'cash_in' ? 'text-green-600' : 'text-red-600'}>
+                              {movement.movementType === 'cash_in' ? '+' : '-'}{formatPrice(movement.amount)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Close session */}
+                  <div className="border-t border-gray-200 pt-6">
+                    <h3 className="text-sm font-semibold text-gray-900 mb-3">Close drawer</h3>
+                    <div className="space-y-3">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={countedCash}
+                        onChange={(e) => setCountedCash(e.target.value)}
+                        placeholder="Counted cash"
+                        className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                          errors.countedCash ? 'border-red-500' : 'border-gray-300'
+                        }`}
+                      />
+                      {errors.countedCash && (
+                        <p className="text-red-500 text-sm flex items-center gap-1">
+                          <AlertCircle className="w-4 h-4" />
+                          {errors.countedCash}
+                        </p>
+                      )}
+                      {liveDiscrepancy !== null && (
+                        <p className={`text-sm font-medium ${
+                          Math.abs(liveDiscrepancy) < 0.01 ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {Math.abs(liveDiscrepancy) < 0.01
+                            ? 'Drawer balances'
+                            : `${liveDiscrepancy > 0 ? 'Over' : 'Short'} by ${formatPrice(Math.abs(liveDiscrepancy))}`}
+                        </p>
+                      )}
+                      <textarea
+                        value={closingNotes}
+                        onChange={(e) => setClosingNotes(e.target.value)}
+                        rows={2}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="Notes about the count (optional)"
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {zReport ? 'Done' : 'Cancel'}
+            </button>
+            {zReport && (
+              <button
+                type="button"
+                onClick={handlePrintZReport}
+                className="px-6 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors flex items-center gap-2"
+              >
+                <Printer className="w-4 h-4" />
+                Print Z-Report
+              </button>
+            )}
+            {!session && !zReport && (
+              <button
+                type="button"
+                onClick={handleOpenSession}
+                disabled={loading}
+                className="px-6 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+              >
+                <Wallet className="w-4 h-4" />
+                {loading ? 'Opening...' : 'Open Drawer'}
+              </button>
+            )}
+            {session && !zReport && (
+              <button
+                type="button"
+                onClick={handleCloseSession}
+                disabled={loading}
+                className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+              >
+                <Lock className="w-4 h-4" />
+                {loading ? 'Closing...' : 'Close Drawer'}
+              </button>
+            )}
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default CashDrawerModal;
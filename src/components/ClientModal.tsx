@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, User, Phone, Mail, FileText, Save, AlertCircle } from 'lucide-react';
+import { X, User, Phone, Mail, FileText, Save, AlertCircle, Languages } from 'lucide-react';
 import { Client } from '@/types';
 import { z } from 'zod';
 import toast from 'react-hot-toast';
@@ -22,6 +22,10 @@ const clientSchema = z.object({
     .or(z.literal('')),
   notes: z.string()
     .max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères')
+    .optional()
+    .or(z.literal('')),
+  // Language of the WhatsApp confirmations and reminders; '' uses the salon's
+  language: z.enum(['fr', 'ar', 'en'])
     .optional()
     .or(z.literal(''))
 });
@@ -41,6 +45,7 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, onSave, edit
     phone: '',
     email: '',
     notes: '',
+    language: '',
   });
   
   const [errors, setErrors] = useState<Partial<Record<keyof ClientFormData, string>>>({});
@@ -54,6 +59,7 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, onSave, edit
         phone: editingClient.phone || '',
         email: editingClient.email || '',
         notes: editingClient.notes || '',
+        language: editingClient.language || '',
       });
     } else {
       setFormData({
@@ -61,6 +67,7 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, onSave, edit
         phone: '',
         email: '',
         notes: '',
+        language: '',
       });
     }
     setErrors({});
@@ -101,6 +108,7 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, onSave, edit
         phone: validatedData.phone.trim(),
         email: validatedData.email?.trim() || '',
         notes: validatedData.notes?.trim() || '',
+        language: validatedData.language || undefined,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       };
@@ -112,7 +120,8 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, onSave, edit
         name: '',
         phone: '',
         email: '',
-        notes: ''
+        notes: '',
+        language: ''
       });
       setErrors({});
       
@@ -267,6 +276,24 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, onSave, edit
                 )}
               </div>
 
+            {/* Message language */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Languages className="w-4 h-4 inline mr-2" />
+                Langue des messages WhatsApp
+              </label>
+              <select
+                value={formData.language}
+                onChange={(e) => handleChange('language', e.target.value)}
+                className="w-full px-4 py-3 bg-white border border-gray-200 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                <option value="">Langue du salon</option>
+                <option value="fr">Français</option>
+                <option value="ar">العربية</option>
+                <option value="en">English</option>
+              </select>
+            </div>
+
             {/* Notes */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -10,6 +10,7 @@ import {
   Filter,
 } from 'lucide-react';
 import { Product } from '@/types';
+import { UnitService } from '@/services/UnitService';
 
 interface InventoryTrackerProps {
   products: Product[];
@@ -181,7 +182,7 @@ const InventoryTracker: React.FC<InventoryTrackerProps> = ({
               <div className="space-y-1">
                 {lowStockProducts.map(product => (
                   <p key={product.id} className="text-sm text-yellow-600">
-                    • {product.name} - {((product.sealed_bottles || 0) * (product.bottle_capacity_ml || 0) + (product.open_bottle_remaining_ml || 0))}ml remaining
+                    • {product.name} - {UnitService.format((product.sealed_bottles || 0) * (product.bottle_capacity_ml || 0) + (product.open_bottle_remaining_ml || 0), product.unit)} remaining
                   </p>
                 ))}
               </div>
@@ -267,7 +268,7 @@ const InventoryTracker: React.FC<InventoryTrackerProps> = ({
                     <p className="text-gray-600 text-sm">{product.category}</p>
                     <div className="flex items-center gap-4 mt-1 text-sm text-gray-500">
                       <span>Volume: {product.volume} {product.unit}</span>
-                      <span>Bottles: {product.sealed_bottles || 0} sealed + {product.open_bottle_remaining_ml || 0}ml open</span>
+                      <span>Bottles: {product.sealed_bottles || 0} sealed + {UnitService.format(product.open_bottle_remaining_ml || 0, product.unit)} open</span>
                       <span>Price: ${product.price}</span>
                     </div>
                   </div>
@@ -284,7 +285,7 @@ const InventoryTracker: React.FC<InventoryTrackerProps> = ({
                   <div className="flex items-center gap-4">
                     <div className="text-center">
                       <div className="text-lg font-bold text-gray-800">
-                        {((product.sealed_bottles || 0) * (product.bottle_capacity_ml || 0) + (product.open_bottle_remaining_ml || 0))}ml
+                        {UnitService.format((product.sealed_bottles || 0) * (product.bottle_capacity_ml || 0) + (product.open_bottle_remaining_ml || 0), product.unit)}
                       </div>
                       <div className="text-xs text-gray-500">Available</div>
                     </div>
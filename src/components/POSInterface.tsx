@@ -18,13 +18,35 @@ import {
   Minus,
   Edit3,
   Send,
+  Tag,
+  Gift,
+  Heart,
+  Wallet,
+  Printer,
+  ShoppingBag,
+  WifiOff,
+  X,
+  CalendarCheck,
 } from 'lucide-react';
-import { Client, Service, Product } from '@/types';
+import { Booking, Client, Service, Product, PromoCode, SaleDiscount, SalePayment, SaleTip, SaleTaxLine, SaleRetailItem, PaymentMethod, DiscountType, CashDrawerSession, ReceiptFormat, ReceiptLanguage, ReceiptTemplate, CompleteSaleRequest } from '@/types';
 import ClientModal from '@/components/ClientModal';
+import CashDrawerModal from '@/components/CashDrawerModal';
 import Logo from '@/components/Logo';
-import { clientService, serviceService, productService, saleService } from '@/services/database';
+import { clientService, serviceService, productService, saleService, promoCodeService, staffService, cashDrawerService, bookingService } from '@/services/database';
+import { BookingCheckoutService } from '@/services/BookingCheckoutService';
 import { SimpleBottleConsumptionService } from '@/services/SimpleBottleConsumptionService';
+import { DiscountService, DiscountInput } from '@/services/DiscountService';
+import { PaymentService, TenderInput } from '@/services/PaymentService';
+import { TipService, TIP_PERCENTAGE_PRESETS } from '@/services/TipService';
+import { TaxService } from '@/services/TaxService';
+import { RetailService } from '@/services/RetailService';
+import { UnitService } from '@/services/UnitService';
+import { ReceiptService } from '@/services/ReceiptService';
+import { OfflineSyncService } from '@/services/OfflineSyncService';
+import { offlineStore } from '@/services/offlineStore';
+import { whatsappService } from '@/services/whatsappService';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOfflineSync } from '@/contexts/OfflineSyncContext';
 import { getIconByName } from '@/utils/iconMapping';
 import { useLanguage } from '@/contexts/LanguageContext';
 import toast from 'react-hot-toast';
@@ -46,38 +68,92 @@ interface SelectedService {
   originalPrice: number;
   adjustedPrice: number;
   priceAdjustmentReason?: string;
+  discount?: DiscountInput; // manual discount on this line
+  quantity: number;
+  staffId?: string; // who performs it, for a service of a multi-service booking
+}
+
+// Product sold over the counter, by whole sealed bottle or unit
+interface RetailCartItem {
+  product: Product;
   quantity: number;
 }
 
 interface POSInterfaceProps {
   onSaleComplete?: (saleData: any) => void;
+  bookingId?: string; // booking to check out: pre-fills client, service and staff
 }
 
-const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
+// Loads from Supabase while online and keeps a copy in the offline store;
+// falls back to that copy when offline or when the request fails
+const loadWithOfflineFallback = async <T,>(key: string, load: () => Promise<T>): Promise<T | null> => {
+  if (navigator.onLine) {
+    try {
+      const data = await load();
+      await offlineStore.saveCatalog(key, data);
+      return data;
+    } catch (error) {
+      console.warn(`Could not load ${key}, using the offline copy:`, error);
+    }
+  }
+
+  return offlineStore.loadCatalog<T>(key);
+};
+
+const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete, bookingId }) => {
   const { user } = useAuth();
   const { t } = useLanguage();
+  const { queueSale } = useOfflineSync();
   const [currentStep, setCurrentStep] = useState<'client' | 'services' | 'products' | 'payment' | 'receipt'>('client');
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [selectedServices, setSelectedServices] = useState<SelectedService[]>([]);
   const [allProductUsages, setAllProductUsages] = useState<ProductUsage[]>([]);
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card' | 'transfer'>('cash');
+  const [retailItems, setRetailItems] = useState<RetailCartItem[]>([]);
+  const [catalogMode, setCatalogMode] = useState<'services' | 'retail'>('services');
+  const [tenders, setTenders] = useState<TenderInput[]>([{ method: 'cash', amount: 0 }]);
   const [clients, setClients] = useState<Client[]>([]);
   const [services, setServices] = useState<Service[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [clientSearch, setClientSearch] = useState('');
   const [serviceSearch, setServiceSearch] = useState('');
+  const [retailSearch, setRetailSearch] = useState('');
   const [showClientModal, setShowClientModal] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [saleReceipt, setSaleReceipt] = useState<any>(null);
   const [isProcessingSale, setIsProcessingSale] = useState(false);
   const [showPriceModal, setShowPriceModal] = useState(false);
-  const [editingService, setEditingService] = useState<SelectedService | null>(null);
+  const [editingServiceIndex, setEditingServiceIndex] = useState<number | null>(null);
+  const [lineDiscountType, setLineDiscountType] = useState<DiscountInput['discountType']>('percentage');
+  const [cartDiscount, setCartDiscount] = useState<DiscountInput | null>(null);
+  const [cartDiscountType, setCartDiscountType] = useState<DiscountInput['discountType']>('percentage');
+  const [cartDiscountValue, setCartDiscountValue] = useState('');
+  const [cartDiscountReason, setCartDiscountReason] = useState('');
+  const [promoCodeInput, setPromoCodeInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoCode | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const [loyaltyPointsToRedeem, setLoyaltyPointsToRedeem] = useState(0);
+  const [staffMembers, setStaffMembers] = useState<any[]>([]);
+  const [tipType, setTipType] = useState<DiscountType>('percentage');
+  const [tipValue, setTipValue] = useState('');
+  const [tipStaffIds, setTipStaffIds] = useState<string[]>([]);
+  const [cashSession, setCashSession] = useState<CashDrawerSession | null>(null);
+  const [showCashDrawerModal, setShowCashDrawerModal] = useState(false);
+  const [receiptTemplate, setReceiptTemplate] = useState<ReceiptTemplate>(() => ReceiptService.loadReceiptTemplate());
+  const [salonSettings] = useState(() => ReceiptService.loadSalonSettings());
+  const [isSendingReceipt, setIsSendingReceipt] = useState(false);
+  const [checkoutBooking, setCheckoutBooking] = useState<Booking | null>(null);
+  // Idempotency key for the current checkout; kept across retries, renewed for each new sale
+  const [saleRequestKey, setSaleRequestKey] = useState<string>(() => crypto.randomUUID());
 
   // Function to refresh product data
   const refreshProducts = async () => {
+    // Offline, the local stock is kept up to date by completeSaleOffline()
+    if (!navigator.onLine) return;
+
     try {
       const productsData = await productService.getAll();
       setProducts(productsData);
+      await offlineStore.saveCatalog('products', productsData);
       console.log('🔄 Products refreshed after sale');
     } catch (error) {
       console.error('Error refreshing products:', error);
@@ -89,15 +165,21 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
     const fetchData = async () => {
       try {
         setIsLoading(true);
-        const [clientsData, servicesData, productsData] = await Promise.all([
-          clientService.getAll(),
-          serviceService.getAll(),
-          productService.getAll(),
+        const [clientsData, servicesData, productsData, staffData] = await Promise.all([
+          loadWithOfflineFallback('clients', () => clientService.getAll()),
+          loadWithOfflineFallback('services', () => serviceService.getAll()),
+          loadWithOfflineFallback('products', () => productService.getAll()),
+          loadWithOfflineFallback('staff', () => staffService.getAll()),
         ]);
-        
-        setClients(clientsData);
-        setServices(servicesData);
-        setProducts(productsData);
+
+        setClients(clientsData || []);
+        setServices(servicesData || []);
+        setProducts(productsData || []);
+        setStaffMembers(staffData || []);
+
+        if (!clientsData || !servicesData || !productsData) {
+          throw new Error('No saved catalog to work offline from');
+        }
       } catch (error) {
         console.error('Error fetching POS data:', error);
         toast.error('Failed to load data');
@@ -109,6 +191,62 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
     fetchData();
   }, []);
 
+  // Sales are attached to the operator's open cash drawer session
+  useEffect(() => {
+    if (!user?.id) return;
+    loadWithOfflineFallback(`cashSession:${user.id}`, () => cashDrawerService.getOpenSession(user.id)).then(session => {
+      setCashSession(session);
+      if (!session) {
+        setShowCashDrawerModal(true);
+      }
+    });
+  }, [user?.id]);
+
+  // Checking out a booking: start the sale with its client, service and staff
+  useEffect(() => {
+    if (!bookingId || isLoading) return;
+
+    const loadBooking = async () => {
+      if (!navigator.onLine) {
+        toast.error('Bookings can only be checked out online; ring this one up as a walk-in');
+        return;
+      }
+
+      try {
+        const booking = await bookingService.getById(bookingId);
+        if (!booking) return;
+
+        if (!BookingCheckoutService.canCheckout(booking)) {
+          toast.error(booking.saleId ? 'This booking has already been paid' : `A ${booking.status.replace('_', ' ')} booking cannot be checked out`);
+          return;
+        }
+
+        const client = clients.find(c => c.id === booking.clientId);
+        if (!client) {
+          toast.error('The booked client could not be found');
+          return;
+        }
+
+        await handleNewSale(false);
+        setCheckoutBooking(booking);
+        handleClientSelect(client);
+        // A multi-service booking becomes one line per service, each earning
+        // its own staff member's commission
+        const lines = booking.segments || [{ serviceId: booking.serviceId, staffId: undefined }];
+        for (const line of lines) {
+          const service = services.find(s => s.id === line.serviceId);
+          if (service) {
+            await handleServiceSelect(service, line.staffId);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading booking for checkout:', error);
+      }
+    };
+
+    loadBooking();
+  }, [bookingId, isLoading]);
+
   const filteredClients = clients.filter(client =>
     client.name.toLowerCase().includes(clientSearch.toLowerCase()) ||
     client.phone.includes(clientSearch)
@@ -119,9 +257,63 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
     service.category.toLowerCase().includes(serviceSearch.toLowerCase())
   );
 
-  const calculateTotal = () => {
-    return selectedServices.reduce((total, selectedService) => 
-      total + (selectedService.adjustedPrice * selectedService.quantity), 0);
+  const filteredRetailProducts = products.filter(product =>
+    product.isActive !== false && !product.archived && (
+      product.name.toLowerCase().includes(retailSearch.toLowerCase()) ||
+      (product.brand || '').toLowerCase().includes(retailSearch.toLowerCase())
+    )
+  );
+
+  const calculateDiscounts = (
+    lines: SelectedService[] = selectedServices,
+    manualCartDiscount: DiscountInput | null = cartDiscount
+  ) => DiscountService.calculate(
+    lines.map(selectedService => ({
+      serviceId: selectedService.service.id,
+      unitPrice: selectedService.adjustedPrice,
+      quantity: selectedService.quantity,
+      discount: selectedService.discount,
+    })),
+    {
+      cartDiscount: manualCartDiscount,
+      promoCode: appliedPromo,
+      loyaltyPoints: loyaltyPointsToRedeem,
+    }
+  );
+
+  const discountCalculation = calculateDiscounts();
+
+  // Retail lines are sold at the product price and are never discounted
+  const retailSubtotal = Math.round(
+    retailItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0) * 100
+  ) / 100;
+
+  // TVA on the discounted lines; tax on exclusive prices is added to the total
+  const taxCalculation = TaxService.calculate([
+    ...selectedServices.map((selectedService, index) => ({
+      unitPrice: discountCalculation.lines[index]?.netUnitPrice ?? selectedService.adjustedPrice,
+      quantity: selectedService.quantity,
+      taxRate: selectedService.service.taxRate,
+      priceIncludesTax: selectedService.service.priceIncludesTax,
+    })),
+    ...retailItems.map(item => ({
+      unitPrice: item.product.price,
+      quantity: item.quantity,
+      taxRate: item.product.taxRate,
+      priceIncludesTax: item.product.priceIncludesTax,
+    })),
+  ]);
+
+  const getTaxLabel = (taxLine: SaleTaxLine) =>
+    `TVA ${taxLine.rate}%${taxLine.inclusive ? ' (included)' : ''}`;
+
+  const getDiscountLabel = (discount: SaleDiscount) => {
+    const rate = discount.discountType === 'percentage' ? ` (${discount.value}%)` : '';
+    switch (discount.source) {
+      case 'promo': return `Promo ${discount.code}${rate}`;
+      case 'loyalty': return `Loyalty points (${discount.loyaltyPoints} pts)`;
+      default: return `${discount.reason || 'Discount'}${rate}`;
+    }
   };
 
   const validateStock = () => {
@@ -144,7 +336,8 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
         const willNeedFromSealed = Math.max(0, usage.actualQuantity - openBottleMl);
         const bottlesNeeded = willNeedFromSealed > 0 ? Math.ceil(willNeedFromSealed / bottleSize) : 0;
         
-        stockErrors.push(`${usage.product.name}: Need ${usage.actualQuantity}ml, Available ${totalAvailableMl}ml (Open: ${openBottleMl}ml, Sealed: ${sealedBottles} bottles)`);
+        const unit = usage.product.unit;
+        stockErrors.push(`${usage.product.name}: Need ${UnitService.format(usage.actualQuantity, unit)}, Available ${UnitService.format(totalAvailableMl, unit)} (Open: ${UnitService.format(openBottleMl, unit)}, Sealed: ${sealedBottles} bottles)`);
       }
     }
     
@@ -153,10 +346,11 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
 
   const handleClientSelect = (client: Client) => {
     setSelectedClient(client);
+    setLoyaltyPointsToRedeem(0);
     setCurrentStep('services');
   };
 
-  const handleServiceSelect = async (service: Service) => {
+  const handleServiceSelect = async (service: Service, staffId?: string) => {
     // Allow multiple instances of the same service
     console.log('🔍 Service selection debug:', {
       serviceName: service.name,
@@ -169,7 +363,10 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
     
     try {
       // Get service product requirements from the database
-      const requirements = await SimpleBottleConsumptionService.getServiceProductRequirements(service.id);
+      const requirements = await loadWithOfflineFallback(
+        `serviceProducts:${service.id}`,
+        () => SimpleBottleConsumptionService.getServiceProductRequirements(service.id)
+      );
       
       // Only add products if they exist and are required
       if (requirements && requirements.length > 0) {
@@ -188,7 +385,7 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
               product,
               suggestedQuantity: requirement.requiredMl,
               actualQuantity: requirement.requiredMl,
-              unit: 'ml',
+              unit: UnitService.getStockUnit(product.unit),
               stockStatus,
               serviceId: service.id
             });
@@ -206,7 +403,8 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
       products: serviceProducts, // Can be empty array
       originalPrice: service.price,
       adjustedPrice: service.price,
-      quantity: 1
+      quantity: 1,
+      staffId
     };
     
     setSelectedServices(prev => [...prev, newSelectedService]);
@@ -234,23 +432,149 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
     toast.success('Service removed from sale');
   };
 
-  const handlePriceAdjustment = (service: SelectedService) => {
-    setEditingService(service);
+  const handleAddRetailProduct = (product: Product) => {
+    const existing = retailItems.find(item => item.product.id === product.id);
+    const quantityError = RetailService.validateQuantity(product, (existing?.quantity || 0) + 1);
+    if (quantityError) {
+      toast.error(quantityError);
+      return;
+    }
+
+    setRetailItems(prev => existing
+      ? prev.map(item => item.product.id === product.id ? { ...item, quantity: item.quantity + 1 } : item)
+      : [...prev, { product, quantity: 1 }]);
+    toast.success(`${product.name} added to sale`);
+  };
+
+  const handleRetailQuantityChange = (productId: string, quantity: number) => {
+    const item = retailItems.find(retailItem => retailItem.product.id === productId);
+    if (!item) return;
+
+    if (quantity <= 0) {
+      handleRemoveRetailProduct(productId);
+      return;
+    }
+
+    const quantityError = RetailService.validateQuantity(item.product, quantity);
+    if (quantityError) {
+      toast.error(quantityError);
+      return;
+    }
+
+    setRetailItems(prev => prev.map(retailItem =>
+      retailItem.product.id === productId ? { ...retailItem, quantity } : retailItem
+    ));
+  };
+
+  const handleRemoveRetailProduct = (productId: string) => {
+    setRetailItems(prev => prev.filter(item => item.product.id !== productId));
+  };
+
+  // Manual discounts are capped by role; admins may exceed the staff limit
+  const isWithinManualDiscountLimit = (lines: SelectedService[], manualCartDiscount: DiscountInput | null) => {
+    if (!user) return false;
+
+    if (DiscountService.exceedsManualDiscountLimit(calculateDiscounts(lines, manualCartDiscount), user.role)) {
+      toast.error(`Manual discounts are limited to ${DiscountService.getManualDiscountLimit(user.role)}% of the sale for your role`);
+      return false;
+    }
+    return true;
+  };
+
+  const handlePriceAdjustment = (serviceIndex: number) => {
+    setEditingServiceIndex(serviceIndex);
+    setLineDiscountType(selectedServices[serviceIndex]?.discount?.discountType || 'percentage');
     setShowPriceModal(true);
   };
 
-  const handleSavePriceAdjustment = (newPrice: number, reason?: string) => {
-    if (!editingService) return;
+  const handleSavePriceAdjustment = (value: number, reason?: string) => {
+    if (editingServiceIndex === null) return;
+
+    if (value > 0 && !reason?.trim()) {
+      toast.error('Please enter a reason for the discount');
+      return;
+    }
 
-    setSelectedServices(prev => prev.map(s => 
-      s.service.id === editingService.service.id 
-        ? { ...s, adjustedPrice: newPrice, priceAdjustmentReason: reason }
+    const discount = value > 0
+      ? { discountType: lineDiscountType, value, reason: reason?.trim() }
+      : undefined;
+    const updatedServices = selectedServices.map((s, index) =>
+      index === editingServiceIndex
+        ? { ...s, discount, priceAdjustmentReason: discount?.reason }
         : s
-    ));
+    );
 
+    if (!isWithinManualDiscountLimit(updatedServices, cartDiscount)) return;
+
+    setSelectedServices(updatedServices);
     setShowPriceModal(false);
-    setEditingService(null);
-    toast.success('Price adjusted successfully');
+    setEditingServiceIndex(null);
+    toast.success(discount ? 'Discount applied' : 'Discount removed');
+  };
+
+  const handleApplyCartDiscount = () => {
+    const value = parseFloat(cartDiscountValue) || 0;
+
+    if (value <= 0) {
+      toast.error('Please enter a discount value');
+      return;
+    }
+
+    if (!cartDiscountReason.trim()) {
+      toast.error('Please enter a reason for the discount');
+      return;
+    }
+
+    const discount = { discountType: cartDiscountType, value, reason: cartDiscountReason.trim() };
+    if (!isWithinManualDiscountLimit(selectedServices, discount)) return;
+
+    setCartDiscount(discount);
+    toast.success('Cart discount applied');
+  };
+
+  const handleRemoveCartDiscount = () => {
+    setCartDiscount(null);
+    setCartDiscountValue('');
+    setCartDiscountReason('');
+  };
+
+  const handleApplyPromoCode = async () => {
+    if (!promoCodeInput.trim()) {
+      toast.error('Please enter a promo code');
+      return;
+    }
+
+    setIsApplyingPromo(true);
+    try {
+      const promo = await promoCodeService.getByCode(promoCodeInput);
+      if (!promo) {
+        toast.error('Promo code not found');
+        return;
+      }
+
+      const validationError = DiscountService.validatePromoCode(promo, discountCalculation.subtotal);
+      if (validationError) {
+        toast.error(validationError);
+        return;
+      }
+
+      setAppliedPromo(promo);
+      toast.success(`Promo code ${promo.code} applied`);
+    } catch (error) {
+      console.error('Error applying promo code:', error);
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
+  const handleRemovePromoCode = () => {
+    setAppliedPromo(null);
+    setPromoCodeInput('');
+  };
+
+  const handleLoyaltyPointsChange = (points: number) => {
+    const available = selectedClient?.loyaltyPoints || 0;
+    setLoyaltyPointsToRedeem(Math.max(0, Math.min(Math.floor(points) || 0, available)));
   };
 
   const handleQuantityChange = (serviceId: string, newQuantity: number, productId?: string) => {
@@ -287,11 +611,12 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
   };
 
   const handleContinueToProducts = () => {
-    if (selectedServices.length === 0) {
-      toast.error('Please select at least one service');
+    if (selectedServices.length === 0 && retailItems.length === 0) {
+      toast.error('Please select at least one service or retail product');
       return;
     }
-    setCurrentStep('products');
+    // A retail-only sale has no product quantities to review
+    setCurrentStep(selectedServices.length > 0 ? 'products' : 'payment');
   };
 
 
@@ -301,14 +626,14 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
     const bottleSize = product.bottle_capacity_ml || 1000;
     const totalAvailableMl = (sealedBottles * bottleSize) + openBottleMl;
     const stockStatus = totalAvailableMl <= 0 ? 'empty' : 
-                       totalAvailableMl <= 100 ? 'low' : 'ok'; // Consider low stock when less than 100ml available
+                       totalAvailableMl <= 100 ? 'low' : 'ok'; // Consider low stock when less than 100 units available
     
     const newProductUsage: ProductUsage = {
       productId: product.id,
       product,
       suggestedQuantity: 1,
       actualQuantity: 1,
-      unit: product.unit,
+      unit: UnitService.getStockUnit(product.unit),
       stockStatus,
       serviceId
     };
@@ -345,18 +670,137 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
     setAllProductUsages(prev => prev.filter(p => !(p.productId === productId && p.serviceId === serviceId)));
   };
 
-  const calculateTotalAmount = () => {
-    return selectedServices.reduce((total, selectedService) => 
-      total + (selectedService.adjustedPrice * selectedService.quantity), 0);
+  const calculateTotalAmount = () => Math.round((discountCalculation.total + retailSubtotal + taxCalculation.taxAdded) * 100) / 100;
+
+  // Tips are paid on top of the sale total and shared between the selected staff
+  const tipStaffOptions = user && !staffMembers.some(member => member.id === user.id)
+    ? [{ id: user.id, name: user.name }, ...staffMembers]
+    : staffMembers;
+  const selectedTipStaffIds = tipStaffIds.length > 0 ? tipStaffIds : user ? [user.id] : [];
+  const tipAmount = TipService.calculateTip(calculateTotalAmount(), tipType, parseFloat(tipValue) || 0);
+  const tipShares: SaleTip[] = TipService.splitTip(tipAmount, selectedTipStaffIds);
+  const calculateAmountDue = () => Math.round((calculateTotalAmount() + tipAmount) * 100) / 100;
+
+  const tenderResolution = PaymentService.resolveTenders(tenders, calculateAmountDue());
+
+  const getStaffName = (staffId: string) =>
+    tipStaffOptions.find(member => member.id === staffId)?.name || 'Staff';
+
+  const handleToggleTipStaff = (staffId: string) => {
+    const isSelected = selectedTipStaffIds.includes(staffId);
+    if (isSelected && selectedTipStaffIds.length === 1) {
+      toast.error('At least one staff member must receive the tip');
+      return;
+    }
+    setTipStaffIds(isSelected
+      ? selectedTipStaffIds.filter(id => id !== staffId)
+      : [...selectedTipStaffIds, staffId]);
+  };
+
+  const handleTipPreset = (percentage: number) => {
+    setTipType('percentage');
+    setTipValue(percentage.toString());
+  };
+
+  const handleRemoveTip = () => {
+    setTipValue('');
+    setTipStaffIds([]);
+  };
+
+  const getPaymentMethodLabel = (method: PaymentMethod) => {
+    switch (method) {
+      case 'cash': return 'Cash';
+      case 'card': return 'Card';
+      case 'transfer': return 'Transfer';
+    }
+  };
+
+  // New tenders are prefilled with whatever is still owed
+  const handleAddTender = (method: PaymentMethod) => {
+    setTenders(prev => [...prev, { method, amount: tenderResolution.remaining }]);
+  };
+
+  const handleTenderChange = (tenderIndex: number, changes: Partial<TenderInput>) => {
+    setTenders(prev => prev.map((tender, index) =>
+      index === tenderIndex ? { ...tender, ...changes } : tender
+    ));
+  };
+
+  const handleRemoveTender = (tenderIndex: number) => {
+    setTenders(prev => prev.filter((_, index) => index !== tenderIndex));
   };
 
+  const handleFillRemaining = (tenderIndex: number) => {
+    const otherTendered = tenders.reduce((sum, tender, index) =>
+      index === tenderIndex ? sum : sum + (tender.amount || 0), 0);
+    handleTenderChange(tenderIndex, { amount: Math.max(0, Math.round((calculateAmountDue() - otherTendered) * 100) / 100) });
+  };
+
+  // Commission is earned on the discounted line amounts
   const calculateTotalCommission = () => {
-    return selectedServices.reduce((total, selectedService) => {
+    return selectedServices.reduce((total, selectedService, index) => {
       const commissionPercent = selectedService.service.commissionPercent || 0;
-      return total + (selectedService.adjustedPrice * selectedService.quantity * (commissionPercent / 100));
+      return total + (discountCalculation.lines[index].lineTotal * (commissionPercent / 100));
     }, 0);
   };
 
+  // Queues the sale for OfflineSyncProvider to submit when the connection is
+  // back, takes its products off the local stock and shows a provisional
+  // receipt; receipt and invoice numbers are assigned on sync
+  const completeSaleOffline = async (saleData: CompleteSaleRequest) => {
+    if (!selectedClient || !user) return;
+
+    await queueSale(saleData, selectedClient.name);
+
+    const updatedProducts = OfflineSyncService.applySaleToStock(products, saleData);
+    setProducts(updatedProducts);
+    await offlineStore.saveCatalog('products', updatedProducts);
+
+    setSaleReceipt({
+      saleId: saleData.requestKey,
+      offline: true,
+      date: saleData.soldAt || new Date().toISOString(),
+      clientName: selectedClient.name,
+      clientPhone: selectedClient.phone,
+      staffName: user.name,
+      services: selectedServices.map((selectedService, index) => {
+        const line = discountCalculation.lines[index];
+        return {
+          name: selectedService.service.name,
+          originalPrice: selectedService.originalPrice,
+          adjustedPrice: line.netUnitPrice,
+          discountAmount: Math.round((line.lineDiscount / selectedService.quantity) * 100) / 100,
+          quantity: selectedService.quantity,
+        };
+      }),
+      products: allProductUsages.map(usage => ({
+        productName: usage.product.name,
+        quantityUsed: usage.actualQuantity,
+        unit: usage.unit,
+      })),
+      retailItems: retailItems.map(item => ({
+        productId: item.product.id,
+        productName: item.product.name,
+        quantity: item.quantity,
+        unitPrice: item.product.price,
+        unitCost: item.product.cost,
+      })),
+      subtotalAmount: discountCalculation.subtotal + retailSubtotal,
+      discountAmount: discountCalculation.discountTotal,
+      discounts: discountCalculation.discounts,
+      taxLines: taxCalculation.taxLines,
+      totalAmount: saleData.totalAmount,
+      paymentMethod: saleData.paymentMethod,
+      payments: saleData.payments,
+      tipAmount: saleData.tipAmount,
+      tips: saleData.tips,
+      commission: calculateTotalCommission(),
+    });
+    setCurrentStep('receipt');
+
+    toast.success('Sale saved offline. It will sync when the connection is back.');
+  };
+
   const handleConfirmSale = async () => {
     // Enhanced validation with specific error messages
     if (!selectedClient) {
@@ -364,8 +808,8 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
       return;
     }
 
-    if (selectedServices.length === 0) {
-      toast.error('Please select at least one service');
+    if (selectedServices.length === 0 && retailItems.length === 0) {
+      toast.error('Please select at least one service or retail product');
       return;
     }
 
@@ -374,8 +818,20 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
       return;
     }
 
-    if (!paymentMethod) {
-      toast.error('Please select a payment method');
+    if (!cashSession) {
+      toast.error('Open the cash drawer before taking payments');
+      setShowCashDrawerModal(true);
+      return;
+    }
+
+    const tipError = TipService.validateTips(tipShares, tipAmount);
+    if (tipError) {
+      toast.error(tipError);
+      return;
+    }
+
+    if (calculateAmountDue() > 0 && tenderResolution.error) {
+      toast.error(tenderResolution.error);
       return;
     }
 
@@ -403,112 +859,118 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
       return;
     }
 
+    const retailErrors = retailItems
+      .map(item => RetailService.validateQuantity(item.product, item.quantity))
+      .filter((error): error is string => Boolean(error));
+    if (retailErrors.length > 0) {
+      toast.error(`Insufficient stock:\n${retailErrors.join('\n')}`);
+      return;
+    }
+
     // Validate total amount
-    const totalAmount = calculateTotalAmount();
-    if (totalAmount <= 0) {
+    if (discountCalculation.subtotal + retailSubtotal <= 0) {
       toast.error('Sale total must be greater than $0');
       return;
     }
 
+    // Re-check discounts against the final cart
+    if (appliedPromo) {
+      const promoError = DiscountService.validatePromoCode(appliedPromo, discountCalculation.subtotal);
+      if (promoError) {
+        toast.error(promoError);
+        return;
+      }
+    }
+
+    if (!isWithinManualDiscountLimit(selectedServices, cartDiscount)) {
+      return;
+    }
+
+    const totalAmount = calculateTotalAmount();
+
     setIsProcessingSale(true);
 
     try {
       // Prepare sale data for the enhanced API
-      const saleData = {
+      const saleData: CompleteSaleRequest = {
+        requestKey: saleRequestKey,
         clientId: selectedClient.id,
-        services: selectedServices.map(selectedService => ({
+        services: selectedServices.map((selectedService, index) => ({
           serviceId: selectedService.service.id,
           originalPrice: selectedService.originalPrice,
           adjustedPrice: selectedService.adjustedPrice,
           priceAdjustmentReason: selectedService.priceAdjustmentReason,
           quantity: selectedService.quantity,
+          discountAmount: discountCalculation.lines[index].lineDiscount,
+          discount: selectedService.discount && {
+            discountType: selectedService.discount.discountType,
+            value: selectedService.discount.value,
+          },
+          staffId: selectedService.staffId,
           products: selectedService.products.map(product => ({
             productId: product.productId,
             quantity: product.actualQuantity,
             unit: product.unit,
           }))
         })),
-        staffId: user.id,
-        paymentMethod,
+        retailItems: retailItems.map(item => ({
+          productId: item.product.id,
+          quantity: item.quantity,
+        })),
+        discounts: discountCalculation.discounts,
+        payments: tenderResolution.payments,
+        tipAmount,
+        tips: tipShares,
+        cashSessionId: cashSession.id,
+        // Dates the sale and finds its cash session when it syncs later from the offline queue
+        soldAt: new Date().toISOString(),
+        // Commissions of a checked-out booking go to the staff member who was booked
+        staffId: checkoutBooking?.staffId || user.id,
+        bookingId: checkoutBooking?.id,
+        paymentMethod: PaymentService.getSalePaymentMethod(tenderResolution.payments),
         totalAmount: totalAmount,
-        notes: `Sale with ${selectedServices.length} service(s): ${selectedServices.map(s => s.service.name).join(', ')}`,
+        notes: `Sale with ${[
+          selectedServices.length > 0 && `${selectedServices.length} service(s): ${selectedServices.map(s => s.service.name).join(', ')}`,
+          retailItems.length > 0 && `${retailItems.length} retail product(s): ${retailItems.map(item => `${item.quantity} x ${item.product.name}`).join(', ')}`,
+        ].filter(Boolean).join(' | ')}`,
       };
 
       console.log('🛒 Submitting sale data:', saleData);
 
       // Validate sale data structure
-      if (!saleData.clientId || !saleData.staffId || !saleData.services.length) {
+      if (!saleData.clientId || !saleData.staffId || (!saleData.services.length && !retailItems.length)) {
         throw new Error('Invalid sale data structure');
       }
 
-      // First create the sale record
-      const result = await saleService.createCompleteSale(saleData);
-      
+      if (!navigator.onLine) {
+        await completeSaleOffline(saleData);
+        return;
+      }
+
+      // Sale, stock consumption and commissions are committed atomically server-side
+      let result;
+      try {
+        result = await saleService.createCompleteSale(saleData);
+      } catch (error) {
+        if (OfflineSyncService.classifyError(error) !== 'offline') {
+          throw error;
+        }
+        // The connection dropped during checkout. If the sale did reach the
+        // server, its request key makes the queued copy a replay on sync.
+        await completeSaleOffline(saleData);
+        return;
+      }
+
+
       if (result) {
-        const { sale, receipt, commission } = result;
+        const { sale, receipt, commission, stockUpdates } = result;
         
         if (!sale || !sale.id) {
           throw new Error('Invalid sale result - missing sale ID');
         }
 
-        // Process bottle consumption for each service (only if products exist)
-        let totalMlConsumed = 0;
-        let totalBottlesOpened = 0;
-        const consumptionErrors: string[] = [];
-
-        for (const selectedService of selectedServices) {
-          try {
-            console.log(`🍾 Processing bottle consumption for service: ${selectedService.service.name}`);
-            
-            // Skip consumption if no products are required for this service
-            if (selectedService.products.length === 0) {
-              console.log(`✅ Service ${selectedService.service.name} has no products - skipping consumption`);
-              continue;
-            }
-            
-            // Check service availability first
-            const availability = await SimpleBottleConsumptionService.checkServiceAvailability(selectedService.service.id);
-            
-            if (!availability.available) {
-              consumptionErrors.push(`${selectedService.service.name}: ${availability.missingProducts.join(', ')}`);
-              continue;
-            }
-
-            // Process each product with the actual quantities selected by the user
-            for (const productUsage of selectedService.products) {
-              // Skip products with zero quantity
-              if (productUsage.actualQuantity <= 0) {
-                console.log(`⏭️ Skipping product ${productUsage.product.name} - zero quantity`);
-                continue;
-              }
-              
-              const consumptionResult = await SimpleBottleConsumptionService.consumeProduct({
-                productId: productUsage.productId,
-                requiredMl: productUsage.actualQuantity, // Use the actual quantity selected by the user
-                saleId: sale.id,
-                serviceId: selectedService.service.id,
-                staffId: user?.id
-              });
-
-              if (!consumptionResult.success) {
-                consumptionErrors.push(`${productUsage.product.name}: ${consumptionResult.error}`);
-              } else {
-                totalMlConsumed += consumptionResult.consumedMl;
-                totalBottlesOpened += consumptionResult.bottlesOpened;
-                
-                console.log(`✅ Product ${productUsage.product.name}: ${consumptionResult.consumedMl}ml consumed (requested: ${productUsage.actualQuantity}ml), ${consumptionResult.bottlesOpened} bottles opened`);
-              }
-            }
-          } catch (error: any) {
-            console.error(`❌ Error processing consumption for service ${selectedService.service.name}:`, error);
-            consumptionErrors.push(`${selectedService.service.name}: ${error.message}`);
-          }
-        }
-
-        // Show consumption results
-        if (consumptionErrors.length > 0) {
-          toast.error(`Consumption errors: ${consumptionErrors.join('; ')}`);
-        }
+        const consumedByUnit = UnitService.sumByUnit(stockUpdates.map(update => ({ quantity: Number(update.quantityUsed) || 0, unit: update.unit })));
+        const totalBottlesOpened = stockUpdates.reduce((sum, update) => sum + (Number(update.bottlesOpened) || 0), 0);
 
         // Refresh product data to show updated quantities
         await refreshProducts();
@@ -522,8 +984,8 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
           ? `Sale completed! Commission earned: ${formatPrice(commission)}` 
           : 'Sale completed successfully!';
         
-        if (totalMlConsumed > 0) {
-          successMessage += ` | Consumed ${totalMlConsumed}ml from ${totalBottlesOpened} bottles`;
+        if (stockUpdates.length > 0) {
+          successMessage += ` | Consumed ${UnitService.formatTotals(consumedByUnit)} from ${totalBottlesOpened} bottles`;
         }
         
         toast.success(successMessage);
@@ -560,19 +1022,69 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
     }
   };
 
-  const handleNewSale = async () => {
+  const handlePrintReceipt = () => {
+    if (!saleReceipt) return;
+
+    const printWindow = window.open('', '_blank', receiptTemplate.format === 'a4' ? 'width=820,height=960' : 'width=420,height=720');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print the receipt');
+      return;
+    }
+
+    printWindow.document.write(ReceiptService.renderHtml(saleReceipt, receiptTemplate, salonSettings));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleSendReceipt = async () => {
+    if (!saleReceipt) return;
+
+    if (!saleReceipt.clientPhone) {
+      toast.error('This client has no phone number');
+      return;
+    }
+
+    setIsSendingReceipt(true);
+    try {
+      const sent = await whatsappService.sendReceipt(
+        saleReceipt.clientPhone,
+        ReceiptService.renderText(saleReceipt, receiptTemplate, salonSettings)
+      );
+      if (sent) {
+        toast.success('Receipt sent via WhatsApp');
+      } else {
+        toast.error('Failed to send receipt via WhatsApp');
+      }
+    } finally {
+      setIsSendingReceipt(false);
+    }
+  };
+
+  const handleNewSale = async (announce: boolean = true) => {
     // Reset all state for new sale
     setSelectedClient(null);
+    setCheckoutBooking(null);
     setSelectedServices([]);
     setAllProductUsages([]);
+    setRetailItems([]);
+    setRetailSearch('');
+    setCatalogMode('services');
     setSaleReceipt(null);
-    setPaymentMethod('cash');
+    setTenders([{ method: 'cash', amount: 0 }]);
+    handleRemoveCartDiscount();
+    handleRemovePromoCode();
+    setLoyaltyPointsToRedeem(0);
+    handleRemoveTip();
+    setSaleRequestKey(crypto.randomUUID());
     setCurrentStep('client');
     
     // Refresh product data for new sale
     await refreshProducts();
     
-    toast.success('Ready for new sale');
+    if (announce) {
+      toast.success('Ready for new sale');
+    }
   };
 
   const handleAddClient = async (clientData: Omit<Client, 'id' | 'createdAt' | 'updatedAt' | 'totalVisits' | 'totalSpent'>) => {
@@ -630,6 +1142,19 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
           <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-gray-800 text-elegant">{t('pos.title')}</h1>
         </div>
         <p className="text-gray-600 text-base sm:text-lg px-4">{t('pos.selectClient')}</p>
+        <button
+          onClick={() => setShowCashDrawerModal(true)}
+          className={`mt-3 inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium border transition-colors ${
+            cashSession
+              ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100'
+              : 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100'
+          }`}
+        >
+          <Wallet className="w-4 h-4" />
+          {cashSession
+            ? `Drawer open since ${new Date(cashSession.openedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+            : 'Cash drawer closed - open to start selling'}
+        </button>
       </motion.div>
 
       {/* Progress Steps */}
@@ -774,7 +1299,31 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                       <Scissors className="w-10 h-10 text-white" />
                     </div>
                     <h2 className="text-2xl font-bold text-gray-800 mb-2">Select Services</h2>
-                    <p className="text-gray-600">Choose services for {selectedClient?.name}</p>
+                    <p className="text-gray-600">Choose services or retail products for {selectedClient?.name}</p>
+                  </div>
+
+                  {/* Catalog Mode */}
+                  <div className="flex gap-2 p-1 mb-6 bg-gray-100 rounded-xl">
+                    {([
+                      { key: 'services', label: 'Services', icon: Scissors, count: selectedServices.length },
+                      { key: 'retail', label: 'Retail Products', icon: ShoppingBag, count: retailItems.length },
+                    ] as const).map(mode => (
+                      <button
+                        key={mode.key}
+                        onClick={() => setCatalogMode(mode.key)}
+                        className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors ${
+                          catalogMode === mode.key
+                            ? 'bg-white text-primary-600 shadow-soft'
+                            : 'text-gray-600 hover:text-gray-800'
+                        }`}
+                      >
+                        <mode.icon className="w-4 h-4" />
+                        {mode.label}
+                        {mode.count > 0 && (
+                          <span className="text-xs bg-primary-100 text-primary-700 px-2 py-0.5 rounded-full">{mode.count}</span>
+                        )}
+                      </button>
+                    ))}
                   </div>
 
                   {/* Search Bar */}
@@ -782,15 +1331,15 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                     <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
                     <input
                       type="text"
-                      placeholder="Search services..."
-                      value={serviceSearch}
-                      onChange={(e) => setServiceSearch(e.target.value)}
+                      placeholder={catalogMode === 'services' ? 'Search services...' : 'Search products...'}
+                      value={catalogMode === 'services' ? serviceSearch : retailSearch}
+                      onChange={(e) => catalogMode === 'services' ? setServiceSearch(e.target.value) : setRetailSearch(e.target.value)}
                       className="w-full pl-12 pr-4 py-4 bg-white border border-gray-200 rounded-xl text-gray-800 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-lg shadow-soft"
                     />
                   </div>
 
                   {/* Selected Services */}
-                  {selectedServices.length > 0 && (
+                  {catalogMode === 'services' && selectedServices.length > 0 && (
                     <div className="mb-6">
                       <h3 className="text-lg font-semibold text-gray-800 mb-3">Selected Services:</h3>
                       <div className="space-y-2">
@@ -810,23 +1359,25 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                                   <span className="text-sm text-gray-600">
                                     Original: {formatPrice(selectedService.originalPrice)}
                                   </span>
-                                  {selectedService.adjustedPrice !== selectedService.originalPrice && (
+                                  {selectedService.discount && (
                                     <span className="text-sm text-green-600 font-medium">
-                                      Adjusted: {formatPrice(selectedService.adjustedPrice)}
+                                      Discount: -{selectedService.discount.discountType === 'percentage'
+                                        ? `${selectedService.discount.value}%`
+                                        : formatPrice(selectedService.discount.value)}
                                     </span>
                                   )}
                                 </div>
-                                {selectedService.priceAdjustmentReason && (
+                                {selectedService.discount?.reason && (
                                   <p className="text-xs text-gray-500 mt-1">
-                                    Reason: {selectedService.priceAdjustmentReason}
+                                    Reason: {selectedService.discount.reason}
                                   </p>
                                 )}
                               </div>
                               <div className="flex items-center gap-2">
                                 <button
-                                  onClick={() => handlePriceAdjustment(selectedService)}
+                                  onClick={() => handlePriceAdjustment(index)}
                                   className="text-blue-500 hover:text-blue-700 transition-colors p-1"
-                                  title="Adjust Price"
+                                  title="Apply Discount"
                                 >
                                   <Edit3 className="w-4 h-4" />
                                 </button>
@@ -856,46 +1407,142 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                   )}
 
                   {/* Service Grid */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-                    {filteredServices.map((service) => (
-                      <motion.button
-                        key={service.id}
-                        onClick={() => handleServiceSelect(service)}
-                        className="p-6 bg-white hover:bg-primary-50 rounded-xl border border-gray-200 hover:border-primary-300 transition-all duration-200 text-left group shadow-soft hover:shadow-elegant"
-                        whileHover={{ scale: 1.02 }}
-                        whileTap={{ scale: 0.98 }}
-                      >
-                        <div className="flex items-start justify-between mb-3">
-                          <div className="flex items-center gap-3">
-                            {(() => {
-                              const IconComponent = getIconByName((service as any).iconName || 'scissors');
-                              return IconComponent ? <IconComponent className="w-6 h-6 text-primary-500" /> : <Scissors className="w-6 h-6 text-primary-500" />;
-                            })()}
-                            <h3 className="text-lg font-semibold text-gray-800 group-hover:text-primary-600 transition-colors">
-                              {service.name}
-                            </h3>
+                  {catalogMode === 'services' && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                      {filteredServices.map((service) => (
+                        <motion.button
+                          key={service.id}
+                          onClick={() => handleServiceSelect(service)}
+                          className="p-6 bg-white hover:bg-primary-50 rounded-xl border border-gray-200 hover:border-primary-300 transition-all duration-200 text-left group shadow-soft hover:shadow-elegant"
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          <div className="flex items-start justify-between mb-3">
+                            <div className="flex items-center gap-3">
+                              {(() => {
+                                const IconComponent = getIconByName((service as any).iconName || 'scissors');
+                                return IconComponent ? <IconComponent className="w-6 h-6 text-primary-500" /> : <Scissors className="w-6 h-6 text-primary-500" />;
+                              })()}
+                              <h3 className="text-lg font-semibold text-gray-800 group-hover:text-primary-600 transition-colors">
+                                {service.name}
+                              </h3>
+                            </div>
+                            <div className="text-right">
+                              <p className="text-2xl font-bold text-primary-500">{formatPrice(service.price)}</p>
+                              <div className="flex items-center gap-1 text-gray-500 text-sm">
+                                <Clock className="w-4 h-4" />
+                                <span>{service.duration} min</span>
+                              </div>
+                            </div>
+                          </div>
+                          <p className="text-gray-600 text-sm mb-3">{service.description}</p>
+                          <div className="flex items-center gap-2 text-xs text-gray-500">
+                            <Package className="w-4 h-4" />
+                            <span>
+                              {(service.requiredProducts || []).length > 0 
+                                ? `${(service.requiredProducts || []).length} products required`
+                                : 'No products required'
+                              }
+                            </span>
                           </div>
-                          <div className="text-right">
-                            <p className="text-2xl font-bold text-primary-500">{formatPrice(service.price)}</p>
-                            <div className="flex items-center gap-1 text-gray-500 text-sm">
-                              <Clock className="w-4 h-4" />
-                              <span>{service.duration} min</span>
+                        </motion.button>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Selected Retail Products */}
+                  {catalogMode === 'retail' && retailItems.length > 0 && (
+                    <div className="mb-6">
+                      <h3 className="text-lg font-semibold text-gray-800 mb-3">Retail Products:</h3>
+                      <div className="space-y-2">
+                        {retailItems.map(item => (
+                          <div key={item.product.id} className="p-3 bg-primary-50 rounded-lg border border-primary-200 flex items-center justify-between gap-3">
+                            <div>
+                              <p className="font-medium text-gray-800">{item.product.name}</p>
+                              <p className="text-sm text-gray-600">
+                                {formatPrice(item.product.price)} / {RetailService.getSellingUnit(item.product)}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => handleRetailQuantityChange(item.product.id, item.quantity - 1)}
+                                className="p-1 text-gray-600 hover:text-gray-800 transition-colors"
+                                title="Remove one"
+                              >
+                                <Minus className="w-4 h-4" />
+                              </button>
+                              <input
+                                type="number"
+                                min="1"
+                                step="1"
+                                value={item.quantity}
+                                onChange={(e) => handleRetailQuantityChange(item.product.id, parseInt(e.target.value) || 0)}
+                                className="w-16 px-2 py-1 text-sm text-center border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                              />
+                              <button
+                                onClick={() => handleRetailQuantityChange(item.product.id, item.quantity + 1)}
+                                className="p-1 text-gray-600 hover:text-gray-800 transition-colors"
+                                title="Add one"
+                              >
+                                <Plus className="w-4 h-4" />
+                              </button>
+                              <span className="w-24 text-right font-semibold text-gray-800">
+                                {formatPrice(item.product.price * item.quantity)}
+                              </span>
+                              <button
+                                onClick={() => handleRemoveRetailProduct(item.product.id)}
+                                className="text-red-500 hover:text-red-700 transition-colors p-1"
+                                title="Remove Product"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
                             </div>
                           </div>
-                        </div>
-                        <p className="text-gray-600 text-sm mb-3">{service.description}</p>
-                        <div className="flex items-center gap-2 text-xs text-gray-500">
-                          <Package className="w-4 h-4" />
-                          <span>
-                            {(service.requiredProducts || []).length > 0 
-                              ? `${(service.requiredProducts || []).length} products required`
-                              : 'No products required'
-                            }
-                          </span>
-                        </div>
-                      </motion.button>
-                    ))}
-                  </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Retail Product Grid */}
+                  {catalogMode === 'retail' && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                      {filteredRetailProducts.map(product => {
+                        const available = RetailService.getAvailableUnits(product);
+                        const unit = RetailService.getSellingUnit(product);
+                        return (
+                          <motion.button
+                            key={product.id}
+                            onClick={() => handleAddRetailProduct(product)}
+                            disabled={available === 0}
+                            className="p-6 bg-white hover:bg-primary-50 rounded-xl border border-gray-200 hover:border-primary-300 transition-all duration-200 text-left group shadow-soft hover:shadow-elegant disabled:opacity-50 disabled:cursor-not-allowed"
+                            whileHover={{ scale: available > 0 ? 1.02 : 1 }}
+                            whileTap={{ scale: available > 0 ? 0.98 : 1 }}
+                          >
+                            <div className="flex items-start justify-between mb-3">
+                              <div>
+                                <h3 className="text-lg font-semibold text-gray-800 group-hover:text-primary-600 transition-colors">
+                                  {product.name}
+                                </h3>
+                                <p className="text-sm text-gray-500">{product.brand}</p>
+                              </div>
+                              <div className="text-right">
+                                <p className="text-2xl font-bold text-primary-500">{formatPrice(product.price)}</p>
+                                <p className="text-xs text-gray-500">per {unit}</p>
+                              </div>
+                            </div>
+                            <div className={`flex items-center gap-2 text-xs ${available === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                              <Package className="w-4 h-4" />
+                              <span>
+                                {available === 0
+                                  ? 'Out of sealed stock'
+                                  : `${available} sealed ${unit === 'bottle' ? 'bottle(s)' : unit} in stock`}
+                              </span>
+                            </div>
+                          </motion.button>
+                        );
+                      })}
+                    </div>
+                  )}
 
                   {/* Action Buttons */}
                   <div className="flex gap-4">
@@ -909,7 +1556,7 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                       onClick={handleContinueToProducts}
                       className="flex-1 py-4 bg-primary-500 hover:bg-primary-600 text-white font-semibold rounded-xl transition-all duration-200 shadow-soft hover:shadow-elegant"
                     >
-                      Continue to Products
+                      {selectedServices.length === 0 && retailItems.length > 0 ? 'Continue to Payment' : 'Continue to Products'}
                     </button>
                   </div>
                 </motion.div>
@@ -951,10 +1598,10 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                                     <h4 className="text-lg font-semibold text-gray-800">{usage.product.name}</h4>
                                     <div className="flex items-center gap-4 mt-2 text-sm">
                                       <span className="text-primary-500 font-medium">
-                                        Required: {usage.suggestedQuantity} ml
+                                        Required: {UnitService.format(usage.suggestedQuantity, usage.unit)}
                                       </span>
                                       <span className="text-gray-500">
-                                        Available: {usage.product.open_bottle_remaining_ml || 0}ml (open) + {usage.product.sealed_bottles || 0} sealed bottles
+                                        Available: {UnitService.format(usage.product.open_bottle_remaining_ml || 0, usage.unit)} (open) + {usage.product.sealed_bottles || 0} sealed bottles
                                       </span>
                                     </div>
                                   </div>
@@ -970,7 +1617,7 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                               
                               {/* Quantity Input */}
                               <div className="flex items-center gap-4">
-                                <label className="text-sm font-medium text-gray-700">Actual Amount Used (ml):</label>
+                                <label className="text-sm font-medium text-gray-700">Actual Amount Used ({usage.unit}):</label>
                                 <div className="flex items-center gap-2">
                                   <button
                                     onClick={() => handleQuantityChange(selectedService.service.id, usage.actualQuantity - 1, usage.productId)}
@@ -1023,7 +1670,7 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                             <option value="">Add extra product...</option>
                             {products.map((product) => (
                               <option key={product.id} value={product.id}>
-                                {product.name} - Stock: {((product.sealed_bottles || 0) * (product.bottle_capacity_ml || 0) + (product.open_bottle_remaining_ml || 0))}ml
+                                {product.name} - Stock: {UnitService.format((product.sealed_bottles || 0) * (product.bottle_capacity_ml || 0) + (product.open_bottle_remaining_ml || 0), product.unit)}
                               </option>
                             ))}
                           </select>
@@ -1083,80 +1730,342 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                     </div>
 
                     {/* Services Summary */}
-                    <div className="p-4 bg-white rounded-lg mb-4">
-                      <p className="font-medium text-gray-800 mb-3">Services:</p>
-                      <div className="space-y-3">
-                        {selectedServices.map((selectedService) => (
-                          <div key={selectedService.service.id} className="flex items-center justify-between">
-                            <div className="flex items-center gap-3">
-                              {(() => {
-                                const IconComponent = getIconByName((selectedService.service as any).iconName || 'scissors');
-                                return IconComponent ? <IconComponent className="w-5 h-5 text-primary-500" /> : <Scissors className="w-5 h-5 text-primary-500" />;
-                              })()}
-                              <div>
-                                <p className="font-medium text-gray-800">{selectedService.service.name}</p>
-                                <p className="text-gray-600 text-sm">{selectedService.service.description}</p>
+                    {selectedServices.length > 0 && (
+                      <div className="p-4 bg-white rounded-lg mb-4">
+                        <p className="font-medium text-gray-800 mb-3">Services:</p>
+                        <div className="space-y-3">
+                          {selectedServices.map((selectedService, index) => (
+                            <div key={`${selectedService.service.id}-${index}`} className="flex items-center justify-between">
+                              <div className="flex items-center gap-3">
+                                {(() => {
+                                  const IconComponent = getIconByName((selectedService.service as any).iconName || 'scissors');
+                                  return IconComponent ? <IconComponent className="w-5 h-5 text-primary-500" /> : <Scissors className="w-5 h-5 text-primary-500" />;
+                                })()}
+                                <div>
+                                  <p className="font-medium text-gray-800">{selectedService.service.name}</p>
+                                  <p className="text-gray-600 text-sm">{selectedService.service.description}</p>
+                                </div>
+                              </div>
+                              <div className="text-right">
+                                <p className="text-lg font-bold text-primary-500">{formatPrice(discountCalculation.lines[index].lineTotal)}</p>
+                                {discountCalculation.lines[index].lineDiscount > 0 && (
+                                  <p className="text-xs text-gray-500 line-through">
+                                    {formatPrice(selectedService.adjustedPrice * selectedService.quantity)}
+                                  </p>
+                                )}
+                                <p className="text-gray-500 text-sm">{selectedService.service.duration} min</p>
                               </div>
                             </div>
-                            <div className="text-right">
-                              <p className="text-lg font-bold text-primary-500">{formatPrice(selectedService.service.price)}</p>
-                              <p className="text-gray-500 text-sm">{selectedService.service.duration} min</p>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Retail Summary */}
+                    {retailItems.length > 0 && (
+                      <div className="p-4 bg-white rounded-lg mb-4">
+                        <p className="font-medium text-gray-800 mb-3">Retail Products:</p>
+                        <div className="space-y-2">
+                          {retailItems.map(item => (
+                            <div key={item.product.id} className="flex justify-between text-sm">
+                              <span className="text-gray-600">{item.quantity} x {item.product.name}</span>
+                              <span className="text-gray-800 font-medium">{formatPrice(item.product.price * item.quantity)}</span>
                             </div>
-                          </div>
-                        ))}
+                          ))}
+                        </div>
                       </div>
-                    </div>
+                    )}
 
                     {/* Products Summary */}
+                    {allProductUsages.length > 0 && (
+                      <div className="p-4 bg-white rounded-lg mb-4">
+                        <p className="font-medium text-gray-800 mb-3">Products Used:</p>
+                        <div className="space-y-2">
+                          {allProductUsages.map((usage) => (
+                            <div key={`${usage.serviceId}-${usage.productId}`} className="flex justify-between text-sm">
+                              <span className="text-gray-600">{usage.product.name}</span>
+                              <span className="text-gray-800 font-medium">{usage.actualQuantity} {usage.unit}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Discounts */}
                     <div className="p-4 bg-white rounded-lg mb-4">
-                      <p className="font-medium text-gray-800 mb-3">Products Used:</p>
-                      <div className="space-y-2">
-                        {allProductUsages.map((usage) => (
-                          <div key={`${usage.serviceId}-${usage.productId}`} className="flex justify-between text-sm">
-                            <span className="text-gray-600">{usage.product.name}</span>
-                            <span className="text-gray-800 font-medium">{usage.actualQuantity} {usage.unit}</span>
+                      <p className="font-medium text-gray-800 mb-3 flex items-center gap-2">
+                        <Tag className="w-4 h-4 text-primary-500" />
+                        Discounts
+                      </p>
+
+                      {/* Promo code */}
+                      {appliedPromo ? (
+                        <div className="flex items-center justify-between p-3 mb-3 bg-green-50 border border-green-200 rounded-lg">
+                          <div>
+                            <p className="font-medium text-green-800">{appliedPromo.code}</p>
+                            {appliedPromo.description && (
+                              <p className="text-xs text-green-700">{appliedPromo.description}</p>
+                            )}
                           </div>
+                          <button
+                            onClick={handleRemovePromoCode}
+                            className="text-red-500 hover:text-red-700 transition-colors p-1"
+                            title="Remove Promo Code"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex gap-2 mb-3">
+                          <input
+                            type="text"
+                            value={promoCodeInput}
+                            onChange={(e) => setPromoCodeInput(e.target.value.toUpperCase())}
+                            placeholder="Promo code"
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          />
+                          <button
+                            onClick={handleApplyPromoCode}
+                            disabled={isApplyingPromo}
+                            className="px-4 py-2 bg-primary-500 hover:bg-primary-600 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+                          >
+                            Apply
+                          </button>
+                        </div>
+                      )}
+
+                      {/* Manual cart discount */}
+                      {cartDiscount ? (
+                        <div className="flex items-center justify-between p-3 mb-3 bg-green-50 border border-green-200 rounded-lg">
+                          <p className="text-sm text-green-800">
+                            Cart discount: -{cartDiscount.discountType === 'percentage'
+                              ? `${cartDiscount.value}%`
+                              : formatPrice(cartDiscount.value)} ({cartDiscount.reason})
+                          </p>
+                          <button
+                            onClick={handleRemoveCartDiscount}
+                            className="text-red-500 hover:text-red-700 transition-colors p-1"
+                            title="Remove Cart Discount"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 mb-3">
+                          <select
+                            value={cartDiscountType}
+                            onChange={(e) => setCartDiscountType(e.target.value as DiscountInput['discountType'])}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          >
+                            <option value="percentage">%</option>
+                            <option value="fixed">DH</option>
+                          </select>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={cartDiscountValue}
+                            onChange={(e) => setCartDiscountValue(e.target.value)}
+                            placeholder="Cart discount"
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          />
+                          <input
+                            type="text"
+                            value={cartDiscountReason}
+                            onChange={(e) => setCartDiscountReason(e.target.value)}
+                            placeholder="Reason"
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          />
+                          <button
+                            onClick={handleApplyCartDiscount}
+                            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg border border-gray-200 transition-colors"
+                          >
+                            Apply
+                          </button>
+                        </div>
+                      )}
+
+                      {/* Loyalty points */}
+                      {(selectedClient?.loyaltyPoints || 0) > 0 && (
+                        <div className="flex items-center justify-between gap-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                          <div className="flex items-center gap-2 text-sm text-yellow-800">
+                            <Gift className="w-4 h-4" />
+                            {selectedClient?.loyaltyPoints} points available
+                            ({formatPrice(DiscountService.getLoyaltyValue(selectedClient?.loyaltyPoints || 0))})
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min="0"
+                              max={selectedClient?.loyaltyPoints}
+                              value={loyaltyPointsToRedeem}
+                              onChange={(e) => handleLoyaltyPointsChange(parseInt(e.target.value))}
+                              className="w-24 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            />
+                            <button
+                              onClick={() => handleLoyaltyPointsChange(selectedClient?.loyaltyPoints || 0)}
+                              className="text-sm text-yellow-800 hover:text-yellow-900 font-medium"
+                            >
+                              Use all
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Tip */}
+                    <div className="p-4 bg-white rounded-lg mb-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium text-gray-800 flex items-center gap-2">
+                          <Heart className="w-4 h-4" />
+                          Tip:
+                        </p>
+                        {tipAmount > 0 && (
+                          <button
+                            onClick={handleRemoveTip}
+                            className="text-sm text-red-500 hover:text-red-700"
+                          >
+                            No tip
+                          </button>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        {TIP_PERCENTAGE_PRESETS.map(percentage => (
+                          <button
+                            key={percentage}
+                            onClick={() => handleTipPreset(percentage)}
+                            className={`px-3 py-2 rounded-lg border text-sm transition-colors duration-200 ${
+                              tipType === 'percentage' && parseFloat(tipValue) === percentage
+                                ? 'border-primary-500 bg-primary-50 text-primary-700'
+                                : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                            }`}
+                          >
+                            {percentage}%
+                          </button>
                         ))}
+                        <select
+                          value={tipType}
+                          onChange={(e) => setTipType(e.target.value as DiscountType)}
+                          className="px-2 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        >
+                          <option value="percentage">%</option>
+                          <option value="fixed">DH</option>
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={tipValue}
+                          onChange={(e) => setTipValue(e.target.value)}
+                          placeholder="Custom"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        />
                       </div>
+                      {tipAmount > 0 && (
+                        <div>
+                          <p className="text-sm text-gray-600 mb-2">Shared between:</p>
+                          <div className="flex flex-wrap gap-2">
+                            {tipStaffOptions.map(member => {
+                              const share = tipShares.find(tip => tip.staffId === member.id);
+                              return (
+                                <button
+                                  key={member.id}
+                                  onClick={() => handleToggleTipStaff(member.id)}
+                                  className={`px-3 py-1 rounded-full border text-sm transition-colors duration-200 ${
+                                    share
+                                      ? 'border-primary-500 bg-primary-50 text-primary-700'
+                                      : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                                  }`}
+                                >
+                                  {member.name}{share ? ` · ${formatPrice(share.amount)}` : ''}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
                     </div>
 
-                    {/* Payment Method */}
+                    {/* Payment Tenders */}
                     <div className="p-4 bg-white rounded-lg mb-4">
-                      <p className="font-medium text-gray-800 mb-3">Payment Method:</p>
-                      <div className="flex gap-3">
-                        <button
-                          onClick={() => setPaymentMethod('cash')}
-                          className={`flex-1 py-3 px-4 rounded-lg border transition-colors duration-200 ${
-                            paymentMethod === 'cash'
-                              ? 'border-primary-500 bg-primary-50 text-primary-600'
-                              : 'border-gray-200 text-gray-600 hover:border-gray-300'
-                          }`}
-                        >
-                          <DollarSign className="w-5 h-5 mx-auto mb-1" />
-                          Cash
-                        </button>
-                        <button
-                          onClick={() => setPaymentMethod('card')}
-                          className={`flex-1 py-3 px-4 rounded-lg border transition-colors duration-200 ${
-                            paymentMethod === 'card'
-                              ? 'border-primary-500 bg-primary-50 text-primary-600'
-                              : 'border-gray-200 text-gray-600 hover:border-gray-300'
-                          }`}
-                        >
-                          <CreditCard className="w-5 h-5 mx-auto mb-1" />
-                          Card
-                        </button>
-                        <button
-                          onClick={() => setPaymentMethod('transfer')}
-                          className={`flex-1 py-3 px-4 rounded-lg border transition-colors duration-200 ${
-                            paymentMethod === 'transfer'
-                              ? 'border-primary-500 bg-primary-50 text-primary-600'
-                              : 'border-gray-200 text-gray-600 hover:border-gray-300'
-                          }`}
-                        >
-                          <Send className="w-5 h-5 mx-auto mb-1" />
-                          Transfer
-                        </button>
+                      <p className="font-medium text-gray-800 mb-3">Payment:</p>
+                      <div className="space-y-2 mb-3">
+                        {tenders.map((tender, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <span className="w-24 flex items-center gap-1 text-sm font-medium text-gray-700">
+                              {tender.method === 'cash' && <DollarSign className="w-4 h-4" />}
+                              {tender.method === 'card' && <CreditCard className="w-4 h-4" />}
+                              {tender.method === 'transfer' && <Send className="w-4 h-4" />}
+                              {getPaymentMethodLabel(tender.method)}
+                            </span>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={tender.amount || ''}
+                              onChange={(e) => handleTenderChange(index, { amount: parseFloat(e.target.value) || 0 })}
+                              placeholder={tender.method === 'cash' ? 'Cash received' : 'Amount'}
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            />
+                            {tender.method !== 'cash' && (
+                              <input
+                                type="text"
+                                value={tender.reference || ''}
+                                onChange={(e) => handleTenderChange(index, { reference: e.target.value })}
+                                placeholder="Reference"
+                                className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                              />
+                            )}
+                            <button
+                              onClick={() => handleFillRemaining(index)}
+                              className="text-xs text-primary-600 hover:text-primary-700 font-medium whitespace-nowrap"
+                            >
+                              Exact
+                            </button>
+                            {tenders.length > 1 && (
+                              <button
+                                onClick={() => handleRemoveTender(index)}
+                                className="text-red-500 hover:text-red-700 transition-colors p-1"
+                                title="Remove Payment"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex gap-3 mb-3">
+                        {(['cash', 'card', 'transfer'] as PaymentMethod[]).map(method => (
+                          <button
+                            key={method}
+                            onClick={() => handleAddTender(method)}
+                            className="flex-1 py-2 px-3 rounded-lg border border-gray-200 text-gray-600 hover:border-gray-300 text-sm transition-colors duration-200 flex items-center justify-center gap-1"
+                          >
+                            <Plus className="w-4 h-4" />
+                            {getPaymentMethodLabel(method)}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="space-y-1 text-sm">
+                        <div className="flex justify-between text-gray-600">
+                          <span>Tendered</span>
+                          <span>{formatPrice(tenderResolution.totalTendered)}</span>
+                        </div>
+                        {tenderResolution.remaining > 0 && (
+                          <div className="flex justify-between text-red-600 font-medium">
+                            <span>Remaining</span>
+                            <span>{formatPrice(tenderResolution.remaining)}</span>
+                          </div>
+                        )}
+                        {tenderResolution.changeDue > 0 && (
+                          <div className="flex justify-between text-green-600 font-medium">
+                            <span>Change due</span>
+                            <span>{formatPrice(tenderResolution.changeDue)}</span>
+                          </div>
+                        )}
+                        {tenderResolution.error && tenderResolution.remaining === 0 && (
+                          <p className="text-red-600">{tenderResolution.error}</p>
+                        )}
                       </div>
                     </div>
 
@@ -1177,20 +2086,56 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
 
                     {/* Total */}
                     <div className="border-t border-gray-200 pt-4">
+                      {discountCalculation.discounts.length > 0 && (
+                        <div className="space-y-1 mb-3 text-sm">
+                          <div className="flex justify-between text-gray-600">
+                            <span>Subtotal</span>
+                            <span>{formatPrice(discountCalculation.subtotal + retailSubtotal)}</span>
+                          </div>
+                          {discountCalculation.discounts.map((discount, index) => (
+                            <div key={index} className="flex justify-between text-green-600">
+                              <span>{getDiscountLabel(discount)}</span>
+                              <span>-{formatPrice(discount.amount)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {taxCalculation.taxAmount > 0 && (
+                        <div className="space-y-1 mb-3 text-sm">
+                          {taxCalculation.taxLines.filter(taxLine => taxLine.taxAmount > 0).map((taxLine, index) => (
+                            <div key={index} className={`flex justify-between ${taxLine.inclusive ? 'text-gray-500' : 'text-gray-700'}`}>
+                              <span>{getTaxLabel(taxLine)}</span>
+                              <span>{taxLine.inclusive ? '' : '+'}{formatPrice(taxLine.taxAmount)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                       <div className="flex justify-between items-center text-xl font-bold">
                         <span className="text-gray-800">Total Amount</span>
                         <span className="text-primary-500">{formatPrice(calculateTotalAmount())}</span>
                       </div>
+                      {tipAmount > 0 && (
+                        <div className="space-y-1 mt-2 text-sm">
+                          <div className="flex justify-between text-gray-600">
+                            <span>Tip</span>
+                            <span>+{formatPrice(tipAmount)}</span>
+                          </div>
+                          <div className="flex justify-between font-semibold text-gray-800">
+                            <span>Amount Due</span>
+                            <span>{formatPrice(calculateAmountDue())}</span>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
 
                   {/* Action Buttons */}
                   <div className="flex gap-4">
                     <button
-                      onClick={() => setCurrentStep('products')}
+                      onClick={() => setCurrentStep(selectedServices.length > 0 ? 'products' : 'services')}
                       className="flex-1 py-4 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold rounded-xl transition-colors duration-200 border border-gray-200"
                     >
-                      Back to Products
+                      {selectedServices.length > 0 ? 'Back to Products' : 'Back to Services'}
                     </button>
                     <button
                       onClick={handleConfirmSale}
@@ -1223,6 +2168,12 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                     </div>
                     <h2 className="text-2xl font-bold text-gray-800 mb-2">Sale Complete!</h2>
                     <p className="text-gray-600">Receipt generated successfully</p>
+                    {saleReceipt.offline && (
+                      <div className="mt-4 inline-flex items-center gap-2 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-700">
+                        <WifiOff className="w-4 h-4" />
+                        <span>Saved offline. The receipt number is assigned once the sale syncs.</span>
+                      </div>
+                    )}
                   </div>
 
                   {/* Receipt */}
@@ -1230,8 +2181,16 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                     {/* Receipt Header */}
                     <div className="text-center border-b border-gray-200 pb-4 mb-4">
                       <Logo size="lg" className="mx-auto mb-2" />
-                      <p className="text-sm text-gray-600">Antilope Centre</p>
-                      <p className="text-xs text-gray-500">{new Date().toLocaleString()}</p>
+                      <p className="text-sm text-gray-600">{salonSettings.salonName}</p>
+                      {saleReceipt.receiptNumber && (
+                        <p className="text-xs font-medium text-gray-700">
+                          Receipt No. {ReceiptService.formatReceiptNumber(saleReceipt.receiptNumber)}
+                        </p>
+                      )}
+                      {saleReceipt.invoiceNumber && (
+                        <p className="text-xs text-gray-600">Invoice No. {saleReceipt.invoiceNumber}</p>
+                      )}
+                      <p className="text-xs text-gray-500">{new Date(saleReceipt.date).toLocaleString()}</p>
                     </div>
 
                     {/* Client Info */}
@@ -1247,32 +2206,111 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                         {saleReceipt.services.map((service, index) => (
                           <div key={index} className="flex justify-between text-sm">
                             <span className="text-gray-700">{service.name}</span>
-                            <span className="font-medium">{formatPrice(service.price)}</span>
+                            <span className="font-medium">
+                              {service.adjustedPrice < service.originalPrice && (
+                                <span className="text-xs text-gray-400 line-through mr-2">{formatPrice(service.originalPrice)}</span>
+                              )}
+                              {formatPrice(service.adjustedPrice)}
+                            </span>
                           </div>
                         ))}
                       </div>
                     </div>
 
+                    {/* Retail Products */}
+                    {(saleReceipt.retailItems || []).length > 0 && (
+                      <div className="border-b border-gray-200 pb-4 mb-4">
+                        <p className="text-sm text-gray-500 mb-2">Retail Products:</p>
+                        <div className="space-y-2">
+                          {saleReceipt.retailItems.map((item: SaleRetailItem, index: number) => (
+                            <div key={index} className="flex justify-between text-sm">
+                              <span className="text-gray-700">{item.quantity} x {item.productName}</span>
+                              <span className="font-medium">{formatPrice(item.unitPrice * item.quantity)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Products */}
                     <div className="border-b border-gray-200 pb-4 mb-4">
                       <p className="text-sm text-gray-500 mb-2">Products Used:</p>
                       <div className="space-y-1">
                         {saleReceipt.products.map((product, index) => (
                           <div key={index} className="flex justify-between text-xs text-gray-600">
-                            <span>{product.name}</span>
-                            <span>{product.qtyUsed} {product.unit}</span>
+                            <span>{product.productName}</span>
+                            <span>{product.quantityUsed} {product.unit}</span>
                           </div>
                         ))}
                       </div>
                     </div>
 
+                    {/* Discounts */}
+                    {saleReceipt.discounts?.length > 0 && (
+                      <div className="border-b border-gray-200 pb-4 mb-4 space-y-1 text-sm">
+                        <div className="flex justify-between text-gray-600">
+                          <span>Subtotal:</span>
+                          <span>{formatPrice(saleReceipt.subtotalAmount)}</span>
+                        </div>
+                        {saleReceipt.discounts.map((discount: SaleDiscount, index: number) => (
+                          <div key={index} className="flex justify-between text-green-600">
+                            <span>{getDiscountLabel(discount)}</span>
+                            <span>-{formatPrice(discount.amount)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Tax */}
+                    {saleReceipt.taxLines?.some((taxLine: SaleTaxLine) => taxLine.taxAmount > 0) && (
+                      <div className="border-b border-gray-200 pb-4 mb-4 space-y-1 text-sm text-gray-600">
+                        {saleReceipt.taxLines
+                          .filter((taxLine: SaleTaxLine) => taxLine.taxAmount > 0)
+                          .map((taxLine: SaleTaxLine, index: number) => (
+                            <div key={index} className="flex justify-between">
+                              <span>{getTaxLabel(taxLine)}</span>
+                              <span>{formatPrice(taxLine.taxAmount)}</span>
+                            </div>
+                          ))}
+                      </div>
+                    )}
+
                     {/* Total */}
                     <div className="text-center">
                       <div className="flex justify-between items-center text-lg font-bold mb-2">
                         <span className="text-gray-800">Total:</span>
                         <span className="text-primary-500">{formatPrice(saleReceipt.totalAmount)}</span>
                       </div>
-                      <p className="text-sm text-gray-500">Payment: {paymentMethod}</p>
+                      {saleReceipt.tipAmount > 0 && (
+                        <div className="mb-2 space-y-1 text-sm text-gray-600">
+                          <div className="flex justify-between">
+                            <span>Tip:</span>
+                            <span>{formatPrice(saleReceipt.tipAmount)}</span>
+                          </div>
+                          {saleReceipt.tips?.length > 1 && saleReceipt.tips.map((tip: SaleTip, index: number) => (
+                            <div key={index} className="flex justify-between text-xs text-gray-500 pl-3">
+                              <span>{tip.staffName || getStaffName(tip.staffId)}</span>
+                              <span>{formatPrice(tip.amount)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <div className="space-y-1 text-sm text-gray-500">
+                        {saleReceipt.payments?.map((payment: SalePayment, index: number) => (
+                          <div key={index} className="flex justify-between">
+                            <span>{getPaymentMethodLabel(payment.method)}{payment.reference ? ` (${payment.reference})` : ''}</span>
+                            <span>{formatPrice(payment.tendered ?? payment.amount)}</span>
+                          </div>
+                        ))}
+                        {saleReceipt.payments?.some((payment: SalePayment) => (payment.changeGiven || 0) > 0) && (
+                          <div className="flex justify-between font-medium text-gray-700">
+                            <span>Change</span>
+                            <span>
+                              {formatPrice(saleReceipt.payments.reduce((sum: number, payment: SalePayment) => sum + (payment.changeGiven || 0), 0))}
+                            </span>
+                          </div>
+                        )}
+                      </div>
                     </div>
 
                     {/* Thank you message */}
@@ -1282,17 +2320,53 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                     </div>
                   </div>
 
+                  {/* Receipt Template */}
+                  <div className="grid grid-cols-2 gap-4 max-w-md mx-auto mb-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Paper</label>
+                      <select
+                        value={receiptTemplate.format}
+                        onChange={(e) => setReceiptTemplate(prev => ({ ...prev, format: e.target.value as ReceiptFormat }))}
+                        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="thermal58">Thermal 58mm</option>
+                        <option value="thermal80">Thermal 80mm</option>
+                        <option value="a4">A4</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Language</label>
+                      <select
+                        value={receiptTemplate.language}
+                        onChange={(e) => setReceiptTemplate(prev => ({ ...prev, language: e.target.value as ReceiptLanguage }))}
+                        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="fr">Français</option>
+                        <option value="en">English</option>
+                        <option value="ar">العربية</option>
+                      </select>
+                    </div>
+                  </div>
+
                   {/* Action Buttons */}
                   <div className="flex gap-4 max-w-md mx-auto">
                     <button
-                      onClick={() => window.print()}
+                      onClick={handlePrintReceipt}
                       className="flex-1 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold rounded-xl transition-colors duration-200 border border-gray-200 flex items-center justify-center gap-2"
                     >
-                      <Receipt className="w-4 h-4" />
+                      <Printer className="w-4 h-4" />
                       Print Receipt
                     </button>
                     <button
-                      onClick={handleNewSale}
+                      onClick={handleSendReceipt}
+                      disabled={isSendingReceipt || !saleReceipt.clientPhone}
+                      className="flex-1 py-3 bg-green-50 hover:bg-green-100 text-green-700 font-semibold rounded-xl transition-colors duration-200 border border-green-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Send className="w-4 h-4" />
+                      {isSendingReceipt ? 'Sending...' : 'WhatsApp'}
+                    </button>
+                    <button
+                      onClick={() => handleNewSale()}
                       className="flex-1 py-3 bg-primary-500 hover:bg-primary-600 text-white font-semibold rounded-xl transition-all duration-200 flex items-center justify-center gap-2 shadow-soft hover:shadow-elegant"
                     >
                       <Plus className="w-4 h-4" />
@@ -1337,7 +2411,9 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                   View Reports
                 </motion.button>
                 <motion.button 
-                  className="w-full py-3 px-4 bg-white hover:bg-gray-50 text-gray-700 font-medium rounded-xl transition-all duration-200 flex items-center gap-2 border border-gray-200 hover:border-gray-300 shadow-soft hover:shadow-elegant"
+                  onClick={handleSendReceipt}
+                  disabled={!saleReceipt || isSendingReceipt}
+                  className="w-full py-3 px-4 bg-white hover:bg-gray-50 text-gray-700 font-medium rounded-xl transition-all duration-200 flex items-center gap-2 border border-gray-200 hover:border-gray-300 shadow-soft hover:shadow-elegant disabled:opacity-50 disabled:cursor-not-allowed"
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
                 >
@@ -1380,6 +2456,40 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                       </span>
                     </div>
                   </motion.div>
+
+                  {checkoutBooking && (
+                    <div className="p-4 bg-gradient-to-br from-purple-50 to-purple-100 rounded-xl border border-purple-200">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="text-sm text-purple-600 mb-1 font-medium flex items-center gap-1">
+                            <CalendarCheck className="w-3 h-3" />
+                            Booking checkout
+                          </p>
+                          <p className="text-sm text-gray-800">
+                            {new Date(checkoutBooking.startAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                          </p>
+                          <p className="text-xs text-gray-600">
+                            With {(checkoutBooking.segments?.map(segment => segment.staffId) || [checkoutBooking.staffId])
+                              .filter((staffId, index, staffIds) => staffIds.indexOf(staffId) === index)
+                              .map(staffId => staffMembers.find(member => member.id === staffId)?.name || 'booked staff')
+                              .join(', ')}, who {checkoutBooking.segments ? 'earn' : 'earns'} the commissions
+                          </p>
+                        </div>
+                        {currentStep !== 'receipt' && (
+                          <button
+                            onClick={() => {
+                              setCheckoutBooking(null);
+                              setSelectedServices(prev => prev.map(selectedService => ({ ...selectedService, staffId: undefined })));
+                            }}
+                            className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                            title="Ring up as a walk-in instead"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
                   
                   {selectedServices.length > 0 && (
                     <motion.div 
@@ -1410,16 +2520,16 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                                 {selectedService.quantity > 1 && (
                                   <p className="text-xs text-gray-500">Qty: {selectedService.quantity}</p>
                                 )}
-                                {selectedService.adjustedPrice !== selectedService.originalPrice && (
-                                  <p className="text-xs text-green-600">Price adjusted</p>
+                                {discountCalculation.lines[index].lineDiscount > 0 && (
+                                  <p className="text-xs text-green-600">Discounted</p>
                                 )}
                               </div>
                             </div>
                             <div className="text-right">
                               <p className="text-primary-600 font-bold text-sm">
-                                {formatPrice(selectedService.adjustedPrice * selectedService.quantity)}
+                                {formatPrice(discountCalculation.lines[index].lineTotal)}
                               </p>
-                              {selectedService.adjustedPrice !== selectedService.originalPrice && (
+                              {discountCalculation.lines[index].lineDiscount > 0 && (
                                 <p className="text-xs text-gray-500 line-through">
                                   {formatPrice(selectedService.originalPrice * selectedService.quantity)}
                                 </p>
@@ -1430,6 +2540,31 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                       </div>
                     </motion.div>
                   )}
+
+                  {retailItems.length > 0 && (
+                    <motion.div 
+                      className="p-4 bg-gradient-to-br from-amber-50 to-amber-100 rounded-xl border border-amber-200"
+                      whileHover={{ scale: 1.02 }}
+                    >
+                      <p className="text-sm text-amber-700 mb-2 font-medium flex items-center gap-1">
+                        <ShoppingBag className="w-3 h-3" />
+                        Retail ({retailItems.reduce((sum, item) => sum + item.quantity, 0)})
+                      </p>
+                      <div className="space-y-2">
+                        {retailItems.map(item => (
+                          <div key={item.product.id} className="flex justify-between items-center">
+                            <p className="font-medium text-gray-800 text-sm">
+                              {item.product.name}
+                              {item.quantity > 1 && <span className="ml-1 text-xs text-gray-500">x{item.quantity}</span>}
+                            </p>
+                            <p className="text-primary-600 font-bold text-sm">
+                              {formatPrice(item.product.price * item.quantity)}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </motion.div>
+                  )}
                   
                   <motion.div 
                     className="p-4 bg-gradient-to-br from-primary-50 to-primary-100 rounded-xl border border-primary-200"
@@ -1440,6 +2575,16 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
                       Total Amount
                     </p>
                     <p className="text-3xl font-bold text-primary-600">{formatPrice(calculateTotalAmount())}</p>
+                    {discountCalculation.discountTotal > 0 && (
+                      <p className="text-xs text-green-600 mt-1 font-medium">
+                        Discounts: -{formatPrice(discountCalculation.discountTotal)}
+                      </p>
+                    )}
+                    {tipAmount > 0 && (
+                      <p className="text-xs text-primary-600 mt-1 font-medium">
+                        Tip: +{formatPrice(tipAmount)}
+                      </p>
+                    )}
                     {calculateTotalCommission() > 0 && (
                       <p className="text-xs text-green-600 mt-1 font-medium">
                         Commission: {formatPrice(calculateTotalCommission())}
@@ -1495,47 +2640,91 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
         onSave={handleAddClient}
       />
 
-      {/* Price Adjustment Modal */}
-      {showPriceModal && editingService && (
+      {/* Cash Drawer Modal */}
+      <CashDrawerModal
+        isOpen={showCashDrawerModal}
+        onClose={() => setShowCashDrawerModal(false)}
+        session={cashSession}
+        onSessionChange={setCashSession}
+      />
+
+      {/* Line Discount Modal */}
+      {showPriceModal && editingServiceIndex !== null && selectedServices[editingServiceIndex] && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-xl p-6 w-full max-w-md mx-4">
             <h3 className="text-lg font-semibold text-gray-800 mb-4">
-              Adjust Price for {editingService.service.name}
+              Discount for {selectedServices[editingServiceIndex].service.name}
             </h3>
             
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Original Price
+                  Price
                 </label>
                 <p className="text-lg font-semibold text-gray-600">
-                  {formatPrice(editingService.originalPrice)}
+                  {formatPrice(selectedServices[editingServiceIndex].adjustedPrice)}
                 </p>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Discount Type
+                </label>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setLineDiscountType('percentage')}
+                    className={`flex-1 py-2 rounded-lg border transition-colors ${
+                      lineDiscountType === 'percentage'
+                        ? 'border-primary-500 bg-primary-50 text-primary-600'
+                        : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                    }`}
+                  >
+                    Percentage (%)
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setLineDiscountType('fixed')}
+                    className={`flex-1 py-2 rounded-lg border transition-colors ${
+                      lineDiscountType === 'fixed'
+                        ? 'border-primary-500 bg-primary-50 text-primary-600'
+                        : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                    }`}
+                  >
+                    Fixed (DH)
+                  </button>
+                </div>
+              </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  New Price
+                  Discount Value
                 </label>
                 <input
                   type="number"
                   step="0.01"
                   min="0"
-                  defaultValue={editingService.adjustedPrice}
+                  defaultValue={selectedServices[editingServiceIndex].discount?.value || ''}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                  id="newPrice"
+                  id="discountValue"
                 />
+                {user && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Your role may grant up to {DiscountService.getManualDiscountLimit(user.role)}% off the sale
+                  </p>
+                )}
               </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Reason (Optional)
+                  Reason
                 </label>
                 <input
                   type="text"
                   placeholder="e.g., VIP discount, seasonal promotion"
+                  defaultValue={selectedServices[editingServiceIndex].discount?.reason || ''}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                  id="adjustmentReason"
+                  id="discountReason"
                 />
               </div>
             </div>
@@ -1549,13 +2738,13 @@ const POSInterface: React.FC<POSInterfaceProps> = ({ onSaleComplete }) => {
               </button>
               <button
                 onClick={() => {
-                  const newPrice = parseFloat((document.getElementById('newPrice') as HTMLInputElement)?.value || '0');
-                  const reason = (document.getElementById('adjustmentReason') as HTMLInputElement)?.value || '';
-                  handleSavePriceAdjustment(newPrice, reason);
+                  const value = parseFloat((document.getElementById('discountValue') as HTMLInputElement)?.value || '0') || 0;
+                  const reason = (document.getElementById('discountReason') as HTMLInputElement)?.value || '';
+                  handleSavePriceAdjustment(value, reason);
                 }}
                 className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
               >
-                Save Price
+                Save Discount
               </button>
             </div>
           </div>
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, UploadCloud, RefreshCw, Trash2, WifiOff, X } from 'lucide-react';
+import { useOfflineSync } from '@/contexts/OfflineSyncContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { formatPrice } from '@/utils/currency';
+
+interface PendingSyncIndicatorProps {
+  compact?: boolean; // icon and count only, for headers and collapsed sidebars
+  placement?: 'up' | 'down'; // where the list of queued sales opens
+}
+
+// Shows when the POS is offline or has sales waiting to sync, and lists them
+const PendingSyncIndicator: React.FC<PendingSyncIndicatorProps> = ({ compact = false, placement = 'up' }) => {
+  const { isOnline, isSyncing, queue, pendingCount, rejected, syncNow, retrySale, discardSale } = useOfflineSync();
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (isOnline && queue.length === 0) {
+    return null;
+  }
+
+  const hasRejected = rejected.length > 0;
+  const Icon = !isOnline ? WifiOff : hasRejected ? AlertTriangle : isSyncing ? RefreshCw : UploadCloud;
+  const label = !isOnline
+    ? t('offlineSync.offline')
+    : isSyncing
+      ? t('offlineSync.syncing')
+      : t('offlineSync.pending').replace('{count}', String(pendingCount));
+  const tone = hasRejected
+    ? 'bg-red-50 text-red-700 border-red-200'
+    : !isOnline
+      ? 'bg-amber-50 text-amber-700 border-amber-200'
+      : 'bg-blue-50 text-blue-700 border-blue-200';
+
+  const handleDiscard = async (requestKey: string) => {
+    if (!confirm(t('offlineSync.discardConfirm'))) return;
+    await discardSale(requestKey);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 border rounded-lg text-sm font-medium transition-colors ${tone} ${
+          compact ? 'p-2' : 'w-full px-3 py-2'
+        }`}
+        title={label}
+      >
+        <Icon className={`w-5 h-5 flex-shrink-0 ${isSyncing ? 'animate-spin' : ''}`} />
+        {compact ? (
+          queue.length > 0 && <span className="text-xs font-bold">{queue.length}</span>
+        ) : (
+          <span className="truncate">{label}</span>
+        )}
+      </button>
+
+      {!compact && hasRejected && (
+        <p className="mt-1 text-xs text-red-600">
+          {t('offlineSync.needsAttention').replace('{count}', String(rejected.length))}
+        </p>
+      )}
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 8 }}
+            className={`absolute z-50 w-80 bg-white border border-gray-200 rounded-xl shadow-lg ${
+              placement === 'down' ? 'right-0 top-full mt-2' : 'left-0 bottom-full mb-2'
+            }`}
+          >
+            <div className="flex items-center justify-between p-3 border-b border-gray-200">
+              <h3 className="font-semibold text-gray-900">{t('offlineSync.title')}</h3>
+              <button onClick={() => setIsOpen(false)} className="p-1 rounded-lg hover:bg-gray-100">
+                <X className="w-4 h-4 text-gray-500" />
+              </button>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+              {queue.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500 text-center">{t('offlineSync.empty')}</p>
+              ) : (
+                queue.map(entry => (
+                  <div key={entry.requestKey} className="p-3 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-900">{entry.clientName}</span>
+                      <span className="text-sm font-semibold text-gray-900">{formatPrice(entry.totalAmount)}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-gray-500">{new Date(entry.queuedAt).toLocaleString()}</span>
+                      <span className={entry.status === 'pending' ? 'text-blue-600' : 'text-red-600 font-medium'}>
+                        {entry.status === 'conflict'
+                          ? t('offlineSync.conflict')
+                          : entry.status === 'failed'
+                            ? t('offlineSync.failed')
+                            : t('offlineSync.waiting')}
+                      </span>
+                    </div>
+                    {entry.lastError && entry.status !== 'pending' && (
+                      <p className="text-xs text-red-600">{entry.lastError}</p>
+                    )}
+                    {entry.status !== 'pending' && (
+                      <div className="flex gap-2 pt-1">
+                        <button
+                          onClick={() => retrySale(entry.requestKey)}
+                          disabled={!isOnline || isSyncing}
+                          className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          <RefreshCw className="w-3 h-3" />
+                          {t('offlineSync.retry')}
+                        </button>
+                        <button
+                          onClick={() => handleDiscard(entry.requestKey)}
+                          className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          {t('offlineSync.discard')}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {pendingCount > 0 && (
+              <div className="p-3 border-t border-gray-200">
+                <button
+                  onClick={syncNow}
+                  disabled={!isOnline || isSyncing}
+                  className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                  {isSyncing ? t('offlineSync.syncing') : t('offlineSync.syncNow')}
+                </button>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default PendingSyncIndicator;
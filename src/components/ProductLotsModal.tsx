@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Layers, Save, PackageOpen } from 'lucide-react';
+import { Product, ProductLot } from '@/types';
+import { productLotService } from '@/services/database';
+import { ProductLotService } from '@/services/ProductLotService';
+import { UnitService } from '@/services/UnitService';
+
+interface ProductLotsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: Product | null;
+  onChanged: () => void;
+}
+
+type LotDraft = Pick<ProductLot, 'batchNumber' | 'expiresAt'>;
+
+// Bottles of one product in the order they are used: batch, expiry, opening
+// date and what is left, with the date each is to be used by
+const ProductLotsModal: React.FC<ProductLotsModalProps> = ({ isOpen, onClose, product, onChanged }) => {
+  const [lots, setLots] = useState<ProductLot[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, LotDraft>>({});
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && product) {
+      loadLots(product.id);
+    }
+  }, [isOpen, product]);
+
+  const loadLots = async (productId: string) => {
+    setLoading(true);
+    const data = await productLotService.getAll(productId);
+    setLots(data);
+    setDrafts({});
+    setLoading(false);
+  };
+
+  const updateDraft = (lot: ProductLot, changes: Partial<LotDraft>) => {
+    setDrafts(prev => ({
+      ...prev,
+      [lot.id]: { ...(prev[lot.id] || { batchNumber: lot.batchNumber, expiresAt: lot.expiresAt }), ...changes },
+    }));
+  };
+
+  const handleSave = async (lot: ProductLot) => {
+    if (!product) return;
+
+    setSavingId(lot.id);
+    const saved = await productLotService.update(lot.id, drafts[lot.id]);
+    setSavingId(null);
+    if (saved) {
+      await loadLots(product.id);
+      onChanged();
+    }
+  };
+
+  const handleOpen = async (lot: ProductLot) => {
+    if (!product) return;
+
+    setSavingId(lot.id);
+    const opened = await productLotService.open(lot.id);
+    setSavingId(null);
+    if (opened) {
+      await loadLots(product.id);
+      onChanged();
+    }
+  };
+
+  if (!isOpen || !product) return null;
+
+  const orderedLots = ProductLotService.sortFefo(lots, product.paoMonths);
+  const alerts = ProductLotService.getExpiryAlerts(lots, [product]);
+  const formatDate = (date?: string) => date ? new Date(date).toLocaleDateString() : '—';
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-indigo-50">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <Layers className="w-6 h-6 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Lots — {product.name}</h2>
+                <p className="text-sm text-gray-600">
+                  Used first expired first out
+                  {product.paoMonths ? ` · ${product.paoMonths} months after opening` : ''}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6">
+            {loading ? (
+              <p className="text-sm text-gray-500 text-center py-8">Loading lots...</p>
+            ) : orderedLots.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No bottles in stock</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-3 px-3 text-xs font-medium text-gray-500 uppercase">
+                  <div className="col-span-3">Batch</div>
+                  <div className="col-span-2">Expiry</div>
+                  <div className="col-span-2">Opened</div>
+                  <div className="col-span-1">Left</div>
+                  <div className="col-span-2">Use by</div>
+                  <div className="col-span-2" />
+                </div>
+                {orderedLots.map(lot => {
+                  const draft = drafts[lot.id];
+                  const alert = alerts.find(candidate => candidate.lotId === lot.id);
+                  const useBy = ProductLotService.getUseBy(lot, product.paoMonths);
+
+                  return (
+                    <div key={lot.id} className="grid grid-cols-12 gap-3 items-center p-3 border border-gray-200 rounded-lg">
+                      <div className="col-span-3">
+                        <input
+                          type="text"
+                          value={draft ? draft.batchNumber || '' : lot.batchNumber || ''}
+                          onChange={(e) => updateDraft(lot, { batchNumber: e.target.value })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Batch number"
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <input
+                          type="date"
+                          value={draft ? draft.expiresAt || '' : lot.expiresAt || ''}
+                          onChange={(e) => updateDraft(lot, { expiresAt: e.target.value })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div className="col-span-2 text-sm text-gray-700">
+                        {lot.openedAt ? formatDate(lot.openedAt) : <span className="text-gray-400">Sealed</span>}
+                      </div>
+                      <div className="col-span-1 text-sm text-gray-700">
+                        {lot.remainingMl}/{UnitService.format(lot.capacityMl, product.unit)}
+                      </div>
+                      <div className="col-span-2 text-sm">
+                        <span className="text-gray-700">{formatDate(useBy)}</span>
+                        {alert && (
+                          <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                            alert.expired ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                          }`}>
+                            {alert.expired ? 'Expired' : `${alert.daysLeft}d`}
+                          </span>
+                        )}
+                      </div>
+                      <div className="col-span-2 flex items-center justify-end gap-2">
+                        {draft && (
+                          <button
+                            onClick={() => handleSave(lot)}
+                            disabled={savingId === lot.id}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50 transition-colors"
+                            title="Save lot"
+                          >
+                            <Save className="w-4 h-4" />
+                          </button>
+                        )}
+                        {!lot.openedAt && (
+                          <button
+                            onClick={() => handleOpen(lot)}
+                            disabled={savingId === lot.id}
+                            className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center gap-1"
+                            title="Mark this bottle as opened"
+                          >
+                            <PackageOpen className="w-3 h-3" />
+                            Open
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default ProductLotsModal;
@@ -15,6 +15,8 @@ import {
 } from 'lucide-react';
 import { Product } from '@/types';
 import { productService } from '@/services/database';
+import { TVA_RATES, DEFAULT_TVA_RATE } from '@/services/TaxService';
+import { UnitService, STOCK_UNITS, StockUnit } from '@/services/UnitService';
 import toast from 'react-hot-toast';
 
 interface ProductModalProps {
@@ -32,6 +34,8 @@ interface ProductFormData {
   unit: string;
   price: number;
   cost: number;
+  taxRate: number;
+  priceIncludesTax: boolean;
   totalQuantity: number;
   minThreshold: number;
   imageUrl: string;
@@ -41,6 +45,7 @@ interface ProductFormData {
   openBottleRemainingMl: number;
   bottleSizeMl: number;
   minStockThreshold: number;
+  paoMonths: number; // period after opening; 0 when the product has none
 }
 
 const ProductModal: React.FC<ProductModalProps> = ({
@@ -57,6 +62,8 @@ const ProductModal: React.FC<ProductModalProps> = ({
     unit: 'ml',
     price: 0,
     cost: 0,
+    taxRate: DEFAULT_TVA_RATE,
+    priceIncludesTax: true,
     totalQuantity: 0,
     minThreshold: 10,
     imageUrl: '',
@@ -64,7 +71,8 @@ const ProductModal: React.FC<ProductModalProps> = ({
     sealedBottles: 0,
     openBottleRemainingMl: 0,
     bottleSizeMl: 1000,
-    minStockThreshold: 2
+    minStockThreshold: 2,
+    paoMonths: 0
   });
 
   const [loading, setLoading] = useState(false);
@@ -79,9 +87,11 @@ const ProductModal: React.FC<ProductModalProps> = ({
         brand: product.brand || '',
         category: product.category || '',
         volume: product.volume || 0,
-        unit: product.unit || 'ml',
+        unit: UnitService.getStockUnit(product.unit),
         price: product.price || 0,
         cost: product.cost || 0,
+        taxRate: product.taxRate ?? DEFAULT_TVA_RATE,
+        priceIncludesTax: product.priceIncludesTax ?? true,
         totalQuantity: product.totalQuantity || product.quantity || 0,
         minThreshold: product.minThreshold || product.minQuantity || 10,
         imageUrl: product.imageUrl || '',
@@ -89,7 +99,8 @@ const ProductModal: React.FC<ProductModalProps> = ({
         sealedBottles: product.sealed_bottles || 0,
         openBottleRemainingMl: product.open_bottle_remaining_ml || 0,
         bottleSizeMl: product.bottle_capacity_ml || 1000,
-        minStockThreshold: product.minQuantity || 2
+        minStockThreshold: product.minQuantity || 2,
+        paoMonths: product.paoMonths || 0
       });
     } else {
       // Reset form for new product
@@ -101,6 +112,8 @@ const ProductModal: React.FC<ProductModalProps> = ({
         unit: 'ml',
         price: 0,
         cost: 0,
+        taxRate: DEFAULT_TVA_RATE,
+        priceIncludesTax: true,
         totalQuantity: 0,
         minThreshold: 10,
         imageUrl: '',
@@ -108,7 +121,8 @@ const ProductModal: React.FC<ProductModalProps> = ({
         sealedBottles: 0,
         openBottleRemainingMl: 0,
         bottleSizeMl: 1000,
-        minStockThreshold: 2
+        minStockThreshold: 2,
+        paoMonths: 0
       });
     }
     setErrors({});
@@ -169,6 +183,10 @@ const ProductModal: React.FC<ProductModalProps> = ({
       newErrors.minStockThreshold = 'Minimum stock threshold cannot be negative';
     }
 
+    if (formData.paoMonths < 0) {
+      newErrors.paoMonths = 'Period after opening cannot be negative';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -195,6 +213,8 @@ const ProductModal: React.FC<ProductModalProps> = ({
         unit: formData.unit,
         price: formData.price,
         cost: formData.cost,
+        taxRate: formData.taxRate,
+        priceIncludesTax: formData.priceIncludesTax,
         quantity: formData.totalQuantity,
         totalQuantity: formData.totalQuantity,
         minQuantity: formData.minThreshold,
@@ -205,7 +225,8 @@ const ProductModal: React.FC<ProductModalProps> = ({
         sealed_bottles: formData.sealedBottles,
         open_bottle_remaining_ml: formData.openBottleRemainingMl,
         bottle_capacity_ml: formData.bottleSizeMl,
-        minStockThreshold: formData.minStockThreshold
+        minStockThreshold: formData.minStockThreshold,
+        paoMonths: formData.paoMonths
       };
 
       if (isEditing && product) {
@@ -254,7 +275,11 @@ const ProductModal: React.FC<ProductModalProps> = ({
     'Autres'
   ];
 
-  const units = ['ml', 'g', 'pieces', 'bottles', 'tubes'];
+  const unitLabels: Record<StockUnit, string> = {
+    ml: 'ml (liquids)',
+    g: 'g (creams, wax, powders)',
+    pieces: 'pieces (gloves, foils, strips)'
+  };
 
   if (!isOpen) return null;
 
@@ -375,8 +400,8 @@ const ProductModal: React.FC<ProductModalProps> = ({
                       onChange={(e) => handleInputChange('unit', e.target.value)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     >
-                      {units.map(unit => (
-                        <option key={unit} value={unit}>{unit}</option>
+                      {STOCK_UNITS.map(unit => (
+                        <option key={unit} value={unit}>{unitLabels[unit]}</option>
                       ))}
                     </select>
                   </div>
@@ -461,7 +486,32 @@ const ProductModal: React.FC<ProductModalProps> = ({
 
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Bottle Size (ML)
+                      TVA
+                    </label>
+                    <div className="flex gap-2">
+                      <select
+                        value={formData.taxRate}
+                        onChange={(e) => handleInputChange('taxRate', parseFloat(e.target.value))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        {TVA_RATES.map(rate => (
+                          <option key={rate} value={rate}>{rate}%</option>
+                        ))}
+                      </select>
+                      <select
+                        value={formData.priceIncludesTax ? 'ttc' : 'ht'}
+                        onChange={(e) => handleInputChange('priceIncludesTax', e.target.value === 'ttc')}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="ttc">TTC</option>
+                        <option value="ht">HT</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Bottle Size ({formData.unit})
                     </label>
                     <input
                       type="number"
@@ -536,7 +586,7 @@ const ProductModal: React.FC<ProductModalProps> = ({
 
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Open Bottle Remaining (ML)
+                      Open Bottle Remaining ({formData.unit})
                     </label>
                     <input
                       type="number"
@@ -579,26 +629,50 @@ const ProductModal: React.FC<ProductModalProps> = ({
                   </div>
                 </div>
 
-                <div className="mt-4">
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Min Threshold (General)
-                  </label>
-                  <input
-                    type="number"
-                    value={formData.minThreshold}
-                    onChange={(e) => handleInputChange('minThreshold', parseInt(e.target.value) || 0)}
-                    className={`w-full md:w-1/4 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                      errors.minThreshold ? 'border-red-500' : 'border-gray-300'
-                    }`}
-                    placeholder="10"
-                    min="0"
-                  />
-                  {errors.minThreshold && (
-                    <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
-                      <AlertCircle className="w-4 h-4" />
-                      {errors.minThreshold}
-                    </p>
-                  )}
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Min Threshold (General)
+                    </label>
+                    <input
+                      type="number"
+                      value={formData.minThreshold}
+                      onChange={(e) => handleInputChange('minThreshold', parseInt(e.target.value) || 0)}
+                      className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                        errors.minThreshold ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                      placeholder="10"
+                      min="0"
+                    />
+                    {errors.minThreshold && (
+                      <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                        <AlertCircle className="w-4 h-4" />
+                        {errors.minThreshold}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      PAO (months after opening)
+                    </label>
+                    <input
+                      type="number"
+                      value={formData.paoMonths || ''}
+                      onChange={(e) => handleInputChange('paoMonths', parseInt(e.target.value) || 0)}
+                      className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                        errors.paoMonths ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                      placeholder="e.g. 12"
+                      min="0"
+                    />
+                    {errors.paoMonths && (
+                      <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                        <AlertCircle className="w-4 h-4" />
+                        {errors.paoMonths}
+                      </p>
+                    )}
+                  </div>
                 </div>
               </div>
 
@@ -25,6 +25,7 @@ import {
 import { SimpleBottleConsumptionService, ProductInventoryStatus } from '@/services/SimpleBottleConsumptionService';
 import { serviceService, saleService, productService } from '@/services/database';
 import { useAuth } from '@/contexts/AuthContext';
+import { UnitService, StockUnit } from '@/services/UnitService';
 import toast from 'react-hot-toast';
 
 // Type definitions for the component
@@ -32,6 +33,7 @@ interface ConsumptionLog {
   id: string;
   product_id: string;
   product_name: string;
+  unit: string;
   ml_consumed: number;
   bottles_opened: number;
   consumption_type: string;
@@ -45,6 +47,7 @@ interface StockAlert {
   alert_type: 'low' | 'critical' | 'out_of_stock';
   current_sealed_bottles: number;
   current_open_ml: number;
+  unit: string;
   min_threshold: number;
   created_at: string;
 }
@@ -75,7 +78,7 @@ interface RecentSaleWithUsage {
   serviceName: string;
   amount: number;
   timestamp: string;
-  totalProductUsage: number;
+  productUsage: Partial<Record<StockUnit, number>>; // per unit; ml, g and pieces never add up
 }
 
 const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className = '' }) => {
@@ -118,6 +121,7 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
                    alert.stock_status === 'critical' ? 'critical' : 'low',
         current_sealed_bottles: alert.sealed_bottles,
         current_open_ml: alert.open_bottle_remaining_ml,
+        unit: alert.unit,
         min_threshold: alert.min_threshold,
         created_at: new Date().toISOString()
       }));
@@ -158,7 +162,7 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
             productId: req.product_id,
             productName: req.product_name || 'Unknown Product',
             requiredAmount: req.required_ml,
-            unit: 'ml'
+            unit: req.unit
           }))
         });
       }
@@ -178,7 +182,7 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
       for (const sale of recentSales) {
         // Calculate total product usage for this sale
         const productUsage = await SimpleBottleConsumptionService.getSaleProductUsage(sale.id);
-        const totalUsage = productUsage.reduce((sum, usage) => sum + usage.mlConsumed, 0);
+        const usageByUnit = UnitService.sumByUnit(productUsage.map(usage => ({ quantity: usage.mlConsumed, unit: usage.unit })));
 
         salesWithUsage.push({
           id: sale.id,
@@ -186,7 +190,7 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
           serviceName: sale.serviceName,
           amount: sale.total,
           timestamp: sale.createdAt,
-          totalProductUsage: totalUsage
+          productUsage: usageByUnit
         });
       }
 
@@ -412,11 +416,11 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Open Bottle:</span>
-                        <span className="font-medium">{product.open_bottle_remaining_ml}ml</span>
+                        <span className="font-medium">{UnitService.format(product.open_bottle_remaining_ml, product.unit)}</span>
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Total Available:</span>
-                        <span className="font-medium text-primary-600">{product.total_ml_available}ml</span>
+                        <span className="font-medium text-primary-600">{UnitService.format(product.total_ml_available, product.unit)}</span>
                       </div>
                     </div>
 
@@ -529,7 +533,7 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
                                 <div key={index} className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
                                   <span className="text-sm text-gray-700">{req.productName}</span>
                                   <span className="text-sm font-medium text-gray-900">
-                                    {req.requiredAmount}{req.unit}
+                                    {UnitService.format(req.requiredAmount, req.unit)}
                                   </span>
                                 </div>
                               ))}
@@ -585,7 +589,7 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
                           <div className="text-right">
                             <p className="font-medium text-gray-800">${sale.amount.toFixed(2)}</p>
                             <p className="text-sm text-gray-600">
-                              {sale.totalProductUsage > 0 ? `${sale.totalProductUsage}ml used` : 'No usage tracked'}
+                              {Object.keys(sale.productUsage).length > 0 ? `${UnitService.formatTotals(sale.productUsage)} used` : 'No usage tracked'}
                             </p>
                           </div>
                         </div>
@@ -645,7 +649,7 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
                           </div>
                           <div>
                             <span className="text-gray-600">Open Bottle:</span>
-                            <p className="font-medium">{alert.current_open_ml}ml</p>
+                            <p className="font-medium">{UnitService.format(alert.current_open_ml, alert.unit)}</p>
                           </div>
                           <div>
                             <span className="text-gray-600">Min Threshold:</span>
@@ -695,7 +699,7 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
                           <div className="flex items-center gap-2 mb-1">
                             <span className="font-medium text-gray-800">{log.consumption_type}</span>
                             <span className="text-sm text-gray-600">•</span>
-                            <span className="text-sm text-gray-600">{log.ml_consumed}ml consumed</span>
+                            <span className="text-sm text-gray-600">{UnitService.format(log.ml_consumed, log.unit)} consumed</span>
                             {log.bottles_opened > 0 && (
                               <>
                                 <span className="text-sm text-gray-600">•</span>
@@ -832,15 +836,15 @@ const ProductUsageDashboard: React.FC<ProductUsageDashboardProps> = ({ className
                 </div>
                 <div className="bg-gray-50 rounded-lg p-3">
                   <p className="text-sm text-gray-600">Open Bottle</p>
-                  <p className="text-lg font-semibold">{selectedProduct.open_bottle_remaining_ml}ml</p>
+                  <p className="text-lg font-semibold">{UnitService.format(selectedProduct.open_bottle_remaining_ml, selectedProduct.unit)}</p>
                 </div>
                 <div className="bg-gray-50 rounded-lg p-3">
                   <p className="text-sm text-gray-600">Bottle Size</p>
-                  <p className="text-lg font-semibold">{selectedProduct.bottle_capacity_ml || 1000}ml</p>
+                  <p className="text-lg font-semibold">{UnitService.format(selectedProduct.bottle_capacity_ml || 1000, selectedProduct.unit)}</p>
                 </div>
                 <div className="bg-gray-50 rounded-lg p-3">
                   <p className="text-sm text-gray-600">Total Available</p>
-                  <p className="text-lg font-semibold text-primary-600">{selectedProduct.total_ml_available}ml</p>
+                  <p className="text-lg font-semibold text-primary-600">{UnitService.format(selectedProduct.total_ml_available, selectedProduct.unit)}</p>
                 </div>
               </div>
 
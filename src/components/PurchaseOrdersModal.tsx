@@ -0,0 +1,500 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, ClipboardList, Plus, Save, Send, Trash2, PackageCheck, Edit, AlertCircle } from 'lucide-react';
+import { Product, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from '@/types';
+import { supplierService, purchaseOrderService } from '@/services/database';
+import { PurchaseOrderService, ReceiptLineInput } from '@/services/PurchaseOrderService';
+import { formatPrice } from '@/utils/currency';
+
+interface PurchaseOrdersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  products: Product[];
+  onReceived: () => void; // stock changed
+}
+
+type DraftLine = Pick<PurchaseOrderLine, 'productId' | 'quantityOrdered' | 'unitCost'>;
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+};
+
+export const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-700',
+};
+
+// Purchase orders: drafted, sent to the supplier, then received in one or
+// more deliveries, which restock the products at the invoiced cost
+const PurchaseOrdersModal: React.FC<PurchaseOrdersModalProps> = ({ isOpen, onClose, products, onReceived }) => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [showReceived, setShowReceived] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Draft being written (editingId null for a new one)
+  const [editing, setEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftSupplierId, setDraftSupplierId] = useState('');
+  const [draftNotes, setDraftNotes] = useState('');
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([]);
+
+  // Delivery being received
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+  const [receiptLines, setReceiptLines] = useState<ReceiptLineInput[]>([]);
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadData();
+    }
+  }, [isOpen, showReceived]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [orderData, supplierData] = await Promise.all([
+        purchaseOrderService.getAll(!showReceived),
+        supplierService.getAll(),
+      ]);
+      setOrders(orderData);
+      setSuppliers(supplierData);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const draftSupplier = suppliers.find(supplier => supplier.id === draftSupplierId);
+  const productCost = (productId: string) => products.find(product => product.id === productId)?.cost || 0;
+
+  const startDraft = (order: PurchaseOrder | null) => {
+    setEditing(true);
+    setEditingId(order?.id || null);
+    setDraftSupplierId(order?.supplierId || suppliers[0]?.id || '');
+    setDraftNotes(order?.notes || '');
+    setDraftLines(order
+      ? order.lines.map(({ productId, quantityOrdered, unitCost }) => ({ productId, quantityOrdered, unitCost }))
+      : [{ productId: '', quantityOrdered: 1, unitCost: 0 }]);
+    setErrors([]);
+  };
+
+  const updateDraftLine = (index: number, changes: Partial<DraftLine>) => {
+    setDraftLines(prev => prev.map((line, i) => {
+      if (i !== index) return line;
+      const updated = { ...line, ...changes };
+      // A newly picked product is priced from the supplier's catalogue
+      if (changes.productId !== undefined) {
+        updated.unitCost = PurchaseOrderService.getCatalogueCost(draftSupplier, changes.productId, productCost(changes.productId));
+      }
+      return updated;
+    }));
+  };
+
+  const handleSaveDraft = async () => {
+    const lines = draftLines.filter(line => line.productId && line.quantityOrdered > 0);
+    const draft = { supplierId: draftSupplierId, notes: draftNotes, lines };
+
+    setSaving(true);
+    try {
+      const saved = editingId
+        ? await purchaseOrderService.updateDraft(editingId, draft)
+        : await purchaseOrderService.createDraft(draft);
+      if (saved) {
+        setEditing(false);
+        await loadData();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSend = async (order: PurchaseOrder) => {
+    const supplier = suppliers.find(candidate => candidate.id === order.supplierId);
+    const expectedAt = PurchaseOrderService.getExpectedDate(new Date(), supplier?.leadTimeDays || 0);
+
+    if (await purchaseOrderService.markSent(order.id, expectedAt)) {
+      await loadData();
+    }
+  };
+
+  const handleDelete = async (order: PurchaseOrder) => {
+    if (!confirm(`Delete draft ${order.orderNumber}?`)) return;
+
+    if (await purchaseOrderService.deleteDraft(order.id)) {
+      await loadData();
+    }
+  };
+
+  const startReceiving = (order: PurchaseOrder) => {
+    setReceiving(order);
+    setReceiptLines(order.lines.map(line => ({
+      lineId: line.id,
+      quantity: PurchaseOrderService.getOutstanding(line),
+      unitCost: line.unitCost,
+    })));
+    setInvoiceNumber('');
+    setErrors([]);
+  };
+
+  const handleReceive = async () => {
+    if (!receiving) return;
+
+    const problems = PurchaseOrderService.validateReceipt(receiving, receiptLines);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setSaving(true);
+    try {
+      const status = await purchaseOrderService.receive(receiving.id, { invoiceNumber, lines: receiptLines });
+      if (status) {
+        setReceiving(null);
+        onReceived();
+        await loadData();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderOrder = (order: PurchaseOrder) => (
+    <div key={order.id} className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <h3 className="font-semibold text-gray-900">{order.orderNumber}</h3>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PURCHASE_ORDER_STATUS_COLORS[order.status]}`}>
+              {STATUS_LABELS[order.status]}
+            </span>
+          </div>
+          <p className="text-sm text-gray-600">{order.supplierName}</p>
+          {order.expectedAt && order.status !== 'received' && (
+            <p className="text-xs text-gray-500">Expected {new Date(`${order.expectedAt}T00:00:00`).toLocaleDateString()}</p>
+          )}
+        </div>
+        <div className="text-right">
+          <div className="font-semibold text-gray-900">{formatPrice(PurchaseOrderService.getOrderTotal(order))}</div>
+          {order.lines.some(line => line.receipts.length > 0) && (
+            <div className="text-xs text-gray-500">Invoiced {formatPrice(PurchaseOrderService.getReceivedCost(order))}</div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1 mb-3">
+        {order.lines.map(line => (
+          <div key={line.id} className="flex justify-between text-sm">
+            <span className="text-gray-700">{line.productName}</span>
+            <span className="text-gray-600">
+              {order.status === 'draft' ? line.quantityOrdered : `${line.quantityReceived} / ${line.quantityOrdered}`}
+              {' × '}{formatPrice(line.unitCost)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        {order.status === 'draft' && (
+          <>
+            <button
+              onClick={() => handleDelete(order)}
+              className="px-3 py-1 text-sm text-red-600 bg-red-50 rounded-lg hover:bg-red-100 flex items-center gap-1"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+            <button
+              onClick={() => startDraft(order)}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 flex items-center gap-1"
+            >
+              <Edit className="w-4 h-4" />
+              Edit
+            </button>
+            <button
+              onClick={() => handleSend(order)}
+              className="px-3 py-1 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 flex items-center gap-1"
+            >
+              <Send className="w-4 h-4" />
+              Mark as Sent
+            </button>
+          </>
+        )}
+        {PurchaseOrderService.isOnItsWay(order) && (
+          <button
+            onClick={() => startReceiving(order)}
+            className="px-3 py-1 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 flex items-center gap-1"
+          >
+            <PackageCheck className="w-4 h-4" />
+            Receive
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-green-50 to-emerald-50">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-green-100 rounded-lg">
+                <ClipboardList className="w-6 h-6 text-green-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Purchase Orders</h2>
+                <p className="text-sm text-gray-600">
+                  {receiving ? `Receive ${receiving.orderNumber}` : editing ? (editingId ? 'Edit draft' : 'New purchase order') : 'Orders to suppliers and deliveries'}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6">
+            {errors.length > 0 && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+                {errors.map(error => (
+                  <p key={error} className="text-sm text-red-600 flex items-center gap-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {error}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {receiving ? (
+              /* Delivery: quantities default to what is outstanding, costs to the agreed price */
+              <div className="space-y-4">
+                <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase">
+                  <span className="col-span-4">Product</span>
+                  <span className="col-span-2">Received</span>
+                  <span className="col-span-2">Invoiced cost</span>
+                  <span className="col-span-2">Batch</span>
+                  <span className="col-span-2">Expiry</span>
+                </div>
+                {receiving.lines.map((line, index) => (
+                  <div key={line.id} className="grid grid-cols-12 gap-2 items-center">
+                    <div className="col-span-4 text-sm">
+                      <div className="text-gray-900">{line.productName}</div>
+                      <div className="text-xs text-gray-500">
+                        {PurchaseOrderService.getOutstanding(line)} of {line.quantityOrdered} outstanding
+                      </div>
+                    </div>
+                    <input
+                      type="number"
+                      min="0"
+                      max={PurchaseOrderService.getOutstanding(line)}
+                      value={receiptLines[index]?.quantity ?? 0}
+                      onChange={(e) => setReceiptLines(prev => prev.map((item, i) =>
+                        i === index ? { ...item, quantity: parseInt(e.target.value) || 0 } : item
+                      ))}
+                      disabled={PurchaseOrderService.getOutstanding(line) === 0}
+                      className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={receiptLines[index]?.unitCost ?? 0}
+                      onChange={(e) => setReceiptLines(prev => prev.map((item, i) =>
+                        i === index ? { ...item, unitCost: parseFloat(e.target.value) || 0 } : item
+                      ))}
+                      className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={receiptLines[index]?.batchNumber || ''}
+                      onChange={(e) => setReceiptLines(prev => prev.map((item, i) =>
+                        i === index ? { ...item, batchNumber: e.target.value } : item
+                      ))}
+                      placeholder="Lot"
+                      className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <input
+                      type="date"
+                      value={receiptLines[index]?.expiresAt || ''}
+                      onChange={(e) => setReceiptLines(prev => prev.map((item, i) =>
+                        i === index ? { ...item, expiresAt: e.target.value } : item
+                      ))}
+                      className="col-span-2 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Invoice Number</label>
+                  <input
+                    type="text"
+                    value={invoiceNumber}
+                    onChange={(e) => setInvoiceNumber(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div className="flex justify-end gap-3">
+                  <button
+                    onClick={() => { setReceiving(null); setErrors([]); }}
+                    className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    Back
+                  </button>
+                  <button
+                    onClick={handleReceive}
+                    disabled={saving}
+                    className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    <PackageCheck className="w-4 h-4" />
+                    {saving ? 'Receiving...' : 'Receive and Restock'}
+                  </button>
+                </div>
+              </div>
+            ) : editing ? (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Supplier *</label>
+                  <select
+                    value={draftSupplierId}
+                    onChange={(e) => setDraftSupplierId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">Select a supplier</option>
+                    {suppliers.map(supplier => (
+                      <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  {draftLines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={line.productId}
+                        onChange={(e) => updateDraftLine(index, { productId: e.target.value })}
+                        className="col-span-6 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="">Select a product</option>
+                        {products.map(product => (
+                          <option key={product.id} value={product.id}>{product.brand} {product.name}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="1"
+                        value={line.quantityOrdered}
+                        onChange={(e) => updateDraftLine(index, { quantityOrdered: parseInt(e.target.value) || 0 })}
+                        className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.unitCost}
+                        onChange={(e) => updateDraftLine(index, { unitCost: parseFloat(e.target.value) || 0 })}
+                        className="col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <button
+                        onClick={() => setDraftLines(prev => prev.filter((_, i) => i !== index))}
+                        className="col-span-1 p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setDraftLines(prev => [...prev, { productId: '', quantityOrdered: 1, unitCost: 0 }])}
+                    className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Product
+                  </button>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                  <textarea
+                    value={draftNotes}
+                    onChange={(e) => setDraftNotes(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">
+                    Total {formatPrice(PurchaseOrderService.getOrderTotal({
+                      lines: draftLines.map(line => ({ ...line, id: '', quantityReceived: 0, receipts: [] })),
+                    }))}
+                  </span>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setEditing(false)}
+                      className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Back
+                    </button>
+                    <button
+                      onClick={handleSaveDraft}
+                      disabled={saving || !draftSupplierId}
+                      className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+                    >
+                      <Save className="w-4 h-4" />
+                      {saving ? 'Saving...' : 'Save Draft'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={showReceived}
+                      onChange={(e) => setShowReceived(e.target.checked)}
+                    />
+                    Show received orders
+                  </label>
+                  <button
+                    onClick={() => startDraft(null)}
+                    disabled={suppliers.length === 0}
+                    title={suppliers.length === 0 ? 'Add a supplier first' : undefined}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    <Plus className="w-4 h-4" />
+                    New Order
+                  </button>
+                </div>
+
+                {loading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                  </div>
+                ) : orders.length === 0 ? (
+                  <p className="text-center text-gray-500 py-12">No purchase orders</p>
+                ) : (
+                  orders.map(renderOrder)
+                )}
+              </div>
+            )}
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default PurchaseOrdersModal;
@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, TrendingDown, ClipboardList, Package, RefreshCw } from 'lucide-react';
+import { Product, Supplier } from '@/types';
+import { productService, supplierService, purchaseOrderService, reorderService } from '@/services/database';
+import { PurchaseOrderService } from '@/services/PurchaseOrderService';
+import { ReorderSuggestion } from '@/services/ReorderForecastService';
+import { UnitService } from '@/services/UnitService';
+import { formatPrice } from '@/utils/currency';
+
+interface ReorderSuggestionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  products: Product[];
+  onChanged: () => void; // stock or orders changed
+}
+
+// What the manager decided for one suggestion before acting on it
+interface SuggestionChoice {
+  selected: boolean;
+  bottles: number;
+  supplierId: string;
+}
+
+const coverColor = (daysOfCover: number | null, leadTimeDays: number): string => {
+  if (daysOfCover === null) return 'text-gray-600';
+  if (daysOfCover <= leadTimeDays) return 'text-red-600';
+  if (daysOfCover <= leadTimeDays * 2) return 'text-yellow-700';
+  return 'text-green-700';
+};
+
+// Reorder suggestions from consumption velocity and upcoming bookings;
+// each can be restocked directly or turned into draft purchase orders
+const ReorderSuggestionsModal: React.FC<ReorderSuggestionsModalProps> = ({ isOpen, onClose, products, onChanged }) => {
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [choices, setChoices] = useState<Record<string, SuggestionChoice>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSuggestions();
+    }
+  }, [isOpen]);
+
+  const loadSuggestions = async () => {
+    setLoading(true);
+    try {
+      const [suggestionData, supplierData] = await Promise.all([
+        reorderService.getSuggestions(),
+        supplierService.getAll(),
+      ]);
+      setSuggestions(suggestionData);
+      setSuppliers(supplierData);
+      setChoices(Object.fromEntries(suggestionData.map(suggestion => [suggestion.productId, {
+        selected: true,
+        bottles: suggestion.suggestedBottles,
+        supplierId: suggestion.supplierId || '',
+      }])));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateChoice = (productId: string, changes: Partial<SuggestionChoice>) => {
+    setChoices(prev => ({ ...prev, [productId]: { ...prev[productId], ...changes } }));
+  };
+
+  // Priced from the chosen supplier's catalogue, else the product cost
+  const unitCostFor = (suggestion: ReorderSuggestion): number => {
+    const supplier = suppliers.find(candidate => candidate.id === choices[suggestion.productId]?.supplierId);
+    const productCost = products.find(product => product.id === suggestion.productId)?.cost || 0;
+    return PurchaseOrderService.getCatalogueCost(supplier, suggestion.productId, productCost);
+  };
+
+  const handleRestock = async (suggestion: ReorderSuggestion) => {
+    const choice = choices[suggestion.productId];
+    if (!choice || choice.bottles <= 0) return;
+
+    const costPerBottle = unitCostFor(suggestion);
+    const supplier = suppliers.find(candidate => candidate.id === choice.supplierId);
+
+    setSaving(true);
+    try {
+      const restocked = await productService.restock({
+        productId: suggestion.productId,
+        bottlesToAdd: choice.bottles,
+        costPerBottle,
+        totalCost: costPerBottle * choice.bottles,
+        supplier: supplier?.name,
+        notes: 'Reorder suggestion',
+        restockDate: new Date().toISOString().split('T')[0],
+      });
+      if (restocked) {
+        onChanged();
+        await loadSuggestions();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selected = suggestions.filter(suggestion => {
+    const choice = choices[suggestion.productId];
+    return choice?.selected && choice.bottles > 0;
+  });
+  const withoutSupplier = selected.filter(suggestion => !choices[suggestion.productId].supplierId);
+
+  // One draft purchase order per supplier, ready to review and send
+  const handleCreateOrders = async () => {
+    if (selected.length === 0 || withoutSupplier.length > 0) return;
+
+    const bySupplier = new Map<string, ReorderSuggestion[]>();
+    selected.forEach(suggestion => {
+      const supplierId = choices[suggestion.productId].supplierId;
+      bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), suggestion]);
+    });
+
+    setSaving(true);
+    try {
+      for (const [supplierId, items] of bySupplier) {
+        await purchaseOrderService.createDraft({
+          supplierId,
+          notes: 'Created from reorder suggestions',
+          lines: items.map(suggestion => ({
+            productId: suggestion.productId,
+            quantityOrdered: choices[suggestion.productId].bottles,
+            unitCost: unitCostFor(suggestion),
+          })),
+        });
+      }
+      onChanged();
+      await loadSuggestions();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-orange-50 to-amber-50">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-orange-100 rounded-lg">
+                <TrendingDown className="w-6 h-6 text-orange-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Reorder Suggestions</h2>
+                <p className="text-sm text-gray-600">From the last 30 days of use and upcoming bookings</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={loadSuggestions}
+                disabled={loading}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`w-5 h-5 text-gray-500 ${loading ? 'animate-spin' : ''}`} />
+              </button>
+              <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6">
+            {loading ? (
+              <div className="text-center py-12 text-gray-500">Forecasting...</div>
+            ) : suggestions.length === 0 ? (
+              <div className="text-center py-12">
+                <Package className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-600">Nothing to reorder: stock covers the forecast</p>
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase border-b border-gray-200">
+                    <th className="py-2 pr-2"></th>
+                    <th className="py-2 pr-4">Product</th>
+                    <th className="py-2 pr-4">Cover</th>
+                    <th className="py-2 pr-4">Per Day</th>
+                    <th className="py-2 pr-4">Booked</th>
+                    <th className="py-2 pr-4">On Order</th>
+                    <th className="py-2 pr-4">Order By</th>
+                    <th className="py-2 pr-4">Supplier</th>
+                    <th className="py-2 pr-4">Bottles</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {suggestions.map(suggestion => {
+                    const choice = choices[suggestion.productId];
+                    if (!choice) return null;
+                    const unit = products.find(product => product.id === suggestion.productId)?.unit;
+
+                    return (
+                      <tr key={suggestion.productId} className="border-b border-gray-100">
+                        <td className="py-3 pr-2">
+                          <input
+                            type="checkbox"
+                            checked={choice.selected}
+                            onChange={(e) => updateChoice(suggestion.productId, { selected: e.target.checked })}
+                            className="rounded border-gray-300"
+                          />
+                        </td>
+                        <td className="py-3 pr-4">
+                          <div className="font-medium text-gray-900">{suggestion.productName}</div>
+                          <div className="text-xs text-gray-500">{suggestion.brand} · {UnitService.format(Math.round(suggestion.availableMl), unit)} left</div>
+                        </td>
+                        <td className={`py-3 pr-4 font-medium ${coverColor(suggestion.daysOfCover, suggestion.leadTimeDays)}`}>
+                          {suggestion.daysOfCover === null ? '-' : `${suggestion.daysOfCover} days`}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">{UnitService.format(suggestion.dailyUsageMl, unit)}</td>
+                        <td className="py-3 pr-4 text-gray-700">{suggestion.bookedMl > 0 ? UnitService.format(suggestion.bookedMl, unit) : '-'}</td>
+                        <td className="py-3 pr-4 text-gray-700">{suggestion.onOrderBottles || '-'}</td>
+                        <td className="py-3 pr-4 text-gray-700">
+                          {suggestion.reorderBy ? new Date(`${suggestion.reorderBy}T00:00:00`).toLocaleDateString() : '-'}
+                          <div className="text-xs text-gray-500">{suggestion.leadTimeDays} days lead time</div>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <select
+                            value={choice.supplierId}
+                            onChange={(e) => updateChoice(suggestion.productId, { supplierId: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                          >
+                            <option value="">No supplier</option>
+                            {suppliers.map(supplier => (
+                              <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                            ))}
+                          </select>
+                          <div className="text-xs text-gray-500 mt-1">{formatPrice(unitCostFor(suggestion))} per bottle</div>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <input
+                            type="number"
+                            min="1"
+                            value={choice.bottles}
+                            onChange={(e) => updateChoice(suggestion.productId, { bottles: parseInt(e.target.value) || 0 })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                          />
+                        </td>
+                        <td className="py-3 text-right">
+                          <button
+                            onClick={() => handleRestock(suggestion)}
+                            disabled={saving || choice.bottles <= 0}
+                            className="px-3 py-1 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-1"
+                          >
+                            <Package className="w-4 h-4" />
+                            Restock
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {suggestions.length > 0 && (
+            <div className="flex items-center justify-between p-6 border-t border-gray-200 bg-gray-50">
+              <span className="text-sm text-gray-600">
+                {withoutSupplier.length > 0
+                  ? `Choose a supplier for ${withoutSupplier.map(suggestion => suggestion.productName).join(', ')}`
+                  : `${selected.length} selected · ${formatPrice(selected.reduce(
+                    (total, suggestion) => total + unitCostFor(suggestion) * choices[suggestion.productId].bottles, 0
+                  ))}`}
+              </span>
+              <button
+                onClick={handleCreateOrders}
+                disabled={saving || selected.length === 0 || withoutSupplier.length > 0}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                <ClipboardList className="w-4 h-4" />
+                {saving ? 'Saving...' : 'Create Purchase Orders'}
+              </button>
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default ReorderSuggestionsModal;
@@ -12,6 +12,8 @@ import {
   Hash
 } from 'lucide-react';
 import { Product } from '@/types';
+import { supplierService } from '@/services/database';
+import { UnitService } from '@/services/UnitService';
 import toast from 'react-hot-toast';
 
 interface RestockModalProps {
@@ -30,6 +32,8 @@ export interface RestockData {
   invoiceNumber?: string;
   notes?: string;
   restockDate: string;
+  batchNumber?: string;
+  expiresAt?: string; // YYYY-MM-DD
 }
 
 const RestockModal: React.FC<RestockModalProps> = ({
@@ -46,11 +50,14 @@ const RestockModal: React.FC<RestockModalProps> = ({
     supplier: '',
     invoiceNumber: '',
     notes: '',
-    restockDate: new Date().toISOString().split('T')[0]
+    restockDate: new Date().toISOString().split('T')[0],
+    batchNumber: '',
+    expiresAt: ''
   });
 
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [supplierNames, setSupplierNames] = useState<string[]>([]);
 
   useEffect(() => {
     if (product && isOpen) {
@@ -62,9 +69,13 @@ const RestockModal: React.FC<RestockModalProps> = ({
         supplier: '',
         invoiceNumber: '',
         notes: '',
-        restockDate: new Date().toISOString().split('T')[0]
+        restockDate: new Date().toISOString().split('T')[0],
+        batchNumber: '',
+        expiresAt: ''
       });
       setErrors({});
+      // Suggest suppliers from the directory; any name can still be typed
+      supplierService.getAll().then(suppliers => setSupplierNames(suppliers.map(supplier => supplier.name)));
     }
   }, [product, isOpen]);
 
@@ -87,6 +98,10 @@ const RestockModal: React.FC<RestockModalProps> = ({
       newErrors.restockDate = 'Restock date is required';
     }
 
+    if (formData.expiresAt && formData.expiresAt < formData.restockDate) {
+      newErrors.expiresAt = 'Expiry date cannot be before the restock date';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -189,8 +204,8 @@ const RestockModal: React.FC<RestockModalProps> = ({
                 <div className="text-sm text-gray-600">After Restock</div>
               </div>
               <div className="text-center">
-                <div className="text-2xl font-bold text-purple-600">{Math.round(totalMlAfterRestock)}</div>
-                <div className="text-sm text-gray-600">Total ml Available</div>
+                <div className="text-2xl font-bold text-purple-600">{UnitService.format(Math.round(totalMlAfterRestock), product.unit)}</div>
+                <div className="text-sm text-gray-600">Total Available</div>
               </div>
             </div>
           </div>
@@ -311,9 +326,15 @@ const RestockModal: React.FC<RestockModalProps> = ({
                         type="text"
                         value={formData.supplier || ''}
                         onChange={(e) => handleInputChange('supplier', e.target.value)}
+                        list="restock-suppliers"
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                         placeholder="Enter supplier name"
                       />
+                      <datalist id="restock-suppliers">
+                        {supplierNames.map(name => (
+                          <option key={name} value={name} />
+                        ))}
+                      </datalist>
                     </div>
 
                     <div>
@@ -330,6 +351,41 @@ const RestockModal: React.FC<RestockModalProps> = ({
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Batch Number
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.batchNumber || ''}
+                        onChange={(e) => handleInputChange('batchNumber', e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        placeholder="Printed on the bottles"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Expiry Date
+                      </label>
+                      <input
+                        type="date"
+                        value={formData.expiresAt || ''}
+                        onChange={(e) => handleInputChange('expiresAt', e.target.value)}
+                        className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent ${
+                          errors.expiresAt ? 'border-red-500' : 'border-gray-300'
+                        }`}
+                      />
+                      {errors.expiresAt && (
+                        <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                          <AlertCircle className="w-4 h-4" />
+                          {errors.expiresAt}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Notes
@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  RotateCcw,
+  AlertCircle,
+  Ban
+} from 'lucide-react';
+import { Sale } from '@/types';
+import { saleService, refundService } from '@/services/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatPrice } from '@/utils/currency';
+
+interface SaleRefundModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sale: Sale | null;
+  onRefunded: () => void;
+}
+
+type ServiceLine = Awaited<ReturnType<typeof saleService.getServiceItems>>[number];
+
+const SaleRefundModal: React.FC<SaleRefundModalProps> = ({
+  isOpen,
+  onClose,
+  sale,
+  onRefunded
+}) => {
+  const { user } = useAuth();
+  const [mode, setMode] = useState<'refund' | 'void'>('refund');
+  const [lines, setLines] = useState<ServiceLine[]>([]);
+  const [selectedLineIds, setSelectedLineIds] = useState<string[]>([]);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (sale && isOpen) {
+      setMode('refund');
+      setReason('');
+      setErrors({});
+      saleService.getServiceItems(sale.id).then(items => {
+        setLines(items);
+        setSelectedLineIds(items.filter(item => !item.refundId).map(item => item.id));
+      });
+    }
+  }, [sale, isOpen]);
+
+  const openLines = lines.filter(line => !line.refundId);
+  const selectedLines = openLines.filter(line => selectedLineIds.includes(line.id));
+  const isFullRefund = mode === 'void' || selectedLines.length === openLines.length;
+  const refundAmount = sale && isFullRefund
+    ? Math.max(0, sale.totalAmount - (sale.refundedAmount || 0))
+    : selectedLines.reduce((sum, line) => sum + line.paidAmount, 0);
+
+  const toggleLine = (lineId: string) => {
+    setSelectedLineIds(prev =>
+      prev.includes(lineId) ? prev.filter(id => id !== lineId) : [...prev, lineId]
+    );
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!reason.trim()) {
+      newErrors.reason = 'A reason is required';
+    }
+
+    if (mode === 'refund' && selectedLines.length === 0) {
+      newErrors.lines = 'Select at least one service line to refund';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!sale || !user || !validateForm()) {
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const refund = await refundService.refundSale({
+        saleId: sale.id,
+        mode,
+        serviceItemIds: mode === 'refund' ? selectedLines.map(line => line.id) : undefined,
+        reason,
+      });
+
+      if (refund) {
+        onRefunded();
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error refunding sale:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen || !sale) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-white rounded-xl shadow-2xl w-full max-w-xl max-h-[90vh] overflow-hidden"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-red-50 to-orange-50">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-red-100 rounded-lg">
+                <RotateCcw className="w-6 h-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  Refund or Void Sale
+                </h2>
+                <p className="text-sm text-gray-600">
+                  Stock and commissions are reversed automatically
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="overflow-y-auto max-h-[calc(90vh-160px)]">
+            <div className="p-6 space-y-6">
+              {/* Mode */}
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  type="button"
+                  onClick={() => setMode('refund')}
+                  className={`p-3 rounded-lg border flex items-center justify-center gap-2 transition-colors ${
+                    mode === 'refund' ? 'border-red-500 bg-red-50 text-red-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Refund
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMode('void')}
+                  className={`p-3 rounded-lg border flex items-center justify-center gap-2 transition-colors ${
+                    mode === 'void' ? 'border-red-500 bg-red-50 text-red-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <Ban className="w-4 h-4" />
+                  Void entire sale
+                </button>
+              </div>
+
+              {/* Service lines */}
+              <div className="bg-gray-50 rounded-lg p-4">
+                <h3 className="text-sm font-semibold text-gray-900 mb-3">Service lines</h3>
+                <div className="space-y-2">
+                  {lines.map(line => (
+                    <label
+                      key={line.id}
+                      className={`flex items-center justify-between p-2 rounded-lg bg-white border border-gray-200 ${
+                        line.refundId ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <span className="flex items-center gap-2 text-sm text-gray-800">
+                        <input
+                          type="checkbox"
+                          disabled={Boolean(line.refundId) || mode === 'void'}
+                          checked={!line.refundId && (mode === 'void' || selectedLineIds.includes(line.id))}
+                          onChange={() => toggleLine(line.id)}
+                        />
+                        {line.serviceName}
+                        {line.refundId && <span className="text-xs text-red-600">(refunded)</span>}
+                      </span>
+                      <span className="text-sm font-medium">{formatPrice(line.paidAmount)}</span>
+                    </label>
+                  ))}
+                </div>
+                {errors.lines && (
+                  <p className="text-red-500 text-sm mt-2 flex items-center gap-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {errors.lines}
+                  </p>
+                )}
+              </div>
+
+              {/* Reason */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reason *
+                </label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent ${
+                    errors.reason ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="Why is this sale being refunded?"
+                />
+                {errors.reason && (
+                  <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {errors.reason}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-between items-center text-lg font-bold">
+                <span className="text-gray-800">Amount to refund:</span>
+                <span className="text-red-600">{formatPrice(refundAmount)}</span>
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+              >
+                {loading ? (
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4" />
+                )}
+                {loading ? 'Processing...' : mode === 'void' ? 'Void Sale' : 'Confirm Refund'}
+              </button>
+            </div>
+          </form>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default SaleRefundModal;
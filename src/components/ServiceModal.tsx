@@ -19,6 +19,8 @@ import { useLanguage } from '@/contexts/LanguageContext';
 import { productService, staffService } from '@/services/database';
 import { formatPrice } from '@/utils/currency';
 import { getIconByName, getDefaultIconForService } from '@/utils/iconMapping';
+import { TVA_RATES, DEFAULT_TVA_RATE } from '@/services/TaxService';
+import { UnitService, EntryUnit } from '@/services/UnitService';
 import IconSelector from '@/components/IconSelector';
 import toast from 'react-hot-toast';
 
@@ -41,6 +43,7 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
 }) => {
   const { t, language } = useLanguage();
   const [products, setProducts] = useState<Product[]>([]);
+  const [entryUnits, setEntryUnits] = useState<Record<string, EntryUnit>>({});
   const [isLoadingProducts, setIsLoadingProducts] = useState(false);
   const [staff, setStaff] = useState<User[]>([]);
   const [isLoadingStaff, setIsLoadingStaff] = useState(false);
@@ -53,8 +56,11 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
     description: '',
     price: '',
     duration: '',
+    bufferMinutes: '0',
     category: '',
     commissionPercent: '',
+    taxRate: String(DEFAULT_TVA_RATE),
+    priceIncludesTax: true,
     isActive: true,
     requiredProducts: [] as ServiceProduct[],
     assignedStaff: [] as string[],
@@ -127,8 +133,11 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
         description: service.description || '',
         price: service.price.toString(),
         duration: service.duration.toString(),
+        bufferMinutes: String(service.bufferMinutes ?? 0),
         category: service.category || '',
         commissionPercent: service.commissionPercent?.toString() || '0',
+        taxRate: String(service.taxRate ?? DEFAULT_TVA_RATE),
+        priceIncludesTax: service.priceIncludesTax ?? true,
         isActive: service.isActive,
         requiredProducts: service.requiredProducts || [],
         assignedStaff: service.assignedStaff || [],
@@ -143,14 +152,18 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
         description: '',
         price: '',
         duration: '',
+        bufferMinutes: '0',
         category: '',
         commissionPercent: '0',
+        taxRate: String(DEFAULT_TVA_RATE),
+        priceIncludesTax: true,
         isActive: true,
         requiredProducts: [],
         assignedStaff: [],
       });
     }
     setErrors({});
+    setEntryUnits({});
   }, [service, isOpen]);
 
   const validateForm = (): boolean => {
@@ -168,6 +181,11 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
       newErrors.duration = 'Valid duration is required';
     }
 
+    const buffer = parseInt(formData.bufferMinutes || '0');
+    if (isNaN(buffer) || buffer < 0) {
+      newErrors.bufferMinutes = 'Buffer cannot be negative';
+    }
+
     if (!formData.category) {
       newErrors.category = t('services.serviceCategory') + ' is required';
     }
@@ -197,10 +215,13 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
         description: formData.description.trim() || undefined,
         price: parseFloat(formData.price),
         duration: parseInt(formData.duration),
+        bufferMinutes: parseInt(formData.bufferMinutes || '0'),
         category: formData.category,
         commissionPercent: parseFloat(formData.commissionPercent),
+        taxRate: parseFloat(formData.taxRate),
+        priceIncludesTax: formData.priceIncludesTax,
         isActive: formData.isActive,
-        requiredProducts: formData.requiredProducts,
+        requiredProducts: formData.requiredProducts.map(product => ({ ...product, unit: getStockUnit(product.productId) })),
         assignedStaff: formData.assignedStaff,
       };
 
@@ -238,6 +259,33 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
     }));
   };
 
+  // Required quantities are kept in the product's unit; l and kg are converted
+  const getStockUnit = (productId: string) =>
+    UnitService.getStockUnit(products.find(p => p.id === productId)?.unit);
+
+  const getEntryUnit = (requirement: ServiceProduct): EntryUnit => {
+    const entryUnit = entryUnits[requirement.productId];
+    return UnitService.getEntryUnits(getStockUnit(requirement.productId)).includes(entryUnit)
+      ? entryUnit
+      : getStockUnit(requirement.productId);
+  };
+
+  const handleRequirementProductChange = (index: number, productId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      requiredProducts: prev.requiredProducts.map((product, i) =>
+        i === index ? { ...product, productId, unit: getStockUnit(productId) } : product
+      ),
+    }));
+  };
+
+  const handleRequirementQuantityChange = (index: number, quantity: number) => {
+    const requirement = formData.requiredProducts[index];
+    const stockUnit = getStockUnit(requirement.productId);
+    const converted = UnitService.convert(quantity, getEntryUnit(requirement), stockUnit) ?? quantity;
+    handleProductChange(index, 'requiredMl', UnitService.normalizeQuantity(converted, stockUnit));
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -355,7 +403,7 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
               </div>
 
               {/* Price and Duration */}
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <DollarSign className="w-4 h-4 inline mr-2" />
@@ -399,6 +447,28 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
                   )}
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Clock className="w-4 h-4 inline mr-2" />
+                    Buffer after service (min)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="5"
+                    value={formData.bufferMinutes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, bufferMinutes: e.target.value }))}
+                    className={`input-field ${errors.bufferMinutes ? 'border-red-500' : ''}`}
+                    placeholder="0"
+                  />
+                  {errors.bufferMinutes && (
+                    <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                      <AlertCircle className="w-4 h-4" />
+                      {errors.bufferMinutes}
+                    </p>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <Percent className="w-4 h-4 inline mr-2" />
@@ -421,6 +491,32 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
                     </p>
                   )}
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Percent className="w-4 h-4 inline mr-2" />
+                    TVA
+                  </label>
+                  <div className="flex gap-2">
+                    <select
+                      value={formData.taxRate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, taxRate: e.target.value }))}
+                      className="input-field"
+                    >
+                      {TVA_RATES.map(rate => (
+                        <option key={rate} value={rate}>{rate}%</option>
+                      ))}
+                    </select>
+                    <select
+                      value={formData.priceIncludesTax ? 'ttc' : 'ht'}
+                      onChange={(e) => setFormData(prev => ({ ...prev, priceIncludesTax: e.target.value === 'ttc' }))}
+                      className="input-field"
+                    >
+                      <option value="ttc">Price includes TVA (TTC)</option>
+                      <option value="ht">TVA added on top (HT)</option>
+                    </select>
+                  </div>
+                </div>
               </div>
 
               {/* Description */}
@@ -491,7 +587,7 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
                     <div key={index} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
                       <select
                         value={product.productId}
-                        onChange={(e) => handleProductChange(index, 'productId', e.target.value)}
+                        onChange={(e) => handleRequirementProductChange(index, e.target.value)}
                         className="input-field flex-1"
                         disabled={isLoadingProducts}
                       >
@@ -505,15 +601,23 @@ const ServiceModal: React.FC<ServiceModalProps> = ({
 
                       <input
                         type="number"
-                        step="1"
+                        step={getEntryUnit(product) === 'pieces' ? '1' : 'any'}
                         min="0"
-                        value={product.requiredMl || 0}
-                        onChange={(e) => handleProductChange(index, 'requiredMl', parseFloat(e.target.value) || 0)}
+                        value={UnitService.convert(product.requiredMl || 0, getStockUnit(product.productId), getEntryUnit(product)) ?? 0}
+                        onChange={(e) => handleRequirementQuantityChange(index, parseFloat(e.target.value) || 0)}
                         className="input-field w-24"
-                        placeholder="ml"
+                        placeholder={getEntryUnit(product)}
                       />
 
-                      <span className="text-sm text-gray-500 px-2">ml</span>
+                      <select
+                        value={getEntryUnit(product)}
+                        onChange={(e) => setEntryUnits(prev => ({ ...prev, [product.productId]: e.target.value as EntryUnit }))}
+                        className="input-field w-24"
+                      >
+                        {UnitService.getEntryUnits(getStockUnit(product.productId)).map(unit => (
+                          <option key={unit} value={unit}>{unit}</option>
+                        ))}
+                      </select>
 
                       <label className="flex items-center gap-2">
                         <input
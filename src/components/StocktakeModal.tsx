@@ -0,0 +1,513 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, ClipboardCheck, Plus, Minus, Search, Check, AlertCircle, TrendingDown, ArrowLeft } from 'lucide-react';
+import { Product, Stocktake, StocktakeCount } from '@/types';
+import { stocktakeService } from '@/services/database';
+import { StocktakeService, VarianceGrouping } from '@/services/StocktakeService';
+import { UnitService, StockUnit } from '@/services/UnitService';
+import { formatPrice } from '@/utils/currency';
+
+interface StocktakeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  products: Product[];
+  onPosted: () => void; // stock changed
+}
+
+type View = 'sessions' | 'count' | 'review' | 'history';
+
+interface CountDraft {
+  countedSealed: number;
+  countedOpenMl: number;
+  reason: string;
+}
+
+const varianceColor = (value: number): string =>
+  value < 0 ? 'text-red-600' : value > 0 ? 'text-green-700' : 'text-gray-500';
+
+const formatVariance = (quantity: number, unit?: string): string =>
+  `${quantity > 0 ? '+' : ''}${UnitService.format(Math.round(quantity), unit)}`;
+
+// Variances of products in ml, g and pieces are shown side by side, never added
+const formatVarianceTotals = (totals: Partial<Record<StockUnit, number>>): string =>
+  (Object.keys(totals) as StockUnit[]).map(unit => formatVariance(totals[unit] || 0, unit)).join(' · ') || formatVariance(0);
+
+// Physical stock counts: count on the shelf, review the variances, then post
+// them as adjustments. Expected stock is hidden while counting so the count
+// is not led by it.
+const StocktakeModal: React.FC<StocktakeModalProps> = ({ isOpen, onClose, products, onPosted }) => {
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [current, setCurrent] = useState<Stocktake | null>(null);
+  const [view, setView] = useState<View>('sessions');
+  const [drafts, setDrafts] = useState<Record<string, CountDraft>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [grouping, setGrouping] = useState<VarianceGrouping>('product');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setView('sessions');
+      setCurrent(null);
+      loadStocktakes();
+    }
+  }, [isOpen]);
+
+  const loadStocktakes = async () => {
+    setLoading(true);
+    try {
+      setStocktakes(await stocktakeService.getAll());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openStocktake = (stocktake: Stocktake) => {
+    setCurrent(stocktake);
+    setDrafts(Object.fromEntries(stocktake.counts.map(count => [count.productId, {
+      countedSealed: count.countedSealed,
+      countedOpenMl: count.countedOpenMl,
+      reason: count.reason || '',
+    }])));
+    setErrors([]);
+    setView(stocktake.status === 'counting' ? 'count' : 'review');
+  };
+
+  const handleStart = async () => {
+    const stocktake = await stocktakeService.start();
+    if (stocktake) {
+      await loadStocktakes();
+      openStocktake(stocktake);
+    }
+  };
+
+  const countFor = (productId: string): StocktakeCount | undefined =>
+    current?.counts.find(count => count.productId === productId);
+
+  const emptyDraft: CountDraft = { countedSealed: 0, countedOpenMl: 0, reason: '' };
+
+  const draftFor = (product: Product): CountDraft => drafts[product.id] || emptyDraft;
+
+  const updateDraft = (productId: string, changes: Partial<CountDraft>) => {
+    setDrafts(prev => ({ ...prev, [productId]: { ...(prev[productId] || emptyDraft), ...changes } }));
+  };
+
+  const handleSaveCount = async (product: Product) => {
+    if (!current) return;
+
+    const draft = draftFor(product);
+    const problems = StocktakeService.validateCount(draft.countedSealed, draft.countedOpenMl);
+    setErrors(problems.map(problem => `${product.name}: ${problem}`));
+    if (problems.length > 0) return;
+
+    setSaving(true);
+    try {
+      const saved = await stocktakeService.saveCount(current.id, { productId: product.id, ...draft });
+      if (saved) {
+        setCurrent({
+          ...current,
+          counts: [...current.counts.filter(count => count.productId !== product.id), saved],
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!current || !confirm(`Post ${current.stocktakeNumber}? Stock will be adjusted to the counts.`)) return;
+
+    setSaving(true);
+    try {
+      if (await stocktakeService.post(current.id)) {
+        onPosted();
+        await loadStocktakes();
+        setCurrent(null);
+        setView('sessions');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!current || !confirm(`Cancel ${current.stocktakeNumber}? Nothing will be adjusted.`)) return;
+
+    if (await stocktakeService.cancel(current.id)) {
+      await loadStocktakes();
+      setCurrent(null);
+      setView('sessions');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const openSession = stocktakes.find(stocktake => stocktake.status === 'counting');
+  const countableProducts = products
+    .filter(product => product.isActive)
+    .filter(product => `${product.brand} ${product.name} ${product.category}`.toLowerCase().includes(searchTerm.toLowerCase()));
+  const totals = current ? StocktakeService.getTotals(current.counts) : null;
+  const varianceByUnit = UnitService.sumByUnit((current?.counts || [])
+    .map(count => ({ quantity: StocktakeService.getVariance(count).ml, unit: count.unit }))
+    .filter(variance => variance.quantity !== 0));
+  const trends = StocktakeService.getTrends(stocktakes, grouping);
+  const trendColumns = stocktakes
+    .filter(stocktake => stocktake.status === 'posted' && stocktake.postedAt)
+    .sort((a, b) => new Date(a.postedAt!).getTime() - new Date(b.postedAt!).getTime())
+    .slice(-6);
+
+  const subtitle = current
+    ? `${current.stocktakeNumber} · ${view === 'count' ? `${current.counts.length} of ${products.filter(product => product.isActive).length} counted` : 'Variances'}`
+    : view === 'history' ? 'Variance history' : 'Count stock and reconcile';
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-indigo-50">
+            <div className="flex items-center gap-3">
+              {view !== 'sessions' && (
+                <button
+                  onClick={() => { setView('sessions'); setCurrent(null); setErrors([]); loadStocktakes(); }}
+                  className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gray-500" />
+                </button>
+              )}
+              <div className="p-2 bg-purple-100 rounded-lg">
+                <ClipboardCheck className="w-6 h-6 text-purple-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Stocktake</h2>
+                <p className="text-sm text-gray-600">{subtitle}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6">
+            {errors.length > 0 && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+                {errors.map(error => (
+                  <p key={error} className="text-sm text-red-600 flex items-center gap-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {error}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {view === 'sessions' && (
+              <div className="space-y-4">
+                <div className="flex gap-3">
+                  {openSession ? (
+                    <button
+                      onClick={() => openStocktake(openSession)}
+                      className="flex-1 px-4 py-4 bg-purple-600 text-white rounded-lg hover:bg-purple-700 text-lg font-medium"
+                    >
+                      Continue {openSession.stocktakeNumber}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleStart}
+                      className="flex-1 px-4 py-4 bg-purple-600 text-white rounded-lg hover:bg-purple-700 text-lg font-medium flex items-center justify-center gap-2"
+                    >
+                      <Plus className="w-5 h-5" />
+                      Start Count
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setView('history')}
+                    className="px-4 py-4 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+                  >
+                    <TrendingDown className="w-5 h-5" />
+                    Variance History
+                  </button>
+                </div>
+
+                {loading ? (
+                  <p className="text-center text-gray-500 py-8">Loading...</p>
+                ) : stocktakes.filter(stocktake => stocktake.status !== 'counting').map(stocktake => {
+                  const stocktakeTotals = StocktakeService.getTotals(stocktake.counts);
+                  return (
+                    <button
+                      key={stocktake.id}
+                      onClick={() => openStocktake(stocktake)}
+                      className="w-full text-left border border-gray-200 rounded-lg p-4 hover:bg-gray-50 flex items-center justify-between"
+                    >
+                      <div>
+                        <div className="font-semibold text-gray-900">{stocktake.stocktakeNumber}</div>
+                        <div className="text-sm text-gray-500">
+                          {stocktake.status === 'posted'
+                            ? `Posted ${new Date(stocktake.postedAt!).toLocaleDateString()} · ${stocktake.counts.length} counted`
+                            : 'Cancelled'}
+                        </div>
+                      </div>
+                      {stocktake.status === 'posted' && (
+                        <div className={`font-semibold ${varianceColor(stocktakeTotals.cost)}`}>
+                          {formatPrice(stocktakeTotals.cost)}
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {view === 'count' && current && (
+              <div className="space-y-3">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                  <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Search products..."
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg text-lg"
+                  />
+                </div>
+
+                {countableProducts.map(product => {
+                  const draft = draftFor(product);
+                  const saved = countFor(product.id);
+                  const changed = !saved || saved.countedSealed !== draft.countedSealed ||
+                    saved.countedOpenMl !== draft.countedOpenMl || (saved.reason || '') !== draft.reason;
+
+                  return (
+                    <div key={product.id} className={`border rounded-lg p-4 ${saved && !changed ? 'border-green-300 bg-green-50' : 'border-gray-200'}`}>
+                      <div className="flex items-center justify-between mb-3">
+                        <div>
+                          <div className="font-medium text-gray-900">{product.name}</div>
+                          <div className="text-sm text-gray-500">{product.brand} · {product.category} · {UnitService.format(product.bottle_capacity_ml, product.unit)} bottles</div>
+                        </div>
+                        {saved && !changed && <Check className="w-6 h-6 text-green-600" />}
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+                        <div className="md:col-span-4">
+                          <label className="block text-xs font-medium text-gray-500 mb-1">Sealed bottles</label>
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => updateDraft(product.id, { countedSealed: Math.max(0, draft.countedSealed - 1) })}
+                              className="p-3 bg-gray-100 rounded-lg hover:bg-gray-200"
+                            >
+                              <Minus className="w-5 h-5" />
+                            </button>
+                            <input
+                              type="number"
+                              min="0"
+                              inputMode="numeric"
+                              value={draft.countedSealed}
+                              onChange={(e) => updateDraft(product.id, { countedSealed: parseInt(e.target.value) || 0 })}
+                              className="w-20 px-3 py-3 border border-gray-300 rounded-lg text-center text-lg"
+                            />
+                            <button
+                              onClick={() => updateDraft(product.id, { countedSealed: draft.countedSealed + 1 })}
+                              className="p-3 bg-gray-100 rounded-lg hover:bg-gray-200"
+                            >
+                              <Plus className="w-5 h-5" />
+                            </button>
+                          </div>
+                        </div>
+                        <div className="md:col-span-3">
+                          <label className="block text-xs font-medium text-gray-500 mb-1">Open bottles ({UnitService.getStockUnit(product.unit)}, estimate)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            inputMode="decimal"
+                            value={draft.countedOpenMl}
+                            onChange={(e) => updateDraft(product.id, { countedOpenMl: parseFloat(e.target.value) || 0 })}
+                            className="w-full px-3 py-3 border border-gray-300 rounded-lg text-lg"
+                          />
+                        </div>
+                        <div className="md:col-span-3">
+                          <label className="block text-xs font-medium text-gray-500 mb-1">Reason</label>
+                          <input
+                            type="text"
+                            value={draft.reason}
+                            onChange={(e) => updateDraft(product.id, { reason: e.target.value })}
+                            placeholder="Breakage, expired..."
+                            className="w-full px-3 py-3 border border-gray-300 rounded-lg"
+                          />
+                        </div>
+                        <button
+                          onClick={() => handleSaveCount(product)}
+                          disabled={saving || !changed}
+                          className="md:col-span-2 px-4 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                        >
+                          {saved ? 'Recount' : 'Save'}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {view === 'review' && current && totals && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="bg-red-50 rounded-lg p-4">
+                    <div className="text-sm text-red-700">Lost</div>
+                    <div className="text-xl font-bold text-red-700">{formatPrice(totals.lostCost)}</div>
+                  </div>
+                  <div className="bg-green-50 rounded-lg p-4">
+                    <div className="text-sm text-green-700">Found</div>
+                    <div className="text-xl font-bold text-green-700">{formatPrice(totals.foundCost)}</div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <div className="text-sm text-gray-600">Net · {totals.products} products</div>
+                    <div className={`text-xl font-bold ${varianceColor(totals.cost)}`}>
+                      {formatPrice(totals.cost)} <span className="text-sm font-normal">({formatVarianceTotals(varianceByUnit)})</span>
+                    </div>
+                  </div>
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase border-b border-gray-200">
+                      <th className="py-2 pr-4">Product</th>
+                      <th className="py-2 pr-4">Expected</th>
+                      <th className="py-2 pr-4">Counted</th>
+                      <th className="py-2 pr-4">Variance</th>
+                      <th className="py-2 pr-4">Cost</th>
+                      <th className="py-2">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...current.counts]
+                      .sort((a, b) => StocktakeService.getVariance(a).cost - StocktakeService.getVariance(b).cost)
+                      .map(count => {
+                        const variance = StocktakeService.getVariance(count);
+                        return (
+                          <tr key={count.id} className="border-b border-gray-100">
+                            <td className="py-2 pr-4">
+                              <div className="text-gray-900">{count.productName}</div>
+                              <div className="text-xs text-gray-500">{count.category}</div>
+                            </td>
+                            <td className="py-2 pr-4 text-gray-600">{count.expectedSealed} + {UnitService.format(count.expectedOpenMl, count.unit)}</td>
+                            <td className="py-2 pr-4 text-gray-900">{count.countedSealed} + {UnitService.format(count.countedOpenMl, count.unit)}</td>
+                            <td className={`py-2 pr-4 font-medium ${varianceColor(variance.ml)}`}>{formatVariance(variance.ml, count.unit)}</td>
+                            <td className={`py-2 pr-4 font-medium ${varianceColor(variance.cost)}`}>{formatPrice(variance.cost)}</td>
+                            <td className="py-2 text-gray-600">{count.reason || '-'}</td>
+                          </tr>
+                        );
+                      })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {view === 'history' && (
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  {(['product', 'category'] as VarianceGrouping[]).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setGrouping(option)}
+                      className={`px-4 py-2 rounded-lg text-sm ${grouping === option ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                    >
+                      By {option === 'product' ? 'Product' : 'Category'}
+                    </button>
+                  ))}
+                </div>
+
+                {trends.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">No variances posted yet</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs font-medium text-gray-500 uppercase border-b border-gray-200">
+                          <th className="py-2 pr-4">{grouping === 'product' ? 'Product' : 'Category'}</th>
+                          {trendColumns.map(stocktake => (
+                            <th key={stocktake.id} className="py-2 pr-4 whitespace-nowrap">
+                              {new Date(stocktake.postedAt!).toLocaleDateString()}
+                            </th>
+                          ))}
+                          <th className="py-2">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {trends.map(trend => (
+                          <tr key={trend.key} className="border-b border-gray-100">
+                            <td className="py-2 pr-4 text-gray-900">{trend.label}</td>
+                            {trendColumns.map(stocktake => {
+                              const point = trend.points.find(candidate => candidate.stocktakeId === stocktake.id);
+                              return (
+                                <td key={stocktake.id} className={`py-2 pr-4 ${varianceColor(point?.cost || 0)}`}>
+                                  {point ? formatPrice(point.cost) : '-'}
+                                </td>
+                              );
+                            })}
+                            <td className={`py-2 font-semibold ${varianceColor(trend.totalCost)}`}>
+                              {formatPrice(trend.totalCost)}
+                              {grouping === 'product' && (
+                                <div className="text-xs font-normal">
+                                  {formatVariance(trend.totalMl, products.find(product => product.id === trend.key)?.unit)}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {current?.status === 'counting' && (
+            <div className="flex items-center justify-between p-6 border-t border-gray-200 bg-gray-50">
+              <button
+                onClick={handleCancel}
+                className="px-4 py-2 text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50"
+              >
+                Cancel Stocktake
+              </button>
+              <div className="flex gap-3">
+                {view === 'count' ? (
+                  <button
+                    onClick={() => { setErrors([]); setView('review'); }}
+                    disabled={current.counts.length === 0}
+                    className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    Review Variances
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => setView('count')}
+                      className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Back to Counting
+                    </button>
+                    <button
+                      onClick={handlePost}
+                      disabled={saving}
+                      className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-2"
+                    >
+                      <Check className="w-4 h-4" />
+                      {saving ? 'Posting...' : 'Post Adjustments'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default StocktakeModal;
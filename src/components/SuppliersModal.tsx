@@ -0,0 +1,300 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Truck, Plus, Save, Trash2, Phone, Mail, Clock } from 'lucide-react';
+import { Product, Supplier, SupplierProduct } from '@/types';
+import { supplierService } from '@/services/database';
+
+interface SuppliersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  products: Product[];
+}
+
+type SupplierForm = Omit<Supplier, 'id' | 'isActive' | 'catalogue' | 'createdAt'>;
+
+const emptyForm: SupplierForm = {
+  name: '',
+  contactName: '',
+  phone: '',
+  email: '',
+  leadTimeDays: 7,
+  notes: '',
+};
+
+// Suppliers directory: contacts, lead times and catalogue prices per product
+const SuppliersModal: React.FC<SuppliersModalProps> = ({ isOpen, onClose, products }) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<SupplierForm>(emptyForm);
+  const [catalogue, setCatalogue] = useState<Omit<SupplierProduct, 'supplierId'>[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSuppliers();
+    }
+  }, [isOpen]);
+
+  const loadSuppliers = async () => {
+    const data = await supplierService.getAll();
+    setSuppliers(data);
+  };
+
+  const selectSupplier = (supplier: Supplier | null) => {
+    setSelectedId(supplier?.id || null);
+    setForm(supplier ? {
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      leadTimeDays: supplier.leadTimeDays,
+      notes: supplier.notes || '',
+    } : emptyForm);
+    setCatalogue(supplier ? supplier.catalogue.map(({ supplierId, ...item }) => item) : []);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const saved = selectedId
+        ? await supplierService.update(selectedId, form)
+        : await supplierService.create(form);
+      if (!saved) return;
+
+      // Rows without a product are left out; a product listed twice keeps its last price
+      const rows = Array.from(new Map(
+        catalogue.filter(item => item.productId).map(item => [item.productId, item])
+      ).values());
+      await supplierService.setCatalogue(saved.id, rows);
+
+      await loadSuppliers();
+      setSelectedId(saved.id);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!selectedId || !confirm('Archive this supplier? Their purchase orders are kept.')) return;
+
+    if (await supplierService.update(selectedId, { ...form, isActive: false })) {
+      selectSupplier(null);
+      await loadSuppliers();
+    }
+  };
+
+  const updateCatalogueRow = (index: number, changes: Partial<Omit<SupplierProduct, 'supplierId'>>) => {
+    setCatalogue(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-indigo-50">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <Truck className="w-6 h-6 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Suppliers</h2>
+                <p className="text-sm text-gray-600">Contacts, lead times and catalogue prices</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="flex flex-1 overflow-hidden">
+            {/* Supplier list */}
+            <div className="w-72 border-r border-gray-200 overflow-y-auto p-4 space-y-2">
+              <button
+                onClick={() => selectSupplier(null)}
+                className="w-full px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                New Supplier
+              </button>
+              {suppliers.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">No suppliers yet</p>
+              )}
+              {suppliers.map(supplier => (
+                <button
+                  key={supplier.id}
+                  onClick={() => selectSupplier(supplier)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    supplier.id === selectedId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900 text-sm">{supplier.name}</div>
+                  <div className="text-xs text-gray-500 flex items-center gap-1 mt-1">
+                    <Clock className="w-3 h-3" />
+                    {supplier.leadTimeDays} days · {supplier.catalogue.length} products
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Supplier form */}
+            <form onSubmit={handleSave} className="flex-1 overflow-y-auto p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Contact</label>
+                  <input
+                    type="text"
+                    value={form.contactName}
+                    onChange={(e) => setForm({ ...form, contactName: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Phone className="inline w-4 h-4 mr-1" />
+                    Phone
+                  </label>
+                  <input
+                    type="tel"
+                    value={form.phone}
+                    onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Mail className="inline w-4 h-4 mr-1" />
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.leadTimeDays}
+                    onChange={(e) => setForm({ ...form, leadTimeDays: parseInt(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                  <input
+                    type="text"
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              {/* Catalogue prices */}
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Catalogue Prices</h3>
+                  <button
+                    type="button"
+                    onClick={() => setCatalogue(prev => [...prev, { productId: '', unitCost: 0, supplierSku: '' }])}
+                    className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Product
+                  </button>
+                </div>
+                {catalogue.length === 0 ? (
+                  <p className="text-sm text-gray-500">No catalogue prices; orders use the product cost</p>
+                ) : (
+                  <div className="space-y-2">
+                    {catalogue.map((item, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                        <select
+                          value={item.productId}
+                          onChange={(e) => updateCatalogueRow(index, { productId: e.target.value })}
+                          className="col-span-6 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                          <option value="">Select a product</option>
+                          {products.map(product => (
+                            <option key={product.id} value={product.id}>{product.brand} {product.name}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={item.supplierSku || ''}
+                          onChange={(e) => updateCatalogueRow(index, { supplierSku: e.target.value })}
+                          placeholder="Supplier ref."
+                          className="col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={item.unitCost}
+                          onChange={(e) => updateCatalogueRow(index, { unitCost: parseFloat(e.target.value) || 0 })}
+                          className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setCatalogue(prev => prev.filter((_, i) => i !== index))}
+                          className="col-span-1 p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-end gap-3">
+                {selectedId && (
+                  <button
+                    type="button"
+                    onClick={handleArchive}
+                    className="px-4 py-2 text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    Archive
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+                >
+                  <Save className="w-4 h-4" />
+                  {saving ? 'Saving...' : selectedId ? 'Save Supplier' : 'Add Supplier'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default SuppliersModal;
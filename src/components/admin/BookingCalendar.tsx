@@ -0,0 +1,380 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Calendar from 'react-calendar';
+import 'react-calendar/dist/Calendar.css';
+import { ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react';
+import { Booking, BookingStatus, Client, Service } from '@/types';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { BookingCalendarService, BookingTimes, CalendarEvent } from '@/services/BookingCalendarService';
+
+export type CalendarView = 'day' | 'week';
+
+interface CalendarStaff {
+  id: string;
+  name: string;
+}
+
+interface BookingCalendarProps {
+  bookings: Booking[];
+  staff: CalendarStaff[];
+  clients: Client[];
+  services: Service[];
+  view: CalendarView;
+  date: string; // YYYY-MM-DD
+  onDateChange: (date: string) => void;
+  onSelect: (booking: Booking) => void;
+  onReschedule: (booking: Booking, staffId: string, times: BookingTimes) => Promise<boolean>;
+}
+
+interface CalendarColumn {
+  key: string;
+  date: string;
+  staffId?: string; // week view columns show every staff member unless one is picked
+  label: string;
+  sublabel?: string;
+}
+
+interface DragState {
+  booking: Booking;
+  mode: 'move' | 'resize';
+  originX: number;
+  originY: number;
+  deltaMinutes: number;
+  column: CalendarColumn;
+  moved: boolean;
+}
+
+const HOUR_HEIGHT = 64; // px
+const PX_PER_MINUTE = HOUR_HEIGHT / 60;
+const DEFAULT_FIRST_HOUR = 8;
+const DEFAULT_LAST_HOUR = 21;
+const DRAG_THRESHOLD = 4; // px before a press becomes a drag
+
+const STATUS_STYLES: Record<BookingStatus, string> = {
+  pending: 'bg-yellow-100 border-yellow-400 text-yellow-900',
+  confirmed: 'bg-green-100 border-green-500 text-green-900',
+  checked_in: 'bg-purple-100 border-purple-500 text-purple-900',
+  in_progress: 'bg-orange-100 border-orange-500 text-orange-900',
+  completed: 'bg-blue-100 border-blue-500 text-blue-900',
+  cancelled: 'bg-gray-100 border-gray-300 text-gray-500 line-through',
+  no_show: 'bg-red-50 border-red-300 text-red-700',
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+// Resource calendar of bookings: one column per staff member for a day, or
+// one per day for a week. Bookings are moved by dragging them and resized by
+// dragging their bottom edge; the page validates and saves the new time.
+const BookingCalendar: React.FC<BookingCalendarProps> = ({
+  bookings,
+  staff,
+  clients,
+  services,
+  view,
+  date,
+  onDateChange,
+  onSelect,
+  onReschedule,
+}) => {
+  const { t } = useLanguage();
+  const [weekStaffId, setWeekStaffId] = useState<string>('all');
+  const [showPicker, setShowPicker] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const columns: CalendarColumn[] = view === 'day'
+    ? staff.map(member => ({ key: `${member.id}|${date}`, date, staffId: member.id, label: member.name }))
+    : BookingCalendarService.weekDates(date).map(day => {
+        const dayDate = new Date(`${day}T00:00:00`);
+        return {
+          key: `${weekStaffId}|${day}`,
+          date: day,
+          staffId: weekStaffId === 'all' ? undefined : weekStaffId,
+          label: dayDate.toLocaleDateString([], { weekday: 'short' }),
+          sublabel: dayDate.toLocaleDateString([], { day: 'numeric', month: 'short' }),
+        };
+      });
+
+  // While dragging, the booking is shown where it would be dropped
+  const previewTimes = (state: DragState): BookingTimes => state.mode === 'move'
+    ? BookingCalendarService.moveTimes(state.booking, state.column.date, state.deltaMinutes)
+    : BookingCalendarService.resizeTimes(state.booking, state.deltaMinutes);
+
+  const shownBookings = BookingCalendarService.expandSegments(bookings).map(booking => {
+    if (!drag || !drag.moved || drag.booking.id !== booking.id) return booking;
+    const times = previewTimes(drag);
+    return {
+      ...booking,
+      staffId: drag.mode === 'move' ? drag.column.staffId || booking.staffId : booking.staffId,
+      startAt: times.startAt,
+      endAt: times.endAt,
+    };
+  });
+
+  const eventsByColumn = new Map<string, CalendarEvent[]>(columns.map(column => [
+    column.key,
+    BookingCalendarService.layoutDay(
+      shownBookings.filter(booking => !column.staffId || booking.staffId === column.staffId),
+      column.date
+    ),
+  ]));
+
+  // The grid covers the salon's usual day, stretched to fit any booking outside it
+  const allEvents = Array.from(eventsByColumn.values()).flat();
+  const firstHour = Math.min(DEFAULT_FIRST_HOUR, ...allEvents.map(event => event.start.getHours()));
+  const lastHour = Math.max(DEFAULT_LAST_HOUR, ...allEvents.map(event =>
+    event.end.getDate() !== event.start.getDate() ? 24 : Math.ceil(event.end.getHours() + event.end.getMinutes() / 60)
+  ));
+  const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index);
+
+  const columnAt = (x: number, y: number): CalendarColumn | undefined => {
+    for (const element of document.elementsFromPoint(x, y)) {
+      const key = (element.closest('[data-calendar-column]') as HTMLElement | null)?.dataset.calendarColumn;
+      const column = columns.find(candidate => candidate.key === key);
+      if (column) return column;
+    }
+    return undefined;
+  };
+
+  // Window listeners keep following the pointer when the booking re-renders
+  // in another column
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const state = dragRef.current;
+      if (!state) return;
+
+      const moved = state.moved ||
+        Math.abs(event.clientX - state.originX) > DRAG_THRESHOLD ||
+        Math.abs(event.clientY - state.originY) > DRAG_THRESHOLD;
+      const column = state.mode === 'move' ? columnAt(event.clientX, event.clientY) || state.column : state.column;
+
+      dragRef.current = {
+        ...state,
+        moved,
+        column,
+        deltaMinutes: (event.clientY - state.originY) / PX_PER_MINUTE,
+      };
+      setDrag(dragRef.current);
+    };
+
+    const handleUp = async () => {
+      const state = dragRef.current;
+      dragRef.current = null;
+      if (!state) return;
+
+      if (!state.moved) {
+        setDrag(null);
+        onSelect(state.booking);
+        return;
+      }
+
+      const times = previewTimes(state);
+      const staffId = state.mode === 'move' ? state.column.staffId || state.booking.staffId : state.booking.staffId;
+      const current = BookingCalendarService.getTimes(state.booking);
+
+      if (
+        staffId === state.booking.staffId &&
+        times.startAt === current.start.toISOString() &&
+        times.endAt === current.end.toISOString()
+      ) {
+        setDrag(null);
+        return;
+      }
+
+      // The preview stays in place until the page has saved or refused it
+      setSavingId(state.booking.id);
+      try {
+        await onReschedule(state.booking, staffId, times);
+      } finally {
+        setSavingId(null);
+        setDrag(null);
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag !== null]);
+
+  const startDrag = (event: React.PointerEvent, booking: Booking, mode: DragState['mode'], column: CalendarColumn) => {
+    if (event.button !== 0 || savingId) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Bookings that cannot be moved still open on click; a service block
+    // opens the whole multi-service booking
+    const canDrag = mode === 'move' ? BookingCalendarService.canMove(booking) : BookingCalendarService.canResize(booking);
+    if (!canDrag) {
+      onSelect(bookings.find(candidate => candidate.id === booking.id) || booking);
+      return;
+    }
+
+    dragRef.current = {
+      booking,
+      mode,
+      originX: event.clientX,
+      originY: event.clientY,
+      deltaMinutes: 0,
+      column,
+      moved: false,
+    };
+    setDrag(dragRef.current);
+  };
+
+  const title = view === 'day'
+    ? new Date(`${date}T00:00:00`).toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })
+    : `${new Date(`${columns[0].date}T00:00:00`).toLocaleDateString([], { day: 'numeric', month: 'short' })} – ${new Date(`${columns[6].date}T00:00:00`).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+  return (
+    <div className="card space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onDateChange(BookingCalendarService.shiftDate(date, view === 'day' ? -1 : -7))}
+            className="p-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onDateChange(BookingCalendarService.toLocalDate(new Date()))}
+            className="px-3 py-2 rounded-lg border border-gray-200 hover:bg-gray-50 text-sm"
+          >
+            {t('bookings.today')}
+          </button>
+          <button
+            onClick={() => onDateChange(BookingCalendarService.shiftDate(date, view === 'day' ? 1 : 7))}
+            className="p-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowPicker(!showPicker)}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-gray-50 font-medium text-gray-800"
+            >
+              <CalendarDays className="w-4 h-4 text-primary-500" />
+              {title}
+            </button>
+            {showPicker && (
+              <div className="absolute z-20 mt-2 shadow-xl rounded-lg">
+                <Calendar
+                  value={new Date(`${date}T00:00:00`)}
+                  onChange={(value) => {
+                    if (value instanceof Date) {
+                      onDateChange(BookingCalendarService.toLocalDate(value));
+                      setShowPicker(false);
+                    }
+                  }}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+        {view === 'week' && (
+          <select
+            value={weekStaffId}
+            onChange={(e) => setWeekStaffId(e.target.value)}
+            className="px-4 py-2 bg-white border border-gray-200 rounded-xl text-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="all">{t('bookings.allStaff')}</option>
+            {staff.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">{t('bookings.calendarHint')}</p>
+
+      {columns.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">{t('bookings.noStaff')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="flex min-w-max select-none">
+            {/* Hours */}
+            <div className="w-14 flex-shrink-0">
+              <div className="h-12" />
+              {hours.map(hour => (
+                <div key={hour} className="text-xs text-gray-400 text-right pr-2 -mt-2" style={{ height: HOUR_HEIGHT }}>
+                  {String(hour).padStart(2, '0')}:00
+                </div>
+              ))}
+            </div>
+
+            {columns.map(column => (
+              <div key={column.key} className="flex-1 min-w-[160px] border-l border-gray-100">
+                <div className="h-12 flex flex-col items-center justify-center border-b border-gray-200 px-2">
+                  <span className="text-sm font-medium text-gray-800 truncate">{column.label}</span>
+                  {column.sublabel && <span className="text-xs text-gray-500">{column.sublabel}</span>}
+                </div>
+                <div
+                  data-calendar-column={column.key}
+                  className={`relative ${drag?.moved && drag.column.key === column.key ? 'bg-primary-50/40' : ''}`}
+                  style={{ height: hours.length * HOUR_HEIGHT }}
+                >
+                  {hours.map(hour => (
+                    <div
+                      key={hour}
+                      className="absolute left-0 right-0 border-t border-gray-100"
+                      style={{ top: (hour - firstHour) * HOUR_HEIGHT }}
+                    />
+                  ))}
+
+                  {(eventsByColumn.get(column.key) || []).map(event => {
+                    const { booking } = event;
+                    const client = clients.find(c => c.id === booking.clientId);
+                    const service = services.find(s => s.id === booking.serviceId);
+                    const member = staff.find(s => s.id === booking.staffId);
+                    const top = ((event.start.getHours() - firstHour) * 60 + event.start.getMinutes()) * PX_PER_MINUTE;
+                    const height = Math.max((event.end.getTime() - event.start.getTime()) / 60000 * PX_PER_MINUTE, 20);
+                    const isDragged = drag?.booking.id === booking.id && drag.moved;
+
+                    return (
+                      <div
+                        key={`${booking.id}-${booking.startAt}`}
+                        onPointerDown={(e) => startDrag(e, booking, 'move', column)}
+                        className={`absolute rounded-md border-l-4 px-2 py-1 text-xs overflow-hidden shadow-sm touch-none ${STATUS_STYLES[booking.status]} ${
+                          BookingCalendarService.canMove(booking) ? 'cursor-grab' : 'cursor-pointer'
+                        } ${isDragged ? 'ring-2 ring-primary-500 opacity-80 z-10 cursor-grabbing' : ''} ${
+                          savingId === booking.id ? 'animate-pulse' : ''
+                        }`}
+                        style={{
+                          top,
+                          height,
+                          left: `calc(${(event.lane / event.lanes) * 100}% + 2px)`,
+                          width: `calc(${100 / event.lanes}% - 4px)`,
+                        }}
+                        title={`${client?.name || ''} · ${service?.name || ''}`}
+                      >
+                        <p className="font-semibold truncate">{formatTime(event.start)} – {formatTime(event.end)}</p>
+                        <p className="truncate">{client?.name}</p>
+                        <p className="truncate opacity-75">{service?.name}</p>
+                        {view === 'week' && !column.staffId && member && (
+                          <p className="truncate opacity-75">{member.name}</p>
+                        )}
+                        {BookingCalendarService.canResize(booking) && (
+                          <div
+                            onPointerDown={(e) => startDrag(e, booking, 'resize', column)}
+                            className="absolute left-0 right-0 bottom-0 h-2 cursor-ns-resize"
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookingCalendar;
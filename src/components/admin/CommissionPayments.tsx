@@ -15,9 +15,12 @@ import {
   Wallet,
   Eye,
   Edit,
-  Trash2
+  Trash2,
+  Heart
 } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { tipService } from '@/services/database';
+import { TipService } from '@/services/TipService';
 import { formatPrice } from '@/utils/currency';
 
 interface CommissionPayment {
@@ -26,6 +29,8 @@ interface CommissionPayment {
   staffName: string;
   period: string;
   totalCommissions: number;
+  totalTips: number; // paid out with the commissions but kept as a separate line
+  tipIds: string[];
   paidAmount: number;
   remainingAmount: number;
   status: 'pending' | 'processing' | 'paid' | 'overdue';
@@ -67,6 +72,8 @@ const CommissionPayments: React.FC = () => {
           staffName: 'Sarah Johnson',
           period: 'December 2024',
           totalCommissions: 1250.00,
+          totalTips: 0,
+          tipIds: [],
           paidAmount: 1250.00,
           remainingAmount: 0,
           status: 'paid',
@@ -82,6 +89,8 @@ const CommissionPayments: React.FC = () => {
           staffName: 'Mike Chen',
           period: 'December 2024',
           totalCommissions: 980.50,
+          totalTips: 0,
+          tipIds: [],
           paidAmount: 500.00,
           remainingAmount: 480.50,
           status: 'processing',
@@ -96,6 +105,8 @@ const CommissionPayments: React.FC = () => {
           staffName: 'Emma Wilson',
           period: 'December 2024',
           totalCommissions: 1150.75,
+          totalTips: 0,
+          tipIds: [],
           paidAmount: 0,
           remainingAmount: 1150.75,
           status: 'pending',
@@ -109,6 +120,8 @@ const CommissionPayments: React.FC = () => {
           staffName: 'David Brown',
           period: 'November 2024',
           totalCommissions: 850.25,
+          totalTips: 0,
+          tipIds: [],
           paidAmount: 0,
           remainingAmount: 850.25,
           status: 'overdue',
@@ -119,6 +132,38 @@ const CommissionPayments: React.FC = () => {
         }
       ];
 
+      // Pending tips are added to each staff member's open payout
+      const pendingTips = (await tipService.getAll()).filter(tip => tip.status === 'pending');
+      const tipTotals = TipService.getTotalsByStaff(pendingTips);
+      const now = new Date();
+
+      Object.entries(tipTotals).forEach(([staffId, totalTips]) => {
+        const tipIds = pendingTips.filter(tip => tip.staffId === staffId).map(tip => tip.id!);
+        const openPayment = mockPayments.find(payment => payment.staffId === staffId && payment.status !== 'paid');
+
+        if (openPayment) {
+          openPayment.totalTips = totalTips;
+          openPayment.tipIds = tipIds;
+          openPayment.remainingAmount += totalTips;
+        } else {
+          mockPayments.push({
+            id: `tips-${staffId}`,
+            staffId,
+            staffName: pendingTips.find(tip => tip.staffId === staffId)?.staffName || 'Staff',
+            period: now.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+            totalCommissions: 0,
+            totalTips,
+            tipIds,
+            paidAmount: 0,
+            remainingAmount: totalTips,
+            status: 'pending',
+            paymentMethod: 'cash',
+            dueDate: new Date(now.getFullYear(), now.getMonth() + 1, 0).toISOString().split('T')[0],
+            createdAt: now.toISOString()
+          });
+        }
+      });
+
       setPayments(mockPayments);
     } catch (error) {
       console.error('Error loading commission payments:', error);
@@ -180,11 +225,19 @@ const CommissionPayments: React.FC = () => {
 
     try {
       const amount = parseFloat(paymentForm.amount);
+      const isSettled = selectedPayment.remainingAmount - amount <= 0;
+
+      // Tips are settled with the payout that clears the balance
+      if (isSettled && selectedPayment.tipIds.length > 0) {
+        const tipsPaid = await tipService.markAsPaid(selectedPayment.tipIds);
+        if (!tipsPaid) return;
+      }
+
       const updatedPayment = {
         ...selectedPayment,
         paidAmount: selectedPayment.paidAmount + amount,
         remainingAmount: selectedPayment.remainingAmount - amount,
-        status: (selectedPayment.remainingAmount - amount <= 0) ? 'paid' as const : 'processing' as const,
+        status: isSettled ? 'paid' as const : 'processing' as const,
         paymentMethod: paymentForm.method,
         paymentDate: paymentForm.paymentDate,
         notes: paymentForm.notes
@@ -203,11 +256,12 @@ const CommissionPayments: React.FC = () => {
       ['Commission Payments Report'],
       ['Generated:', new Date().toLocaleDateString()],
       [''],
-      ['Staff Name', 'Period', 'Total Commissions', 'Paid Amount', 'Remaining', 'Status', 'Payment Method', 'Due Date', 'Payment Date'],
+      ['Staff Name', 'Period', 'Total Commissions', 'Tips', 'Paid Amount', 'Remaining', 'Status', 'Payment Method', 'Due Date', 'Payment Date'],
       ...filteredPayments.map(payment => [
         payment.staffName,
         payment.period,
         `$${payment.totalCommissions.toFixed(2)}`,
+        `$${payment.totalTips.toFixed(2)}`,
         `$${payment.paidAmount.toFixed(2)}`,
         `$${payment.remainingAmount.toFixed(2)}`,
         payment.status,
@@ -319,6 +373,11 @@ const CommissionPayments: React.FC = () => {
             {formatPrice(payments.reduce((sum, p) => sum + p.totalCommissions, 0))}
           </p>
           <p className="text-gray-600 text-sm">Total Commissions</p>
+          {payments.some(p => p.totalTips > 0) && (
+            <p className="text-xs text-pink-600 mt-1">
+              + {formatPrice(payments.reduce((sum, p) => sum + p.totalTips, 0))} tips
+            </p>
+          )}
         </motion.div>
       </div>
 
@@ -372,7 +431,8 @@ const CommissionPayments: React.FC = () => {
               <tr>
                 <th className="text-left py-3 px-4 font-medium text-gray-700">Staff</th>
                 <th className="text-left py-3 px-4 font-medium text-gray-700">Period</th>
-                <th className="text-right py-3 px-4 font-medium text-gray-700">Total</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-700">Commissions</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-700">Tips</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-700">Paid</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-700">Remaining</th>
                 <th className="text-center py-3 px-4 font-medium text-gray-700">Status</th>
@@ -402,6 +462,9 @@ const CommissionPayments: React.FC = () => {
                   <td className="py-3 px-4 text-right font-semibold text-gray-800">
                     ${payment.totalCommissions.toFixed(2)}
                   </td>
+                  <td className="py-3 px-4 text-right text-pink-600 font-medium">
+                    ${payment.totalTips.toFixed(2)}
+                  </td>
                   <td className="py-3 px-4 text-right text-green-600 font-medium">
                     ${payment.paidAmount.toFixed(2)}
                   </td>
@@ -462,6 +525,32 @@ const CommissionPayments: React.FC = () => {
             </h3>
             
             <div className="space-y-4">
+              {selectedPayment && (
+                <div className="p-3 bg-gray-50 rounded-lg space-y-1 text-sm">
+                  <div className="flex justify-between text-gray-600">
+                    <span>Commissions</span>
+                    <span>{formatPrice(selectedPayment.totalCommissions)}</span>
+                  </div>
+                  {selectedPayment.totalTips > 0 && (
+                    <div className="flex justify-between text-pink-600">
+                      <span className="flex items-center gap-1">
+                        <Heart className="w-3 h-3" />
+                        Tips
+                      </span>
+                      <span>{formatPrice(selectedPayment.totalTips)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-gray-600">
+                    <span>Already paid</span>
+                    <span>-{formatPrice(selectedPayment.paidAmount)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-gray-800 border-t border-gray-200 pt-1">
+                    <span>Due</span>
+                    <span>{formatPrice(selectedPayment.remainingAmount)}</span>
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
                 <input
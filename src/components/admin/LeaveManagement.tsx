@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  CalendarOff,
+  CheckCircle,
+  XCircle,
+  Plus,
+  Trash2,
+  PartyPopper,
+  AlertTriangle
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { LeaveRequest, LeaveRequestStatus, SalonHoliday } from '@/types';
+import { leaveService, staffScheduleService } from '@/services/database';
+import { StaffScheduleService } from '@/services/StaffScheduleService';
+
+const STATUS_STYLES: Record<LeaveRequestStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+// Leave requests from staff waiting for approval, and the salon's closing days
+const LeaveManagement: React.FC = () => {
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [holidays, setHolidays] = useState<SalonHoliday[]>([]);
+  const [statusFilter, setStatusFilter] = useState<LeaveRequestStatus | 'all'>('pending');
+  const [holidayForm, setHolidayForm] = useState({ date: '', name: '' });
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setIsLoading(true);
+      const [requestData, holidayData] = await Promise.all([
+        leaveService.getAll(),
+        staffScheduleService.getHolidays(new Date().toISOString().split('T')[0]),
+      ]);
+      setRequests(requestData);
+      setHolidays(holidayData);
+    } catch (error) {
+      console.error('Error fetching leave data:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReview = async (request: LeaveRequest, approve: boolean) => {
+    const note = approve ? '' : prompt('Reason for rejecting (optional)') ?? null;
+    if (note === null) return;
+
+    try {
+      const result = await leaveService.review(request.id, approve, note);
+      if (!result) return;
+
+      if (result.conflictingBookings > 0) {
+        toast.error(`${request.staffName || 'This staff member'} still has ${result.conflictingBookings} booking(s) during the leave. Move them in Bookings.`, { duration: 6000 });
+      }
+      await fetchData();
+    } catch (error) {
+      console.error('Error reviewing leave request:', error);
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!holidayForm.date) {
+      toast.error('Choose a date');
+      return;
+    }
+
+    try {
+      const created = await staffScheduleService.addHoliday(holidayForm.date, holidayForm.name);
+      if (created) {
+        setHolidays(prev => [...prev, created].sort((a, b) => a.date.localeCompare(b.date)));
+        setHolidayForm({ date: '', name: '' });
+      }
+    } catch (error) {
+      console.error('Error adding holiday:', error);
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: SalonHoliday) => {
+    if (!confirm(`Remove ${holiday.name} (${formatDate(holiday.date)})?`)) return;
+
+    try {
+      if (await staffScheduleService.deleteHoliday(holiday.id)) {
+        setHolidays(prev => prev.filter(h => h.id !== holiday.id));
+      }
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+    }
+  };
+
+  const filteredRequests = statusFilter === 'all'
+    ? requests
+    : requests.filter(request => request.status === statusFilter);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Leave Requests */}
+      <div className="card space-y-4">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Leave Requests</h2>
+            <p className="text-gray-600">Approved leave blocks bookings for those days</p>
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as LeaveRequestStatus | 'all')}
+            className="input min-w-[140px]"
+          >
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+            <option value="cancelled">Cancelled</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+
+        {filteredRequests.length === 0 ? (
+          <div className="text-center py-10">
+            <CalendarOff className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">No leave requests</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {filteredRequests.map((request, index) => (
+              <motion.div
+                key={request.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-4"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-900">{request.staffName || 'Staff member'}</span>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[request.status]}`}>
+                      {request.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {formatDate(request.startDate)} - {formatDate(request.endDate)}
+                    {' · '}{StaffScheduleService.countLeaveDays(request.startDate, request.endDate)} day(s)
+                    {' · '}<span className="capitalize">{request.leaveType}</span>
+                  </p>
+                  {request.reason && <p className="text-sm text-gray-500 mt-1">{request.reason}</p>}
+                  {request.reviewNote && (
+                    <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      {request.reviewNote}
+                    </p>
+                  )}
+                </div>
+                {request.status === 'pending' && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleReview(request, true)}
+                      className="flex items-center gap-1 px-3 py-2 text-sm text-green-700 border border-green-200 rounded-lg hover:bg-green-50"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleReview(request, false)}
+                      className="flex items-center gap-1 px-3 py-2 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Salon Holidays */}
+      <div className="card space-y-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Salon Holidays</h2>
+          <p className="text-gray-600">Nobody can be booked on days the salon is closed</p>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="date"
+            value={holidayForm.date}
+            onChange={(e) => setHolidayForm(prev => ({ ...prev, date: e.target.value }))}
+            className="input"
+          />
+          <input
+            type="text"
+            value={holidayForm.name}
+            onChange={(e) => setHolidayForm(prev => ({ ...prev, name: e.target.value }))}
+            className="input flex-1"
+            placeholder="e.g. Eid al-Fitr, Throne Day"
+          />
+          <button onClick={handleAddHoliday} className="btn-primary flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Add holiday
+          </button>
+        </div>
+
+        {holidays.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">No upcoming holidays</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {holidays.map(holiday => (
+              <div key={holiday.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center gap-3">
+                  <PartyPopper className="w-5 h-5 text-primary-500" />
+                  <div>
+                    <p className="font-medium text-gray-900">{holiday.name}</p>
+                    <p className="text-sm text-gray-600">{formatDate(holiday.date)}</p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDeleteHoliday(holiday)}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LeaveManagement;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  Tag,
+  Plus,
+  Edit,
+  Trash2,
+  Calendar,
+  Hash,
+  CheckCircle,
+  XCircle
+} from 'lucide-react';
+import { PromoCode, Service } from '@/types';
+import { promoCodeService, serviceService } from '@/services/database';
+import { DiscountService } from '@/services/DiscountService';
+import { formatPrice } from '@/utils/currency';
+import PromoCodeModal from './PromoCodeModal';
+
+const PromoCodeManagement: React.FC = () => {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedPromo, setSelectedPromo] = useState<PromoCode | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPromoCodes();
+  }, []);
+
+  const fetchPromoCodes = async () => {
+    try {
+      setIsLoading(true);
+      const [promoData, servicesData] = await Promise.all([
+        promoCodeService.getAll(),
+        serviceService.getAll(),
+      ]);
+      setPromoCodes(promoData);
+      setServices(servicesData);
+    } catch (error) {
+      console.error('Error fetching promo codes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddPromo = () => {
+    setSelectedPromo(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEditPromo = (promo: PromoCode) => {
+    setSelectedPromo(promo);
+    setIsModalOpen(true);
+  };
+
+  const handleDeletePromo = async (promo: PromoCode) => {
+    if (!confirm(`Are you sure you want to delete promo code ${promo.code}?`)) {
+      return;
+    }
+
+    try {
+      const deleted = await promoCodeService.delete(promo.id);
+      if (deleted) {
+        setPromoCodes(prev => prev.filter(p => p.id !== promo.id));
+      }
+    } catch (error) {
+      console.error('Error deleting promo code:', error);
+    }
+  };
+
+  const handleSavePromo = async (promoData: Omit<PromoCode, 'id' | 'usageCount' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      const saved = selectedPromo
+        ? await promoCodeService.update(selectedPromo.id, promoData)
+        : await promoCodeService.create(promoData);
+
+      if (saved) {
+        setIsModalOpen(false);
+        setSelectedPromo(null);
+        await fetchPromoCodes();
+      }
+    } catch (error) {
+      console.error('Error saving promo code:', error);
+    }
+  };
+
+  const formatDiscount = (promo: PromoCode) =>
+    promo.discountType === 'percentage' ? `${promo.discountValue}%` : formatPrice(promo.discountValue);
+
+  const getServiceNames = (promo: PromoCode) => {
+    if (promo.scope === 'cart') return 'Whole cart';
+    if (promo.serviceIds.length === 0) return 'All services';
+    return services
+      .filter(service => promo.serviceIds.includes(service.id))
+      .map(service => service.name)
+      .join(', ');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Promo Codes</h2>
+          <p className="text-gray-600">Discount codes redeemable at the point of sale</p>
+        </div>
+        <button
+          onClick={handleAddPromo}
+          className="btn-primary flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add Promo Code
+        </button>
+      </div>
+
+      {/* Promo Code Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {promoCodes.map((promo, index) => {
+          const validationError = DiscountService.validatePromoCode(promo, Number.MAX_SAFE_INTEGER);
+
+          return (
+            <motion.div
+              key={promo.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+              className="card hover:shadow-elegant transition-all duration-200"
+            >
+              <div className="flex items-start justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-12 h-12 bg-primary-100 rounded-full flex items-center justify-center">
+                    <Tag className="w-5 h-5 text-primary-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{promo.code}</h3>
+                    <div className="flex items-center gap-2">
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        -{formatDiscount(promo)}
+                      </span>
+                      {validationError
+                        ? <XCircle className="w-4 h-4 text-red-500" />
+                        : <CheckCircle className="w-4 h-4 text-green-500" />}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => handleEditPromo(promo)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeletePromo(promo)}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2 text-sm text-gray-600">
+                {promo.description && <p>{promo.description}</p>}
+                <div className="flex items-center gap-2">
+                  <Tag className="w-4 h-4" />
+                  <span className="truncate">{getServiceNames(promo)}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4" />
+                  <span>
+                    {promo.validFrom ? new Date(promo.validFrom).toLocaleDateString() : 'Any time'}
+                    {' – '}
+                    {promo.validUntil ? new Date(promo.validUntil).toLocaleDateString() : 'No end date'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Hash className="w-4 h-4" />
+                  <span>
+                    Used {promo.usageCount}{promo.usageLimit ? ` / ${promo.usageLimit}` : ''} times
+                  </span>
+                </div>
+                {validationError && (
+                  <p className="text-xs text-red-600">{validationError}</p>
+                )}
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+
+      {promoCodes.length === 0 && (
+        <div className="text-center py-12">
+          <Tag className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No promo codes yet</h3>
+          <p className="text-gray-600 mb-4">Create a code to offer discounts at the point of sale</p>
+          <button onClick={handleAddPromo} className="btn-primary">
+            Add Promo Code
+          </button>
+        </div>
+      )}
+
+      {/* Promo Code Modal */}
+      <PromoCodeModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSave={handleSavePromo}
+        promoCode={selectedPromo}
+        services={services}
+      />
+    </div>
+  );
+};
+
+export default PromoCodeManagement;
@@ -0,0 +1,327 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Tag, AlertCircle } from 'lucide-react';
+import { PromoCode, Service } from '@/types';
+
+type PromoCodeFormData = Omit<PromoCode, 'id' | 'usageCount' | 'createdAt' | 'updatedAt'>;
+
+interface PromoCodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (promoData: PromoCodeFormData) => Promise<void>;
+  promoCode: PromoCode | null;
+  services: Service[];
+}
+
+const emptyForm: PromoCodeFormData = {
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  discountValue: 10,
+  scope: 'cart',
+  serviceIds: [],
+  minSubtotal: undefined,
+  validFrom: undefined,
+  validUntil: undefined,
+  usageLimit: undefined,
+  isActive: true,
+};
+
+// Dates are edited as calendar days; a code stays valid until the end of its last day
+const toDateInput = (value?: string) => (value ? value.split('T')[0] : '');
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return undefined;
+  return new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`).toISOString();
+};
+
+const PromoCodeModal: React.FC<PromoCodeModalProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  promoCode,
+  services
+}) => {
+  const [formData, setFormData] = useState<PromoCodeFormData>(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setErrors({});
+      setFormData(promoCode ? {
+        code: promoCode.code,
+        description: promoCode.description,
+        discountType: promoCode.discountType,
+        discountValue: promoCode.discountValue,
+        scope: promoCode.scope,
+        serviceIds: promoCode.serviceIds,
+        minSubtotal: promoCode.minSubtotal,
+        validFrom: promoCode.validFrom,
+        validUntil: promoCode.validUntil,
+        usageLimit: promoCode.usageLimit,
+        isActive: promoCode.isActive,
+      } : emptyForm);
+    }
+  }, [isOpen, promoCode]);
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.code.trim()) {
+      newErrors.code = 'Code is required';
+    } else if (!/^[A-Za-z0-9_-]+$/.test(formData.code.trim())) {
+      newErrors.code = 'Use letters, numbers, dashes and underscores only';
+    }
+
+    if (!formData.discountValue || formData.discountValue <= 0) {
+      newErrors.discountValue = 'Discount must be greater than 0';
+    } else if (formData.discountType === 'percentage' && formData.discountValue > 100) {
+      newErrors.discountValue = 'Percentage cannot exceed 100%';
+    }
+
+    if (formData.validFrom && formData.validUntil && formData.validFrom > formData.validUntil) {
+      newErrors.validUntil = 'End date must be after start date';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSave({
+        ...formData,
+        serviceIds: formData.scope === 'service' ? formData.serviceIds : [],
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleService = (serviceId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      serviceIds: prev.serviceIds.includes(serviceId)
+        ? prev.serviceIds.filter(id => id !== serviceId)
+        : [...prev.serviceIds, serviceId]
+    }));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-white rounded-xl shadow-2xl w-full max-w-xl max-h-[90vh] overflow-hidden"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-primary-100 rounded-lg">
+                <Tag className="w-6 h-6 text-primary-600" />
+              </div>
+              <h2 className="text-xl font-bold text-gray-900">
+                {promoCode ? 'Edit Promo Code' : 'New Promo Code'}
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="overflow-y-auto max-h-[calc(90vh-160px)]">
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Code *</label>
+                  <input
+                    type="text"
+                    value={formData.code}
+                    onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                    className={`input w-full ${errors.code ? 'border-red-500' : ''}`}
+                    placeholder="SPRING10"
+                  />
+                  {errors.code && (
+                    <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                      <AlertCircle className="w-4 h-4" />
+                      {errors.code}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Applies to</label>
+                  <select
+                    value={formData.scope}
+                    onChange={(e) => setFormData(prev => ({ ...prev, scope: e.target.value as PromoCode['scope'] }))}
+                    className="input w-full"
+                  >
+                    <option value="cart">Whole cart</option>
+                    <option value="service">Specific services</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <input
+                  type="text"
+                  value={formData.description || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  className="input w-full"
+                  placeholder="Spring promotion"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Discount type</label>
+                  <select
+                    value={formData.discountType}
+                    onChange={(e) => setFormData(prev => ({ ...prev, discountType: e.target.value as PromoCode['discountType'] }))}
+                    className="input w-full"
+                  >
+                    <option value="percentage">Percentage (%)</option>
+                    <option value="fixed">Fixed amount (DH)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Value *</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.discountValue}
+                    onChange={(e) => setFormData(prev => ({ ...prev, discountValue: parseFloat(e.target.value) || 0 }))}
+                    className={`input w-full ${errors.discountValue ? 'border-red-500' : ''}`}
+                  />
+                  {errors.discountValue && (
+                    <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                      <AlertCircle className="w-4 h-4" />
+                      {errors.discountValue}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {formData.scope === 'service' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Services (none selected = all services)
+                  </label>
+                  <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-lg p-2 space-y-1">
+                    {services.map(service => (
+                      <label key={service.id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.serviceIds.includes(service.id)}
+                          onChange={() => toggleService(service.id)}
+                        />
+                        {service.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Valid from</label>
+                  <input
+                    type="date"
+                    value={toDateInput(formData.validFrom)}
+                    onChange={(e) => setFormData(prev => ({ ...prev, validFrom: fromDateInput(e.target.value, false) }))}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Valid until</label>
+                  <input
+                    type="date"
+                    value={toDateInput(formData.validUntil)}
+                    onChange={(e) => setFormData(prev => ({ ...prev, validUntil: fromDateInput(e.target.value, true) }))}
+                    className={`input w-full ${errors.validUntil ? 'border-red-500' : ''}`}
+                  />
+                  {errors.validUntil && (
+                    <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                      <AlertCircle className="w-4 h-4" />
+                      {errors.validUntil}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Usage limit</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.usageLimit ?? ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, usageLimit: parseInt(e.target.value) || undefined }))}
+                    className="input w-full"
+                    placeholder="Unlimited"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Minimum purchase (DH)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.minSubtotal ?? ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, minSubtotal: parseFloat(e.target.value) || undefined }))}
+                    className="input w-full"
+                    placeholder="None"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                />
+                Active
+              </label>
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Saving...' : 'Save Promo Code'}
+              </button>
+            </div>
+          </form>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default PromoCodeModal;
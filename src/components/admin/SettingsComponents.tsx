@@ -29,12 +29,16 @@ import {
   Server,
   Code,
   Zap,
-  Type
+  Type,
+  Receipt,
+  Printer
 } from 'lucide-react';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { supabase } from '../../lib/supabaseClient';
 import { executeAdminQuery } from '../../lib/supabaseAdmin';
 import { Toggle } from '../ui/Toggle';
+import { ReceiptService } from '../../services/ReceiptService';
+import { AppSettings, ReceiptFormat, ReceiptLanguage, ReceiptTemplate } from '../../types';
 import toast from 'react-hot-toast';
 
 interface NotificationPreferences {
@@ -860,6 +864,196 @@ export const AppearanceSettings: React.FC = () => {
   );
 };
 
+export const ReceiptSettings: React.FC = () => {
+  const [salonSettings, setSalonSettings] = useState<AppSettings>(() => ReceiptService.loadSalonSettings());
+  const [receiptTemplate, setReceiptTemplate] = useState<ReceiptTemplate>(() => ReceiptService.loadReceiptTemplate());
+  const [isLoading, setIsLoading] = useState(false);
+
+  const saveReceiptSettings = () => {
+    if (!salonSettings.salonName.trim()) {
+      toast.error('Salon name is required');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      ReceiptService.saveSalonSettings(salonSettings);
+      ReceiptService.saveReceiptTemplate(receiptTemplate);
+      toast.success('Receipt settings saved successfully');
+    } catch (error) {
+      console.error('Error saving receipt settings:', error);
+      toast.error('Failed to save receipt settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePrintSample = () => {
+    const sample = {
+      saleId: 'sample',
+      receiptNumber: 1,
+      date: new Date().toISOString(),
+      clientName: 'Client',
+      clientPhone: '0600000000',
+      staffName: 'Staff',
+      services: [{ name: 'Brushing', originalPrice: 150, adjustedPrice: 150 }],
+      products: [{ productName: 'Serum', quantityUsed: 5, unit: 'ml' }],
+      totalAmount: 150,
+      paymentMethod: 'cash' as const,
+      payments: [{ method: 'cash' as const, amount: 150, tendered: 200, changeGiven: 50 }],
+    };
+
+    const printWindow = window.open('', '_blank', receiptTemplate.format === 'a4' ? 'width=820,height=960' : 'width=420,height=720');
+    if (!printWindow) return;
+
+    printWindow.document.write(ReceiptService.renderHtml(sample, receiptTemplate, salonSettings));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const salonFields: { key: keyof AppSettings; label: string; dir?: 'rtl' }[] = [
+    { key: 'salonName', label: 'Salon Name' },
+    { key: 'salonNameFr', label: 'Salon Name (French)' },
+    { key: 'salonNameAr', label: 'Salon Name (Arabic)', dir: 'rtl' },
+    { key: 'address', label: 'Address' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'email', label: 'Email' },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Salon Header */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <FileText className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Salon Header</h3>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {salonFields.map(field => (
+            <div key={field.key}>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">{field.label}</label>
+              <input
+                type="text"
+                dir={field.dir}
+                value={salonSettings[field.key] as string}
+                onChange={(e) => setSalonSettings(prev => ({ ...prev, [field.key]: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Receipt Template */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <Receipt className="h-5 w-5 text-green-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Receipt Template</h3>
+        </div>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">Paper Format</label>
+              <select
+                value={receiptTemplate.format}
+                onChange={(e) => setReceiptTemplate(prev => ({ ...prev, format: e.target.value as ReceiptFormat }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <option value="thermal58">Thermal 58mm</option>
+                <option value="thermal80">Thermal 80mm</option>
+                <option value="a4">A4</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">Default Language</label>
+              <select
+                value={receiptTemplate.language}
+                onChange={(e) => setReceiptTemplate(prev => ({ ...prev, language: e.target.value as ReceiptLanguage }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <option value="fr">Français</option>
+                <option value="en">English</option>
+                <option value="ar">العربية</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Show Staff Member</label>
+              <p className="text-xs text-gray-500">Print who served the client</p>
+            </div>
+            <Toggle
+              checked={receiptTemplate.showStaff}
+              onChange={(checked) => setReceiptTemplate(prev => ({ ...prev, showStaff: checked }))}
+              color="green"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Show Client Phone</label>
+              <p className="text-xs text-gray-500">Print the client's phone number</p>
+            </div>
+            <Toggle
+              checked={receiptTemplate.showClientPhone}
+              onChange={(checked) => setReceiptTemplate(prev => ({ ...prev, showClientPhone: checked }))}
+              color="green"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Show Products Used</label>
+              <p className="text-xs text-gray-500">List the products consumed by each service</p>
+            </div>
+            <Toggle
+              checked={receiptTemplate.showProductsUsed}
+              onChange={(checked) => setReceiptTemplate(prev => ({ ...prev, showProductsUsed: checked }))}
+              color="green"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Footer Message</label>
+            <textarea
+              value={receiptTemplate.footerMessage}
+              onChange={(e) => setReceiptTemplate(prev => ({ ...prev, footerMessage: e.target.value }))}
+              rows={2}
+              placeholder="Leave empty for the default thank-you message"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Save Button */}
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={handlePrintSample}
+          className="flex items-center space-x-2 px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+        >
+          <Printer className="h-4 w-4" />
+          <span>Print Sample</span>
+        </button>
+        <button
+          onClick={saveReceiptSettings}
+          disabled={isLoading}
+          className="flex items-center space-x-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4" />
+          <span>{isLoading ? 'Saving...' : 'Save Receipt Settings'}</span>
+        </button>
+      </div>
+    </motion.div>
+  );
+};
+
 export const DataBackupSettings: React.FC = () => {
   const { t } = useLanguage();
   const [backupSettings, setBackupSettings] = useState({
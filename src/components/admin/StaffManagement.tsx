@@ -15,12 +15,14 @@ import {
   Calendar,
   Shield,
   CheckCircle,
-  XCircle
+  XCircle,
+  Clock
 } from 'lucide-react';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { supabase } from '../../lib/supabaseClient';
 import toast from 'react-hot-toast';
 import StaffModal from './StaffModal';
+import StaffScheduleModal from './StaffScheduleModal';
 
 interface Staff {
   id: string;
@@ -52,6 +54,7 @@ const StaffManagement: React.FC = () => {
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedStaff, setSelectedStaff] = useState<Staff | null>(null);
+  const [scheduleStaff, setScheduleStaff] = useState<Staff | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Fetch staff data from Supabase
@@ -329,6 +332,13 @@ const StaffManagement: React.FC = () => {
                 </div>
               </div>
               <div className="flex gap-1">
+                <button
+                  onClick={() => setScheduleStaff(member)}
+                  className="p-2 text-gray-400 hover:text-primary-600 transition-colors"
+                  title="Schedule"
+                >
+                  <Clock className="w-4 h-4" />
+                </button>
                 <button
                   onClick={() => handleEditStaff(member)}
                   className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
@@ -391,6 +401,14 @@ const StaffManagement: React.FC = () => {
         onSave={handleSaveStaff}
         staff={selectedStaff}
       />
+
+      {/* Schedule Modal */}
+      <StaffScheduleModal
+        isOpen={!!scheduleStaff}
+        onClose={() => setScheduleStaff(null)}
+        staffId={scheduleStaff?.id || ''}
+        staffName={scheduleStaff ? `${scheduleStaff.firstName} ${scheduleStaff.lastName}` : ''}
+      />
     </div>
   );
 };
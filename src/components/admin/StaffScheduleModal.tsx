@@ -0,0 +1,380 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Clock, Coffee, CalendarOff, Plus, Trash2, Save, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { staffScheduleService } from '../../services/database';
+import { StaffScheduleService, WEEKDAY_NAMES } from '../../services/StaffScheduleService';
+import { ScheduleException, WeeklyScheduleRange } from '../../types';
+
+interface StaffScheduleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  staffId: string;
+  staffName: string;
+}
+
+// Monday first, as the salon week is shown everywhere else
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const StaffScheduleModal: React.FC<StaffScheduleModalProps> = ({ isOpen, onClose, staffId, staffName }) => {
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<'weekly' | 'exceptions'>('weekly');
+  const [hours, setHours] = useState<WeeklyScheduleRange[]>([]);
+  const [breaks, setBreaks] = useState<WeeklyScheduleRange[]>([]);
+  const [exceptions, setExceptions] = useState<ScheduleException[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [exceptionForm, setExceptionForm] = useState({
+    date: today(),
+    isDayOff: true,
+    start: '10:00',
+    end: '16:00',
+    reason: ''
+  });
+
+  useEffect(() => {
+    if (isOpen && staffId) {
+      loadSchedule();
+    }
+  }, [isOpen, staffId]);
+
+  const loadSchedule = async () => {
+    try {
+      setIsLoading(true);
+      const [schedule, upcoming] = await Promise.all([
+        staffScheduleService.getWeeklySchedule(staffId),
+        staffScheduleService.getExceptions(staffId, today())
+      ]);
+      setHours(schedule.hours);
+      setBreaks(schedule.breaks);
+      setExceptions(upcoming);
+    } catch (error) {
+      console.error('Error loading schedule:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const errors = StaffScheduleService.validateWeeklySchedule(hours, breaks);
+
+  const updateRange = (
+    setRanges: React.Dispatch<React.SetStateAction<WeeklyScheduleRange[]>>,
+    target: WeeklyScheduleRange,
+    changes: Partial<WeeklyScheduleRange>
+  ) => {
+    setRanges(prev => prev.map(range => (range === target ? { ...range, ...changes } : range)));
+  };
+
+  const addHours = (weekday: number) => {
+    const last = hours.filter(range => range.weekday === weekday).pop();
+    setHours(prev => [...prev, last ? { weekday, start: last.end, end: '19:00' } : { weekday, start: '09:00', end: '19:00' }]);
+  };
+
+  const addBreak = (weekday: number) => {
+    setBreaks(prev => [...prev, { weekday, start: '13:00', end: '14:00', label: 'Lunch' }]);
+  };
+
+  const handleSaveWeekly = async () => {
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await staffScheduleService.saveWeeklySchedule({ staffId, hours, breaks });
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddException = async () => {
+    try {
+      const created = await staffScheduleService.addException({
+        staffId,
+        date: exceptionForm.date,
+        isDayOff: exceptionForm.isDayOff,
+        start: exceptionForm.isDayOff ? undefined : exceptionForm.start,
+        end: exceptionForm.isDayOff ? undefined : exceptionForm.end,
+        reason: exceptionForm.reason
+      }, user?.id);
+
+      if (created) {
+        setExceptions(prev => [...prev, created].sort((a, b) => a.date.localeCompare(b.date)));
+        setExceptionForm(prev => ({ ...prev, reason: '' }));
+      }
+    } catch (error) {
+      console.error('Error adding exception:', error);
+    }
+  };
+
+  const handleDeleteException = async (id: string) => {
+    try {
+      if (await staffScheduleService.deleteException(id)) {
+        setExceptions(prev => prev.filter(exception => exception.id !== id));
+      }
+    } catch (error) {
+      console.error('Error deleting exception:', error);
+    }
+  };
+
+  const renderRange = (
+    range: WeeklyScheduleRange,
+    setRanges: React.Dispatch<React.SetStateAction<WeeklyScheduleRange[]>>,
+    tone: string,
+    index: number
+  ) => (
+    <div key={`${range.weekday}-${index}`} className={`flex items-center gap-1 px-2 py-1 rounded-lg border ${tone}`}>
+      <input
+        type="time"
+        value={range.start}
+        onChange={(e) => updateRange(setRanges, range, { start: e.target.value })}
+        className="bg-transparent text-sm w-20"
+      />
+      <span className="text-gray-400">-</span>
+      <input
+        type="time"
+        value={range.end}
+        onChange={(e) => updateRange(setRanges, range, { end: e.target.value })}
+        className="bg-transparent text-sm w-20"
+      />
+      <button
+        type="button"
+        onClick={() => setRanges(prev => prev.filter(other => other !== range))}
+        className="p-1 text-gray-400 hover:text-red-600"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+
+  const renderWeekly = () => (
+    <div className="space-y-3">
+      {WEEK_ORDER.map(weekday => {
+        const dayHours = hours.filter(range => range.weekday === weekday);
+        const dayBreaks = breaks.filter(range => range.weekday === weekday);
+
+        return (
+          <div key={weekday} className="flex flex-col md:flex-row md:items-start gap-2 py-3 border-b border-gray-100">
+            <div className="w-28 font-medium text-gray-900 pt-1">{WEEKDAY_NAMES[weekday]}</div>
+            <div className="flex-1 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {dayHours.length === 0 && <span className="text-sm text-gray-400 pt-1">Day off</span>}
+                {dayHours.map((range, index) => renderRange(range, setHours, 'border-green-200 bg-green-50', index))}
+                <button
+                  type="button"
+                  onClick={() => addHours(weekday)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-primary-600 hover:bg-primary-50 rounded-lg"
+                >
+                  <Clock className="w-3 h-3" />
+                  Hours
+                </button>
+                {dayHours.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => addBreak(weekday)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-amber-600 hover:bg-amber-50 rounded-lg"
+                  >
+                    <Coffee className="w-3 h-3" />
+                    Break
+                  </button>
+                )}
+              </div>
+              {dayBreaks.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Coffee className="w-4 h-4 text-amber-500" />
+                  {dayBreaks.map((range, index) => renderRange(range, setBreaks, 'border-amber-200 bg-amber-50', index))}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+          {errors.map(error => (
+            <p key={error} className="text-sm text-red-700 flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderExceptions = () => (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+          <input
+            type="date"
+            min={today()}
+            value={exceptionForm.date}
+            onChange={(e) => setExceptionForm(prev => ({ ...prev, date: e.target.value }))}
+            className="input w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+          <select
+            value={exceptionForm.isDayOff ? 'off' : 'hours'}
+            onChange={(e) => setExceptionForm(prev => ({ ...prev, isDayOff: e.target.value === 'off' }))}
+            className="input w-full"
+          >
+            <option value="off">Day off</option>
+            <option value="hours">Special hours</option>
+          </select>
+        </div>
+        {!exceptionForm.isDayOff && (
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={exceptionForm.start}
+              onChange={(e) => setExceptionForm(prev => ({ ...prev, start: e.target.value }))}
+              className="input w-full"
+            />
+            <span className="text-gray-400">-</span>
+            <input
+              type="time"
+              value={exceptionForm.end}
+              onChange={(e) => setExceptionForm(prev => ({ ...prev, end: e.target.value }))}
+              className="input w-full"
+            />
+          </div>
+        )}
+        <div className={exceptionForm.isDayOff ? 'md:col-span-2' : ''}>
+          <input
+            type="text"
+            value={exceptionForm.reason}
+            onChange={(e) => setExceptionForm(prev => ({ ...prev, reason: e.target.value }))}
+            className="input w-full"
+            placeholder="Reason (optional)"
+          />
+        </div>
+        <div className="md:col-span-2 flex justify-end">
+          <button type="button" onClick={handleAddException} className="btn-primary flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Add exception
+          </button>
+        </div>
+      </div>
+
+      {exceptions.length === 0 ? (
+        <p className="text-center text-gray-500 py-6">No upcoming exceptions</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {exceptions.map(exception => (
+            <div key={exception.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="font-medium text-gray-900">{new Date(`${exception.date}T00:00:00`).toLocaleDateString()}</p>
+                <p className="text-sm text-gray-600">
+                  {exception.isDayOff ? 'Day off' : `${exception.start} - ${exception.end}`}
+                  {exception.reason && ` · ${exception.reason}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDeleteException(exception.id)}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-6 border-b">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-primary-100 rounded-full flex items-center justify-center">
+                  <Clock className="w-5 h-5 text-primary-600" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Schedule</h2>
+                  <p className="text-gray-600 text-sm">{staffName}</p>
+                </div>
+              </div>
+              <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Tabs */}
+            <div className="border-b flex">
+              {[
+                { id: 'weekly' as const, label: 'Weekly hours & breaks', icon: Clock },
+                { id: 'exceptions' as const, label: 'Days off & special hours', icon: CalendarOff }
+              ].map(tab => {
+                const Icon = tab.icon;
+                return (
+                  <button
+                    key={tab.id}
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`flex items-center gap-2 px-4 py-3 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
+                      activeTab === tab.id
+                        ? 'border-primary-500 text-primary-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" />
+                    {tab.label}
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 p-6 overflow-y-auto">
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                </div>
+              ) : activeTab === 'weekly' ? renderWeekly() : renderExceptions()}
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-end gap-3 p-6 border-t bg-gray-50">
+              <button type="button" onClick={onClose} className="btn-secondary">
+                Close
+              </button>
+              {activeTab === 'weekly' && (
+                <button
+                  type="button"
+                  onClick={handleSaveWeekly}
+                  disabled={isSaving || isLoading || errors.length > 0}
+                  className="btn-primary flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  {isSaving ? 'Saving...' : 'Save schedule'}
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default StaffScheduleModal;
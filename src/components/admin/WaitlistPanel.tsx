@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Hourglass, Plus, Trash2, Send, Globe } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Client, Service, WaitlistEntry } from '@/types';
+import { waitlistService } from '@/services/database';
+import { WaitlistEntryState, WaitlistService } from '@/services/WaitlistService';
+import { BookingCalendarService } from '@/services/BookingCalendarService';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface WaitlistPanelProps {
+  clients: Client[];
+  services: Service[];
+  staff: Array<{ id: string; name: string }>;
+}
+
+const STATE_STYLES: Record<WaitlistEntryState, string> = {
+  waiting: 'bg-amber-100 text-amber-800',
+  offered: 'bg-blue-100 text-blue-800',
+  booked: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+  expired: 'bg-gray-100 text-gray-600',
+};
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const EMPTY_FORM = { clientId: '', serviceId: '', staffId: '', dateFrom: '', dateTo: '', notes: '' };
+
+// Clients waiting for a slot; cancelled bookings are offered to them from
+// the bookings list
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ clients, services, staff }) => {
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [showClosed, setShowClosed] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEntries();
+  }, []);
+
+  const fetchEntries = async () => {
+    try {
+      setIsLoading(true);
+      setEntries(await waitlistService.getAll());
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!form.clientId || !form.serviceId || !form.dateFrom || !form.dateTo) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+    if (form.dateTo < form.dateFrom) {
+      toast.error('The last date is before the first');
+      return;
+    }
+
+    try {
+      const created = await waitlistService.create(form);
+      if (created) {
+        setEntries(prev => [...prev, created]);
+        setForm(EMPTY_FORM);
+        setShowForm(false);
+      }
+    } catch (error) {
+      console.error('Error adding to waitlist:', error);
+    }
+  };
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    if (!confirm(`Remove ${clients.find(c => c.id === entry.clientId)?.name || 'this client'} from the waitlist?`)) return;
+
+    try {
+      if (await waitlistService.cancel(entry.id)) {
+        setEntries(prev => prev.map(e => e.id === entry.id ? { ...e, status: 'cancelled' } : e));
+      }
+    } catch (error) {
+      console.error('Error removing from waitlist:', error);
+    }
+  };
+
+  const today = BookingCalendarService.toLocalDate(new Date());
+  const shownEntries = entries.filter(entry => {
+    const state = WaitlistService.entryState(entry, today);
+    return showClosed || state === 'waiting' || state === 'offered';
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('waitlist.title')}</h2>
+          <p className="text-gray-600">{t('waitlist.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={(e) => setShowClosed(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            {t('waitlist.showClosed')}
+          </label>
+          <button onClick={() => setShowForm(prev => !prev)} className="btn-primary flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            {t('waitlist.add')}
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-4 bg-gray-50 rounded-lg">
+          <select
+            value={form.clientId}
+            onChange={(e) => setForm(prev => ({ ...prev, clientId: e.target.value }))}
+            className="input"
+          >
+            <option value="">{t('waitlist.selectClient')}</option>
+            {clients.map(client => (
+              <option key={client.id} value={client.id}>{client.name} - {client.phone}</option>
+            ))}
+          </select>
+          <select
+            value={form.serviceId}
+            onChange={(e) => setForm(prev => ({ ...prev, serviceId: e.target.value }))}
+            className="input"
+          >
+            <option value="">{t('waitlist.selectService')}</option>
+            {services.map(service => (
+              <option key={service.id} value={service.id}>{service.name}</option>
+            ))}
+          </select>
+          <select
+            value={form.staffId}
+            onChange={(e) => setForm(prev => ({ ...prev, staffId: e.target.value }))}
+            className="input"
+          >
+            <option value="">{t('waitlist.anyStaff')}</option>
+            {staff.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">{t('waitlist.from')}</label>
+            <input
+              type="date"
+              value={form.dateFrom}
+              min={today}
+              onChange={(e) => setForm(prev => ({ ...prev, dateFrom: e.target.value }))}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">{t('waitlist.to')}</label>
+            <input
+              type="date"
+              value={form.dateTo}
+              min={form.dateFrom || today}
+              onChange={(e) => setForm(prev => ({ ...prev, dateTo: e.target.value }))}
+              className="input w-full"
+            />
+          </div>
+          <div className="flex items-end gap-2">
+            <input
+              type="text"
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              className="input flex-1"
+              placeholder={t('bookings.notes')}
+            />
+            <button onClick={handleAdd} className="btn-primary">
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {shownEntries.length === 0 ? (
+        <div className="text-center py-10">
+          <Hourglass className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">{t('waitlist.empty')}</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {shownEntries.map((entry, index) => {
+            const state = WaitlistService.entryState(entry, today);
+            const lastOffer = entry.offers[0];
+
+            return (
+              <motion.div
+                key={entry.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-4"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-900">{clients.find(c => c.id === entry.clientId)?.name || 'Client'}</span>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATE_STYLES[state]}`}>
+                      {t(`waitlist.states.${state}`)}
+                    </span>
+                    {entry.source === 'public' && (
+                      <span title={t('waitlist.fromBookingPage')}>
+                        <Globe className="w-4 h-4 text-gray-400" />
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {services.find(s => s.id === entry.serviceId)?.name}
+                    {' · '}{entry.staffId ? staff.find(s => s.id === entry.staffId)?.name : t('waitlist.anyStaff')}
+                    {' · '}{formatDate(entry.dateFrom)} - {formatDate(entry.dateTo)}
+                  </p>
+                  {lastOffer && (
+                    <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                      <Send className="w-3 h-3" />
+                      {t('waitlist.lastOffer')}: {new Date(lastOffer.startAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                      {' · '}{t(`waitlist.offerStates.${WaitlistService.offerStatus(lastOffer)}`)}
+                    </p>
+                  )}
+                  {entry.notes && <p className="text-sm text-gray-500 mt-1">{entry.notes}</p>}
+                </div>
+                {(state === 'waiting' || state === 'offered') && (
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                    title={t('waitlist.remove')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WaitlistPanel;
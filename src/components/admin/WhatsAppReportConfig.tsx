@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Play, Pause, Send, Settings, Clock, MessageCircle, TestTube, Phone } from 'lucide-react';
+import { Play, Pause, Send, Settings, Clock, MessageCircle, TestTube, Phone, Bell } from 'lucide-react';
 import { schedulerService } from '@/services/schedulerService';
 import { whatsappService } from '@/services/whatsappService';
 import { dailyReportService } from '@/services/dailyReportService';
@@ -221,11 +221,74 @@ const WhatsAppReportConfig: React.FC = () => {
                 />
                 Mode test
               </label>
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={config.includeCashDiscrepancies}
+                  onChange={(e) => handleConfigUpdate('includeCashDiscrepancies', e.target.checked)}
+                  className="mr-2"
+                />
+                Écarts de caisse
+              </label>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Client confirmations and reminders */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+          <Bell className="w-5 h-5" />
+          Confirmations et rappels clients
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Les clients reçoivent une confirmation quand ils réservent en ligne et un rappel avant leur rendez-vous.
+          Ils répondent 1 pour confirmer ou 2 pour annuler.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={config.bookingMessagesEnabled}
+              onChange={(e) => handleConfigUpdate('bookingMessagesEnabled', e.target.checked)}
+              className="mr-2"
+            />
+            Messages aux clients activés
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Rappel (heures avant le rendez-vous)
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={72}
+              value={config.reminderHoursBefore}
+              onChange={(e) => handleConfigUpdate('reminderHoursBefore', Math.max(1, Number(e.target.value) || 1))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Langue par défaut
+            </label>
+            <select
+              value={config.messageLanguage}
+              onChange={(e) => handleConfigUpdate('messageLanguage', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="fr">Français</option>
+              <option value="ar">العربية</option>
+              <option value="en">English</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
       {/* Controls */}
       <div className="bg-white rounded-lg shadow-sm p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -0,0 +1,146 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { CompleteSaleRequest } from '@/types';
+import { saleService } from '@/services/database';
+import { offlineStore, OFFLINE_QUEUE_EVENT } from '@/services/offlineStore';
+import { OfflineSyncService, QueuedSale } from '@/services/OfflineSyncService';
+import { useAuth } from './AuthContext';
+
+interface OfflineSyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  queue: QueuedSale[];
+  pendingCount: number;
+  rejected: QueuedSale[]; // conflicts and failures waiting for staff
+  queueSale: (sale: CompleteSaleRequest, clientName: string) => Promise<QueuedSale>;
+  syncNow: () => Promise<void>;
+  retrySale: (requestKey: string) => Promise<void>;
+  discardSale: (requestKey: string) => Promise<void>;
+}
+
+const OfflineSyncContext = createContext<OfflineSyncContextType | undefined>(undefined);
+
+export const useOfflineSync = () => {
+  const context = useContext(OfflineSyncContext);
+  if (!context) {
+    throw new Error('useOfflineSync must be used within an OfflineSyncProvider');
+  }
+  return context;
+};
+
+export const OfflineSyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(() => (typeof navigator === 'undefined' ? true : navigator.onLine));
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [queue, setQueue] = useState<QueuedSale[]>([]);
+  const syncInProgress = useRef(false);
+
+  const loadQueue = useCallback(async () => {
+    const entries = await offlineStore.getQueuedSales();
+    setQueue(OfflineSyncService.orderQueue(entries));
+    return entries;
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (syncInProgress.current || !user || !navigator.onLine) return;
+
+    syncInProgress.current = true;
+    setIsSyncing(true);
+
+    try {
+      const entries = await offlineStore.getQueuedSales();
+      if (OfflineSyncService.getPendingCount(entries) === 0) return;
+
+      // Each sale leaves the queue as soon as the server has it, so a reload
+      // mid-sync never submits it again under a new receipt
+      const result = await OfflineSyncService.syncQueue(entries, async sale => {
+        const response = await saleService.createCompleteSale(sale);
+        if (response) {
+          await offlineStore.removeQueuedSale(sale.requestKey);
+        }
+        return response;
+      });
+
+      for (const entry of [...result.conflicts, ...result.failed]) {
+        await offlineStore.updateQueuedSale(entry);
+      }
+
+      if (result.synced.length > 0) {
+        toast.success(`${result.synced.length} offline sale(s) synced`);
+      }
+      if (result.conflicts.length > 0) {
+        toast.error(`${result.conflicts.length} offline sale(s) could not sync: stock changed since they were made`);
+      }
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} offline sale(s) were rejected by the server`);
+      }
+    } finally {
+      syncInProgress.current = false;
+      setIsSyncing(false);
+      await loadQueue();
+    }
+  }, [user, loadQueue]);
+
+  const queueSale = useCallback(async (sale: CompleteSaleRequest, clientName: string) => {
+    const entry = OfflineSyncService.createQueuedSale(sale, clientName);
+    await offlineStore.enqueueSale(entry);
+    return entry;
+  }, []);
+
+  const retrySale = useCallback(async (requestKey: string) => {
+    const entry = queue.find(queued => queued.requestKey === requestKey);
+    if (!entry) return;
+
+    await offlineStore.updateQueuedSale({ ...entry, status: 'pending' });
+    await syncNow();
+  }, [queue, syncNow]);
+
+  const discardSale = useCallback(async (requestKey: string) => {
+    await offlineStore.removeQueuedSale(requestKey);
+    toast.success('Offline sale discarded');
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleQueueChanged = () => {
+      loadQueue();
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener(OFFLINE_QUEUE_EVENT, handleQueueChanged);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener(OFFLINE_QUEUE_EVENT, handleQueueChanged);
+    };
+  }, [syncNow, loadQueue]);
+
+  // Sales queued before the app was closed sync as soon as someone signs in online
+  useEffect(() => {
+    loadQueue().then(() => syncNow());
+  }, [loadQueue, syncNow]);
+
+  const value: OfflineSyncContextType = {
+    isOnline,
+    isSyncing,
+    queue,
+    pendingCount: OfflineSyncService.getPendingCount(queue),
+    rejected: OfflineSyncService.getRejected(queue),
+    queueSale,
+    syncNow,
+    retrySale,
+    discardSale,
+  };
+
+  return (
+    <OfflineSyncContext.Provider value={value}>
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Routes, Route, useLocation, useNavigate, Navigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
@@ -19,6 +19,8 @@ import {
   MessageCircle,
 } from 'lucide-react';
 import Logo from '@/components/Logo';
+import PendingSyncIndicator from '@/components/PendingSyncIndicator';
+import { schedulerService } from '@/services/schedulerService';
 
 // Admin Pages
 import Dashboard from '@/pages/admin/Dashboard';
@@ -41,6 +43,13 @@ const AdminLayout: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
 
+  // Client confirmations and reminders go out while an admin is signed in,
+  // not only once the WhatsApp page has been opened
+  useEffect(() => {
+    schedulerService.loadConfig();
+    schedulerService.start();
+  }, []);
+
   const navigation = [
     { name: t('navigation.dashboard'), href: '/admin/dashboard', icon: LayoutDashboard },
     { name: t('navigation.clients'), href: '/admin/clients', icon: Users },
@@ -115,6 +124,8 @@ const AdminLayout: React.FC = () => {
 
         {/* Footer */}
         <div className="p-4 border-t border-gray-200 space-y-4">
+          <PendingSyncIndicator compact={collapsed} />
+
           {/* Language Selector */}
           {!collapsed && (
             <div className="space-y-2">
@@ -182,7 +193,9 @@ const AdminLayout: React.FC = () => {
               <Menu className="w-6 h-6 text-gray-700" />
             </button>
             <Logo size="sm" variant="light" />
-            <div className="w-10" />
+            <div className="w-10 flex justify-end">
+              <PendingSyncIndicator compact placement="down" />
+            </div>
           </div>
         </header>
 
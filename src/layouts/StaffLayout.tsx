@@ -8,6 +8,7 @@ import {
   Percent,
   Users,
   Calendar,
+  CalendarOff,
   LogOut,
   Menu,
   X,
@@ -15,12 +16,14 @@ import {
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import Logo from '@/components/Logo';
+import PendingSyncIndicator from '@/components/PendingSyncIndicator';
 
 // Staff Pages
 import StaffPOS from '@/pages/staff/StaffPOS';
 import StaffCommissions from '@/pages/staff/StaffCommissions';
 import StaffClients from '@/pages/staff/StaffClients';
 import StaffBookings from '@/pages/staff/StaffBookings';
+import StaffSchedule from '@/pages/staff/StaffSchedule';
 
 const StaffLayout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -32,6 +35,7 @@ const StaffLayout: React.FC = () => {
   const navigation = [
     { name: t('navigation.newSale'), href: '/', icon: ShoppingCart },
     { name: t('navigation.myAppointments'), href: '/staff/bookings', icon: Calendar },
+    { name: t('navigation.mySchedule'), href: '/staff/schedule', icon: CalendarOff },
     { name: t('navigation.myCommissions'), href: '/staff/commissions', icon: Percent },
     { name: t('navigation.clientHistory'), href: '/staff/clients', icon: Users },
   ];
@@ -82,6 +86,8 @@ const StaffLayout: React.FC = () => {
 
         {/* Footer */}
         <div className="p-4 border-t border-gray-200 space-y-4">
+          <PendingSyncIndicator />
+
           {/* Language Selector */}
           <div className="space-y-2">
             <label className="text-xs text-gray-600 uppercase tracking-wider font-medium">
@@ -231,7 +237,9 @@ const StaffLayout: React.FC = () => {
               <Menu className="w-6 h-6 text-gray-700" />
             </button>
             <Logo size="sm" variant="light" />
-            <div className="w-10" />
+            <div className="w-10 flex justify-end">
+              <PendingSyncIndicator compact placement="down" />
+            </div>
           </div>
         </header>
 
@@ -241,6 +249,7 @@ const StaffLayout: React.FC = () => {
             <Routes>
               <Route path="/" element={<StaffPOS />} />
               <Route path="/staff/bookings" element={<StaffBookings />} />
+              <Route path="/staff/schedule" element={<StaffSchedule />} />
               <Route path="/staff/commissions" element={<StaffCommissions />} />
               <Route path="/staff/clients" element={<StaffClients />} />
               <Route path="/staff/*" element={<Navigate to="/" replace />} />
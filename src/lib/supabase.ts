@@ -218,8 +218,8 @@ export interface Database {
           staff_id: string;
           products: any;
           total_amount: number;
-          payment_method: 'cash' | 'card' | 'transfer';
-          status: 'completed' | 'refunded';
+          payment_method: 'cash' | 'card' | 'transfer' | 'mixed';
+          status: 'completed' | 'partially_refunded' | 'refunded' | 'voided';
           notes?: string;
           created_at: string;
         };
@@ -230,8 +230,8 @@ export interface Database {
           staff_id: string;
           products: any;
           total_amount: number;
-          payment_method: 'cash' | 'card' | 'transfer';
-          status?: 'completed' | 'refunded';
+          payment_method: 'cash' | 'card' | 'transfer' | 'mixed';
+          status?: 'completed' | 'partially_refunded' | 'refunded' | 'voided';
           notes?: string;
           created_at?: string;
         };
@@ -242,8 +242,8 @@ export interface Database {
           staff_id?: string;
           products?: any;
           total_amount?: number;
-          payment_method?: 'cash' | 'card' | 'transfer';
-          status?: 'completed' | 'refunded';
+          payment_method?: 'cash' | 'card' | 'transfer' | 'mixed';
+          status?: 'completed' | 'partially_refunded' | 'refunded' | 'voided';
           notes?: string;
           created_at?: string;
         };
@@ -225,8 +225,8 @@ export interface Database {
           staff_id: string;
           products: any;
           total_amount: number;
-          payment_method: 'cash' | 'card' | 'transfer';
-          status: 'completed' | 'refunded';
+          payment_method: 'cash' | 'card' | 'transfer' | 'mixed';
+          status: 'completed' | 'partially_refunded' | 'refunded' | 'voided';
           notes?: string;
           created_at: string;
         };
@@ -237,8 +237,8 @@ export interface Database {
           staff_id: string;
           products: any;
           total_amount: number;
-          payment_method: 'cash' | 'card' | 'transfer';
-          status?: 'completed' | 'refunded';
+          payment_method: 'cash' | 'card' | 'transfer' | 'mixed';
+          status?: 'completed' | 'partially_refunded' | 'refunded' | 'voided';
           notes?: string;
           created_at?: string;
         };
@@ -249,8 +249,8 @@ export interface Database {
           staff_id?: string;
           products?: any;
           total_amount?: number;
-          payment_method?: 'cash' | 'card' | 'transfer';
-          status?: 'completed' | 'refunded';
+          payment_method?: 'cash' | 'card' | 'transfer' | 'mixed';
+          status?: 'completed' | 'partially_refunded' | 'refunded' | 'voided';
           notes?: string;
           created_at?: string;
         };
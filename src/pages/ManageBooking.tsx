@@ -0,0 +1,316 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Calendar, Clock, User, Scissors, XCircle, CheckCircle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import Logo from '@/components/Logo';
+import { useLanguage } from '../contexts/LanguageContext';
+import { BookingValidationService, AvailabilityResult, MINIMUM_ADVANCE_MINUTES } from '@/services/BookingValidationService';
+import { ManagedBooking, ManagedBookings } from '@/types';
+
+const bookingValidationService = new BookingValidationService();
+
+interface RescheduleForm {
+  bookingId: string;
+  date: string;
+  staffId: string;
+  time: string;
+}
+
+// Manage link sent with booking confirmations and reminders: the client's
+// upcoming bookings, which they can cancel or move until the notice window
+const ManageBooking: React.FC = () => {
+  const { t } = useLanguage();
+  const { token } = useParams<{ token: string }>();
+  const [managed, setManaged] = useState<ManagedBookings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [working, setWorking] = useState(false);
+  const [reschedule, setReschedule] = useState<RescheduleForm | null>(null);
+  const [availability, setAvailability] = useState<AvailabilityResult>({ staff: [], slots: [] });
+  const [loadingSlots, setLoadingSlots] = useState(false);
+
+  const moving = managed?.bookings.find(booking => booking.id === reschedule?.bookingId);
+
+  useEffect(() => {
+    loadBookings();
+  }, [token]);
+
+  useEffect(() => {
+    loadAvailability();
+  }, [reschedule?.bookingId, reschedule?.date]);
+
+  const loadBookings = async () => {
+    try {
+      const { data, error: loadError } = await supabase.rpc('get_managed_bookings', { p_token: token });
+      if (loadError) throw loadError;
+      setManaged(data as ManagedBookings | null);
+    } catch (loadError) {
+      console.error('Error loading managed bookings:', loadError);
+      setError(t('manageBooking.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Free slots for the booking being moved; its own time counts as free
+  const loadAvailability = async () => {
+    if (!moving || !reschedule?.date) {
+      setAvailability({ staff: [], slots: [] });
+      return;
+    }
+
+    setLoadingSlots(true);
+    try {
+      const result = await bookingValidationService.getAvailableSlots(moving.serviceId, {
+        date: reschedule.date,
+        durationMinutes: moving.duration,
+        bufferMinutes: moving.bufferMinutes,
+        minimumAdvanceMinutes: MINIMUM_ADVANCE_MINUTES,
+        ignoreBooking: { staffId: moving.staffId, startTime: moving.startAt },
+      });
+      setAvailability(result);
+    } catch (loadError) {
+      console.error('Error loading availability:', loadError);
+      setAvailability({ staff: [], slots: [] });
+      toast.error(t('manageBooking.changeError'));
+    } finally {
+      setLoadingSlots(false);
+    }
+  };
+
+  // Errors raised by the manage_* functions in booking-manage.sql
+  const showChangeError = (changeError: any) => {
+    const message = changeError?.message || '';
+    if (/no longer valid/i.test(message)) {
+      setManaged(null);
+      setError(t('manageBooking.notFound'));
+    } else if (/too late/i.test(message)) {
+      toast.error(t('manageBooking.tooLate'));
+      loadBookings();
+    } else if (/no longer available/i.test(message)) {
+      toast.error(t('manageBooking.slotTaken'));
+      loadAvailability();
+    } else {
+      toast.error(t('manageBooking.changeError'));
+    }
+  };
+
+  const handleCancel = async (booking: ManagedBooking) => {
+    if (!window.confirm(t('manageBooking.confirmCancel'))) return;
+
+    setWorking(true);
+    try {
+      const { error: cancelError } = await supabase.rpc('cancel_managed_booking', {
+        p_token: token,
+        p_booking_id: booking.id,
+      });
+      if (cancelError) throw cancelError;
+
+      toast.success(t('manageBooking.cancelled'));
+      setReschedule(null);
+      await loadBookings();
+    } catch (cancelError) {
+      console.error('Error cancelling booking:', cancelError);
+      showChangeError(cancelError);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleReschedule = async () => {
+    const slot = availability.slots.find(candidate => candidate.time === reschedule?.time);
+    if (!reschedule || !slot) return;
+
+    setWorking(true);
+    try {
+      const { error: moveError } = await supabase.rpc('reschedule_managed_booking', {
+        p_token: token,
+        p_booking_id: reschedule.bookingId,
+        p_change: { startAt: slot.startTime, staffId: reschedule.staffId || null },
+      });
+      if (moveError) throw moveError;
+
+      toast.success(t('manageBooking.rescheduled'));
+      setReschedule(null);
+      await loadBookings();
+    } catch (moveError) {
+      console.error('Error rescheduling booking:', moveError);
+      showChangeError(moveError);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-cream-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+      </div>
+    );
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const slotTimes = availability.slots
+    .filter(slot => !reschedule?.staffId || slot.staffIds.includes(reschedule.staffId))
+    .map(slot => slot.time);
+
+  return (
+    <div className="min-h-screen bg-cream-50 flex items-center justify-center px-4 py-12">
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="max-w-lg w-full mx-auto bg-white rounded-2xl shadow-elegant p-8"
+      >
+        <div className="flex justify-center mb-6">
+          <Logo size="lg" variant="light" />
+        </div>
+
+        {!managed ? (
+          <div className="text-center">
+            <XCircle className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">{error || t('manageBooking.notFound')}</p>
+          </div>
+        ) : (
+          <>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2 text-center">{t('manageBooking.title')}</h2>
+            <p className="text-gray-600 mb-2 text-center">{managed.clientName}</p>
+            <p className="text-sm text-gray-500 mb-6 text-center">
+              {t('manageBooking.policy').replace('{hours}', String(managed.cancellationNoticeHours))}
+            </p>
+
+            {managed.bookings.length === 0 ? (
+              <div className="text-center">
+                <CheckCircle className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-600">{t('manageBooking.noBookings')}</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {managed.bookings.map((booking) => {
+                  const start = new Date(booking.startAt);
+                  const isMoving = reschedule?.bookingId === booking.id;
+
+                  return (
+                    <div key={booking.id} className="p-4 bg-gray-50 rounded-xl text-gray-700">
+                      <div className="space-y-2">
+                        <div className="flex items-center">
+                          <Scissors className="h-4 w-4 mr-2 text-primary-500" />
+                          {booking.serviceName}
+                        </div>
+                        <div className="flex items-center">
+                          <User className="h-4 w-4 mr-2 text-primary-500" />
+                          {booking.staffName}
+                        </div>
+                        <div className="flex items-center">
+                          <Calendar className="h-4 w-4 mr-2 text-primary-500" />
+                          {start.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' })}
+                        </div>
+                        <div className="flex items-center">
+                          <Clock className="h-4 w-4 mr-2 text-primary-500" />
+                          {start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+                        </div>
+                      </div>
+
+                      {!booking.canChange ? (
+                        <p className="mt-3 text-sm text-gray-500">{t('manageBooking.tooLate')}</p>
+                      ) : isMoving ? (
+                        <div className="mt-4 space-y-3">
+                          <input
+                            type="date"
+                            min={today}
+                            value={reschedule.date}
+                            onChange={(e) => setReschedule({ ...reschedule, date: e.target.value, time: '' })}
+                            className="input-field w-full"
+                          />
+
+                          {availability.staff.length > 1 && (
+                            <select
+                              value={reschedule.staffId}
+                              onChange={(e) => setReschedule({ ...reschedule, staffId: e.target.value, time: '' })}
+                              className="input-field w-full"
+                            >
+                              <option value="">{t('publicBooking.anyStaff')}</option>
+                              {availability.staff.map((member) => (
+                                <option key={member.staffId} value={member.staffId}>{member.name}</option>
+                              ))}
+                            </select>
+                          )}
+
+                          <select
+                            value={reschedule.time}
+                            onChange={(e) => setReschedule({ ...reschedule, time: e.target.value })}
+                            className="input-field w-full"
+                            disabled={!reschedule.date || loadingSlots || slotTimes.length === 0}
+                          >
+                            <option value="">
+                              {!reschedule.date
+                                ? t('manageBooking.chooseDate')
+                                : loadingSlots
+                                  ? t('publicBooking.loadingSlots')
+                                  : slotTimes.length === 0
+                                    ? t('publicBooking.noSlots')
+                                    : t('publicBooking.chooseTime')}
+                            </option>
+                            {slotTimes.map((time) => (
+                              <option key={time} value={time}>{time}</option>
+                            ))}
+                          </select>
+
+                          <div className="flex gap-3">
+                            <button
+                              onClick={handleReschedule}
+                              disabled={working || !reschedule.time}
+                              className="btn-primary flex-1 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {working ? t('manageBooking.saving') : t('manageBooking.confirmReschedule')}
+                            </button>
+                            <button
+                              onClick={() => setReschedule(null)}
+                              disabled={working}
+                              className="btn-secondary flex-1 py-2"
+                            >
+                              {t('manageBooking.back')}
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="mt-4 flex gap-3">
+                          {/* Several services chain staff and times together, so the salon moves those */}
+                          {booking.hasSegments ? (
+                            <p className="flex-1 text-sm text-gray-500">{t('manageBooking.callToMove')}</p>
+                          ) : (
+                            <button
+                              onClick={() => setReschedule({ bookingId: booking.id, date: '', staffId: '', time: '' })}
+                              disabled={working}
+                              className="btn-secondary flex-1 py-2"
+                            >
+                              {t('manageBooking.reschedule')}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleCancel(booking)}
+                            disabled={working}
+                            className="flex-1 py-2 rounded-xl border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                          >
+                            {t('manageBooking.cancel')}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+
+        <Link to="/booking" className="block mt-6 text-center text-sm text-primary-600 hover:text-primary-700">
+          {t('manageBooking.bookAnother')}
+        </Link>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ManageBooking;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, Clock, User, Phone, Mail, MapPin, Star, Scissors, CheckCircle } from 'lucide-react';
+import { Calendar, Clock, User, Phone, Mail, MapPin, Star, Scissors, CheckCircle, Hourglass } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { serviceService, clientService, bookingService } from '@/services/database';
 import { supabase } from '../lib/supabase';
@@ -7,6 +7,8 @@ import toast from 'react-hot-toast';
 import Logo from '@/components/Logo';
 import { useLanguage } from '../contexts/LanguageContext';
 import { normalizePhoneNumber } from '../utils/phone';
+import { SALON_TIME_ZONE, salonToday } from '../utils/salonTime';
+import { BookingValidationService, AvailabilityResult, ChainSlot, MINIMUM_ADVANCE_MINUTES } from '@/services/BookingValidationService';
 
 interface Service {
   id: string;
@@ -14,13 +16,14 @@ interface Service {
   description?: string;
   price: number;
   duration: number;
+  bufferMinutes?: number;
   category: string;
-  assigned_staff: string[];
   isActive: boolean;
 }
 
 interface BookingForm {
-  serviceId: string;
+  serviceIds: string[]; // in the order performed; several are booked back to back
+  staffId: string; // '' lets the salon pick whoever is free
   date: string;
   time: string;
   customerName: string;
@@ -29,14 +32,25 @@ interface BookingForm {
   notes: string;
 }
 
+const bookingValidationService = new BookingValidationService();
+
 const PublicBooking: React.FC = () => {
-  const { t } = useLanguage();
+  const { t, currentLanguage } = useLanguage();
   const [services, setServices] = useState<Service[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [availability, setAvailability] = useState<AvailabilityResult>({ staff: [], slots: [] });
+  const [chainSlots, setChainSlots] = useState<ChainSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  // Joining the waitlist instead of booking: the chosen date is the first
+  // one the client can come, waitlistUntil the last
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [waitlistUntil, setWaitlistUntil] = useState('');
+  const [joinedWaitlist, setJoinedWaitlist] = useState(false);
   const [formData, setFormData] = useState<BookingForm>({
-    serviceId: '',
+    serviceIds: [],
+    staffId: '',
     date: '',
     time: '',
     customerName: '',
@@ -45,10 +59,26 @@ const PublicBooking: React.FC = () => {
     notes: ''
   });
 
+  const selectedServices = formData.serviceIds
+    .map(id => services.find(s => s.id === id))
+    .filter((service): service is Service => !!service);
+  const isMultiService = selectedServices.length > 1;
+
+  // Slots free for the preferred stylist, or for anyone when there is no preference
+  const availableSlots = availability.slots.filter(slot =>
+    !formData.staffId || slot.staffIds.includes(formData.staffId)
+  );
+  const slotTimes = isMultiService ? chainSlots.map(slot => slot.time) : availableSlots.map(slot => slot.time);
+  const chosenChainSlot = chainSlots.find(slot => slot.time === formData.time);
+
   useEffect(() => {
     loadServices();
   }, []);
 
+  useEffect(() => {
+    loadAvailability();
+  }, [formData.serviceIds.join(','), formData.date, services]);
+
   const loadServices = async () => {
     try {
       const servicesData = await serviceService.getAll();
@@ -62,91 +92,97 @@ const PublicBooking: React.FC = () => {
     }
   };
 
+  const loadAvailability = async () => {
+    const [service] = selectedServices;
+    if (!service || !formData.date) {
+      setAvailability({ staff: [], slots: [] });
+      setChainSlots([]);
+      return;
+    }
 
+    setLoadingSlots(true);
+    try {
+      if (isMultiService) {
+        // Each service goes to whoever offers it and is free when the previous one ends
+        const result = await bookingValidationService.getAvailableChainSlots(
+          selectedServices.map(selected => ({
+            serviceId: selected.id,
+            durationMinutes: selected.duration,
+            bufferMinutes: selected.bufferMinutes || 0,
+          })),
+          { date: formData.date, minimumAdvanceMinutes: MINIMUM_ADVANCE_MINUTES }
+        );
+        setAvailability({ staff: result.staff, slots: [] });
+        setChainSlots(result.slots);
+      } else {
+        const result = await bookingValidationService.getAvailableSlots(service.id, {
+          date: formData.date,
+          durationMinutes: service.duration,
+          bufferMinutes: service.bufferMinutes || 0,
+          minimumAdvanceMinutes: MINIMUM_ADVANCE_MINUTES,
+        });
+        setAvailability(result);
+        setChainSlots([]);
+      }
+    } catch (error) {
+      console.error('Error loading availability:', error);
+      setAvailability({ staff: [], slots: [] });
+      setChainSlots([]);
+      toast.error(t('publicBooking.bookingError'));
+    } finally {
+      setLoadingSlots(false);
+    }
+  };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // The client booking online, found by phone or created
+  const findOrCreateClient = async (): Promise<string> => {
+    let clientId: string | null = null;
     
-    // More specific validation with detailed error messages
-    const missingFields = [];
-    if (!formData.serviceId) missingFields.push('Service');
-    if (!formData.date) missingFields.push('Date');
-    if (!formData.time) missingFields.push('Time');
-    if (!formData.customerName.trim()) missingFields.push('Full Name');
-    if (!formData.customerPhone.trim()) missingFields.push('Phone Number');
+    // Normalize phone number (remove spaces, dashes, and other formatting)
+    const normalizedPhone = normalizePhoneNumber(formData.customerPhone);
     
-    if (missingFields.length > 0) {
-      toast.error(`Please fill in: ${missingFields.join(', ')}`);
-      return;
-    }
-
-    setSubmitting(true);
+    // Function to find existing client by phone
+    const findExistingClient = async (phone: string) => {
+      const { data: existingClients } = await supabase
+        .from('clients')
+        .select('id')
+        .eq('phone', phone)
+        .limit(1);
+      return existingClients && existingClients.length > 0 ? existingClients[0].id : null;
+    };
+
+    // Check if client exists by normalized phone
+    clientId = await findExistingClient(normalizedPhone);
     
-    try {
-      // First, create or find the client
-      let clientId = null;
-      
-      // Normalize phone number (remove spaces, dashes, and other formatting)
-      const normalizedPhone = normalizePhoneNumber(formData.customerPhone);
-      
-      // Function to find existing client by phone
-      const findExistingClient = async (phone: string) => {
-        const { data: existingClients } = await supabase
-          .from('clients')
-          .select('id')
-          .eq('phone', phone)
-          .limit(1);
-        return existingClients && existingClients.length > 0 ? existingClients[0].id : null;
-      };
-
-      // Check if client exists by normalized phone
-      clientId = await findExistingClient(normalizedPhone);
-      
-      if (!clientId) {
-        // Also check with original phone format in case it was already stored differently
-        if (normalizedPhone !== formData.customerPhone) {
-          clientId = await findExistingClient(formData.customerPhone);
-        }
+    if (!clientId) {
+      // Also check with original phone format in case it was already stored differently
+      if (normalizedPhone !== formData.customerPhone) {
+        clientId = await findExistingClient(formData.customerPhone);
       }
+    }
 
-      if (!clientId) {
-        // Create new client with normalized phone
-        try {
-          const { data: newClient, error: clientError } = await supabase
-            .from('clients')
-            .insert({
-              name: formData.customerName.trim(),
-              phone: normalizedPhone,
-              email: formData.customerEmail?.trim() || null,
-              notes: formData.notes?.trim() || null,
-              total_visits: 0,
-              total_spent: 0
-            })
-            .select()
-            .single();
-
-          if (clientError) {
-            // Check if it's a unique constraint violation (duplicate phone)
-            if (clientError.code === '23505' && clientError.message.includes('phone')) {
-              console.log('Phone number already exists, attempting to find existing client...');
-              // Try to find the existing client again (race condition handling)
-              clientId = await findExistingClient(normalizedPhone);
-              if (!clientId) {
-                clientId = await findExistingClient(formData.customerPhone);
-              }
-              if (!clientId) {
-                throw new Error('Unable to create or find client with this phone number');
-              }
-            } else {
-              throw clientError;
-            }
-          } else {
-            clientId = newClient.id;
-          }
-        } catch (error: any) {
-          // Additional safety check for unique constraint violations
-          if (error.code === '23505' && error.message.includes('phone')) {
-            console.log('Duplicate phone detected, searching for existing client...');
+    if (!clientId) {
+      // Create new client with normalized phone
+      try {
+        const { data: newClient, error: clientError } = await supabase
+          .from('clients')
+          .insert({
+            name: formData.customerName.trim(),
+            phone: normalizedPhone,
+            email: formData.customerEmail?.trim() || null,
+            notes: formData.notes?.trim() || null,
+            language: currentLanguage.code, // confirmations and reminders follow the page's language
+            total_visits: 0,
+            total_spent: 0
+          })
+          .select()
+          .single();
+
+        if (clientError) {
+          // Check if it's a unique constraint violation (duplicate phone)
+          if (clientError.code === '23505' && clientError.message.includes('phone')) {
+            console.log('Phone number already exists, attempting to find existing client...');
+            // Try to find the existing client again (race condition handling)
             clientId = await findExistingClient(normalizedPhone);
             if (!clientId) {
               clientId = await findExistingClient(formData.customerPhone);
@@ -155,67 +191,153 @@ const PublicBooking: React.FC = () => {
               throw new Error('Unable to create or find client with this phone number');
             }
           } else {
-            throw error;
+            throw clientError;
           }
+        } else {
+          clientId = newClient.id;
         }
-      }
-
-      // Get the selected service details
-      const selectedService = services.find(s => s.id === formData.serviceId);
-      if (!selectedService) throw new Error('Service not found');
-
-      // Get available staff for this service (use first available staff member)
-      let staffId = null;
-      if (selectedService.assigned_staff && selectedService.assigned_staff.length > 0) {
-        staffId = selectedService.assigned_staff[0];
-      } else {
-        // Get any staff member if no specific assignment
-        const { data: staffData } = await supabase
-          .from('users')
-          .select('id')
-          .eq('role', 'staff')
-          .limit(1);
-        
-        if (staffData && staffData.length > 0) {
-          staffId = staffData[0].id;
+      } catch (error: any) {
+        // Additional safety check for unique constraint violations
+        if (error.code === '23505' && error.message.includes('phone')) {
+          console.log('Duplicate phone detected, searching for existing client...');
+          clientId = await findExistingClient(normalizedPhone);
+          if (!clientId) {
+            clientId = await findExistingClient(formData.customerPhone);
+          }
+          if (!clientId) {
+            throw new Error('Unable to create or find client with this phone number');
+          }
+        } else {
+          throw error;
         }
       }
+    }
 
-      if (!staffId) {
-        // If no staff found, use a default staff ID or create a booking without staff assignment
-        toast.error('No staff available for this service. Please contact us directly.');
-        return;
-      }
+    if (!clientId) throw new Error('Unable to create or find client with this phone number');
+    return clientId;
+  };
 
-      // Create the booking
-      const startDateTime = new Date(`${formData.date}T${formData.time}`);
-      const endDateTime = new Date(startDateTime.getTime() + selectedService.duration * 60000);
+  const handleJoinWaitlist = async () => {
+    if (selectedServices.length !== 1 || !formData.date || !waitlistUntil ||
+        !formData.customerName.trim() || !formData.customerPhone.trim()) {
+      toast.error(t('publicBooking.waitlistMissing'));
+      return;
+    }
+    if (waitlistUntil < formData.date) {
+      toast.error(t('publicBooking.waitlistDates'));
+      return;
+    }
 
-      const { data: booking, error: bookingError } = await supabase
-        .from('bookings')
-        .insert({
-          client_id: clientId,
-          service_id: formData.serviceId,
-          staff_id: staffId,
-          date: formData.date,
-          time: formData.time,
-          duration: selectedService.duration,
-          start_at: startDateTime.toISOString(),
-          end_at: endDateTime.toISOString(),
-          status: 'pending',
+    setSubmitting(true);
+
+    try {
+      const clientId = await findOrCreateClient();
+
+      const { error } = await supabase.rpc('join_waitlist', {
+        p_entry: {
+          clientId,
+          serviceId: selectedServices[0].id,
+          staffId: formData.staffId || null,
+          dateFrom: formData.date,
+          dateTo: waitlistUntil,
           notes: formData.notes || null,
-        })
-        .select()
-        .single();
+        },
+      });
+
+      if (error) throw error;
+
+      setJoinedWaitlist(true);
+      setSuccess(true);
+      setJoiningWaitlist(false);
+      setWaitlistUntil('');
+      setFormData({
+        serviceIds: [],
+        staffId: '',
+        date: '',
+        time: '',
+        customerName: '',
+        customerPhone: '',
+        customerEmail: '',
+        notes: ''
+      });
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      toast.error(t('publicBooking.waitlistError'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
-      if (bookingError) throw bookingError;
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (joiningWaitlist) {
+      await handleJoinWaitlist();
+      return;
+    }
+    
+    // More specific validation with detailed error messages
+    const missingFields = [];
+    if (formData.serviceIds.length === 0) missingFields.push('Service');
+    if (!formData.date) missingFields.push('Date');
+    if (!formData.time) missingFields.push('Time');
+    if (!formData.customerName.trim()) missingFields.push('Full Name');
+    if (!formData.customerPhone.trim()) missingFields.push('Phone Number');
+    
+    if (missingFields.length > 0) {
+      toast.error(`Please fill in: ${missingFields.join(', ')}`);
+      return;
+    }
+
+    setSubmitting(true);
+    
+    try {
+      const clientId = await findOrCreateClient();
+
+      if (selectedServices.length === 0) throw new Error('Service not found');
+
+      // The slot is checked again server-side, under a lock, so a slot taken
+      // since the page loaded is rejected instead of double booked
+      if (isMultiService) {
+        if (!chosenChainSlot) throw new Error('Time slot no longer available');
+
+        const { error: bookingError } = await supabase.rpc('create_multi_service_booking', {
+          p_booking: {
+            clientId,
+            startAt: chosenChainSlot.startTime,
+            notes: formData.notes || null,
+            segments: chosenChainSlot.segments.map(segment => ({
+              serviceId: segment.serviceId,
+              staffId: segment.staffId,
+            })),
+          },
+        });
+
+        if (bookingError) throw bookingError;
+      } else {
+        const slot = availableSlots.find(s => s.time === formData.time);
+        if (!slot) throw new Error('Time slot no longer available');
+
+        const { error: bookingError } = await supabase.rpc('create_public_booking', {
+          p_booking: {
+            clientId,
+            serviceId: selectedServices[0].id,
+            staffId: formData.staffId || null,
+            startAt: slot.startTime,
+            notes: formData.notes || null,
+          },
+        });
+
+        if (bookingError) throw bookingError;
+      }
 
       setSuccess(true);
       toast.success(t('publicBooking.bookingSuccess'));
       
       // Reset form
       setFormData({
-        serviceId: '',
+        serviceIds: [],
+        staffId: '',
         date: '',
         time: '',
         customerName: '',
@@ -223,27 +345,33 @@ const PublicBooking: React.FC = () => {
         customerEmail: '',
         notes: ''
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error submitting booking:', error);
-      toast.error(t('publicBooking.bookingError'));
+      if (/no longer available/i.test(error?.message || '')) {
+        toast.error(t('publicBooking.slotTaken'));
+        setFormData(prev => ({ ...prev, time: '' }));
+        loadAvailability();
+      } else {
+        toast.error(t('publicBooking.bookingError'));
+      }
     } finally {
       setSubmitting(false);
     }
   };
 
-  const selectedService = services.find(s => s.id === formData.serviceId);
+  const selectedStaff = availability.staff.find(member => member.staffId === formData.staffId);
+  const staffName = (staffId: string) => availability.staff.find(member => member.staffId === staffId)?.name || '';
 
-  // Generate time slots (9 AM to 6 PM)
-  const timeSlots = [];
-  for (let hour = 9; hour <= 18; hour++) {
-    timeSlots.push(`${hour.toString().padStart(2, '0')}:00`);
-    if (hour < 18) {
-      timeSlots.push(`${hour.toString().padStart(2, '0')}:30`);
-    }
-  }
+  const toggleService = (serviceId: string) => {
+    const serviceIds = formData.serviceIds.includes(serviceId)
+      ? formData.serviceIds.filter(id => id !== serviceId)
+      : [...formData.serviceIds, serviceId];
+    setFormData({ ...formData, serviceIds, staffId: '', time: '' });
+    if (serviceIds.length !== 1) setJoiningWaitlist(false);
+  };
 
-  // Get minimum date (today)
-  const today = new Date().toISOString().split('T')[0];
+  // Get minimum date (today in the salon)
+  const today = salonToday();
 
   if (loading) {
     return (
@@ -262,12 +390,17 @@ const PublicBooking: React.FC = () => {
           className="max-w-md mx-auto bg-white rounded-2xl shadow-elegant p-8 text-center"
         >
           <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('publicBooking.successTitle')}</h2>
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">
+            {joinedWaitlist ? t('publicBooking.waitlistJoinedTitle') : t('publicBooking.successTitle')}
+          </h2>
           <p className="text-gray-600 mb-6">
-            {t('publicBooking.successMessage')}
+            {joinedWaitlist ? t('publicBooking.waitlistJoined') : t('publicBooking.successMessage')}
           </p>
           <button
-            onClick={() => setSuccess(false)}
+            onClick={() => {
+              setSuccess(false);
+              setJoinedWaitlist(false);
+            }}
             className="btn-primary w-full"
           >
             {t('publicBooking.backToBooking')}
@@ -322,6 +455,7 @@ const PublicBooking: React.FC = () => {
               <label className="block text-sm font-semibold text-gray-700 mb-4">
                 {t('publicBooking.chooseService')} <span className="text-red-500">{t('publicBooking.required')}</span>
               </label>
+              <p className="text-sm text-gray-500 -mt-2 mb-4">{t('publicBooking.multiServiceHint')}</p>
               
               {loading ? (
                 <div className="flex justify-center items-center py-12">
@@ -352,31 +486,36 @@ const PublicBooking: React.FC = () => {
                               whileHover={{ scale: 1.02, y: -2 }}
                               whileTap={{ scale: 0.98 }}
                               className={`relative p-6 border-2 rounded-2xl cursor-pointer transition-all duration-300 group ${
-                                formData.serviceId === service.id
+                                formData.serviceIds.includes(service.id)
                                   ? 'border-primary-500 bg-gradient-to-br from-primary-50 to-primary-100 shadow-lg ring-2 ring-primary-200'
                                   : 'border-gray-200 hover:border-primary-300 hover:shadow-md bg-white'
                               }`}
-                              onClick={() => setFormData({ ...formData, serviceId: service.id })}
+                              onClick={() => toggleService(service.id)}
                             >
                               {/* Selection indicator */}
-                              {formData.serviceId === service.id && (
+                              {formData.serviceIds.includes(service.id) && (
                                 <motion.div
                                   initial={{ scale: 0 }}
                                   animate={{ scale: 1 }}
                                   className="absolute -top-2 -right-2 w-6 h-6 bg-primary-500 rounded-full flex items-center justify-center"
                                 >
-                                  <CheckCircle className="h-4 w-4 text-white" />
+                                  {isMultiService ? (
+                                    // Services are performed in the order they were picked
+                                    <span className="text-xs font-bold text-white">{formData.serviceIds.indexOf(service.id) + 1}</span>
+                                  ) : (
+                                    <CheckCircle className="h-4 w-4 text-white" />
+                                  )}
                                 </motion.div>
                               )}
                               
                               {/* Service icon */}
                               <div className={`w-12 h-12 rounded-full flex items-center justify-center mb-4 transition-colors ${
-                                formData.serviceId === service.id 
+                                formData.serviceIds.includes(service.id) 
                                   ? 'bg-primary-500' 
                                   : 'bg-gray-100 group-hover:bg-primary-100'
                               }`}>
                                 <Scissors className={`h-6 w-6 transition-colors ${
-                                  formData.serviceId === service.id 
+                                  formData.serviceIds.includes(service.id) 
                                     ? 'text-white' 
                                     : 'text-gray-600 group-hover:text-primary-600'
                                 }`} />
@@ -411,7 +550,7 @@ const PublicBooking: React.FC = () => {
                               
                               {/* Hover effect overlay */}
                               <div className={`absolute inset-0 rounded-2xl transition-opacity ${
-                                formData.serviceId === service.id 
+                                formData.serviceIds.includes(service.id) 
                                   ? 'bg-primary-500/5' 
                                   : 'bg-primary-500/0 group-hover:bg-primary-500/5'
                               }`}></div>
@@ -435,7 +574,7 @@ const PublicBooking: React.FC = () => {
                   type="date"
                   min={today}
                   value={formData.date}
-                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value, time: '' })}
                   className="input-field w-full"
                   required
                 />
@@ -450,16 +589,96 @@ const PublicBooking: React.FC = () => {
                   value={formData.time}
                   onChange={(e) => setFormData({ ...formData, time: e.target.value })}
                   className="input-field w-full"
-                  required
+                  disabled={joiningWaitlist || selectedServices.length === 0 || !formData.date || loadingSlots || slotTimes.length === 0}
+                  required={!joiningWaitlist}
                 >
-                  <option value="">{t('publicBooking.chooseTime')}</option>
-                  {timeSlots.map((time) => (
+                  <option value="">
+                    {selectedServices.length === 0 || !formData.date
+                      ? t('publicBooking.selectServiceFirst')
+                      : loadingSlots
+                        ? t('publicBooking.loadingSlots')
+                        : slotTimes.length === 0
+                          ? t('publicBooking.noSlots')
+                          : t('publicBooking.chooseTime')}
+                  </option>
+                  {slotTimes.map((time) => (
                     <option key={time} value={time}>{time}</option>
                   ))}
                 </select>
               </div>
             </div>
 
+            {/* Waitlist: single services only, offered a freed slot over WhatsApp */}
+            {selectedServices.length === 1 && formData.date && !loadingSlots && (
+              joiningWaitlist ? (
+                <div className="p-4 bg-primary-50 border border-primary-200 rounded-xl space-y-3">
+                  <p className="text-sm text-gray-700">
+                    <Hourglass className="inline h-4 w-4 mr-1" />
+                    {t('publicBooking.waitlistHint')}
+                  </p>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      {t('publicBooking.waitlistUntil')} <span className="text-red-500">{t('publicBooking.required')}</span>
+                    </label>
+                    <input
+                      type="date"
+                      min={formData.date}
+                      value={waitlistUntil}
+                      onChange={(e) => setWaitlistUntil(e.target.value)}
+                      className="input-field w-full"
+                      required
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setJoiningWaitlist(false)}
+                    className="text-sm text-primary-600 hover:text-primary-700"
+                  >
+                    {t('publicBooking.waitlistBack')}
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setJoiningWaitlist(true);
+                    setWaitlistUntil(waitlistUntil || formData.date);
+                    setFormData({ ...formData, time: '' });
+                  }}
+                  className="text-sm text-primary-600 hover:text-primary-700 flex items-center"
+                >
+                  <Hourglass className="h-4 w-4 mr-1" />
+                  {slotTimes.length === 0 ? t('publicBooking.joinWaitlistNoSlots') : t('publicBooking.joinWaitlist')}
+                </button>
+              )
+            )}
+
+            {/* Staff preference; multi-service visits go to whoever is free for each service */}
+            {!isMultiService && availability.staff.length > 1 && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  <User className="inline h-4 w-4 mr-1" />
+                  {t('publicBooking.chooseStaff')}
+                </label>
+                <select
+                  value={formData.staffId}
+                  onChange={(e) => {
+                    const staffId = e.target.value;
+                    const stillFree = availability.slots.some(slot =>
+                      slot.time === formData.time && (!staffId || slot.staffIds.includes(staffId))
+                    );
+                    setFormData({ ...formData, staffId, time: stillFree ? formData.time : '' });
+                  }}
+                  className="input-field w-full"
+                >
+                  <option value="">{t('publicBooking.anyStaff')}</option>
+                  {availability.staff.map((member) => (
+                    <option key={member.staffId} value={member.staffId}>{member.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Customer Information */}
             <div className="space-y-4">
               <h3 className="text-lg font-semibold text-gray-900">{t('publicBooking.yourInformation')}</h3>
@@ -525,26 +744,38 @@ const PublicBooking: React.FC = () => {
             </div>
 
             {/* Booking Summary */}
-            {selectedService && (
+            {selectedServices.length > 0 && (
               <div className="bg-cream-50 rounded-xl p-6 border border-cream-200">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('publicBooking.bookingSummary')}</h3>
                 <div className="space-y-2">
-                  <div className="flex justify-between">
-                    <span>{t('publicBooking.service')}:</span>
-                    <span className="font-semibold">{selectedService.name}</span>
-                  </div>
+                  {selectedServices.map((selected, index) => {
+                    const segment = chosenChainSlot?.segments[index];
+                    return (
+                      <div key={selected.id} className="flex justify-between">
+                        <span>{t('publicBooking.service')}:</span>
+                        <span className="font-semibold text-right">
+                          {selected.name}
+                          {segment && (
+                            <span className="block text-xs font-normal text-gray-500">
+                              {new Date(segment.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: SALON_TIME_ZONE })} · {staffName(segment.staffId)}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    );
+                  })}
                   <div className="flex justify-between">
                     <span>{t('publicBooking.duration')}:</span>
-                    <span>{selectedService.duration} {t('publicBooking.minutes')}</span>
+                    <span>{selectedServices.reduce((total, selected) => total + selected.duration, 0)} {t('publicBooking.minutes')}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>{t('publicBooking.price')}:</span>
-                    <span className="font-bold text-primary-600">{selectedService.price} {t('publicBooking.mad')}</span>
+                    <span className="font-bold text-primary-600">{selectedServices.reduce((total, selected) => total + selected.price, 0)} {t('publicBooking.mad')}</span>
                   </div>
                   {formData.date && (
                     <div className="flex justify-between">
                       <span>{t('publicBooking.date')}:</span>
-                      <span>{new Date(formData.date).toLocaleDateString()}</span>
+                      <span>{new Date(formData.date).toLocaleDateString([], { timeZone: 'UTC' })}</span>
                     </div>
                   )}
                   {formData.time && (
@@ -553,6 +784,12 @@ const PublicBooking: React.FC = () => {
                       <span>{formData.time}</span>
                     </div>
                   )}
+                  {!isMultiService && (
+                    <div className="flex justify-between">
+                      <span>{t('publicBooking.staff')}:</span>
+                      <span>{selectedStaff ? selectedStaff.name : t('publicBooking.anyStaff')}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -565,7 +802,11 @@ const PublicBooking: React.FC = () => {
               whileTap={{ scale: 0.98 }}
               className="btn-primary w-full py-4 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {submitting ? t('publicBooking.submitting') : t('publicBooking.bookAppointmentButton')}
+              {submitting
+                ? t('publicBooking.submitting')
+                : joiningWaitlist
+                  ? t('publicBooking.joinWaitlistButton')
+                  : t('publicBooking.bookAppointmentButton')}
             </motion.button>
           </form>
         </motion.div>
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Calendar, Clock, User, Scissors, CheckCircle, XCircle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { supabase } from '../lib/supabase';
+import Logo from '@/components/Logo';
+import { useLanguage } from '../contexts/LanguageContext';
+import { WaitlistClaimDetails } from '@/types';
+
+// Claim link sent to a waitlisted client when a slot frees up
+const WaitlistClaim: React.FC = () => {
+  const { t } = useLanguage();
+  const { token } = useParams<{ token: string }>();
+  const [offer, setOffer] = useState<WaitlistClaimDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState(false);
+  const [claimed, setClaimed] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadOffer();
+  }, [token]);
+
+  const loadOffer = async () => {
+    try {
+      const { data, error: offerError } = await supabase.rpc('get_waitlist_offer', { p_token: token });
+      if (offerError) throw offerError;
+      setOffer(data as WaitlistClaimDetails | null);
+    } catch (loadError) {
+      console.error('Error loading waitlist offer:', loadError);
+      setError(t('waitlistClaim.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClaim = async () => {
+    setClaiming(true);
+    setError('');
+
+    try {
+      const { error: claimError } = await supabase.rpc('claim_waitlist_offer', { p_token: token });
+      if (claimError) throw claimError;
+      setClaimed(true);
+    } catch (claimError: any) {
+      console.error('Error claiming waitlist offer:', claimError);
+      if (/no longer available/i.test(claimError?.message || '')) {
+        setError(t('waitlistClaim.taken'));
+        setOffer(prev => prev && { ...prev, status: 'superseded' });
+      } else {
+        setError(t('waitlistClaim.claimError'));
+      }
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-cream-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+      </div>
+    );
+  }
+
+  const start = offer ? new Date(offer.startAt) : null;
+  const isOpen = offer?.status === 'open' && !claimed;
+
+  return (
+    <div className="min-h-screen bg-cream-50 flex items-center justify-center px-4">
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="max-w-md w-full mx-auto bg-white rounded-2xl shadow-elegant p-8"
+      >
+        <div className="flex justify-center mb-6">
+          <Logo size="lg" variant="light" />
+        </div>
+
+        {claimed ? (
+          <div className="text-center">
+            <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('waitlistClaim.claimedTitle')}</h2>
+            <p className="text-gray-600">{t('waitlistClaim.claimedMessage')}</p>
+          </div>
+        ) : !offer ? (
+          <div className="text-center">
+            <XCircle className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">{error || t('waitlistClaim.notFound')}</p>
+          </div>
+        ) : (
+          <>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2 text-center">{t('waitlistClaim.title')}</h2>
+            <p className="text-gray-600 mb-6 text-center">{offer.clientName}</p>
+
+            <div className="space-y-3 p-4 bg-gray-50 rounded-xl text-gray-700">
+              <div className="flex items-center">
+                <Scissors className="h-4 w-4 mr-2 text-primary-500" />
+                {offer.serviceName}
+              </div>
+              <div className="flex items-center">
+                <User className="h-4 w-4 mr-2 text-primary-500" />
+                {offer.staffName}
+              </div>
+              <div className="flex items-center">
+                <Calendar className="h-4 w-4 mr-2 text-primary-500" />
+                {start?.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' })}
+              </div>
+              <div className="flex items-center">
+                <Clock className="h-4 w-4 mr-2 text-primary-500" />
+                {start?.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+              </div>
+            </div>
+
+            {error && <p className="mt-4 text-sm text-red-600 text-center">{error}</p>}
+
+            {isOpen ? (
+              <>
+                <p className="mt-4 text-sm text-gray-500 text-center">
+                  {t('waitlistClaim.expiresAt')}{' '}
+                  {new Date(offer.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+                </p>
+                <button
+                  onClick={handleClaim}
+                  disabled={claiming}
+                  className="btn-primary w-full mt-4 py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {claiming ? t('waitlistClaim.claiming') : t('waitlistClaim.claim')}
+                </button>
+              </>
+            ) : !error && (
+              <p className="mt-4 text-sm text-gray-600 text-center">
+                {t(`waitlistClaim.status.${offer.status}`)}
+              </p>
+            )}
+          </>
+        )}
+
+        <Link to="/booking" className="block mt-6 text-center text-sm text-primary-600 hover:text-primary-700">
+          {t('waitlistClaim.bookAnother')}
+        </Link>
+      </motion.div>
+    </div>
+  );
+};
+
+export default WaitlistClaim;
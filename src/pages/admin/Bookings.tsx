@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
   Calendar,
@@ -14,17 +15,57 @@ import {
   XCircle,
   AlertCircle,
   Eye,
+  Timer,
+  UserCheck,
+  CalendarCheck,
+  List,
+  CalendarDays,
+  Columns,
+  Repeat,
+  Hourglass,
+  MessageCircle,
 } from 'lucide-react';
-import { Booking, Client, Service } from '@/types';
+import { Booking, BookingMessage, BookingSegment, BookingStatus, BookingStatusChange, Client, RecurrenceRule, RecurrenceScope, Service } from '@/types';
 import Logo from '@/components/Logo';
+import BookingCalendar from '@/components/admin/BookingCalendar';
+import WaitlistPanel from '@/components/admin/WaitlistPanel';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { clientService, serviceService, staffService } from '@/services/database';
+import { bookingService, bookingSeriesService, clientService, serviceService, staffService } from '@/services/database';
+import { BOOKING_STATUSES, BookingStatusService } from '@/services/BookingStatusService';
+import { BookingCheckoutService } from '@/services/BookingCheckoutService';
+import { BookingCalendarService, BookingTimes } from '@/services/BookingCalendarService';
+import { BookingRecurrenceService } from '@/services/BookingRecurrenceService';
+import { BookingMessageService, ReachStatus } from '@/services/BookingMessageService';
 import { supabase } from '@/lib/supabaseClient';
+import { BookingValidationService } from '@/services/BookingValidationService';
 import toast from 'react-hot-toast';
 import { formatPrice } from '@/utils/currency';
 
+const bookingValidationService = new BookingValidationService();
+
+// Colour of the message icon on a booking, by how far its messages got
+const REACH_COLORS: Record<ReachStatus, string> = {
+  none: 'text-gray-300',
+  failed: 'text-red-500',
+  sent: 'text-gray-400',
+  delivered: 'text-blue-500',
+  replied: 'text-green-600',
+};
+
+const DEFAULT_REPEAT = {
+  enabled: false,
+  intervalWeeks: 4,
+  end: 'count' as 'count' | 'until',
+  count: 6,
+  untilDate: '',
+};
+
+const formatOccurrence = (startTime: string) =>
+  new Date(startTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
 const Bookings: React.FC = () => {
   const { t } = useLanguage();
+  const navigate = useNavigate();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [services, setServices] = useState<Service[]>([]);
@@ -32,11 +73,14 @@ const Bookings: React.FC = () => {
   const [filteredBookings, setFilteredBookings] = useState<Booking[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [view, setView] = useState<'list' | 'day' | 'week' | 'waitlist'>('list');
+  const [calendarDate, setCalendarDate] = useState(BookingCalendarService.toLocalDate(new Date()));
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+  const [statusHistory, setStatusHistory] = useState<BookingStatusChange[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [formData, setFormData] = useState({
     clientId: '',
@@ -46,6 +90,11 @@ const Bookings: React.FC = () => {
     time: '',
     notes: ''
   });
+  // Services performed after the first one, for multi-service bookings
+  const [extraSegments, setExtraSegments] = useState<Array<{ serviceId: string; staffId: string }>>([]);
+  // Recurrence of a new booking, and which occurrences an edit or cancellation applies to
+  const [repeat, setRepeat] = useState(DEFAULT_REPEAT);
+  const [seriesScope, setSeriesScope] = useState<RecurrenceScope>('this');
 
   useEffect(() => {
     const fetchData = async () => {
@@ -55,7 +104,7 @@ const Bookings: React.FC = () => {
         // Fetch bookings from Supabase
         const { data: bookingsData, error: bookingsError } = await supabase
           .from('bookings')
-          .select('*')
+          .select('*, sales(id, status), booking_segments(*), booking_messages(*)')
           .order('start_at', { ascending: false });
 
         if (bookingsError) {
@@ -79,10 +128,49 @@ const Bookings: React.FC = () => {
               date: startAt ? startAt.split('T')[0] : booking.date,
               time: startAt ? startAt.split('T')[1].substring(0, 5) : booking.time,
               duration: booking.duration || 60,
-              status: booking.status,
+              status: BookingStatusService.normalize(booking.status),
               notes: booking.notes || '',
               createdAt: createdAt,
               updatedAt: updatedAt,
+              startAt: startAt,
+              endAt: booking.endAt || booking.end_at,
+              confirmedAt: booking.confirmed_at,
+              checkedInAt: booking.checked_in_at,
+              startedAt: booking.started_at,
+              completedAt: booking.completed_at,
+              cancelledAt: booking.cancelled_at,
+              noShowAt: booking.no_show_at,
+              saleId: BookingCheckoutService.findPayingSaleId(booking.sales),
+              seriesId: booking.series_id || undefined,
+              seriesIndex: booking.series_index ?? undefined,
+              segments: booking.booking_segments?.length
+                ? booking.booking_segments
+                    .map((segment: any): BookingSegment => ({
+                      id: segment.id,
+                      bookingId: segment.booking_id,
+                      position: segment.position,
+                      serviceId: segment.service_id,
+                      staffId: segment.staff_id,
+                      startAt: segment.start_at,
+                      endAt: segment.end_at,
+                    }))
+                    .sort((a: BookingSegment, b: BookingSegment) => a.position - b.position)
+                : undefined,
+              messages: (booking.booking_messages || [])
+                .map((message: any): BookingMessage => ({
+                  id: message.id,
+                  bookingId: message.booking_id,
+                  kind: message.kind,
+                  direction: message.direction,
+                  phone: message.phone,
+                  body: message.body,
+                  status: message.status,
+                  error: message.error || undefined,
+                  providerMessageId: message.provider_message_id || undefined,
+                  createdAt: message.created_at,
+                  updatedAt: message.updated_at,
+                }))
+                .sort((a: BookingMessage, b: BookingMessage) => a.createdAt.localeCompare(b.createdAt)),
             };
           });
           setBookings(formattedBookings);
@@ -139,11 +227,36 @@ const Bookings: React.FC = () => {
       return;
     }
 
+    if (extraSegments.some(segment => !segment.serviceId || !segment.staffId)) {
+      toast.error('Please choose a service and staff member for every service');
+      return;
+    }
+
+    if (extraSegments.length > 0) {
+      await handleCreateMultiServiceBooking();
+      return;
+    }
+
+    if (repeat.enabled) {
+      await handleCreateSeries();
+      return;
+    }
+
     try {
       const selectedService = services.find(s => s.id === formData.serviceId);
       const startDateTime = new Date(`${formData.date}T${formData.time}`);
       const endDateTime = new Date(startDateTime.getTime() + (selectedService?.duration || 60) * 60000);
 
+      const availability = await bookingValidationService.validateStaffAvailability({
+        staffId: formData.staffId,
+        startTime: startDateTime.toISOString(),
+        endTime: endDateTime.toISOString()
+      });
+      if (!availability.isAvailable) {
+        toast.error(availability.reason || 'Staff member is not available at this time');
+        return;
+      }
+
       const bookingData = {
         clientId: formData.clientId,
         serviceId: formData.serviceId,
@@ -181,7 +294,7 @@ const Bookings: React.FC = () => {
 
       if (error) {
         console.error('Error creating booking:', error);
-        toast.error('Failed to create booking');
+        toast.error(`Failed to create booking: ${error.message}`);
         return;
       }
 
@@ -194,10 +307,12 @@ const Bookings: React.FC = () => {
         date: data.start_at.split('T')[0],
         time: data.start_at.split('T')[1].substring(0, 5),
         duration: selectedService?.duration || 60,
-        status: data.status,
+        status: BookingStatusService.normalize(data.status),
         notes: data.notes || '',
         createdAt: data.created_at,
         updatedAt: data.updated_at,
+        startAt: data.start_at,
+        endAt: data.end_at,
       };
 
       setBookings(prev => [newBooking, ...prev]);
@@ -220,8 +335,129 @@ const Bookings: React.FC = () => {
     }
   };
 
+  // Services back to back, each with its own staff member; the database
+  // checks every segment again when saving
+  const handleCreateMultiServiceBooking = async () => {
+    const segments = [{ serviceId: formData.serviceId, staffId: formData.staffId }, ...extraSegments];
+    const startDateTime = new Date(`${formData.date}T${formData.time}`);
+
+    try {
+      let segmentStart = startDateTime;
+      for (const segment of segments) {
+        const service = services.find(s => s.id === segment.serviceId);
+        const segmentEnd = new Date(segmentStart.getTime() + (service?.duration || 60) * 60000);
+        const availability = await bookingValidationService.validateStaffAvailability({
+          staffId: segment.staffId,
+          startTime: segmentStart.toISOString(),
+          endTime: segmentEnd.toISOString()
+        });
+        if (!availability.isAvailable) {
+          toast.error(`${service?.name}: ${availability.reason || 'Staff member is not available at this time'}`);
+          return;
+        }
+        segmentStart = segmentEnd;
+      }
+
+      const booking = await bookingService.createMultiService({
+        clientId: formData.clientId,
+        startAt: startDateTime.toISOString(),
+        notes: formData.notes,
+        segments,
+      });
+      if (!booking) return;
+
+      setBookings(prev => [booking, ...prev]);
+      setFormData({
+        clientId: '',
+        serviceId: '',
+        staffId: '',
+        date: '',
+        time: '',
+        notes: ''
+      });
+      setExtraSegments([]);
+      setShowAddModal(false);
+    } catch (error) {
+      console.error('Error creating multi-service booking:', error);
+    }
+  };
+
+  // Standing appointment: every date is checked first, and the ones that are
+  // taken are listed and skipped rather than failing the series
+  const handleCreateSeries = async () => {
+    const selectedService = services.find(s => s.id === formData.serviceId);
+    const startTime = new Date(`${formData.date}T${formData.time}`).toISOString();
+    const rule: RecurrenceRule = repeat.end === 'count'
+      ? { intervalWeeks: repeat.intervalWeeks, count: repeat.count }
+      : { intervalWeeks: repeat.intervalWeeks, untilDate: repeat.untilDate };
+
+    const ruleError = BookingRecurrenceService.validateRule(rule, startTime);
+    if (ruleError) {
+      toast.error(ruleError);
+      return;
+    }
+
+    try {
+      const occurrences = BookingRecurrenceService.occurrences(startTime, selectedService?.duration || 60, rule);
+      const validation = await bookingValidationService.validateSeries({
+        clientId: formData.clientId,
+        serviceId: formData.serviceId,
+        staffId: formData.staffId
+      }, occurrences);
+
+      if (validation.available.length === 0) {
+        toast.error('None of the dates in this series is available');
+        return;
+      }
+
+      if (validation.conflicts.length > 0) {
+        const skipped = validation.conflicts
+          .map(conflict => `• ${formatOccurrence(conflict.occurrence.startTime)}: ${conflict.reason}`)
+          .join('\n');
+        if (!confirm(`${validation.conflicts.length} of ${occurrences.length} dates are not available and will be skipped:\n\n${skipped}\n\nBook the other ${validation.available.length}?`)) {
+          return;
+        }
+      }
+
+      const skipIndexes = validation.conflicts.map(conflict => conflict.occurrence.index);
+      const result = await bookingSeriesService.create({
+        ...rule,
+        clientId: formData.clientId,
+        serviceId: formData.serviceId,
+        staffId: formData.staffId,
+        startAt: startTime,
+        skipIndexes,
+        notes: formData.notes,
+      });
+      if (!result) return;
+
+      // Dates booked by someone else between the check and saving
+      const takenMeanwhile = result.skipped.filter(skip => !skipIndexes.includes(skip.index));
+      if (takenMeanwhile.length > 0) {
+        toast.error(`Also skipped, booked in the meantime: ${takenMeanwhile.map(skip => formatOccurrence(skip.startAt)).join(', ')}`);
+      }
+
+      const created = await bookingSeriesService.getBookings(result.seriesId);
+      setBookings(prev => [...created, ...prev]);
+      setFormData({
+        clientId: '',
+        serviceId: '',
+        staffId: '',
+        date: '',
+        time: '',
+        notes: ''
+      });
+      setRepeat(DEFAULT_REPEAT);
+      setShowAddModal(false);
+    } catch (error) {
+      console.error('Error creating booking series:', error);
+      toast.error('Failed to create booking series');
+    }
+  };
+
   const handleEditBooking = (booking: Booking) => {
     setEditingBooking(booking);
+    setSeriesScope('this');
     setFormData({
       clientId: booking.clientId,
       serviceId: booking.serviceId,
@@ -246,6 +482,21 @@ const Bookings: React.FC = () => {
       const startDateTime = new Date(`${formData.date}T${formData.time}`);
       const endDateTime = new Date(startDateTime.getTime() + (selectedService.duration * 60000));
 
+      if (editingBooking.seriesId && seriesScope !== 'this') {
+        await handleUpdateSeries(editingBooking, selectedService, startDateTime);
+        return;
+      }
+
+      const availability = await bookingValidationService.validateStaffAvailability({
+        staffId: formData.staffId,
+        startTime: startDateTime.toISOString(),
+        endTime: endDateTime.toISOString()
+      });
+      if (!availability.isAvailable) {
+        toast.error(availability.reason || 'Staff member is not available at this time');
+        return;
+      }
+
       const { error } = await supabase
         .from('bookings')
         .update({
@@ -263,7 +514,7 @@ const Bookings: React.FC = () => {
 
       if (error) {
         console.error('Error updating booking:', error);
-        toast.error('Failed to update booking');
+        toast.error(`Failed to update booking: ${error.message}`);
         return;
       }
 
@@ -276,6 +527,8 @@ const Bookings: React.FC = () => {
         date: formData.date,
         time: formData.time,
         duration: selectedService.duration,
+        startAt: startDateTime.toISOString(),
+        endAt: endDateTime.toISOString(),
         notes: formData.notes,
         updatedAt: new Date().toISOString(),
       };
@@ -300,6 +553,162 @@ const Bookings: React.FC = () => {
     }
   };
 
+  // An edit to several occurrences moves each by the same number of days to
+  // the new time; occurrences whose new time is taken are left as they are
+  const handleUpdateSeries = async (target: Booking, selectedService: Service, startDateTime: Date) => {
+    const moves = BookingRecurrenceService.inScope(bookings, target, seriesScope).map(booking => {
+      const startTime = BookingRecurrenceService.shiftStart(booking.startAt, target.startAt, startDateTime.toISOString());
+      return {
+        id: booking.id,
+        index: booking.seriesIndex ?? 0,
+        startTime,
+        endTime: new Date(new Date(startTime).getTime() + selectedService.duration * 60000).toISOString(),
+      };
+    });
+
+    const validation = await bookingValidationService.validateSeries({
+      clientId: formData.clientId,
+      serviceId: formData.serviceId,
+      staffId: formData.staffId
+    }, moves);
+
+    if (validation.available.length === 0) {
+      toast.error(validation.conflicts[0]?.reason || 'None of these bookings can be moved');
+      return;
+    }
+
+    if (validation.conflicts.length > 0) {
+      const kept = validation.conflicts
+        .map(conflict => `• ${formatOccurrence(conflict.occurrence.startTime)}: ${conflict.reason}`)
+        .join('\n');
+      if (!confirm(`${validation.conflicts.length} bookings cannot be moved and will stay as they are:\n\n${kept}\n\nUpdate the other ${validation.available.length}?`)) {
+        return;
+      }
+    }
+
+    const updated: Booking[] = [];
+    for (const move of moves.filter(move => validation.available.some(available => available.index === move.index))) {
+      const start = new Date(move.startTime);
+      const changes = {
+        clientId: formData.clientId,
+        serviceId: formData.serviceId,
+        staffId: formData.staffId,
+        date: BookingCalendarService.toLocalDate(start),
+        time: start.toTimeString().substring(0, 5),
+        duration: selectedService.duration,
+        startAt: move.startTime,
+        endAt: move.endTime,
+        notes: formData.notes,
+      };
+
+      const { error } = await supabase
+        .from('bookings')
+        .update({
+          client_id: changes.clientId,
+          service_id: changes.serviceId,
+          staff_id: changes.staffId,
+          date: changes.date,
+          time: changes.time,
+          duration: changes.duration,
+          start_at: changes.startAt,
+          end_at: changes.endAt,
+          notes: changes.notes,
+        })
+        .eq('id', move.id);
+
+      if (error) {
+        console.error('Error updating booking:', error);
+        toast.error(`${formatOccurrence(move.startTime)}: ${error.message}`);
+        continue;
+      }
+
+      const booking = bookings.find(b => b.id === move.id)!;
+      updated.push({ ...booking, ...changes, updatedAt: new Date().toISOString() });
+    }
+
+    setBookings(prev => prev.map(b => updated.find(u => u.id === b.id) || b));
+    setShowEditModal(false);
+    setEditingBooking(null);
+    setFormData({
+      clientId: '',
+      serviceId: '',
+      staffId: '',
+      date: '',
+      time: '',
+      notes: ''
+    });
+    toast.success(`${updated.length} bookings updated`);
+  };
+
+  // Drag and drop on the calendar; the database refuses overlaps as well
+  const handleReschedule = async (booking: Booking, staffId: string, times: BookingTimes): Promise<boolean> => {
+    try {
+      const validation = await bookingValidationService.validateBookingConflicts({
+        id: booking.id,
+        staffId,
+        startTime: times.startAt,
+        endTime: times.endAt,
+        serviceId: booking.serviceId,
+        clientId: booking.clientId
+      });
+      if (validation.hasConflicts) {
+        toast.error(validation.conflicts[0].message);
+        return false;
+      }
+
+      const availability = await bookingValidationService.validateStaffAvailability({
+        staffId,
+        startTime: times.startAt,
+        endTime: times.endAt
+      });
+      if (!availability.isAvailable) {
+        toast.error(availability.reason || 'Staff member is not available at this time');
+        return false;
+      }
+
+      const start = new Date(times.startAt);
+      const date = BookingCalendarService.toLocalDate(start);
+      const time = start.toTimeString().substring(0, 5);
+      const duration = Math.round((new Date(times.endAt).getTime() - start.getTime()) / 60000);
+
+      const { error } = await supabase
+        .from('bookings')
+        .update({
+          staff_id: staffId,
+          date,
+          time,
+          duration,
+          start_at: times.startAt,
+          end_at: times.endAt,
+        })
+        .eq('id', booking.id);
+
+      if (error) {
+        console.error('Error rescheduling booking:', error);
+        toast.error(`Failed to move booking: ${error.message}`);
+        return false;
+      }
+
+      const updatedBooking: Booking = {
+        ...booking,
+        staffId,
+        date,
+        time,
+        duration,
+        startAt: times.startAt,
+        endAt: times.endAt,
+        updatedAt: new Date().toISOString(),
+      };
+      setBookings(prev => prev.map(b => b.id === booking.id ? updatedBooking : b));
+      toast.success(t('bookings.moved'));
+      return true;
+    } catch (error) {
+      console.error('Error rescheduling booking:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to move booking');
+      return false;
+    }
+  };
+
   const handleDeleteBooking = async (bookingId: string) => {
     if (!confirm('Are you sure you want to delete this booking?')) return;
 
@@ -324,9 +733,68 @@ const Bookings: React.FC = () => {
     }
   };
 
-  const handleViewDetails = (booking: Booking) => {
+  const handleViewDetails = async (booking: Booking) => {
     setSelectedBooking(booking);
+    setSeriesScope('this');
+    setStatusHistory([]);
     setShowDetailsModal(true);
+
+    try {
+      setStatusHistory(await bookingService.getStatusHistory(booking.id));
+    } catch (error) {
+      console.error('Error fetching booking status history:', error);
+    }
+  };
+
+  const handleStatusChange = async (booking: Booking, status: BookingStatus) => {
+    const note = status === 'cancelled' ? prompt(t('bookingStatus.cancelReason')) : undefined;
+    if (note === null) return;
+
+    if (status === 'cancelled' && booking.seriesId && seriesScope !== 'this') {
+      await handleCancelSeries(booking, note || undefined);
+      return;
+    }
+
+    try {
+      const updated = await bookingService.updateStatus(booking.id, booking.status, status, note);
+      if (!updated) return;
+
+      const updatedBooking: Booking = {
+        ...booking,
+        status: BookingStatusService.normalize(updated.status),
+        updatedAt: updated.updated_at,
+        confirmedAt: updated.confirmed_at,
+        checkedInAt: updated.checked_in_at,
+        startedAt: updated.started_at,
+        completedAt: updated.completed_at,
+        cancelledAt: updated.cancelled_at,
+        noShowAt: updated.no_show_at,
+      };
+
+      setBookings(prev => prev.map(b => b.id === booking.id ? updatedBooking : b));
+      setSelectedBooking(updatedBooking);
+      setStatusHistory(await bookingService.getStatusHistory(booking.id));
+    } catch (error) {
+      console.error('Error updating booking status:', error);
+    }
+  };
+
+  const handleCancelSeries = async (booking: Booking, note?: string) => {
+    try {
+      const cancelledIds = await bookingSeriesService.cancel(booking.id, seriesScope, note);
+      if (cancelledIds.length === 0) return;
+
+      const cancelledAt = new Date().toISOString();
+      const cancel = (b: Booking): Booking => cancelledIds.includes(b.id)
+        ? { ...b, status: 'cancelled', cancelledAt, updatedAt: cancelledAt }
+        : b;
+
+      setBookings(prev => prev.map(cancel));
+      setSelectedBooking(cancel(booking));
+      setStatusHistory(await bookingService.getStatusHistory(booking.id));
+    } catch (error) {
+      console.error('Error cancelling booking series:', error);
+    }
   };
 
   const getStatusColor = (status: string) => {
@@ -335,10 +803,16 @@ const Bookings: React.FC = () => {
         return 'bg-green-100 text-green-800 border-green-200';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'checked_in':
+        return 'bg-purple-100 text-purple-800 border-purple-200';
+      case 'in_progress':
+        return 'bg-orange-100 text-orange-800 border-orange-200';
       case 'completed':
         return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'cancelled':
         return 'bg-red-100 text-red-800 border-red-200';
+      case 'no_show':
+        return 'bg-gray-100 text-gray-600 border-gray-300';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -350,6 +824,10 @@ const Bookings: React.FC = () => {
         return <CheckCircle className="w-4 h-4" />;
       case 'pending':
         return <Clock className="w-4 h-4" />;
+      case 'checked_in':
+        return <UserCheck className="w-4 h-4" />;
+      case 'in_progress':
+        return <Timer className="w-4 h-4" />;
       case 'completed':
         return <CheckCircle className="w-4 h-4" />;
       case 'cancelled':
@@ -466,10 +944,9 @@ const Bookings: React.FC = () => {
             className="px-4 py-3 bg-white border border-gray-200 rounded-xl text-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
           >
             <option value="all">{t('bookings.allStatus')}</option>
-            <option value="pending">{t('bookings.pending')}</option>
-            <option value="confirmed">{t('bookings.confirmed')}</option>
-            <option value="completed">{t('bookings.completed')}</option>
-            <option value="cancelled">{t('bookings.cancelled')}</option>
+            {BOOKING_STATUSES.map(status => (
+              <option key={status} value={status}>{t(`bookingStatus.${status}`)}</option>
+            ))}
           </select>
           <button 
             onClick={() => setShowAddModal(true)}
@@ -479,94 +956,166 @@ const Bookings: React.FC = () => {
             {t('bookings.newBooking')}
           </button>
         </div>
+        <div className="flex gap-2 mt-4">
+          {([
+            { value: 'list', label: t('bookings.listView'), icon: List },
+            { value: 'day', label: t('bookings.dayView'), icon: Columns },
+            { value: 'week', label: t('bookings.weekView'), icon: CalendarDays },
+            { value: 'waitlist', label: t('bookings.waitlistView'), icon: Hourglass },
+          ] as const).map(option => (
+            <button
+              key={option.value}
+              onClick={() => setView(option.value)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                view === option.value ? 'bg-primary-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <option.icon className="w-4 h-4" />
+              {option.label}
+            </button>
+          ))}
+        </div>
       </motion.div>
 
+      {/* Calendar; cancelled bookings and no-shows only show when filtered for */}
+      {(view === 'day' || view === 'week') && (
+        <BookingCalendar
+          bookings={filteredBookings.filter(booking => statusFilter !== 'all' || BookingStatusService.holdsSlot(booking.status))}
+          staff={staff}
+          clients={clients}
+          services={services}
+          view={view}
+          date={calendarDate}
+          onDateChange={setCalendarDate}
+          onSelect={handleViewDetails}
+          onReschedule={handleReschedule}
+        />
+      )}
+
+      {view === 'waitlist' && (
+        <WaitlistPanel clients={clients} services={services} staff={staff} />
+      )}
+
       {/* Bookings List */}
-      <div className="space-y-4">
-        {filteredBookings.length === 0 ? (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.5 }}
-            className="card text-center py-12"
-          >
-            <Calendar className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-600 mb-2">{t('bookings.noBookingsFound')}</h3>
-            <p className="text-gray-500">{t('bookings.tryAdjustingFilters')}</p>
-          </motion.div>
-        ) : (
-          filteredBookings.map((booking, index) => {
-            const client = clients.find(c => c.id === booking.clientId);
-            const service = services.find(s => s.id === booking.serviceId);
+      {view === 'list' && (
+        <div className="space-y-4">
+          {filteredBookings.length === 0 ? (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.5 }}
+              className="card text-center py-12"
+            >
+              <Calendar className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-600 mb-2">{t('bookings.noBookingsFound')}</h3>
+              <p className="text-gray-500">{t('bookings.tryAdjustingFilters')}</p>
+            </motion.div>
+          ) : (
+            filteredBookings.map((booking, index) => {
+              const client = clients.find(c => c.id === booking.clientId);
+              const service = services.find(s => s.id === booking.serviceId);
+              const reach = BookingMessageService.reachStatus(booking.messages);
             
-            return (
-              <motion.div
-                key={booking.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.1 }}
-                className="card hover:shadow-elegant transition-all duration-200"
-              >
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-4">
-                    <div className="w-12 h-12 bg-primary-100 rounded-full flex items-center justify-center">
-                      <Calendar className="w-6 h-6 text-primary-600" />
-                    </div>
-                    <div>
-                      <div className="flex items-center gap-3 mb-2">
-                        <span className="font-medium text-gray-800">{client?.name}</span>
-                        <span className="text-gray-600">•</span>
-                        <span className="text-gray-600">{service?.name}</span>
-                        <span className="text-gray-600">•</span>
-                        <span className="text-gray-600">{booking.time}</span>
+              return (
+                <motion.div
+                  key={booking.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className="card hover:shadow-elegant transition-all duration-200"
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                      <div className="w-12 h-12 bg-primary-100 rounded-full flex items-center justify-center">
+                        <Calendar className="w-6 h-6 text-primary-600" />
                       </div>
-                      <div className="flex items-center gap-4 text-sm text-gray-600">
-                        <span className="flex items-center gap-1">
-                          <Clock className="w-4 h-4" />
-                          {booking.duration} min
-                        </span>
-                        <span className="flex items-center gap-1">
-                          <User className="w-4 h-4" />
-                          {t('bookings.staff')} ID: {booking.staffId}
-                        </span>
+                      <div>
+                        <div className="flex items-center gap-3 mb-2">
+                          <span className="font-medium text-gray-800">{client?.name}</span>
+                          <span className="text-gray-600">•</span>
+                          <span className="text-gray-600">
+                            {booking.segments
+                              ? booking.segments.map(segment => services.find(s => s.id === segment.serviceId)?.name).join(' → ')
+                              : service?.name}
+                          </span>
+                          <span className="text-gray-600">•</span>
+                          <span className="text-gray-600">{booking.time}</span>
+                          {booking.seriesId && (
+                            <span className="text-gray-400" title={t('bookings.recurring')}>
+                              <Repeat className="w-4 h-4" />
+                            </span>
+                          )}
+                          {reach !== 'none' && (
+                            <span className={REACH_COLORS[reach]} title={t(`bookingMessages.reach.${reach}`)}>
+                              <MessageCircle className="w-4 h-4" />
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-4 text-sm text-gray-600">
+                          <span className="flex items-center gap-1">
+                            <Clock className="w-4 h-4" />
+                            {booking.duration} min
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <User className="w-4 h-4" />
+                            {t('bookings.staff')} ID: {booking.staffId}
+                          </span>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <div className={`px-3 py-1 rounded-full border text-sm font-medium flex items-center gap-1 ${getStatusColor(booking.status)}`}>
-                      {getStatusIcon(booking.status)}
-                      {t(`bookings.${booking.status}`)}
-                    </div>
-                    <div className="flex gap-2">
-                      <button 
-                        onClick={() => handleEditBooking(booking)}
-                        className="p-2 text-gray-400 hover:text-primary-500 hover:bg-primary-50 rounded-lg transition-colors"
-                        title="Edit booking"
-                      >
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      <button 
-                        onClick={() => handleViewDetails(booking)}
-                        className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded-lg transition-colors"
-                        title="View details"
-                      >
-                        <Eye className="w-4 h-4" />
-                      </button>
-                      <button 
-                        onClick={() => handleDeleteBooking(booking.id)}
-                        className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
-                        title="Delete booking"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                    <div className="flex items-center gap-3">
+                      <div className={`px-3 py-1 rounded-full border text-sm font-medium flex items-center gap-1 ${getStatusColor(booking.status)}`}>
+                        {getStatusIcon(booking.status)}
+                        {t(`bookingStatus.${booking.status}`)}
+                      </div>
+                      {booking.saleId && (
+                        <div className="px-3 py-1 rounded-full border text-sm font-medium bg-green-100 text-green-800 border-green-200">
+                          {t('bookings.paid')}
+                        </div>
+                      )}
+                      <div className="flex gap-2">
+                        {BookingCheckoutService.canCheckout(booking) && (
+                          <button
+                            onClick={() => navigate(`/admin/pos?booking=${booking.id}`)}
+                            className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                            title={t('bookings.checkout')}
+                          >
+                            <CalendarCheck className="w-4 h-4" />
+                          </button>
+                        )}
+                        {/* Multi-service bookings are changed by cancelling and booking again */}
+                        {!booking.segments && (
+                          <button 
+                            onClick={() => handleEditBooking(booking)}
+                            className="p-2 text-gray-400 hover:text-primary-500 hover:bg-primary-50 rounded-lg transition-colors"
+                            title="Edit booking"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button 
+                          onClick={() => handleViewDetails(booking)}
+                          className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="View details"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
+                        <button 
+                          onClick={() => handleDeleteBooking(booking.id)}
+                          className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete booking"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </motion.div>
-            );
-          })
-        )}
-      </div>
+                </motion.div>
+              );
+            })
+          )}
+        </div>
+      )}
 
       {/* Add Booking Modal */}
       {showAddModal && (
@@ -645,6 +1194,56 @@ const Bookings: React.FC = () => {
                   </select>
                 </div>
 
+                {/* Further services, performed one after the other */}
+                {extraSegments.map((segment, index) => (
+                  <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-700">{t('bookings.thenService')}</span>
+                      <button
+                        onClick={() => setExtraSegments(prev => prev.filter((_, i) => i !== index))}
+                        className="p-1 text-gray-400 hover:text-red-500"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <select
+                        value={segment.serviceId}
+                        onChange={(e) => setExtraSegments(prev => prev.map((s, i) => i === index ? { ...s, serviceId: e.target.value } : s))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      >
+                        <option value="">{t('bookings.selectService')}</option>
+                        {services.map(service => (
+                          <option key={service.id} value={service.id}>
+                            {service.name} - {service.duration}min
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={segment.staffId}
+                        onChange={(e) => setExtraSegments(prev => prev.map((s, i) => i === index ? { ...s, staffId: e.target.value } : s))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      >
+                        <option value="">{t('bookings.selectStaff')}</option>
+                        {staff.map(staffMember => (
+                          <option key={staffMember.id} value={staffMember.id}>
+                            {staffMember.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                ))}
+                {!repeat.enabled && (
+                  <button
+                    onClick={() => setExtraSegments(prev => [...prev, { serviceId: '', staffId: '' }])}
+                    className="flex items-center gap-2 text-sm text-primary-600 hover:text-primary-700"
+                  >
+                    <Plus className="w-4 h-4" />
+                    {t('bookings.addService')}
+                  </button>
+                )}
+
                 {/* Date and Time */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
@@ -672,6 +1271,71 @@ const Bookings: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Recurrence; multi-service bookings are booked one visit at a time */}
+                {extraSegments.length === 0 && (
+                  <div className="p-3 border border-gray-200 rounded-lg space-y-3">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={repeat.enabled}
+                        onChange={(e) => setRepeat(prev => ({ ...prev, enabled: e.target.checked }))}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <Repeat className="w-4 h-4" />
+                      {t('bookings.repeat')}
+                    </label>
+                    {repeat.enabled && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">{t('bookings.repeatEveryWeeks')}</label>
+                          <input
+                            type="number"
+                            min={1}
+                            max={52}
+                            value={repeat.intervalWeeks}
+                            onChange={(e) => setRepeat(prev => ({ ...prev, intervalWeeks: parseInt(e.target.value) || 1 }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">{t('bookings.repeatEnds')}</label>
+                          <select
+                            value={repeat.end}
+                            onChange={(e) => setRepeat(prev => ({ ...prev, end: e.target.value as 'count' | 'until' }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                          >
+                            <option value="count">{t('bookings.repeatAfter')}</option>
+                            <option value="until">{t('bookings.repeatUntil')}</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">
+                            {repeat.end === 'count' ? t('bookings.repeatCount') : t('bookings.repeatUntilDate')}
+                          </label>
+                          {repeat.end === 'count' ? (
+                            <input
+                              type="number"
+                              min={1}
+                              max={52}
+                              value={repeat.count}
+                              onChange={(e) => setRepeat(prev => ({ ...prev, count: parseInt(e.target.value) || 1 }))}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            />
+                          ) : (
+                            <input
+                              type="date"
+                              value={repeat.untilDate}
+                              min={formData.date || undefined}
+                              onChange={(e) => setRepeat(prev => ({ ...prev, untilDate: e.target.value }))}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            />
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Notes */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -809,6 +1473,24 @@ const Bookings: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Which occurrences of the series the change applies to */}
+                {editingBooking.seriesId && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('bookings.applyTo')}
+                    </label>
+                    <select
+                      value={seriesScope}
+                      onChange={(e) => setSeriesScope(e.target.value as RecurrenceScope)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      <option value="this">{t('bookings.scopeThis')}</option>
+                      <option value="following">{t('bookings.scopeFollowing')}</option>
+                      <option value="all">{t('bookings.scopeAll')}</option>
+                    </select>
+                  </div>
+                )}
+
                 {/* Notes */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -882,11 +1564,27 @@ const Bookings: React.FC = () => {
                     <Scissors className="w-5 h-5 mr-2" />
                     Service Information
                   </h3>
-                  <div className="space-y-2">
-                    <p><span className="font-medium">Service:</span> {services.find(s => s.id === selectedBooking.serviceId)?.name || 'Unknown'}</p>
-                    <p><span className="font-medium">Duration:</span> {selectedBooking.duration} minutes</p>
-                    <p><span className="font-medium">Price:</span> ${services.find(s => s.id === selectedBooking.serviceId)?.price || 'N/A'}</p>
-                  </div>
+                  {selectedBooking.segments ? (
+                    <div className="space-y-2">
+                      {selectedBooking.segments.map(segment => (
+                        <p key={segment.id}>
+                          <span className="font-medium">
+                            {new Date(segment.startAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+                            {' – '}
+                            {new Date(segment.endAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}:
+                          </span>{' '}
+                          {services.find(s => s.id === segment.serviceId)?.name || 'Unknown'} · {staff.find(s => s.id === segment.staffId)?.name || 'Unknown'}
+                        </p>
+                      ))}
+                      <p><span className="font-medium">Duration:</span> {selectedBooking.duration} minutes</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <p><span className="font-medium">Service:</span> {services.find(s => s.id === selectedBooking.serviceId)?.name || 'Unknown'}</p>
+                      <p><span className="font-medium">Duration:</span> {selectedBooking.duration} minutes</p>
+                      <p><span className="font-medium">Price:</span> ${services.find(s => s.id === selectedBooking.serviceId)?.price || 'N/A'}</p>
+                    </div>
+                  )}
                 </div>
 
                 {/* Appointment Information */}
@@ -899,13 +1597,49 @@ const Bookings: React.FC = () => {
                     <p><span className="font-medium">Date:</span> {new Date(selectedBooking.date).toLocaleDateString()}</p>
                     <p><span className="font-medium">Time:</span> {selectedBooking.time}</p>
                     <p><span className="font-medium">Staff:</span> {staff.find(s => s.id === selectedBooking.staffId)?.name || 'Unknown'}</p>
+                    {selectedBooking.seriesId && (
+                      <p className="flex items-center gap-1">
+                        <Repeat className="w-4 h-4" />
+                        {t('bookings.recurring')} #{(selectedBooking.seriesIndex ?? 0) + 1}
+                      </p>
+                    )}
                     <p><span className="font-medium">Status:</span> 
                       <span className={`ml-2 px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(selectedBooking.status)}`}>
                         {getStatusIcon(selectedBooking.status)}
-                        <span className="ml-1">{t(`bookings.status.${selectedBooking.status}`)}</span>
+                        <span className="ml-1">{t(`bookingStatus.${selectedBooking.status}`)}</span>
                       </span>
                     </p>
                   </div>
+                  {selectedBooking.seriesId && BookingStatusService.nextStatuses(selectedBooking.status).includes('cancelled') && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {t('bookings.cancelApplyTo')}
+                      </label>
+                      <select
+                        value={seriesScope}
+                        onChange={(e) => setSeriesScope(e.target.value as RecurrenceScope)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      >
+                        <option value="this">{t('bookings.scopeThis')}</option>
+                        <option value="following">{t('bookings.scopeFollowing')}</option>
+                        <option value="all">{t('bookings.scopeAll')}</option>
+                      </select>
+                    </div>
+                  )}
+                  {BookingStatusService.nextStatuses(selectedBooking.status).length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-4">
+                      {BookingStatusService.nextStatuses(selectedBooking.status).map(status => (
+                        <button
+                          key={status}
+                          onClick={() => handleStatusChange(selectedBooking, status)}
+                          className={`px-3 py-1 rounded-full border text-sm font-medium flex items-center gap-1 hover:opacity-80 ${getStatusColor(status)}`}
+                        >
+                          {getStatusIcon(status)}
+                          {t(`bookingStatus.actions.${status}`)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 {/* Notes */}
@@ -923,6 +1657,38 @@ const Bookings: React.FC = () => {
                     <p><span className="font-medium">Created:</span> {new Date(selectedBooking.createdAt).toLocaleString()}</p>
                     <p><span className="font-medium">Updated:</span> {new Date(selectedBooking.updatedAt).toLocaleString()}</p>
                   </div>
+                  {statusHistory.length > 0 && (
+                    <div className="mt-4">
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">{t('bookingStatus.history')}</h4>
+                      <ul className="space-y-1 text-sm text-gray-600">
+                        {statusHistory.map(change => (
+                          <li key={change.id}>
+                            <span className="font-medium">
+                              {change.fromStatus ? t(`bookingStatus.${change.toStatus}`) : t('bookingStatus.created')}
+                            </span>
+                            {' · '}{new Date(change.changedAt).toLocaleString()}
+                            {change.changedByName && ` · ${t('bookingStatus.by').replace('{name}', change.changedByName)}`}
+                            {change.note && <span className="block text-xs text-gray-500">{change.note}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {selectedBooking.messages && selectedBooking.messages.length > 0 && (
+                    <div className="mt-4">
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">{t('bookingMessages.title')}</h4>
+                      <ul className="space-y-1 text-sm text-gray-600">
+                        {selectedBooking.messages.map(message => (
+                          <li key={message.id}>
+                            <span className="font-medium">{t(`bookingMessages.kinds.${message.kind}`)}</span>
+                            {' · '}{new Date(message.createdAt).toLocaleString()}
+                            {' · '}{message.direction === 'inbound' ? `"${message.body}"` : t(`bookingMessages.statuses.${message.status}`)}
+                            {message.error && <span className="block text-xs text-red-600">{message.error}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </div>
 
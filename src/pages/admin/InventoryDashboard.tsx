@@ -21,10 +21,15 @@ import {
   Users,
   Calendar,
   Clock,
-  Camera
+  Camera,
+  Truck
 } from 'lucide-react';
 import { SimpleBottleConsumptionService } from '@/services/SimpleBottleConsumptionService';
-import { productService } from '@/services/database';
+import { PurchaseOrderService, OnOrderSummary } from '@/services/PurchaseOrderService';
+import { UnitService } from '@/services/UnitService';
+import { PURCHASE_ORDER_STATUS_COLORS } from '@/components/PurchaseOrdersModal';
+import { productService, purchaseOrderService } from '@/services/database';
+import { PurchaseOrder } from '@/types';
 import { useLanguage } from '@/contexts/LanguageContext';
 import toast from 'react-hot-toast';
 import { formatPrice } from '@/utils/currency';
@@ -34,6 +39,7 @@ interface Product {
   name: string;
   brand: string;
   category: string;
+  unit: string;
   sealed_bottles: number;
   open_bottle_remaining_ml: number;
   bottle_capacity_ml: number;
@@ -74,6 +80,9 @@ const InventoryDashboard: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [recentMovements, setRecentMovements] = useState<StockMovement[]>([]);
   const [lowStockAlerts, setLowStockAlerts] = useState<any[]>([]);
+  // Orders not fully received, so nobody reorders what is on its way
+  const [openOrders, setOpenOrders] = useState<PurchaseOrder[]>([]);
+  const [onOrder, setOnOrder] = useState<Record<string, OnOrderSummary>>({});
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [showRestockModal, setShowRestockModal] = useState(false);
 
@@ -94,13 +103,16 @@ const InventoryDashboard: React.FC = () => {
   const loadDashboardData = async () => {
     setLoading(true);
     try {
-      const [inventoryData, alertsData] = await Promise.all([
+      const [inventoryData, alertsData, ordersData] = await Promise.all([
         SimpleBottleConsumptionService.getInventoryStatus(),
-        SimpleBottleConsumptionService.getActiveStockAlerts()
+        SimpleBottleConsumptionService.getActiveStockAlerts(),
+        purchaseOrderService.getAll(true)
       ]);
 
       setProducts(inventoryData);
       setLowStockAlerts(alertsData);
+      setOpenOrders(ordersData);
+      setOnOrder(PurchaseOrderService.getOnOrder(ordersData));
 
       // Calculate stats
       const totalProducts = inventoryData.length;
@@ -323,12 +335,20 @@ const InventoryDashboard: React.FC = () => {
         </div>
         <div className="flex justify-between items-center">
           <span className="text-sm text-gray-600">Open Bottle:</span>
-          <span className="font-medium">{product.open_bottle_remaining_ml}ml</span>
+          <span className="font-medium">{UnitService.format(product.open_bottle_remaining_ml, product.unit)}</span>
         </div>
         <div className="flex justify-between items-center">
           <span className="text-sm text-gray-600">Total Available:</span>
-          <span className="font-medium text-primary-600">{product.total_ml_available}ml</span>
+          <span className="font-medium text-primary-600">{UnitService.format(product.total_ml_available, product.unit)}</span>
         </div>
+        {onOrder[product.id] && (
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-gray-600">On Order:</span>
+            <span className="font-medium text-blue-600" title={onOrder[product.id].orderNumbers.join(', ')}>
+              {onOrder[product.id].quantity} bottles
+            </span>
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-2">
@@ -495,6 +515,47 @@ const InventoryDashboard: React.FC = () => {
           </div>
         </motion.div>
 
+        {/* Open Purchase Orders */}
+        {openOrders.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm mb-8"
+          >
+            <h3 className="text-xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+              <Truck className="w-5 h-5 text-blue-500" />
+              Open Purchase Orders
+            </h3>
+            <div className="space-y-3">
+              {openOrders.map((order) => (
+                <div key={order.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium text-gray-800">{order.orderNumber}</h4>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PURCHASE_ORDER_STATUS_COLORS[order.status]}`}>
+                        {order.status.replace('_', ' ')}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {order.supplierName} · {order.lines.map(line =>
+                        `${line.productName} ${order.status === 'draft' ? line.quantityOrdered : PurchaseOrderService.getOutstanding(line)}`
+                      ).join(', ')}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium text-gray-800">{formatPrice(PurchaseOrderService.getOrderTotal(order))}</p>
+                    {order.expectedAt && (
+                      <p className="text-sm text-gray-500">
+                        Expected {new Date(`${order.expectedAt}T00:00:00`).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Products Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mb-8">
           {filteredProducts.map((product) => (
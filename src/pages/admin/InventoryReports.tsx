@@ -32,6 +32,7 @@ import {
   Activity
 } from 'lucide-react';
 import { SimpleBottleConsumptionService } from '@/services/SimpleBottleConsumptionService';
+import { UnitService, StockUnit } from '@/services/UnitService';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { formatPrice } from '@/utils/currency';
 import toast from 'react-hot-toast';
@@ -40,8 +41,8 @@ interface InventoryMetrics {
   totalProducts: number;
   lowStockProducts: number;
   outOfStockProducts: number;
-  totalValueMl: number;
-  averageStockLevel: number;
+  stockByUnit: Partial<Record<StockUnit, number>>; // ml, g and pieces are totalled apart
+  averageStockByUnit: Partial<Record<StockUnit, number>>;
   recentConsumption: number;
 }
 
@@ -83,8 +84,8 @@ const InventoryReports: React.FC = () => {
     totalProducts: 0,
     lowStockProducts: 0,
     outOfStockProducts: 0,
-    totalValueMl: 0,
-    averageStockLevel: 0,
+    stockByUnit: {},
+    averageStockByUnit: {},
     recentConsumption: 0
   });
 
@@ -132,15 +133,19 @@ const InventoryReports: React.FC = () => {
       const totalProducts = inventoryData.length;
       const lowStockProducts = inventoryData.filter(item => item.stock_status === 'low').length;
       const outOfStockProducts = inventoryData.filter(item => item.stock_status === 'out').length;
-      const totalValueMl = inventoryData.reduce((sum, item) => sum + item.total_ml_available, 0);
-      const averageStockLevel = totalProducts > 0 ? totalValueMl / totalProducts : 0;
+      const stockByUnit = UnitService.sumByUnit(inventoryData.map(item => ({ quantity: item.total_ml_available, unit: item.unit })));
+      const productsByUnit = UnitService.sumByUnit(inventoryData.map(item => ({ quantity: 1, unit: item.unit })));
+      const averageStockByUnit: Partial<Record<StockUnit, number>> = {};
+      (Object.keys(stockByUnit) as StockUnit[]).forEach(unit => {
+        averageStockByUnit[unit] = Math.round((stockByUnit[unit] || 0) / (productsByUnit[unit] || 1));
+      });
 
       setMetrics({
         totalProducts,
         lowStockProducts,
         outOfStockProducts,
-        totalValueMl,
-        averageStockLevel,
+        stockByUnit,
+        averageStockByUnit,
         recentConsumption: 8500 // This would come from consumption log
       });
 
@@ -269,8 +274,8 @@ const InventoryReports: React.FC = () => {
             color="bg-orange-500"
           />
           <MetricCard
-            title="Total Stock (ml)"
-            value={`${metrics.totalValueMl.toLocaleString()}`}
+            title="Total Stock"
+            value={UnitService.formatTotals(metrics.stockByUnit)}
             change="-5% vs last month"
             changeType="negative"
             icon={<Activity className="w-6 h-6 text-white" />}
@@ -278,7 +283,7 @@ const InventoryReports: React.FC = () => {
           />
           <MetricCard
             title="Avg Stock Level"
-            value={`${Math.round(metrics.averageStockLevel)}ml`}
+            value={UnitService.formatTotals(metrics.averageStockByUnit)}
             change="Stable"
             changeType="neutral"
             icon={<BarChart3 className="w-6 h-6 text-white" />}
@@ -340,7 +345,7 @@ const InventoryReports: React.FC = () => {
                       </div>
                       <div className="text-right">
                         <p className="font-medium text-gray-800">{item.sealed_bottles} bottles</p>
-                        <p className="text-sm text-gray-600">{item.total_ml_available}ml total</p>
+                        <p className="text-sm text-gray-600">{UnitService.format(item.total_ml_available, item.unit)} total</p>
                       </div>
                     </div>
                   ))}
@@ -440,7 +445,7 @@ const InventoryReports: React.FC = () => {
                           <h4 className="font-medium text-gray-800">{alert.product?.name}</h4>
                           <p className="text-sm text-gray-600">{alert.product?.brand}</p>
                           <p className="text-sm text-gray-600 mt-1">
-                            Current: {alert.current_sealed_bottles} bottles, {alert.current_open_ml}ml open
+                            Current: {alert.sealed_bottles} bottles, {UnitService.format(alert.open_bottle_remaining_ml, alert.unit)} open
                           </p>
                         </div>
                         <div className={`px-3 py-1 rounded-full text-sm font-medium ${
@@ -1,13 +1,17 @@
 import React from 'react';
+import { useSearchParams } from 'react-router-dom';
 import POSInterface from '@/components/POSInterface';
 
 const POS: React.FC = () => {
+  // Set when checking out a booking from Bookings
+  const [searchParams] = useSearchParams();
+
   const handleSaleComplete = (saleData: any) => {
     // Handle sale completion if needed
     console.log('Sale completed:', saleData);
   };
 
-  return <POSInterface onSaleComplete={handleSaleComplete} />;
+  return <POSInterface onSaleComplete={handleSaleComplete} bookingId={searchParams.get('booking') || undefined} />;
 };
 
 export default POS;
@@ -13,14 +13,26 @@ import {
   Grid,
   List,
   PackagePlus,
-  History
+  History,
+  Truck,
+  ClipboardList,
+  ClipboardCheck,
+  TrendingDown,
+  Layers
 } from 'lucide-react';
 import ProductUsageDashboard from '@/components/ProductUsageDashboard';
 import ProductModal from '@/components/ProductModal';
 import RestockModal from '@/components/RestockModal';
 import RestockHistory from '@/components/RestockHistory';
+import SuppliersModal from '@/components/SuppliersModal';
+import PurchaseOrdersModal from '@/components/PurchaseOrdersModal';
+import ReorderSuggestionsModal from '@/components/ReorderSuggestionsModal';
+import StocktakeModal from '@/components/StocktakeModal';
+import ProductLotsModal from '@/components/ProductLotsModal';
 import { Product } from '@/types';
-import { productService } from '@/services/database';
+import { productService, purchaseOrderService, productLotService } from '@/services/database';
+import { PurchaseOrderService, OnOrderSummary } from '@/services/PurchaseOrderService';
+import { ExpiryAlert, EXPIRY_WARNING_DAYS } from '@/services/ProductLotService';
 import { formatPrice } from '@/utils/currency';
 import toast from 'react-hot-toast';
 
@@ -37,6 +49,13 @@ const Products = () => {
   const [restockProduct, setRestockProduct] = useState<Product | null>(null);
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
   const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [isSuppliersModalOpen, setIsSuppliersModalOpen] = useState(false);
+  const [isPurchaseOrdersModalOpen, setIsPurchaseOrdersModalOpen] = useState(false);
+  const [isReorderModalOpen, setIsReorderModalOpen] = useState(false);
+  const [isStocktakeModalOpen, setIsStocktakeModalOpen] = useState(false);
+  const [onOrder, setOnOrder] = useState<Record<string, OnOrderSummary>>({});
+  const [lotsProduct, setLotsProduct] = useState<Product | null>(null);
+  const [expiryAlerts, setExpiryAlerts] = useState<ExpiryAlert[]>([]);
 
   const categories = [
     'Soins des Cheveux',
@@ -55,8 +74,13 @@ const Products = () => {
   const loadProducts = async () => {
     try {
       setLoading(true);
-      const data = await productService.getAll();
+      const [data, openOrders] = await Promise.all([
+        productService.getAll(),
+        purchaseOrderService.getAll(true),
+      ]);
       setProducts(data || []);
+      setOnOrder(PurchaseOrderService.getOnOrder(openOrders));
+      setExpiryAlerts(await productLotService.getExpiryAlerts(data || []));
     } catch (error) {
       console.error('Error loading products:', error);
       toast.error('Failed to load products');
@@ -212,6 +236,14 @@ const Products = () => {
             </span>
           </div>
 
+          {onOrder[product.id] && (
+            <p className="text-xs text-blue-600 mb-3 flex items-center gap-1" title={onOrder[product.id].orderNumbers.join(', ')}>
+              <Truck className="w-3 h-3" />
+              {onOrder[product.id].quantity} on order
+              {onOrder[product.id].expectedAt && `, expected ${new Date(`${onOrder[product.id].expectedAt}T00:00:00`).toLocaleDateString()}`}
+            </p>
+          )}
+
           <div className="flex gap-1">
             <button
               onClick={() => handleEditProduct(product)}
@@ -234,6 +266,13 @@ const Products = () => {
             >
               <History className="w-3 h-3" />
             </button>
+            <button
+              onClick={() => setLotsProduct(product)}
+              className="px-2 py-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors text-xs font-medium flex items-center justify-center"
+              title="Lots"
+            >
+              <Layers className="w-3 h-3" />
+            </button>
             <button
               onClick={() => setShowDeleteConfirm(product.id)}
               className="px-2 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors text-xs font-medium flex items-center justify-center"
@@ -314,6 +353,13 @@ const Products = () => {
             >
               <History className="w-4 h-4" />
             </button>
+            <button
+              onClick={() => setLotsProduct(product)}
+              className="text-indigo-600 hover:text-indigo-900"
+              title="Lots"
+            >
+              <Layers className="w-4 h-4" />
+            </button>
             <button
               onClick={() => setShowDeleteConfirm(product.id)}
               className="text-red-600 hover:text-red-900"
@@ -334,15 +380,75 @@ const Products = () => {
           <h1 className="text-2xl font-bold text-gray-900">Products</h1>
           <p className="text-gray-600">Manage your product inventory and track usage</p>
         </div>
-        <button
-          onClick={handleAddProduct}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
-        >
-          <Plus className="w-4 h-4" />
-          Add Product
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsSuppliersModalOpen(true)}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+          >
+            <Truck className="w-4 h-4" />
+            Suppliers
+          </button>
+          <button
+            onClick={() => setIsPurchaseOrdersModalOpen(true)}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+          >
+            <ClipboardList className="w-4 h-4" />
+            Purchase Orders
+          </button>
+          <button
+            onClick={() => setIsReorderModalOpen(true)}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+          >
+            <TrendingDown className="w-4 h-4" />
+            Reorder Suggestions
+          </button>
+          <button
+            onClick={() => setIsStocktakeModalOpen(true)}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+          >
+            <ClipboardCheck className="w-4 h-4" />
+            Stocktake
+          </button>
+          <button
+            onClick={handleAddProduct}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Product
+          </button>
+        </div>
       </div>
 
+      {/* Expiring and expired bottles */}
+      {expiryAlerts.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-600" />
+            <h3 className="font-semibold text-gray-900">
+              {expiryAlerts.filter(alert => alert.expired).length} expired, {expiryAlerts.filter(alert => !alert.expired).length} to use within {EXPIRY_WARNING_DAYS} days
+            </h3>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {expiryAlerts.map(alert => (
+              <button
+                key={alert.lotId}
+                onClick={() => setLotsProduct(products.find(product => product.id === alert.productId) || null)}
+                className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  alert.expired ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                }`}
+                title={alert.cause === 'pao' ? 'Past its period after opening' : 'Expiry date'}
+              >
+                {alert.productName}
+                {alert.batchNumber && ` (${alert.batchNumber})`}
+                {' — '}
+                {alert.expired ? 'expired' : 'use by'} {new Date(`${alert.useBy}T00:00:00`).toLocaleDateString()}
+                {alert.cause === 'pao' && ' (opened)'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Dashboard */}
       <div className="bg-white rounded-lg shadow">
         <ProductUsageDashboard />
@@ -476,6 +582,44 @@ const Products = () => {
         productName={historyProduct?.name}
       />
 
+      {/* Suppliers and Purchase Orders */}
+      <SuppliersModal
+        isOpen={isSuppliersModalOpen}
+        onClose={() => setIsSuppliersModalOpen(false)}
+        products={products}
+      />
+
+      <PurchaseOrdersModal
+        isOpen={isPurchaseOrdersModalOpen}
+        onClose={() => {
+          setIsPurchaseOrdersModalOpen(false);
+          loadProducts();
+        }}
+        products={products}
+        onReceived={loadProducts}
+      />
+
+      <ReorderSuggestionsModal
+        isOpen={isReorderModalOpen}
+        onClose={() => setIsReorderModalOpen(false)}
+        products={products}
+        onChanged={loadProducts}
+      />
+
+      <StocktakeModal
+        isOpen={isStocktakeModalOpen}
+        onClose={() => setIsStocktakeModalOpen(false)}
+        products={products}
+        onPosted={loadProducts}
+      />
+
+      <ProductLotsModal
+        isOpen={!!lotsProduct}
+        onClose={() => setLotsProduct(null)}
+        product={lotsProduct}
+        onChanged={loadProducts}
+      />
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
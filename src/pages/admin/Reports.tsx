@@ -3,11 +3,17 @@ import { motion } from 'framer-motion';
 import { 
   BarChart3, TrendingUp, DollarSign, Users, Package, Calendar, 
   Search, Filter, Download, Eye, ChevronLeft, ChevronRight,
-  SortAsc, SortDesc, RefreshCw
+  SortAsc, SortDesc, RefreshCw, RotateCcw, Percent, ShoppingBag, CalendarCheck
 } from 'lucide-react';
 import Logo from '@/components/Logo';
-import { dashboardService, bookingService, saleService, clientService, serviceService, staffService } from '@/services/database';
-import { DashboardStats, Sale, Client, Service } from '@/types';
+import SaleRefundModal from '@/components/SaleRefundModal';
+import { dashboardService, bookingService, saleService, clientService, serviceService, staffService, refundService } from '@/services/database';
+import { Booking, DashboardStats, Sale, SaleRefund, Client, Service } from '@/types';
+import { PaymentService } from '@/services/PaymentService';
+import { TaxService } from '@/services/TaxService';
+import { RetailService } from '@/services/RetailService';
+import { BookingStatusService } from '@/services/BookingStatusService';
+import { BookingCheckoutService } from '@/services/BookingCheckoutService';
 import { formatPrice } from '@/utils/currency';
 import toast from 'react-hot-toast';
 
@@ -20,6 +26,7 @@ interface SaleWithDetails extends Sale {
 const Reports: React.FC = () => {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [pendingBookings, setPendingBookings] = useState(0);
+  const [bookings, setBookings] = useState<Booking[]>([]);
   const [sales, setSales] = useState<SaleWithDetails[]>([]);
   const [filteredSales, setFilteredSales] = useState<SaleWithDetails[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
@@ -39,6 +46,9 @@ const Reports: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(10);
   const [selectedSale, setSelectedSale] = useState<SaleWithDetails | null>(null);
+  const [selectedSaleRefunds, setSelectedSaleRefunds] = useState<SaleRefund[]>([]);
+  const [showRefundModal, setShowRefundModal] = useState(false);
+  const [taxPeriod, setTaxPeriod] = useState<'day' | 'month'>('month');
 
   const fetchAllData = async () => {
     try {
@@ -58,10 +68,11 @@ const Reports: React.FC = () => {
       setClients(clientsData);
       setServices(servicesData);
       setStaff(staffData);
+      setBookings(bookingsData);
       
       // Count pending bookings
-      const pending = bookingsData.filter(booking => 
-        booking.status === 'pending' || booking.status === 'confirmed'
+      const pending = bookingsData.filter(booking =>
+        BookingStatusService.isUpcoming(booking.status)
       ).length;
       setPendingBookings(pending);
       
@@ -74,7 +85,7 @@ const Reports: React.FC = () => {
         return {
           ...sale,
           clientName: client?.name || 'Unknown Client',
-          serviceName: service?.name || 'Unknown Service',
+          serviceName: service?.name || ((sale.retailItems || []).length > 0 ? 'Retail only' : 'Unknown Service'),
           staffName: staffMember?.name || 'Unknown Staff'
         };
       });
@@ -95,6 +106,33 @@ const Reports: React.FC = () => {
     fetchAllData();
   }, []);
 
+  // Load the refund history of the sale being viewed
+  useEffect(() => {
+    if (!selectedSale) {
+      setSelectedSaleRefunds([]);
+      return;
+    }
+    refundService.getBySaleId(selectedSale.id).then(setSelectedSaleRefunds);
+  }, [selectedSale]);
+
+  const handleSaleRefunded = async () => {
+    setSelectedSale(null);
+    await fetchAllData();
+  };
+
+  const getStatusBadgeClass = (status: Sale['status']) => {
+    switch (status) {
+      case 'completed': return 'bg-green-100 text-green-800';
+      case 'partially_refunded': return 'bg-orange-100 text-orange-800';
+      default: return 'bg-red-100 text-red-800';
+    }
+  };
+
+  const formatStatus = (status: Sale['status']) => {
+    const label = status.replace('_', ' ');
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  };
+
   // Filter and sort sales
   useEffect(() => {
     let filtered = [...sales];
@@ -128,7 +166,8 @@ const Reports: React.FC = () => {
 
     // Payment method filter
     if (paymentMethodFilter !== 'all') {
-      filtered = filtered.filter(sale => sale.paymentMethod === paymentMethodFilter);
+      filtered = filtered.filter(sale => sale.paymentMethod === paymentMethodFilter ||
+        (sale.payments || []).some(payment => payment.method === paymentMethodFilter));
     }
 
     // Sort
@@ -162,18 +201,83 @@ const Reports: React.FC = () => {
   const startIndex = (currentPage - 1) * itemsPerPage;
   const paginatedSales = filteredSales.slice(startIndex, startIndex + itemsPerPage);
 
+  // Tenders of a sale, e.g. "Cash 100.00 DH + Card 150.00 DH"
+  const formatMethod = (method: string) => method.charAt(0).toUpperCase() + method.slice(1);
+
+  const formatTenders = (sale: Sale) => {
+    if (!sale.payments || sale.payments.length === 0) return formatMethod(sale.paymentMethod);
+    return sale.payments
+      .map(payment => `${formatMethod(payment.method)} ${formatPrice(payment.amount)}`)
+      .join(' + ');
+  };
+
+  // Service and retail revenue over the filtered sales; retail margin is price - cost
+  const retailSummary = RetailService.summarize(filteredSales);
+
+  // Booked vs walk-in revenue over the filtered sales; unpaid bookings over the same dates
+  const bookingSummary = BookingCheckoutService.summarize(
+    filteredSales,
+    bookings.filter(booking =>
+      (!dateFrom || booking.date >= dateFrom) && (!dateTo || booking.date <= dateTo)
+    )
+  );
+
+  // TVA collected per period over the filtered sales
+  const taxSummary = TaxService.summarizeByPeriod(filteredSales, taxPeriod);
+  const taxRates = Array.from(new Set(taxSummary.flatMap(period => period.byRate.map(r => r.rate)))).sort((a, b) => a - b);
+  const taxTotals = {
+    salesCount: taxSummary.reduce((sum, period) => sum + period.salesCount, 0),
+    netAmount: taxSummary.reduce((sum, period) => sum + period.netAmount, 0),
+    taxAmount: taxSummary.reduce((sum, period) => sum + period.taxAmount, 0),
+    grossAmount: taxSummary.reduce((sum, period) => sum + period.grossAmount, 0),
+  };
+
+  const exportTaxSummaryToCSV = () => {
+    const headers = [
+      'Period', 'Sales', 'Total HT',
+      ...taxRates.flatMap(rate => [`Base ${rate}%`, `TVA ${rate}%`]),
+      'Total TVA', 'Total TTC'
+    ];
+    const csvContent = [
+      headers.join(','),
+      ...taxSummary.map(period => [
+        period.period,
+        period.salesCount,
+        period.netAmount.toFixed(2),
+        ...taxRates.flatMap(rate => {
+          const byRate = period.byRate.find(r => r.rate === rate);
+          return [(byRate?.taxableAmount || 0).toFixed(2), (byRate?.taxAmount || 0).toFixed(2)];
+        }),
+        period.taxAmount.toFixed(2),
+        period.grossAmount.toFixed(2)
+      ].join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `tva-summary-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+    toast.success('TVA summary exported successfully');
+  };
+
   // Export functionality
   const exportToCSV = () => {
-    const headers = ['Date', 'Client', 'Service', 'Staff', 'Amount', 'Payment Method', 'Status', 'Notes'];
+    const headers = ['Date', 'Invoice', 'Client', 'Service', 'Staff', 'Amount', 'TVA', 'Refunded', 'Payment Method', 'Status', 'Notes'];
     const csvContent = [
       headers.join(','),
       ...filteredSales.map(sale => [
         new Date(sale.createdAt).toLocaleDateString(),
+        sale.invoiceNumber || '',
         sale.clientName,
         sale.serviceName,
         sale.staffName,
         sale.totalAmount,
-        sale.paymentMethod,
+        sale.taxAmount || 0,
+        sale.refundedAmount || 0,
+        formatTenders(sale),
         sale.status,
         sale.notes?.replace(/,/g, ';') || ''
       ].join(','))
@@ -200,15 +304,24 @@ const Reports: React.FC = () => {
   };
 
   // Calculate analytics
+  // Revenue is reported net of refunds
   const analytics = {
-    totalRevenue: filteredSales.reduce((sum, sale) => sum + sale.totalAmount, 0),
-    averageOrderValue: filteredSales.length > 0 ? filteredSales.reduce((sum, sale) => sum + sale.totalAmount, 0) / filteredSales.length : 0,
+    totalRevenue: filteredSales.reduce((sum, sale) => sum + sale.totalAmount - (sale.refundedAmount || 0), 0),
+    averageOrderValue: filteredSales.length > 0 ? filteredSales.reduce((sum, sale) => sum + sale.totalAmount - (sale.refundedAmount || 0), 0) / filteredSales.length : 0,
     totalTransactions: filteredSales.length,
-    cashSales: filteredSales.filter(sale => sale.paymentMethod === 'cash').length,
-    cardSales: filteredSales.filter(sale => sale.paymentMethod === 'card').length,
-    transferSales: filteredSales.filter(sale => sale.paymentMethod === 'transfer').length,
+    cashSales: filteredSales.filter(sale => sale.paymentMethod === 'cash' || sale.payments?.some(p => p.method === 'cash')).length,
+    cardSales: filteredSales.filter(sale => sale.paymentMethod === 'card' || sale.payments?.some(p => p.method === 'card')).length,
+    transferSales: filteredSales.filter(sale => sale.paymentMethod === 'transfer' || sale.payments?.some(p => p.method === 'transfer')).length,
+    mixedSales: filteredSales.filter(sale => sale.paymentMethod === 'mixed').length,
+    // Collected amounts per tender (sales recorded before split payments count in full)
+    revenueByMethod: PaymentService.getTotalsByMethod(filteredSales.flatMap(sale =>
+      sale.payments && sale.payments.length > 0
+        ? sale.payments
+        : sale.paymentMethod !== 'mixed' ? [{ method: sale.paymentMethod, amount: sale.totalAmount }] : []
+    )),
     completedSales: filteredSales.filter(sale => sale.status === 'completed').length,
-    refundedSales: filteredSales.filter(sale => sale.status === 'refunded').length,
+    refundedSales: filteredSales.filter(sale => sale.status !== 'completed').length,
+    refundedAmount: filteredSales.reduce((sum, sale) => sum + (sale.refundedAmount || 0), 0),
   };
 
   if (isLoading) {
@@ -259,6 +372,11 @@ const Reports: React.FC = () => {
           </div>
           <p className="text-2xl font-bold text-gray-800">{formatPrice(analytics.totalRevenue)}</p>
           <p className="text-gray-600 text-sm">Total Revenue</p>
+          {analytics.refundedAmount > 0 && (
+            <p className="text-xs text-red-600 mt-1">
+              {formatPrice(analytics.refundedAmount)} refunded ({analytics.refundedSales} sales)
+            </p>
+          )}
         </motion.div>
         
         <motion.div
@@ -313,16 +431,230 @@ const Reports: React.FC = () => {
           <div className="text-center p-4 bg-blue-50 rounded-lg">
             <p className="text-2xl font-bold text-blue-600">{analytics.cashSales}</p>
             <p className="text-gray-600 text-sm">Cash Payments</p>
+            <p className="text-xs text-gray-500 mt-1">{formatPrice(analytics.revenueByMethod.cash)} collected</p>
           </div>
           <div className="text-center p-4 bg-green-50 rounded-lg">
             <p className="text-2xl font-bold text-green-600">{analytics.cardSales}</p>
             <p className="text-gray-600 text-sm">Card Payments</p>
+            <p className="text-xs text-gray-500 mt-1">{formatPrice(analytics.revenueByMethod.card)} collected</p>
           </div>
           <div className="text-center p-4 bg-purple-50 rounded-lg">
             <p className="text-2xl font-bold text-purple-600">{analytics.transferSales}</p>
             <p className="text-gray-600 text-sm">Bank Transfers</p>
+            <p className="text-xs text-gray-500 mt-1">{formatPrice(analytics.revenueByMethod.transfer)} collected</p>
+          </div>
+        </div>
+        {analytics.mixedSales > 0 && (
+          <p className="text-sm text-gray-500 mt-3">
+            {analytics.mixedSales} sale{analytics.mixedSales === 1 ? ' was' : 's were'} split across several payment methods
+          </p>
+        )}
+      </motion.div>
+
+      {/* Service vs Retail */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.42 }}
+        className="card"
+      >
+        <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <ShoppingBag className="w-5 h-5 text-primary-500" />
+          Services & Retail
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="text-center p-4 bg-blue-50 rounded-lg">
+            <p className="text-2xl font-bold text-blue-600">{formatPrice(retailSummary.serviceRevenue)}</p>
+            <p className="text-gray-600 text-sm">Service Revenue</p>
+          </div>
+          <div className="text-center p-4 bg-amber-50 rounded-lg">
+            <p className="text-2xl font-bold text-amber-600">{formatPrice(retailSummary.retailRevenue)}</p>
+            <p className="text-gray-600 text-sm">Retail Revenue</p>
+            <p className="text-xs text-gray-500 mt-1">{retailSummary.retailUnits} unit(s) sold</p>
+          </div>
+          <div className="text-center p-4 bg-green-50 rounded-lg">
+            <p className="text-2xl font-bold text-green-600">{formatPrice(retailSummary.retailMargin)}</p>
+            <p className="text-gray-600 text-sm">Retail Margin</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {retailSummary.retailMarginPercent}% of retail revenue, cost {formatPrice(retailSummary.retailCost)}
+            </p>
+          </div>
+        </div>
+        {retailSummary.products.length > 0 && (
+          <div className="overflow-x-auto mt-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="text-left py-2 px-3 font-medium">Product</th>
+                  <th className="text-right py-2 px-3 font-medium">Sold</th>
+                  <th className="text-right py-2 px-3 font-medium">Revenue</th>
+                  <th className="text-right py-2 px-3 font-medium">Cost</th>
+                  <th className="text-right py-2 px-3 font-medium">Margin</th>
+                </tr>
+              </thead>
+              <tbody>
+                {retailSummary.products.map(product => (
+                  <tr key={product.productId} className="border-b border-gray-100">
+                    <td className="py-2 px-3 text-gray-800">{product.productName}</td>
+                    <td className="py-2 px-3 text-right text-gray-600">{product.quantity}</td>
+                    <td className="py-2 px-3 text-right text-gray-800">{formatPrice(product.revenue)}</td>
+                    <td className="py-2 px-3 text-right text-gray-600">{formatPrice(product.cost)}</td>
+                    <td className={`py-2 px-3 text-right font-medium ${product.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatPrice(product.margin)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </motion.div>
+
+      {/* Booked vs Walk-in */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.44 }}
+        className="card"
+      >
+        <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <CalendarCheck className="w-5 h-5 text-primary-500" />
+          Bookings & Walk-ins
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="text-center p-4 bg-purple-50 rounded-lg">
+            <p className="text-2xl font-bold text-purple-600">{formatPrice(bookingSummary.bookedRevenue)}</p>
+            <p className="text-gray-600 text-sm">Booked Revenue</p>
+            <p className="text-xs text-gray-500 mt-1">{bookingSummary.bookedSales} booking(s) checked out</p>
+          </div>
+          <div className="text-center p-4 bg-blue-50 rounded-lg">
+            <p className="text-2xl font-bold text-blue-600">{formatPrice(bookingSummary.walkInRevenue)}</p>
+            <p className="text-gray-600 text-sm">Walk-in Revenue</p>
+            <p className="text-xs text-gray-500 mt-1">{bookingSummary.walkInSales} sale(s) without a booking</p>
+          </div>
+          <div className="text-center p-4 bg-red-50 rounded-lg">
+            <p className="text-2xl font-bold text-red-600">{bookingSummary.unpaidBookings.length}</p>
+            <p className="text-gray-600 text-sm">Unpaid Bookings</p>
+            <p className="text-xs text-gray-500 mt-1">Completed without a sale</p>
+          </div>
+        </div>
+        {bookingSummary.unpaidBookings.length > 0 && (
+          <div className="overflow-x-auto mt-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="text-left py-2 px-3 font-medium">Date</th>
+                  <th className="text-left py-2 px-3 font-medium">Client</th>
+                  <th className="text-left py-2 px-3 font-medium">Service</th>
+                  <th className="text-left py-2 px-3 font-medium">Staff</th>
+                  <th className="text-right py-2 px-3 font-medium">Price</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bookingSummary.unpaidBookings.map(booking => {
+                  const service = services.find(s => s.id === booking.serviceId);
+                  return (
+                    <tr key={booking.id} className="border-b border-gray-100">
+                      <td className="py-2 px-3 text-gray-800">{new Date(booking.startAt || booking.date).toLocaleString()}</td>
+                      <td className="py-2 px-3 text-gray-800">{clients.find(c => c.id === booking.clientId)?.name || 'Unknown Client'}</td>
+                      <td className="py-2 px-3 text-gray-600">{service?.name || 'Unknown Service'}</td>
+                      <td className="py-2 px-3 text-gray-600">{staff.find(s => s.id === booking.staffId)?.name || 'Unknown Staff'}</td>
+                      <td className="py-2 px-3 text-right text-gray-800">{formatPrice(service?.price || 0)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </motion.div>
+
+      {/* TVA Summary */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.45 }}
+        className="card"
+      >
+        <div className="flex flex-wrap gap-4 items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+              <Percent className="w-5 h-5 text-primary-500" />
+              TVA Summary
+            </h3>
+            <p className="text-sm text-gray-500">
+              Sales matching the filters below; refunds are deducted and voided sales left out
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={taxPeriod}
+              onChange={(e) => setTaxPeriod(e.target.value as 'day' | 'month')}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="month">By month</option>
+              <option value="day">By day</option>
+            </select>
+            <button
+              onClick={exportTaxSummaryToCSV}
+              disabled={taxSummary.length === 0}
+              className="btn-secondary flex items-center gap-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              Export TVA
+            </button>
           </div>
         </div>
+        {taxSummary.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No taxable sales in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="text-left py-2 px-3 font-medium">Period</th>
+                  <th className="text-right py-2 px-3 font-medium">Sales</th>
+                  <th className="text-right py-2 px-3 font-medium">Total HT</th>
+                  {taxRates.map(rate => (
+                    <th key={rate} className="text-right py-2 px-3 font-medium">TVA {rate}%</th>
+                  ))}
+                  <th className="text-right py-2 px-3 font-medium">Total TVA</th>
+                  <th className="text-right py-2 px-3 font-medium">Total TTC</th>
+                </tr>
+              </thead>
+              <tbody>
+                {taxSummary.map(period => (
+                  <tr key={period.period} className="border-b border-gray-100">
+                    <td className="py-2 px-3 text-gray-800">{period.period}</td>
+                    <td className="py-2 px-3 text-right text-gray-600">{period.salesCount}</td>
+                    <td className="py-2 px-3 text-right text-gray-800">{formatPrice(period.netAmount)}</td>
+                    {taxRates.map(rate => (
+                      <td key={rate} className="py-2 px-3 text-right text-gray-600">
+                        {formatPrice(period.byRate.find(r => r.rate === rate)?.taxAmount || 0)}
+                      </td>
+                    ))}
+                    <td className="py-2 px-3 text-right font-medium text-gray-800">{formatPrice(period.taxAmount)}</td>
+                    <td className="py-2 px-3 text-right text-gray-800">{formatPrice(period.grossAmount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold text-gray-800">
+                  <td className="py-2 px-3">Total</td>
+                  <td className="py-2 px-3 text-right">{taxTotals.salesCount}</td>
+                  <td className="py-2 px-3 text-right">{formatPrice(taxTotals.netAmount)}</td>
+                  {taxRates.map(rate => (
+                    <td key={rate} className="py-2 px-3 text-right">
+                      {formatPrice(taxSummary.reduce((sum, period) => sum + (period.byRate.find(r => r.rate === rate)?.taxAmount || 0), 0))}
+                    </td>
+                  ))}
+                  <td className="py-2 px-3 text-right">{formatPrice(taxTotals.taxAmount)}</td>
+                  <td className="py-2 px-3 text-right">{formatPrice(taxTotals.grossAmount)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
       </motion.div>
 
       {/* Filters and Controls */}
@@ -388,7 +720,9 @@ const Reports: React.FC = () => {
           >
             <option value="all">All Status</option>
             <option value="completed">Completed</option>
+            <option value="partially_refunded">Partially Refunded</option>
             <option value="refunded">Refunded</option>
+            <option value="voided">Voided</option>
           </select>
           
           <select
@@ -400,6 +734,7 @@ const Reports: React.FC = () => {
             <option value="cash">Cash</option>
             <option value="card">Card</option>
             <option value="transfer">Transfer</option>
+            <option value="mixed">Mixed</option>
           </select>
 
           <button
@@ -520,21 +855,23 @@ const Reports: React.FC = () => {
                   </td>
                   <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     {formatPrice(sale.totalAmount)}
+                    {(sale.refundedAmount || 0) > 0 && (
+                      <span className="block text-xs text-red-600">-{formatPrice(sale.refundedAmount || 0)}</span>
+                    )}
                   </td>
                   <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
                       sale.paymentMethod === 'cash' ? 'bg-green-100 text-green-800' :
                       sale.paymentMethod === 'card' ? 'bg-blue-100 text-blue-800' :
+                      sale.paymentMethod === 'mixed' ? 'bg-yellow-100 text-yellow-800' :
                       'bg-purple-100 text-purple-800'
-                    }`}>
-                      {sale.paymentMethod.charAt(0).toUpperCase() + sale.paymentMethod.slice(1)}
+                    }`} title={formatTenders(sale)}>
+                      {formatMethod(sale.paymentMethod)}
                     </span>
                   </td>
                   <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
-                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                      sale.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                    }`}>
-                      {sale.status.charAt(0).toUpperCase() + sale.status.slice(1)}
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeClass(sale.status)}`}>
+                      {formatStatus(sale.status)}
                     </span>
                   </td>
                   <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -641,16 +978,85 @@ const Reports: React.FC = () => {
               </div>
               <div>
                 <p className="text-sm text-gray-600">Payment Method</p>
-                <p className="font-medium">{selectedSale.paymentMethod.charAt(0).toUpperCase() + selectedSale.paymentMethod.slice(1)}</p>
+                <p className="font-medium">{formatMethod(selectedSale.paymentMethod)}</p>
+                {selectedSale.payments && selectedSale.payments.length > 1 && selectedSale.payments.map((payment, index) => (
+                  <p key={index} className="text-xs text-gray-500">
+                    {formatMethod(payment.method)}: {formatPrice(payment.amount)}
+                    {payment.reference ? ` (${payment.reference})` : ''}
+                  </p>
+                ))}
+                {selectedSale.payments?.some(payment => (payment.changeGiven || 0) > 0) && (
+                  <p className="text-xs text-gray-500">
+                    Change given: {formatPrice(selectedSale.payments.reduce((sum, payment) => sum + (payment.changeGiven || 0), 0))}
+                  </p>
+                )}
               </div>
               <div>
                 <p className="text-sm text-gray-600">Status</p>
-                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                  selectedSale.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                }`}>
-                  {selectedSale.status.charAt(0).toUpperCase() + selectedSale.status.slice(1)}
+                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeClass(selectedSale.status)}`}>
+                  {formatStatus(selectedSale.status)}
                 </span>
               </div>
+              {(selectedSale.discountAmount || 0) > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600">Discounts</p>
+                  <p className="font-medium text-green-600">
+                    -{formatPrice(selectedSale.discountAmount || 0)} (subtotal {formatPrice(selectedSale.subtotalAmount || 0)})
+                  </p>
+                  {selectedSale.discounts?.map((discount, index) => (
+                    <p key={index} className="text-xs text-gray-500">
+                      {discount.source === 'promo' ? `Promo ${discount.code}` : discount.source === 'loyalty' ? `Loyalty (${discount.loyaltyPoints} pts)` : discount.reason || 'Manual discount'}: -{formatPrice(discount.amount)}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {(selectedSale.retailItems || []).length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600">Retail Products</p>
+                  {selectedSale.retailItems?.map((item, index) => (
+                    <p key={index} className="text-xs text-gray-500">
+                      {item.quantity} x {item.productName}: {formatPrice(item.unitPrice * item.quantity)}
+                      {' '}(margin {formatPrice(RetailService.getLineMargin(item))}){item.refundedAt ? ' - refunded' : ''}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {selectedSale.invoiceNumber && (
+                <div>
+                  <p className="text-sm text-gray-600">Invoice</p>
+                  <p className="font-medium">{selectedSale.invoiceNumber}</p>
+                </div>
+              )}
+              {(selectedSale.taxAmount || 0) > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600">TVA</p>
+                  <p className="font-medium">{formatPrice(selectedSale.taxAmount || 0)}</p>
+                  {selectedSale.taxLines?.map((taxLine, index) => (
+                    <p key={index} className="text-xs text-gray-500">
+                      {taxLine.rate}% on {formatPrice(taxLine.taxableAmount)} HT: {formatPrice(taxLine.taxAmount)}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {(selectedSale.tipAmount || 0) > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600">Tip (not included in revenue)</p>
+                  <p className="font-medium">{formatPrice(selectedSale.tipAmount || 0)}</p>
+                  {selectedSale.tips?.map((tip, index) => (
+                    <p key={index} className="text-xs text-gray-500">
+                      {tip.staffName || 'Staff'}: {formatPrice(tip.amount)}{tip.status && tip.status !== 'pending' ? ` (${tip.status})` : ''}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {(selectedSale.refundedAmount || 0) > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600">Refunded</p>
+                  <p className="font-medium text-red-600">
+                    {formatPrice(selectedSale.refundedAmount || 0)} (net {formatPrice(selectedSale.totalAmount - (selectedSale.refundedAmount || 0))})
+                  </p>
+                </div>
+              )}
             </div>
             
             {selectedSale.notes && (
@@ -659,9 +1065,48 @@ const Reports: React.FC = () => {
                 <p className="font-medium">{selectedSale.notes}</p>
               </div>
             )}
+
+            {selectedSaleRefunds.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm text-gray-600 mb-2">Refund History</p>
+                <div className="space-y-2">
+                  {selectedSaleRefunds.map(refund => (
+                    <div key={refund.id} className="p-3 bg-red-50 border border-red-100 rounded-lg text-sm">
+                      <div className="flex justify-between font-medium">
+                        <span className="capitalize">{refund.refundType === 'void' ? 'Voided' : `${refund.refundType} refund`}</span>
+                        <span className="text-red-600">-{formatPrice(refund.amount)}</span>
+                      </div>
+                      <p className="text-gray-700">{refund.reason}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(refund.createdAt).toLocaleString()} by {refund.refundedByName || 'Unknown'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {(selectedSale.status === 'completed' || selectedSale.status === 'partially_refunded') && (
+              <div className="mt-6 flex justify-end">
+                <button
+                  onClick={() => setShowRefundModal(true)}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Refund / Void
+                </button>
+              </div>
+            )}
           </div>
         </div>
       )}
+
+      <SaleRefundModal
+        isOpen={showRefundModal}
+        onClose={() => setShowRefundModal(false)}
+        sale={selectedSale}
+        onRefunded={handleSaleRefunded}
+      />
     </div>
   );
 };
@@ -5,6 +5,7 @@ import { Service, User } from '@/types';
 import Logo from '@/components/Logo';
 import ServiceModal from '@/components/ServiceModal';
 import { serviceService, staffService } from '@/services/database';
+import { UnitService } from '@/services/UnitService';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { toast } from 'react-hot-toast';
 import { formatPrice } from '@/utils/currency';
@@ -284,7 +285,7 @@ const Services: React.FC = () => {
                 <div className="flex flex-wrap gap-1">
                   {service.requiredProducts.slice(0, 3).map((product, index) => (
                     <span key={index} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
-                      Product {product.productId} ({product.quantity} {product.unit})
+                      Product {product.productId} ({UnitService.format(product.requiredMl ?? product.quantity ?? 0, product.unit)})
                     </span>
                   ))}
                   {service.requiredProducts.length > 3 && (
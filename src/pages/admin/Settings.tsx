@@ -1,14 +1,17 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Settings as SettingsIcon, User, Bell, Shield, Palette, Database, Users, Plus, UserCheck } from 'lucide-react';
+import { Settings as SettingsIcon, User, Bell, Shield, Palette, Database, Users, Plus, UserCheck, Tag, Receipt, CalendarOff } from 'lucide-react';
 import Logo from '@/components/Logo';
 import { useLanguage } from '@/contexts/LanguageContext';
 import StaffManagement from '../../components/admin/StaffManagement';
+import LeaveManagement from '../../components/admin/LeaveManagement';
 import UserManagement from '../../components/UserManagement';
+import PromoCodeManagement from '../../components/admin/PromoCodeManagement';
 import { 
   NotificationSettings, 
   SecuritySettings, 
   AppearanceSettings, 
+  ReceiptSettings,
   DataBackupSettings, 
   AdvancedSettings,
   QuickActions 
@@ -20,10 +23,13 @@ const Settings: React.FC = () => {
 
   const tabs = [
     { id: 'staff', label: 'Staff Management', icon: Users },
+    { id: 'leave', label: 'Leave & Holidays', icon: CalendarOff },
     { id: 'users', label: 'User Management', icon: UserCheck },
+    { id: 'promotions', label: 'Promo Codes', icon: Tag },
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'security', label: 'Security', icon: Shield },
     { id: 'appearance', label: 'Appearance', icon: Palette },
+    { id: 'receipts', label: 'Receipts', icon: Receipt },
     { id: 'data', label: 'Data & Backup', icon: Database },
     { id: 'advanced', label: 'Advanced', icon: SettingsIcon },
     { id: 'quick', label: 'Quick Actions', icon: Plus },
@@ -74,10 +80,13 @@ const Settings: React.FC = () => {
         transition={{ duration: 0.3 }}
       >
         {activeTab === 'staff' && <StaffManagement />}
+        {activeTab === 'leave' && <LeaveManagement />}
         {activeTab === 'users' && <UserManagement />}
+        {activeTab === 'promotions' && <PromoCodeManagement />}
         {activeTab === 'notifications' && <NotificationSettings />}
         {activeTab === 'security' && <SecuritySettings />}
         {activeTab === 'appearance' && <AppearanceSettings />}
+        {activeTab === 'receipts' && <ReceiptSettings />}
         {activeTab === 'data' && <DataBackupSettings />}
         {activeTab === 'advanced' && <AdvancedSettings />}
         {activeTab === 'quick' && <QuickActions />}
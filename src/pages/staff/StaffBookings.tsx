@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
   Calendar,
@@ -19,13 +20,19 @@ import {
   CalendarDays,
   Timer,
   DollarSign,
-  X
+  X,
+  UserCheck,
+  CalendarCheck
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { supabase } from '@/lib/supabaseClient';
+import { bookingService, staffScheduleService } from '@/services/database';
+import { BOOKING_STATUSES, BookingStatusService } from '@/services/BookingStatusService';
+import { BookingCheckoutService } from '@/services/BookingCheckoutService';
 import toast from 'react-hot-toast';
 import { formatPrice } from '@/utils/currency';
+import { BookingStatus, WorkingRange } from '@/types';
 
 interface Booking {
   id: string;
@@ -34,8 +41,9 @@ interface Booking {
   staffId: string;
   date: string;
   time: string;
-  status: 'scheduled' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
+  status: BookingStatus;
   notes?: string;
+  saleId?: string;
   createdAt: string;
   updatedAt: string;
   clients?: {
@@ -52,9 +60,20 @@ interface Booking {
   };
 }
 
+const STATUS_ACTIONS: Record<BookingStatus, { icon: React.ElementType; className: string }> = {
+  pending: { icon: Calendar, className: 'btn-secondary' },
+  confirmed: { icon: CheckCircle, className: 'btn-primary' },
+  checked_in: { icon: UserCheck, className: 'btn-primary' },
+  in_progress: { icon: Timer, className: 'btn-primary' },
+  completed: { icon: CheckCircle, className: 'btn-success' },
+  cancelled: { icon: XCircle, className: 'btn-danger' },
+  no_show: { icon: AlertCircle, className: 'btn-secondary' },
+};
+
 const StaffBookings: React.FC = () => {
   const { user } = useAuth();
   const { t } = useLanguage();
+  const navigate = useNavigate();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [filteredBookings, setFilteredBookings] = useState<Booking[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -63,6 +82,7 @@ const StaffBookings: React.FC = () => {
   const [dateFilter, setDateFilter] = useState<string>('all');
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
+  const [todayRanges, setTodayRanges] = useState<WorkingRange[] | null>(null);
 
   const fetchBookings = async () => {
     console.log('🚀 fetchBookings called');
@@ -83,14 +103,25 @@ const StaffBookings: React.FC = () => {
       console.log('🔍 Staff Dashboard - User object:', user);
       console.log('🔍 About to query bookings with staff_id:', user.id);
       
+      // Multi-service bookings this staff member only takes part in
+      const { data: segmentRows } = await supabase
+        .from('booking_segments')
+        .select('booking_id')
+        .eq('staff_id', user.id);
+      const segmentBookingIds = (segmentRows || []).map(segment => segment.booking_id);
+
       const { data: bookingsData, error } = await supabase
         .from('bookings')
         .select(`
           *,
           clients:client_id (id, name, phone, email),
-          services:service_id (id, name, price, duration)
+          services:service_id (id, name, price, duration),
+          sales (id, status),
+          booking_segments (staff_id, start_at, services:service_id (id, name, price, duration))
         `)
-        .eq('staff_id', user.id)
+        .or(segmentBookingIds.length > 0
+          ? `staff_id.eq.${user.id},id.in.(${segmentBookingIds.join(',')})`
+          : `staff_id.eq.${user.id}`)
         .order('start_at', { ascending: true });
       
       console.log('🔍 Staff Dashboard - Raw bookings query result:', bookingsData);
@@ -103,34 +134,42 @@ const StaffBookings: React.FC = () => {
         return;
       }
 
-      const formattedBookings: Booking[] = bookingsData.map(booking => ({
-        id: booking.id,
-        clientId: booking.client_id,
-        serviceId: booking.service_id,
-        staffId: booking.staff_id,
-        date: booking.start_at ? new Date(booking.start_at).toISOString().split('T')[0] : '',
-        time: booking.start_at ? new Date(booking.start_at).toLocaleTimeString('en-US', { 
-          hour: '2-digit', 
-          minute: '2-digit',
-          hour12: false 
-        }) : '',
-        status: booking.status,
-        notes: booking.notes,
-        createdAt: booking.created_at,
-        updatedAt: booking.updated_at,
-        clients: booking.clients ? {
-          id: booking.clients.id,
-          name: booking.clients.name,
-          phone: booking.clients.phone,
-          email: booking.clients.email,
-        } : undefined,
-        services: booking.services ? {
-          id: booking.services.id,
-          name: booking.services.name,
-          price: booking.services.price,
-          duration: booking.services.duration,
-        } : undefined,
-      }));
+      const formattedBookings: Booking[] = bookingsData.map(booking => {
+        // In a multi-service booking, the service this staff member performs
+        const ownSegment = booking.booking_segments?.find((segment: any) => segment.staff_id === user.id);
+        const startAt = ownSegment?.start_at || booking.start_at;
+        const service = ownSegment?.services || booking.services;
+
+        return {
+          id: booking.id,
+          clientId: booking.client_id,
+          serviceId: service?.id || booking.service_id,
+          staffId: booking.staff_id,
+          date: startAt ? new Date(startAt).toISOString().split('T')[0] : '',
+          time: startAt ? new Date(startAt).toLocaleTimeString('en-US', { 
+            hour: '2-digit', 
+            minute: '2-digit',
+            hour12: false 
+          }) : '',
+          status: BookingStatusService.normalize(booking.status),
+          notes: booking.notes,
+          saleId: BookingCheckoutService.findPayingSaleId(booking.sales),
+          createdAt: booking.created_at,
+          updatedAt: booking.updated_at,
+          clients: booking.clients ? {
+            id: booking.clients.id,
+            name: booking.clients.name,
+            phone: booking.clients.phone,
+            email: booking.clients.email,
+          } : undefined,
+          services: service ? {
+            id: service.id,
+            name: service.name,
+            price: service.price,
+            duration: service.duration,
+          } : undefined,
+        };
+      });
 
       console.log('📋 Formatted bookings:', formattedBookings);
       console.log('📊 Setting bookings state with', formattedBookings.length, 'items');
@@ -153,6 +192,15 @@ const StaffBookings: React.FC = () => {
     fetchBookings();
   }, [user?.id]);
 
+  useEffect(() => {
+    if (!user?.id) return;
+    const now = new Date();
+    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    staffScheduleService.getWorkingRanges([user.id], today, today)
+      .then(setTodayRanges)
+      .catch(error => console.error('Error fetching today\'s schedule:', error));
+  }, [user?.id]);
+
   useEffect(() => {
     console.log('🔍 Filtering bookings - Initial count:', bookings.length);
     console.log('🔍 Filter settings:', { dateFilter, statusFilter, searchTerm });
@@ -220,42 +268,33 @@ const StaffBookings: React.FC = () => {
     setFilteredBookings(filtered);
   }, [bookings, searchTerm, statusFilter, dateFilter]);
 
-  const updateBookingStatus = async (bookingId: string, newStatus: Booking['status']) => {
-    try {
-      const { error } = await supabase
-        .from('bookings')
-        .update({ 
-          status: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
+  const updateBookingStatus = async (booking: Booking, newStatus: BookingStatus) => {
+    const note = newStatus === 'cancelled' ? prompt(t('bookingStatus.cancelReason')) : undefined;
+    if (note === null) return;
 
-      if (error) {
-        console.error('Error updating booking status:', error);
-        toast.error('Failed to update booking status');
-        return;
-      }
+    try {
+      const updated = await bookingService.updateStatus(booking.id, booking.status, newStatus, note);
+      if (!updated) return;
 
       // Update local state
-      setBookings(prev => prev.map(booking => 
-        booking.id === bookingId 
-          ? { ...booking, status: newStatus, updatedAt: new Date().toISOString() }
-          : booking
+      setBookings(prev => prev.map(b =>
+        b.id === booking.id
+          ? { ...b, status: BookingStatusService.normalize(updated.status), updatedAt: updated.updated_at }
+          : b
       ));
-
-      toast.success('Booking status updated successfully');
     } catch (error) {
       console.error('Error updating booking status:', error);
-      toast.error('Failed to update booking status');
     }
   };
 
   const getStatusColor = (status: Booking['status']) => {
     switch (status) {
-      case 'scheduled':
+      case 'pending':
         return 'bg-blue-50 text-blue-700 border-blue-200';
       case 'confirmed':
         return 'bg-green-50 text-green-700 border-green-200';
+      case 'checked_in':
+        return 'bg-purple-50 text-purple-700 border-purple-200';
       case 'in_progress':
         return 'bg-yellow-50 text-yellow-700 border-yellow-200';
       case 'completed':
@@ -271,10 +310,12 @@ const StaffBookings: React.FC = () => {
 
   const getStatusIcon = (status: Booking['status']) => {
     switch (status) {
-      case 'scheduled':
+      case 'pending':
         return <Calendar className="w-4 h-4" />;
       case 'confirmed':
         return <CheckCircle className="w-4 h-4" />;
+      case 'checked_in':
+        return <UserCheck className="w-4 h-4" />;
       case 'in_progress':
         return <Timer className="w-4 h-4" />;
       case 'completed':
@@ -308,7 +349,7 @@ const StaffBookings: React.FC = () => {
     const now = new Date();
     return bookings.filter(booking => 
       new Date(booking.date + 'T' + booking.time) > now && 
-      ['scheduled', 'confirmed'].includes(booking.status)
+      BookingStatusService.isUpcoming(booking.status)
     ).length;
   };
 
@@ -323,24 +364,7 @@ const StaffBookings: React.FC = () => {
     return bookings.filter(booking => booking.status === 'completed').length;
   };
 
-  const getStatusText = (status: Booking['status']) => {
-    switch (status) {
-      case 'scheduled':
-        return t('staffBookings.scheduled');
-      case 'confirmed':
-        return t('staffBookings.confirmed');
-      case 'in_progress':
-        return t('staffBookings.inProgress');
-      case 'completed':
-        return t('staffBookings.completed');
-      case 'cancelled':
-        return t('staffBookings.cancelled');
-      case 'no_show':
-        return t('staffBookings.noShow');
-      default:
-        return status;
-    }
-  };
+  const getStatusText = (status: Booking['status']) => t(`bookingStatus.${status}`);
 
   const todayCount = getTodayBookingsCount();
   const upcomingCount = getUpcomingBookingsCount();
@@ -372,6 +396,18 @@ const StaffBookings: React.FC = () => {
         </button>
       </div>
 
+      {/* Today's Working Hours */}
+      {todayRanges && (
+        <div className={`flex items-center gap-3 p-4 rounded-lg border ${todayRanges.length > 0 ? 'bg-green-50 border-green-200 text-green-800' : 'bg-gray-50 border-gray-200 text-gray-700'}`}>
+          <Clock className="w-5 h-5" />
+          <span className="text-sm font-medium">
+            {todayRanges.length > 0
+              ? t('staffSchedule.todayHours').replace('{hours}', todayRanges.map(range => `${range.start} - ${range.end}`).join(', '))
+              : t('staffSchedule.notWorkingToday')}
+          </span>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <motion.div
@@ -465,12 +501,9 @@ const StaffBookings: React.FC = () => {
               className="input-field min-w-[140px]"
             >
               <option value="all">{t('staffBookings.allStatus')}</option>
-              <option value="scheduled">{t('staffBookings.scheduled')}</option>
-              <option value="confirmed">{t('staffBookings.confirmed')}</option>
-              <option value="in_progress">{t('staffBookings.inProgress')}</option>
-              <option value="completed">{t('staffBookings.completed')}</option>
-              <option value="cancelled">{t('staffBookings.cancelled')}</option>
-              <option value="no_show">{t('staffBookings.noShow')}</option>
+              {BOOKING_STATUSES.map(status => (
+                <option key={status} value={status}>{getStatusText(status)}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -562,45 +595,36 @@ const StaffBookings: React.FC = () => {
                     {t('staffBookings.viewDetails')}
                   </button>
 
-                  {booking.status === 'scheduled' && (
+                  {BookingCheckoutService.canCheckout(booking) && (
                     <button
-                      onClick={() => updateBookingStatus(booking.id, 'confirmed')}
-                      className="btn-primary flex items-center justify-center gap-2"
-                    >
-                      <CheckCircle className="w-4 h-4" />
-                      {t('staffBookings.confirm')}
-                    </button>
-                  )}
-
-                  {booking.status === 'confirmed' && (
-                    <button
-                      onClick={() => updateBookingStatus(booking.id, 'in_progress')}
-                      className="btn-primary flex items-center justify-center gap-2"
-                    >
-                      <Timer className="w-4 h-4" />
-                      {t('staffBookings.startService')}
-                    </button>
-                  )}
-
-                  {booking.status === 'in_progress' && (
-                    <button
-                      onClick={() => updateBookingStatus(booking.id, 'completed')}
+                      onClick={() => navigate(`/?booking=${booking.id}`)}
                       className="btn-success flex items-center justify-center gap-2"
                     >
-                      <CheckCircle className="w-4 h-4" />
-                      {t('staffBookings.complete')}
+                      <CalendarCheck className="w-4 h-4" />
+                      {t('staffBookings.checkout')}
                     </button>
                   )}
 
-                  {['scheduled', 'confirmed'].includes(booking.status) && (
-                    <button
-                      onClick={() => updateBookingStatus(booking.id, 'cancelled')}
-                      className="btn-danger flex items-center justify-center gap-2"
-                    >
-                      <XCircle className="w-4 h-4" />
-                      {t('staffBookings.cancel')}
-                    </button>
+                  {booking.saleId && (
+                    <div className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-green-50 text-green-700 text-sm font-medium">
+                      <DollarSign className="w-4 h-4" />
+                      {t('staffBookings.paid')}
+                    </div>
                   )}
+
+                  {BookingStatusService.nextStatuses(booking.status).map(nextStatus => {
+                    const { icon: Icon, className } = STATUS_ACTIONS[nextStatus];
+                    return (
+                      <button
+                        key={nextStatus}
+                        onClick={() => updateBookingStatus(booking, nextStatus)}
+                        className={`${className} flex items-center justify-center gap-2`}
+                      >
+                        <Icon className="w-4 h-4" />
+                        {t(`bookingStatus.actions.${nextStatus}`)}
+                      </button>
+                    );
+                  })}
                 </div>
               </div>
             </motion.div>
@@ -12,10 +12,11 @@ import {
   FileText,
   CreditCard,
   Target,
-  Award
+  Award,
+  Heart
 } from 'lucide-react';
-import { commissionService } from '@/services/database';
-import { Commission } from '@/types';
+import { commissionService, tipService } from '@/services/database';
+import { Commission, SaleTip } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { formatPrice } from '@/utils/currency';
 import toast from 'react-hot-toast';
@@ -47,6 +48,7 @@ interface MonthlyData {
 const StaffCommissions: React.FC = () => {
   const { user } = useAuth();
   const [commissions, setCommissions] = useState<CommissionWithDetails[]>([]);
+  const [tips, setTips] = useState<SaleTip[]>([]);
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
   const [yearlyTotal, setYearlyTotal] = useState({
     totalCommissions: 0,
@@ -72,12 +74,14 @@ const StaffCommissions: React.FC = () => {
     
     setLoading(true);
     try {
-      const [commissionsData, summaryData] = await Promise.all([
+      const [commissionsData, summaryData, tipsData] = await Promise.all([
         commissionService.getByStaffId(user.id),
-        commissionService.getStaffCommissionSummary(user.id, selectedYear)
+        commissionService.getStaffCommissionSummary(user.id, selectedYear),
+        tipService.getByStaffId(user.id)
       ]);
 
       setCommissions(commissionsData);
+      setTips(tipsData);
       setMonthlyData(summaryData.monthlyData);
       setYearlyTotal(summaryData.yearlyTotal);
     } catch (error) {
@@ -147,6 +151,16 @@ const StaffCommissions: React.FC = () => {
   const endIndex = startIndex + itemsPerPage;
   const currentCommissions = commissions.slice(startIndex, endIndex);
 
+  // Tips are tracked apart from commissions and paid out alongside them
+  const yearTips = tips.filter(tip =>
+    tip.status !== 'cancelled' && tip.createdAt && new Date(tip.createdAt).getFullYear() === selectedYear
+  );
+  const tipTotals = {
+    totalAmount: yearTips.reduce((sum, tip) => sum + tip.amount, 0),
+    paidAmount: yearTips.filter(tip => tip.status === 'paid').reduce((sum, tip) => sum + tip.amount, 0),
+    pendingAmount: yearTips.filter(tip => tip.status === 'pending').reduce((sum, tip) => sum + tip.amount, 0),
+  };
+
   // Get top performing months
   const topMonths = [...monthlyData]
     .sort((a, b) => b.totalAmount - a.totalAmount)
@@ -246,6 +260,50 @@ const StaffCommissions: React.FC = () => {
         </div>
       </div>
 
+      {/* Tips */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 mb-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Tips ({selectedYear})</h3>
+            <p className="text-sm text-gray-500">Left by clients at checkout and paid out with your commissions</p>
+          </div>
+          <div className="p-3 bg-pink-100 rounded-lg">
+            <Heart className="w-6 h-6 text-pink-600" />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Total Tips</p>
+            <p className="text-2xl font-bold text-gray-900">{formatPrice(tipTotals.totalAmount)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-600">Paid</p>
+            <p className="text-2xl font-bold text-green-600">{formatPrice(tipTotals.paidAmount)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-600">Pending</p>
+            <p className="text-2xl font-bold text-yellow-600">{formatPrice(tipTotals.pendingAmount)}</p>
+          </div>
+        </div>
+        {yearTips.length > 0 ? (
+          <div className="space-y-2">
+            {yearTips.slice(0, 5).map(tip => (
+              <div key={tip.id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-700">
+                  {tip.createdAt ? new Date(tip.createdAt).toLocaleDateString() : ''}
+                </span>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold text-gray-900">{formatPrice(tip.amount)}</span>
+                  {getStatusBadge(tip.status || 'pending')}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No tips received this year</p>
+        )}
+      </div>
+
       {/* Charts and Analytics */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
         {/* Monthly Earnings Chart */}
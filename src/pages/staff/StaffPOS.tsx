@@ -1,15 +1,19 @@
 import React from 'react';
+import { useSearchParams } from 'react-router-dom';
 import POSInterface from '@/components/POSInterface';
 import toast from 'react-hot-toast';
 
 const StaffPOS: React.FC = () => {
+  // Set when checking out a booking from My Appointments
+  const [searchParams] = useSearchParams();
+
   const handleSaleComplete = (saleData: any) => {
     // Handle sale completion - could save to database, update inventory, etc.
     console.log('Sale completed:', saleData);
     toast.success('Sale recorded successfully!');
   };
 
-  return <POSInterface onSaleComplete={handleSaleComplete} />;
+  return <POSInterface onSaleComplete={handleSaleComplete} bookingId={searchParams.get('booking') || undefined} />;
 };
 
 export default StaffPOS;
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Clock, CalendarOff, Send, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Logo from '@/components/Logo';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { leaveService, staffScheduleService } from '@/services/database';
+import { StaffScheduleService } from '@/services/StaffScheduleService';
+import { LeaveRequest, LeaveRequestStatus, LeaveType, WorkingRange } from '@/types';
+
+const DAYS_SHOWN = 14;
+
+const STATUS_STYLES: Record<LeaveRequestStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const upcomingDates = (): string[] =>
+  Array.from({ length: DAYS_SHOWN }, (_, offset) => {
+    const date = new Date();
+    date.setDate(date.getDate() + offset);
+    return toDateString(date);
+  });
+
+const StaffSchedule: React.FC = () => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [ranges, setRanges] = useState<WorkingRange[]>([]);
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [leaveForm, setLeaveForm] = useState({
+    startDate: '',
+    endDate: '',
+    leaveType: 'vacation' as LeaveType,
+    reason: ''
+  });
+
+  const dates = upcomingDates();
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      const [rangeData, requestData] = await Promise.all([
+        staffScheduleService.getWorkingRanges([user.id], dates[0], dates[dates.length - 1]),
+        leaveService.getAll({ staffId: user.id }),
+      ]);
+      setRanges(rangeData);
+      setRequests(requestData);
+    } catch (error) {
+      console.error('Error fetching schedule:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRequestLeave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!leaveForm.startDate || !leaveForm.endDate) {
+      toast.error(t('staffSchedule.datesRequired'));
+      return;
+    }
+
+    if (StaffScheduleService.findOverlappingLeave(requests, leaveForm.startDate, leaveForm.endDate).length > 0) {
+      toast.error(t('staffSchedule.overlapsLeave'));
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const created = await leaveService.request(user.id, leaveForm);
+      if (created) {
+        setRequests(prev => [created, ...prev]);
+        setLeaveForm({ startDate: '', endDate: '', leaveType: 'vacation', reason: '' });
+      }
+    } catch (error) {
+      console.error('Error requesting leave:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (request: LeaveRequest) => {
+    if (!confirm(t('staffSchedule.cancelConfirm'))) return;
+
+    try {
+      if (await leaveService.cancel(request.id)) {
+        setRequests(prev => prev.map(r => (r.id === request.id ? { ...r, status: 'cancelled' } : r)));
+      }
+    } catch (error) {
+      console.error('Error cancelling leave request:', error);
+    }
+  };
+
+  const leaveDays = leaveForm.startDate && leaveForm.endDate
+    ? StaffScheduleService.countLeaveDays(leaveForm.startDate, leaveForm.endDate)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-center"
+      >
+        <div className="flex items-center justify-center gap-3 mb-4">
+          <Logo size="lg" variant="light" />
+          <h1 className="text-3xl font-bold text-gray-800 text-elegant">{t('staffSchedule.title')}</h1>
+        </div>
+        <p className="text-gray-600 mt-1">{t('staffSchedule.subtitle')}</p>
+      </motion.div>
+
+      {/* Upcoming working hours */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="card"
+      >
+        <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <Clock className="w-5 h-5 text-primary-600" />
+          {t('staffSchedule.upcoming')}
+        </h2>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-3">
+            {dates.map(date => {
+              const dayRanges = ranges.filter(range => range.date === date);
+              return (
+                <div
+                  key={date}
+                  className={`p-3 rounded-lg border ${dayRanges.length > 0 ? 'border-green-200 bg-green-50' : 'border-gray-200 bg-gray-50'}`}
+                >
+                  <p className="text-sm font-medium text-gray-800">
+                    {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}
+                  </p>
+                  {dayRanges.length === 0 ? (
+                    <p className="text-sm text-gray-500 mt-1">{t('staffSchedule.off')}</p>
+                  ) : (
+                    dayRanges.map(range => (
+                      <p key={range.start} className="text-sm text-green-800 mt-1">{range.start} - {range.end}</p>
+                    ))
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+
+      {/* Leave request form */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="card"
+      >
+        <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <CalendarOff className="w-5 h-5 text-primary-600" />
+          {t('staffSchedule.requestLeave')}
+        </h2>
+        <form onSubmit={handleRequestLeave} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('staffSchedule.from')}</label>
+            <input
+              type="date"
+              min={dates[0]}
+              value={leaveForm.startDate}
+              onChange={(e) => setLeaveForm(prev => ({ ...prev, startDate: e.target.value, endDate: prev.endDate || e.target.value }))}
+              className="input-field w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('staffSchedule.to')}</label>
+            <input
+              type="date"
+              min={leaveForm.startDate || dates[0]}
+              value={leaveForm.endDate}
+              onChange={(e) => setLeaveForm(prev => ({ ...prev, endDate: e.target.value }))}
+              className="input-field w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('staffSchedule.type')}</label>
+            <select
+              value={leaveForm.leaveType}
+              onChange={(e) => setLeaveForm(prev => ({ ...prev, leaveType: e.target.value as LeaveType }))}
+              className="input-field w-full"
+            >
+              <option value="vacation">{t('staffSchedule.vacation')}</option>
+              <option value="sick">{t('staffSchedule.sick')}</option>
+              <option value="personal">{t('staffSchedule.personal')}</option>
+              <option value="other">{t('staffSchedule.other')}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('staffSchedule.reason')}</label>
+            <input
+              type="text"
+              value={leaveForm.reason}
+              onChange={(e) => setLeaveForm(prev => ({ ...prev, reason: e.target.value }))}
+              className="input-field w-full"
+            />
+          </div>
+          <div className="md:col-span-2 flex items-center justify-between">
+            <span className="text-sm text-gray-600">
+              {leaveDays > 0 && t('staffSchedule.days').replace('{count}', String(leaveDays))}
+            </span>
+            <button type="submit" disabled={isSubmitting} className="btn-primary flex items-center gap-2 disabled:opacity-50">
+              <Send className="w-4 h-4" />
+              {t('staffSchedule.send')}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+
+      {/* My leave requests */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+        className="card"
+      >
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('staffSchedule.myRequests')}</h2>
+        {requests.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">{t('staffSchedule.noRequests')}</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {requests.map(request => (
+              <div key={request.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {new Date(`${request.startDate}T00:00:00`).toLocaleDateString()} - {new Date(`${request.endDate}T00:00:00`).toLocaleDateString()}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {t(`staffSchedule.${request.leaveType}`)}
+                    {request.reason && ` · ${request.reason}`}
+                  </p>
+                  {request.reviewNote && <p className="text-xs text-gray-500 mt-1">{request.reviewNote}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[request.status]}`}>
+                    {t(`staffSchedule.${request.status}`)}
+                  </span>
+                  {request.status === 'pending' && (
+                    <button
+                      onClick={() => handleCancel(request)}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                      title={t('staffSchedule.cancel')}
+                    >
+                      <XCircle className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default StaffSchedule;
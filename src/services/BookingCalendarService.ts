@@ -0,0 +1,173 @@
+import { Booking } from '@/types';
+import { BookingStatusService } from './BookingStatusService';
+
+// ============================================================================
+// BOOKING CALENDAR SERVICE
+// ============================================================================
+// Layout and drag arithmetic for the bookings calendar. Days are read in the
+// browser's time zone, which is the salon's. Bookings overlapping in one
+// column are laid out side by side in lanes; moves and resizes snap to the
+// calendar grid and keep the booking on a single day. Whether the new time
+// is free is checked by BookingValidationService before saving. A booking
+// of several services shows one block per service, in its staff member's
+// column, and is not dragged.
+// ============================================================================
+
+export interface CalendarEvent<B extends Booking = Booking> {
+  booking: B;
+  start: Date;
+  end: Date;
+  lane: number; // 0-based position among overlapping bookings
+  lanes: number; // number of lanes in the overlapping group
+}
+
+export interface BookingTimes {
+  startAt: string;
+  endAt: string;
+}
+
+export const SNAP_MINUTES = 15;
+
+const MINUTE = 60000;
+
+export class BookingCalendarService {
+  /**
+   * YYYY-MM-DD of a date in local time
+   */
+  static toLocalDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  static shiftDate(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00`);
+    shifted.setDate(shifted.getDate() + days);
+    return this.toLocalDate(shifted);
+  }
+
+  /**
+   * The seven days, Monday first, of the week containing date
+   */
+  static weekDates(date: string): string[] {
+    const weekday = new Date(`${date}T00:00:00`).getDay();
+    const monday = this.shiftDate(date, -((weekday + 6) % 7));
+    return Array.from({ length: 7 }, (_, index) => this.shiftDate(monday, index));
+  }
+
+  /**
+   * Start and end of a booking; older rows only have date, time and duration
+   */
+  static getTimes(booking: Pick<Booking, 'startAt' | 'endAt' | 'date' | 'time' | 'duration'>): { start: Date; end: Date } {
+    const start = booking.startAt ? new Date(booking.startAt) : new Date(`${booking.date}T${booking.time}`);
+    const end = booking.endAt ? new Date(booking.endAt) : new Date(start.getTime() + (booking.duration || 60) * MINUTE);
+    return { start, end };
+  }
+
+  /**
+   * Bookings starting on date, laid out in lanes so overlapping bookings sit
+   * side by side; a lane is reused once its last booking has ended
+   */
+  static layoutDay<B extends Booking>(bookings: B[], date: string): CalendarEvent<B>[] {
+    const events = bookings
+      .map(booking => ({ booking, ...this.getTimes(booking), lane: 0, lanes: 1 }))
+      .filter(event => this.toLocalDate(event.start) === date)
+      .sort((a, b) => a.start.getTime() - b.start.getTime() || b.end.getTime() - a.end.getTime());
+
+    let group: CalendarEvent<B>[] = [];
+    let laneEnds: number[] = [];
+    let groupEnd = 0;
+
+    const closeGroup = () => {
+      group.forEach(event => { event.lanes = laneEnds.length; });
+      group = [];
+      laneEnds = [];
+    };
+
+    for (const event of events) {
+      if (group.length > 0 && event.start.getTime() >= groupEnd) {
+        closeGroup();
+      }
+
+      const lane = laneEnds.findIndex(end => end <= event.start.getTime());
+      event.lane = lane === -1 ? laneEnds.length : lane;
+      laneEnds[event.lane] = event.end.getTime();
+      groupEnd = Math.max(group.length > 0 ? groupEnd : 0, event.end.getTime());
+      group.push(event);
+    }
+    closeGroup();
+
+    return events;
+  }
+
+  /**
+   * One entry per service segment, with that segment's staff, service and
+   * times; bookings of a single service are returned as they are
+   */
+  static expandSegments<B extends Booking>(bookings: B[]): B[] {
+    return bookings.flatMap(booking => booking.segments
+      ? booking.segments.map(segment => ({
+          ...booking,
+          serviceId: segment.serviceId,
+          staffId: segment.staffId,
+          startAt: segment.startAt,
+          endAt: segment.endAt,
+        }))
+      : [booking]
+    );
+  }
+
+  static snap(minutes: number, step: number = SNAP_MINUTES): number {
+    return Math.round(minutes / step) * step;
+  }
+
+  /**
+   * New times for a booking dropped on date, deltaMinutes from where it was
+   * on its own day; the duration is kept
+   */
+  static moveTimes(booking: Booking, date: string, deltaMinutes: number, step: number = SNAP_MINUTES): BookingTimes {
+    const { start, end } = this.getTimes(booking);
+    const minutesIntoDay = start.getHours() * 60 + start.getMinutes() + this.snap(deltaMinutes, step);
+    const duration = end.getTime() - start.getTime();
+    const lastStart = 24 * 60 - Math.ceil(duration / MINUTE);
+
+    const newStart = new Date(`${date}T00:00:00`);
+    newStart.setMinutes(Math.min(Math.max(this.snap(minutesIntoDay, step), 0), lastStart));
+
+    return {
+      startAt: newStart.toISOString(),
+      endAt: new Date(newStart.getTime() + duration).toISOString(),
+    };
+  }
+
+  /**
+   * New times for a booking whose end was dragged by deltaMinutes; it lasts
+   * at least one step and ends by midnight
+   */
+  static resizeTimes(booking: Booking, deltaMinutes: number, step: number = SNAP_MINUTES): BookingTimes {
+    const { start, end } = this.getTimes(booking);
+    const midnight = new Date(start);
+    midnight.setHours(24, 0, 0, 0);
+
+    const duration = this.snap((end.getTime() - start.getTime()) / MINUTE + deltaMinutes, step);
+    const newEnd = new Date(Math.min(start.getTime() + Math.max(duration, step) * MINUTE, midnight.getTime()));
+
+    return {
+      startAt: start.toISOString(),
+      endAt: newEnd.toISOString(),
+    };
+  }
+
+  /**
+   * Only bookings the client has not arrived for yet can be moved; the
+   * services of a multi-service booking would have to move together
+   */
+  static canMove(booking: Pick<Booking, 'status' | 'segments'>): boolean {
+    return !booking.segments && BookingStatusService.isUpcoming(booking.status);
+  }
+
+  /**
+   * Running late can still be shown by stretching a booking under way
+   */
+  static canResize(booking: Pick<Booking, 'status' | 'segments'>): boolean {
+    return !booking.segments && !BookingStatusService.isFinal(booking.status);
+  }
+}
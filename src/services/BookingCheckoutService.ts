@@ -0,0 +1,77 @@
+import { Booking, Sale } from '@/types';
+import { BookingStatusService } from './BookingStatusService';
+
+// ============================================================================
+// BOOKING CHECKOUT SERVICE
+// ============================================================================
+// A booking is paid by ringing it up in the POS, which stores the booking's
+// id on the sale (see sale-bookings.sql). Sales with a booking are "booked"
+// revenue, the rest walk-ins; completed bookings without a sale are unpaid.
+// Voided sales pay for nothing and refunds are taken off the revenue.
+// ============================================================================
+
+type CheckoutSale = Pick<Sale, 'totalAmount' | 'status' | 'bookingId' | 'refundedAmount'>;
+
+export interface BookingRevenueSummary<B> {
+  bookedRevenue: number;
+  bookedSales: number;
+  walkInRevenue: number;
+  walkInSales: number;
+  unpaidBookings: B[];
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class BookingCheckoutService {
+  /**
+   * The sale that paid for a booking, from the sales embedded with it
+   */
+  static findPayingSaleId(sales: Array<{ id: string; status: string }> | null | undefined): string | undefined {
+    return (sales || []).find(sale => sale.status !== 'voided')?.id;
+  }
+
+  /**
+   * Bookings can be checked out once, unless they were cancelled or missed
+   */
+  static canCheckout(booking: Pick<Booking, 'status' | 'saleId'>): boolean {
+    return !booking.saleId && BookingStatusService.holdsSlot(booking.status);
+  }
+
+  /**
+   * Revenue from booked clients against walk-ins, and the completed bookings
+   * no sale has paid for
+   */
+  static summarize<B extends Pick<Booking, 'id' | 'status' | 'saleId'>>(
+    sales: CheckoutSale[],
+    bookings: B[]
+  ): BookingRevenueSummary<B> {
+    const summary: BookingRevenueSummary<B> = {
+      bookedRevenue: 0,
+      bookedSales: 0,
+      walkInRevenue: 0,
+      walkInSales: 0,
+      unpaidBookings: [],
+    };
+    const paidBookingIds = new Set<string>();
+
+    sales.filter(sale => sale.status !== 'voided').forEach(sale => {
+      const revenue = sale.totalAmount - (sale.refundedAmount || 0);
+      if (sale.bookingId) {
+        paidBookingIds.add(sale.bookingId);
+        summary.bookedRevenue += revenue;
+        summary.bookedSales += 1;
+      } else {
+        summary.walkInRevenue += revenue;
+        summary.walkInSales += 1;
+      }
+    });
+
+    summary.bookedRevenue = roundAmount(summary.bookedRevenue);
+    summary.walkInRevenue = roundAmount(summary.walkInRevenue);
+    summary.unpaidBookings = bookings.filter(booking =>
+      booking.status === 'completed' && !booking.saleId && !paidBookingIds.has(booking.id)
+    );
+
+    return summary;
+  }
+}
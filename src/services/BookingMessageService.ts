@@ -0,0 +1,85 @@
+import { BookingMessage, DueBookingMessage, MessageLanguage } from '@/types';
+
+// ============================================================================
+// BOOKING MESSAGE SERVICE
+// ============================================================================
+// Text of the confirmations and reminders sent to clients in their language,
+// and what the message log says about whether a client was reached. Which
+// messages are due, and what a "1" or "2" reply does, is decided in the
+// database (see booking-reminders.sql).
+// ============================================================================
+
+type MessageTemplate = (details: { name: string; service: string; staff: string; date: string; time: string }) => string;
+
+const TEMPLATES: Record<MessageLanguage, Record<DueBookingMessage['kind'], MessageTemplate>> = {
+  fr: {
+    confirmation: d => `Bonjour ${d.name},\n\nMerci pour votre réservation : ${d.service} avec ${d.staff} le ${d.date} à ${d.time}.\n\nRépondez 1 pour confirmer ou 2 pour annuler.`,
+    reminder: d => `Bonjour ${d.name},\n\nPetit rappel de votre rendez-vous : ${d.service} avec ${d.staff} le ${d.date} à ${d.time}.\n\nRépondez 1 pour confirmer ou 2 pour annuler.`,
+  },
+  ar: {
+    confirmation: d => `مرحبًا ${d.name}،\n\nشكرًا لحجزك: ${d.service} مع ${d.staff} يوم ${d.date} على الساعة ${d.time}.\n\nأرسل 1 للتأكيد أو 2 للإلغاء.`,
+    reminder: d => `مرحبًا ${d.name}،\n\nنذكّرك بموعدك: ${d.service} مع ${d.staff} يوم ${d.date} على الساعة ${d.time}.\n\nأرسل 1 للتأكيد أو 2 للإلغاء.`,
+  },
+  en: {
+    confirmation: d => `Hello ${d.name},\n\nThank you for booking ${d.service} with ${d.staff} on ${d.date} at ${d.time}.\n\nReply 1 to confirm or 2 to cancel.`,
+    reminder: d => `Hello ${d.name},\n\nA reminder of your appointment for ${d.service} with ${d.staff} on ${d.date} at ${d.time}.\n\nReply 1 to confirm or 2 to cancel.`,
+  },
+};
+
+// Line with the link to the client's manage-booking page
+const MANAGE_LINES: Record<MessageLanguage, (url: string) => string> = {
+  fr: url => `Pour modifier ou annuler votre rendez-vous : ${url}`,
+  ar: url => `لتغيير موعدك أو إلغائه: ${url}`,
+  en: url => `To reschedule or cancel: ${url}`,
+};
+
+const DATE_LOCALES: Record<MessageLanguage, string> = {
+  fr: 'fr-FR',
+  ar: 'ar-MA',
+  en: 'en-GB',
+};
+
+export type ReachStatus = 'none' | 'failed' | 'sent' | 'delivered' | 'replied';
+
+export class BookingMessageService {
+  static manageUrl(origin: string, token: string): string {
+    return `${origin.replace(/\/$/, '')}/booking/manage/${token}`;
+  }
+
+  /**
+   * Message text in the client's language, or the salon's when they have none,
+   * ending with the link to their manage-booking page when there is one
+   */
+  static render(
+    message: Omit<DueBookingMessage, 'bookingId' | 'clientPhone' | 'manageToken'>,
+    defaultLanguage: MessageLanguage,
+    manageUrl?: string
+  ): string {
+    const language = message.clientLanguage || defaultLanguage;
+    const start = new Date(message.startAt);
+    const locale = DATE_LOCALES[language];
+
+    const text = TEMPLATES[language][message.kind]({
+      name: message.clientName,
+      service: message.serviceName,
+      staff: message.staffName,
+      date: start.toLocaleDateString(locale, { weekday: 'long', day: 'numeric', month: 'long' }),
+      time: start.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', hour12: false }),
+    });
+
+    return manageUrl ? `${text}\n\n${MANAGE_LINES[language](manageUrl)}` : text;
+  }
+
+  /**
+   * How far the messages about a booking got: a reply beats a delivery
+   * receipt, which beats a send; failed only when nothing got through
+   */
+  static reachStatus(messages: Pick<BookingMessage, 'direction' | 'status'>[] = []): ReachStatus {
+    if (messages.some(message => message.direction === 'inbound')) return 'replied';
+
+    const outbound = messages.filter(message => message.direction === 'outbound');
+    if (outbound.some(message => message.status === 'delivered' || message.status === 'read')) return 'delivered';
+    if (outbound.some(message => message.status === 'sent')) return 'sent';
+    return outbound.length > 0 ? 'failed' : 'none';
+  }
+}
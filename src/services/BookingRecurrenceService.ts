@@ -0,0 +1,106 @@
+import { Booking, RecurrenceRule, RecurrenceScope } from '@/types';
+import { BookingStatusService } from './BookingStatusService';
+
+// ============================================================================
+// BOOKING RECURRENCE SERVICE
+// ============================================================================
+// Dates of a standing appointment and which of its bookings a change applies
+// to. Occurrences keep the first one's time of day in the browser's time
+// zone, which is the salon's, as create_booking_series() does on the server
+// (see booking-series.sql). Whether each date is free is checked by
+// BookingValidationService.validateSeries.
+// ============================================================================
+
+export interface Occurrence {
+  index: number; // 0-based position in the series
+  startTime: string;
+  endTime: string;
+}
+
+export const MAX_OCCURRENCES = 52;
+
+export class BookingRecurrenceService {
+  /**
+   * Start and end of each booking of a series, the first one included
+   */
+  static occurrences(startTime: string, durationMinutes: number, rule: RecurrenceRule): Occurrence[] {
+    const first = new Date(startTime);
+    const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+    const result: Occurrence[] = [];
+
+    for (let index = 0; index < limit; index++) {
+      const start = new Date(first);
+      start.setDate(start.getDate() + index * 7 * rule.intervalWeeks);
+      if (rule.untilDate && this.toLocalDate(start) > rule.untilDate) break;
+
+      result.push({
+        index,
+        startTime: start.toISOString(),
+        endTime: new Date(start.getTime() + durationMinutes * 60000).toISOString(),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * A rule needs a positive interval and an end
+   */
+  static validateRule(rule: RecurrenceRule, startTime: string): string | null {
+    if (!Number.isInteger(rule.intervalWeeks) || rule.intervalWeeks < 1 || rule.intervalWeeks > 52) {
+      return 'Repeat every 1 to 52 weeks';
+    }
+    if (!rule.untilDate && !rule.count) {
+      return 'Choose an end date or a number of bookings';
+    }
+    if (rule.count !== undefined && (rule.count < 1 || rule.count > MAX_OCCURRENCES)) {
+      return `A series has at most ${MAX_OCCURRENCES} bookings`;
+    }
+    if (rule.untilDate && rule.untilDate < this.toLocalDate(new Date(startTime))) {
+      return 'The end date is before the first booking';
+    }
+    return null;
+  }
+
+  /**
+   * Bookings of the series a change to target applies to: target alone, it
+   * and the ones after it, or the whole series. Other occurrences are only
+   * included while upcoming, so past visits keep their history.
+   */
+  static inScope<B extends Pick<Booking, 'id' | 'status' | 'seriesId' | 'seriesIndex'>>(
+    bookings: B[],
+    target: B,
+    scope: RecurrenceScope
+  ): B[] {
+    if (scope === 'this' || !target.seriesId) return [target];
+
+    return bookings
+      .filter(booking =>
+        booking.seriesId === target.seriesId &&
+        (booking.id === target.id || BookingStatusService.isUpcoming(booking.status)) &&
+        (scope === 'all' || (booking.seriesIndex ?? 0) >= (target.seriesIndex ?? 0))
+      )
+      .sort((a, b) => (a.seriesIndex ?? 0) - (b.seriesIndex ?? 0));
+  }
+
+  /**
+   * New start of an occurrence when target moves to newStart: each one is
+   * moved by the same number of days and takes the new time of day
+   */
+  static shiftStart(occurrenceStart: string, targetStart: string, newStart: string): string {
+    const from = new Date(targetStart);
+    const to = new Date(newStart);
+    const dayShift = Math.round(
+      (new Date(this.toLocalDate(to)).getTime() - new Date(this.toLocalDate(from)).getTime()) / (24 * 60 * 60000)
+    );
+
+    const shifted = new Date(occurrenceStart);
+    shifted.setDate(shifted.getDate() + dayShift);
+    shifted.setHours(to.getHours(), to.getMinutes(), 0, 0);
+    return shifted.toISOString();
+  }
+
+  private static toLocalDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,77 @@
+import { BookingStatus } from '@/types';
+
+// ============================================================================
+// BOOKING STATUS SERVICE
+// ============================================================================
+// One lifecycle for every booking screen:
+//   pending -> confirmed -> checked_in -> in_progress -> completed
+// with cancelled and no_show as the other ways out. Steps may be skipped
+// going forward (a walk-in can be checked in without being confirmed), never
+// taken back. The same table is enforced by the booking_status_transition
+// trigger in booking-status.sql, which also records who made each change.
+// ============================================================================
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'pending',
+  'confirmed',
+  'checked_in',
+  'in_progress',
+  'completed',
+  'cancelled',
+  'no_show',
+];
+
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['confirmed', 'checked_in', 'cancelled', 'no_show'],
+  confirmed: ['checked_in', 'in_progress', 'cancelled', 'no_show'],
+  checked_in: ['in_progress', 'cancelled'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+// Statuses written by older screens, read as their current equivalent
+const LEGACY_STATUSES: Record<string, BookingStatus> = {
+  scheduled: 'pending',
+};
+
+export class BookingStatusService {
+  /**
+   * Read a status from the database, mapping legacy values
+   */
+  static normalize(status: string | null | undefined): BookingStatus {
+    if (!status) return 'pending';
+    if (LEGACY_STATUSES[status]) return LEGACY_STATUSES[status];
+    return BOOKING_STATUSES.includes(status as BookingStatus) ? (status as BookingStatus) : 'pending';
+  }
+
+  static canTransition(from: BookingStatus, to: BookingStatus): boolean {
+    return TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Statuses a booking can move to next, in lifecycle order
+   */
+  static nextStatuses(status: BookingStatus): BookingStatus[] {
+    return TRANSITIONS[status];
+  }
+
+  static isFinal(status: BookingStatus): boolean {
+    return TRANSITIONS[status].length === 0;
+  }
+
+  /**
+   * Booked but the client has not arrived yet
+   */
+  static isUpcoming(status: BookingStatus): boolean {
+    return status === 'pending' || status === 'confirmed';
+  }
+
+  /**
+   * Whether the booking still holds its staff member's time
+   */
+  static holdsSlot(status: BookingStatus): boolean {
+    return status !== 'cancelled' && status !== 'no_show';
+  }
+}
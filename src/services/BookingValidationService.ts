@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabaseClient';
+import { fromSalonTime, toSalonTime, weekdayOf } from '@/utils/salonTime';
 
 export interface BookingConflict {
   type: 'staff_conflict' | 'resource_conflict' | 'business_hours_violation' | 'advance_booking_violation';
@@ -52,6 +53,98 @@ export interface AlternativeTimeSlot {
 export interface AlternativeOptions {
   searchWindowHours?: number;
   maxSuggestions?: number;
+  bufferMinutes?: number; // kept free after the service
+  workingHours?: StaffWorkingHours[]; // when given, alternatives stay inside them
+  now?: Date;
+}
+
+export interface StaffWorkingHours {
+  weekday: number; // 0 = Sunday, as Date.getDay()
+  start: string; // HH:MM, salon local time
+  end: string;
+}
+
+export interface BookableStaff {
+  staffId: string;
+  name: string;
+  workingHours: StaffWorkingHours[];
+}
+
+export interface BusyPeriod {
+  staffId: string;
+  startTime: string;
+  endTime: string; // includes the buffer of the booked service
+}
+
+export interface SlotSearchOptions {
+  date: string; // YYYY-MM-DD, salon local time
+  durationMinutes: number;
+  bufferMinutes?: number;
+  slotIntervalMinutes?: number;
+  minimumAdvanceMinutes?: number;
+  ignoreBooking?: { staffId: string; startTime: string }; // a booking being moved, whose own time counts as free
+  now?: Date;
+}
+
+export interface AvailableSlot {
+  time: string; // HH:MM
+  startTime: string;
+  endTime: string;
+  staffIds: string[]; // free staff, least busy that day first
+}
+
+export interface AvailabilityResult {
+  staff: BookableStaff[];
+  slots: AvailableSlot[];
+}
+
+// One service of a multi-service visit, in the order performed
+export interface ChainService {
+  serviceId: string;
+  durationMinutes: number;
+  bufferMinutes?: number;
+  staffId?: string; // preferred staff member
+}
+
+export interface ChainSegment {
+  serviceId: string;
+  staffId: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ChainSlot {
+  time: string; // HH:MM the visit starts
+  startTime: string;
+  endTime: string;
+  segments: ChainSegment[];
+}
+
+export interface ChainAvailabilityResult {
+  staff: BookableStaff[];
+  slots: ChainSlot[];
+}
+
+// Online bookings and changes must start at least this far ahead
+export const MINIMUM_ADVANCE_MINUTES = 30;
+
+// Matches no booking, for checks on bookings that are not saved yet
+const NO_BOOKING_ID = '00000000-0000-0000-0000-000000000000';
+
+export interface SeriesOccurrence {
+  index: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface SeriesConflict {
+  occurrence: SeriesOccurrence;
+  reason: string;
+}
+
+export interface SeriesValidationResult {
+  available: SeriesOccurrence[];
+  conflicts: SeriesConflict[];
 }
 
 export class BookingValidationService {
@@ -62,13 +155,14 @@ export class BookingValidationService {
     const conflicts: BookingConflict[] = [];
 
     try {
-      // Check for existing bookings that might conflict
+      // Check for existing bookings that might conflict; cancelled bookings
+      // and no-shows leave their slot free
       const { data: existingBookings, error } = await supabase
         .from('bookings')
         .select('*')
-        .eq('status', 'confirmed')
-        .neq('id', booking.id || '')
-        .or(`staff_id.eq.${booking.staffId}`);
+        .eq('staff_id', booking.staffId)
+        .neq('id', booking.id || NO_BOOKING_ID)
+        .or('status.is.null,status.not.in.(cancelled,no_show)');
 
       if (error) {
         throw new Error(`Database error: ${error.message}`);
@@ -76,8 +170,8 @@ export class BookingValidationService {
 
       // Check for staff conflicts
       const staffConflicts = existingBookings?.filter(existing => 
-        existing.staffId === booking.staffId &&
-        this.isTimeOverlapping(booking.startTime, booking.endTime, existing.startTime, existing.endTime)
+        existing.staff_id === booking.staffId &&
+        this.isTimeOverlapping(booking.startTime, booking.endTime, existing.start_at, existing.end_at)
       ) || [];
 
       if (staffConflicts.length > 0) {
@@ -91,11 +185,11 @@ export class BookingValidationService {
       // Check for resource conflicts if equipment is required
       if (booking.requiredEquipment && booking.requiredEquipment.length > 0) {
         const resourceConflicts = existingBookings?.filter(existing => 
-          existing.requiredEquipment &&
+          existing.required_equipment &&
           booking.requiredEquipment?.some(equipment => 
-            existing.requiredEquipment.includes(equipment)
+            existing.required_equipment.includes(equipment)
           ) &&
-          this.isTimeOverlapping(booking.startTime, booking.endTime, existing.startTime, existing.endTime)
+          this.isTimeOverlapping(booking.startTime, booking.endTime, existing.start_at, existing.end_at)
         ) || [];
 
         if (resourceConflicts.length > 0) {
@@ -107,15 +201,13 @@ export class BookingValidationService {
         }
       }
 
-      // Check business hours if provided
+      // Check business hours (salon local time) if provided
       if (options?.businessHours) {
-        const bookingStart = new Date(booking.startTime);
-        const bookingEnd = new Date(booking.endTime);
         const businessStart = this.parseTime(options.businessHours.start);
         const businessEnd = this.parseTime(options.businessHours.end);
 
-        const bookingStartTime = bookingStart.getHours() * 60 + bookingStart.getMinutes();
-        const bookingEndTime = bookingEnd.getHours() * 60 + bookingEnd.getMinutes();
+        const bookingStartTime = toSalonTime(booking.startTime).minutes;
+        const bookingEndTime = toSalonTime(booking.endTime).minutes;
 
         if (bookingStartTime < businessStart || bookingEndTime > businessEnd) {
           conflicts.push({
@@ -185,54 +277,70 @@ export class BookingValidationService {
     }
   }
 
+  /**
+   * Whether the staff member is active and the booking fits their schedule on
+   * its date: weekly hours minus breaks, one-off exceptions, approved leave and
+   * salon holidays, as resolved by get_staff_working_ranges() (see
+   * staff-schedules.sql).
+   */
   async validateStaffAvailability(booking: {
     staffId: string;
     startTime: string;
     endTime: string;
   }): Promise<StaffAvailabilityResult> {
     try {
-      const { data: staff, error } = await supabase
-        .from('staff')
-        .select('workingHours, isActive')
+      const { data: staff, error: staffError } = await supabase
+        .from('users')
+        .select('is_active')
         .eq('id', booking.staffId)
         .single();
 
-      if (error) {
+      if (staffError) {
         return {
           isAvailable: false,
-          reason: `Staff member not found: ${error.message}`
+          reason: `Staff member not found: ${staffError.message}`
         };
       }
 
-      if (!staff.isActive) {
+      if (!staff.is_active) {
         return {
           isAvailable: false,
           reason: 'Staff member is not currently active'
         };
       }
 
-      // Check working hours
-      const bookingStart = new Date(booking.startTime);
-      const bookingEnd = new Date(booking.endTime);
-      const dayOfWeek = this.getDayOfWeek(bookingStart);
-      
-      const workingHours = staff.workingHours?.[dayOfWeek];
-      if (!workingHours) {
+      const { date, weekday } = toSalonTime(booking.startTime);
+
+      const { data: ranges, error } = await supabase.rpc('get_staff_working_ranges', {
+        p_staff_ids: [booking.staffId],
+        p_from: date,
+        p_to: date
+      });
+
+      if (error) {
         return {
           isAvailable: false,
-          reason: `Staff member does not work on ${dayOfWeek}`
+          reason: `Staff schedule could not be loaded: ${error.message}`
         };
       }
 
-      const workStart = this.parseTime(workingHours.start);
-      const workEnd = this.parseTime(workingHours.end);
-      const bookingStartTime = bookingStart.getHours() * 60 + bookingStart.getMinutes();
-      const bookingEndTime = bookingEnd.getHours() * 60 + bookingEnd.getMinutes();
+      const workingHours: StaffWorkingHours[] = (ranges || []).map((range: any) => ({
+        weekday,
+        start: String(range.start_time).slice(0, 5),
+        end: String(range.end_time).slice(0, 5)
+      }));
+
+      if (workingHours.length === 0) {
+        return {
+          isAvailable: false,
+          reason: `Staff member is not working on ${date} (day off, leave or holiday)`
+        };
+      }
 
-      if (bookingStartTime < workStart || bookingEndTime > workEnd) {
+      if (!this.isWithinWorkingHours(booking.startTime, booking.endTime, workingHours)) {
         return {
           isAvailable: false,
-          reason: `Booking is outside working hours (${workingHours.start} - ${workingHours.end})`
+          reason: `Booking is outside working hours (${workingHours.map(hours => `${hours.start} - ${hours.end}`).join(', ')})`
         };
       }
 
@@ -247,61 +355,363 @@ export class BookingValidationService {
     }
   }
 
+  /**
+   * Checks each occurrence of a recurring booking as a booking of its own:
+   * clear of the staff member's other bookings and inside their schedule.
+   * Pass booking.id to check moving the occurrences of an existing series,
+   * ignoring the occurrence being moved.
+   */
+  async validateSeries(
+    booking: Omit<BookingData, 'startTime' | 'endTime'>,
+    occurrences: Array<SeriesOccurrence & { id?: string }>
+  ): Promise<SeriesValidationResult> {
+    const results = await Promise.all(occurrences.map(async occurrence => {
+      const validation = await this.validateBookingConflicts({
+        ...booking,
+        id: occurrence.id || booking.id,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime
+      });
+      if (validation.hasConflicts) {
+        return { occurrence, reason: validation.conflicts[0].message };
+      }
+
+      const availability = await this.validateStaffAvailability({
+        staffId: booking.staffId,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime
+      });
+      return availability.isAvailable
+        ? { occurrence }
+        : { occurrence, reason: availability.reason || 'Staff member is not available at this time' };
+    }));
+
+    return {
+      available: results.filter(result => !result.reason).map(result => result.occurrence),
+      conflicts: results
+        .filter((result): result is SeriesConflict => Boolean(result.reason))
+    };
+  }
+
   async getAlternativeTimeSlots(
     booking: BookingData,
     options?: AlternativeOptions
   ): Promise<AlternativeTimeSlot[]> {
     const searchWindowHours = options?.searchWindowHours || 4;
     const maxSuggestions = options?.maxSuggestions || 3;
+    const bufferMinutes = options?.bufferMinutes || 0;
+    const now = options?.now || new Date();
     const serviceDuration = this.calculateDurationMinutes(booking.startTime, booking.endTime);
 
     try {
-      const searchStart = new Date(booking.startTime);
-      searchStart.setHours(searchStart.getHours() - searchWindowHours);
-      
-      const searchEnd = new Date(booking.startTime);
-      searchEnd.setHours(searchEnd.getHours() + searchWindowHours);
-
-      // Get existing bookings in the search window
-      const { data: existingBookings, error } = await supabase
-        .from('bookings')
-        .select('start_at, end_at')
-        .eq('staff_id', booking.staffId)
-        .gte('start_at', searchStart.toISOString())
-        .lte('end_at', searchEnd.toISOString())
-        .order('start_at');
+      const searchStart = new Date(new Date(booking.startTime).getTime() - searchWindowHours * 3600000);
+      const searchEnd = new Date(new Date(booking.startTime).getTime() + searchWindowHours * 3600000);
 
-      if (error) {
-        throw new Error(`Database error: ${error.message}`);
-      }
+      // Bookings overlapping the search window, buffers included; cancelled
+      // bookings and no-shows leave their slot free
+      const busy = await this.fetchBusyPeriods([booking.staffId], searchStart, searchEnd);
 
       const alternatives: AlternativeTimeSlot[] = [];
       const timeSlots = this.generateTimeSlots(searchStart, searchEnd, serviceDuration);
 
       for (const slot of timeSlots) {
-        if (alternatives.length >= maxSuggestions) break;
-
-        const isAvailable = !existingBookings?.some(existing =>
-          this.isTimeOverlapping(slot.startTime, slot.endTime, existing.start_at, existing.end_at)
-        );
-
-        if (isAvailable && slot.startTime !== booking.startTime) {
-          alternatives.push({
-            startTime: slot.startTime,
-            endTime: slot.endTime,
-            staffId: booking.staffId,
-            confidence: this.calculateConfidence(slot.startTime, booking.startTime)
-          });
-        }
+        const slotStart = new Date(slot.startTime);
+        if (slotStart.getTime() === new Date(booking.startTime).getTime() || slotStart < now) continue;
+        if (options?.workingHours && !this.isWithinWorkingHours(slot.startTime, slot.endTime, options.workingHours)) continue;
+
+        const blockedUntil = new Date(new Date(slot.endTime).getTime() + bufferMinutes * 60000).toISOString();
+        if (this.isBusy(slot.startTime, blockedUntil, busy)) continue;
+
+        alternatives.push({
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          staffId: booking.staffId,
+          confidence: this.calculateConfidence(slot.startTime, booking.startTime)
+        });
       }
 
-      return alternatives.sort((a, b) => b.confidence - a.confidence);
+      return alternatives
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, maxSuggestions);
     } catch (error) {
       console.error('Error generating alternatives:', error);
       return [];
     }
   }
 
+  /**
+   * Free slots for a service on one day, with the staff free at each of them.
+   * Staff, working ranges and busy times come from functions the public
+   * booking page can call (see booking-availability.sql and staff-schedules.sql).
+   */
+  async getAvailableSlots(serviceId: string, options: SlotSearchOptions): Promise<AvailabilityResult> {
+    const { data: staffRows, error: staffError } = await supabase
+      .rpc('get_bookable_staff', { p_service_id: serviceId });
+
+    if (staffError) {
+      throw new Error(`Database error: ${staffError.message}`);
+    }
+
+    const staffIds: string[] = (staffRows || []).map((row: any) => row.staff_id);
+    if (staffIds.length === 0) {
+      return { staff: [], slots: [] };
+    }
+
+    // Working ranges of the day, with breaks, exceptions, leave and holidays applied
+    const { data: rangeRows, error: rangeError } = await supabase.rpc('get_staff_working_ranges', {
+      p_staff_ids: staffIds,
+      p_from: options.date,
+      p_to: options.date
+    });
+
+    if (rangeError) {
+      throw new Error(`Database error: ${rangeError.message}`);
+    }
+
+    const weekday = weekdayOf(options.date);
+    const staff: BookableStaff[] = (staffRows || []).map((row: any) => ({
+      staffId: row.staff_id,
+      name: row.staff_name,
+      workingHours: (rangeRows || [])
+        .filter((range: any) => range.staff_id === row.staff_id)
+        .map((range: any) => ({
+          weekday,
+          start: String(range.start_time).slice(0, 5),
+          end: String(range.end_time).slice(0, 5)
+        }))
+    }));
+
+    const dayStart = fromSalonTime(options.date, 0);
+    const dayEnd = fromSalonTime(options.date, 24 * 60);
+
+    const busy = await this.fetchBusyPeriods(staffIds, dayStart, dayEnd);
+
+    return { staff, slots: this.computeAvailableSlots(staff, busy, options) };
+  }
+
+  /**
+   * Start times on one day for several services back to back, each segment
+   * going to a staff member who offers the service and is free for it
+   */
+  async getAvailableChainSlots(
+    chain: ChainService[],
+    options: Omit<SlotSearchOptions, 'durationMinutes' | 'bufferMinutes'>
+  ): Promise<ChainAvailabilityResult> {
+    const serviceIds = Array.from(new Set(chain.map(service => service.serviceId)));
+    const staffByService: Record<string, string[]> = {};
+    const names = new Map<string, string>();
+
+    for (const serviceId of serviceIds) {
+      const { data: staffRows, error } = await supabase
+        .rpc('get_bookable_staff', { p_service_id: serviceId });
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      staffByService[serviceId] = (staffRows || []).map((row: any) => row.staff_id);
+      (staffRows || []).forEach((row: any) => names.set(row.staff_id, row.staff_name));
+    }
+
+    const staffIds = Array.from(names.keys());
+    if (staffIds.length === 0) {
+      return { staff: [], slots: [] };
+    }
+
+    const { data: rangeRows, error: rangeError } = await supabase.rpc('get_staff_working_ranges', {
+      p_staff_ids: staffIds,
+      p_from: options.date,
+      p_to: options.date
+    });
+
+    if (rangeError) {
+      throw new Error(`Database error: ${rangeError.message}`);
+    }
+
+    const weekday = weekdayOf(options.date);
+    const staff: BookableStaff[] = staffIds.map(staffId => ({
+      staffId,
+      name: names.get(staffId) || '',
+      workingHours: (rangeRows || [])
+        .filter((range: any) => range.staff_id === staffId)
+        .map((range: any) => ({
+          weekday,
+          start: String(range.start_time).slice(0, 5),
+          end: String(range.end_time).slice(0, 5)
+        }))
+    }));
+
+    const dayStart = fromSalonTime(options.date, 0);
+    const dayEnd = fromSalonTime(options.date, 24 * 60);
+
+    const busy = await this.fetchBusyPeriods(staffIds, dayStart, dayEnd);
+
+    return { staff, slots: this.computeChainSlots(chain, staffByService, staff, busy, options) };
+  }
+
+  /**
+   * Start times on options.date where every service of the chain fits, one
+   * after the other, with a staff member who offers it, is working and is
+   * clear of their busy periods for the service and its buffer. The least
+   * busy staff are tried first; a preferred staff member is the only choice
+   * for their service.
+   */
+  computeChainSlots(
+    chain: ChainService[],
+    staffByService: Record<string, string[]>,
+    staff: BookableStaff[],
+    busy: BusyPeriod[],
+    options: Omit<SlotSearchOptions, 'durationMinutes' | 'bufferMinutes'>
+  ): ChainSlot[] {
+    if (chain.length === 0) return [];
+
+    const interval = options.slotIntervalMinutes || 30;
+    const earliest = new Date((options.now || new Date()).getTime() + (options.minimumAdvanceMinutes || 0) * 60000);
+    const weekday = weekdayOf(options.date);
+    const bookingsOnDay = (staffId: string) => busy.filter(period => period.staffId === staffId).length;
+    const hoursOf = (staffId: string) => staff.find(member => member.staffId === staffId)?.workingHours || [];
+
+    const candidates = chain.map(service =>
+      (service.staffId ? [service.staffId] : [...(staffByService[service.serviceId] || [])])
+        .filter(staffId => (staffByService[service.serviceId] || []).includes(staffId))
+        .sort((a, b) => bookingsOnDay(a) - bookingsOnDay(b))
+    );
+
+    // Depth-first: the first staff member free for a segment is kept unless
+    // the rest of the chain cannot follow
+    const assign = (index: number, start: Date): ChainSegment[] | null => {
+      if (index === chain.length) return [];
+
+      const service = chain[index];
+      const end = new Date(start.getTime() + service.durationMinutes * 60000);
+      const blockedUntil = new Date(end.getTime() + (service.bufferMinutes || 0) * 60000);
+
+      for (const staffId of candidates[index]) {
+        if (!this.isWithinWorkingHours(start.toISOString(), end.toISOString(), hoursOf(staffId))) continue;
+        if (this.isBusy(start.toISOString(), blockedUntil.toISOString(), busy.filter(period => period.staffId === staffId))) continue;
+
+        const rest = assign(index + 1, end);
+        if (rest) {
+          return [{ serviceId: service.serviceId, staffId, startTime: start.toISOString(), endTime: end.toISOString() }, ...rest];
+        }
+      }
+
+      return null;
+    };
+
+    const firstStarts = candidates[0]
+      .flatMap(staffId => hoursOf(staffId).filter(range => range.weekday === weekday))
+      .map(range => this.parseTime(range.start));
+    if (firstStarts.length === 0) return [];
+
+    const slots: ChainSlot[] = [];
+    for (let minutes = Math.min(...firstStarts); minutes < 24 * 60; minutes += interval) {
+      const start = fromSalonTime(options.date, minutes);
+      if (start < earliest) continue;
+
+      const segments = assign(0, start);
+      if (!segments) continue;
+
+      slots.push({
+        time: `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`,
+        startTime: segments[0].startTime,
+        endTime: segments[segments.length - 1].endTime,
+        segments
+      });
+    }
+
+    return slots;
+  }
+
+  /**
+   * Slots on options.date where the service fits inside a staff member's
+   * working hours and, with its buffer, clear of their busy periods. Times
+   * are in salon local time, whatever the browser's time zone; the server
+   * checks the slot again when booking.
+   */
+  computeAvailableSlots(
+    staff: BookableStaff[],
+    busy: BusyPeriod[],
+    options: SlotSearchOptions
+  ): AvailableSlot[] {
+    const interval = options.slotIntervalMinutes || 30;
+    const bufferMinutes = options.bufferMinutes || 0;
+    const earliest = new Date((options.now || new Date()).getTime() + (options.minimumAdvanceMinutes || 0) * 60000);
+    const weekday = weekdayOf(options.date);
+    const slots = new Map<string, AvailableSlot>();
+
+    const ignored = options.ignoreBooking;
+    const others = ignored
+      ? busy.filter(period => !(period.staffId === ignored.staffId &&
+          new Date(period.startTime).getTime() === new Date(ignored.startTime).getTime()))
+      : busy;
+    const bookingsOnDay = (staffId: string) => others.filter(period => period.staffId === staffId).length;
+
+    for (const member of staff) {
+      const staffBusy = others.filter(period => period.staffId === member.staffId);
+
+      for (const hours of member.workingHours.filter(range => range.weekday === weekday)) {
+        const rangeEnd = this.parseTime(hours.end);
+
+        for (let minutes = this.parseTime(hours.start); minutes + options.durationMinutes <= rangeEnd; minutes += interval) {
+          const start = fromSalonTime(options.date, minutes);
+          const end = new Date(start.getTime() + options.durationMinutes * 60000);
+          const blockedUntil = new Date(end.getTime() + bufferMinutes * 60000);
+
+          if (start < earliest || this.isBusy(start.toISOString(), blockedUntil.toISOString(), staffBusy)) continue;
+
+          const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+          const slot = slots.get(time) || { time, startTime: start.toISOString(), endTime: end.toISOString(), staffIds: [] };
+          if (!slot.staffIds.includes(member.staffId)) slot.staffIds.push(member.staffId);
+          slots.set(time, slot);
+        }
+      }
+    }
+
+    return Array.from(slots.values())
+      .map(slot => ({
+        ...slot,
+        staffIds: [...slot.staffIds].sort((a, b) => bookingsOnDay(a) - bookingsOnDay(b))
+      }))
+      .sort((a, b) => a.time.localeCompare(b.time));
+  }
+
+  private async fetchBusyPeriods(staffIds: string[], from: Date, to: Date): Promise<BusyPeriod[]> {
+    const { data, error } = await supabase.rpc('get_staff_busy_times', {
+      p_staff_ids: staffIds,
+      p_from: from.toISOString(),
+      p_to: to.toISOString()
+    });
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({
+      staffId: row.staff_id,
+      startTime: row.start_at,
+      endTime: row.end_at
+    }));
+  }
+
+  private isBusy(startTime: string, endTime: string, busy: BusyPeriod[]): boolean {
+    return busy.some(period => this.isTimeOverlapping(startTime, endTime, period.startTime, period.endTime));
+  }
+
+  private isWithinWorkingHours(startTime: string, endTime: string, workingHours: StaffWorkingHours[]): boolean {
+    const start = toSalonTime(startTime);
+    const lastMinute = toSalonTime(new Date(new Date(endTime).getTime() - 1));
+    const startMinutes = start.minutes;
+    const endMinutes = startMinutes + this.calculateDurationMinutes(startTime, endTime);
+
+    return start.date === lastMinute.date &&
+      workingHours.some(hours =>
+        hours.weekday === start.weekday &&
+        this.parseTime(hours.start) <= startMinutes &&
+        this.parseTime(hours.end) >= endMinutes
+      );
+  }
+
   private isTimeOverlapping(start1: string, end1: string, start2: string, end2: string): boolean {
     const s1 = new Date(start1);
     const e1 = new Date(end1);
@@ -322,11 +732,6 @@ export class BookingValidationService {
     return Math.round((end.getTime() - start.getTime()) / (1000 * 60));
   }
 
-  private getDayOfWeek(date: Date): string {
-    const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    return days[date.getDay()];
-  }
-
   private generateTimeSlots(start: Date, end: Date, durationMinutes: number): Array<{startTime: string, endTime: string}> {
     const slots = [];
     const current = new Date(start);
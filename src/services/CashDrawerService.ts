@@ -0,0 +1,132 @@
+import { CashDrawerMovement, CashDrawerSession, PaymentMethod, Sale } from '@/types';
+import { PaymentService } from './PaymentService';
+import { formatPrice } from '@/utils/currency';
+
+// ============================================================================
+// CASH DRAWER SERVICE
+// ============================================================================
+// A cash drawer session runs from the moment a POS operator counts in their
+// opening float to the end-of-day count. The cash expected in the drawer is
+// the float, plus cash taken on sales, plus cash-in entries, minus cash-out
+// entries (refunds paid back in cash, petty cash, bank drops). The Z-report
+// summarises the session when it is closed.
+// ============================================================================
+
+export interface ZReport {
+  session: CashDrawerSession;
+  salesCount: number;
+  grossSales: number; // before discounts
+  discountTotal: number;
+  netSales: number;
+  refundTotal: number;
+  tipTotal: number;
+  totalsByMethod: Record<PaymentMethod, number>;
+  cashIn: number;
+  cashOut: number;
+  expectedCash: number;
+  countedCash?: number;
+  discrepancy?: number;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Sales recorded without tenders were paid in full with their payment method
+const getSalePayments = (sale: Sale) =>
+  sale.payments && sale.payments.length > 0
+    ? sale.payments
+    : sale.paymentMethod !== 'mixed'
+      ? [{ method: sale.paymentMethod, amount: sale.totalAmount + (sale.tipAmount || 0) }]
+      : [];
+
+export class CashDrawerService {
+  /**
+   * Sum cash-in and cash-out entries of a session
+   */
+  static getMovementTotals(movements: CashDrawerMovement[]): { cashIn: number; cashOut: number } {
+    return {
+      cashIn: roundAmount(movements.filter(m => m.movementType === 'cash_in').reduce((sum, m) => sum + m.amount, 0)),
+      cashOut: roundAmount(movements.filter(m => m.movementType === 'cash_out').reduce((sum, m) => sum + m.amount, 0)),
+    };
+  }
+
+  /**
+   * Cash that should be in the drawer: float + cash sales + cash in - cash out
+   */
+  static calculateExpectedCash(openingFloat: number, sales: Sale[], movements: CashDrawerMovement[]): number {
+    const cashSales = PaymentService.getTotalsByMethod(sales.flatMap(getSalePayments)).cash;
+    const { cashIn, cashOut } = this.getMovementTotals(movements);
+    return roundAmount(openingFloat + cashSales + cashIn - cashOut);
+  }
+
+  /**
+   * Summarise a session for the Z-report
+   */
+  static buildZReport(session: CashDrawerSession, sales: Sale[], movements: CashDrawerMovement[]): ZReport {
+    const { cashIn, cashOut } = this.getMovementTotals(movements);
+    const expectedCash = session.status === 'closed' && session.expectedCash !== undefined
+      ? session.expectedCash
+      : this.calculateExpectedCash(session.openingFloat, sales, movements);
+
+    return {
+      session,
+      salesCount: sales.length,
+      grossSales: roundAmount(sales.reduce((sum, sale) => sum + (sale.subtotalAmount ?? sale.totalAmount), 0)),
+      discountTotal: roundAmount(sales.reduce((sum, sale) => sum + (sale.discountAmount || 0), 0)),
+      netSales: roundAmount(sales.reduce((sum, sale) => sum + sale.totalAmount, 0)),
+      refundTotal: roundAmount(sales.reduce((sum, sale) => sum + (sale.refundedAmount || 0), 0)),
+      tipTotal: roundAmount(sales.reduce((sum, sale) => sum + (sale.tipAmount || 0), 0)),
+      totalsByMethod: PaymentService.getTotalsByMethod(sales.flatMap(getSalePayments)),
+      cashIn,
+      cashOut,
+      expectedCash,
+      countedCash: session.countedCash,
+      discrepancy: session.discrepancy,
+    };
+  }
+
+  /**
+   * Render a Z-report as plain text for printing
+   */
+  static formatZReport(report: ZReport, salonName: string = 'Antilope'): string {
+    const { session } = report;
+    const line = (label: string, amount: number) => `${label.padEnd(22)}${formatPrice(amount).padStart(16)}`;
+    const separator = '-'.repeat(38);
+
+    const lines = [
+      salonName.toUpperCase(),
+      'Z-REPORT',
+      separator,
+      `Operator: ${session.staffName || session.staffId}`,
+      `Opened:   ${new Date(session.openedAt).toLocaleString()}`,
+      `Closed:   ${session.closedAt ? new Date(session.closedAt).toLocaleString() : 'Open'}`,
+      separator,
+      `Sales: ${report.salesCount}`,
+      line('Gross sales', report.grossSales),
+      line('Discounts', -report.discountTotal),
+      line('Net sales', report.netSales),
+      line('Refunds', -report.refundTotal),
+      line('Tips', report.tipTotal),
+      separator,
+      line('Cash', report.totalsByMethod.cash),
+      line('Card', report.totalsByMethod.card),
+      line('Transfer', report.totalsByMethod.transfer),
+      separator,
+      line('Opening float', session.openingFloat),
+      line('Cash in', report.cashIn),
+      line('Cash out', -report.cashOut),
+      line('Expected cash', report.expectedCash),
+    ];
+
+    if (report.countedCash !== undefined) {
+      lines.push(line('Counted cash', report.countedCash));
+      lines.push(line('Discrepancy', report.discrepancy ?? roundAmount(report.countedCash - report.expectedCash)));
+    }
+
+    if (session.closingNotes) {
+      lines.push(separator, `Notes: ${session.closingNotes}`);
+    }
+
+    lines.push(separator, `Printed: ${new Date().toLocaleString()}`);
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,262 @@
+import { DiscountType, PromoCode, SaleDiscount, User } from '@/types';
+import { formatPrice } from '@/utils/currency';
+
+// ============================================================================
+// DISCOUNT SERVICE
+// ============================================================================
+// Resolves manual discounts, promo codes and loyalty redemptions into the
+// per-line net prices sent to process_complete_sale(). Discounts are applied
+// in a fixed order: manual line discounts, service promo codes, then cart
+// discounts (manual, promo, loyalty) spread pro rata over every line so that
+// commissions are always computed on the discounted amount. The database
+// works promo code amounts out again the same way (promo_discount_amount() in
+// sale-discounts.sql) and rejects a sale that does not match.
+// ============================================================================
+
+export interface DiscountInput {
+  discountType: DiscountType;
+  value: number;
+  reason?: string;
+}
+
+export interface DiscountLine {
+  serviceId: string;
+  unitPrice: number;
+  quantity: number;
+  discount?: DiscountInput; // manual discount on this line
+}
+
+export interface DiscountOptions {
+  cartDiscount?: DiscountInput | null;
+  promoCode?: PromoCode | null;
+  loyaltyPoints?: number;
+}
+
+export interface DiscountedLine {
+  unitDiscount: number;
+  netUnitPrice: number;
+  lineDiscount: number;
+  lineTotal: number;
+}
+
+export interface DiscountCalculation {
+  subtotal: number;
+  discountTotal: number;
+  manualDiscountTotal: number;
+  total: number;
+  lines: DiscountedLine[];
+  discounts: SaleDiscount[];
+}
+
+// Maximum manual discount, as a percentage of the sale subtotal, each role may grant
+export const MANUAL_DISCOUNT_LIMITS: Record<User['role'], number> = {
+  admin: 100,
+  staff: 20,
+};
+
+// Loyalty programme: points earned per DH paid, and the DH value of one point.
+// Keep in sync with record_sale_discounts() in sale-discounts.sql.
+export const LOYALTY_POINTS_PER_DH = 0.1;
+export const LOYALTY_POINT_VALUE = 0.5;
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class DiscountService {
+  /**
+   * Amount a discount takes off a base price, never more than the base itself
+   */
+  static getDiscountAmount(base: number, discount: { discountType: DiscountType; value: number }): number {
+    if (base <= 0 || !discount.value || discount.value <= 0) {
+      return 0;
+    }
+
+    const amount = discount.discountType === 'percentage'
+      ? (base * Math.min(discount.value, 100)) / 100
+      : discount.value;
+
+    return roundAmount(Math.min(amount, base));
+  }
+
+  /**
+   * Check that a promo code can be used now on a sale of the given subtotal.
+   * Returns an error message, or null when the code is valid.
+   */
+  static validatePromoCode(promo: PromoCode, subtotal: number, now: Date = new Date()): string | null {
+    if (!promo.isActive) {
+      return 'This promo code is no longer active';
+    }
+
+    if (promo.validFrom && new Date(promo.validFrom) > now) {
+      return 'This promo code is not valid yet';
+    }
+
+    if (promo.validUntil && new Date(promo.validUntil) < now) {
+      return 'This promo code has expired';
+    }
+
+    if (promo.usageLimit != null && promo.usageCount >= promo.usageLimit) {
+      return 'This promo code has reached its usage limit';
+    }
+
+    if (promo.minSubtotal && subtotal < promo.minSubtotal) {
+      return `This promo code requires a minimum purchase of ${formatPrice(promo.minSubtotal)}`;
+    }
+
+    return null;
+  }
+
+  static getManualDiscountLimit(role: User['role']): number {
+    return MANUAL_DISCOUNT_LIMITS[role] ?? 0;
+  }
+
+  /**
+   * Whether the manual discounts in a calculation exceed what the role may grant
+   */
+  static exceedsManualDiscountLimit(calculation: DiscountCalculation, role: User['role']): boolean {
+    const maxAmount = roundAmount((calculation.subtotal * this.getManualDiscountLimit(role)) / 100);
+    return calculation.manualDiscountTotal > maxAmount;
+  }
+
+  static getLoyaltyValue(points: number): number {
+    return roundAmount(Math.max(0, points) * LOYALTY_POINT_VALUE);
+  }
+
+  static getPointsEarned(amountPaid: number): number {
+    return Math.floor(Math.max(0, amountPaid) * LOYALTY_POINTS_PER_DH);
+  }
+
+  /**
+   * Apply every discount to the sale lines and return net prices and totals
+   */
+  static calculate(lines: DiscountLine[], options: DiscountOptions = {}): DiscountCalculation {
+    const netUnitPrices = lines.map(line => line.unitPrice);
+    const discounts: SaleDiscount[] = [];
+
+    const sumLines = () => lines.reduce((sum, line, index) => sum + netUnitPrices[index] * line.quantity, 0);
+    const subtotal = roundAmount(sumLines());
+
+    // Manual discounts on individual lines
+    lines.forEach((line, index) => {
+      if (!line.discount) return;
+
+      const unitDiscount = this.getDiscountAmount(netUnitPrices[index], line.discount);
+      if (unitDiscount <= 0) return;
+
+      netUnitPrices[index] = roundAmount(netUnitPrices[index] - unitDiscount);
+      discounts.push({
+        source: 'manual',
+        scope: 'service',
+        discountType: line.discount.discountType,
+        value: line.discount.value,
+        amount: roundAmount(unitDiscount * line.quantity),
+        serviceId: line.serviceId,
+        reason: line.discount.reason,
+      });
+    });
+
+    const promo = options.promoCode;
+
+    // Promo codes restricted to services apply to each matching line
+    if (promo && promo.scope === 'service') {
+      let promoAmount = 0;
+
+      lines.forEach((line, index) => {
+        if (promo.serviceIds.length > 0 && !promo.serviceIds.includes(line.serviceId)) return;
+
+        const unitDiscount = this.getDiscountAmount(netUnitPrices[index], {
+          discountType: promo.discountType,
+          value: promo.discountValue,
+        });
+        netUnitPrices[index] = roundAmount(netUnitPrices[index] - unitDiscount);
+        promoAmount += unitDiscount * line.quantity;
+      });
+
+      if (promoAmount > 0) {
+        discounts.push({
+          source: 'promo',
+          scope: 'service',
+          discountType: promo.discountType,
+          value: promo.discountValue,
+          amount: roundAmount(promoAmount),
+          promoCodeId: promo.id,
+          code: promo.code,
+        });
+      }
+    }
+
+    // Cart discounts are spread over every unit in proportion to its price
+    const applyCartDiscount = (discount: Omit<SaleDiscount, 'amount' | 'scope'>): number => {
+      const base = sumLines();
+      const target = this.getDiscountAmount(base, discount);
+      if (target <= 0) return 0;
+
+      let applied = 0;
+      lines.forEach((line, index) => {
+        const unitShare = roundAmount((netUnitPrices[index] * target) / base);
+        netUnitPrices[index] = roundAmount(netUnitPrices[index] - unitShare);
+        applied += unitShare * line.quantity;
+      });
+
+      applied = roundAmount(applied);
+      discounts.push({ ...discount, scope: 'cart', amount: applied });
+      return applied;
+    };
+
+    if (options.cartDiscount) {
+      applyCartDiscount({
+        source: 'manual',
+        discountType: options.cartDiscount.discountType,
+        value: options.cartDiscount.value,
+        reason: options.cartDiscount.reason,
+      });
+    }
+
+    if (promo && promo.scope === 'cart') {
+      applyCartDiscount({
+        source: 'promo',
+        discountType: promo.discountType,
+        value: promo.discountValue,
+        promoCodeId: promo.id,
+        code: promo.code,
+      });
+    }
+
+    if (options.loyaltyPoints && options.loyaltyPoints > 0) {
+      const loyaltyValue = this.getLoyaltyValue(options.loyaltyPoints);
+      const applied = applyCartDiscount({
+        source: 'loyalty',
+        discountType: 'fixed',
+        value: loyaltyValue,
+      });
+
+      // Only charge the points actually needed when the cart is smaller than their value
+      if (applied > 0) {
+        discounts[discounts.length - 1].loyaltyPoints = Math.min(
+          options.loyaltyPoints,
+          Math.ceil(roundAmount(applied / LOYALTY_POINT_VALUE))
+        );
+      }
+    }
+
+    const total = roundAmount(sumLines());
+
+    return {
+      subtotal,
+      discountTotal: roundAmount(subtotal - total),
+      manualDiscountTotal: roundAmount(
+        discounts.filter(d => d.source === 'manual').reduce((sum, d) => sum + d.amount, 0)
+      ),
+      total,
+      lines: lines.map((line, index) => {
+        const unitDiscount = roundAmount(line.unitPrice - netUnitPrices[index]);
+        return {
+          unitDiscount,
+          netUnitPrice: netUnitPrices[index],
+          lineDiscount: roundAmount(unitDiscount * line.quantity),
+          lineTotal: roundAmount(netUnitPrices[index] * line.quantity),
+        };
+      }),
+      discounts,
+    };
+  }
+}
@@ -0,0 +1,191 @@
+import { CompleteSaleRequest, Product } from '@/types';
+
+// ============================================================================
+// OFFLINE SYNC SERVICE
+// ============================================================================
+// Sales completed while the POS is offline are kept in a local queue (see
+// offlineStore.ts) and submitted to process_complete_sale() in the order they
+// were made once the connection is back. Each queued sale keeps the request
+// key of its checkout, so a sale that reached the server before the
+// connection dropped is replayed, never charged twice.
+// The sale keeps its checkout time (soldAt), so it is dated and attached to
+// the cash drawer session it was rung up in, even one closed before the sync.
+// A sale the server rejects for stock (sold or used up meanwhile on another
+// device) is kept as a conflict, and any other rejection as failed, for staff
+// to retry or discard; the rest of the queue still syncs.
+// ============================================================================
+
+export type QueuedSaleStatus = 'pending' | 'conflict' | 'failed';
+
+export interface QueuedSale {
+  requestKey: string;
+  sale: CompleteSaleRequest;
+  clientName: string;
+  totalAmount: number;
+  queuedAt: string;
+  status: QueuedSaleStatus;
+  attempts: number;
+  lastError?: string;
+}
+
+export type SyncErrorKind = 'offline' | 'conflict' | 'failed';
+
+export interface SyncQueueResult {
+  synced: QueuedSale[];
+  conflicts: QueuedSale[];
+  failed: QueuedSale[];
+  remaining: QueuedSale[]; // sales still queued, in order, with their new status
+  interrupted: boolean; // the connection dropped again before the queue was done
+}
+
+const NETWORK_ERROR_PATTERN = /failed to fetch|network|load failed|connection|timeout|offline/i;
+const STOCK_ERROR_PATTERN = /insufficient stock|sealed .* left in stock/i;
+
+export class OfflineSyncService {
+  /**
+   * Queue entry for a sale completed offline
+   */
+  static createQueuedSale(sale: CompleteSaleRequest, clientName: string, queuedAt: string = sale.soldAt || new Date().toISOString()): QueuedSale {
+    return {
+      requestKey: sale.requestKey,
+      sale,
+      clientName,
+      totalAmount: sale.totalAmount,
+      queuedAt,
+      status: 'pending',
+      attempts: 0,
+    };
+  }
+
+  /**
+   * Queued sales in the order they were made
+   */
+  static orderQueue(queue: QueuedSale[]): QueuedSale[] {
+    return [...queue].sort((a, b) =>
+      a.queuedAt === b.queuedAt ? a.requestKey.localeCompare(b.requestKey) : a.queuedAt.localeCompare(b.queuedAt)
+    );
+  }
+
+  /**
+   * Sales waiting for the connection to come back
+   */
+  static getPendingCount(queue: QueuedSale[]): number {
+    return queue.filter(entry => entry.status === 'pending').length;
+  }
+
+  /**
+   * Sales the server rejected, waiting for staff to retry or discard them
+   */
+  static getRejected(queue: QueuedSale[]): QueuedSale[] {
+    return this.orderQueue(queue).filter(entry => entry.status !== 'pending');
+  }
+
+  /**
+   * Whether a failed request should be kept for later, rejected for stock, or retried by staff
+   */
+  static classifyError(error: unknown): SyncErrorKind {
+    const message = error instanceof Error ? error.message : String(error || '');
+
+    if (STOCK_ERROR_PATTERN.test(message)) return 'conflict';
+    if (NETWORK_ERROR_PATTERN.test(message)) return 'offline';
+    return 'failed';
+  }
+
+  /**
+   * Submit the queue in order. Stops at the first network error so later sales
+   * never reach the server before earlier ones. Rejected sales are kept and
+   * skipped until staff set them back to pending.
+   */
+  static async syncQueue(
+    queue: QueuedSale[],
+    submit: (sale: CompleteSaleRequest) => Promise<unknown>
+  ): Promise<SyncQueueResult> {
+    const result: SyncQueueResult = { synced: [], conflicts: [], failed: [], remaining: [], interrupted: false };
+
+    for (const entry of this.orderQueue(queue)) {
+      if (result.interrupted || entry.status !== 'pending') {
+        result.remaining.push(entry);
+        continue;
+      }
+
+      try {
+        const response = await submit(entry.sale);
+        if (!response) {
+          throw new Error('No result returned from sale creation');
+        }
+        result.synced.push(entry);
+      } catch (error) {
+        const kind = this.classifyError(error);
+        const lastError = error instanceof Error ? error.message : String(error);
+
+        if (kind === 'offline') {
+          result.interrupted = true;
+          result.remaining.push(entry);
+          continue;
+        }
+
+        const updated: QueuedSale = { ...entry, status: kind, attempts: entry.attempts + 1, lastError };
+        (kind === 'conflict' ? result.conflicts : result.failed).push(updated);
+        result.remaining.push(updated);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Local stock after a sale completed offline, so the cached catalog keeps
+   * matching what is on the shelf. Service products are consumed as
+   * consume_product_ml() does (open bottle first, then sealed bottles); retail
+   * takes whole sealed bottles. Stock never goes below zero locally; the
+   * server decides on sync.
+   */
+  static applySaleToStock(products: Product[], sale: CompleteSaleRequest): Product[] {
+    const usage = new Map<string, { ml: number; sealed: number }>();
+    const addUsage = (productId: string, ml: number, sealed: number) => {
+      const current = usage.get(productId) || { ml: 0, sealed: 0 };
+      usage.set(productId, { ml: current.ml + ml, sealed: current.sealed + sealed });
+    };
+
+    sale.services.forEach(service => {
+      service.products.forEach(product => {
+        if (product.quantity > 0) addUsage(product.productId, product.quantity, 0);
+      });
+    });
+    (sale.retailItems || []).forEach(item => addUsage(item.productId, 0, item.quantity));
+
+    return products.map(product => {
+      const used = usage.get(product.id);
+      if (!used) return product;
+
+      let sealed = product.sealed_bottles || 0;
+      let openMl = product.open_bottle_remaining_ml || 0;
+      let remaining = used.ml;
+      const capacity = product.bottle_capacity_ml || 0;
+
+      if (openMl >= remaining) {
+        openMl -= remaining;
+      } else {
+        remaining -= openMl;
+        openMl = 0;
+
+        while (remaining > 0 && sealed > 0 && capacity > 0) {
+          sealed -= 1;
+          const take = Math.min(capacity, remaining);
+          openMl = capacity - take;
+          remaining -= take;
+        }
+      }
+
+      // Retail is taken after the services, as process_complete_sale() does
+      sealed = Math.max(0, sealed - used.sealed);
+
+      return {
+        ...product,
+        sealed_bottles: sealed,
+        open_bottle_remaining_ml: openMl,
+        total_ml_available: sealed * capacity + openMl,
+      };
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import { PaymentMethod, SalePayment } from '@/types';
+import { formatPrice } from '@/utils/currency';
+
+// ============================================================================
+// PAYMENT SERVICE
+// ============================================================================
+// Turns the tenders entered at the POS (part cash, part card, ...) into the
+// payments recorded on a sale. Card and transfer tenders are charged exactly;
+// only cash may exceed what is owed, and the excess is handed back as change.
+// ============================================================================
+
+export interface TenderInput {
+  method: PaymentMethod;
+  amount: number; // for cash: the amount handed over by the client
+  reference?: string;
+}
+
+export interface TenderResolution {
+  payments: SalePayment[];
+  totalTendered: number;
+  remaining: number; // still owed by the client
+  changeDue: number;
+  error?: string;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class PaymentService {
+  /**
+   * Resolve tenders against the sale total: amounts applied, remaining balance and change due
+   */
+  static resolveTenders(tenders: TenderInput[], total: number): TenderResolution {
+    const validTenders = tenders.filter(tender => tender.amount > 0);
+    const totalTendered = roundAmount(validTenders.reduce((sum, tender) => sum + tender.amount, 0));
+    const nonCashTotal = roundAmount(
+      validTenders.filter(tender => tender.method !== 'cash').reduce((sum, tender) => sum + tender.amount, 0)
+    );
+
+    const remaining = roundAmount(Math.max(0, total - totalTendered));
+    const changeDue = roundAmount(Math.max(0, totalTendered - total));
+
+    if (nonCashTotal > total) {
+      return {
+        payments: [],
+        totalTendered,
+        remaining,
+        changeDue: 0,
+        error: `Card and transfer payments cannot exceed the total of ${formatPrice(total)}`,
+      };
+    }
+
+    if (remaining > 0) {
+      return {
+        payments: [],
+        totalTendered,
+        remaining,
+        changeDue: 0,
+        error: `${formatPrice(remaining)} is still due`,
+      };
+    }
+
+    // Cash covers whatever card and transfer payments leave; any excess is change
+    let cashOwed = roundAmount(total - nonCashTotal);
+    const payments: SalePayment[] = validTenders.map(tender => {
+      if (tender.method !== 'cash') {
+        return {
+          method: tender.method,
+          amount: roundAmount(tender.amount),
+          reference: tender.reference,
+        };
+      }
+
+      const applied = roundAmount(Math.min(tender.amount, cashOwed));
+      cashOwed = roundAmount(cashOwed - applied);
+      return {
+        method: tender.method,
+        amount: applied,
+        tendered: roundAmount(tender.amount),
+        changeGiven: roundAmount(tender.amount - applied),
+      };
+    });
+
+    return {
+      payments: payments.filter(payment => payment.amount > 0),
+      totalTendered,
+      remaining: 0,
+      changeDue,
+    };
+  }
+
+  /**
+   * Payment method stored on the sale: the single tender type used, or 'mixed'
+   */
+  static getSalePaymentMethod(payments: SalePayment[]): PaymentMethod | 'mixed' {
+    const methods = new Set(payments.map(payment => payment.method));
+    if (methods.size === 0) return 'cash';
+    if (methods.size === 1) return payments[0].method;
+    return 'mixed';
+  }
+
+  /**
+   * Sum applied payment amounts per tender type
+   */
+  static getTotalsByMethod(payments: SalePayment[]): Record<PaymentMethod, number> {
+    return payments.reduce(
+      (totals, payment) => ({
+        ...totals,
+        [payment.method]: roundAmount(totals[payment.method] + payment.amount),
+      }),
+      { cash: 0, card: 0, transfer: 0 } as Record<PaymentMethod, number>
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { Product, ProductLot } from '@/types';
+
+// ============================================================================
+// PRODUCT LOT SERVICE
+// ============================================================================
+// Bottle-by-bottle stock. A lot is to be used by its expiry date or its
+// opening date plus the product's period after opening (PAO), whichever comes
+// first. Consumption is first expired first out: open bottles first, the one
+// to use soonest first, then sealed bottles by expiry, opened as needed. The
+// same order is applied by consume_product_lots() (product-lots.sql).
+// ============================================================================
+
+export interface LotChange {
+  lotId: string;
+  remainingMl: number;
+  openedAt?: string; // set when the change opens a sealed bottle
+}
+
+export interface ConsumptionPlan {
+  changes: LotChange[];
+  bottlesOpened: number;
+  shortMl: number; // what the lots could not cover
+}
+
+export interface ExpiryAlert {
+  lotId: string;
+  productId: string;
+  productName: string;
+  batchNumber?: string;
+  useBy: string; // YYYY-MM-DD
+  cause: 'expiry' | 'pao'; // the expiry date or the period after opening
+  expired: boolean;
+  daysLeft: number; // negative once expired
+  remainingMl: number;
+}
+
+export const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export class ProductLotService {
+  /**
+   * End of the period after opening, for an opened lot
+   */
+  static getPaoDate(openedAt: string | undefined, paoMonths?: number): string | undefined {
+    if (!openedAt || !paoMonths) return undefined;
+
+    const date = new Date(openedAt);
+    date.setMonth(date.getMonth() + paoMonths);
+    return toDateString(date);
+  }
+
+  /**
+   * Date the lot is to be used by, if it has one
+   */
+  static getUseBy(lot: Pick<ProductLot, 'expiresAt' | 'openedAt'>, paoMonths?: number): string | undefined {
+    const dates = [lot.expiresAt, this.getPaoDate(lot.openedAt, paoMonths)].filter((date): date is string => !!date);
+    return dates.sort()[0];
+  }
+
+  /**
+   * Lots with ml left, in the order they are consumed
+   */
+  static sortFefo(lots: ProductLot[], paoMonths?: number): ProductLot[] {
+    return lots
+      .filter(lot => lot.remainingMl > 0)
+      .map(lot => ({ lot, useBy: this.getUseBy(lot, paoMonths) }))
+      .sort((a, b) => {
+        if (!!a.lot.openedAt !== !!b.lot.openedAt) return a.lot.openedAt ? -1 : 1;
+        if (a.useBy !== b.useBy) {
+          if (!a.useBy) return 1;
+          if (!b.useBy) return -1;
+          return a.useBy < b.useBy ? -1 : 1;
+        }
+        return (a.lot.openedAt || a.lot.receivedAt).localeCompare(b.lot.openedAt || b.lot.receivedAt);
+      })
+      .map(({ lot }) => lot);
+  }
+
+  /**
+   * Which lots give the required ml, and what is left in each
+   */
+  static planConsumption(lots: ProductLot[], requiredMl: number, paoMonths?: number, now: Date = new Date()): ConsumptionPlan {
+    let remaining = requiredMl;
+    let bottlesOpened = 0;
+    const changes: LotChange[] = [];
+
+    for (const lot of this.sortFefo(lots, paoMonths)) {
+      if (remaining <= 0) break;
+
+      const take = Math.min(lot.remainingMl, remaining);
+      const change: LotChange = { lotId: lot.id, remainingMl: lot.remainingMl - take };
+      if (!lot.openedAt) {
+        change.openedAt = now.toISOString();
+        bottlesOpened += 1;
+      }
+
+      changes.push(change);
+      remaining -= take;
+    }
+
+    return { changes, bottlesOpened, shortMl: Math.max(0, remaining) };
+  }
+
+  /**
+   * Lots past or within warningDays of their use-by date, soonest first
+   */
+  static getExpiryAlerts(
+    lots: ProductLot[],
+    products: Pick<Product, 'id' | 'name' | 'paoMonths'>[],
+    now: Date = new Date(),
+    warningDays: number = EXPIRY_WARNING_DAYS
+  ): ExpiryAlert[] {
+    const today = toDateString(now);
+    const alerts: ExpiryAlert[] = [];
+
+    lots.filter(lot => lot.remainingMl > 0).forEach(lot => {
+      const product = products.find(candidate => candidate.id === lot.productId);
+      const paoDate = this.getPaoDate(lot.openedAt, product?.paoMonths);
+      const useBy = this.getUseBy(lot, product?.paoMonths);
+      if (!useBy) return;
+
+      const daysLeft = Math.round((new Date(`${useBy}T00:00:00`).getTime() - new Date(`${today}T00:00:00`).getTime()) / DAY_MS);
+      if (daysLeft > warningDays) return;
+
+      alerts.push({
+        lotId: lot.id,
+        productId: lot.productId,
+        productName: product?.name || 'Unknown Product',
+        batchNumber: lot.batchNumber,
+        useBy,
+        cause: paoDate === useBy ? 'pao' : 'expiry',
+        expired: daysLeft < 0,
+        daysLeft,
+        remainingMl: lot.remainingMl,
+      });
+    });
+
+    return alerts.sort((a, b) => a.useBy.localeCompare(b.useBy));
+  }
+}
@@ -0,0 +1,138 @@
+import { PurchaseOrder, PurchaseOrderLine, Supplier } from '@/types';
+
+// ============================================================================
+// PURCHASE ORDER SERVICE
+// ============================================================================
+// A purchase order is drafted, sent to the supplier, then received in one or
+// more deliveries. Quantities are sealed bottles (or units for products not
+// measured in ml). What is still outstanding on sent orders is "on order",
+// so nobody reorders what is already on its way. Receiving itself, with the
+// restock, is done by receive_purchase_order() (see purchase-orders.sql).
+// ============================================================================
+
+export interface ReceiptLineInput {
+  lineId: string;
+  quantity: number;
+  unitCost: number;
+  batchNumber?: string; // lot the delivered bottles belong to
+  expiresAt?: string; // YYYY-MM-DD
+}
+
+export interface OnOrderSummary {
+  quantity: number;
+  expectedAt?: string; // earliest expected delivery
+  orderNumbers: string[];
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class PurchaseOrderService {
+  /**
+   * Bottles or units of a line not delivered yet
+   */
+  static getOutstanding(line: Pick<PurchaseOrderLine, 'quantityOrdered' | 'quantityReceived'>): number {
+    return Math.max(0, line.quantityOrdered - line.quantityReceived);
+  }
+
+  /**
+   * Value of the order at the costs agreed when ordering
+   */
+  static getOrderTotal(order: Pick<PurchaseOrder, 'lines'>): number {
+    return roundAmount(order.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0));
+  }
+
+  /**
+   * What the deliveries received so far actually cost
+   */
+  static getReceivedCost(order: Pick<PurchaseOrder, 'lines'>): number {
+    return roundAmount(order.lines.reduce(
+      (sum, line) => sum + line.receipts.reduce((lineSum, receipt) => lineSum + receipt.quantity * receipt.unitCost, 0),
+      0
+    ));
+  }
+
+  /**
+   * Sent to the supplier and not fully delivered
+   */
+  static isOnItsWay(order: Pick<PurchaseOrder, 'status'>): boolean {
+    return order.status === 'sent' || order.status === 'partially_received';
+  }
+
+  /**
+   * Delivery date expected from the supplier's lead time, YYYY-MM-DD
+   */
+  static getExpectedDate(sentAt: Date, leadTimeDays: number): string {
+    const expected = new Date(sentAt);
+    expected.setDate(expected.getDate() + leadTimeDays);
+    return `${expected.getFullYear()}-${String(expected.getMonth() + 1).padStart(2, '0')}-${String(expected.getDate()).padStart(2, '0')}`;
+  }
+
+  /**
+   * Catalogue price of a product at a supplier, or the fallback when the
+   * supplier does not list it
+   */
+  static getCatalogueCost(supplier: Pick<Supplier, 'catalogue'> | undefined, productId: string, fallback: number): number {
+    return supplier?.catalogue.find(item => item.productId === productId)?.unitCost ?? fallback;
+  }
+
+  /**
+   * Problems with a delivery before it is sent to receive_purchase_order()
+   */
+  static validateReceipt(order: PurchaseOrder, lines: ReceiptLineInput[]): string[] {
+    const errors: string[] = [];
+
+    if (!this.isOnItsWay(order)) {
+      errors.push(`Purchase order ${order.orderNumber} has not been sent or is already received`);
+    }
+
+    const receiving = lines.filter(line => line.quantity !== 0);
+    if (receiving.length === 0) {
+      errors.push('Enter the quantity received on at least one line');
+    }
+
+    receiving.forEach(input => {
+      const line = order.lines.find(candidate => candidate.id === input.lineId);
+      if (!line) {
+        errors.push('A received line is not on this purchase order');
+        return;
+      }
+
+      const name = line.productName || 'a product';
+      if (!Number.isInteger(input.quantity) || input.quantity < 0) {
+        errors.push(`The quantity received of ${name} must be a whole number`);
+      } else if (input.quantity > this.getOutstanding(line)) {
+        errors.push(`Only ${this.getOutstanding(line)} of ${name} left to receive`);
+      }
+      if (input.unitCost < 0) {
+        errors.push(`The cost of ${name} cannot be negative`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Outstanding quantities of sent orders per product
+   */
+  static getOnOrder(orders: PurchaseOrder[]): Record<string, OnOrderSummary> {
+    const onOrder: Record<string, OnOrderSummary> = {};
+
+    orders.filter(order => this.isOnItsWay(order)).forEach(order => {
+      order.lines.forEach(line => {
+        const outstanding = this.getOutstanding(line);
+        if (outstanding === 0) return;
+
+        const summary = onOrder[line.productId] || (onOrder[line.productId] = { quantity: 0, orderNumbers: [] });
+        summary.quantity += outstanding;
+        if (!summary.orderNumbers.includes(order.orderNumber)) {
+          summary.orderNumbers.push(order.orderNumber);
+        }
+        if (order.expectedAt && (!summary.expectedAt || order.expectedAt < summary.expectedAt)) {
+          summary.expectedAt = order.expectedAt;
+        }
+      });
+    });
+
+    return onOrder;
+  }
+}
@@ -0,0 +1,391 @@
+import {
+  AppSettings,
+  PaymentMethod,
+  ReceiptFormat,
+  ReceiptLanguage,
+  ReceiptTemplate,
+  SaleDiscount,
+  SalePayment,
+  SaleRetailItem,
+  SaleTaxLine,
+  SaleTip,
+} from '@/types';
+import { formatPrice } from '@/utils/currency';
+import enTranslations from '@/locales/en.json';
+import frTranslations from '@/locales/fr.json';
+import arTranslations from '@/locales/ar.json';
+
+// ============================================================================
+// RECEIPT SERVICE
+// ============================================================================
+// Renders the receipt of a committed sale from the salon settings and the
+// receipt template: an HTML document sized for 58mm/80mm thermal printers or
+// A4 paper, and a plain-text version with the same content for WhatsApp.
+// Labels come from the `receipt` section of the locale files so a receipt
+// can be printed in a language other than the one the POS is shown in;
+// Arabic receipts are laid out right to left.
+// ============================================================================
+
+export interface ReceiptServiceLine {
+  name: string;
+  originalPrice: number;
+  adjustedPrice: number; // net of discountAmount
+  discountAmount?: number;
+  quantity?: number;
+}
+
+export interface ReceiptProductLine {
+  productName: string;
+  quantityUsed: number;
+  unit: string;
+}
+
+export interface ReceiptData {
+  saleId: string;
+  receiptNumber?: number;
+  invoiceNumber?: string;
+  date: string;
+  clientName: string;
+  clientPhone?: string;
+  staffName?: string;
+  services: ReceiptServiceLine[];
+  products: ReceiptProductLine[];
+  retailItems?: SaleRetailItem[];
+  subtotalAmount?: number;
+  discountAmount?: number;
+  discounts?: SaleDiscount[];
+  taxLines?: SaleTaxLine[];
+  totalAmount: number;
+  paymentMethod: PaymentMethod | 'mixed';
+  payments?: SalePayment[];
+  tipAmount?: number;
+  tips?: SaleTip[];
+}
+
+type ReceiptLabels = typeof enTranslations.receipt;
+
+const RECEIPT_LABELS: Record<ReceiptLanguage, ReceiptLabels> = {
+  en: enTranslations.receipt,
+  fr: frTranslations.receipt,
+  ar: arTranslations.receipt,
+};
+
+const DATE_LOCALES: Record<ReceiptLanguage, string> = {
+  en: 'en-GB',
+  fr: 'fr-MA',
+  ar: 'ar-MA',
+};
+
+// Characters per line of the plain-text layout
+export const RECEIPT_TEXT_WIDTH: Record<ReceiptFormat, number> = {
+  thermal58: 32,
+  thermal80: 48,
+  a4: 64,
+};
+
+export const DEFAULT_SALON_SETTINGS: AppSettings = {
+  salonName: 'Antilope Centre',
+  salonNameAr: '',
+  salonNameFr: '',
+  address: '',
+  phone: '',
+  email: '',
+  currency: 'MAD',
+  timezone: 'Africa/Casablanca',
+  workingHours: {},
+};
+
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplate = {
+  format: 'thermal80',
+  language: 'fr',
+  showClientPhone: false,
+  showProductsUsed: false,
+  showStaff: true,
+  footerMessage: '',
+};
+
+const SALON_SETTINGS_KEY = 'salon_settings';
+const RECEIPT_TEMPLATE_KEY = 'receipt_settings';
+
+// Right-to-left mark, keeps each plain-text line right aligned in Arabic
+const RLM = '\u200F';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const readStoredSettings = <T,>(key: string, defaults: T): T => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+    return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+  } catch (error) {
+    console.warn(`Could not read ${key}, using defaults:`, error);
+    return defaults;
+  }
+};
+
+// A receipt is a list of rows shared by the text and HTML layouts
+type ReceiptRow =
+  | { kind: 'separator' }
+  | { kind: 'heading'; text: string }
+  | { kind: 'text'; text: string; muted?: boolean }
+  | { kind: 'amount'; label: string; amount: number; strong?: boolean; muted?: boolean };
+
+export class ReceiptService {
+  /**
+   * Salon header settings saved from Settings, merged over the defaults
+   */
+  static loadSalonSettings(): AppSettings {
+    return readStoredSettings(SALON_SETTINGS_KEY, DEFAULT_SALON_SETTINGS);
+  }
+
+  /**
+   * Receipt template saved from Settings, merged over the defaults
+   */
+  static loadReceiptTemplate(): ReceiptTemplate {
+    return readStoredSettings(RECEIPT_TEMPLATE_KEY, DEFAULT_RECEIPT_TEMPLATE);
+  }
+
+  static saveSalonSettings(settings: AppSettings): void {
+    localStorage.setItem(SALON_SETTINGS_KEY, JSON.stringify(settings));
+  }
+
+  static saveReceiptTemplate(template: ReceiptTemplate): void {
+    localStorage.setItem(RECEIPT_TEMPLATE_KEY, JSON.stringify(template));
+  }
+
+  static getLabels(language: ReceiptLanguage): ReceiptLabels {
+    return RECEIPT_LABELS[language] || RECEIPT_LABELS.fr;
+  }
+
+  static isRtl(language: ReceiptLanguage): boolean {
+    return language === 'ar';
+  }
+
+  /**
+   * Zero-padded receipt number, e.g. 42 -> "000042"
+   */
+  static formatReceiptNumber(receiptNumber?: number): string {
+    return receiptNumber ? String(receiptNumber).padStart(6, '0') : '';
+  }
+
+  /**
+   * Salon name in the receipt language, falling back to the main name
+   */
+  static getSalonName(settings: AppSettings, language: ReceiptLanguage): string {
+    if (language === 'ar' && settings.salonNameAr) return settings.salonNameAr;
+    if (language === 'fr' && settings.salonNameFr) return settings.salonNameFr;
+    return settings.salonName;
+  }
+
+  static getDiscountLabel(discount: SaleDiscount, labels: ReceiptLabels): string {
+    if (discount.source === 'promo') {
+      return `${labels.promo} ${discount.code || ''}`.trim();
+    }
+    if (discount.source === 'loyalty') {
+      return discount.loyaltyPoints
+        ? `${labels.loyalty} (${discount.loyaltyPoints} ${labels.points})`
+        : labels.loyalty;
+    }
+    return discount.discountType === 'percentage'
+      ? `${labels.discount} ${discount.value}%`
+      : labels.discount;
+  }
+
+  static getTaxLabel(taxLine: SaleTaxLine, labels: ReceiptLabels): string {
+    const label = `${labels.tax} ${taxLine.rate}%`;
+    return taxLine.inclusive ? `${label} (${labels.taxIncluded})` : label;
+  }
+
+  /**
+   * Build the rows of a receipt in display order
+   */
+  static buildRows(data: ReceiptData, template: ReceiptTemplate): ReceiptRow[] {
+    const labels = this.getLabels(template.language);
+    const dateLocale = DATE_LOCALES[template.language] || DATE_LOCALES.fr;
+    const payments: SalePayment[] = data.payments && data.payments.length > 0
+      ? data.payments
+      : data.paymentMethod !== 'mixed'
+        ? [{ method: data.paymentMethod, amount: roundAmount(data.totalAmount + (data.tipAmount || 0)) }]
+        : [];
+    const rows: ReceiptRow[] = [];
+
+    if (data.receiptNumber) {
+      rows.push({ kind: 'text', text: `${labels.receiptNumber} ${this.formatReceiptNumber(data.receiptNumber)}` });
+    }
+    if (data.invoiceNumber) {
+      rows.push({ kind: 'text', text: `${labels.invoiceNumber} ${data.invoiceNumber}` });
+    }
+    rows.push({ kind: 'text', text: `${labels.date}: ${new Date(data.date).toLocaleString(dateLocale)}` });
+    rows.push({ kind: 'text', text: `${labels.client}: ${data.clientName}` });
+    if (template.showClientPhone && data.clientPhone) {
+      rows.push({ kind: 'text', text: `${labels.phone}: ${data.clientPhone}` });
+    }
+    if (template.showStaff && data.staffName) {
+      rows.push({ kind: 'text', text: `${labels.staff}: ${data.staffName}` });
+    }
+
+    rows.push({ kind: 'separator' });
+    if (data.services.length > 0) {
+      rows.push({ kind: 'heading', text: labels.services });
+    }
+    data.services.forEach(service => {
+      // Lines are printed before discounts; the discounts follow the subtotal
+      const price = roundAmount(service.adjustedPrice + (service.discountAmount || 0)) * (service.quantity || 1);
+      const name = (service.quantity || 1) > 1 ? `${service.quantity} x ${service.name}` : service.name;
+      rows.push({ kind: 'amount', label: name, amount: roundAmount(price) });
+    });
+
+    const retailItems = data.retailItems || [];
+    if (retailItems.length > 0) {
+      rows.push({ kind: 'heading', text: labels.retail });
+      retailItems.forEach(item => {
+        const name = item.productName || '';
+        rows.push({
+          kind: 'amount',
+          label: item.quantity > 1 ? `${item.quantity} x ${name}` : name,
+          amount: roundAmount(item.unitPrice * item.quantity),
+        });
+      });
+    }
+
+    if (template.showProductsUsed && data.products.length > 0) {
+      rows.push({ kind: 'heading', text: labels.productsUsed });
+      data.products.forEach(product => {
+        rows.push({ kind: 'text', text: `${product.productName} (${product.quantityUsed} ${product.unit})`, muted: true });
+      });
+    }
+
+    rows.push({ kind: 'separator' });
+    const discounts = data.discounts || [];
+    if (discounts.length > 0) {
+      rows.push({ kind: 'amount', label: labels.subtotal, amount: data.subtotalAmount ?? data.totalAmount });
+      discounts.forEach(discount => {
+        rows.push({ kind: 'amount', label: this.getDiscountLabel(discount, labels), amount: -discount.amount });
+      });
+    }
+    (data.taxLines || []).forEach(taxLine => {
+      rows.push({ kind: 'amount', label: this.getTaxLabel(taxLine, labels), amount: taxLine.taxAmount, muted: taxLine.inclusive });
+    });
+    rows.push({ kind: 'amount', label: labels.total.toUpperCase(), amount: data.totalAmount, strong: true });
+
+    if ((data.tipAmount || 0) > 0) {
+      rows.push({ kind: 'amount', label: labels.tip, amount: data.tipAmount || 0 });
+      rows.push({ kind: 'amount', label: labels.amountPaid, amount: roundAmount(data.totalAmount + (data.tipAmount || 0)), strong: true });
+    }
+
+    if (payments.length > 0) {
+      rows.push({ kind: 'separator' });
+      payments.forEach(payment => {
+        const label = payment.reference ? `${labels[payment.method]} (${payment.reference})` : labels[payment.method];
+        rows.push({ kind: 'amount', label, amount: payment.tendered ?? payment.amount });
+      });
+      const change = roundAmount(payments.reduce((sum, payment) => sum + (payment.changeGiven || 0), 0));
+      if (change > 0) {
+        rows.push({ kind: 'amount', label: labels.change, amount: change });
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Render a receipt as plain text, for thermal printers and WhatsApp
+   */
+  static renderText(data: ReceiptData, template: ReceiptTemplate, settings: AppSettings = DEFAULT_SALON_SETTINGS): string {
+    const labels = this.getLabels(template.language);
+    const width = RECEIPT_TEXT_WIDTH[template.format];
+    const separator = '-'.repeat(width);
+    const center = (text: string) => text.padStart(Math.floor((width + text.length) / 2)).padEnd(width).trimEnd();
+    const amountRow = (label: string, amount: number) => {
+      const value = formatPrice(amount);
+      if (label.length + value.length + 1 > width) {
+        return [label, value.padStart(width)];
+      }
+      return [`${label}${value.padStart(width - label.length)}`];
+    };
+
+    const lines = [
+      center(this.getSalonName(settings, template.language).toUpperCase()),
+      ...[settings.address, settings.phone, settings.email].filter(Boolean).map(center),
+      separator,
+    ];
+
+    this.buildRows(data, template).forEach(row => {
+      if (row.kind === 'separator') lines.push(separator);
+      else if (row.kind === 'heading') lines.push(row.text.toUpperCase());
+      else if (row.kind === 'text') lines.push(row.muted ? `  ${row.text}` : row.text);
+      else lines.push(...amountRow(row.label, row.amount));
+    });
+
+    lines.push(separator);
+    if (template.footerMessage) {
+      lines.push(...template.footerMessage.split('\n').map(center));
+    } else {
+      lines.push(center(labels.thankYou), center(labels.seeYouSoon));
+    }
+
+    return this.isRtl(template.language)
+      ? lines.map(line => `${RLM}${line}`).join('\n')
+      : lines.join('\n');
+  }
+
+  /**
+   * Render a receipt as a printable HTML document sized for the template format
+   */
+  static renderHtml(data: ReceiptData, template: ReceiptTemplate, settings: AppSettings = DEFAULT_SALON_SETTINGS): string {
+    const labels = this.getLabels(template.language);
+    const rtl = this.isRtl(template.language);
+    const pageCss: Record<ReceiptFormat, string> = {
+      thermal58: '@page { size: 58mm auto; margin: 0; } body { width: 48mm; padding: 2mm 5mm; font-size: 10px; }',
+      thermal80: '@page { size: 80mm auto; margin: 0; } body { width: 72mm; padding: 2mm 4mm; font-size: 12px; }',
+      a4: '@page { size: A4; margin: 15mm; } body { max-width: 180mm; margin: 0 auto; font-size: 13px; } .salon { font-size: 22px; }',
+    };
+    const amount = (value: number) => `<bdi dir="ltr">${escapeHtml(formatPrice(value))}</bdi>`;
+
+    const body = this.buildRows(data, template).map(row => {
+      if (row.kind === 'separator') return '<hr>';
+      if (row.kind === 'heading') return `<div class="heading">${escapeHtml(row.text)}</div>`;
+      if (row.kind === 'text') return `<div class="${row.muted ? 'muted' : ''}">${escapeHtml(row.text)}</div>`;
+      const classes = [row.strong ? 'strong' : '', row.muted ? 'muted' : ''].filter(Boolean).join(' ');
+      return `<div class="row ${classes}"><span>${escapeHtml(row.label)}</span>${amount(row.amount)}</div>`;
+    });
+
+    const header = [
+      `<div class="center salon">${escapeHtml(this.getSalonName(settings, template.language))}</div>`,
+      ...[settings.address, settings.phone, settings.email]
+        .filter(Boolean)
+        .map(line => `<div class="center muted">${escapeHtml(line)}</div>`),
+      '<hr>',
+    ];
+
+    const footer = (template.footerMessage ? template.footerMessage.split('\n') : [labels.thankYou, labels.seeYouSoon])
+      .map(line => `<div class="center">${escapeHtml(line)}</div>`);
+
+    return [
+      '<!DOCTYPE html>',
+      `<html lang="${template.language}" dir="${rtl ? 'rtl' : 'ltr'}">`,
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(labels.title)} ${this.formatReceiptNumber(data.receiptNumber)}</title>`,
+      '<style>',
+      `body { font-family: ${rtl ? "Tahoma, 'Arial Unicode MS', sans-serif" : "'Courier New', monospace"}; color: #000; margin: 0; }`,
+      'hr { border: none; border-top: 1px dashed #000; margin: 6px 0; }',
+      '.center { text-align: center; } .salon { font-weight: bold; font-size: 1.4em; }',
+      '.heading { font-weight: bold; text-transform: uppercase; margin-top: 4px; }',
+      '.row { display: flex; justify-content: space-between; gap: 8px; }',
+      '.strong { font-weight: bold; font-size: 1.15em; } .muted { color: #555; }',
+      pageCss[template.format],
+      '</style>',
+      '</head>',
+      '<body>',
+      ...header,
+      ...body,
+      '<hr>',
+      ...footer,
+      '</body>',
+      '</html>',
+    ].join('\n');
+  }
+}
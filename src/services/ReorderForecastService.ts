@@ -0,0 +1,190 @@
+import { Product, Service, Supplier } from '@/types';
+import { OnOrderSummary } from './PurchaseOrderService';
+
+// ============================================================================
+// REORDER FORECAST SERVICE
+// ============================================================================
+// Proposes what to reorder before it runs out. Demand is the larger of the
+// recent average daily consumption (product_consumption_log, returns taken
+// off) and what upcoming confirmed bookings will use, over the supplier's
+// lead time plus the days of cover wanted after the delivery. Stock already
+// on order counts as available, and the product's minimum stays in reserve.
+// Quantities are whole bottles (or units for products not measured in ml).
+// ============================================================================
+
+export interface ConsumptionEntry {
+  productId: string;
+  mlConsumed: number;
+  consumptionType?: string; // 'service' or 'return'
+  createdAt: string;
+}
+
+// One booked service; a multi-service booking gives one per segment
+export interface UpcomingServiceUse {
+  serviceId: string;
+  startAt: string;
+}
+
+export type ForecastProduct = Pick<
+  Product,
+  'id' | 'name' | 'brand' | 'sealed_bottles' | 'open_bottle_remaining_ml' | 'bottle_capacity_ml' | 'minQuantity' | 'cost'
+>;
+
+export interface ForecastOptions {
+  historyDays: number; // consumption averaged over this many past days
+  coverDays: number; // stock wanted after a delivery arrives
+  defaultLeadTimeDays: number; // for products no supplier lists
+  now?: Date;
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  productName: string;
+  brand: string;
+  availableMl: number;
+  dailyUsageMl: number; // demand used for the forecast
+  bookedMl: number; // needed by bookings before a new order would run out
+  daysOfCover: number | null; // null when nothing is being used
+  onOrderBottles: number;
+  supplierId?: string;
+  supplierName?: string;
+  leadTimeDays: number;
+  unitCost: number;
+  suggestedBottles: number;
+  reorderBy?: string; // YYYY-MM-DD, last day to order before dipping into the minimum
+}
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  historyDays: 30,
+  coverDays: 14,
+  defaultLeadTimeDays: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundTenth = (value: number): number => Math.round(value * 10) / 10;
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export class ReorderForecastService {
+  /**
+   * Average ml used per day over the last historyDays, returns taken off
+   */
+  static getDailyUsage(entries: ConsumptionEntry[], historyDays: number, now: Date = new Date()): Record<string, number> {
+    const since = now.getTime() - historyDays * DAY_MS;
+    const totals: Record<string, number> = {};
+
+    entries.forEach(entry => {
+      if (new Date(entry.createdAt).getTime() < since) return;
+      const sign = entry.consumptionType === 'return' ? -1 : 1;
+      totals[entry.productId] = (totals[entry.productId] || 0) + sign * entry.mlConsumed;
+    });
+
+    return Object.fromEntries(
+      Object.entries(totals).map(([productId, total]) => [productId, Math.max(0, total) / historyDays])
+    );
+  }
+
+  /**
+   * Ml of each product the booked services need, from their required
+   * (not optional) products
+   */
+  static getBookedUsage(uses: UpcomingServiceUse[], services: Pick<Service, 'id' | 'requiredProducts'>[]): Record<string, number> {
+    const booked: Record<string, number> = {};
+
+    uses.forEach(use => {
+      const service = services.find(candidate => candidate.id === use.serviceId);
+      (service?.requiredProducts || [])
+        .filter(required => !required.isOptional)
+        .forEach(required => {
+          booked[required.productId] = (booked[required.productId] || 0) + (required.requiredMl || 0);
+        });
+    });
+
+    return booked;
+  }
+
+  /**
+   * Supplier to reorder from: the cheapest active catalogue price, then the
+   * shortest lead time
+   */
+  static pickSupplier(productId: string, suppliers: Supplier[]): { supplier: Supplier; unitCost: number } | null {
+    const offers = suppliers
+      .filter(supplier => supplier.isActive)
+      .flatMap(supplier => supplier.catalogue
+        .filter(item => item.productId === productId)
+        .map(item => ({ supplier, unitCost: item.unitCost })));
+
+    offers.sort((a, b) => a.unitCost - b.unitCost || a.supplier.leadTimeDays - b.supplier.leadTimeDays);
+    return offers[0] || null;
+  }
+
+  /**
+   * Products to reorder, least days of cover first
+   */
+  static getSuggestions(
+    input: {
+      products: ForecastProduct[];
+      consumption: ConsumptionEntry[];
+      upcoming: UpcomingServiceUse[];
+      services: Pick<Service, 'id' | 'requiredProducts'>[];
+      suppliers: Supplier[];
+      onOrder: Record<string, OnOrderSummary>;
+    },
+    options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+  ): ReorderSuggestion[] {
+    const now = options.now || new Date();
+    const dailyUsage = this.getDailyUsage(input.consumption, options.historyDays, now);
+
+    const suggestions = input.products.map((product): ReorderSuggestion => {
+      const capacity = product.bottle_capacity_ml || 1000;
+      const offer = this.pickSupplier(product.id, input.suppliers);
+      const leadTimeDays = offer ? offer.supplier.leadTimeDays : options.defaultLeadTimeDays;
+      const windowDays = leadTimeDays + options.coverDays;
+
+      // Only bookings before a delivery ordered today would run out count
+      const windowEnd = now.getTime() + windowDays * DAY_MS;
+      const bookedMl = this.getBookedUsage(
+        input.upcoming.filter(use => {
+          const start = new Date(use.startAt).getTime();
+          return start >= now.getTime() && start < windowEnd;
+        }),
+        input.services
+      )[product.id] || 0;
+
+      const demandMl = Math.max((dailyUsage[product.id] || 0) * windowDays, bookedMl);
+      const rate = windowDays > 0 ? demandMl / windowDays : 0;
+
+      const availableMl = (product.sealed_bottles || 0) * capacity + (product.open_bottle_remaining_ml || 0);
+      const onOrderBottles = input.onOrder[product.id]?.quantity || 0;
+      const reserveMl = (product.minQuantity || 0) * capacity;
+      const shortfallMl = demandMl + reserveMl - availableMl - onOrderBottles * capacity;
+
+      const daysUntilReserve = rate > 0 ? (availableMl + onOrderBottles * capacity - reserveMl) / rate : null;
+
+      return {
+        productId: product.id,
+        productName: product.name,
+        brand: product.brand,
+        availableMl,
+        dailyUsageMl: roundTenth(rate),
+        bookedMl,
+        daysOfCover: rate > 0 ? roundTenth(availableMl / rate) : null,
+        onOrderBottles,
+        supplierId: offer?.supplier.id,
+        supplierName: offer?.supplier.name,
+        leadTimeDays,
+        unitCost: offer ? offer.unitCost : product.cost || 0,
+        suggestedBottles: shortfallMl > 0 ? Math.ceil(shortfallMl / capacity) : 0,
+        reorderBy: daysUntilReserve !== null
+          ? toDateString(new Date(now.getTime() + Math.max(0, Math.floor(daysUntilReserve - leadTimeDays)) * DAY_MS))
+          : undefined,
+      };
+    });
+
+    return suggestions
+      .filter(suggestion => suggestion.suggestedBottles > 0)
+      .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity));
+  }
+}
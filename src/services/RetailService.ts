@@ -0,0 +1,131 @@
+import { Product, Sale, SaleRetailItem } from '@/types';
+
+// ============================================================================
+// RETAIL SERVICE
+// ============================================================================
+// Products sold over the counter at the POS. Retail is sold by whole sealed
+// bottle, or by unit for products not measured in ml, at Product.price; the
+// sale takes sealed bottles off the stock and leaves the open bottle used by
+// services alone (see record_sale_retail_items() in sale-retail.sql).
+// Retail lines are not discounted and earn no commission. Their revenue and
+// margin (price - cost) are reported apart from service revenue.
+// ============================================================================
+
+export interface RetailProductSummary {
+  productId: string;
+  productName: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+}
+
+export interface RetailRevenueSummary {
+  serviceRevenue: number;
+  retailRevenue: number;
+  retailCost: number;
+  retailMargin: number;
+  retailMarginPercent: number;
+  retailUnits: number;
+  products: RetailProductSummary[];
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class RetailService {
+  /**
+   * Selling unit of a product: whole bottles for ml products, the product unit otherwise
+   */
+  static getSellingUnit(product: Pick<Product, 'unit'>): string {
+    return !product.unit || product.unit === 'ml' ? 'bottle' : product.unit;
+  }
+
+  /**
+   * Sealed bottles (or units) that can be sold
+   */
+  static getAvailableUnits(product: Pick<Product, 'sealed_bottles'>): number {
+    return Math.max(0, Math.floor(product.sealed_bottles || 0));
+  }
+
+  /**
+   * Check a retail quantity against the sealed stock
+   */
+  static validateQuantity(product: Pick<Product, 'name' | 'sealed_bottles'>, quantity: number): string | null {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return 'Retail quantities must be whole bottles or units';
+    }
+
+    const available = this.getAvailableUnits(product);
+    if (quantity > available) {
+      return `Only ${available} sealed ${product.name} left in stock`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Amount charged for a retail line, including TVA added to tax-exclusive prices
+   */
+  static getLineTotal(item: SaleRetailItem): number {
+    const lineAmount = item.unitPrice * item.quantity;
+    return roundAmount(item.priceIncludesTax === false ? lineAmount + (item.taxAmount || 0) : lineAmount);
+  }
+
+  /**
+   * Margin of a retail line: (price - cost) per unit sold
+   */
+  static getLineMargin(item: SaleRetailItem): number {
+    return roundAmount((item.unitPrice - item.unitCost) * item.quantity);
+  }
+
+  /**
+   * Service and retail revenue of a set of sales. Voided sales and refunded
+   * retail lines are left out; the kept amount of a sale that is not retail
+   * counts as service revenue.
+   */
+  static summarize(sales: Sale[]): RetailRevenueSummary {
+    const products = new Map<string, RetailProductSummary>();
+    let serviceRevenue = 0;
+
+    sales.forEach(sale => {
+      if (sale.status === 'voided') return;
+
+      const retailItems = (sale.retailItems || []).filter(item => !item.refundedAt);
+      const retailCharged = retailItems.reduce((sum, item) => sum + this.getLineTotal(item), 0);
+      const kept = Math.max(0, (sale.totalAmount || 0) - (sale.refundedAmount || 0));
+      serviceRevenue += Math.max(0, kept - retailCharged);
+
+      retailItems.forEach(item => {
+        const summary = products.get(item.productId) || {
+          productId: item.productId,
+          productName: item.productName || 'Unknown Product',
+          quantity: 0,
+          revenue: 0,
+          cost: 0,
+          margin: 0,
+        };
+
+        summary.quantity += item.quantity;
+        summary.revenue = roundAmount(summary.revenue + item.unitPrice * item.quantity);
+        summary.cost = roundAmount(summary.cost + item.unitCost * item.quantity);
+        summary.margin = roundAmount(summary.revenue - summary.cost);
+        products.set(item.productId, summary);
+      });
+    });
+
+    const productSummaries = Array.from(products.values()).sort((a, b) => b.revenue - a.revenue);
+    const retailRevenue = roundAmount(productSummaries.reduce((sum, product) => sum + product.revenue, 0));
+    const retailCost = roundAmount(productSummaries.reduce((sum, product) => sum + product.cost, 0));
+    const retailMargin = roundAmount(retailRevenue - retailCost);
+
+    return {
+      serviceRevenue: roundAmount(serviceRevenue),
+      retailRevenue,
+      retailCost,
+      retailMargin,
+      retailMarginPercent: retailRevenue > 0 ? roundAmount((retailMargin / retailRevenue) * 100) : 0,
+      retailUnits: productSummaries.reduce((sum, product) => sum + product.quantity, 0),
+      products: productSummaries,
+    };
+  }
+}
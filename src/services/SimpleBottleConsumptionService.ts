@@ -1,12 +1,16 @@
 import { supabase } from '@/lib/supabaseClient';
+import { UnitService } from './UnitService';
 
 // ============================================================================
 // SIMPLE BOTTLE CONSUMPTION SERVICE
 // ============================================================================
 // This service implements the exact consumption logic as specified:
-// - Track stock only in milliliters, not by counting open bottles
-// - Always consume from open bottle first, then open sealed bottles only when necessary
-// - Update product stock and logs consistently
+// - Track stock in the product's unit (ml, g or whole pieces), bottle by
+//   bottle (product lots); the *Ml names predate g and pieces
+// - Always consume from open bottles first, then open sealed bottles only when
+//   necessary, first expired first out
+// - Update lots, product stock and logs in one database transaction
+//   (consume_service_product() in product-lots.sql)
 // ============================================================================
 
 export interface ConsumptionRequest {
@@ -14,7 +18,7 @@ export interface ConsumptionRequest {
   requiredMl: number;
   saleId?: string;
   serviceId?: string;
-  staffId?: string;
+  staffId?: string; // consumption is logged against the signed-in user
 }
 
 export interface ConsumptionResult {
@@ -34,6 +38,7 @@ export interface ProductInventoryStatus {
   name: string;
   brand: string;
   category: string;
+  unit: string; // ml, g or pieces; the quantities below are in this unit
   sealed_bottles: number;
   open_bottle_remaining_ml: number;
   bottle_capacity_ml: number;
@@ -45,129 +50,36 @@ export interface ProductInventoryStatus {
 export class SimpleBottleConsumptionService {
   
   /**
-   * CORE CONSUMPTION LOGIC - Exactly as specified
-   * 
-   * Consumption Flow:
-   * 1. If open_bottle_remaining_ml >= used_ml → subtract directly
-   * 2. Else:
-   *    - Subtract what's left from open_bottle_remaining_ml
-   *    - Decrement sealed_bottles by 1
-   *    - Set open_bottle_remaining_ml = bottle_capacity_ml - (remaining ml needed)
+   * CORE CONSUMPTION LOGIC - first expired first out
+   *
+   * Consumption Flow (consume_service_product() in product-lots.sql):
+   * 1. Take from the open bottles, the one to use soonest first
+   * 2. Then open sealed bottles, the first to expire first, as needed
+   * The lots, the product totals and the consumption log are written in one
+   * transaction, logged against the signed-in staff member
    */
   static async consumeProduct(request: ConsumptionRequest): Promise<ConsumptionResult> {
     try {
-      // Get current product state
-      const { data: product, error: productError } = await supabase
-        .from('products')
-        .select('*')
-        .eq('id', request.productId)
-        .single();
-
-      if (productError || !product) {
-        return {
-          success: false,
-          productId: request.productId,
-          requiredMl: request.requiredMl,
-          consumedMl: 0,
-          bottlesOpened: 0,
-          finalSealedBottles: 0,
-          finalOpenMl: 0,
-          totalRemainingMl: 0,
-          error: `Product not found: ${productError?.message}`
-        };
-      }
-
-      // Calculate total available ml
-      const totalAvailable = (product.sealed_bottles * product.bottle_capacity_ml) + product.open_bottle_remaining_ml;
-
-      // Check if we have enough stock
-      if (totalAvailable < request.requiredMl) {
-        return {
-          success: false,
-          productId: request.productId,
-          requiredMl: request.requiredMl,
-          consumedMl: 0,
-          bottlesOpened: 0,
-          finalSealedBottles: product.sealed_bottles,
-          finalOpenMl: product.open_bottle_remaining_ml,
-          totalRemainingMl: totalAvailable,
-          error: `Insufficient stock. Available: ${totalAvailable}ml, Required: ${request.requiredMl}ml`
-        };
-      }
-
-      // Store initial values for logging
-      const initialSealedBottles = product.sealed_bottles;
-      const initialOpenMl = product.open_bottle_remaining_ml;
-      const bottleCapacity = product.bottle_capacity_ml;
-
-      // CONSUMPTION LOGIC - Exactly as specified
-      let remainingToConsume = request.requiredMl;
-      let bottlesOpened = 0;
-      let newSealedBottles = product.sealed_bottles;
-      let newOpenBottleRemaining = product.open_bottle_remaining_ml;
-
-      // Step 1: If open_bottle_remaining_ml >= used_ml → subtract directly
-      if (newOpenBottleRemaining >= remainingToConsume) {
-        newOpenBottleRemaining -= remainingToConsume;
-        remainingToConsume = 0;
-      } else {
-        // Step 2: Else - consume from open bottle first, then open sealed bottles
-        // Subtract what's left from open_bottle_remaining_ml
-        remainingToConsume -= newOpenBottleRemaining;
-        newOpenBottleRemaining = 0;
-
-        // Open sealed bottles as needed
-        while (remainingToConsume > 0 && newSealedBottles > 0) {
-          // Decrement sealed_bottles by 1
-          newSealedBottles -= 1;
-          bottlesOpened += 1;
-
-          // Set open_bottle_remaining_ml = bottle_capacity_ml - (remaining ml needed)
-          const consumeFromNewBottle = Math.min(bottleCapacity, remainingToConsume);
-          newOpenBottleRemaining = bottleCapacity - consumeFromNewBottle;
-          remainingToConsume -= consumeFromNewBottle;
-        }
-      }
-
-      // Update database
-      const { error: updateError } = await supabase
-        .from('products')
-        .update({
-          sealed_bottles: newSealedBottles,
-          open_bottle_remaining_ml: newOpenBottleRemaining,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', request.productId);
-
-      if (updateError) {
-        throw new Error(`Failed to update product: ${updateError.message}`);
-      }
-
-      // Log the consumption
-      await this.logConsumption({
-        productId: request.productId,
-        saleId: request.saleId,
-        serviceId: request.serviceId,
-        mlConsumed: request.requiredMl,
-        bottlesOpened,
-        sealedBottlesBefore: initialSealedBottles,
-        sealedBottlesAfter: newSealedBottles,
-        openMlBefore: initialOpenMl,
-        openMlAfter: newOpenBottleRemaining,
-        staffId: request.staffId
+      const { data, error } = await supabase.rpc('consume_service_product', {
+        p_product_id: request.productId,
+        p_required_ml: request.requiredMl,
+        p_sale_id: request.saleId ?? null,
+        p_service_id: request.serviceId ?? null
       });
 
-      const finalTotalMl = (newSealedBottles * bottleCapacity) + newOpenBottleRemaining;
+      if (error) {
+        throw new Error(error.message);
+      }
 
       return {
         success: true,
         productId: request.productId,
-        requiredMl: request.requiredMl,
-        consumedMl: request.requiredMl,
-        bottlesOpened,
-        finalSealedBottles: newSealedBottles,
-        finalOpenMl: newOpenBottleRemaining,
-        totalRemainingMl: finalTotalMl
+        requiredMl: Number(data.quantityUsed) || 0,
+        consumedMl: Number(data.quantityUsed) || 0,
+        bottlesOpened: data.bottlesOpened || 0,
+        finalSealedBottles: data.sealedBottles || 0,
+        finalOpenMl: Number(data.openMl) || 0,
+        totalRemainingMl: Number(data.totalRemainingMl) || 0
       };
 
     } catch (error) {
@@ -222,6 +134,7 @@ export class SimpleBottleConsumptionService {
           products (
             id,
             name,
+            unit,
             sealed_bottles,
             open_bottle_remaining_ml,
             bottle_capacity_ml
@@ -259,7 +172,7 @@ export class SimpleBottleConsumptionService {
         });
 
         if (!canFulfill) {
-          missingProducts.push(`${product.name}: need ${requiredMl}ml, have ${totalAvailableMl}ml`);
+          missingProducts.push(`${product.name}: need ${UnitService.format(requiredMl, product.unit)}, have ${UnitService.format(totalAvailableMl, product.unit)}`);
         }
       }
 
@@ -287,7 +200,7 @@ export class SimpleBottleConsumptionService {
     try {
       const { data: products, error } = await supabase
         .from('products')
-        .select('id, name, brand, category, sealed_bottles, open_bottle_remaining_ml, bottle_capacity_ml, min_quantity')
+        .select('id, name, brand, category, unit, sealed_bottles, open_bottle_remaining_ml, bottle_capacity_ml, min_quantity')
         .eq('is_active', true)
         .order('name');
 
@@ -312,6 +225,7 @@ export class SimpleBottleConsumptionService {
           name: product.name,
           brand: product.brand,
           category: product.category,
+          unit: UnitService.getStockUnit(product.unit),
           sealed_bottles: product.sealed_bottles,
           open_bottle_remaining_ml: product.open_bottle_remaining_ml,
           bottle_capacity_ml: product.bottle_capacity_ml,
@@ -348,6 +262,7 @@ export class SimpleBottleConsumptionService {
     id: string;
     product_id: string;
     product_name: string;
+    unit: string;
     ml_consumed: number;
     bottles_opened: number;
     consumption_type: string;
@@ -364,7 +279,7 @@ export class SimpleBottleConsumptionService {
           bottles_opened,
           consumption_type,
           created_at,
-          products (name),
+          products (name, unit),
           services (name)
         `)
         .order('created_at', { ascending: false })
@@ -382,6 +297,7 @@ export class SimpleBottleConsumptionService {
         id: log.id,
         product_id: log.product_id,
         product_name: log.products?.name || 'Unknown Product',
+        unit: UnitService.getStockUnit(log.products?.unit),
         ml_consumed: log.ml_consumed || 0,
         bottles_opened: log.bottles_opened || 0,
         consumption_type: log.consumption_type || 'unknown',
@@ -401,6 +317,7 @@ export class SimpleBottleConsumptionService {
     productId: string;
     productName: string;
     requiredMl: number;
+    unit: string;
   }>> {
     try {
       const { data: serviceProducts, error } = await supabase
@@ -408,7 +325,7 @@ export class SimpleBottleConsumptionService {
         .select(`
           product_id,
           default_qty,
-          products (name)
+          products (name, unit)
         `)
         .eq('service_id', serviceId);
 
@@ -417,7 +334,8 @@ export class SimpleBottleConsumptionService {
       return (serviceProducts || []).map(sp => ({
         productId: sp.product_id,
         productName: sp.products?.name || 'Unknown Product',
-        requiredMl: sp.default_qty || 0
+        requiredMl: sp.default_qty || 0,
+        unit: UnitService.getStockUnit(sp.products?.unit)
       }));
     } catch (error) {
       console.error('Error getting service product requirements:', error);
@@ -431,6 +349,7 @@ export class SimpleBottleConsumptionService {
   static async getSaleProductUsage(saleId: string): Promise<Array<{
     productId: string;
     productName: string;
+    unit: string;
     mlConsumed: number;
     bottlesOpened: number;
   }>> {
@@ -441,7 +360,7 @@ export class SimpleBottleConsumptionService {
           product_id,
           ml_consumed,
           bottles_opened,
-          products (name)
+          products (name, unit)
         `)
         .eq('sale_id', saleId);
 
@@ -450,6 +369,7 @@ export class SimpleBottleConsumptionService {
       return (logs || []).map(log => ({
         productId: log.product_id,
         productName: log.products?.name || 'Unknown Product',
+        unit: UnitService.getStockUnit(log.products?.unit),
         mlConsumed: log.ml_consumed || 0,
         bottlesOpened: log.bottles_opened || 0
       }));
@@ -458,45 +378,4 @@ export class SimpleBottleConsumptionService {
       return [];
     }
   }
-
-  /**
-   * Log consumption operation
-   */
-  private static async logConsumption(data: {
-    productId: string;
-    saleId?: string;
-    serviceId?: string;
-    mlConsumed: number;
-    bottlesOpened: number;
-    sealedBottlesBefore: number;
-    sealedBottlesAfter: number;
-    openMlBefore: number;
-    openMlAfter: number;
-    staffId?: string;
-  }): Promise<void> {
-    try {
-      await supabase
-        .from('product_consumption_log')
-        .insert({
-          product_id: data.productId,
-          sale_id: data.saleId,
-          service_id: data.serviceId,
-          consumption_type: 'service',
-          ml_consumed: data.mlConsumed,
-          bottles_opened: data.bottlesOpened,
-          remaining_ml_before: data.openMlBefore,
-          remaining_ml_after: data.openMlAfter,
-          sealed_bottles_before: data.sealedBottlesBefore,
-          sealed_bottles_after: data.sealedBottlesAfter,
-          staff_id: data.staffId,
-          created_at: new Date().toISOString()
-        });
-    } catch (error) {
-      console.error('Error logging consumption:', error);
-      // Don't throw error here as it's just logging
-    }
-  }
 }
-
-export default SimpleBottleConsumptionService;
-
@@ -0,0 +1,75 @@
+import { LeaveRequest, WeeklyScheduleRange } from '@/types';
+
+// ============================================================================
+// STAFF SCHEDULE SERVICE
+// ============================================================================
+// Checks on schedules and leave before they are saved. Which hours a staff
+// member actually works on a date (weekly hours minus breaks, exceptions,
+// leave and holidays) is resolved in the database by
+// get_staff_working_ranges(), see staff-schedules.sql.
+// ============================================================================
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const overlaps = (a: WeeklyScheduleRange, b: WeeklyScheduleRange): boolean =>
+  a.weekday === b.weekday && toMinutes(a.start) < toMinutes(b.end) && toMinutes(b.start) < toMinutes(a.end);
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export class StaffScheduleService {
+  /**
+   * Problems with a weekly schedule: ranges that end before they start,
+   * working ranges that overlap, and breaks outside the working hours
+   */
+  static validateWeeklySchedule(hours: WeeklyScheduleRange[], breaks: WeeklyScheduleRange[]): string[] {
+    const errors: string[] = [];
+
+    [...hours, ...breaks].forEach(range => {
+      if (!range.start || !range.end || toMinutes(range.end) <= toMinutes(range.start)) {
+        errors.push(`${WEEKDAY_NAMES[range.weekday]}: ${range.start || '?'} - ${range.end || '?'} must end after it starts`);
+      }
+    });
+
+    hours.forEach((range, index) => {
+      if (hours.slice(index + 1).some(other => overlaps(range, other))) {
+        errors.push(`${WEEKDAY_NAMES[range.weekday]}: working hours overlap`);
+      }
+    });
+
+    breaks.forEach(range => {
+      const insideHours = hours.some(hoursRange =>
+        hoursRange.weekday === range.weekday &&
+        toMinutes(hoursRange.start) <= toMinutes(range.start) &&
+        toMinutes(hoursRange.end) >= toMinutes(range.end)
+      );
+      if (!insideHours) {
+        errors.push(`${WEEKDAY_NAMES[range.weekday]}: the ${range.start} - ${range.end} break is outside the working hours`);
+      }
+    });
+
+    return Array.from(new Set(errors));
+  }
+
+  /**
+   * Calendar days of leave, both ends included
+   */
+  static countLeaveDays(startDate: string, endDate: string): number {
+    const start = new Date(`${startDate}T00:00:00Z`).getTime();
+    const end = new Date(`${endDate}T00:00:00Z`).getTime();
+    return Math.max(0, Math.round((end - start) / 86400000) + 1);
+  }
+
+  /**
+   * Leave already requested or granted that overlaps the given dates
+   */
+  static findOverlappingLeave(requests: LeaveRequest[], startDate: string, endDate: string): LeaveRequest[] {
+    return requests.filter(request =>
+      (request.status === 'pending' || request.status === 'approved') &&
+      request.startDate <= endDate &&
+      startDate <= request.endDate
+    );
+  }
+}
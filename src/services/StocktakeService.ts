@@ -0,0 +1,140 @@
+import { Stocktake, StocktakeCount } from '@/types';
+
+// ============================================================================
+// STOCKTAKE SERVICE
+// ============================================================================
+// Variances between a physical count and what the system held when it was
+// counted, in ml and valued at the bottle cost, and their trend across posted
+// stocktakes. Negative variance is stock lost (shrinkage), positive is stock
+// found. Posting the adjustments is done by post_stocktake() (stocktakes.sql).
+// ============================================================================
+
+export interface CountVariance {
+  sealedBottles: number;
+  openMl: number;
+  ml: number; // sealed and open together
+  cost: number;
+}
+
+export type VarianceGrouping = 'product' | 'category';
+
+export interface VarianceTrendPoint {
+  stocktakeId: string;
+  stocktakeNumber: string;
+  postedAt: string;
+  ml: number;
+  cost: number;
+}
+
+export interface VarianceTrend {
+  key: string; // product id or category
+  label: string;
+  points: VarianceTrendPoint[]; // oldest stocktake first
+  totalMl: number;
+  totalCost: number;
+}
+
+const roundCost = (value: number): number => Math.round(value * 100) / 100;
+
+export class StocktakeService {
+  /**
+   * Counted minus expected, for one product
+   */
+  static getVariance(
+    count: Pick<StocktakeCount, 'expectedSealed' | 'expectedOpenMl' | 'countedSealed' | 'countedOpenMl' | 'bottleCapacityMl' | 'unitCost'>
+  ): CountVariance {
+    const sealedBottles = count.countedSealed - count.expectedSealed;
+    const openMl = count.countedOpenMl - count.expectedOpenMl;
+    const ml = sealedBottles * count.bottleCapacityMl + openMl;
+
+    return {
+      sealedBottles,
+      openMl,
+      ml,
+      cost: count.bottleCapacityMl > 0 ? roundCost((ml / count.bottleCapacityMl) * count.unitCost) : 0,
+    };
+  }
+
+  /**
+   * Net variance of a stocktake, with what was lost and found kept apart
+   */
+  static getTotals(counts: StocktakeCount[]): { ml: number; cost: number; lostCost: number; foundCost: number; products: number } {
+    return counts.reduce((totals, count) => {
+      const variance = this.getVariance(count);
+      if (variance.ml === 0) return totals;
+
+      return {
+        ml: totals.ml + variance.ml,
+        cost: roundCost(totals.cost + variance.cost),
+        lostCost: roundCost(totals.lostCost + Math.min(0, variance.cost)),
+        foundCost: roundCost(totals.foundCost + Math.max(0, variance.cost)),
+        products: totals.products + 1,
+      };
+    }, { ml: 0, cost: 0, lostCost: 0, foundCost: 0, products: 0 });
+  }
+
+  /**
+   * Problems with a count before it is saved
+   */
+  static validateCount(countedSealed: number, countedOpenMl: number): string[] {
+    const errors: string[] = [];
+
+    if (!Number.isInteger(countedSealed) || countedSealed < 0) {
+      errors.push('Sealed bottles must be a whole number, zero or more');
+    }
+    // All open bottles together, so more than one bottle's capacity is fine
+    if (!Number.isFinite(countedOpenMl) || countedOpenMl < 0) {
+      errors.push('Open bottles must hold zero ml or more');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Variance per product or category across posted stocktakes, the worst
+   * shrinkage first
+   */
+  static getTrends(stocktakes: Stocktake[], groupBy: VarianceGrouping): VarianceTrend[] {
+    const trends = new Map<string, VarianceTrend>();
+
+    stocktakes
+      .filter(stocktake => stocktake.status === 'posted' && stocktake.postedAt)
+      .sort((a, b) => new Date(a.postedAt!).getTime() - new Date(b.postedAt!).getTime())
+      .forEach(stocktake => {
+        stocktake.counts.forEach(count => {
+          const variance = this.getVariance(count);
+          if (variance.ml === 0) return;
+
+          const key = groupBy === 'product' ? count.productId : count.category || 'Uncategorized';
+          const trend = trends.get(key) || {
+            key,
+            label: groupBy === 'product' ? count.productName || count.productId : key,
+            points: [],
+            totalMl: 0,
+            totalCost: 0,
+          };
+
+          // Products of a category counted in the same stocktake share one point
+          const last = trend.points[trend.points.length - 1];
+          if (last && last.stocktakeId === stocktake.id) {
+            last.ml += variance.ml;
+            last.cost = roundCost(last.cost + variance.cost);
+          } else {
+            trend.points.push({
+              stocktakeId: stocktake.id,
+              stocktakeNumber: stocktake.stocktakeNumber,
+              postedAt: stocktake.postedAt!,
+              ml: variance.ml,
+              cost: variance.cost,
+            });
+          }
+
+          trend.totalMl += variance.ml;
+          trend.totalCost = roundCost(trend.totalCost + variance.cost);
+          trends.set(key, trend);
+        });
+      });
+
+    return Array.from(trends.values()).sort((a, b) => a.totalCost - b.totalCost);
+  }
+}
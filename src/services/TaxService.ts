@@ -0,0 +1,162 @@
+import { Sale, SaleTaxLine } from '@/types';
+
+// ============================================================================
+// TAX SERVICE
+// ============================================================================
+// TVA (VAT) of POS sales. Each service and product has a rate and a pricing
+// mode: tax-inclusive prices (TTC) already contain the TVA, tax-exclusive
+// prices (HT) get it added on top. Tax is computed on the discounted price
+// and rounded per unit, the same way record_sale_taxes() does it in
+// sale-invoices.sql, so the POS total matches the total checked server-side.
+// ============================================================================
+
+export interface TaxableLine {
+  unitPrice: number; // discounted price of one unit
+  quantity: number;
+  taxRate?: number;
+  priceIncludesTax?: boolean;
+}
+
+export interface TaxedLine {
+  taxRate: number;
+  priceIncludesTax: boolean;
+  netAmount: number; // HT
+  taxAmount: number;
+  grossAmount: number; // TTC
+}
+
+export interface TaxCalculation {
+  lines: TaxedLine[];
+  netAmount: number;
+  taxAmount: number;
+  taxAdded: number; // tax added on top of exclusive prices
+  grossAmount: number;
+  taxLines: SaleTaxLine[];
+}
+
+export interface TaxPeriodSummary {
+  period: string; // YYYY-MM-DD or YYYY-MM
+  salesCount: number;
+  netAmount: number;
+  taxAmount: number;
+  grossAmount: number;
+  byRate: { rate: number; taxableAmount: number; taxAmount: number }[];
+}
+
+// Moroccan TVA rates
+export const TVA_RATES = [0, 7, 10, 14, 20];
+export const DEFAULT_TVA_RATE = 20;
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class TaxService {
+  /**
+   * TVA of one unit at the given rate and pricing mode
+   */
+  static getUnitTax(unitPrice: number, taxRate: number, priceIncludesTax: boolean): number {
+    if (taxRate <= 0 || unitPrice <= 0) return 0;
+    return priceIncludesTax
+      ? roundAmount((unitPrice * taxRate) / (100 + taxRate))
+      : roundAmount((unitPrice * taxRate) / 100);
+  }
+
+  /**
+   * Tax of each line, the sale totals and the breakdown per rate
+   */
+  static calculate(lines: TaxableLine[]): TaxCalculation {
+    const taxedLines: TaxedLine[] = lines.map(line => {
+      const taxRate = line.taxRate ?? DEFAULT_TVA_RATE;
+      const priceIncludesTax = line.priceIncludesTax ?? true;
+      const taxAmount = roundAmount(this.getUnitTax(line.unitPrice, taxRate, priceIncludesTax) * line.quantity);
+      const lineAmount = roundAmount(line.unitPrice * line.quantity);
+
+      return {
+        taxRate,
+        priceIncludesTax,
+        netAmount: priceIncludesTax ? roundAmount(lineAmount - taxAmount) : lineAmount,
+        taxAmount,
+        grossAmount: priceIncludesTax ? lineAmount : roundAmount(lineAmount + taxAmount),
+      };
+    });
+
+    const taxLines: SaleTaxLine[] = [];
+    taxedLines.forEach(line => {
+      const existing = taxLines.find(t => t.rate === line.taxRate && t.inclusive === line.priceIncludesTax);
+      if (existing) {
+        existing.taxableAmount = roundAmount(existing.taxableAmount + line.netAmount);
+        existing.taxAmount = roundAmount(existing.taxAmount + line.taxAmount);
+      } else {
+        taxLines.push({
+          rate: line.taxRate,
+          inclusive: line.priceIncludesTax,
+          taxableAmount: line.netAmount,
+          taxAmount: line.taxAmount,
+        });
+      }
+    });
+    taxLines.sort((a, b) => a.rate - b.rate);
+
+    return {
+      lines: taxedLines,
+      netAmount: roundAmount(taxedLines.reduce((sum, line) => sum + line.netAmount, 0)),
+      taxAmount: roundAmount(taxedLines.reduce((sum, line) => sum + line.taxAmount, 0)),
+      taxAdded: roundAmount(taxedLines.filter(line => !line.priceIncludesTax).reduce((sum, line) => sum + line.taxAmount, 0)),
+      grossAmount: roundAmount(taxedLines.reduce((sum, line) => sum + line.grossAmount, 0)),
+      taxLines,
+    };
+  }
+
+  /**
+   * TVA collected per day or month, for the accountant. Voided sales are
+   * left out and refunded sales count for the share that was kept.
+   */
+  static summarizeByPeriod(sales: Sale[], granularity: 'day' | 'month' = 'month'): TaxPeriodSummary[] {
+    const periods = new Map<string, TaxPeriodSummary>();
+
+    sales.forEach(sale => {
+      if (sale.status === 'voided' || sale.totalAmount <= 0) return;
+
+      const kept = Math.max(0, sale.totalAmount - (sale.refundedAmount || 0)) / sale.totalAmount;
+      if (kept <= 0) return;
+
+      const date = new Date(sale.createdAt);
+      const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      const period = granularity === 'month' ? month : `${month}-${String(date.getDate()).padStart(2, '0')}`;
+
+      const summary = periods.get(period) || {
+        period,
+        salesCount: 0,
+        netAmount: 0,
+        taxAmount: 0,
+        grossAmount: 0,
+        byRate: [],
+      };
+
+      const taxAmount = (sale.taxAmount || 0) * kept;
+      const grossAmount = sale.totalAmount * kept;
+      summary.salesCount += 1;
+      summary.taxAmount = roundAmount(summary.taxAmount + taxAmount);
+      summary.grossAmount = roundAmount(summary.grossAmount + grossAmount);
+      summary.netAmount = roundAmount(summary.grossAmount - summary.taxAmount);
+
+      (sale.taxLines || []).forEach(taxLine => {
+        const rate = summary.byRate.find(r => r.rate === taxLine.rate);
+        if (rate) {
+          rate.taxableAmount = roundAmount(rate.taxableAmount + taxLine.taxableAmount * kept);
+          rate.taxAmount = roundAmount(rate.taxAmount + taxLine.taxAmount * kept);
+        } else {
+          summary.byRate.push({
+            rate: taxLine.rate,
+            taxableAmount: roundAmount(taxLine.taxableAmount * kept),
+            taxAmount: roundAmount(taxLine.taxAmount * kept),
+          });
+        }
+      });
+      summary.byRate.sort((a, b) => a.rate - b.rate);
+
+      periods.set(period, summary);
+    });
+
+    return Array.from(periods.values()).sort((a, b) => a.period.localeCompare(b.period));
+  }
+}
@@ -0,0 +1,81 @@
+import { DiscountType, SaleTip } from '@/types';
+
+// ============================================================================
+// TIP SERVICE
+// ============================================================================
+// Tips are entered at the POS payment step as a fixed amount or a percentage
+// of the amount due, then shared between the staff who worked on the sale.
+// They are paid by the client on top of the sale total and are never counted
+// as revenue; each staff member's share is paid out with their commissions.
+// ============================================================================
+
+export const TIP_PERCENTAGE_PRESETS = [5, 10, 15];
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class TipService {
+  /**
+   * Resolve the tip amount entered as a fixed amount or a percentage of the sale total
+   */
+  static calculateTip(saleTotal: number, tipType: DiscountType, value: number): number {
+    if (!value || value <= 0) return 0;
+    if (tipType === 'percentage') {
+      return roundAmount((saleTotal * value) / 100);
+    }
+    return roundAmount(value);
+  }
+
+  /**
+   * Share a tip evenly between staff; leftover cents go to the first staff member
+   */
+  static splitTip(tipAmount: number, staffIds: string[]): SaleTip[] {
+    const uniqueStaffIds = Array.from(new Set(staffIds.filter(Boolean)));
+    if (tipAmount <= 0 || uniqueStaffIds.length === 0) return [];
+
+    const share = Math.floor((tipAmount * 100) / uniqueStaffIds.length) / 100;
+    const remainder = roundAmount(tipAmount - share * uniqueStaffIds.length);
+
+    return uniqueStaffIds
+      .map((staffId, index) => ({
+        staffId,
+        amount: roundAmount(index === 0 ? share + remainder : share),
+      }))
+      .filter(tip => tip.amount > 0);
+  }
+
+  /**
+   * Check that tip shares are assigned to staff and add up to the tip amount
+   */
+  static validateTips(tips: SaleTip[], tipAmount: number): string | null {
+    if (tipAmount <= 0) return null;
+
+    if (tips.length === 0) {
+      return 'Select at least one staff member to receive the tip';
+    }
+
+    if (tips.some(tip => !tip.staffId || tip.amount <= 0)) {
+      return 'Each tip share needs a staff member and an amount';
+    }
+
+    if (new Set(tips.map(tip => tip.staffId)).size !== tips.length) {
+      return 'A staff member can only receive one tip share per sale';
+    }
+
+    const allocated = roundAmount(tips.reduce((sum, tip) => sum + tip.amount, 0));
+    if (Math.abs(allocated - tipAmount) > 0.01) {
+      return 'Tip shares must add up to the tip amount';
+    }
+
+    return null;
+  }
+
+  /**
+   * Sum tip shares per staff member
+   */
+  static getTotalsByStaff(tips: SaleTip[]): Record<string, number> {
+    return tips.reduce<Record<string, number>>((totals, tip) => ({
+      ...totals,
+      [tip.staffId]: roundAmount((totals[tip.staffId] || 0) + tip.amount),
+    }), {});
+  }
+}
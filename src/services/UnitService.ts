@@ -0,0 +1,103 @@
+// ============================================================================
+// UNIT SERVICE
+// ============================================================================
+// Products are stocked in millilitres, grams or pieces. Bottle sizes, open
+// bottle remainders and the quantities services require are all in the
+// product's stock unit, whatever the field names say (they predate g and
+// pieces). Litres and kilograms are accepted on entry and converted; pieces
+// are only ever whole.
+// ============================================================================
+
+export type StockUnit = 'ml' | 'g' | 'pieces';
+export type EntryUnit = StockUnit | 'l' | 'kg';
+
+export const STOCK_UNITS: StockUnit[] = ['ml', 'g', 'pieces'];
+
+const UNITS: Record<EntryUnit, { stockUnit: StockUnit; factor: number }> = {
+  ml: { stockUnit: 'ml', factor: 1 },
+  l: { stockUnit: 'ml', factor: 1000 },
+  g: { stockUnit: 'g', factor: 1 },
+  kg: { stockUnit: 'g', factor: 1000 },
+  pieces: { stockUnit: 'pieces', factor: 1 },
+};
+
+// Free-text units saved before there was a fixed list
+const LEGACY_UNITS: Record<string, StockUnit> = {
+  gr: 'g',
+  gram: 'g',
+  grams: 'g',
+  piece: 'pieces',
+  pcs: 'pieces',
+  pc: 'pieces',
+  units: 'pieces',
+  unit: 'pieces',
+};
+
+export class UnitService {
+  /**
+   * The unit a product is stocked in; ml unless it says otherwise
+   */
+  static getStockUnit(unit?: string): StockUnit {
+    const normalized = (unit || '').trim().toLowerCase();
+    if ((STOCK_UNITS as string[]).includes(normalized)) return normalized as StockUnit;
+    return LEGACY_UNITS[normalized] || 'ml';
+  }
+
+  /**
+   * Units a quantity of the product can be entered in
+   */
+  static getEntryUnits(unit?: string): EntryUnit[] {
+    const stockUnit = this.getStockUnit(unit);
+    return (Object.keys(UNITS) as EntryUnit[]).filter(candidate => UNITS[candidate].stockUnit === stockUnit);
+  }
+
+  /**
+   * Converts between units of the same kind; null between ml, g and pieces
+   */
+  static convert(quantity: number, from: EntryUnit, to: EntryUnit): number | null {
+    if (UNITS[from].stockUnit !== UNITS[to].stockUnit) return null;
+    return quantity * UNITS[from].factor / UNITS[to].factor;
+  }
+
+  /**
+   * The quantity actually taken from stock: whole pieces, rounded up
+   */
+  static normalizeQuantity(quantity: number, unit?: string): number {
+    return this.getStockUnit(unit) === 'pieces' ? Math.ceil(quantity) : quantity;
+  }
+
+  static getLabel(quantity: number, unit?: string): string {
+    const stockUnit = this.getStockUnit(unit);
+    if (stockUnit === 'pieces') return Math.abs(quantity) === 1 ? 'piece' : 'pieces';
+    return stockUnit;
+  }
+
+  /**
+   * A quantity with its unit, e.g. "250 ml", "12.5 g" or "1 piece"
+   */
+  static format(quantity: number, unit?: string): string {
+    const rounded = Math.round((quantity || 0) * 100) / 100;
+    return `${rounded} ${this.getLabel(rounded, unit)}`;
+  }
+
+  /**
+   * Totals across products, one per unit; ml, g and pieces never add up
+   */
+  static sumByUnit(items: { quantity: number; unit?: string }[]): Partial<Record<StockUnit, number>> {
+    return items.reduce((totals, item) => {
+      const stockUnit = this.getStockUnit(item.unit);
+      totals[stockUnit] = (totals[stockUnit] || 0) + (item.quantity || 0);
+      return totals;
+    }, {} as Partial<Record<StockUnit, number>>);
+  }
+
+  /**
+   * Totals per unit as one line, e.g. "1200 ml · 350 g"
+   */
+  static formatTotals(totals: Partial<Record<StockUnit, number>>): string {
+    const parts = STOCK_UNITS
+      .filter(unit => totals[unit] !== undefined)
+      .map(unit => this.format(totals[unit] as number, unit));
+    return parts.length > 0 ? parts.join(' · ') : this.format(0, 'ml');
+  }
+}
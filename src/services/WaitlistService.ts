@@ -0,0 +1,51 @@
+import { WaitlistEntry, WaitlistOffer, WaitlistOfferNotice, WaitlistOfferStatus } from '@/types';
+
+// ============================================================================
+// WAITLIST SERVICE
+// ============================================================================
+// Claim links, offer messages and the state of waitlist entries as staff see
+// them. Matching freed slots to entries and claiming them happen in the
+// database (see booking-waitlist.sql); the scheduler sends the offers over
+// WhatsApp because that is where the messaging configuration lives.
+// ============================================================================
+
+export type WaitlistEntryState = 'waiting' | 'offered' | 'booked' | 'cancelled' | 'expired';
+
+export class WaitlistService {
+  static claimUrl(origin: string, token: string): string {
+    return `${origin.replace(/\/$/, '')}/booking/claim/${token}`;
+  }
+
+  /**
+   * An open offer is expired once its expiry has passed
+   */
+  static offerStatus(offer: Pick<WaitlistOffer, 'status' | 'expiresAt'>, now: Date = new Date()): WaitlistOfferStatus {
+    return offer.status === 'open' && new Date(offer.expiresAt) <= now ? 'expired' : offer.status;
+  }
+
+  /**
+   * Waiting entries show as offered while an offer is open, and as expired
+   * once their last date has passed; today is YYYY-MM-DD in salon time
+   */
+  static entryState(entry: Pick<WaitlistEntry, 'status' | 'dateTo' | 'offers'>, today: string, now: Date = new Date()): WaitlistEntryState {
+    if (entry.status !== 'waiting') return entry.status;
+    if (entry.dateTo < today) return 'expired';
+    return entry.offers.some(offer => this.offerStatus(offer, now) === 'open') ? 'offered' : 'waiting';
+  }
+
+  static offerMessage(notice: WaitlistOfferNotice, claimUrl: string): string {
+    const start = new Date(notice.startAt);
+    const expires = new Date(notice.expiresAt);
+    const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+    return [
+      `Hello ${notice.clientName},`,
+      '',
+      `A slot has opened up for ${notice.serviceName} with ${notice.staffName} on ${start.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' })} at ${time(start)}.`,
+      '',
+      `Book it here before ${time(expires)}: ${claimUrl}`,
+      '',
+      'The first client to claim it gets the slot.'
+    ].join('\n');
+  }
+}
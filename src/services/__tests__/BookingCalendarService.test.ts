@@ -0,0 +1,88 @@
+import { BookingCalendarService } from '../BookingCalendarService';
+import { Booking } from '@/types';
+
+const booking = (id: string, start: string, end: string, overrides: Partial<Booking> = {}): Booking => ({
+  id,
+  clientId: 'client-1',
+  serviceId: 'service-1',
+  staffId: 'staff-1',
+  date: start.slice(0, 10),
+  time: start.slice(11, 16),
+  duration: 60,
+  status: 'confirmed',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  startAt: new Date(start).toISOString(),
+  endAt: new Date(end).toISOString(),
+  ...overrides,
+});
+
+describe('BookingCalendarService', () => {
+  it('builds the Monday-first week of a date', () => {
+    const week = BookingCalendarService.weekDates('2024-01-17'); // a Wednesday
+    expect(week[0]).toBe('2024-01-15');
+    expect(week[6]).toBe('2024-01-21');
+    expect(BookingCalendarService.weekDates('2024-01-21')[0]).toBe('2024-01-15');
+  });
+
+  it('lays overlapping bookings side by side and reuses free lanes', () => {
+    const events = BookingCalendarService.layoutDay([
+      booking('a', '2024-01-15T10:00:00', '2024-01-15T11:00:00'),
+      booking('b', '2024-01-15T10:30:00', '2024-01-15T11:30:00'),
+      booking('c', '2024-01-15T11:00:00', '2024-01-15T11:45:00'),
+      booking('d', '2024-01-15T14:00:00', '2024-01-15T15:00:00'),
+      booking('e', '2024-01-16T10:00:00', '2024-01-16T11:00:00'),
+    ], '2024-01-15');
+
+    const byId = Object.fromEntries(events.map(event => [event.booking.id, event]));
+    expect(events).toHaveLength(4);
+    expect([byId.a.lane, byId.b.lane, byId.c.lane]).toEqual([0, 1, 0]);
+    expect([byId.a.lanes, byId.b.lanes, byId.c.lanes]).toEqual([2, 2, 2]);
+    expect([byId.d.lane, byId.d.lanes]).toEqual([0, 1]);
+  });
+
+  it('moves a booking to another day on the snapped grid, keeping its duration', () => {
+    const times = BookingCalendarService.moveTimes(
+      booking('a', '2024-01-15T10:00:00', '2024-01-15T11:30:00'),
+      '2024-01-17',
+      52
+    );
+
+    expect(times.startAt).toBe(new Date('2024-01-17T10:45:00').toISOString());
+    expect(times.endAt).toBe(new Date('2024-01-17T12:15:00').toISOString());
+  });
+
+  it('resizes a booking to at least one step, ending by midnight', () => {
+    const appointment = booking('a', '2024-01-15T10:00:00', '2024-01-15T11:00:00');
+
+    expect(BookingCalendarService.resizeTimes(appointment, 22).endAt).toBe(new Date('2024-01-15T11:15:00').toISOString());
+    expect(BookingCalendarService.resizeTimes(appointment, -120).endAt).toBe(new Date('2024-01-15T10:15:00').toISOString());
+    expect(BookingCalendarService.resizeTimes(appointment, 24 * 60).endAt).toBe(new Date('2024-01-16T00:00:00').toISOString());
+  });
+
+  it('moves only upcoming bookings and resizes any that are not over', () => {
+    expect(BookingCalendarService.canMove({ status: 'pending' })).toBe(true);
+    expect(BookingCalendarService.canMove({ status: 'in_progress' })).toBe(false);
+    expect(BookingCalendarService.canResize({ status: 'in_progress' })).toBe(true);
+    expect(BookingCalendarService.canResize({ status: 'completed' })).toBe(false);
+  });
+
+  it('shows each service of a multi-service booking in its own staff column, fixed in place', () => {
+    const segments = [
+      { id: 's1', bookingId: 'a', position: 1, serviceId: 'colour', staffId: 'fatima', startAt: '2024-01-15T10:00:00Z', endAt: '2024-01-15T11:30:00Z' },
+      { id: 's2', bookingId: 'a', position: 2, serviceId: 'blow-dry', staffId: 'sara', startAt: '2024-01-15T11:30:00Z', endAt: '2024-01-15T12:00:00Z' },
+    ];
+    const blocks = BookingCalendarService.expandSegments([
+      booking('a', '2024-01-15T10:00:00Z', '2024-01-15T12:00:00Z', { segments }),
+      booking('b', '2024-01-15T13:00:00Z', '2024-01-15T14:00:00Z'),
+    ]);
+
+    expect(blocks.map(block => [block.id, block.staffId, block.serviceId, block.startAt])).toEqual([
+      ['a', 'fatima', 'colour', '2024-01-15T10:00:00Z'],
+      ['a', 'sara', 'blow-dry', '2024-01-15T11:30:00Z'],
+      ['b', 'staff-1', 'service-1', new Date('2024-01-15T13:00:00Z').toISOString()],
+    ]);
+    expect(BookingCalendarService.canMove({ status: 'pending', segments })).toBe(false);
+    expect(BookingCalendarService.canResize({ status: 'pending', segments })).toBe(false);
+  });
+});
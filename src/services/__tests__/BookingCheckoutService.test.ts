@@ -0,0 +1,48 @@
+import { BookingCheckoutService } from '../BookingCheckoutService';
+
+describe('BookingCheckoutService', () => {
+  it('splits revenue between booked and walk-in sales, net of refunds', () => {
+    const summary = BookingCheckoutService.summarize(
+      [
+        { totalAmount: 300, status: 'completed', bookingId: 'booking-1' },
+        { totalAmount: 150, status: 'partially_refunded', refundedAmount: 50 },
+        { totalAmount: 200, status: 'voided', bookingId: 'booking-2' },
+        { totalAmount: 80.5, status: 'completed' },
+      ],
+      []
+    );
+
+    expect(summary.bookedRevenue).toBe(300);
+    expect(summary.bookedSales).toBe(1);
+    expect(summary.walkInRevenue).toBe(180.5);
+    expect(summary.walkInSales).toBe(2);
+  });
+
+  it('lists completed bookings that no sale paid for', () => {
+    const summary = BookingCheckoutService.summarize(
+      [
+        { totalAmount: 300, status: 'completed', bookingId: 'booking-1' },
+        { totalAmount: 200, status: 'voided', bookingId: 'booking-2' },
+      ],
+      [
+        { id: 'booking-1', status: 'completed' as const },
+        { id: 'booking-2', status: 'completed' as const },
+        { id: 'booking-3', status: 'completed' as const, saleId: 'sale-9' },
+        { id: 'booking-4', status: 'confirmed' as const },
+      ]
+    );
+
+    expect(summary.unpaidBookings.map(booking => booking.id)).toEqual(['booking-2']);
+  });
+
+  it('checks out a booking once, unless it was cancelled or missed', () => {
+    expect(BookingCheckoutService.canCheckout({ status: 'in_progress' })).toBe(true);
+    expect(BookingCheckoutService.canCheckout({ status: 'completed' })).toBe(true);
+    expect(BookingCheckoutService.canCheckout({ status: 'completed', saleId: 'sale-1' })).toBe(false);
+    expect(BookingCheckoutService.canCheckout({ status: 'no_show' })).toBe(false);
+    expect(BookingCheckoutService.findPayingSaleId([
+      { id: 'sale-1', status: 'voided' },
+      { id: 'sale-2', status: 'completed' },
+    ])).toBe('sale-2');
+  });
+});
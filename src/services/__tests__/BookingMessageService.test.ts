@@ -0,0 +1,45 @@
+import { BookingMessageService } from '../BookingMessageService';
+
+describe('BookingMessageService', () => {
+  const message = {
+    kind: 'reminder' as const,
+    clientName: 'Salma',
+    serviceName: 'Brushing',
+    staffName: 'Fatima',
+    startAt: '2024-01-20T10:00:00Z',
+  };
+
+  it('writes in the client language, falling back to the salon default', () => {
+    expect(BookingMessageService.render({ ...message, clientLanguage: 'en' }, 'fr')).toContain('A reminder of your appointment for Brushing with Fatima');
+    expect(BookingMessageService.render(message, 'fr')).toContain('Petit rappel de votre rendez-vous : Brushing avec Fatima');
+    expect(BookingMessageService.render({ ...message, clientLanguage: 'ar' }, 'fr')).toContain('نذكّرك بموعدك: Brushing مع Fatima');
+  });
+
+  it('asks for a 1 or 2 reply in confirmations and reminders', () => {
+    expect(BookingMessageService.render({ ...message, kind: 'confirmation' }, 'en')).toContain('Thank you for booking Brushing');
+    expect(BookingMessageService.render({ ...message, kind: 'confirmation' }, 'en')).toContain('Reply 1 to confirm or 2 to cancel.');
+    expect(BookingMessageService.render(message, 'fr')).toContain('Répondez 1 pour confirmer ou 2 pour annuler.');
+  });
+
+  it('ends with the link to manage the booking', () => {
+    const url = BookingMessageService.manageUrl('https://salon.example/', 'abc123');
+
+    expect(url).toBe('https://salon.example/booking/manage/abc123');
+    expect(BookingMessageService.render(message, 'en', url)).toMatch(/To reschedule or cancel: https:\/\/salon\.example\/booking\/manage\/abc123$/);
+    expect(BookingMessageService.render(message, 'en')).not.toContain('reschedule');
+  });
+
+  it('reports how far the messages about a booking got', () => {
+    expect(BookingMessageService.reachStatus([])).toBe('none');
+    expect(BookingMessageService.reachStatus([{ direction: 'outbound', status: 'failed' }])).toBe('failed');
+    expect(BookingMessageService.reachStatus([
+      { direction: 'outbound', status: 'failed' },
+      { direction: 'outbound', status: 'sent' },
+    ])).toBe('sent');
+    expect(BookingMessageService.reachStatus([{ direction: 'outbound', status: 'read' }])).toBe('delivered');
+    expect(BookingMessageService.reachStatus([
+      { direction: 'outbound', status: 'sent' },
+      { direction: 'inbound', status: 'received' },
+    ])).toBe('replied');
+  });
+});
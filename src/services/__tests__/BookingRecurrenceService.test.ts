@@ -0,0 +1,69 @@
+import { BookingRecurrenceService } from '../BookingRecurrenceService';
+import { BookingStatus } from '@/types';
+
+const occurrence = (id: string, seriesIndex: number, status: BookingStatus = 'confirmed') => ({
+  id,
+  status,
+  seriesId: 'series-1',
+  seriesIndex,
+});
+
+describe('BookingRecurrenceService', () => {
+  it('repeats every N weeks at the same time of day, for a number of bookings', () => {
+    const dates = BookingRecurrenceService.occurrences(
+      new Date('2024-01-15T10:00:00').toISOString(),
+      45,
+      { intervalWeeks: 2, count: 3 }
+    );
+
+    expect(dates.map(date => date.startTime)).toEqual([
+      new Date('2024-01-15T10:00:00').toISOString(),
+      new Date('2024-01-29T10:00:00').toISOString(),
+      new Date('2024-02-12T10:00:00').toISOString(),
+    ]);
+    expect(dates[2].endTime).toBe(new Date('2024-02-12T10:45:00').toISOString());
+  });
+
+  it('stops at the end date, including it, and never goes past 52 bookings', () => {
+    const start = new Date('2024-01-15T10:00:00').toISOString();
+
+    expect(BookingRecurrenceService.occurrences(start, 60, { intervalWeeks: 4, untilDate: '2024-03-11' })).toHaveLength(3);
+    expect(BookingRecurrenceService.occurrences(start, 60, { intervalWeeks: 1, untilDate: '2030-01-01' })).toHaveLength(52);
+  });
+
+  it('needs an interval and an end', () => {
+    const start = new Date('2024-01-15T10:00:00').toISOString();
+
+    expect(BookingRecurrenceService.validateRule({ intervalWeeks: 2, count: 6 }, start)).toBeNull();
+    expect(BookingRecurrenceService.validateRule({ intervalWeeks: 0, count: 6 }, start)).not.toBeNull();
+    expect(BookingRecurrenceService.validateRule({ intervalWeeks: 2 }, start)).not.toBeNull();
+    expect(BookingRecurrenceService.validateRule({ intervalWeeks: 2, untilDate: '2024-01-01' }, start)).not.toBeNull();
+  });
+
+  it('applies a change to one, the following or all upcoming occurrences', () => {
+    const series = [
+      occurrence('a', 0, 'completed'),
+      occurrence('b', 1),
+      occurrence('c', 2),
+      occurrence('d', 3, 'cancelled'),
+      occurrence('e', 4),
+      { id: 'other', status: 'confirmed' as BookingStatus, seriesId: 'series-2', seriesIndex: 2 },
+    ];
+    const ids = (scope: 'this' | 'following' | 'all') =>
+      BookingRecurrenceService.inScope(series, series[2], scope).map(booking => booking.id);
+
+    expect(ids('this')).toEqual(['c']);
+    expect(ids('following')).toEqual(['c', 'e']);
+    expect(ids('all')).toEqual(['b', 'c', 'e']);
+  });
+
+  it('moves each occurrence by the same number of days to the new time', () => {
+    const shifted = BookingRecurrenceService.shiftStart(
+      new Date('2024-02-12T10:00:00').toISOString(),
+      new Date('2024-01-29T10:00:00').toISOString(),
+      new Date('2024-01-30T14:30:00').toISOString()
+    );
+
+    expect(shifted).toBe(new Date('2024-02-13T14:30:00').toISOString());
+  });
+});
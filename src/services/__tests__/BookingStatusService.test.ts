@@ -0,0 +1,35 @@
+import { BookingStatusService } from '../BookingStatusService';
+
+describe('BookingStatusService', () => {
+  it('follows the lifecycle forward and allows skipping steps', () => {
+    expect(BookingStatusService.canTransition('pending', 'confirmed')).toBe(true);
+    expect(BookingStatusService.canTransition('confirmed', 'checked_in')).toBe(true);
+    expect(BookingStatusService.canTransition('checked_in', 'in_progress')).toBe(true);
+    expect(BookingStatusService.canTransition('in_progress', 'completed')).toBe(true);
+    expect(BookingStatusService.canTransition('pending', 'checked_in')).toBe(true);
+    expect(BookingStatusService.canTransition('confirmed', 'in_progress')).toBe(true);
+  });
+
+  it('never moves backwards or out of a final status', () => {
+    expect(BookingStatusService.canTransition('in_progress', 'confirmed')).toBe(false);
+    expect(BookingStatusService.canTransition('pending', 'completed')).toBe(false);
+    expect(BookingStatusService.canTransition('in_progress', 'cancelled')).toBe(false);
+    expect(BookingStatusService.canTransition('checked_in', 'no_show')).toBe(false);
+    expect(BookingStatusService.nextStatuses('completed')).toEqual([]);
+    expect(BookingStatusService.isFinal('cancelled')).toBe(true);
+    expect(BookingStatusService.isFinal('no_show')).toBe(true);
+  });
+
+  it('reads legacy and missing statuses as pending', () => {
+    expect(BookingStatusService.normalize('scheduled')).toBe('pending');
+    expect(BookingStatusService.normalize(null)).toBe('pending');
+    expect(BookingStatusService.normalize('checked_in')).toBe('checked_in');
+  });
+
+  it('frees the slot only for cancelled and no-show bookings', () => {
+    expect(BookingStatusService.holdsSlot('checked_in')).toBe(true);
+    expect(BookingStatusService.holdsSlot('completed')).toBe(true);
+    expect(BookingStatusService.holdsSlot('cancelled')).toBe(false);
+    expect(BookingStatusService.holdsSlot('no_show')).toBe(false);
+  });
+});
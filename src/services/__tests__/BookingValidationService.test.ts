@@ -4,6 +4,20 @@ import { supabase } from '../../lib/supabaseClient';
 // Mock Supabase
 jest.mock('../../lib/supabaseClient');
 const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+// The automock leaves rpc out of the client
+mockSupabase.rpc = jest.fn() as any;
+
+// users row read by validateStaffAvailability
+const staffQuery = (isActive: boolean): any => ({
+  select: jest.fn().mockReturnValue({
+    eq: jest.fn().mockReturnValue({
+      single: jest.fn().mockResolvedValue({
+        data: { is_active: isActive },
+        error: null,
+      }),
+    }),
+  }),
+});
 
 describe('BookingValidationService', () => {
   let service: BookingValidationService;
@@ -26,9 +40,9 @@ describe('BookingValidationService', () => {
       const existingBookings = [
         {
           id: 'booking-1',
-          staffId: 'staff-1',
-          startTime: '2024-01-15T10:30:00Z',
-          endTime: '2024-01-15T11:30:00Z',
+          staff_id: 'staff-1',
+          start_at: '2024-01-15T10:30:00Z',
+          end_at: '2024-01-15T11:30:00Z',
           status: 'confirmed',
         },
       ];
@@ -95,11 +109,11 @@ describe('BookingValidationService', () => {
       const existingBookings = [
         {
           id: 'booking-1',
-          staffId: 'staff-2',
-          startTime: '2024-01-15T10:30:00Z',
-          endTime: '2024-01-15T11:30:00Z',
+          staff_id: 'staff-2',
+          start_at: '2024-01-15T10:30:00Z',
+          end_at: '2024-01-15T11:30:00Z',
           status: 'confirmed',
-          requiredEquipment: ['equipment-1'],
+          required_equipment: ['equipment-1'],
         },
       ];
 
@@ -260,67 +274,48 @@ describe('BookingValidationService', () => {
   });
 
   describe('validateStaffAvailability', () => {
+    beforeEach(() => {
+      mockSupabase.from.mockReturnValue(staffQuery(true));
+    });
+
+    // Working ranges of Monday 2024-01-15 as get_staff_working_ranges returns them: a lunch break at 13:00
+    const mondayRanges = [
+      { staff_id: 'staff-1', work_date: '2024-01-15', start_time: '09:00:00', end_time: '13:00:00' },
+      { staff_id: 'staff-1', work_date: '2024-01-15', start_time: '14:00:00', end_time: '17:00:00' },
+    ];
+
     it('validates staff working hours', async () => {
       const booking = {
         staffId: 'staff-1',
-        startTime: '2024-01-15T10:00:00Z',
-        endTime: '2024-01-15T11:00:00Z',
-      };
-
-      const mockStaff = {
-        id: 'staff-1',
-        name: 'Jean Dupont',
-        workingHours: {
-          monday: { start: '09:00', end: '17:00' },
-          tuesday: { start: '09:00', end: '17:00' },
-          // ... other days
-        },
-        isActive: true,
+        startTime: '2024-01-15T10:00:00+01:00',
+        endTime: '2024-01-15T11:00:00+01:00',
       };
 
-      mockSupabase.from.mockReturnValue({
-        select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockReturnValue({
-            single: jest.fn().mockResolvedValue({
-              data: mockStaff,
-              error: null,
-            }),
-          }),
-        }),
+      mockSupabase.rpc.mockResolvedValue({
+        data: mondayRanges,
+        error: null,
       } as any);
 
       const result = await service.validateStaffAvailability(booking);
 
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_staff_working_ranges', {
+        p_staff_ids: ['staff-1'],
+        p_from: '2024-01-15',
+        p_to: '2024-01-15',
+      });
       expect(result.isAvailable).toBe(true);
     });
 
     it('detects staff unavailability during non-working hours', async () => {
       const booking = {
         staffId: 'staff-1',
-        startTime: '2024-01-15T19:00:00Z', // After working hours
-        endTime: '2024-01-15T20:00:00Z',
+        startTime: '2024-01-15T19:00:00+01:00', // After working hours
+        endTime: '2024-01-15T20:00:00+01:00',
       };
 
-      const mockStaff = {
-        id: 'staff-1',
-        name: 'Jean Dupont',
-        workingHours: {
-          monday: { start: '09:00', end: '17:00' },
-          tuesday: { start: '09:00', end: '17:00' },
-          // ... other days
-        },
-        isActive: true,
-      };
-
-      mockSupabase.from.mockReturnValue({
-        select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockReturnValue({
-            single: jest.fn().mockResolvedValue({
-              data: mockStaff,
-              error: null,
-            }),
-          }),
-        }),
+      mockSupabase.rpc.mockResolvedValue({
+        data: mondayRanges,
+        error: null,
       } as any);
 
       const result = await service.validateStaffAvailability(booking);
@@ -329,37 +324,107 @@ describe('BookingValidationService', () => {
       expect(result.reason).toContain('outside working hours');
     });
 
+    it('detects bookings running into a break', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: mondayRanges,
+        error: null,
+      } as any);
+
+      const result = await service.validateStaffAvailability({
+        staffId: 'staff-1',
+        startTime: '2024-01-15T12:30:00+01:00',
+        endTime: '2024-01-15T13:30:00+01:00',
+      });
+
+      expect(result.isAvailable).toBe(false);
+      expect(result.reason).toContain('09:00 - 13:00, 14:00 - 17:00');
+    });
+
+    it('reads the working day in salon time', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ staff_id: 'staff-1', work_date: '2024-01-16', start_time: '00:00:00', end_time: '02:00:00' }],
+        error: null,
+      } as any);
+
+      // 23:30 UTC on the 15th is 00:30 on the 16th in the salon
+      const result = await service.validateStaffAvailability({
+        staffId: 'staff-1',
+        startTime: '2024-01-15T23:30:00Z',
+        endTime: '2024-01-16T00:30:00Z',
+      });
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_staff_working_ranges', expect.objectContaining({ p_from: '2024-01-16' }));
+      expect(result.isAvailable).toBe(true);
+    });
+
     it('detects inactive staff members', async () => {
-      const booking = {
+      mockSupabase.from.mockReturnValue(staffQuery(false));
+      mockSupabase.rpc.mockResolvedValue({
+        data: mondayRanges,
+        error: null,
+      } as any);
+
+      const result = await service.validateStaffAvailability({
         staffId: 'staff-1',
-        startTime: '2024-01-15T10:00:00Z',
-        endTime: '2024-01-15T11:00:00Z',
-      };
+        startTime: '2024-01-15T10:00:00+01:00',
+        endTime: '2024-01-15T11:00:00+01:00',
+      });
 
-      const mockStaff = {
-        id: 'staff-1',
-        name: 'Jean Dupont',
-        workingHours: {
-          monday: { start: '09:00', end: '17:00' },
-        },
-        isActive: false, // Staff member is inactive
-      };
+      expect(mockSupabase.from).toHaveBeenCalledWith('users');
+      expect(result.isAvailable).toBe(false);
+      expect(result.reason).toContain('not currently active');
+    });
 
-      mockSupabase.from.mockReturnValue({
+    it('detects days off, leave and holidays', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [], // No working ranges that day
+        error: null,
+      } as any);
+
+      const result = await service.validateStaffAvailability({
+        staffId: 'staff-1',
+        startTime: '2024-01-15T10:00:00+01:00',
+        endTime: '2024-01-15T11:00:00+01:00',
+      });
+
+      expect(result.isAvailable).toBe(false);
+      expect(result.reason).toContain('not working on 2024-01-15');
+    });
+  });
+
+  describe('validateSeries', () => {
+    it('reports the occurrences that are taken or outside working hours', async () => {
+      const bookingsQuery = {
         select: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
-            single: jest.fn().mockResolvedValue({
-              data: mockStaff,
-              error: null,
+            neq: jest.fn().mockReturnValue({
+              or: jest.fn().mockResolvedValue({
+                data: [{ id: 'booking-1', staff_id: 'staff-1', start_at: '2024-01-29T10:30:00+01:00', end_at: '2024-01-29T11:30:00+01:00', status: 'confirmed' }],
+                error: null,
+              }),
             }),
           }),
         }),
-      } as any);
-
-      const result = await service.validateStaffAvailability(booking);
-
-      expect(result.isAvailable).toBe(false);
-      expect(result.reason).toContain('not currently active');
+      };
+      mockSupabase.from.mockImplementation(((table: string) => (table === 'users' ? staffQuery(true) : bookingsQuery)) as any);
+      // Staff member works Mondays 09:00-17:00, except on leave on 2024-02-12
+      mockSupabase.rpc.mockImplementation(((_name: string, params: any) => Promise.resolve({
+        data: params.p_from === '2024-02-12' ? [] : [{ staff_id: 'staff-1', work_date: params.p_from, start_time: '09:00:00', end_time: '17:00:00' }],
+        error: null,
+      })) as any);
+
+      const occurrences = ['2024-01-15', '2024-01-29', '2024-02-12', '2024-02-26'].map((date, index) => ({
+        index,
+        startTime: new Date(`${date}T10:00:00+01:00`).toISOString(),
+        endTime: new Date(`${date}T11:00:00+01:00`).toISOString(),
+      }));
+
+      const result = await service.validateSeries({ staffId: 'staff-1', serviceId: 'service-1', clientId: 'client-1' }, occurrences);
+
+      expect(result.available.map(occurrence => occurrence.index)).toEqual([0, 3]);
+      expect(result.conflicts.map(conflict => conflict.occurrence.index)).toEqual([1, 2]);
+      expect(result.conflicts[0].reason).toContain('already booked');
+      expect(result.conflicts[1].reason).toContain('not working');
     });
   });
 
@@ -372,40 +437,155 @@ describe('BookingValidationService', () => {
         serviceId: 'service-1',
       };
 
-      const existingBookings = [
+      const busyTimes = [
         {
-          id: 'booking-1',
-          staffId: 'staff-1',
-          startTime: '2024-01-15T10:30:00Z',
-          endTime: '2024-01-15T11:30:00Z',
-          status: 'confirmed',
+          staff_id: 'staff-1',
+          start_at: '2024-01-15T10:30:00Z',
+          end_at: '2024-01-15T11:30:00Z',
         },
       ];
 
-      // Mock existing bookings query
-      mockSupabase.from.mockReturnValue({
-        select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockReturnValue({
-            gte: jest.fn().mockReturnValue({
-              lte: jest.fn().mockReturnValue({
-                order: jest.fn().mockResolvedValue({
-                  data: existingBookings,
-                  error: null,
-                }),
-              }),
-            }),
-          }),
-        }),
+      // Mock busy times of the staff member
+      mockSupabase.rpc.mockResolvedValue({
+        data: busyTimes,
+        error: null,
       } as any);
 
       const alternatives = await service.getAlternativeTimeSlots(conflictedBooking, {
         searchWindowHours: 4,
         maxSuggestions: 3,
+        now: new Date('2024-01-15T00:00:00Z'),
       });
 
       expect(alternatives).toHaveLength(3);
       expect(alternatives[0].startTime).not.toBe(conflictedBooking.startTime);
       expect(alternatives.every(alt => alt.staffId === conflictedBooking.staffId)).toBe(true);
     });
+
+    it('keeps the buffer free and closest slots first', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ staff_id: 'staff-1', start_at: '2024-01-15T11:30:00Z', end_at: '2024-01-15T12:00:00Z' }],
+        error: null,
+      } as any);
+
+      const alternatives = await service.getAlternativeTimeSlots(
+        { staffId: 'staff-1', startTime: '2024-01-15T10:00:00Z', endTime: '2024-01-15T11:00:00Z', serviceId: 'service-1', clientId: 'client-1' },
+        { searchWindowHours: 3, maxSuggestions: 2, bufferMinutes: 30, now: new Date('2024-01-15T09:15:00Z') }
+      );
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_staff_busy_times', expect.objectContaining({ p_staff_ids: ['staff-1'] }));
+      // 10:30 would run into the 11:30 booking once its buffer is added; 07:00-09:00 are past
+      expect(alternatives.map(alt => alt.startTime)).toEqual(['2024-01-15T09:30:00.000Z', '2024-01-15T12:00:00.000Z']);
+    });
+  });
+
+  describe('computeAvailableSlots', () => {
+    const staff = [
+      { staffId: 'amina', name: 'Amina', workingHours: [{ weekday: 1, start: '09:00', end: '12:00' }] },
+      { staffId: 'youssef', name: 'Youssef', workingHours: [{ weekday: 1, start: '10:00', end: '12:00' }] },
+    ];
+    const at = (time: string) => new Date(`2024-01-15T${time}:00+01:00`).toISOString(); // a Monday, salon time (UTC+1 in January)
+
+    it('offers slots inside working hours and clear of bookings and buffers', () => {
+      const slots = service.computeAvailableSlots(
+        staff,
+        [{ staffId: 'amina', startTime: at('10:00'), endTime: at('10:45') }],
+        { date: '2024-01-15', durationMinutes: 45, bufferMinutes: 15, now: new Date('2024-01-01T00:00:00+01:00') }
+      );
+
+      // Amina's 09:30 would run into her 10:00 booking once the buffer is added
+      expect(slots.map(slot => [slot.time, slot.staffIds])).toEqual([
+        ['09:00', ['amina']],
+        ['10:00', ['youssef']],
+        ['10:30', ['youssef']],
+        ['11:00', ['youssef', 'amina']],
+      ]);
+      expect(slots[0].startTime).toBe(at('09:00'));
+      expect(slots[0].endTime).toBe(at('09:45'));
+    });
+
+    it('places the slots in salon time', () => {
+      const slots = service.computeAvailableSlots([staff[0]], [], { date: '2024-01-15', durationMinutes: 60, now: new Date('2024-01-01T00:00:00Z') });
+
+      expect(slots[0].time).toBe('09:00');
+      expect(slots[0].startTime).toBe('2024-01-15T08:00:00.000Z');
+    });
+
+    it('offers nothing on days off or before the minimum advance', () => {
+      expect(service.computeAvailableSlots(staff, [], { date: '2024-01-14', durationMinutes: 30, now: new Date('2024-01-01T00:00:00+01:00') })).toEqual([]);
+
+      const slots = service.computeAvailableSlots(staff, [], {
+        date: '2024-01-15',
+        durationMinutes: 60,
+        minimumAdvanceMinutes: 60,
+        now: new Date('2024-01-15T09:45:00+01:00'),
+      });
+      expect(slots.map(slot => slot.time)).toEqual(['11:00']);
+    });
+
+    it('puts the least busy staff first', () => {
+      const slots = service.computeAvailableSlots(
+        staff,
+        [{ staffId: 'amina', startTime: at('09:00'), endTime: at('09:30') }],
+        { date: '2024-01-15', durationMinutes: 30, now: new Date('2024-01-01T00:00:00+01:00') }
+      );
+
+      expect(slots.find(slot => slot.time === '10:00')?.staffIds).toEqual(['youssef', 'amina']);
+    });
+
+    it('treats the time of a booking being moved as free', () => {
+      const busy = [{ staffId: 'amina', startTime: at('09:00'), endTime: at('10:00') }];
+      const options = { date: '2024-01-15', durationMinutes: 60, now: new Date('2024-01-01T00:00:00+01:00') };
+
+      expect(service.computeAvailableSlots([staff[0]], busy, options).map(slot => slot.time)).toEqual(['10:00', '10:30', '11:00']);
+      expect(service.computeAvailableSlots([staff[0]], busy, {
+        ...options,
+        ignoreBooking: { staffId: 'amina', startTime: at('09:00') },
+      }).map(slot => slot.time)).toEqual(['09:00', '09:30', '10:00', '10:30', '11:00']);
+    });
+  });
+
+  describe('computeChainSlots', () => {
+    const staff = [
+      { staffId: 'amina', name: 'Amina', workingHours: [{ weekday: 1, start: '09:00', end: '12:00' }] },
+      { staffId: 'youssef', name: 'Youssef', workingHours: [{ weekday: 1, start: '10:00', end: '12:00' }] },
+    ];
+    const staffByService = { colour: ['amina'], blowDry: ['youssef', 'amina'] };
+    const busy = [
+      { staffId: 'youssef', startTime: new Date('2024-01-15T10:30:00+01:00').toISOString(), endTime: new Date('2024-01-15T11:00:00+01:00').toISOString() },
+      { staffId: 'amina', startTime: new Date('2024-01-15T11:30:00+01:00').toISOString(), endTime: new Date('2024-01-15T12:00:00+01:00').toISOString() },
+    ];
+    const options = { date: '2024-01-15', now: new Date('2024-01-01T00:00:00+01:00') };
+
+    it('chains the services back to back with a free staff member for each', () => {
+      const slots = service.computeChainSlots(
+        [{ serviceId: 'colour', durationMinutes: 60 }, { serviceId: 'blowDry', durationMinutes: 30 }],
+        staffByService,
+        staff,
+        busy,
+        options
+      );
+
+      expect(slots.map(slot => [slot.time, slot.segments.map(segment => segment.staffId)])).toEqual([
+        ['09:00', ['amina', 'youssef']],
+        ['09:30', ['amina', 'amina']],
+        ['10:00', ['amina', 'youssef']],
+        ['10:30', ['amina', 'youssef']],
+      ]);
+      expect(slots[0].segments[1].startTime).toBe(slots[0].segments[0].endTime);
+      expect(slots[0].endTime).toBe(new Date('2024-01-15T10:30:00+01:00').toISOString());
+    });
+
+    it('keeps a preferred staff member for their service', () => {
+      const slots = service.computeChainSlots(
+        [{ serviceId: 'colour', durationMinutes: 60 }, { serviceId: 'blowDry', durationMinutes: 30, staffId: 'youssef' }],
+        staffByService,
+        staff,
+        busy,
+        options
+      );
+
+      expect(slots.map(slot => slot.time)).toEqual(['09:00', '10:00', '10:30']);
+    });
   });
-});
\ No newline at end of file
+});
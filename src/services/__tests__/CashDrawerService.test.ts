@@ -0,0 +1,88 @@
+import { CashDrawerService } from '../CashDrawerService';
+import { CashDrawerMovement, CashDrawerSession, Sale } from '@/types';
+
+const makeSale = (overrides: Partial<Sale>): Sale => ({
+  id: 'sale-1',
+  clientId: 'client-1',
+  serviceId: '',
+  staffId: 'staff-1',
+  products: [],
+  totalAmount: 100,
+  paymentMethod: 'cash',
+  status: 'completed',
+  createdAt: '2026-10-19T10:00:00Z',
+  ...overrides,
+});
+
+const makeMovement = (movementType: CashDrawerMovement['movementType'], amount: number): CashDrawerMovement => ({
+  id: `${movementType}-${amount}`,
+  sessionId: 'session-1',
+  movementType,
+  amount,
+  reason: 'test',
+  createdAt: '2026-10-19T12:00:00Z',
+});
+
+const session: CashDrawerSession = {
+  id: 'session-1',
+  staffId: 'staff-1',
+  staffName: 'Sara',
+  status: 'open',
+  openingFloat: 200,
+  openedAt: '2026-10-19T09:00:00Z',
+};
+
+describe('CashDrawerService', () => {
+  const sales = [
+    makeSale({ id: 'sale-1', totalAmount: 150, payments: [{ method: 'cash', amount: 150, tendered: 200, changeGiven: 50 }] }),
+    makeSale({
+      id: 'sale-2',
+      totalAmount: 300,
+      paymentMethod: 'mixed',
+      tipAmount: 20,
+      payments: [
+        { method: 'card', amount: 220 },
+        { method: 'cash', amount: 100 },
+      ],
+    }),
+    makeSale({ id: 'sale-3', totalAmount: 80, paymentMethod: 'transfer' }),
+  ];
+  const movements = [makeMovement('cash_in', 50), makeMovement('cash_out', 30)];
+
+  it('expects the float plus cash taken and cash movements', () => {
+    expect(CashDrawerService.calculateExpectedCash(200, sales, movements)).toBe(470);
+  });
+
+  it('counts sales without tenders in full under their payment method', () => {
+    expect(CashDrawerService.calculateExpectedCash(0, [makeSale({ totalAmount: 60 })], [])).toBe(60);
+  });
+
+  it('builds the Z-report totals', () => {
+    const report = CashDrawerService.buildZReport(session, sales, movements);
+
+    expect(report.salesCount).toBe(3);
+    expect(report.netSales).toBe(530);
+    expect(report.tipTotal).toBe(20);
+    expect(report.totalsByMethod).toEqual({ cash: 250, card: 220, transfer: 80 });
+    expect(report.cashIn).toBe(50);
+    expect(report.cashOut).toBe(30);
+    expect(report.expectedCash).toBe(470);
+  });
+
+  it('uses the figures recorded when the session was closed', () => {
+    const closed: CashDrawerSession = {
+      ...session,
+      status: 'closed',
+      closedAt: '2026-10-19T20:00:00Z',
+      expectedCash: 470,
+      countedCash: 460,
+      discrepancy: -10,
+    };
+
+    const text = CashDrawerService.formatZReport(CashDrawerService.buildZReport(closed, sales, movements));
+
+    expect(text).toContain('Z-REPORT');
+    expect(text).toContain('Counted cash');
+    expect(text).toContain('-10.00 DH');
+  });
+});
@@ -0,0 +1,128 @@
+import { DiscountService, LOYALTY_POINT_VALUE } from '../DiscountService';
+import { PromoCode } from '@/types';
+
+const buildPromo = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+  id: 'promo-1',
+  code: 'SPRING10',
+  discountType: 'percentage',
+  discountValue: 10,
+  scope: 'cart',
+  serviceIds: [],
+  usageCount: 0,
+  isActive: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('DiscountService', () => {
+  describe('getDiscountAmount', () => {
+    it('computes percentage discounts', () => {
+      expect(DiscountService.getDiscountAmount(200, { discountType: 'percentage', value: 15 })).toBe(30);
+    });
+
+    it('never discounts more than the base price', () => {
+      expect(DiscountService.getDiscountAmount(50, { discountType: 'fixed', value: 80 })).toBe(50);
+      expect(DiscountService.getDiscountAmount(50, { discountType: 'percentage', value: 150 })).toBe(50);
+    });
+  });
+
+  describe('validatePromoCode', () => {
+    const now = new Date('2024-06-15T12:00:00Z');
+
+    it('accepts a valid code', () => {
+      const promo = buildPromo({ validFrom: '2024-06-01T00:00:00Z', validUntil: '2024-06-30T23:59:59Z' });
+      expect(DiscountService.validatePromoCode(promo, 100, now)).toBeNull();
+    });
+
+    it('rejects expired and not yet valid codes', () => {
+      expect(DiscountService.validatePromoCode(buildPromo({ validUntil: '2024-06-01T00:00:00Z' }), 100, now))
+        .toContain('expired');
+      expect(DiscountService.validatePromoCode(buildPromo({ validFrom: '2024-07-01T00:00:00Z' }), 100, now))
+        .toContain('not valid yet');
+    });
+
+    it('rejects codes that reached their usage limit', () => {
+      const promo = buildPromo({ usageLimit: 5, usageCount: 5 });
+      expect(DiscountService.validatePromoCode(promo, 100, now)).toContain('usage limit');
+    });
+
+    it('enforces the minimum subtotal', () => {
+      const promo = buildPromo({ minSubtotal: 300 });
+      expect(DiscountService.validatePromoCode(promo, 200, now)).toContain('minimum purchase');
+    });
+  });
+
+  describe('calculate', () => {
+    it('applies manual line discounts before cart discounts', () => {
+      const result = DiscountService.calculate(
+        [
+          { serviceId: 'service-1', unitPrice: 100, quantity: 1, discount: { discountType: 'fixed', value: 20 } },
+          { serviceId: 'service-2', unitPrice: 120, quantity: 1 },
+        ],
+        { cartDiscount: { discountType: 'percentage', value: 10 } }
+      );
+
+      expect(result.subtotal).toBe(220);
+      expect(result.lines[0].netUnitPrice).toBe(72);
+      expect(result.lines[1].netUnitPrice).toBe(108);
+      expect(result.total).toBe(180);
+      expect(result.discountTotal).toBe(40);
+      expect(result.manualDiscountTotal).toBe(40);
+    });
+
+    it('limits service promo codes to the listed services', () => {
+      const promo = buildPromo({ scope: 'service', serviceIds: ['service-2'], discountType: 'fixed', discountValue: 15 });
+      const result = DiscountService.calculate(
+        [
+          { serviceId: 'service-1', unitPrice: 100, quantity: 1 },
+          { serviceId: 'service-2', unitPrice: 60, quantity: 2 },
+        ],
+        { promoCode: promo }
+      );
+
+      expect(result.lines[0].lineDiscount).toBe(0);
+      expect(result.lines[1].lineDiscount).toBe(30);
+      expect(result.discounts).toEqual([
+        expect.objectContaining({ source: 'promo', scope: 'service', amount: 30, code: 'SPRING10' }),
+      ]);
+    });
+
+    it('only charges the loyalty points needed to cover the cart', () => {
+      const result = DiscountService.calculate(
+        [{ serviceId: 'service-1', unitPrice: 10, quantity: 1 }],
+        { loyaltyPoints: 100 }
+      );
+
+      expect(result.total).toBe(0);
+      expect(result.discounts[0]).toEqual(
+        expect.objectContaining({ source: 'loyalty', amount: 10, loyaltyPoints: 10 / LOYALTY_POINT_VALUE })
+      );
+    });
+
+    it('keeps line totals consistent with the sale total', () => {
+      const result = DiscountService.calculate(
+        [
+          { serviceId: 'service-1', unitPrice: 33.33, quantity: 3 },
+          { serviceId: 'service-2', unitPrice: 17.5, quantity: 1 },
+        ],
+        { cartDiscount: { discountType: 'fixed', value: 10 } }
+      );
+
+      const lineSum = result.lines.reduce((sum, line) => sum + line.lineTotal, 0);
+      expect(Math.round(lineSum * 100) / 100).toBe(result.total);
+      expect(result.discountTotal).toBeCloseTo(result.discounts[0].amount, 2);
+    });
+  });
+
+  describe('exceedsManualDiscountLimit', () => {
+    it('limits staff manual discounts but not admins', () => {
+      const result = DiscountService.calculate(
+        [{ serviceId: 'service-1', unitPrice: 100, quantity: 1, discount: { discountType: 'percentage', value: 50 } }]
+      );
+
+      expect(DiscountService.exceedsManualDiscountLimit(result, 'staff')).toBe(true);
+      expect(DiscountService.exceedsManualDiscountLimit(result, 'admin')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { OfflineSyncService, QueuedSale } from '../OfflineSyncService';
+import { CompleteSaleRequest, Product } from '@/types';
+
+const makeSale = (requestKey: string, overrides: Partial<CompleteSaleRequest> = {}): CompleteSaleRequest => ({
+  requestKey,
+  clientId: 'client-1',
+  services: [],
+  retailItems: [{ productId: 'shampoo', quantity: 1 }],
+  staffId: 'staff-1',
+  paymentMethod: 'cash',
+  totalAmount: 120,
+  ...overrides,
+});
+
+const queued = (requestKey: string, queuedAt: string, overrides: Partial<QueuedSale> = {}): QueuedSale => ({
+  ...OfflineSyncService.createQueuedSale(makeSale(requestKey), 'Sara', queuedAt),
+  ...overrides,
+});
+
+const makeProduct = (overrides: Partial<Product>): Product => ({
+  id: 'serum',
+  brand: 'Kerastase',
+  name: 'Serum',
+  category: 'Care',
+  volume: 100,
+  unit: 'ml',
+  sealed_bottles: 2,
+  open_bottle_remaining_ml: 30,
+  bottle_capacity_ml: 100,
+  minQuantity: 1,
+  price: 120,
+  cost: 70,
+  isActive: true,
+  createdAt: '2026-10-01T10:00:00',
+  updatedAt: '2026-10-01T10:00:00',
+  ...overrides,
+});
+
+describe('OfflineSyncService', () => {
+  it('queues a sale at its checkout time', () => {
+    const entry = OfflineSyncService.createQueuedSale(makeSale('a', { soldAt: '2026-10-19T09:58:00Z' }), 'Sara');
+
+    expect(entry.queuedAt).toBe('2026-10-19T09:58:00Z');
+    expect(entry.sale.soldAt).toBe('2026-10-19T09:58:00Z');
+  });
+
+  it('submits queued sales in the order they were made', async () => {
+    const submitted: string[] = [];
+    const result = await OfflineSyncService.syncQueue(
+      [queued('b', '2026-10-19T10:05:00Z'), queued('a', '2026-10-19T10:00:00Z')],
+      async sale => {
+        submitted.push(sale.requestKey);
+        return { sale };
+      }
+    );
+
+    expect(submitted).toEqual(['a', 'b']);
+    expect(result.synced.map(entry => entry.requestKey)).toEqual(['a', 'b']);
+    expect(result.remaining).toEqual([]);
+  });
+
+  it('keeps stock conflicts and syncs the rest of the queue', async () => {
+    const result = await OfflineSyncService.syncQueue(
+      [queued('a', '2026-10-19T10:00:00Z'), queued('b', '2026-10-19T10:05:00Z')],
+      async sale => {
+        if (sale.requestKey === 'a') {
+          throw new Error('Insufficient stock for Shampoo. Available: 0 sealed, Required: 1');
+        }
+        return { sale };
+      }
+    );
+
+    expect(result.synced.map(entry => entry.requestKey)).toEqual(['b']);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.remaining).toEqual([
+      expect.objectContaining({ requestKey: 'a', status: 'conflict', attempts: 1, lastError: expect.stringContaining('Shampoo') }),
+    ]);
+    expect(OfflineSyncService.getPendingCount(result.remaining)).toBe(0);
+    expect(OfflineSyncService.getRejected(result.remaining)).toHaveLength(1);
+  });
+
+  it('stops at the first network error and leaves later sales queued', async () => {
+    const submit = jest.fn().mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const result = await OfflineSyncService.syncQueue(
+      [
+        queued('a', '2026-10-19T10:00:00Z'),
+        queued('b', '2026-10-19T10:05:00Z'),
+        queued('c', '2026-10-19T09:00:00Z', { status: 'conflict' }),
+        queued('d', '2026-10-19T09:30:00Z', { status: 'failed' }),
+      ],
+      submit
+    );
+
+    expect(submit).toHaveBeenCalledTimes(1);
+    expect(result.interrupted).toBe(true);
+    expect(result.remaining.map(entry => [entry.requestKey, entry.status])).toEqual([
+      ['c', 'conflict'],
+      ['d', 'failed'],
+      ['a', 'pending'],
+      ['b', 'pending'],
+    ]);
+  });
+
+  it('classifies server errors', () => {
+    expect(OfflineSyncService.classifyError(new Error('Insufficient stock for Serum. Available: 20ml, Required: 30ml'))).toBe('conflict');
+    expect(OfflineSyncService.classifyError(new TypeError('NetworkError when attempting to fetch resource.'))).toBe('offline');
+    expect(OfflineSyncService.classifyError(new Error('Cash drawer session is closed'))).toBe('failed');
+  });
+
+  it('takes service products from the open bottle first and retail from sealed stock', () => {
+    const [serum, shampoo] = OfflineSyncService.applySaleToStock(
+      [makeProduct({}), makeProduct({ id: 'shampoo', name: 'Shampoo', sealed_bottles: 3 })],
+      makeSale('a', {
+        services: [{
+          serviceId: 'brushing',
+          originalPrice: 150,
+          adjustedPrice: 150,
+          quantity: 1,
+          products: [{ productId: 'serum', quantity: 50, unit: 'ml' }],
+        }],
+        retailItems: [{ productId: 'shampoo', quantity: 2 }],
+      })
+    );
+
+    expect(serum.sealed_bottles).toBe(1);
+    expect(serum.open_bottle_remaining_ml).toBe(80);
+    expect(serum.total_ml_available).toBe(180);
+    expect(shampoo.sealed_bottles).toBe(1);
+    expect(shampoo.open_bottle_remaining_ml).toBe(30);
+  });
+});
@@ -0,0 +1,85 @@
+import { PaymentService } from '../PaymentService';
+
+describe('PaymentService', () => {
+  describe('resolveTenders', () => {
+    it('accepts a single exact card payment', () => {
+      const result = PaymentService.resolveTenders([{ method: 'card', amount: 250 }], 250);
+
+      expect(result.error).toBeUndefined();
+      expect(result.payments).toEqual([{ method: 'card', amount: 250, reference: undefined }]);
+      expect(result.changeDue).toBe(0);
+    });
+
+    it('splits a sale between card and cash and returns change on the cash part', () => {
+      const result = PaymentService.resolveTenders(
+        [
+          { method: 'card', amount: 150 },
+          { method: 'cash', amount: 200 },
+        ],
+        300
+      );
+
+      expect(result.error).toBeUndefined();
+      expect(result.changeDue).toBe(50);
+      expect(result.payments).toEqual([
+        expect.objectContaining({ method: 'card', amount: 150 }),
+        expect.objectContaining({ method: 'cash', amount: 150, tendered: 200, changeGiven: 50 }),
+      ]);
+    });
+
+    it('reports the remaining balance when tenders do not cover the total', () => {
+      const result = PaymentService.resolveTenders([{ method: 'cash', amount: 100 }], 180);
+
+      expect(result.remaining).toBe(80);
+      expect(result.error).toContain('still due');
+      expect(result.payments).toHaveLength(0);
+    });
+
+    it('rejects card and transfer payments above the total', () => {
+      const result = PaymentService.resolveTenders(
+        [
+          { method: 'card', amount: 100 },
+          { method: 'transfer', amount: 100 },
+        ],
+        150
+      );
+
+      expect(result.error).toContain('cannot exceed');
+    });
+
+    it('ignores empty tenders', () => {
+      const result = PaymentService.resolveTenders(
+        [
+          { method: 'cash', amount: 0 },
+          { method: 'transfer', amount: 90 },
+        ],
+        90
+      );
+
+      expect(result.payments).toHaveLength(1);
+      expect(result.payments[0].method).toBe('transfer');
+    });
+  });
+
+  describe('getSalePaymentMethod', () => {
+    it('returns the single tender type or mixed', () => {
+      expect(PaymentService.getSalePaymentMethod([{ method: 'card', amount: 10 }])).toBe('card');
+      expect(PaymentService.getSalePaymentMethod([
+        { method: 'cash', amount: 10 },
+        { method: 'card', amount: 10 },
+      ])).toBe('mixed');
+    });
+  });
+
+  describe('getTotalsByMethod', () => {
+    it('sums applied amounts per tender', () => {
+      const totals = PaymentService.getTotalsByMethod([
+        { method: 'cash', amount: 40, tendered: 50, changeGiven: 10 },
+        { method: 'card', amount: 60 },
+        { method: 'cash', amount: 20 },
+      ]);
+
+      expect(totals).toEqual({ cash: 60, card: 60, transfer: 0 });
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { ProductLotService } from '../ProductLotService';
+import { ProductLot } from '@/types';
+
+const now = new Date(2026, 9, 19, 12, 0);
+
+const makeLot = (overrides: Partial<ProductLot>): ProductLot => ({
+  id: 'lot-1',
+  productId: 'developer',
+  receivedAt: '2026-06-01T09:00:00Z',
+  capacityMl: 1000,
+  remainingMl: 1000,
+  ...overrides,
+});
+
+describe('ProductLotService', () => {
+  it('uses a bottle by its expiry or the end of its period after opening, whichever is first', () => {
+    expect(ProductLotService.getUseBy({ expiresAt: '2027-12-31', openedAt: '2026-09-10T10:00:00Z' }, 6)).toBe('2027-03-10');
+    expect(ProductLotService.getUseBy({ expiresAt: '2026-12-31', openedAt: '2026-09-10T10:00:00Z' }, 6)).toBe('2026-12-31');
+    expect(ProductLotService.getUseBy({ openedAt: '2026-09-10T10:00:00Z' })).toBeUndefined();
+  });
+
+  it('consumes open bottles first, soonest to expire first, then opens sealed bottles by expiry', () => {
+    const lots = [
+      makeLot({ id: 'sealed-late', expiresAt: '2028-01-31' }),
+      makeLot({ id: 'sealed-early', expiresAt: '2027-03-31' }),
+      makeLot({ id: 'open-late', openedAt: '2026-10-01T09:00:00Z', remainingMl: 300, expiresAt: '2027-06-30' }),
+      makeLot({ id: 'open-early', openedAt: '2026-10-10T09:00:00Z', remainingMl: 200, expiresAt: '2027-01-31' }),
+      makeLot({ id: 'empty', openedAt: '2026-08-01T09:00:00Z', remainingMl: 0 }),
+    ];
+
+    const plan = ProductLotService.planConsumption(lots, 1100, 12, now);
+
+    expect(plan).toEqual({
+      changes: [
+        { lotId: 'open-early', remainingMl: 0 },
+        { lotId: 'open-late', remainingMl: 0 },
+        { lotId: 'sealed-early', remainingMl: 400, openedAt: now.toISOString() },
+      ],
+      bottlesOpened: 1,
+      shortMl: 0,
+    });
+    expect(ProductLotService.planConsumption(lots, 3000, 12, now).shortMl).toBe(500);
+  });
+
+  it('alerts on bottles expired or past their period after opening, and those due soon', () => {
+    const alerts = ProductLotService.getExpiryAlerts([
+      makeLot({ id: 'expired', expiresAt: '2026-10-01' }),
+      makeLot({ id: 'pao', openedAt: '2026-04-25T09:00:00Z', remainingMl: 400 }),
+      makeLot({ id: 'later', expiresAt: '2027-06-30' }),
+      makeLot({ id: 'used-up', expiresAt: '2026-09-01', remainingMl: 0 }),
+    ], [{ id: 'developer', name: 'Developer 6%', paoMonths: 6 }], now);
+
+    expect(alerts).toEqual([
+      expect.objectContaining({ lotId: 'expired', cause: 'expiry', expired: true, daysLeft: -18, useBy: '2026-10-01' }),
+      expect.objectContaining({ lotId: 'pao', cause: 'pao', expired: false, daysLeft: 6, useBy: '2026-10-25', productName: 'Developer 6%' }),
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { PurchaseOrderService } from '../PurchaseOrderService';
+import { PurchaseOrder, PurchaseOrderLine } from '@/types';
+
+const makeLine = (overrides: Partial<PurchaseOrderLine>): PurchaseOrderLine => ({
+  id: 'line-1',
+  productId: 'shampoo',
+  productName: 'Shampoo',
+  quantityOrdered: 6,
+  quantityReceived: 0,
+  unitCost: 80,
+  receipts: [],
+  ...overrides,
+});
+
+const makeOrder = (overrides: Partial<PurchaseOrder>): PurchaseOrder => ({
+  id: 'order-1',
+  orderNumber: 'BC-2026-0001',
+  supplierId: 'supplier-1',
+  status: 'sent',
+  lines: [makeLine({})],
+  createdAt: '2026-10-01T09:00:00Z',
+  ...overrides,
+});
+
+describe('PurchaseOrderService', () => {
+  it('totals the order at agreed costs and the deliveries at invoiced costs', () => {
+    const order = makeOrder({
+      lines: [
+        makeLine({
+          quantityReceived: 4,
+          receipts: [
+            { id: 'r1', lineId: 'line-1', quantity: 2, unitCost: 80, receivedAt: '2026-10-05T10:00:00Z' },
+            { id: 'r2', lineId: 'line-1', quantity: 2, unitCost: 85.5, receivedAt: '2026-10-08T10:00:00Z' },
+          ],
+        }),
+        makeLine({ id: 'line-2', productId: 'mask', quantityOrdered: 3, unitCost: 120.25 }),
+      ],
+    });
+
+    expect(PurchaseOrderService.getOrderTotal(order)).toBe(840.75);
+    expect(PurchaseOrderService.getReceivedCost(order)).toBe(331);
+  });
+
+  it('expects delivery after the supplier lead time', () => {
+    expect(PurchaseOrderService.getExpectedDate(new Date(2026, 9, 28, 15, 0), 5)).toBe('2026-11-02');
+  });
+
+  it('rejects receiving more than is outstanding or an order not sent', () => {
+    const order = makeOrder({ lines: [makeLine({ quantityReceived: 4 })] });
+
+    expect(PurchaseOrderService.validateReceipt(order, [{ lineId: 'line-1', quantity: 2, unitCost: 82 }])).toEqual([]);
+    expect(PurchaseOrderService.validateReceipt(order, [{ lineId: 'line-1', quantity: 3, unitCost: 82 }]))
+      .toContain('Only 2 of Shampoo left to receive');
+    expect(PurchaseOrderService.validateReceipt(order, [{ lineId: 'line-1', quantity: 0, unitCost: 82 }]))
+      .toContain('Enter the quantity received on at least one line');
+    expect(PurchaseOrderService.validateReceipt(makeOrder({ status: 'draft' }), [{ lineId: 'line-1', quantity: 1, unitCost: 80 }]))
+      .toContain('Purchase order BC-2026-0001 has not been sent or is already received');
+  });
+
+  it('counts what is still outstanding on sent orders as on order', () => {
+    const onOrder = PurchaseOrderService.getOnOrder([
+      makeOrder({ expectedAt: '2026-10-20', lines: [makeLine({ quantityReceived: 2 })] }),
+      makeOrder({
+        id: 'order-2',
+        orderNumber: 'BC-2026-0002',
+        status: 'partially_received',
+        expectedAt: '2026-10-15',
+        lines: [makeLine({ quantityOrdered: 3, quantityReceived: 1 }), makeLine({ id: 'line-2', productId: 'mask', quantityReceived: 6 })],
+      }),
+      makeOrder({ id: 'order-3', orderNumber: 'BC-2026-0003', status: 'draft' }),
+      makeOrder({ id: 'order-4', orderNumber: 'BC-2026-0004', status: 'received' }),
+    ]);
+
+    expect(onOrder).toEqual({
+      shampoo: { quantity: 6, expectedAt: '2026-10-15', orderNumbers: ['BC-2026-0001', 'BC-2026-0002'] },
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { DEFAULT_RECEIPT_TEMPLATE, ReceiptData, ReceiptService } from '../ReceiptService';
+import { AppSettings, ReceiptTemplate } from '@/types';
+
+const settings: AppSettings = {
+  salonName: 'Antilope Centre',
+  salonNameAr: 'مركز أنتيلوب',
+  salonNameFr: 'Centre Antilope',
+  address: '12 Rue Tarik, Casablanca',
+  phone: '0522 00 00 00',
+  email: '',
+  currency: 'MAD',
+  timezone: 'Africa/Casablanca',
+  workingHours: {},
+};
+
+const receipt: ReceiptData = {
+  saleId: 'sale-1',
+  receiptNumber: 42,
+  date: '2026-10-19T10:00:00Z',
+  clientName: 'Sara',
+  clientPhone: '0600000000',
+  staffName: 'Amina',
+  services: [
+    { name: 'Brushing', originalPrice: 150, adjustedPrice: 135, discountAmount: 15 },
+    { name: 'Manicure', originalPrice: 100, adjustedPrice: 90, discountAmount: 10 },
+  ],
+  products: [{ productName: 'Serum', quantityUsed: 5, unit: 'ml' }],
+  subtotalAmount: 250,
+  discountAmount: 25,
+  discounts: [{ source: 'promo', scope: 'cart', discountType: 'percentage', value: 10, amount: 25, code: 'WELCOME10' }],
+  totalAmount: 225,
+  paymentMethod: 'mixed',
+  payments: [
+    { method: 'card', amount: 100, reference: 'A123' },
+    { method: 'cash', amount: 145, tendered: 200, changeGiven: 55 },
+  ],
+  tipAmount: 20,
+};
+
+const template = (overrides: Partial<ReceiptTemplate> = {}): ReceiptTemplate => ({
+  ...DEFAULT_RECEIPT_TEMPLATE,
+  ...overrides,
+});
+
+describe('ReceiptService', () => {
+  it('renders the salon header, lines, discounts, tenders and receipt number', () => {
+    const text = ReceiptService.renderText(receipt, template({ language: 'en' }), settings);
+
+    expect(text).toContain('ANTILOPE CENTRE');
+    expect(text).toContain('12 Rue Tarik, Casablanca');
+    expect(text).toContain('Receipt No. 000042');
+    expect(text).toMatch(/Brushing\s+150\.00 DH/);
+    expect(text).toMatch(/Promo WELCOME10\s+-25\.00 DH/);
+    expect(text).toMatch(/TOTAL\s+225\.00 DH/);
+    expect(text).toMatch(/Amount paid\s+245\.00 DH/);
+    expect(text).toMatch(/Card \(A123\)\s+100\.00 DH/);
+    expect(text).toMatch(/Change\s+55\.00 DH/);
+    expect(text).toContain('Thank you for your visit!');
+  });
+
+  it('keeps every line within the thermal paper width', () => {
+    const text = ReceiptService.renderText(receipt, template({ format: 'thermal58', language: 'fr' }), settings);
+
+    text.split('\n').forEach(line => expect(line.length).toBeLessThanOrEqual(32));
+    expect(text).toContain('CENTRE ANTILOPE');
+    expect(text).toContain('Reçu N° 000042');
+  });
+
+  it('prints tax lines and template options', () => {
+    const text = ReceiptService.renderText(
+      { ...receipt, invoiceNumber: 'FA-2026-000007', taxLines: [{ rate: 20, inclusive: true, taxableAmount: 187.5, taxAmount: 37.5 }] },
+      template({ language: 'fr', showClientPhone: true, showProductsUsed: true, showStaff: false, footerMessage: 'À bientôt' }),
+      settings
+    );
+
+    expect(text).toContain('Facture N° FA-2026-000007');
+    expect(text).toMatch(/TVA 20% \(incl\.\)\s+37\.50 DH/);
+    expect(text).toContain('Tél: 0600000000');
+    expect(text).toContain('Serum (5 ml)');
+    expect(text).not.toContain('Servi par');
+    expect(text).toContain('À bientôt');
+    expect(text).not.toContain('Merci pour votre visite');
+  });
+
+  it('prints retail products sold without a service', () => {
+    const text = ReceiptService.renderText(
+      {
+        ...receipt,
+        services: [],
+        products: [],
+        discounts: [],
+        retailItems: [{ productId: 'p1', productName: 'Shampoo', quantity: 2, unitPrice: 120, unitCost: 70 }],
+        totalAmount: 240,
+      },
+      template({ language: 'en' }),
+      settings
+    );
+
+    expect(text).not.toContain('SERVICES');
+    expect(text).toContain('PRODUCTS');
+    expect(text).toMatch(/2 x Shampoo\s+240\.00 DH/);
+  });
+
+  it('lays out Arabic receipts right to left', () => {
+    const text = ReceiptService.renderText(receipt, template({ language: 'ar' }), settings);
+    const html = ReceiptService.renderHtml(receipt, template({ language: 'ar', format: 'a4' }), settings);
+
+    text.split('\n').forEach(line => expect(line.startsWith('\u200F')).toBe(true));
+    expect(text).toContain('مركز أنتيلوب');
+    expect(html).toContain('<html lang="ar" dir="rtl">');
+    expect(html).toContain('@page { size: A4');
+    expect(html).toContain('<bdi dir="ltr">225.00 DH</bdi>');
+  });
+
+  it('sizes the HTML page for thermal printers and escapes content', () => {
+    const html = ReceiptService.renderHtml(
+      { ...receipt, clientName: '<Sara & co>' },
+      template({ format: 'thermal58' }),
+      settings
+    );
+
+    expect(html).toContain('@page { size: 58mm auto');
+    expect(html).toContain('&lt;Sara &amp; co&gt;');
+  });
+
+  it('falls back to the sale payment method when no tenders were recorded', () => {
+    const text = ReceiptService.renderText(
+      { ...receipt, paymentMethod: 'cash', payments: [], tipAmount: 0, discounts: [] },
+      template({ language: 'en' }),
+      settings
+    );
+
+    expect(text).toMatch(/Cash\s+225\.00 DH/);
+    expect(text).not.toContain('Subtotal');
+  });
+});
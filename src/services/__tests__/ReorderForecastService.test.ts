@@ -0,0 +1,99 @@
+import { ReorderForecastService, ForecastProduct } from '../ReorderForecastService';
+import { Supplier } from '@/types';
+
+const now = new Date(2026, 9, 19, 12, 0);
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+const makeProduct = (overrides: Partial<ForecastProduct>): ForecastProduct => ({
+  id: 'shampoo',
+  name: 'Shampoo',
+  brand: 'Kérastase',
+  sealed_bottles: 2,
+  open_bottle_remaining_ml: 500,
+  bottle_capacity_ml: 1000,
+  minQuantity: 1,
+  cost: 90,
+  ...overrides,
+});
+
+const makeSupplier = (id: string, leadTimeDays: number, unitCost: number): Supplier => ({
+  id,
+  name: `Supplier ${id}`,
+  leadTimeDays,
+  isActive: true,
+  catalogue: [{ supplierId: id, productId: 'shampoo', unitCost }],
+  createdAt: '2026-01-01T00:00:00Z',
+});
+
+const services = [{ id: 'colour', requiredProducts: [{ productId: 'mask', requiredMl: 150 }, { productId: 'serum', requiredMl: 20, isOptional: true }] }];
+
+const options = { historyDays: 30, coverDays: 14, defaultLeadTimeDays: 7, now };
+
+describe('ReorderForecastService', () => {
+  it('averages recent consumption per day, net of returns', () => {
+    const usage = ReorderForecastService.getDailyUsage([
+      { productId: 'shampoo', mlConsumed: 3000, consumptionType: 'service', createdAt: daysFromNow(-5) },
+      { productId: 'shampoo', mlConsumed: 300, consumptionType: 'return', createdAt: daysFromNow(-4) },
+      { productId: 'shampoo', mlConsumed: 5000, consumptionType: 'service', createdAt: daysFromNow(-45) },
+    ], 30, now);
+
+    expect(usage.shampoo).toBe(90);
+  });
+
+  it('orders enough bottles from the cheapest supplier to cover its lead time and keep the minimum', () => {
+    const [suggestion] = ReorderForecastService.getSuggestions({
+      products: [makeProduct({})],
+      consumption: [{ productId: 'shampoo', mlConsumed: 2700, createdAt: daysFromNow(-3) }],
+      upcoming: [],
+      services: [],
+      suppliers: [makeSupplier('a', 5, 80), makeSupplier('b', 10, 75)],
+      onOrder: {},
+    }, options);
+
+    // 90 ml a day over 10 + 14 days, plus one bottle in reserve, minus 2500 ml in stock
+    expect(suggestion).toMatchObject({
+      supplierId: 'b',
+      leadTimeDays: 10,
+      unitCost: 75,
+      dailyUsageMl: 90,
+      daysOfCover: 27.8,
+      suggestedBottles: 1,
+      reorderBy: '2026-10-25',
+    });
+  });
+
+  it('forecasts from upcoming bookings when there is no history, counting what is on order', () => {
+    const input = {
+      products: [makeProduct({ id: 'mask', name: 'Mask', bottle_capacity_ml: 500, sealed_bottles: 0, open_bottle_remaining_ml: 200, minQuantity: 0 })],
+      consumption: [],
+      upcoming: [
+        { serviceId: 'colour', startAt: daysFromNow(1) },
+        { serviceId: 'colour', startAt: daysFromNow(3) },
+        { serviceId: 'colour', startAt: daysFromNow(10) },
+        { serviceId: 'colour', startAt: daysFromNow(30) },
+      ],
+      services,
+      suppliers: [],
+      onOrder: {},
+    };
+
+    const [suggestion] = ReorderForecastService.getSuggestions(input, options);
+    expect(suggestion).toMatchObject({ productId: 'mask', bookedMl: 450, leadTimeDays: 7, unitCost: 90, suggestedBottles: 1 });
+
+    expect(ReorderForecastService.getSuggestions({
+      ...input,
+      onOrder: { mask: { quantity: 1, orderNumbers: ['BC-2026-0001'] } },
+    }, options)).toEqual([]);
+  });
+
+  it('suggests nothing for products with enough stock or no usage', () => {
+    expect(ReorderForecastService.getSuggestions({
+      products: [makeProduct({ sealed_bottles: 10 }), makeProduct({ id: 'unused', minQuantity: 0 })],
+      consumption: [{ productId: 'shampoo', mlConsumed: 900, createdAt: daysFromNow(-1) }],
+      upcoming: [],
+      services: [],
+      suppliers: [],
+      onOrder: {},
+    }, options)).toEqual([]);
+  });
+});
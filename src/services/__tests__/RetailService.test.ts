@@ -0,0 +1,69 @@
+import { RetailService } from '../RetailService';
+import { Sale, SaleRetailItem } from '@/types';
+
+const makeSale = (overrides: Partial<Sale>): Sale => ({
+  id: 'sale-1',
+  clientId: 'client-1',
+  serviceId: '',
+  staffId: 'staff-1',
+  products: [],
+  totalAmount: 0,
+  paymentMethod: 'cash',
+  status: 'completed',
+  createdAt: '2026-10-19T10:00:00',
+  ...overrides,
+});
+
+const shampoo: SaleRetailItem = {
+  productId: 'shampoo',
+  productName: 'Shampoo',
+  quantity: 2,
+  unitPrice: 120,
+  unitCost: 70,
+  taxRate: 20,
+  priceIncludesTax: true,
+  taxAmount: 40,
+};
+
+describe('RetailService', () => {
+  it('sells ml products by the bottle and other products by their unit', () => {
+    expect(RetailService.getSellingUnit({ unit: 'ml' })).toBe('bottle');
+    expect(RetailService.getSellingUnit({ unit: 'pieces' })).toBe('pieces');
+  });
+
+  it('only allows whole quantities within the sealed stock', () => {
+    const product = { name: 'Cream', sealed_bottles: 3 };
+
+    expect(RetailService.validateQuantity(product, 3)).toBeNull();
+    expect(RetailService.validateQuantity(product, 4)).toBe('Only 3 sealed Cream left in stock');
+    expect(RetailService.validateQuantity(product, 1.5)).toBe('Retail quantities must be whole bottles or units');
+    expect(RetailService.validateQuantity(product, 0)).toBe('Retail quantities must be whole bottles or units');
+  });
+
+  it('adds TVA to tax-exclusive retail lines and computes the margin', () => {
+    const cream: SaleRetailItem = { ...shampoo, unitPrice: 100, unitCost: 60, priceIncludesTax: false, taxAmount: 40 };
+
+    expect(RetailService.getLineTotal(shampoo)).toBe(240);
+    expect(RetailService.getLineTotal(cream)).toBe(240);
+    expect(RetailService.getLineMargin(cream)).toBe(80);
+  });
+
+  it('reports retail revenue and margin apart from service revenue', () => {
+    const summary = RetailService.summarize([
+      makeSale({ id: 'a', totalAmount: 390, retailItems: [shampoo] }),
+      makeSale({ id: 'b', totalAmount: 200 }),
+      makeSale({ id: 'c', totalAmount: 120, retailItems: [{ ...shampoo, quantity: 1 }], status: 'voided', refundedAmount: 120 }),
+      makeSale({ id: 'd', totalAmount: 240, retailItems: [{ ...shampoo, refundedAt: '2026-10-19T11:00:00' }], status: 'refunded', refundedAmount: 240 }),
+    ]);
+
+    expect(summary.serviceRevenue).toBe(350);
+    expect(summary.retailRevenue).toBe(240);
+    expect(summary.retailCost).toBe(140);
+    expect(summary.retailMargin).toBe(100);
+    expect(summary.retailMarginPercent).toBe(41.67);
+    expect(summary.retailUnits).toBe(2);
+    expect(summary.products).toEqual([
+      { productId: 'shampoo', productName: 'Shampoo', quantity: 2, revenue: 240, cost: 140, margin: 100 },
+    ]);
+  });
+});
@@ -4,6 +4,8 @@ import { supabase } from '../../lib/supabaseClient';
 // Mock Supabase
 jest.mock('@/lib/supabaseClient');
 const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+// The automock leaves rpc out of the client
+mockSupabase.rpc = jest.fn() as any;
 
 describe('SimpleBottleConsumptionService', () => {
   let service: SimpleBottleConsumptionService;
@@ -383,4 +385,48 @@ describe('SimpleBottleConsumptionService', () => {
       expect(result[0].currentStock).toBeLessThan(result[0].minStock);
     });
   });
+
+  describe('consumeProduct', () => {
+    it('consumes through consume_service_product in one call', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: { quantityUsed: 50, bottlesOpened: 1, sealedBottles: 2, openMl: 450, totalRemainingMl: 1450 },
+        error: null,
+      } as any);
+
+      const result = await SimpleBottleConsumptionService.consumeProduct({
+        productId: 'product-1',
+        requiredMl: 50,
+        saleId: 'sale-1',
+        serviceId: 'service-1',
+      });
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('consume_service_product', {
+        p_product_id: 'product-1',
+        p_required_ml: 50,
+        p_sale_id: 'sale-1',
+        p_service_id: 'service-1',
+      });
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.bottlesOpened).toBe(1);
+      expect(result.finalSealedBottles).toBe(2);
+      expect(result.finalOpenMl).toBe(450);
+    });
+
+    it('reports insufficient stock raised by the database', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Insufficient stock for Shampoing. Available: 20 ml, Required: 50 ml' },
+      } as any);
+
+      const result = await SimpleBottleConsumptionService.consumeProduct({
+        productId: 'product-1',
+        requiredMl: 50,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.consumedMl).toBe(0);
+      expect(result.error).toContain('Insufficient stock');
+    });
+  });
 });
\ No newline at end of file
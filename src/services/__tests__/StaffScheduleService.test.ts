@@ -0,0 +1,60 @@
+import { StaffScheduleService } from '../StaffScheduleService';
+import { LeaveRequest } from '@/types';
+
+const makeLeave = (overrides: Partial<LeaveRequest>): LeaveRequest => ({
+  id: 'leave-1',
+  staffId: 'staff-1',
+  startDate: '2026-11-02',
+  endDate: '2026-11-06',
+  leaveType: 'vacation',
+  status: 'pending',
+  createdAt: '2026-10-19T10:00:00Z',
+  ...overrides,
+});
+
+describe('StaffScheduleService', () => {
+  it('accepts split hours with a break inside them', () => {
+    expect(StaffScheduleService.validateWeeklySchedule(
+      [
+        { weekday: 1, start: '09:00', end: '13:00' },
+        { weekday: 1, start: '14:00', end: '19:00' },
+      ],
+      [{ weekday: 1, start: '16:00', end: '16:15', label: 'Coffee' }]
+    )).toEqual([]);
+  });
+
+  it('reports inverted ranges, overlapping hours and breaks outside the hours', () => {
+    const errors = StaffScheduleService.validateWeeklySchedule(
+      [
+        { weekday: 2, start: '09:00', end: '13:00' },
+        { weekday: 2, start: '12:00', end: '18:00' },
+        { weekday: 3, start: '18:00', end: '10:00' },
+      ],
+      [{ weekday: 4, start: '13:00', end: '14:00' }]
+    );
+
+    expect(errors).toEqual([
+      'Wednesday: 18:00 - 10:00 must end after it starts',
+      'Tuesday: working hours overlap',
+      'Thursday: the 13:00 - 14:00 break is outside the working hours',
+    ]);
+  });
+
+  it('counts leave days with both ends included, across months', () => {
+    expect(StaffScheduleService.countLeaveDays('2026-11-02', '2026-11-06')).toBe(5);
+    expect(StaffScheduleService.countLeaveDays('2026-01-31', '2026-02-01')).toBe(2);
+    expect(StaffScheduleService.countLeaveDays('2026-11-02', '2026-11-01')).toBe(0);
+  });
+
+  it('finds pending or approved leave overlapping new dates', () => {
+    const requests = [
+      makeLeave({ id: 'pending' }),
+      makeLeave({ id: 'approved', startDate: '2026-12-20', endDate: '2026-12-31', status: 'approved' }),
+      makeLeave({ id: 'rejected', startDate: '2026-11-05', endDate: '2026-11-05', status: 'rejected' }),
+    ];
+
+    expect(StaffScheduleService.findOverlappingLeave(requests, '2026-11-06', '2026-11-08').map(r => r.id)).toEqual(['pending']);
+    expect(StaffScheduleService.findOverlappingLeave(requests, '2026-11-07', '2026-12-19')).toEqual([]);
+    expect(StaffScheduleService.findOverlappingLeave(requests, '2026-12-31', '2027-01-02').map(r => r.id)).toEqual(['approved']);
+  });
+});
@@ -0,0 +1,95 @@
+import { StocktakeService } from '../StocktakeService';
+import { Stocktake, StocktakeCount } from '@/types';
+
+const makeCount = (overrides: Partial<StocktakeCount>): StocktakeCount => ({
+  id: 'count-1',
+  productId: 'shampoo',
+  productName: 'Shampoo',
+  category: 'Hair care',
+  expectedSealed: 4,
+  expectedOpenMl: 600,
+  countedSealed: 4,
+  countedOpenMl: 600,
+  bottleCapacityMl: 1000,
+  unitCost: 80,
+  countedAt: '2026-10-01T09:00:00Z',
+  ...overrides,
+});
+
+const makeStocktake = (overrides: Partial<Stocktake>): Stocktake => ({
+  id: 'stocktake-1',
+  stocktakeNumber: 'INV-2026-0001',
+  status: 'posted',
+  counts: [],
+  postedAt: '2026-09-01T18:00:00Z',
+  createdAt: '2026-09-01T09:00:00Z',
+  ...overrides,
+});
+
+describe('StocktakeService', () => {
+  it('values the variance of a count in ml and at the bottle cost', () => {
+    expect(StocktakeService.getVariance(makeCount({ countedSealed: 3, countedOpenMl: 850 }))).toEqual({
+      sealedBottles: -1,
+      openMl: 250,
+      ml: -750,
+      cost: -60,
+    });
+  });
+
+  it('totals what was lost and found separately', () => {
+    expect(StocktakeService.getTotals([
+      makeCount({ countedOpenMl: 350 }),
+      makeCount({ id: 'count-2', productId: 'mask', countedSealed: 5, unitCost: 120 }),
+      makeCount({ id: 'count-3', productId: 'serum' }),
+    ])).toEqual({ ml: 750, cost: 100, lostCost: -20, foundCost: 120, products: 2 });
+  });
+
+  it('rejects partial sealed bottles and negative open ml', () => {
+    expect(StocktakeService.validateCount(2, 400)).toEqual([]);
+    expect(StocktakeService.validateCount(1.5, -10)).toEqual([
+      'Sealed bottles must be a whole number, zero or more',
+      'Open bottles must hold zero ml or more',
+    ]);
+  });
+
+  it('accepts open ml spread over several open bottles', () => {
+    expect(StocktakeService.validateCount(0, 1250)).toEqual([]);
+  });
+
+  it('tracks shrinkage by category across posted stocktakes, worst first', () => {
+    const trends = StocktakeService.getTrends([
+      makeStocktake({
+        id: 'stocktake-2',
+        stocktakeNumber: 'INV-2026-0002',
+        postedAt: '2026-10-01T18:00:00Z',
+        counts: [
+          makeCount({ countedOpenMl: 100 }),
+          makeCount({ id: 'count-2', productId: 'conditioner', countedSealed: 3 }),
+          makeCount({ id: 'count-3', productId: 'polish', category: 'Nails', countedOpenMl: 700, unitCost: 10 }),
+        ],
+      }),
+      makeStocktake({ counts: [makeCount({ countedOpenMl: 400 })] }),
+      makeStocktake({ id: 'stocktake-3', status: 'counting', postedAt: undefined, counts: [makeCount({ countedSealed: 0 })] }),
+    ], 'category');
+
+    expect(trends).toEqual([
+      {
+        key: 'Hair care',
+        label: 'Hair care',
+        points: [
+          { stocktakeId: 'stocktake-1', stocktakeNumber: 'INV-2026-0001', postedAt: '2026-09-01T18:00:00Z', ml: -200, cost: -16 },
+          { stocktakeId: 'stocktake-2', stocktakeNumber: 'INV-2026-0002', postedAt: '2026-10-01T18:00:00Z', ml: -1500, cost: -120 },
+        ],
+        totalMl: -1700,
+        totalCost: -136,
+      },
+      {
+        key: 'Nails',
+        label: 'Nails',
+        points: [{ stocktakeId: 'stocktake-2', stocktakeNumber: 'INV-2026-0002', postedAt: '2026-10-01T18:00:00Z', ml: 100, cost: 1 }],
+        totalMl: 100,
+        totalCost: 1,
+      },
+    ]);
+  });
+});
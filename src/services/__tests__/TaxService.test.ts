@@ -0,0 +1,78 @@
+import { TaxService } from '../TaxService';
+import { Sale } from '@/types';
+
+const makeSale = (overrides: Partial<Sale>): Sale => ({
+  id: 'sale-1',
+  clientId: 'client-1',
+  serviceId: '',
+  staffId: 'staff-1',
+  products: [],
+  totalAmount: 120,
+  paymentMethod: 'cash',
+  status: 'completed',
+  createdAt: '2026-10-19T10:00:00',
+  ...overrides,
+});
+
+describe('TaxService', () => {
+  it('extracts TVA from tax-inclusive prices', () => {
+    expect(TaxService.getUnitTax(120, 20, true)).toBe(20);
+    expect(TaxService.getUnitTax(100, 10, true)).toBe(9.09);
+    expect(TaxService.getUnitTax(100, 0, true)).toBe(0);
+  });
+
+  it('adds TVA on top of tax-exclusive prices', () => {
+    expect(TaxService.getUnitTax(100, 20, false)).toBe(20);
+    expect(TaxService.getUnitTax(99.99, 14, false)).toBe(14);
+  });
+
+  it('totals the lines and groups the breakdown by rate and pricing mode', () => {
+    const calculation = TaxService.calculate([
+      { unitPrice: 120, quantity: 2, taxRate: 20, priceIncludesTax: true },
+      { unitPrice: 100, quantity: 1, taxRate: 10, priceIncludesTax: false },
+      { unitPrice: 60, quantity: 1, taxRate: 20, priceIncludesTax: true },
+    ]);
+
+    expect(calculation.taxAmount).toBe(60);
+    expect(calculation.taxAdded).toBe(10);
+    expect(calculation.netAmount).toBe(350);
+    expect(calculation.grossAmount).toBe(410);
+    expect(calculation.taxLines).toEqual([
+      { rate: 10, inclusive: false, taxableAmount: 100, taxAmount: 10 },
+      { rate: 20, inclusive: true, taxableAmount: 250, taxAmount: 50 },
+    ]);
+  });
+
+  it('defaults to 20% tax-inclusive pricing', () => {
+    const calculation = TaxService.calculate([{ unitPrice: 240, quantity: 1 }]);
+
+    expect(calculation.lines[0]).toEqual({
+      taxRate: 20,
+      priceIncludesTax: true,
+      netAmount: 200,
+      taxAmount: 40,
+      grossAmount: 240,
+    });
+  });
+
+  it('summarises TVA by month, leaving out voids and refunded shares', () => {
+    const taxLines = [{ rate: 20, inclusive: true, taxableAmount: 100, taxAmount: 20 }];
+    const summary = TaxService.summarizeByPeriod([
+      makeSale({ id: 'a', taxAmount: 20, taxLines }),
+      makeSale({ id: 'b', taxAmount: 20, taxLines, status: 'partially_refunded', refundedAmount: 60 }),
+      makeSale({ id: 'c', taxAmount: 20, taxLines, status: 'voided', refundedAmount: 120 }),
+      makeSale({ id: 'd', taxAmount: 20, taxLines, createdAt: '2026-11-02T10:00:00' }),
+    ]);
+
+    expect(summary).toHaveLength(2);
+    expect(summary[0]).toEqual({
+      period: '2026-10',
+      salesCount: 2,
+      netAmount: 150,
+      taxAmount: 30,
+      grossAmount: 180,
+      byRate: [{ rate: 20, taxableAmount: 150, taxAmount: 30 }],
+    });
+    expect(summary[1].period).toBe('2026-11');
+  });
+});
@@ -0,0 +1,65 @@
+import { TipService } from '../TipService';
+
+describe('TipService', () => {
+  describe('calculateTip', () => {
+    it('resolves fixed and percentage tips', () => {
+      expect(TipService.calculateTip(240, 'fixed', 20)).toBe(20);
+      expect(TipService.calculateTip(240, 'percentage', 10)).toBe(24);
+      expect(TipService.calculateTip(99.99, 'percentage', 15)).toBe(15);
+    });
+
+    it('returns zero when no tip is entered', () => {
+      expect(TipService.calculateTip(240, 'percentage', 0)).toBe(0);
+      expect(TipService.calculateTip(240, 'fixed', -5)).toBe(0);
+    });
+  });
+
+  describe('splitTip', () => {
+    it('shares a tip evenly and gives leftover cents to the first staff member', () => {
+      const tips = TipService.splitTip(10, ['staff-1', 'staff-2', 'staff-3']);
+
+      expect(tips).toEqual([
+        { staffId: 'staff-1', amount: 3.34 },
+        { staffId: 'staff-2', amount: 3.33 },
+        { staffId: 'staff-3', amount: 3.33 },
+      ]);
+    });
+
+    it('ignores duplicate and empty staff ids', () => {
+      const tips = TipService.splitTip(30, ['staff-1', '', 'staff-1', 'staff-2']);
+
+      expect(tips).toEqual([
+        { staffId: 'staff-1', amount: 15 },
+        { staffId: 'staff-2', amount: 15 },
+      ]);
+    });
+  });
+
+  describe('validateTips', () => {
+    it('accepts shares that add up to the tip', () => {
+      expect(TipService.validateTips([
+        { staffId: 'staff-1', amount: 12.5 },
+        { staffId: 'staff-2', amount: 7.5 },
+      ], 20)).toBeNull();
+    });
+
+    it('rejects missing, duplicated or mismatched shares', () => {
+      expect(TipService.validateTips([], 20)).toContain('at least one staff');
+      expect(TipService.validateTips([
+        { staffId: 'staff-1', amount: 10 },
+        { staffId: 'staff-1', amount: 10 },
+      ], 20)).toContain('one tip share');
+      expect(TipService.validateTips([{ staffId: 'staff-1', amount: 15 }], 20)).toContain('add up');
+    });
+  });
+
+  describe('getTotalsByStaff', () => {
+    it('sums tip shares per staff member', () => {
+      expect(TipService.getTotalsByStaff([
+        { staffId: 'staff-1', amount: 10 },
+        { staffId: 'staff-2', amount: 5 },
+        { staffId: 'staff-1', amount: 2.5 },
+      ])).toEqual({ 'staff-1': 12.5, 'staff-2': 5 });
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { UnitService } from '../UnitService';
+
+describe('UnitService', () => {
+  it('reads the stock unit from free-text units, defaulting to ml', () => {
+    expect(UnitService.getStockUnit('g')).toBe('g');
+    expect(UnitService.getStockUnit(' Pcs ')).toBe('pieces');
+    expect(UnitService.getStockUnit('tubes')).toBe('ml');
+    expect(UnitService.getStockUnit(undefined)).toBe('ml');
+    expect(UnitService.getEntryUnits('grams')).toEqual(['g', 'kg']);
+  });
+
+  it('converts within a kind of unit only', () => {
+    expect(UnitService.convert(1.5, 'l', 'ml')).toBe(1500);
+    expect(UnitService.convert(250, 'g', 'kg')).toBe(0.25);
+    expect(UnitService.convert(10, 'ml', 'g')).toBeNull();
+    expect(UnitService.convert(2, 'pieces', 'ml')).toBeNull();
+  });
+
+  it('takes whole pieces and formats quantities with their unit', () => {
+    expect(UnitService.normalizeQuantity(2.2, 'pieces')).toBe(3);
+    expect(UnitService.normalizeQuantity(2.2, 'g')).toBe(2.2);
+    expect(UnitService.format(1, 'pieces')).toBe('1 piece');
+    expect(UnitService.format(12.345, 'g')).toBe('12.35 g');
+  });
+
+  it('totals mixed products per unit', () => {
+    const totals = UnitService.sumByUnit([
+      { quantity: 500, unit: 'ml' },
+      { quantity: 40, unit: 'pieces' },
+      { quantity: 700 },
+      { quantity: 250, unit: 'g' },
+    ]);
+
+    expect(totals).toEqual({ ml: 1200, pieces: 40, g: 250 });
+    expect(UnitService.formatTotals(totals)).toBe('1200 ml · 250 g · 40 pieces');
+  });
+});
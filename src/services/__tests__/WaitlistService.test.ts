@@ -0,0 +1,54 @@
+import { WaitlistService } from '../WaitlistService';
+import { WaitlistOffer } from '@/types';
+
+const offer = (status: WaitlistOffer['status'], expiresAt: string): WaitlistOffer => ({
+  id: 'offer-1',
+  entryId: 'entry-1',
+  staffId: 'staff-1',
+  startAt: '2024-01-20T10:00:00Z',
+  endAt: '2024-01-20T11:00:00Z',
+  expiresAt,
+  status,
+  createdAt: '2024-01-15T08:00:00Z',
+});
+
+describe('WaitlistService', () => {
+  const now = new Date('2024-01-15T09:00:00Z');
+
+  it('builds the claim link from the site origin', () => {
+    expect(WaitlistService.claimUrl('https://salon.example/', 'abc123')).toBe('https://salon.example/booking/claim/abc123');
+  });
+
+  it('reads open offers past their expiry as expired', () => {
+    expect(WaitlistService.offerStatus(offer('open', '2024-01-15T10:00:00Z'), now)).toBe('open');
+    expect(WaitlistService.offerStatus(offer('open', '2024-01-15T08:59:00Z'), now)).toBe('expired');
+    expect(WaitlistService.offerStatus(offer('claimed', '2024-01-15T08:59:00Z'), now)).toBe('claimed');
+  });
+
+  it('shows waiting entries as offered, or expired after their last date', () => {
+    const entry = { status: 'waiting' as const, dateTo: '2024-01-20', offers: [] as WaitlistOffer[] };
+
+    expect(WaitlistService.entryState(entry, '2024-01-15', now)).toBe('waiting');
+    expect(WaitlistService.entryState({ ...entry, offers: [offer('open', '2024-01-15T10:00:00Z')] }, '2024-01-15', now)).toBe('offered');
+    expect(WaitlistService.entryState({ ...entry, offers: [offer('open', '2024-01-15T08:00:00Z')] }, '2024-01-15', now)).toBe('waiting');
+    expect(WaitlistService.entryState(entry, '2024-01-21', now)).toBe('expired');
+    expect(WaitlistService.entryState({ ...entry, status: 'booked' }, '2024-01-21', now)).toBe('booked');
+  });
+
+  it('offers the slot with its claim link and deadline', () => {
+    const message = WaitlistService.offerMessage({
+      offerId: 'offer-1',
+      token: 'abc123',
+      clientName: 'Amina',
+      clientPhone: '212600000000',
+      serviceName: 'Colour',
+      staffName: 'Fatima',
+      startAt: '2024-01-20T10:00:00Z',
+      expiresAt: '2024-01-15T11:00:00Z',
+    }, 'https://salon.example/booking/claim/abc123');
+
+    expect(message).toContain('Hello Amina');
+    expect(message).toContain('Colour with Fatima');
+    expect(message).toContain('https://salon.example/booking/claim/abc123');
+  });
+});
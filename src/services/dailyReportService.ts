@@ -1,5 +1,9 @@
 import { supabase } from '@/lib/supabaseClient';
 import { formatPrice } from '@/utils/currency';
+import { PaymentService } from '@/services/PaymentService';
+import { BookingCheckoutService } from '@/services/BookingCheckoutService';
+import { BookingStatusService } from '@/services/BookingStatusService';
+import { PaymentMethod } from '@/types';
 
 interface DailyStats {
   date: string;
@@ -7,6 +11,7 @@ interface DailyStats {
   totalBookings: number;
   completedBookings: number;
   cancelledBookings: number;
+  noShowBookings: number;
   newClients: number;
   totalClients: number;
   topServices: Array<{
@@ -24,13 +29,29 @@ interface DailyStats {
     quantity: number;
     revenue: number;
   }>;
+  retailRevenue: number; // products sold over the counter
+  retailMargin: number; // retail price - cost
+  bookedRevenue: number; // sales that checked out a booking
+  walkInRevenue: number; // sales without a booking
+  unpaidBookings: number; // bookings completed that day without a sale
   averageBookingValue: number;
   totalCommissions: number;
+  paymentBreakdown: Record<PaymentMethod, number>;
+  cashSessions?: Array<{
+    staffName: string;
+    expectedCash: number;
+    countedCash: number;
+    discrepancy: number;
+  }>;
+}
+
+interface DailyReportOptions {
+  includeCashDiscrepancies?: boolean; // add the count of cash drawer sessions closed that day
 }
 
 class DailyReportService {
   
-  async generateDailyReport(date?: string): Promise<DailyStats> {
+  async generateDailyReport(date?: string, options: DailyReportOptions = {}): Promise<DailyStats> {
     const reportDate = date || new Date().toISOString().split('T')[0];
     const startOfDay = `${reportDate} 00:00:00`;
     const endOfDay = `${reportDate} 23:59:59`;
@@ -68,11 +89,20 @@ class DailyReportService {
           sale_items(
             *,
             products(*)
-          )
+          ),
+          sale_payments(method, amount),
+          sale_retail_items(quantity, unit_price, unit_cost, refunded_at, products(name))
         `)
         .gte('created_at', startOfDay)
         .lte('created_at', endOfDay);
 
+      // Bookings held that day, with the sale that paid for them
+      const { data: heldBookings } = await supabase
+        .from('bookings')
+        .select('id, status, sales(id, status)')
+        .gte('start_at', startOfDay)
+        .lte('start_at', endOfDay);
+
       // Get commissions for the day
       const { data: commissions } = await supabase
         .from('commissions')
@@ -87,9 +117,27 @@ class DailyReportService {
         totalClientsCount || 0,
         sales || [],
         commissions || [],
+        heldBookings || [],
         reportDate
       );
 
+      if (options.includeCashDiscrepancies) {
+        // Cash drawer sessions closed during the day
+        const { data: cashSessions } = await supabase
+          .from('cash_drawer_sessions')
+          .select('expected_cash, counted_cash, discrepancy, users!cash_drawer_sessions_staff_id_fkey(name)')
+          .eq('status', 'closed')
+          .gte('closed_at', startOfDay)
+          .lte('closed_at', endOfDay);
+
+        stats.cashSessions = (cashSessions || []).map((session: any) => ({
+          staffName: session.users?.name || 'Caisse',
+          expectedCash: Number(session.expected_cash) || 0,
+          countedCash: Number(session.counted_cash) || 0,
+          discrepancy: Number(session.discrepancy) || 0
+        }));
+      }
+
       return stats;
 
     } catch (error) {
@@ -104,6 +152,7 @@ class DailyReportService {
     totalClientsCount: number,
     sales: any[],
     commissions: any[],
+    heldBookings: any[],
     date: string
   ): DailyStats {
     
@@ -111,6 +160,7 @@ class DailyReportService {
     const totalBookings = bookings.length;
     const completedBookings = bookings.filter(b => b.status === 'completed').length;
     const cancelledBookings = bookings.filter(b => b.status === 'cancelled').length;
+    const noShowBookings = bookings.filter(b => b.status === 'no_show').length;
     
     // Revenue from bookings
     const bookingRevenue = bookings
@@ -177,27 +227,74 @@ class DailyReportService {
       });
     });
 
+    // Retail products sold over the counter at the POS
+    let retailRevenue = 0;
+    let retailMargin = 0;
+    sales.filter(sale => sale.status !== 'voided').forEach(sale => {
+      (sale.sale_retail_items || []).filter((item: any) => !item.refunded_at).forEach((item: any) => {
+        const productName = item.products?.name || 'Produit';
+        const revenue = item.quantity * Number(item.unit_price);
+        const current = productStats.get(productName) || { quantity: 0, revenue: 0 };
+        productStats.set(productName, {
+          quantity: current.quantity + item.quantity,
+          revenue: current.revenue + revenue
+        });
+        retailRevenue += revenue;
+        retailMargin += item.quantity * (Number(item.unit_price) - Number(item.unit_cost));
+      });
+    });
+
     const productsSold = Array.from(productStats.entries())
       .map(([name, stats]) => ({ name, ...stats }))
       .sort((a, b) => b.revenue - a.revenue)
       .slice(0, 5);
 
+    // Booked vs walk-in revenue, and bookings nobody rang up
+    const bookingSummary = BookingCheckoutService.summarize(
+      sales.map(sale => ({
+        totalAmount: Number(sale.total_amount) || 0,
+        refundedAmount: Number(sale.refunded_amount) || 0,
+        status: sale.status,
+        bookingId: sale.booking_id || undefined
+      })),
+      heldBookings.map(booking => ({
+        id: booking.id,
+        status: BookingStatusService.normalize(booking.status),
+        saleId: BookingCheckoutService.findPayingSaleId(booking.sales)
+      }))
+    );
+
     // Total commissions
     const totalCommissions = commissions.reduce((sum, c) => sum + c.amount, 0);
 
+    // Amounts collected per tender
+    const paymentBreakdown = PaymentService.getTotalsByMethod(
+      sales.flatMap(sale => (sale.sale_payments || []).map((payment: any) => ({
+        method: payment.method,
+        amount: Number(payment.amount)
+      })))
+    );
+
     return {
       date,
       totalRevenue,
       totalBookings,
       completedBookings,
       cancelledBookings,
+      noShowBookings,
       newClients: newClients.length,
       totalClients: totalClientsCount,
       topServices,
       staffPerformance,
       productsSold,
+      retailRevenue,
+      retailMargin,
+      bookedRevenue: bookingSummary.bookedRevenue,
+      walkInRevenue: bookingSummary.walkInRevenue,
+      unpaidBookings: bookingSummary.unpaidBookings.length,
       averageBookingValue,
-      totalCommissions
+      totalCommissions,
+      paymentBreakdown
     };
   }
 
@@ -212,10 +309,36 @@ class DailyReportService {
     let message = `📊 *RAPPORT QUOTIDIEN - ${date.toUpperCase()}*\n\n`;
     
     message += `💰 *REVENUS TOTAUX:* ${formatPrice(stats.totalRevenue)}\n`;
-    message += `📅 *RÉSERVATIONS:* ${stats.totalBookings} (${stats.completedBookings} terminées, ${stats.cancelledBookings} annulées)\n`;
+    message += `📅 *RÉSERVATIONS:* ${stats.totalBookings} (${stats.completedBookings} terminées, ${stats.cancelledBookings} annulées, ${stats.noShowBookings} absents)\n`;
     message += `👥 *CLIENTS:* ${stats.newClients} nouveaux | ${stats.totalClients} total\n`;
     message += `💵 *VALEUR MOYENNE:* ${formatPrice(stats.averageBookingValue)}\n`;
-    message += `🎯 *COMMISSIONS:* ${formatPrice(stats.totalCommissions)}\n\n`;
+    message += `🎯 *COMMISSIONS:* ${formatPrice(stats.totalCommissions)}\n`;
+    if (stats.retailRevenue > 0) {
+      message += `🛍️ *VENTE AU DÉTAIL:* ${formatPrice(stats.retailRevenue)} (marge ${formatPrice(stats.retailMargin)})\n`;
+    }
+    if (stats.bookedRevenue + stats.walkInRevenue > 0) {
+      message += `🗓️ *ENCAISSÉ:* ${formatPrice(stats.bookedRevenue)} sur rendez-vous | ${formatPrice(stats.walkInRevenue)} sans rendez-vous\n`;
+    }
+    if (stats.unpaidBookings > 0) {
+      message += `⚠️ *RENDEZ-VOUS NON ENCAISSÉS:* ${stats.unpaidBookings}\n`;
+    }
+    message += `\n`;
+
+    const { cash, card, transfer } = stats.paymentBreakdown;
+    if (cash + card + transfer > 0) {
+      message += `💳 *PAIEMENTS:* Espèces ${formatPrice(cash)} | Carte ${formatPrice(card)} | Virement ${formatPrice(transfer)}\n\n`;
+    }
+
+    if (stats.cashSessions && stats.cashSessions.length > 0) {
+      message += `🧾 *CAISSE:*\n`;
+      stats.cashSessions.forEach(session => {
+        const status = Math.abs(session.discrepancy) < 0.01
+          ? '✅'
+          : `⚠️ écart ${session.discrepancy > 0 ? '+' : ''}${formatPrice(session.discrepancy)}`;
+        message += `• ${session.staffName}: attendu ${formatPrice(session.expectedCash)}, compté ${formatPrice(session.countedCash)} ${status}\n`;
+      });
+      message += `\n`;
+    }
 
     if (stats.topServices.length > 0) {
       message += `🏆 *TOP SERVICES:*\n`;
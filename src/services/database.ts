@@ -1,6 +1,12 @@
 import { supabase } from '@/lib/supabaseClient';
 import { supabaseAdmin, executeAdminQuery } from '@/lib/supabaseAdmin';
-import { Client, Service, Product, Sale, DashboardStats } from '@/types';
+import { Client, Service, Product, Sale, SaleTip, SaleTaxLine, SaleRetailItem, SaleRefund, CashDrawerSession, CashDrawerMovement, PromoCode, Booking, BookingSegment, BookingStatus, BookingStatusChange, MultiServiceBookingRequest, BookingSeriesRequest, BookingSeriesResult, RecurrenceScope, WaitlistEntry, WaitlistOffer, WaitlistOfferNotice, BookingMessage, DueBookingMessage, StaffWeeklySchedule, WeeklyScheduleRange, ScheduleException, SalonHoliday, WorkingRange, LeaveRequest, LeaveType, LeaveRequestStatus, CompleteSaleRequest, DashboardStats, Supplier, SupplierProduct, PurchaseOrder, PurchaseOrderLine, PurchaseOrderReceipt, PurchaseOrderStatus, Stocktake, StocktakeCount, StocktakeStatus, ProductLot } from '@/types';
+import { BookingStatusService } from './BookingStatusService';
+import { BookingCheckoutService } from './BookingCheckoutService';
+import { ReceiptData } from './ReceiptService';
+import { PurchaseOrderService, ReceiptLineInput } from './PurchaseOrderService';
+import { ProductLotService, ExpiryAlert } from './ProductLotService';
+import { ReorderForecastService, ReorderSuggestion, ForecastOptions, UpcomingServiceUse, DEFAULT_FORECAST_OPTIONS } from './ReorderForecastService';
 import { normalizePhoneNumber } from '@/utils/phone';
 import toast from 'react-hot-toast';
 
@@ -179,7 +185,7 @@ export const clientService = {
     try {
       const { data, error } = await executeAdminQuery(
         (client) => client.from('clients')
-          .select('id, name, phone, email, notes, last_visit, total_visits, total_spent, created_at, updated_at')
+          .select('id, name, phone, email, notes, language, last_visit, total_visits, total_spent, loyalty_points, created_at, updated_at')
           .order('created_at', { ascending: false })
       );
 
@@ -193,9 +199,11 @@ export const clientService = {
         phone: client.phone || '',
         email: client.email || '',
         notes: client.notes || '',
+        language: client.language || undefined,
         lastVisit: client.last_visit || null,
         totalVisits: client.total_visits || 0,
         totalSpent: client.total_spent || 0,
+        loyaltyPoints: client.loyalty_points || 0,
         createdAt: client.created_at,
         updatedAt: client.updated_at,
       })) || [];
@@ -228,6 +236,7 @@ export const clientService = {
           phone: normalizedPhone,
           email: clientData.email?.trim() || null,
           notes: clientData.notes?.trim() || null,
+          language: clientData.language || null,
           total_visits: 0,
           total_spent: 0,
         })
@@ -248,6 +257,7 @@ export const clientService = {
         phone: data.phone,
         email: data.email,
         notes: data.notes,
+        language: data.language || undefined,
         lastVisit: data.last_visit,
         totalVisits: data.total_visits,
         totalSpent: data.total_spent,
@@ -278,6 +288,7 @@ export const clientService = {
           phone: clientData.phone,
           email: clientData.email,
           notes: clientData.notes,
+          language: clientData.language || null,
           updated_at: new Date().toISOString(),
         })
         .eq('id', id)
@@ -292,6 +303,7 @@ export const clientService = {
         phone: data.phone,
         email: data.email,
         notes: data.notes,
+        language: data.language || undefined,
         lastVisit: data.last_visit,
         totalVisits: data.total_visits,
         totalSpent: data.total_spent,
@@ -343,7 +355,7 @@ export const serviceService = {
     try {
       const { data, error } = await supabase
         .from('services')
-        .select('id, name, name_ar, name_fr, description, price, duration, category, commission_percent, is_active, required_products, assigned_staff, icon_name, icon_library, created_at, updated_at')
+        .select('id, name, name_ar, name_fr, description, price, duration, buffer_minutes, category, commission_percent, tax_rate, price_includes_tax, is_active, required_products, assigned_staff, icon_name, icon_library, created_at, updated_at')
         .eq('is_active', true)
         .order('created_at', { ascending: false });
 
@@ -357,8 +369,11 @@ export const serviceService = {
         description: service.description,
         price: service.price,
         duration: service.duration,
+        bufferMinutes: service.buffer_minutes ?? 0,
         category: service.category,
         commissionPercent: service.commission_percent,
+        taxRate: service.tax_rate ?? 20,
+        priceIncludesTax: service.price_includes_tax ?? true,
         isActive: service.is_active,
         requiredProducts: Array.isArray(service.required_products) ? service.required_products : [],
         assignedStaff: service.assigned_staff || [],
@@ -386,8 +401,11 @@ export const serviceService = {
           description: serviceData.description,
           price: serviceData.price,
           duration: serviceData.duration,
+          buffer_minutes: serviceData.bufferMinutes || 0,
           category: serviceData.category,
           commission_percent: serviceData.commissionPercent || 0,
+          tax_rate: serviceData.taxRate ?? 20,
+          price_includes_tax: serviceData.priceIncludesTax ?? true,
           is_active: serviceData.isActive,
           required_products: serviceData.requiredProducts || [],
           assigned_staff: serviceData.assignedStaff || [],
@@ -407,8 +425,11 @@ export const serviceService = {
         description: data.description,
         price: data.price,
         duration: data.duration,
+        bufferMinutes: data.buffer_minutes ?? 0,
         category: data.category,
         commissionPercent: data.commission_percent,
+        taxRate: data.tax_rate ?? 20,
+        priceIncludesTax: data.price_includes_tax ?? true,
         isActive: data.is_active,
         requiredProducts: data.required_products,
         assignedStaff: data.assigned_staff,
@@ -439,8 +460,11 @@ export const serviceService = {
           description: serviceData.description,
           price: serviceData.price,
           duration: serviceData.duration,
+          buffer_minutes: serviceData.bufferMinutes,
           category: serviceData.category,
           commission_percent: serviceData.commissionPercent,
+          tax_rate: serviceData.taxRate,
+          price_includes_tax: serviceData.priceIncludesTax,
           is_active: serviceData.isActive,
           required_products: serviceData.requiredProducts || [],
           assigned_staff: serviceData.assignedStaff || [],
@@ -462,8 +486,11 @@ export const serviceService = {
         description: data.description,
         price: data.price,
         duration: data.duration,
+        bufferMinutes: data.buffer_minutes ?? 0,
         category: data.category,
         commissionPercent: data.commission_percent,
+        taxRate: data.tax_rate ?? 20,
+        priceIncludesTax: data.price_includes_tax ?? true,
         isActive: data.is_active,
         requiredProducts: data.required_products,
         assignedStaff: data.assigned_staff,
@@ -512,7 +539,7 @@ export const productService = {
       console.log('🔍 Fetching products from Supabase...');
       const { data, error } = await supabase
         .from('products')
-        .select('id, name, brand, category, volume, unit, quantity, min_quantity, price, cost, is_active, created_at, updated_at, sealed_bottles, open_bottle_remaining_ml, bottle_capacity_ml, min_stock_threshold, is_bottle_tracked, bottle_size_ml')
+        .select('id, name, brand, category, volume, unit, quantity, min_quantity, price, cost, tax_rate, price_includes_tax, is_active, created_at, updated_at, sealed_bottles, open_bottle_remaining_ml, bottle_capacity_ml, min_stock_threshold, is_bottle_tracked, bottle_size_ml, pao_months')
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -535,6 +562,8 @@ export const productService = {
         minThreshold: product.min_quantity || 10, // Use min_quantity as minThreshold
         price: product.price || 0,
         cost: product.cost || 0,
+        taxRate: product.tax_rate ?? 20,
+        priceIncludesTax: product.price_includes_tax ?? true,
         isActive: product.is_active !== false, // Default to active
         imageUrl: '', // Default empty string since image_url column doesn't exist
         archived: false, // Default false since archived column doesn't exist
@@ -542,6 +571,7 @@ export const productService = {
         sealed_bottles: product.sealed_bottles || 0,
         open_bottle_remaining_ml: product.open_bottle_remaining_ml || 0,
         bottle_capacity_ml: product.bottle_size_ml || 1000,
+        paoMonths: product.pao_months || undefined,
         createdAt: product.created_at,
         updatedAt: product.updated_at,
       })) || [];
@@ -578,11 +608,14 @@ export const productService = {
           min_quantity: productData.minQuantity || productData.minThreshold || 10,
           price: productData.price,
           cost: productData.cost,
+          tax_rate: productData.taxRate ?? 20,
+          price_includes_tax: productData.priceIncludesTax ?? true,
           is_active: productData.isActive,
           // Bottle-specific fields
           sealed_bottles: productData.sealed_bottles || 0,
           open_bottle_remaining_ml: productData.open_bottle_remaining_ml || 0,
           bottle_size_ml: productData.bottle_capacity_ml || productData.bottleSizeMl || 1000,
+          pao_months: productData.paoMonths || null,
         })
         .select()
         .single();
@@ -602,6 +635,8 @@ export const productService = {
         minThreshold: data.min_quantity || 10,
         price: data.price,
         cost: data.cost,
+        taxRate: data.tax_rate ?? 20,
+        priceIncludesTax: data.price_includes_tax ?? true,
         isActive: data.is_active,
         imageUrl: '', // Default empty string since image_url column doesn't exist
         archived: false, // Default false since archived column doesn't exist
@@ -609,6 +644,7 @@ export const productService = {
         sealed_bottles: data.sealed_bottles || 0,
         open_bottle_remaining_ml: data.open_bottle_remaining_ml || 0,
         bottle_capacity_ml: data.bottle_size_ml || 1000,
+        paoMonths: data.pao_months || undefined,
         createdAt: data.created_at,
         updatedAt: data.updated_at,
       };
@@ -648,6 +684,8 @@ export const productService = {
       if (productData.minQuantity !== undefined) updateData.min_quantity = productData.minQuantity;
       if (productData.price !== undefined) updateData.price = productData.price;
       if (productData.cost !== undefined) updateData.cost = productData.cost;
+      if (productData.taxRate !== undefined) updateData.tax_rate = productData.taxRate;
+      if (productData.priceIncludesTax !== undefined) updateData.price_includes_tax = productData.priceIncludesTax;
       if (productData.isActive !== undefined) updateData.is_active = productData.isActive;
       
       // Handle bottle-specific fields (both camelCase from frontend and snake_case from database)
@@ -663,6 +701,7 @@ export const productService = {
       if (productData.is_bottle_tracked !== undefined) updateData.is_bottle_tracked = productData.is_bottle_tracked;
       if (productData.isBottleTracked !== undefined) updateData.is_bottle_tracked = productData.isBottleTracked;
       if (productData.brand !== undefined) updateData.brand = productData.brand;
+      if (productData.paoMonths !== undefined) updateData.pao_months = productData.paoMonths || null;
 
       const { data, error } = await supabase
         .from('products')
@@ -686,6 +725,8 @@ export const productService = {
         minThreshold: data.min_quantity || 10,
         price: data.price,
         cost: data.cost,
+        taxRate: data.tax_rate ?? 20,
+        priceIncludesTax: data.price_includes_tax ?? true,
         isActive: data.is_active,
         imageUrl: '', // Default empty string since image_url column doesn't exist
         archived: false, // Default false since archived column doesn't exist
@@ -693,6 +734,7 @@ export const productService = {
         sealed_bottles: data.sealed_bottles || 0,
         open_bottle_remaining_ml: data.open_bottle_remaining_ml || 0,
         bottle_capacity_ml: data.bottle_size_ml || 1000,
+        paoMonths: data.pao_months || undefined,
         createdAt: data.created_at,
         updatedAt: data.updated_at,
       };
@@ -804,6 +846,8 @@ export const productService = {
     invoiceNumber?: string;
     notes?: string;
     restockDate: string;
+    batchNumber?: string;
+    expiresAt?: string; // YYYY-MM-DD
   }): Promise<boolean> {
     if (!isSupabaseConfigured()) {
       throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
@@ -830,33 +874,35 @@ export const productService = {
 
       const currentBottles = currentProduct.sealed_bottles || 0;
       const newBottleCount = currentBottles + restockData.bottlesToAdd;
+      const capacity = currentProduct.bottle_capacity_ml || 1000;
 
-      // Update the product's sealed bottles count and cost if provided
-      const updateData: any = {
-        sealed_bottles: newBottleCount,
-        updated_at: new Date().toISOString(),
-      };
+      // One lot per bottle; the lots add them to sealed_bottles (product-lots.sql)
+      const { error: lotsError } = await supabase
+        .from('product_lots')
+        .insert(Array.from({ length: restockData.bottlesToAdd }, () => ({
+          product_id: restockData.productId,
+          batch_number: restockData.batchNumber || null,
+          expires_at: restockData.expiresAt || null,
+          capacity_ml: capacity,
+          remaining_ml: capacity,
+        })));
+
+      if (lotsError) {
+        console.error('❌ Error adding product lots:', lotsError);
+        throw lotsError;
+      }
 
       // Update cost if provided and different from current
       if (restockData.costPerBottle > 0 && restockData.costPerBottle !== currentProduct.cost) {
-        updateData.cost = restockData.costPerBottle;
-      }
-
-      console.log('🔄 Updating product with data:', {
-        productId: restockData.productId,
-        updateData,
-        currentBottles,
-        newBottleCount
-      });
-
-      const { error: updateError } = await supabase
-        .from('products')
-        .update(updateData)
-        .eq('id', restockData.productId);
-
-      if (updateError) {
-        console.error('❌ Error updating product stock:', updateError);
-        throw updateError;
+        const { error: updateError } = await supabase
+          .from('products')
+          .update({ cost: restockData.costPerBottle, updated_at: new Date().toISOString() })
+          .eq('id', restockData.productId);
+
+        if (updateError) {
+          console.error('❌ Error updating product cost:', updateError);
+          throw updateError;
+        }
       }
 
       // Log the restock in stock history
@@ -1071,6 +1117,26 @@ export const productService = {
 };
 
 // SALE OPERATIONS
+const mapSaleTaxLine = (taxLine: any): SaleTaxLine => ({
+  rate: Number(taxLine.tax_rate) || 0,
+  inclusive: taxLine.price_includes_tax !== false,
+  taxableAmount: Number(taxLine.taxable_amount) || 0,
+  taxAmount: Number(taxLine.tax_amount) || 0,
+});
+
+const mapSaleRetailItem = (item: any): SaleRetailItem => ({
+  id: item.id,
+  productId: item.product_id,
+  productName: item.products?.name,
+  quantity: Number(item.quantity) || 0,
+  unitPrice: Number(item.unit_price) || 0,
+  unitCost: Number(item.unit_cost) || 0,
+  taxRate: Number(item.tax_rate) || 0,
+  priceIncludesTax: item.price_includes_tax !== false,
+  taxAmount: Number(item.tax_amount) || 0,
+  refundedAt: item.refunded_at || undefined,
+});
+
 export const saleService = {
   async create(saleData: Omit<Sale, 'id' | 'createdAt'>): Promise<Sale | null> {
     if (!isSupabaseConfigured()) {
@@ -1270,7 +1336,12 @@ export const saleService = {
         .from('sales')
         .select(`
           id, client_id, service_id, staff_id, products, total_amount, 
-          payment_method, status, notes, created_at,
+          payment_method, status, subtotal_amount, discount_amount, tip_amount, refunded_amount, cash_session_id, receipt_number, invoice_number, tax_amount, booking_id, notes, created_at,
+          sale_discounts(source, scope, discount_type, value, amount, service_id, code, loyalty_points, reason),
+          sale_payments(method, amount, tendered, change_given, reference),
+          sale_tips(id, staff_id, amount, status, users(name)),
+          sale_tax_lines(tax_rate, price_includes_tax, taxable_amount, tax_amount),
+          sale_retail_items(id, product_id, quantity, unit_price, unit_cost, tax_rate, price_includes_tax, tax_amount, refunded_at, products(name)),
           clients(id, name, phone),
           services(id, name, price),
           users(id, name, role)
@@ -1292,7 +1363,43 @@ export const saleService = {
         products: sale.products || [],
         totalAmount: sale.total_amount || 0,
         paymentMethod: sale.payment_method || 'cash',
+        payments: (sale.sale_payments || []).map((payment: any) => ({
+          method: payment.method,
+          amount: payment.amount,
+          tendered: payment.tendered ?? undefined,
+          changeGiven: payment.change_given || 0,
+          reference: payment.reference || undefined,
+        })),
         status: sale.status || 'completed',
+        subtotalAmount: sale.subtotal_amount ?? sale.total_amount ?? 0,
+        discountAmount: sale.discount_amount || 0,
+        discounts: (sale.sale_discounts || []).map((discount: any) => ({
+          source: discount.source,
+          scope: discount.scope,
+          discountType: discount.discount_type,
+          value: discount.value,
+          amount: discount.amount,
+          serviceId: discount.service_id || undefined,
+          code: discount.code || undefined,
+          loyaltyPoints: discount.loyalty_points || undefined,
+          reason: discount.reason || undefined,
+        })),
+        tipAmount: sale.tip_amount || 0,
+        tips: (sale.sale_tips || []).map((tip: any) => ({
+          id: tip.id,
+          staffId: tip.staff_id,
+          staffName: tip.users?.name,
+          amount: tip.amount,
+          status: tip.status,
+        })),
+        refundedAmount: sale.refunded_amount || 0,
+        cashSessionId: sale.cash_session_id || undefined,
+        bookingId: sale.booking_id || undefined,
+        receiptNumber: sale.receipt_number || undefined,
+        invoiceNumber: sale.invoice_number || undefined,
+        taxAmount: sale.tax_amount || 0,
+        taxLines: (sale.sale_tax_lines || []).map(mapSaleTaxLine),
+        retailItems: (sale.sale_retail_items || []).map(mapSaleRetailItem),
         notes: sale.notes || '',
         createdAt: sale.created_at,
       })) || [];
@@ -1340,26 +1447,12 @@ export const saleService = {
     }
   },
 
-  // Enhanced method for complete POS flow with multiple services
-  async createCompleteSale(saleData: {
-    clientId: string;
-    services: Array<{
-      serviceId: string;
-      originalPrice: number;
-      adjustedPrice: number;
-      priceAdjustmentReason?: string;
-      quantity: number;
-      products: Array<{
-        productId: string;
-        quantity: number;
-        unit: string;
-      }>;
-    }>;
-    staffId: string;
-    paymentMethod: 'cash' | 'card' | 'transfer';
-    totalAmount: number;
-    notes?: string;
-  }): Promise<{ sale: Sale; receipt: any; commission: number } | null> {
+  // Complete POS flow with multiple services and retail products, processed
+  // atomically by the process_complete_sale() database function (see
+  // atomic-sale-transaction.sql).
+  // The requestKey must stay the same across retries of the same checkout so a
+  // resubmitted sale is never charged or consumed twice.
+  async createCompleteSale(saleData: CompleteSaleRequest): Promise<{ sale: Sale; receipt: ReceiptData & { commission: number }; commission: number; stockUpdates: any[]; replayed: boolean } | null> {
     if (!isSupabaseConfigured()) {
       throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
     }
@@ -1367,259 +1460,93 @@ export const saleService = {
     try {
       console.log('🛒 Creating complete sale with data:', saleData);
 
-      // Use provided total amount and validate stock
-      const totalAmount = saleData.totalAmount;
-      const serviceDetails = [];
-      const allProducts = [];
-
-      // Fetch service details and validate stock
-      for (const serviceItem of saleData.services) {
-        const { data: service, error: serviceError } = await supabase
-          .from('services')
-          .select('id, name, price, commission_percent')
-          .eq('id', serviceItem.serviceId)
-          .single();
-
-        if (serviceError) {
-          throw new Error(`Service not found: ${serviceItem.serviceId}`);
-        }
-
-        serviceDetails.push(service);
-
-        // Validate stock for each product
-        for (const product of serviceItem.products) {
-          const { data: productData, error: productError } = await supabase
-            .from('products')
-            .select('id, name, price, is_bottle_tracked, bottle_capacity_ml, sealed_bottles, open_bottle_remaining_ml')
-            .eq('id', product.productId)
-            .single();
-
-          if (productError) {
-            throw new Error(`Product not found: ${product.productId}`);
-          }
-
-          // For bottle-tracked products, validate using bottle inventory
-          if (productData.is_bottle_tracked) {
-            const { SimpleBottleConsumptionService } = await import('./SimpleBottleConsumptionService');
-            const inventoryStatus = await SimpleBottleConsumptionService.getInventoryStatus();
-            const productStatus = inventoryStatus.find(p => p.id === product.productId);
-            
-            const requiredMl = product.quantity; // Assuming quantity is in ml for bottle-tracked products
-            
-            if (!productStatus || productStatus.total_ml_available < requiredMl) {
-              throw new Error(`Not enough stock for product ${productData.name}. Available: ${productStatus?.total_ml_available || 0}ml, Required: ${requiredMl}ml`);
-            }
-          } else {
-            // For non-bottle-tracked products, we'll phase out quantity-based tracking
-            console.warn(`Product ${productData.name} is not bottle-tracked. Consider migrating to bottle-based inventory.`);
-          }
-
-          allProducts.push({
-            ...product,
-            productData,
-            serviceId: serviceItem.serviceId
-          });
-        }
-      }
-
-      // Start transaction by creating the main sale record
-      // Use the first service as the primary service for the sale record
-      const primaryServiceId = serviceDetails.length > 0 ? serviceDetails[0].id : null;
-      
-      if (!primaryServiceId) {
-        throw new Error('At least one service is required for a sale');
-      }
-
-      const { data: saleResult, error: saleError } = await supabase
-        .from('sales')
-        .insert({
-          client_id: saleData.clientId,
-          service_id: primaryServiceId,
-          staff_id: saleData.staffId,
-          total_amount: totalAmount,
-          payment_method: saleData.paymentMethod,
-          status: 'completed',
-          notes: saleData.notes || '',
-        })
-        .select()
-        .single();
-
-      if (saleError) {
-        throw saleError;
-      }
-
-      console.log('✅ Main sale record created:', saleResult);
-
-      // Create service items for each service instance
-      for (const serviceItem of saleData.services) {
-        const service = serviceDetails.find(s => s.id === serviceItem.serviceId);
-        if (!service) continue;
-
-        // Create service items for each quantity
-        for (let i = 0; i < serviceItem.quantity; i++) {
-          const { error: serviceItemError } = await supabase
-            .from('service_items')
-            .insert({
-              sale_id: saleResult.id,
-              service_id: serviceItem.serviceId,
-              original_price: serviceItem.originalPrice,
-              adjusted_price: serviceItem.adjustedPrice,
-              price_adjustment_reason: serviceItem.priceAdjustmentReason,
-              quantity_sold: 1, // Each service item represents one instance
-            });
-
-          if (serviceItemError) {
-            console.error('❌ Error creating service item:', serviceItemError);
-            throw serviceItemError;
-          }
-        }
+      if (!saleData.requestKey) {
+        throw new Error('A request key is required to create a sale');
       }
 
-      // Process products: create usage records and update stock atomically
-      const stockUpdates = [];
-      for (const product of allProducts) {
-        // Only create sale_product_usage records for non-bottle-tracked products
-        // Bottle-tracked products use the bottle consumption system instead
-        if (!product.productData.is_bottle_tracked) {
-          const { error: usageError } = await supabase
-            .from('sale_product_usage')
-            .insert({
-              sale_id: saleResult.id,
-              product_id: product.productId,
-              qty_used: product.quantity,
-              unit: product.unit,
-            });
-
-          if (usageError) {
-            throw usageError;
-          }
-        }
-
-        // Note: Bottle consumption is now handled by ComprehensiveSalonInventoryService in POS.tsx
-        // This prevents duplicate consumption calls
-        stockUpdates.push({
-          productId: product.productId,
-          productName: product.productData.name,
-          quantityUsed: product.quantity,
-          unit: product.unit,
-          note: 'Consumption handled by ComprehensiveSalonInventoryService'
-        });
-
-        // Note: For bottle-tracked products, consumption is already logged in product_consumption_log
-        // by the SimpleBottleConsumptionService. No need for additional inventory_movements logging.
+      if (saleData.services.length === 0 && (saleData.retailItems || []).length === 0) {
+        throw new Error('At least one service or retail product is required for a sale');
       }
 
-      // Update client statistics
-      const { data: currentClient, error: clientFetchError } = await supabase
-        .from('clients')
-        .select('total_visits, total_spent')
-        .eq('id', saleData.clientId)
-        .single();
-
-      if (!clientFetchError && currentClient) {
-        await supabase
-          .from('clients')
-          .update({
-            total_visits: (currentClient.total_visits || 0) + 1,
-            total_spent: (currentClient.total_spent || 0) + totalAmount,
-            last_visit: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', saleData.clientId);
-      }
+      const { data: result, error } = await supabase.rpc('process_complete_sale', {
+        p_sale: saleData,
+      });
 
-      // Calculate and create commissions based on service items
-      let totalCommission = 0;
-      for (const serviceItem of saleData.services) {
-        const service = serviceDetails.find(s => s.id === serviceItem.serviceId);
-        if (service && service.commission_percent > 0) {
-          // Calculate commission for each service instance
-          for (let i = 0; i < serviceItem.quantity; i++) {
-            const commissionAmount = (serviceItem.adjustedPrice * service.commission_percent) / 100;
-            totalCommission += commissionAmount;
-
-            await supabase
-              .from('commissions')
-              .insert({
-                staff_id: saleData.staffId,
-                sale_id: saleResult.id,
-                service_id: serviceItem.serviceId,
-                commission_amount: commissionAmount,
-                commission_percentage: service.commission_percent,
-                status: 'pending',
-              });
-          }
-        }
+      if (error) {
+        throw error;
       }
 
-      // Get client details for receipt
-      const { data: clientData } = await supabase
-        .from('clients')
-        .select('name, phone')
-        .eq('id', saleData.clientId)
-        .single();
+      const saleRow = result.sale;
+      const stockUpdates = result.stockUpdates || [];
+      const totalCommission = Number(result.commission) || 0;
 
-      // Prepare sale object
       const sale: Sale = {
-        id: saleResult.id,
-        clientId: saleResult.client_id,
-        serviceId: serviceDetails[0]?.id || '', // For compatibility
-        staffId: saleResult.staff_id,
-        products: allProducts.map(p => ({
-          productId: p.productId,
-          quantity: p.quantity,
-          unit: p.unit,
-          unitPrice: p.productData.price,
-          totalPrice: p.quantity * p.productData.price,
+        id: saleRow.id,
+        clientId: saleRow.client_id,
+        serviceId: saleRow.service_id || '',
+        staffId: saleRow.staff_id,
+        products: stockUpdates.map((update: any) => ({
+          productId: update.productId,
+          quantity: update.quantityUsed,
+          unit: update.unit,
+          unitPrice: 0,
+          totalPrice: 0,
         })),
-        totalAmount: saleResult.total_amount,
-        paymentMethod: saleResult.payment_method,
-        status: saleResult.status,
-        notes: saleResult.notes,
-        createdAt: saleResult.created_at,
+        totalAmount: saleRow.total_amount,
+        subtotalAmount: saleRow.subtotal_amount ?? saleRow.total_amount,
+        discountAmount: saleRow.discount_amount || 0,
+        discounts: result.discounts || [],
+        paymentMethod: saleRow.payment_method,
+        payments: result.payments || [],
+        tipAmount: saleRow.tip_amount || 0,
+        tips: result.tips || [],
+        cashSessionId: saleRow.cash_session_id || undefined,
+        bookingId: saleRow.booking_id || undefined,
+        receiptNumber: saleRow.receipt_number || undefined,
+        invoiceNumber: saleRow.invoice_number || undefined,
+        taxAmount: saleRow.tax_amount || 0,
+        taxLines: result.taxLines || [],
+        retailItems: result.retailItems || [],
+        status: saleRow.status,
+        notes: saleRow.notes,
+        createdAt: saleRow.created_at,
       };
 
-      // Get service items with adjusted prices for receipt
-      const { data: serviceItems } = await supabase
-        .from('service_items')
-        .select(`
-          service_id,
-          original_price,
-          adjusted_price,
-          price_adjustment_reason,
-          quantity_sold,
-          services!inner(name)
-        `)
-        .eq('sale_id', saleResult.id);
-
-      // Generate receipt with adjusted prices
       const receipt = {
-        saleId: saleResult.id,
-        clientName: clientData?.name || 'Unknown Client',
-        clientPhone: clientData?.phone || '',
-        services: serviceItems?.map(item => ({
-          name: item.services.name,
-          originalPrice: item.original_price,
-          adjustedPrice: item.adjusted_price,
-          priceAdjustmentReason: item.price_adjustment_reason,
-          quantity: item.quantity_sold
-        })) || [],
+        saleId: saleRow.id,
+        receiptNumber: sale.receiptNumber,
+        invoiceNumber: sale.invoiceNumber,
+        clientName: result.client?.name || 'Unknown Client',
+        clientPhone: result.client?.phone || '',
+        staffName: result.staffName || undefined,
+        services: result.serviceItems || [],
         products: stockUpdates,
-        totalAmount,
-        paymentMethod: saleData.paymentMethod,
-        date: new Date().toISOString(),
+        retailItems: sale.retailItems,
+        subtotalAmount: sale.subtotalAmount,
+        discountAmount: sale.discountAmount,
+        discounts: sale.discounts,
+        taxLines: sale.taxLines,
+        totalAmount: saleRow.total_amount,
+        paymentMethod: saleRow.payment_method,
+        payments: sale.payments,
+        tipAmount: sale.tipAmount,
+        tips: sale.tips,
+        date: saleRow.created_at,
         commission: totalCommission
       };
 
-      console.log('✅ Complete sale processed successfully');
-      toast.success(`Sale completed! ${totalCommission > 0 ? `Commission: $${totalCommission.toFixed(2)}` : ''}`);
+      if (result.replayed) {
+        console.log('♻️ Sale already processed for request key, returning existing sale:', saleRow.id);
+      } else {
+        console.log('✅ Complete sale processed successfully');
+      }
 
       // Clear cache
       clearCache('sales');
       clearCache('products');
       clearCache('clients');
 
-      return { sale, receipt, commission: totalCommission };
+      return { sale, receipt, commission: totalCommission, stockUpdates, replayed: Boolean(result.replayed) };
     } catch (error) {
       console.error('❌ Error creating complete sale:', error);
       handleError(error, 'create complete sale');
@@ -1783,6 +1710,52 @@ export const saleService = {
     }
   },
 
+  // Service lines of a sale, including their refund state
+  async getServiceItems(saleId: string): Promise<Array<{
+    id: string;
+    serviceId: string;
+    serviceName: string;
+    originalPrice: number;
+    adjustedPrice: number;
+    paidAmount: number; // adjusted price plus the TVA added on a tax-exclusive line
+    refundId?: string;
+    refundedAt?: string;
+  }>> {
+    try {
+      const { data, error } = await supabase
+        .from('service_items')
+        .select(`
+          id,
+          service_id,
+          original_price,
+          adjusted_price,
+          price_includes_tax,
+          tax_amount,
+          refund_id,
+          refunded_at,
+          services(name)
+        `)
+        .eq('sale_id', saleId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map((item: any) => ({
+        id: item.id,
+        serviceId: item.service_id,
+        serviceName: item.services?.name || 'Unknown Service',
+        originalPrice: item.original_price || 0,
+        adjustedPrice: item.adjusted_price || 0,
+        paidAmount: (item.adjusted_price || 0) + (item.price_includes_tax === false ? item.tax_amount || 0 : 0),
+        refundId: item.refund_id || undefined,
+        refundedAt: item.refunded_at || undefined,
+      }));
+    } catch (error) {
+      handleError(error, 'fetch sale service items');
+      return [];
+    }
+  },
+
   async getRecentSales(limit: number = 10): Promise<Array<{
     id: string;
     clientName: string;
@@ -1821,112 +1794,357 @@ export const saleService = {
   },
 };
 
-// DASHBOARD STATS
-export const dashboardService = {
-  async getStats(): Promise<DashboardStats | null> {
+// REFUND OPERATIONS
+const mapSaleRefund = (refund: any): SaleRefund => ({
+  id: refund.id,
+  saleId: refund.sale_id,
+  refundType: refund.refund_type,
+  amount: refund.amount || 0,
+  tipAmount: refund.tip_amount || 0,
+  cashAmount: refund.cash_amount || 0,
+  reason: refund.reason,
+  refundedBy: refund.refunded_by,
+  refundedByName: refund.users?.name,
+  serviceItemIds: refund.service_item_ids || [],
+  createdAt: refund.created_at,
+});
+
+export const refundService = {
+  // Refund or void a sale, in full or for selected service lines. The refund
+  // is written atomically by the refund_sale() database function (see
+  // sale-refunds.sql): consumed ml and retail bottles go back to stock, the
+  // matching commissions are cancelled or clawed back, and the client's
+  // totals, loyalty points and promo code use are reversed. Cash paid on the
+  // sale is given back first, as a cash-out of the admin's open cash drawer
+  // session. Retail products are refunded with the whole sale; a void also
+  // gives back the tips not yet paid out.
+  async refundSale(refundData: {
+    saleId: string;
+    mode: 'void' | 'refund';
+    serviceItemIds?: string[]; // omitted = every line not yet refunded
+    reason: string;
+  }): Promise<SaleRefund | null> {
     if (!isSupabaseConfigured()) {
       throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
     }
 
     try {
-      console.log('🔍 Fetching dashboard stats from Supabase...');
-      
-      // Fetch all stats from database with better error handling using admin client
-      const [clientsResult, servicesResult, productsResult, salesResult] = await Promise.all([
-        executeAdminQuery(client => client.from('clients').select('*')).then(result => {
-          console.log('📊 Clients query result:', result);
-          return result;
-        }),
-        executeAdminQuery(client => client.from('services').select('*')).then(result => {
-          console.log('📊 Services query result:', result);
-          return result;
-        }),
-        executeAdminQuery(client => client.from('products').select('*')).then(result => {
-          console.log('📊 Products query result:', result);
-          return result;
-        }),
-        executeAdminQuery(client => client.from('sales').select('*').order('created_at', { ascending: false }).limit(5)).then(result => {
-          console.log('📊 Sales query result:', result);
-          return result;
-        }),
-      ]);
-
-      // Check for errors with detailed logging
-      if (clientsResult.error) {
-        console.error('❌ Clients query error:', clientsResult.error);
-        throw new Error(`Failed to fetch clients: ${clientsResult.error.message}`);
-      }
-      if (servicesResult.error) {
-        console.error('❌ Services query error:', servicesResult.error);
-        throw new Error(`Failed to fetch services: ${servicesResult.error.message}`);
-      }
-      if (productsResult.error) {
-        console.error('❌ Products query error:', productsResult.error);
-        throw new Error(`Failed to fetch products: ${productsResult.error.message}`);
-      }
-      if (salesResult.error) {
-        console.error('❌ Sales query error:', salesResult.error);
-        throw new Error(`Failed to fetch sales: ${salesResult.error.message}`);
+      if (!refundData.reason || refundData.reason.trim().length === 0) {
+        throw new Error('A reason is required to refund a sale');
       }
 
-      console.log('✅ All dashboard queries successful');
-      console.log(`📈 Found: ${clientsResult.data?.length || 0} clients, ${servicesResult.data?.length || 0} services, ${productsResult.data?.length || 0} products, ${salesResult.data?.length || 0} sales`);
+      const { data, error } = await supabase.rpc('refund_sale', {
+        p_sale_id: refundData.saleId,
+        p_mode: refundData.mode,
+        p_service_item_ids: refundData.mode === 'refund' ? refundData.serviceItemIds ?? null : null,
+        p_reason: refundData.reason.trim(),
+      });
 
-      const totalSales = salesResult.data?.reduce((sum, sale) => sum + (sale.total_amount || 0), 0) || 0;
-      const totalClients = clientsResult.data?.length || 0;
-      const totalServices = servicesResult.data?.length || 0;
-      const totalProducts = productsResult.data?.length || 0;
+      if (error) throw error;
 
-      const recentSales = salesResult.data?.map(sale => ({
-        service: servicesResult.data?.find(s => s.id === sale.service_id)?.name || 'Unknown Service',
-        amount: sale.total_amount || 0,
-        date: sale.created_at ? sale.created_at.split('T')[0] : 'Unknown Date',
-      })) || [];
+      const refund = mapSaleRefund(data);
+      toast.success(refund.refundType === 'void' ? 'Sale voided' : `Refund of ${refund.amount.toFixed(2)} recorded`);
+      if (refund.cashAmount > 0) {
+        toast.success(`Pay back ${refund.cashAmount.toFixed(2)} in cash from the drawer`);
+      }
 
-      const lowStockAlerts = productsResult.data
-        ?.filter(product => product.quantity <= (product.min_quantity || 0))
-        ?.map(product => ({
-          product: product.name || 'Unknown Product',
-          quantity: product.quantity || 0,
-          minQuantity: product.min_quantity || 0,
-        })) || [];
+      clearCache('sales');
+      clearCache('products');
+      clearCache('clients');
+      clearCache('commissions');
+      clearCache('tips');
+      clearCache('cash_drawer_sessions');
 
-      // Get top services data from both new format (sale_items) and old format (sales table)
-      
-      // First, try to get data from sale_items table (new format)
-      const { data: saleItemsData, error: saleItemsError } = await supabase
-        .from('sale_items')
-        .select(`
-          service_id,
-          quantity,
-          total_price,
-          services(name)
-        `)
-        .eq('item_type', 'service');
+      return refund;
+    } catch (error) {
+      handleError(error, 'refund sale');
+      return null;
+    }
+  },
 
-      // Also get data from sales table (old format) for backward compatibility
-      const { data: salesData, error: salesError } = await supabase
-        .from('sales')
-        .select(`
-          service_id,
-          total_amount,
-          services(name)
-        `)
-        .not('service_id', 'is', null);
+  async getBySaleId(saleId: string): Promise<SaleRefund[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sale_refunds')
+        .select('*, users(name)')
+        .eq('sale_id', saleId)
+        .order('created_at', { ascending: true });
 
-      if (saleItemsError) {
-        console.error('❌ Error fetching sale items:', saleItemsError);
-      }
-      
-      if (salesError) {
-        console.error('❌ Error fetching sales:', salesError);
-      }
+      if (error) throw error;
 
-      console.log('📊 Sale items data:', saleItemsData?.length || 0, 'records');
-      console.log('📊 Sales data:', salesData?.length || 0, 'records');
+      return (data || []).map(mapSaleRefund);
+    } catch (error) {
+      handleError(error, 'fetch sale refunds');
+      return [];
+    }
+  },
+};
 
-      const serviceStats = new Map();
-      
+// PROMO CODE OPERATIONS
+const mapPromoCode = (row: any): PromoCode => ({
+  id: row.id,
+  code: row.code,
+  description: row.description || '',
+  discountType: row.discount_type,
+  discountValue: Number(row.discount_value) || 0,
+  scope: row.scope || 'cart',
+  serviceIds: row.service_ids || [],
+  minSubtotal: row.min_subtotal ?? undefined,
+  validFrom: row.valid_from || undefined,
+  validUntil: row.valid_until || undefined,
+  usageLimit: row.usage_limit ?? undefined,
+  usageCount: row.usage_count || 0,
+  isActive: row.is_active !== false,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toPromoCodeRow = (promoData: Partial<PromoCode>) => ({
+  ...(promoData.code !== undefined && { code: promoData.code.trim().toUpperCase() }),
+  ...(promoData.description !== undefined && { description: promoData.description?.trim() || null }),
+  ...(promoData.discountType !== undefined && { discount_type: promoData.discountType }),
+  ...(promoData.discountValue !== undefined && { discount_value: promoData.discountValue }),
+  ...(promoData.scope !== undefined && { scope: promoData.scope }),
+  ...(promoData.serviceIds !== undefined && { service_ids: promoData.serviceIds }),
+  ...(promoData.minSubtotal !== undefined && { min_subtotal: promoData.minSubtotal || null }),
+  ...(promoData.validFrom !== undefined && { valid_from: promoData.validFrom || null }),
+  ...(promoData.validUntil !== undefined && { valid_until: promoData.validUntil || null }),
+  ...(promoData.usageLimit !== undefined && { usage_limit: promoData.usageLimit || null }),
+  ...(promoData.isActive !== undefined && { is_active: promoData.isActive }),
+});
+
+export const promoCodeService = {
+  async getAll(): Promise<PromoCode[]> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('promo_codes')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return data?.map(mapPromoCode) || [];
+    } catch (error) {
+      handleError(error, 'fetch promo codes');
+      return [];
+    }
+  },
+
+  // Look up a code entered at the POS; returns null when it does not exist
+  async getByCode(code: string): Promise<PromoCode | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('promo_codes')
+        .select('*')
+        .eq('code', code.trim().toUpperCase())
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? mapPromoCode(data) : null;
+    } catch (error) {
+      handleError(error, 'fetch promo code');
+      return null;
+    }
+  },
+
+  async create(promoData: Omit<PromoCode, 'id' | 'usageCount' | 'createdAt' | 'updatedAt'>): Promise<PromoCode | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('promo_codes')
+        .insert(toPromoCodeRow(promoData))
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('A promo code with this code already exists');
+        }
+        throw error;
+      }
+
+      toast.success('Promo code created successfully');
+      return mapPromoCode(data);
+    } catch (error) {
+      handleError(error, 'create promo code');
+      return null;
+    }
+  },
+
+  async update(id: string, promoData: Partial<PromoCode>): Promise<PromoCode | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('promo_codes')
+        .update({ ...toPromoCodeRow(promoData), updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('A promo code with this code already exists');
+        }
+        throw error;
+      }
+
+      toast.success('Promo code updated successfully');
+      return mapPromoCode(data);
+    } catch (error) {
+      handleError(error, 'update promo code');
+      return null;
+    }
+  },
+
+  async delete(id: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      const { error } = await supabase
+        .from('promo_codes')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        // Codes already used on a sale are kept for history
+        if (error.code === '23503') {
+          throw new Error('This promo code has been used on sales; deactivate it instead');
+        }
+        throw error;
+      }
+
+      toast.success('Promo code deleted successfully');
+      return true;
+    } catch (error) {
+      handleError(error, 'delete promo code');
+      return false;
+    }
+  },
+};
+
+// DASHBOARD STATS
+export const dashboardService = {
+  async getStats(): Promise<DashboardStats | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      console.log('🔍 Fetching dashboard stats from Supabase...');
+      
+      // Fetch all stats from database with better error handling using admin client
+      const [clientsResult, servicesResult, productsResult, salesResult] = await Promise.all([
+        executeAdminQuery(client => client.from('clients').select('*')).then(result => {
+          console.log('📊 Clients query result:', result);
+          return result;
+        }),
+        executeAdminQuery(client => client.from('services').select('*')).then(result => {
+          console.log('📊 Services query result:', result);
+          return result;
+        }),
+        executeAdminQuery(client => client.from('products').select('*')).then(result => {
+          console.log('📊 Products query result:', result);
+          return result;
+        }),
+        executeAdminQuery(client => client.from('sales').select('*').order('created_at', { ascending: false }).limit(5)).then(result => {
+          console.log('📊 Sales query result:', result);
+          return result;
+        }),
+      ]);
+
+      // Check for errors with detailed logging
+      if (clientsResult.error) {
+        console.error('❌ Clients query error:', clientsResult.error);
+        throw new Error(`Failed to fetch clients: ${clientsResult.error.message}`);
+      }
+      if (servicesResult.error) {
+        console.error('❌ Services query error:', servicesResult.error);
+        throw new Error(`Failed to fetch services: ${servicesResult.error.message}`);
+      }
+      if (productsResult.error) {
+        console.error('❌ Products query error:', productsResult.error);
+        throw new Error(`Failed to fetch products: ${productsResult.error.message}`);
+      }
+      if (salesResult.error) {
+        console.error('❌ Sales query error:', salesResult.error);
+        throw new Error(`Failed to fetch sales: ${salesResult.error.message}`);
+      }
+
+      console.log('✅ All dashboard queries successful');
+      console.log(`📈 Found: ${clientsResult.data?.length || 0} clients, ${servicesResult.data?.length || 0} services, ${productsResult.data?.length || 0} products, ${salesResult.data?.length || 0} sales`);
+
+      const totalSales = salesResult.data?.reduce((sum, sale) => sum + (sale.total_amount || 0), 0) || 0;
+      const totalClients = clientsResult.data?.length || 0;
+      const totalServices = servicesResult.data?.length || 0;
+      const totalProducts = productsResult.data?.length || 0;
+
+      const recentSales = salesResult.data?.map(sale => ({
+        service: servicesResult.data?.find(s => s.id === sale.service_id)?.name || 'Unknown Service',
+        amount: sale.total_amount || 0,
+        date: sale.created_at ? sale.created_at.split('T')[0] : 'Unknown Date',
+      })) || [];
+
+      const lowStockAlerts = productsResult.data
+        ?.filter(product => product.quantity <= (product.min_quantity || 0))
+        ?.map(product => ({
+          product: product.name || 'Unknown Product',
+          quantity: product.quantity || 0,
+          minQuantity: product.min_quantity || 0,
+        })) || [];
+
+      // Get top services data from both new format (sale_items) and old format (sales table)
+      
+      // First, try to get data from sale_items table (new format)
+      const { data: saleItemsData, error: saleItemsError } = await supabase
+        .from('sale_items')
+        .select(`
+          service_id,
+          quantity,
+          total_price,
+          services(name)
+        `)
+        .eq('item_type', 'service');
+
+      // Also get data from sales table (old format) for backward compatibility
+      const { data: salesData, error: salesError } = await supabase
+        .from('sales')
+        .select(`
+          service_id,
+          total_amount,
+          services(name)
+        `)
+        .not('service_id', 'is', null);
+
+      if (saleItemsError) {
+        console.error('❌ Error fetching sale items:', saleItemsError);
+      }
+      
+      if (salesError) {
+        console.error('❌ Error fetching sales:', salesError);
+      }
+
+      console.log('📊 Sale items data:', saleItemsData?.length || 0, 'records');
+      console.log('📊 Sales data:', salesData?.length || 0, 'records');
+
+      const serviceStats = new Map();
+      
       // Process sale_items data (new format)
       saleItemsData?.forEach(item => {
         const serviceId = item.service_id;
@@ -2033,8 +2251,57 @@ export const dashboardService = {
 
 // STAFF OPERATIONS
 // BOOKING OPERATIONS
+const mapBookingSegment = (segment: any): BookingSegment => ({
+  id: segment.id,
+  bookingId: segment.booking_id,
+  position: segment.position,
+  serviceId: segment.service_id,
+  staffId: segment.staff_id,
+  startAt: segment.start_at,
+  endAt: segment.end_at,
+});
+
+const mapBooking = (booking: any): Booking => ({
+  id: booking.id,
+  clientId: booking.client_id,
+  serviceId: booking.service_id,
+  staffId: booking.staff_id,
+  date: booking.date || booking.start_at?.split('T')[0] || '',
+  time: booking.time || booking.start_at?.split('T')[1]?.substring(0, 5) || '',
+  duration: booking.duration || 60,
+  status: BookingStatusService.normalize(booking.status),
+  notes: booking.notes || '',
+  createdAt: booking.created_at,
+  updatedAt: booking.updated_at,
+  startAt: booking.start_at,
+  endAt: booking.end_at,
+  confirmedAt: booking.confirmed_at || undefined,
+  checkedInAt: booking.checked_in_at || undefined,
+  startedAt: booking.started_at || undefined,
+  completedAt: booking.completed_at || undefined,
+  cancelledAt: booking.cancelled_at || undefined,
+  noShowAt: booking.no_show_at || undefined,
+  saleId: BookingCheckoutService.findPayingSaleId(booking.sales),
+  segments: booking.booking_segments?.length
+    ? booking.booking_segments.map(mapBookingSegment).sort((a: BookingSegment, b: BookingSegment) => a.position - b.position)
+    : undefined,
+  seriesId: booking.series_id || undefined,
+  seriesIndex: booking.series_index ?? undefined,
+});
+
+const mapBookingStatusChange = (change: any): BookingStatusChange => ({
+  id: change.id,
+  bookingId: change.booking_id,
+  fromStatus: change.from_status ? BookingStatusService.normalize(change.from_status) : undefined,
+  toStatus: BookingStatusService.normalize(change.to_status),
+  changedBy: change.changed_by || undefined,
+  changedByName: change.users?.name,
+  changedAt: change.changed_at,
+  note: change.note || undefined,
+});
+
 export const bookingService = {
-  async getAll(): Promise<any[]> {
+  async getAll(): Promise<Booking[]> {
     if (!isSupabaseConfigured()) {
       throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
     }
@@ -2046,29 +2313,39 @@ export const bookingService = {
           *,
           clients(name, phone),
           services(name, price, duration),
-          users(name)
+          users(name),
+          sales(id, status),
+          booking_segments(*)
         `)
         .order('date', { ascending: true })
         .order('time', { ascending: true });
 
       if (error) throw error;
       
-      // Map database fields to frontend expected format
-      const mappedData = (data || []).map(commission => ({
-        ...commission,
-        commissionPercentage: commission.commission_percentage,
-        commissionAmount: commission.commission_amount,
-        createdAt: commission.created_at,
-        paidAt: commission.paid_at
-      }));
-
-      return mappedData;
+      return (data || []).map(mapBooking);
     } catch (error) {
       handleError(error, 'fetch bookings');
       return [];
     }
   },
 
+  async getById(id: string): Promise<Booking | null> {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select('*, sales(id, status), booking_segments(*)')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? mapBooking(data) : null;
+    } catch (error) {
+      handleError(error, 'fetch booking');
+      return null;
+    }
+  },
+
   async create(bookingData: any): Promise<any | null> {
     if (!isSupabaseConfigured()) {
       throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
@@ -2102,6 +2379,24 @@ export const bookingService = {
     }
   },
 
+  // Several services back to back; each segment's staff member is checked by
+  // the booking_segments trigger (see booking-segments.sql)
+  async createMultiService(request: MultiServiceBookingRequest): Promise<Booking | null> {
+    try {
+      const { data, error } = await supabase.rpc('create_multi_service_booking', {
+        p_booking: request,
+      });
+
+      if (error) throw error;
+
+      toast.success('Booking created successfully');
+      return this.getById(data.id);
+    } catch (error) {
+      handleError(error, 'create booking');
+      return null;
+    }
+  },
+
   async update(id: string, bookingData: any): Promise<any | null> {
     if (!isSupabaseConfigured()) {
       throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
@@ -2148,33 +2443,316 @@ export const bookingService = {
       return false;
     }
   },
-};
 
-// COMMISSION OPERATIONS
-export const commissionService = {
-  async getAll(): Promise<any[]> {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+  // Transitions are checked by the booking_status_transition trigger; the
+  // check here only spares a round trip for moves it would refuse
+  async updateStatus(id: string, from: BookingStatus, to: BookingStatus, note?: string): Promise<any | null> {
+    if (!BookingStatusService.canTransition(from, to)) {
+      toast.error(`A ${from.replace('_', ' ')} booking cannot be marked ${to.replace('_', ' ')}`);
+      return null;
     }
 
     try {
-      const { data, error } = await supabase
-        .from('commissions')
-        .select(`
-          *,
-          users(id, name, email, role),
-          sales(id, total_amount, created_at, payment_method, status),
-          services(id, name, price, commission_percent)
-        `)
-        .order('created_at', { ascending: false });
+      const { data, error } = await supabase.rpc('set_booking_status', {
+        p_booking_id: id,
+        p_status: to,
+        p_note: note || null,
+      });
 
       if (error) throw error;
-      
-      // Map database fields to frontend expected format
-      const mappedData = (data || []).map(commission => ({
-        ...commission,
-        commissionPercentage: commission.commission_percentage || 0,
-        commissionAmount: commission.commission_amount || 0,
+
+      toast.success('Booking status updated');
+      return data;
+    } catch (error) {
+      handleError(error, 'update booking status');
+      return null;
+    }
+  },
+
+  async getStatusHistory(bookingId: string): Promise<BookingStatusChange[]> {
+    try {
+      const { data, error } = await supabase
+        .from('booking_status_history')
+        .select('*, users(name)')
+        .eq('booking_id', bookingId)
+        .order('changed_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(mapBookingStatusChange);
+    } catch (error) {
+      handleError(error, 'fetch booking status history');
+      return [];
+    }
+  },
+};
+
+// BOOKING SERIES OPERATIONS
+export const bookingSeriesService = {
+  async create(request: BookingSeriesRequest): Promise<BookingSeriesResult | null> {
+    try {
+      const { data, error } = await supabase.rpc('create_booking_series', {
+        p_series: request,
+      });
+
+      if (error) throw error;
+
+      toast.success(`${data.created.length} bookings created`);
+      return data as BookingSeriesResult;
+    } catch (error) {
+      handleError(error, 'create booking series');
+      return null;
+    }
+  },
+
+  async getBookings(seriesId: string): Promise<Booking[]> {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select('*, sales(id, status), booking_segments(*)')
+        .eq('series_id', seriesId)
+        .order('series_index', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(mapBooking);
+    } catch (error) {
+      handleError(error, 'fetch booking series');
+      return [];
+    }
+  },
+
+  /**
+   * Cancels the occurrences of booking's series in scope; returns the ids
+   * of the bookings cancelled
+   */
+  async cancel(bookingId: string, scope: RecurrenceScope, note?: string): Promise<string[]> {
+    try {
+      const { data, error } = await supabase.rpc('cancel_booking_series', {
+        p_booking_id: bookingId,
+        p_scope: scope,
+        p_note: note || null,
+      });
+
+      if (error) throw error;
+
+      toast.success(`${(data || []).length} bookings cancelled`);
+      return data || [];
+    } catch (error) {
+      handleError(error, 'cancel bookings');
+      return [];
+    }
+  },
+};
+
+// WAITLIST OPERATIONS
+const mapWaitlistOffer = (offer: any): WaitlistOffer => ({
+  id: offer.id,
+  entryId: offer.entry_id,
+  staffId: offer.staff_id,
+  startAt: offer.start_at,
+  endAt: offer.end_at,
+  expiresAt: offer.expires_at,
+  status: offer.status,
+  sentAt: offer.sent_at || undefined,
+  claimedAt: offer.claimed_at || undefined,
+  createdAt: offer.created_at,
+});
+
+const mapWaitlistEntry = (entry: any): WaitlistEntry => ({
+  id: entry.id,
+  clientId: entry.client_id,
+  serviceId: entry.service_id,
+  staffId: entry.staff_id || undefined,
+  dateFrom: entry.date_from,
+  dateTo: entry.date_to,
+  notes: entry.notes || undefined,
+  status: entry.status,
+  source: entry.source,
+  bookingId: entry.booking_id || undefined,
+  createdAt: entry.created_at,
+  offers: (entry.waitlist_offers || [])
+    .map(mapWaitlistOffer)
+    .sort((a: WaitlistOffer, b: WaitlistOffer) => b.createdAt.localeCompare(a.createdAt)),
+});
+
+export const waitlistService = {
+  async getAll(): Promise<WaitlistEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .select('*, waitlist_offers(*)')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(mapWaitlistEntry);
+    } catch (error) {
+      handleError(error, 'fetch waitlist');
+      return [];
+    }
+  },
+
+  async create(entry: Pick<WaitlistEntry, 'clientId' | 'serviceId' | 'staffId' | 'dateFrom' | 'dateTo' | 'notes'>): Promise<WaitlistEntry | null> {
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .insert({
+          client_id: entry.clientId,
+          service_id: entry.serviceId,
+          staff_id: entry.staffId || null,
+          date_from: entry.dateFrom,
+          date_to: entry.dateTo,
+          notes: entry.notes || null,
+          source: 'staff',
+        })
+        .select('*, waitlist_offers(*)')
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Client added to the waitlist');
+      return mapWaitlistEntry(data);
+    } catch (error) {
+      handleError(error, 'add to waitlist');
+      return null;
+    }
+  },
+
+  async cancel(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('waitlist_entries')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Removed from the waitlist');
+      return true;
+    } catch (error) {
+      handleError(error, 'remove from waitlist');
+      return false;
+    }
+  },
+
+  /**
+   * Offers made when a booking was cancelled or moved that no client has
+   * been messaged about yet; the scheduler sends each notice
+   */
+  async getUnsentOffers(): Promise<WaitlistOfferNotice[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_unsent_waitlist_offers');
+
+      if (error) throw error;
+
+      return (data || []).map((row: any): WaitlistOfferNotice => ({
+        offerId: row.offer_id,
+        token: row.token,
+        clientName: row.client_name,
+        clientPhone: row.client_phone,
+        serviceName: row.service_name,
+        staffName: row.staff_name,
+        startAt: row.start_at,
+        expiresAt: row.expires_at,
+      }));
+    } catch (error) {
+      console.error('Error fetching unsent waitlist offers:', error);
+      throw error;
+    }
+  },
+
+  async markOfferSent(offerId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('waitlist_offers')
+        .update({ sent_at: new Date().toISOString() })
+        .eq('id', offerId);
+
+      if (error) throw error;
+    } catch (error) {
+      handleError(error, 'record waitlist offer');
+    }
+  },
+};
+
+// BOOKING MESSAGE OPERATIONS
+// Used by the scheduler in the background, so failures are logged rather
+// than shown to whoever is at the screen
+export const bookingMessageService = {
+  async getDue(reminderHours: number): Promise<DueBookingMessage[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_due_booking_messages', {
+        p_reminder_hours: reminderHours,
+      });
+
+      if (error) throw error;
+
+      return (data || []).map((row: any): DueBookingMessage => ({
+        bookingId: row.booking_id,
+        kind: row.kind,
+        clientName: row.client_name,
+        clientPhone: row.client_phone,
+        clientLanguage: row.client_language || undefined,
+        serviceName: row.service_name,
+        staffName: row.staff_name,
+        startAt: row.start_at,
+        manageToken: row.manage_token || undefined,
+      }));
+    } catch (error) {
+      console.error('Error fetching due booking messages:', error);
+      throw error;
+    }
+  },
+
+  async log(message: Pick<BookingMessage, 'bookingId' | 'kind' | 'phone' | 'body' | 'status' | 'error' | 'providerMessageId'>): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('booking_messages')
+        .insert({
+          booking_id: message.bookingId,
+          kind: message.kind,
+          direction: 'outbound',
+          phone: message.phone,
+          body: message.body,
+          status: message.status,
+          error: message.error || null,
+          provider_message_id: message.providerMessageId || null,
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error logging booking message:', error);
+      throw error;
+    }
+  },
+};
+
+// COMMISSION OPERATIONS
+export const commissionService = {
+  async getAll(): Promise<any[]> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('commissions')
+        .select(`
+          *,
+          users(id, name, email, role),
+          sales(id, total_amount, created_at, payment_method, status),
+          services(id, name, price, commission_percent)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      
+      // Map database fields to frontend expected format
+      const mappedData = (data || []).map(commission => ({
+        ...commission,
+        commissionPercentage: commission.commission_percentage || 0,
+        commissionAmount: commission.commission_amount || 0,
         createdAt: commission.created_at,
         paidAt: commission.paid_at
       }));
@@ -2393,7 +2971,8 @@ export const commissionService = {
     }
   },
 
-  async calculateCommission(saleAmount: number, serviceId: string, staffId: string): Promise<{
+  // Commission is earned on the amount actually charged, after discounts
+  async calculateCommission(saleAmount: number, serviceId: string, staffId: string, discountAmount: number = 0): Promise<{
     percentage: number;
     amount: number;
   }> {
@@ -2412,7 +2991,8 @@ export const commissionService = {
       if (serviceError) throw serviceError;
 
       const percentage = service?.commission_percent || 0;
-      const amount = (saleAmount * percentage) / 100;
+      const discountedAmount = Math.max(0, saleAmount - discountAmount);
+      const amount = (discountedAmount * percentage) / 100;
 
       return { percentage, amount };
     } catch (error) {
@@ -2531,95 +3111,384 @@ export const commissionService = {
   },
 };
 
-// Simple password hashing utility (for production, use bcrypt)
-const hashPassword = async (password: string): Promise<string> => {
-  // Simple hash for demo - in production use bcrypt
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password + 'salt123'); // Add salt
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-};
+// TIP OPERATIONS
+const mapSaleTip = (tip: any): SaleTip => ({
+  id: tip.id,
+  saleId: tip.sale_id,
+  staffId: tip.staff_id,
+  staffName: tip.users?.name,
+  amount: tip.amount || 0,
+  status: tip.status,
+  createdAt: tip.created_at,
+  paidAt: tip.paid_at || undefined,
+});
+
+export const tipService = {
+  async getAll(): Promise<SaleTip[]> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
 
-const verifyPassword = async (password: string, hashedPassword: string): Promise<boolean> => {
-  const hashedInput = await hashPassword(password);
-  return hashedInput === hashedPassword;
-};
+    try {
+      const { data, error } = await supabase
+        .from('sale_tips')
+        .select('*, users(name)')
+        .order('created_at', { ascending: false });
 
-// DATABASE AUTHENTICATION OPERATIONS
-export const authService = {
-  async signIn(email: string, password: string): Promise<any | null> {
+      if (error) throw error;
+      return (data || []).map(mapSaleTip);
+    } catch (error) {
+      handleError(error, 'fetch tips');
+      return [];
+    }
+  },
+
+  async getByStaffId(staffId: string): Promise<SaleTip[]> {
     if (!isSupabaseConfigured()) {
       throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
     }
 
     try {
-      console.log('🔍 Attempting login for email:', email);
-      
-      // Find user by email
-      const { data: user, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('email', email)
-        .single();
+      const { data, error } = await supabase
+        .from('sale_tips')
+        .select('*, users(name)')
+        .eq('staff_id', staffId)
+        .order('created_at', { ascending: false });
 
-      console.log('👤 User query result:', { user, error });
+      if (error) throw error;
+      return (data || []).map(mapSaleTip);
+    } catch (error) {
+      handleError(error, 'fetch staff tips');
+      return [];
+    }
+  },
 
-      if (error || !user) {
-        console.log('❌ User not found or error:', error);
-        throw new Error('Invalid email or password');
-      }
+  async markAsPaid(ids: string[]): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
 
-      // Verify password
-      const hashedInput = await hashPassword(password);
-      console.log('🔐 Password verification:', {
-        inputPassword: password,
-        hashedInput,
-        storedHash: user.password,
-        match: hashedInput === user.password
-      });
-      
-      const isValidPassword = await verifyPassword(password, user.password);
-      if (!isValidPassword) {
-        console.log('❌ Password verification failed');
-        throw new Error('Invalid email or password');
-      }
+    try {
+      const { error } = await supabase
+        .from('sale_tips')
+        .update({
+          status: 'paid',
+          paid_at: new Date().toISOString(),
+        })
+        .in('id', ids)
+        .eq('status', 'pending');
 
-      // Update last login
-      await supabase
-        .from('users')
-        .update({ last_login: new Date().toISOString() })
-        .eq('id', user.id);
+      if (error) throw error;
 
-      // Return user without password
-      const { password: _, ...userWithoutPassword } = user;
-      toast.success('Login successful');
-      return userWithoutPassword;
+      clearCache('tips');
+      return true;
     } catch (error) {
-      handleError(error, 'sign in');
-      return null;
+      handleError(error, 'mark tips as paid');
+      return false;
     }
   },
+};
 
-  async signUp(email: string, password: string, name: string, role: 'admin' | 'staff' = 'staff'): Promise<any | null> {
+// CASH DRAWER OPERATIONS
+const mapCashDrawerSession = (session: any): CashDrawerSession => ({
+  id: session.id,
+  staffId: session.staff_id,
+  staffName: session.users?.name,
+  status: session.status,
+  openingFloat: session.opening_float || 0,
+  openedAt: session.opened_at,
+  closedAt: session.closed_at || undefined,
+  expectedCash: session.expected_cash ?? undefined,
+  countedCash: session.counted_cash ?? undefined,
+  discrepancy: session.discrepancy ?? undefined,
+  closingNotes: session.closing_notes || undefined,
+});
+
+const mapCashDrawerMovement = (movement: any): CashDrawerMovement => ({
+  id: movement.id,
+  sessionId: movement.session_id,
+  movementType: movement.movement_type,
+  amount: movement.amount || 0,
+  reason: movement.reason,
+  createdBy: movement.created_by || undefined,
+  createdAt: movement.created_at,
+});
+
+export const cashDrawerService = {
+  async getOpenSession(staffId: string): Promise<CashDrawerSession | null> {
     if (!isSupabaseConfigured()) {
       throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
     }
 
     try {
-      // Check if user already exists
-      const { data: existingUser } = await supabase
-        .from('users')
-        .select('id')
-        .eq('email', email)
-        .single();
-
-      if (existingUser) {
-        throw new Error('User with this email already exists');
-      }
+      const { data, error } = await supabase
+        .from('cash_drawer_sessions')
+        .select('*, users!cash_drawer_sessions_staff_id_fkey(name)')
+        .eq('staff_id', staffId)
+        .eq('status', 'open')
+        .maybeSingle();
 
-      // Hash password
-      const hashedPassword = await hashPassword(password);
+      if (error) throw error;
+      return data ? mapCashDrawerSession(data) : null;
+    } catch (error) {
+      handleError(error, 'fetch open cash drawer session');
+      return null;
+    }
+  },
+
+  async openSession(staffId: string, openingFloat: number): Promise<CashDrawerSession | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      if (openingFloat < 0) {
+        throw new Error('The opening float cannot be negative');
+      }
+
+      const { data, error } = await supabase
+        .from('cash_drawer_sessions')
+        .insert({ staff_id: staffId, opening_float: openingFloat })
+        .select('*, users!cash_drawer_sessions_staff_id_fkey(name)')
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Cash drawer opened');
+      clearCache('cash_drawer_sessions');
+      return mapCashDrawerSession(data);
+    } catch (error) {
+      handleError(error, 'open cash drawer session');
+      return null;
+    }
+  },
+
+  async getMovements(sessionId: string): Promise<CashDrawerMovement[]> {
+    try {
+      const { data, error } = await supabase
+        .from('cash_drawer_movements')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(mapCashDrawerMovement);
+    } catch (error) {
+      handleError(error, 'fetch cash drawer movements');
+      return [];
+    }
+  },
+
+  async addMovement(movement: Omit<CashDrawerMovement, 'id' | 'createdAt'>): Promise<CashDrawerMovement | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      if (!movement.reason || movement.reason.trim().length === 0) {
+        throw new Error('A reason is required for cash in and cash out entries');
+      }
+
+      const { data, error } = await supabase
+        .from('cash_drawer_movements')
+        .insert({
+          session_id: movement.sessionId,
+          movement_type: movement.movementType,
+          amount: movement.amount,
+          reason: movement.reason.trim(),
+          created_by: movement.createdBy,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast.success(movement.movementType === 'cash_in' ? 'Cash in recorded' : 'Cash out recorded');
+      return mapCashDrawerMovement(data);
+    } catch (error) {
+      handleError(error, 'record cash drawer movement');
+      return null;
+    }
+  },
+
+  // Sales rung up in a session, with their tenders, for the expected cash and Z-report
+  async getSessionSales(sessionId: string): Promise<Sale[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sales')
+        .select(`
+          id, client_id, staff_id, total_amount, subtotal_amount, discount_amount, tip_amount,
+          refunded_amount, payment_method, status, cash_session_id, created_at,
+          sale_payments(method, amount, tendered, change_given, reference)
+        `)
+        .eq('cash_session_id', sessionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map((sale: any) => ({
+        id: sale.id,
+        clientId: sale.client_id || '',
+        serviceId: '',
+        staffId: sale.staff_id || '',
+        products: [],
+        totalAmount: sale.total_amount || 0,
+        subtotalAmount: sale.subtotal_amount ?? sale.total_amount ?? 0,
+        discountAmount: sale.discount_amount || 0,
+        tipAmount: sale.tip_amount || 0,
+        refundedAmount: sale.refunded_amount || 0,
+        paymentMethod: sale.payment_method || 'cash',
+        payments: (sale.sale_payments || []).map((payment: any) => ({
+          method: payment.method,
+          amount: payment.amount,
+          tendered: payment.tendered ?? undefined,
+          changeGiven: payment.change_given || 0,
+          reference: payment.reference || undefined,
+        })),
+        status: sale.status || 'completed',
+        cashSessionId: sale.cash_session_id,
+        createdAt: sale.created_at,
+      }));
+    } catch (error) {
+      handleError(error, 'fetch cash drawer session sales');
+      return [];
+    }
+  },
+
+  // Expected cash and the discrepancy are computed server-side by
+  // close_cash_drawer_session() (see cash-drawer-sessions.sql), which signs
+  // the close with the signed-in user.
+  async closeSession(sessionId: string, countedCash: number, notes?: string): Promise<CashDrawerSession | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('close_cash_drawer_session', {
+        p_session_id: sessionId,
+        p_counted_cash: countedCash,
+        p_notes: notes?.trim() || null,
+      });
+
+      if (error) throw error;
+
+      toast.success('Cash drawer closed');
+      clearCache('cash_drawer_sessions');
+      return mapCashDrawerSession(data);
+    } catch (error) {
+      handleError(error, 'close cash drawer session');
+      return null;
+    }
+  },
+
+  async getClosedSessions(startDate: string, endDate: string): Promise<CashDrawerSession[]> {
+    try {
+      const { data, error } = await supabase
+        .from('cash_drawer_sessions')
+        .select('*, users!cash_drawer_sessions_staff_id_fkey(name)')
+        .eq('status', 'closed')
+        .gte('closed_at', startDate)
+        .lte('closed_at', endDate)
+        .order('closed_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(mapCashDrawerSession);
+    } catch (error) {
+      handleError(error, 'fetch closed cash drawer sessions');
+      return [];
+    }
+  },
+};
+
+// Simple password hashing utility (for production, use bcrypt)
+const hashPassword = async (password: string): Promise<string> => {
+  // Simple hash for demo - in production use bcrypt
+  const encoder = new TextEncoder();
+  const data = encoder.encode(password + 'salt123'); // Add salt
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const verifyPassword = async (password: string, hashedPassword: string): Promise<boolean> => {
+  const hashedInput = await hashPassword(password);
+  return hashedInput === hashedPassword;
+};
+
+// DATABASE AUTHENTICATION OPERATIONS
+export const authService = {
+  async signIn(email: string, password: string): Promise<any | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      console.log('🔍 Attempting login for email:', email);
+      
+      // Find user by email
+      const { data: user, error } = await supabase
+        .from('users')
+        .select('*')
+        .eq('email', email)
+        .single();
+
+      console.log('👤 User query result:', { user, error });
+
+      if (error || !user) {
+        console.log('❌ User not found or error:', error);
+        throw new Error('Invalid email or password');
+      }
+
+      // Verify password
+      const hashedInput = await hashPassword(password);
+      console.log('🔐 Password verification:', {
+        inputPassword: password,
+        hashedInput,
+        storedHash: user.password,
+        match: hashedInput === user.password
+      });
+      
+      const isValidPassword = await verifyPassword(password, user.password);
+      if (!isValidPassword) {
+        console.log('❌ Password verification failed');
+        throw new Error('Invalid email or password');
+      }
+
+      // Update last login
+      await supabase
+        .from('users')
+        .update({ last_login: new Date().toISOString() })
+        .eq('id', user.id);
+
+      // Return user without password
+      const { password: _, ...userWithoutPassword } = user;
+      toast.success('Login successful');
+      return userWithoutPassword;
+    } catch (error) {
+      handleError(error, 'sign in');
+      return null;
+    }
+  },
+
+  async signUp(email: string, password: string, name: string, role: 'admin' | 'staff' = 'staff'): Promise<any | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      // Check if user already exists
+      const { data: existingUser } = await supabase
+        .from('users')
+        .select('id')
+        .eq('email', email)
+        .single();
+
+      if (existingUser) {
+        throw new Error('User with this email already exists');
+      }
+
+      // Hash password
+      const hashedPassword = await hashPassword(password);
 
       // Create user in users table
       const { data: userData, error: userError } = await supabase
@@ -2867,48 +3736,995 @@ export const stockHistoryService = {
   }
 };
 
-export const staffService = {
-  async getAll(): Promise<any[]> {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
-    }
-
+// SUPPLIER OPERATIONS
+const mapSupplier = (supplier: any): Supplier => ({
+  id: supplier.id,
+  name: supplier.name,
+  contactName: supplier.contact_name || undefined,
+  phone: supplier.phone || undefined,
+  email: supplier.email || undefined,
+  leadTimeDays: supplier.lead_time_days ?? 0,
+  notes: supplier.notes || undefined,
+  isActive: supplier.is_active,
+  catalogue: (supplier.supplier_products || []).map((item: any): SupplierProduct => ({
+    supplierId: item.supplier_id,
+    productId: item.product_id,
+    unitCost: Number(item.unit_cost) || 0,
+    supplierSku: item.supplier_sku || undefined,
+  })),
+  createdAt: supplier.created_at,
+});
+
+const toSupplierRow = (supplier: Partial<Supplier>) => ({
+  name: supplier.name,
+  contact_name: supplier.contactName || null,
+  phone: supplier.phone || null,
+  email: supplier.email || null,
+  lead_time_days: supplier.leadTimeDays ?? 0,
+  notes: supplier.notes || null,
+});
+
+export const supplierService = {
+  async getAll(includeInactive = false): Promise<Supplier[]> {
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, email, name, phone, avatar, role, created_at, last_login')
-        .eq('role', 'staff')
-        .order('created_at', { ascending: false });
+      let query = supabase
+        .from('suppliers')
+        .select('*, supplier_products(*)')
+        .order('name', { ascending: true });
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
 
+      const { data, error } = await query;
       if (error) throw error;
-      return data || [];
+
+      return (data || []).map(mapSupplier);
     } catch (error) {
-      handleError(error, 'fetch staff');
+      handleError(error, 'fetch suppliers');
       return [];
     }
   },
 
-  async create(staffData: any): Promise<any | null> {
-    if (!isSupabaseConfigured()) {
-      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+  async create(supplier: Omit<Supplier, 'id' | 'isActive' | 'catalogue' | 'createdAt'>): Promise<Supplier | null> {
+    try {
+      if (!supplier.name || supplier.name.trim().length === 0) {
+        throw new Error('Supplier name is required');
+      }
+
+      const { data, error } = await supabase
+        .from('suppliers')
+        .insert(toSupplierRow(supplier))
+        .select('*, supplier_products(*)')
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Supplier added');
+      return mapSupplier(data);
+    } catch (error) {
+      handleError(error, 'create supplier');
+      return null;
     }
+  },
 
+  async update(id: string, supplier: Partial<Omit<Supplier, 'id' | 'catalogue' | 'createdAt'>>): Promise<Supplier | null> {
     try {
       const { data, error } = await supabase
-        .from('users')
-        .insert({
-          ...staffData,
-          role: 'staff',
+        .from('suppliers')
+        .update({
+          ...toSupplierRow(supplier),
+          ...(supplier.isActive !== undefined && { is_active: supplier.isActive }),
+          updated_at: new Date().toISOString(),
         })
-        .select()
+        .eq('id', id)
+        .select('*, supplier_products(*)')
         .single();
 
       if (error) throw error;
 
-      toast.success('Staff member added successfully');
-      return data;
+      toast.success('Supplier updated');
+      return mapSupplier(data);
     } catch (error) {
-      handleError(error, 'add staff');
+      handleError(error, 'update supplier');
+      return null;
+    }
+  },
+
+  /**
+   * Replaces the supplier's catalogue prices
+   */
+  async setCatalogue(supplierId: string, catalogue: Omit<SupplierProduct, 'supplierId'>[]): Promise<boolean> {
+    try {
+      const { error: deleteError } = await supabase
+        .from('supplier_products')
+        .delete()
+        .eq('supplier_id', supplierId);
+
+      if (deleteError) throw deleteError;
+
+      if (catalogue.length > 0) {
+        const { error } = await supabase
+          .from('supplier_products')
+          .insert(catalogue.map(item => ({
+            supplier_id: supplierId,
+            product_id: item.productId,
+            unit_cost: item.unitCost,
+            supplier_sku: item.supplierSku || null,
+          })));
+
+        if (error) throw error;
+      }
+
+      toast.success('Catalogue prices saved');
+      return true;
+    } catch (error) {
+      handleError(error, 'save catalogue prices');
+      return false;
+    }
+  },
+};
+
+// PURCHASE ORDER OPERATIONS
+// Orders move draft -> sent -> partially received -> received; receiving
+// restocks the products (see purchase-orders.sql)
+const mapPurchaseOrderLine = (line: any): PurchaseOrderLine => ({
+  id: line.id,
+  productId: line.product_id,
+  productName: line.products?.name,
+  quantityOrdered: line.quantity_ordered,
+  quantityReceived: line.quantity_received,
+  unitCost: Number(line.unit_cost) || 0,
+  receipts: (line.purchase_order_receipts || []).map((receipt: any): PurchaseOrderReceipt => ({
+    id: receipt.id,
+    lineId: receipt.line_id,
+    quantity: receipt.quantity,
+    unitCost: Number(receipt.unit_cost) || 0,
+    invoiceNumber: receipt.invoice_number || undefined,
+    receivedAt: receipt.received_at,
+  })),
+});
+
+const mapPurchaseOrder = (order: any): PurchaseOrder => ({
+  id: order.id,
+  orderNumber: order.order_number,
+  supplierId: order.supplier_id,
+  supplierName: order.suppliers?.name,
+  status: order.status,
+  expectedAt: order.expected_at || undefined,
+  notes: order.notes || undefined,
+  sentAt: order.sent_at || undefined,
+  receivedAt: order.received_at || undefined,
+  lines: (order.purchase_order_lines || []).map(mapPurchaseOrderLine),
+  createdAt: order.created_at,
+});
+
+const PURCHASE_ORDER_SELECT = '*, suppliers(name), purchase_order_lines(*, products(name), purchase_order_receipts(*))';
+
+type PurchaseOrderDraft = {
+  supplierId: string;
+  notes?: string;
+  lines: Array<Pick<PurchaseOrderLine, 'productId' | 'quantityOrdered' | 'unitCost'>>;
+};
+
+const toPurchaseOrderLineRows = (orderId: string, lines: PurchaseOrderDraft['lines']) =>
+  lines.map(line => ({
+    purchase_order_id: orderId,
+    product_id: line.productId,
+    quantity_ordered: line.quantityOrdered,
+    unit_cost: line.unitCost,
+  }));
+
+export const purchaseOrderService = {
+  async getAll(openOnly = false): Promise<PurchaseOrder[]> {
+    try {
+      let query = supabase
+        .from('purchase_orders')
+        .select(PURCHASE_ORDER_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (openOnly) {
+        query = query.neq('status', 'received');
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []).map(mapPurchaseOrder);
+    } catch (error) {
+      handleError(error, 'fetch purchase orders');
+      return [];
+    }
+  },
+
+  async createDraft(draft: PurchaseOrderDraft): Promise<PurchaseOrder | null> {
+    try {
+      if (draft.lines.length === 0) {
+        throw new Error('Add at least one product to the purchase order');
+      }
+
+      const { data: order, error } = await supabase
+        .from('purchase_orders')
+        .insert({ supplier_id: draft.supplierId, notes: draft.notes || null })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const { error: linesError } = await supabase
+        .from('purchase_order_lines')
+        .insert(toPurchaseOrderLineRows(order.id, draft.lines));
+
+      if (linesError) {
+        await supabase.from('purchase_orders').delete().eq('id', order.id);
+        throw linesError;
+      }
+
+      toast.success('Purchase order drafted');
+      return this.getById(order.id);
+    } catch (error) {
+      handleError(error, 'create purchase order');
+      return null;
+    }
+  },
+
+  /**
+   * Replaces the supplier, notes and lines of a draft
+   */
+  async updateDraft(id: string, draft: PurchaseOrderDraft): Promise<PurchaseOrder | null> {
+    try {
+      if (draft.lines.length === 0) {
+        throw new Error('Add at least one product to the purchase order');
+      }
+
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({ supplier_id: draft.supplierId, notes: draft.notes || null, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'draft');
+
+      if (error) throw error;
+
+      const { error: deleteError } = await supabase
+        .from('purchase_order_lines')
+        .delete()
+        .eq('purchase_order_id', id);
+
+      if (deleteError) throw deleteError;
+
+      const { error: linesError } = await supabase
+        .from('purchase_order_lines')
+        .insert(toPurchaseOrderLineRows(id, draft.lines));
+
+      if (linesError) throw linesError;
+
+      toast.success('Purchase order updated');
+      return this.getById(id);
+    } catch (error) {
+      handleError(error, 'update purchase order');
+      return null;
+    }
+  },
+
+  async getById(id: string): Promise<PurchaseOrder | null> {
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select(PURCHASE_ORDER_SELECT)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return mapPurchaseOrder(data);
+    } catch (error) {
+      handleError(error, 'fetch purchase order');
+      return null;
+    }
+  },
+
+  /**
+   * Marks a draft as sent to the supplier, expected after their lead time
+   */
+  async markSent(id: string, expectedAt: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({ status: 'sent', expected_at: expectedAt, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Purchase order sent');
+      return true;
+    } catch (error) {
+      handleError(error, 'send purchase order');
+      return false;
+    }
+  },
+
+  async deleteDraft(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .delete()
+        .eq('id', id)
+        .eq('status', 'draft');
+
+      if (error) throw error;
+
+      toast.success('Draft deleted');
+      return true;
+    } catch (error) {
+      handleError(error, 'delete purchase order');
+      return false;
+    }
+  },
+
+  /**
+   * Receives a delivery: restocks each line at its invoiced cost
+   */
+  async receive(orderId: string, receipt: { invoiceNumber?: string; lines: ReceiptLineInput[] }): Promise<PurchaseOrderStatus | null> {
+    try {
+      const { data, error } = await supabase.rpc('receive_purchase_order', {
+        p_order_id: orderId,
+        p_receipt: {
+          invoiceNumber: receipt.invoiceNumber || null,
+          lines: receipt.lines.filter(line => line.quantity > 0),
+        },
+      });
+
+      if (error) throw error;
+
+      toast.success(data?.status === 'received' ? 'Purchase order received' : 'Delivery received');
+      clearCache('products');
+      return data?.status || null;
+    } catch (error) {
+      handleError(error, 'receive purchase order');
+      return null;
+    }
+  },
+};
+
+// REORDER SUGGESTIONS
+// Gathers what ReorderForecastService needs: stock, recent consumption,
+// upcoming confirmed bookings, suppliers and what is already on order
+export const reorderService = {
+  async getSuggestions(options: ForecastOptions = DEFAULT_FORECAST_OPTIONS): Promise<ReorderSuggestion[]> {
+    try {
+      const now = options.now || new Date();
+      const [products, services, suppliers, openOrders] = await Promise.all([
+        productService.getAll(),
+        serviceService.getAll(),
+        supplierService.getAll(),
+        purchaseOrderService.getAll(true),
+      ]);
+
+      // Bookings matter up to the longest lead time plus the cover wanted
+      const horizonDays = Math.max(options.defaultLeadTimeDays, ...suppliers.map(supplier => supplier.leadTimeDays)) + options.coverDays;
+      const since = new Date(now.getTime() - options.historyDays * 24 * 60 * 60 * 1000);
+      const until = new Date(now.getTime() + horizonDays * 24 * 60 * 60 * 1000);
+
+      const [{ data: consumption, error: consumptionError }, { data: bookings, error: bookingsError }] = await Promise.all([
+        supabase
+          .from('product_consumption_log')
+          .select('product_id, ml_consumed, consumption_type, created_at')
+          .gte('created_at', since.toISOString()),
+        supabase
+          .from('bookings')
+          .select('service_id, start_at, booking_segments(service_id, start_at)')
+          .eq('status', 'confirmed')
+          .gte('start_at', now.toISOString())
+          .lt('start_at', until.toISOString()),
+      ]);
+
+      if (consumptionError) throw consumptionError;
+      if (bookingsError) throw bookingsError;
+
+      const upcoming: UpcomingServiceUse[] = (bookings || []).flatMap((booking: any) =>
+        booking.booking_segments?.length
+          ? booking.booking_segments.map((segment: any) => ({ serviceId: segment.service_id, startAt: segment.start_at }))
+          : [{ serviceId: booking.service_id, startAt: booking.start_at }]
+      );
+
+      return ReorderForecastService.getSuggestions({
+        products: products.filter(product => product.isActive),
+        consumption: (consumption || []).map((entry: any) => ({
+          productId: entry.product_id,
+          mlConsumed: Number(entry.ml_consumed) || 0,
+          consumptionType: entry.consumption_type,
+          createdAt: entry.created_at,
+        })),
+        upcoming,
+        services,
+        suppliers,
+        onOrder: PurchaseOrderService.getOnOrder(openOrders),
+      }, { ...options, now });
+    } catch (error) {
+      handleError(error, 'forecast reorders');
+      return [];
+    }
+  },
+};
+
+// STOCKTAKE OPERATIONS
+// Counts snapshot the system stock when saved; posting applies the
+// variances as stock adjustments (see stocktakes.sql)
+const mapStocktakeCount = (count: any): StocktakeCount => ({
+  id: count.id,
+  productId: count.product_id,
+  productName: count.products?.name,
+  category: count.products?.category,
+  expectedSealed: count.expected_sealed,
+  expectedOpenMl: Number(count.expected_open_ml) || 0,
+  countedSealed: count.counted_sealed,
+  countedOpenMl: Number(count.counted_open_ml) || 0,
+  bottleCapacityMl: Number(count.bottle_capacity_ml) || 1000,
+  unit: count.products?.unit,
+  unitCost: Number(count.unit_cost) || 0,
+  reason: count.reason || undefined,
+  countedAt: count.counted_at,
+});
+
+const mapStocktake = (stocktake: any): Stocktake => ({
+  id: stocktake.id,
+  stocktakeNumber: stocktake.stocktake_number,
+  status: stocktake.status,
+  notes: stocktake.notes || undefined,
+  counts: (stocktake.stocktake_counts || []).map(mapStocktakeCount),
+  postedAt: stocktake.posted_at || undefined,
+  createdAt: stocktake.created_at,
+});
+
+const STOCKTAKE_SELECT = '*, stocktake_counts(*, products(name, category, unit))';
+
+export const stocktakeService = {
+  async getAll(status?: StocktakeStatus): Promise<Stocktake[]> {
+    try {
+      let query = supabase
+        .from('stocktakes')
+        .select(STOCKTAKE_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []).map(mapStocktake);
+    } catch (error) {
+      handleError(error, 'fetch stocktakes');
+      return [];
+    }
+  },
+
+  async getById(id: string): Promise<Stocktake | null> {
+    try {
+      const { data, error } = await supabase
+        .from('stocktakes')
+        .select(STOCKTAKE_SELECT)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return mapStocktake(data);
+    } catch (error) {
+      handleError(error, 'fetch stocktake');
+      return null;
+    }
+  },
+
+  async start(notes?: string): Promise<Stocktake | null> {
+    try {
+      const { data, error } = await supabase
+        .from('stocktakes')
+        .insert({ notes: notes || null })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Stocktake started');
+      return this.getById(data.id);
+    } catch (error) {
+      handleError(error, 'start stocktake');
+      return null;
+    }
+  },
+
+  /**
+   * Saves (or recounts) one product; the expected stock is snapshotted again
+   */
+  async saveCount(stocktakeId: string, count: { productId: string; countedSealed: number; countedOpenMl: number; reason?: string }): Promise<StocktakeCount | null> {
+    try {
+      const { data, error } = await supabase
+        .from('stocktake_counts')
+        .upsert({
+          stocktake_id: stocktakeId,
+          product_id: count.productId,
+          counted_sealed: count.countedSealed,
+          counted_open_ml: count.countedOpenMl,
+          reason: count.reason || null,
+        }, { onConflict: 'stocktake_id,product_id' })
+        .select('*, products(name, category)')
+        .single();
+
+      if (error) throw error;
+      return mapStocktakeCount(data);
+    } catch (error) {
+      handleError(error, 'save count');
+      return null;
+    }
+  },
+
+  async cancel(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('stocktakes')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Stocktake cancelled');
+      return true;
+    } catch (error) {
+      handleError(error, 'cancel stocktake');
+      return false;
+    }
+  },
+
+  /**
+   * Posts the variances as stock adjustments
+   */
+  async post(id: string): Promise<{ adjustedProducts: number; varianceMl: number; varianceCost: number } | null> {
+    try {
+      const { data, error } = await supabase.rpc('post_stocktake', { p_stocktake_id: id });
+
+      if (error) throw error;
+
+      toast.success(`Stocktake posted: ${data?.adjustedProducts || 0} products adjusted`);
+      clearCache('products');
+      return {
+        adjustedProducts: data?.adjustedProducts || 0,
+        varianceMl: Number(data?.varianceMl) || 0,
+        varianceCost: Number(data?.varianceCost) || 0,
+      };
+    } catch (error) {
+      handleError(error, 'post stocktake');
+      return null;
+    }
+  },
+};
+
+// PRODUCT LOT OPERATIONS
+// One row per bottle; the product's stock totals follow its lots and
+// consumption takes them first expired first out (see product-lots.sql)
+const mapProductLot = (lot: any): ProductLot => ({
+  id: lot.id,
+  productId: lot.product_id,
+  batchNumber: lot.batch_number || undefined,
+  expiresAt: lot.expires_at || undefined,
+  receivedAt: lot.received_at,
+  openedAt: lot.opened_at || undefined,
+  capacityMl: Number(lot.capacity_ml) || 0,
+  remainingMl: Number(lot.remaining_ml) || 0,
+});
+
+export const productLotService = {
+  /**
+   * Lots with ml left, of one product or all of them
+   */
+  async getAll(productId?: string): Promise<ProductLot[]> {
+    try {
+      let query = supabase
+        .from('product_lots')
+        .select('*')
+        .gt('remaining_ml', 0)
+        .order('received_at', { ascending: true });
+
+      if (productId) {
+        query = query.eq('product_id', productId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []).map(mapProductLot);
+    } catch (error) {
+      handleError(error, 'fetch product lots');
+      return [];
+    }
+  },
+
+  async update(id: string, lot: Pick<ProductLot, 'batchNumber' | 'expiresAt'>): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('product_lots')
+        .update({ batch_number: lot.batchNumber || null, expires_at: lot.expiresAt || null })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Lot updated');
+      return true;
+    } catch (error) {
+      handleError(error, 'update lot');
+      return false;
+    }
+  },
+
+  /**
+   * Marks a sealed bottle as opened, alongside any already open
+   */
+  async open(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('product_lots')
+        .update({ opened_at: new Date().toISOString() })
+        .eq('id', id)
+        .is('opened_at', null);
+
+      if (error) throw error;
+
+      toast.success('Bottle opened');
+      clearCache('products');
+      return true;
+    } catch (error) {
+      handleError(error, 'open bottle');
+      return false;
+    }
+  },
+
+  /**
+   * Bottles expired, past their period after opening or due within the
+   * warning window
+   */
+  async getExpiryAlerts(products: Pick<Product, 'id' | 'name' | 'paoMonths'>[]): Promise<ExpiryAlert[]> {
+    const lots = await this.getAll();
+    return ProductLotService.getExpiryAlerts(lots, products);
+  },
+};
+
+export const staffService = {
+  async getAll(): Promise<any[]> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, email, name, phone, avatar, role, created_at, last_login')
+        .eq('role', 'staff')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      handleError(error, 'fetch staff');
+      return [];
+    }
+  },
+
+  async create(staffData: any): Promise<any | null> {
+    if (!isSupabaseConfigured()) {
+      throw new Error('Supabase is not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .insert({
+          ...staffData,
+          role: 'staff',
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Staff member added successfully');
+      return data;
+    } catch (error) {
+      handleError(error, 'add staff');
+      return null;
+    }
+  },
+};
+
+const toHHMM = (time: string | null | undefined): string => (time ? String(time).slice(0, 5) : '');
+
+const mapScheduleRange = (range: any): WeeklyScheduleRange => ({
+  weekday: range.weekday,
+  start: toHHMM(range.start_time),
+  end: toHHMM(range.end_time),
+  label: range.label || undefined,
+});
+
+const mapScheduleException = (exception: any): ScheduleException => ({
+  id: exception.id,
+  staffId: exception.staff_id,
+  date: exception.date,
+  isDayOff: exception.is_day_off,
+  start: toHHMM(exception.start_time) || undefined,
+  end: toHHMM(exception.end_time) || undefined,
+  reason: exception.reason || undefined,
+  createdAt: exception.created_at,
+});
+
+const mapLeaveRequest = (request: any): LeaveRequest => ({
+  id: request.id,
+  staffId: request.staff_id,
+  staffName: request.users?.name,
+  startDate: request.start_date,
+  endDate: request.end_date,
+  leaveType: request.leave_type,
+  reason: request.reason || undefined,
+  status: request.status,
+  reviewedBy: request.reviewed_by || undefined,
+  reviewedAt: request.reviewed_at || undefined,
+  reviewNote: request.review_note || undefined,
+  createdAt: request.created_at,
+});
+
+// Weekly hours, breaks, one-off exceptions and salon holidays (see staff-schedules.sql)
+export const staffScheduleService = {
+  async getWeeklySchedule(staffId: string): Promise<StaffWeeklySchedule> {
+    try {
+      const [hoursResult, breaksResult] = await Promise.all([
+        supabase.from('staff_working_hours').select('weekday, start_time, end_time').eq('staff_id', staffId).order('weekday').order('start_time'),
+        supabase.from('staff_breaks').select('weekday, start_time, end_time, label').eq('staff_id', staffId).order('weekday').order('start_time'),
+      ]);
+
+      if (hoursResult.error) throw hoursResult.error;
+      if (breaksResult.error) throw breaksResult.error;
+
+      return {
+        staffId,
+        hours: (hoursResult.data || []).map(mapScheduleRange),
+        breaks: (breaksResult.data || []).map(mapScheduleRange),
+      };
+    } catch (error) {
+      handleError(error, 'fetch staff schedule');
+      return { staffId, hours: [], breaks: [] };
+    }
+  },
+
+  async saveWeeklySchedule(schedule: StaffWeeklySchedule): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('save_staff_weekly_schedule', {
+        p_staff_id: schedule.staffId,
+        p_hours: schedule.hours.map(({ weekday, start, end }) => ({ weekday, start, end })),
+        p_breaks: schedule.breaks,
+      });
+
+      if (error) throw error;
+
+      toast.success('Schedule saved');
+      return true;
+    } catch (error) {
+      handleError(error, 'save staff schedule');
+      return false;
+    }
+  },
+
+  // What staff actually work on each date, after breaks, exceptions, leave and holidays
+  async getWorkingRanges(staffIds: string[], fromDate: string, toDate: string): Promise<WorkingRange[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_staff_working_ranges', {
+        p_staff_ids: staffIds,
+        p_from: fromDate,
+        p_to: toDate,
+      });
+
+      if (error) throw error;
+
+      return (data || []).map((range: any) => ({
+        staffId: range.staff_id,
+        date: range.work_date,
+        start: toHHMM(range.start_time),
+        end: toHHMM(range.end_time),
+      }));
+    } catch (error) {
+      handleError(error, 'fetch working hours');
+      return [];
+    }
+  },
+
+  async getExceptions(staffId: string, fromDate?: string): Promise<ScheduleException[]> {
+    try {
+      let query = supabase
+        .from('staff_schedule_exceptions')
+        .select('*')
+        .eq('staff_id', staffId)
+        .order('date')
+        .order('start_time');
+
+      if (fromDate) query = query.gte('date', fromDate);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data || []).map(mapScheduleException);
+    } catch (error) {
+      handleError(error, 'fetch schedule exceptions');
+      return [];
+    }
+  },
+
+  async addException(exception: Omit<ScheduleException, 'id' | 'createdAt'>, createdBy?: string): Promise<ScheduleException | null> {
+    try {
+      if (!exception.isDayOff && (!exception.start || !exception.end || exception.end <= exception.start)) {
+        throw new Error('Enter the hours worked that day, or mark it as a day off');
+      }
+
+      const { data, error } = await supabase
+        .from('staff_schedule_exceptions')
+        .insert({
+          staff_id: exception.staffId,
+          date: exception.date,
+          is_day_off: exception.isDayOff,
+          start_time: exception.isDayOff ? null : exception.start,
+          end_time: exception.isDayOff ? null : exception.end,
+          reason: exception.reason?.trim() || null,
+          created_by: createdBy,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast.success(exception.isDayOff ? 'Day off added' : 'Special hours added');
+      return mapScheduleException(data);
+    } catch (error) {
+      handleError(error, 'add schedule exception');
+      return null;
+    }
+  },
+
+  async deleteException(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('staff_schedule_exceptions').delete().eq('id', id);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      handleError(error, 'delete schedule exception');
+      return false;
+    }
+  },
+
+  async getHolidays(fromDate?: string): Promise<SalonHoliday[]> {
+    try {
+      let query = supabase.from('salon_holidays').select('id, date, name').order('date');
+      if (fromDate) query = query.gte('date', fromDate);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      handleError(error, 'fetch salon holidays');
+      return [];
+    }
+  },
+
+  async addHoliday(date: string, name: string): Promise<SalonHoliday | null> {
+    try {
+      if (!name.trim()) {
+        throw new Error('A name is required for the holiday');
+      }
+
+      const { data, error } = await supabase
+        .from('salon_holidays')
+        .insert({ date, name: name.trim() })
+        .select('id, date, name')
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Holiday added');
+      return data;
+    } catch (error) {
+      handleError(error, 'add salon holiday');
+      return null;
+    }
+  },
+
+  async deleteHoliday(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('salon_holidays').delete().eq('id', id);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      handleError(error, 'delete salon holiday');
+      return false;
+    }
+  },
+};
+
+// Leave requested by staff and reviewed by admins
+export const leaveService = {
+  async getAll(filters: { staffId?: string; status?: LeaveRequestStatus } = {}): Promise<LeaveRequest[]> {
+    try {
+      let query = supabase
+        .from('staff_leave_requests')
+        .select('*, users!staff_leave_requests_staff_id_fkey(name)')
+        .order('start_date', { ascending: false });
+
+      if (filters.staffId) query = query.eq('staff_id', filters.staffId);
+      if (filters.status) query = query.eq('status', filters.status);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data || []).map(mapLeaveRequest);
+    } catch (error) {
+      handleError(error, 'fetch leave requests');
+      return [];
+    }
+  },
+
+  async request(staffId: string, leave: { startDate: string; endDate: string; leaveType: LeaveType; reason?: string }): Promise<LeaveRequest | null> {
+    try {
+      if (leave.endDate < leave.startDate) {
+        throw new Error('The leave cannot end before it starts');
+      }
+
+      const { data, error } = await supabase
+        .from('staff_leave_requests')
+        .insert({
+          staff_id: staffId,
+          start_date: leave.startDate,
+          end_date: leave.endDate,
+          leave_type: leave.leaveType,
+          reason: leave.reason?.trim() || null,
+        })
+        .select('*, users!staff_leave_requests_staff_id_fkey(name)')
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Leave request sent');
+      return mapLeaveRequest(data);
+    } catch (error) {
+      handleError(error, 'request leave');
+      return null;
+    }
+  },
+
+  async cancel(requestId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('cancel_leave_request', { p_request_id: requestId });
+
+      if (error) throw error;
+
+      toast.success('Leave request cancelled');
+      return true;
+    } catch (error) {
+      handleError(error, 'cancel leave request');
+      return false;
+    }
+  },
+
+  // Returns how many bookings the staff member still has during approved leave
+  async review(requestId: string, approve: boolean, note?: string): Promise<{ status: LeaveRequestStatus; conflictingBookings: number } | null> {
+    try {
+      const { data, error } = await supabase.rpc('review_leave_request', {
+        p_request_id: requestId,
+        p_approve: approve,
+        p_note: note?.trim() || null,
+      });
+
+      if (error) throw error;
+
+      toast.success(approve ? 'Leave approved' : 'Leave rejected');
+      return data;
+    } catch (error) {
+      handleError(error, 'review leave request');
       return null;
     }
   },
@@ -0,0 +1,116 @@
+import { QueuedSale } from './OfflineSyncService';
+
+// ============================================================================
+// OFFLINE STORE
+// ============================================================================
+// IndexedDB storage that lets the POS keep working when the salon loses its
+// connection: the last catalog loaded from Supabase (clients, services,
+// products, staff, the open cash session) and the queue of sales completed
+// offline. Unlike the in-memory cache in database.ts it survives a reload, so
+// queued sales are never lost before they sync.
+// ============================================================================
+
+const DB_NAME = 'antilope-pos';
+const DB_VERSION = 1;
+const CATALOG_STORE = 'catalog';
+const QUEUE_STORE = 'saleQueue';
+
+// Dispatched on window whenever the sale queue changes
+export const OFFLINE_QUEUE_EVENT = 'antilope:offline-queue-changed';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Offline storage is not available in this browser'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+          db.createObjectStore(CATALOG_STORE);
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'requestKey' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notifyQueueChanged = () => {
+  window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+};
+
+export const offlineStore = {
+  // Keep the latest copy of a catalog list (or the open cash session) for offline use
+  async saveCatalog<T>(key: string, data: T): Promise<void> {
+    try {
+      await runRequest(CATALOG_STORE, 'readwrite', store => store.put({ data, savedAt: new Date().toISOString() }, key));
+    } catch (error) {
+      console.warn(`Could not cache ${key} for offline use:`, error);
+    }
+  },
+
+  async loadCatalog<T>(key: string): Promise<T | null> {
+    try {
+      const entry = await runRequest<{ data: T } | undefined>(CATALOG_STORE, 'readonly', store => store.get(key));
+      return entry ? entry.data : null;
+    } catch (error) {
+      console.warn(`Could not read cached ${key}:`, error);
+      return null;
+    }
+  },
+
+  // Queued sales are written before the receipt is shown; a failure here must reach the POS
+  async enqueueSale(entry: QueuedSale): Promise<void> {
+    await runRequest(QUEUE_STORE, 'readwrite', store => store.put(entry));
+    notifyQueueChanged();
+  },
+
+  async getQueuedSales(): Promise<QueuedSale[]> {
+    try {
+      return await runRequest<QueuedSale[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+    } catch (error) {
+      console.warn('Could not read the offline sale queue:', error);
+      return [];
+    }
+  },
+
+  async updateQueuedSale(entry: QueuedSale): Promise<void> {
+    await runRequest(QUEUE_STORE, 'readwrite', store => store.put(entry));
+    notifyQueueChanged();
+  },
+
+  async removeQueuedSale(requestKey: string): Promise<void> {
+    await runRequest(QUEUE_STORE, 'readwrite', store => store.delete(requestKey));
+    notifyQueueChanged();
+  },
+};
@@ -1,5 +1,10 @@
 import { whatsappService } from './whatsappService';
 import { dailyReportService } from './dailyReportService';
+import { bookingMessageService, waitlistService } from './database';
+import { BookingMessageService } from './BookingMessageService';
+import { WaitlistService } from './WaitlistService';
+import { toInternationalFormat } from '@/utils/phone';
+import { MessageLanguage } from '@/types';
 
 interface SchedulerConfig {
   bossPhoneNumber: string;
@@ -7,12 +12,18 @@ interface SchedulerConfig {
   sendTime: string; // Format: "HH:MM" (24-hour format)
   enabled: boolean;
   testMode: boolean;
+  includeCashDiscrepancies: boolean;
+  bookingMessagesEnabled: boolean; // confirmations and reminders to clients
+  reminderHoursBefore: number;
+  messageLanguage: MessageLanguage; // for clients who have not chosen one
 }
 
 class SchedulerService {
   private config: SchedulerConfig;
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
+  private isSendingBookingMessages: boolean = false;
+  private isSendingWaitlistOffers: boolean = false;
 
   constructor() {
     this.config = {
@@ -20,7 +31,11 @@ class SchedulerService {
       testPhoneNumber: '+212772156819',
       sendTime: '18:00', // 6 PM by default
       enabled: true,
-      testMode: import.meta.env.DEV
+      testMode: import.meta.env.DEV,
+      includeCashDiscrepancies: true,
+      bookingMessagesEnabled: true,
+      reminderHoursBefore: 24,
+      messageLanguage: 'fr'
     };
   }
 
@@ -37,15 +52,20 @@ class SchedulerService {
     console.log(`⏰ Send time: ${this.config.sendTime}`);
     console.log(`🔧 Test mode: ${this.config.testMode ? 'ON' : 'OFF'}`);
 
-    // Check every minute if it's time to send the report
+    // Check every minute if it's time to send the report, and for due
+    // booking confirmations, reminders and waitlist offers
     this.intervalId = setInterval(() => {
       this.checkAndSendReport();
+      this.sendBookingMessages();
+      this.sendWaitlistOffers();
     }, 60000); // Check every minute
 
     this.isRunning = true;
     
     // Also check immediately when starting
     this.checkAndSendReport();
+    this.sendBookingMessages();
+    this.sendWaitlistOffers();
   }
 
   // Stop the scheduler
@@ -85,7 +105,9 @@ class SchedulerService {
       console.log('📊 Generating daily report...');
       
       // Generate the report
-      const stats = await dailyReportService.generateDailyReport(date);
+      const stats = await dailyReportService.generateDailyReport(date, {
+        includeCashDiscrepancies: this.config.includeCashDiscrepancies
+      });
       const message = dailyReportService.formatReportMessage(stats);
 
       // Determine which phone number to use
@@ -119,6 +141,84 @@ class SchedulerService {
     }
   }
 
+  // Send the booking confirmations and reminders that are due, logging each
+  // attempt against its booking; failed ones are retried on later checks
+  async sendBookingMessages(): Promise<number> {
+    if (!this.config.bookingMessagesEnabled || this.isSendingBookingMessages) return 0;
+
+    this.isSendingBookingMessages = true;
+    let sent = 0;
+
+    try {
+      const dueMessages = await bookingMessageService.getDue(this.config.reminderHoursBefore);
+
+      for (const message of dueMessages) {
+        // In test mode every client message goes to the test number
+        const phone = whatsappService.formatPhoneNumber(
+          this.config.testMode ? this.config.testPhoneNumber : toInternationalFormat(message.clientPhone)
+        );
+        const body = BookingMessageService.render(
+          message,
+          this.config.messageLanguage,
+          message.manageToken && BookingMessageService.manageUrl(window.location.origin, message.manageToken)
+        );
+        const result = await whatsappService.send({ to: phone, text: body });
+
+        await bookingMessageService.log({
+          bookingId: message.bookingId,
+          kind: message.kind,
+          phone,
+          body,
+          status: result.success ? 'sent' : 'failed',
+          error: result.error,
+          providerMessageId: result.messageId,
+        });
+
+        if (result.success) sent++;
+      }
+
+      if (sent > 0) console.log(`✅ ${sent} booking message(s) sent`);
+    } catch (error) {
+      console.error('❌ Error sending booking messages:', error);
+    } finally {
+      this.isSendingBookingMessages = false;
+    }
+
+    return sent;
+  }
+
+  // Send the claim links of slots freed by cancelled or moved bookings; an
+  // offer that failed to send is tried again on later checks until it expires
+  async sendWaitlistOffers(): Promise<number> {
+    if (!this.config.bookingMessagesEnabled || this.isSendingWaitlistOffers) return 0;
+
+    this.isSendingWaitlistOffers = true;
+    let sent = 0;
+
+    try {
+      const notices = await waitlistService.getUnsentOffers();
+
+      for (const notice of notices) {
+        // In test mode every client message goes to the test number
+        const clientPhone = this.config.testMode ? this.config.testPhoneNumber : toInternationalFormat(notice.clientPhone);
+        const claimUrl = WaitlistService.claimUrl(window.location.origin, notice.token);
+
+        if (await whatsappService.sendWaitlistOffer({ ...notice, clientPhone }, claimUrl)) {
+          await waitlistService.markOfferSent(notice.offerId);
+          sent++;
+        }
+      }
+
+      if (sent > 0) console.log(`✅ ${sent} waitlist offer(s) sent`);
+    } catch (error) {
+      console.error('❌ Error sending waitlist offers:', error);
+    } finally {
+      this.isSendingWaitlistOffers = false;
+    }
+
+    return sent;
+  }
+
   // Manual send for testing
   async sendTestReport(): Promise<boolean> {
     console.log('🧪 Sending test report...');
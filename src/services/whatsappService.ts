@@ -1,3 +1,6 @@
+import { WaitlistOfferNotice } from '@/types';
+import { WaitlistService } from './WaitlistService';
+
 interface WhatsAppConfig {
   apiUrl: string;
   accessToken: string;
@@ -9,6 +12,12 @@ interface WhatsAppMessage {
   text: string;
 }
 
+export interface WhatsAppSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
 class WhatsAppService {
   private config: WhatsAppConfig;
 
@@ -22,12 +31,18 @@ class WhatsAppService {
   }
 
   async sendMessage(message: WhatsAppMessage): Promise<boolean> {
+    return (await this.send(message)).success;
+  }
+
+  // Send a message and report the outcome, with the id WhatsApp gives it so
+  // delivery receipts can be matched to it later
+  async send(message: WhatsAppMessage): Promise<WhatsAppSendResult> {
     try {
       // For development/testing, we'll use a mock service or console log
       if (import.meta.env.DEV) {
         console.log('📱 WhatsApp Service - Sending message:', message);
         console.log('📱 WhatsApp Service - To:', message.to);
-        return true;
+        return { success: true };
       }
 
       const url = `${this.config.apiUrl}/${this.config.phoneNumberId}/messages`;
@@ -54,14 +69,31 @@ class WhatsAppService {
 
       const result = await response.json();
       console.log('WhatsApp message sent successfully:', result);
-      return true;
+      return { success: true, messageId: result.messages?.[0]?.id };
 
     } catch (error) {
       console.error('Error sending WhatsApp message:', error);
-      return false;
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
+  // Send a receipt rendered by ReceiptService.renderText(); the monospace block
+  // keeps the amount columns aligned
+  async sendReceipt(phone: string, receiptText: string): Promise<boolean> {
+    return this.sendMessage({
+      to: this.formatPhoneNumber(phone),
+      text: `\`\`\`\n${receiptText}\n\`\`\``
+    });
+  }
+
+  // Offer a freed slot to a client on the waitlist, with their claim link
+  async sendWaitlistOffer(notice: WaitlistOfferNotice, claimUrl: string): Promise<boolean> {
+    return this.sendMessage({
+      to: this.formatPhoneNumber(notice.clientPhone),
+      text: WaitlistService.offerMessage(notice, claimUrl)
+    });
+  }
+
   // Format phone number for WhatsApp (remove spaces, dashes, etc.)
   formatPhoneNumber(phone: string): string {
     return phone.replace(/[^0-9]/g, '');
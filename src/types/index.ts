@@ -18,6 +18,8 @@ export interface Client {
   lastVisit?: string;
   totalVisits: number;
   totalSpent: number;
+  loyaltyPoints?: number;
+  language?: MessageLanguage; // of the messages the client receives; unset uses the salon default
   createdAt: string;
   updatedAt: string;
 }
@@ -30,8 +32,11 @@ export interface Service {
   description?: string;
   price: number;
   duration: number; // in minutes
+  bufferMinutes?: number; // clean-up and turnover time kept free after the service
   category: string;
   commissionPercent?: number; // commission percentage for staff
+  taxRate?: number; // TVA rate in percent
+  priceIncludesTax?: boolean; // price is TTC; otherwise TVA is added on top
   isActive: boolean;
   requiredProducts: ServiceProduct[];
   assignedStaff: string[]; // staff IDs
@@ -41,9 +46,9 @@ export interface Service {
 
 export interface ServiceProduct {
   productId: string;
-  requiredMl: number; // Required ml for this service
+  requiredMl: number; // Required quantity in the product's unit (ml, g or pieces)
   isOptional?: boolean; // Whether this product is optional for the service
-  unit?: string; // DEPRECATED - always ml for bottle-based system
+  unit?: string; // the product's unit when saved, for display
   quantity?: number; // DEPRECATED - use requiredMl instead
 }
 
@@ -53,12 +58,13 @@ export interface Product {
   name: string;
   category: string;
   volume: number; // Keep for backward compatibility with bottle_capacity_ml
-  unit: string; // ml, g, pieces, etc.
+  unit: string; // stock unit: ml, g or pieces (see UnitService); the *_ml fields below are in this unit
   
   // NEW BOTTLE-BASED INVENTORY FIELDS (Primary)
-  sealed_bottles: number; // Number of unopened bottles in stock
-  open_bottle_remaining_ml: number; // Remaining ml in current open bottle (only one allowed)
-  bottle_capacity_ml: number; // Capacity of one full bottle in ml
+  sealed_bottles: number; // Number of unopened bottles (jars, boxes) in stock
+  open_bottle_remaining_ml: number; // Remaining quantity across all open bottles (see ProductLot)
+  bottle_capacity_ml: number; // Content of one full bottle, in the product's unit
+  paoMonths?: number; // period after opening; an open bottle keeps this many months
   
   // Calculated fields
   total_ml_available?: number; // (sealed_bottles * bottle_capacity_ml) + open_bottle_remaining_ml
@@ -72,6 +78,8 @@ export interface Product {
   
   price: number;
   cost: number;
+  taxRate?: number; // TVA rate in percent for retail sales
+  priceIncludesTax?: boolean; // price is TTC; otherwise TVA is added on top
   isActive: boolean;
   imageUrl?: string;
   archived?: boolean;
@@ -80,6 +88,28 @@ export interface Product {
   updatedAt: string;
 }
 
+// One bottle (or unit) of a product; the product's stock totals add up its lots
+export interface ProductLot {
+  id: string;
+  productId: string;
+  batchNumber?: string;
+  expiresAt?: string; // YYYY-MM-DD
+  receivedAt: string;
+  openedAt?: string; // unset while sealed
+  capacityMl: number;
+  remainingMl: number;
+}
+
+// Allowed moves between statuses are in BookingStatusService and booking-status.sql
+export type BookingStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'checked_in'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show';
+
 export interface Booking {
   id: string;
   clientId: string;
@@ -88,12 +118,254 @@ export interface Booking {
   date: string;
   time: string;
   duration: number;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
+  status: BookingStatus;
   notes?: string;
   createdAt: string;
   updatedAt: string;
   startAt: string; // timestamp with time zone
   endAt: string;   // timestamp with time zone
+  confirmedAt?: string;
+  checkedInAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+  cancelledAt?: string;
+  noShowAt?: string;
+  saleId?: string; // POS sale that paid for the booking
+  segments?: BookingSegment[]; // multi-service bookings, in the order performed
+  seriesId?: string; // recurring booking series it belongs to
+  seriesIndex?: number; // 0-based position in the series
+  messages?: BookingMessage[]; // confirmations, reminders and replies, oldest first
+}
+
+// One service of a multi-service booking, with the staff member doing it
+export interface BookingSegment {
+  id: string;
+  bookingId: string;
+  position: number;
+  serviceId: string;
+  staffId: string;
+  startAt: string;
+  endAt: string;
+}
+
+// Payload of create_multi_service_booking(); segments run back to back
+export interface MultiServiceBookingRequest {
+  clientId: string;
+  startAt: string;
+  notes?: string;
+  segments: Array<{
+    serviceId: string;
+    staffId: string;
+  }>;
+}
+
+// Repeat every intervalWeeks weeks, until a date and/or for count bookings
+export interface RecurrenceRule {
+  intervalWeeks: number;
+  untilDate?: string; // YYYY-MM-DD, inclusive
+  count?: number;
+}
+
+// Which occurrences of a series a change applies to
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+// Payload of create_booking_series()
+export interface BookingSeriesRequest extends RecurrenceRule {
+  clientId: string;
+  serviceId: string;
+  staffId: string;
+  startAt: string; // first occurrence
+  skipIndexes?: number[];
+  notes?: string;
+}
+
+export interface BookingSeriesResult {
+  seriesId: string;
+  created: Array<{ index: number; id: string; startAt: string }>;
+  skipped: Array<{ index: number; startAt: string; reason: string }>;
+}
+
+export type WaitlistStatus = 'waiting' | 'booked' | 'cancelled';
+
+// A client waiting for a slot for a service within a window of dates
+export interface WaitlistEntry {
+  id: string;
+  clientId: string;
+  serviceId: string;
+  staffId?: string; // preferred staff member; anyone when empty
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string;
+  notes?: string;
+  status: WaitlistStatus;
+  source: 'public' | 'staff';
+  bookingId?: string; // once booked
+  createdAt: string;
+  offers: WaitlistOffer[];
+}
+
+// 'expired' is never stored: an open offer past expiresAt reads as expired
+export type WaitlistOfferStatus = 'open' | 'claimed' | 'superseded' | 'expired';
+
+// A freed slot offered to a waiting client through a claim link
+export interface WaitlistOffer {
+  id: string;
+  entryId: string;
+  staffId: string;
+  startAt: string;
+  endAt: string;
+  expiresAt: string;
+  status: WaitlistOfferStatus;
+  sentAt?: string;
+  claimedAt?: string;
+  createdAt: string;
+}
+
+// What get_unsent_waitlist_offers() returns to message each client
+export interface WaitlistOfferNotice {
+  offerId: string;
+  token: string;
+  clientName: string;
+  clientPhone: string;
+  serviceName: string;
+  staffName: string;
+  startAt: string;
+  expiresAt: string;
+}
+
+// The offer behind a claim link, as the public claim page shows it
+export interface WaitlistClaimDetails {
+  status: WaitlistOfferStatus;
+  clientName: string;
+  serviceName: string;
+  staffName: string;
+  startAt: string;
+  endAt: string;
+  expiresAt: string;
+}
+
+// An upcoming booking as the client's manage-booking page shows it
+export interface ManagedBooking {
+  id: string;
+  serviceId: string;
+  serviceName: string;
+  duration: number;
+  bufferMinutes: number;
+  staffId: string;
+  staffName: string;
+  startAt: string;
+  endAt: string;
+  status: BookingStatus;
+  hasSegments: boolean;
+  canChange: boolean; // still outside the cancellation notice window
+}
+
+export interface ManagedBookings {
+  clientName: string;
+  cancellationNoticeHours: number;
+  bookings: ManagedBooking[];
+}
+
+export type MessageLanguage = 'fr' | 'ar' | 'en';
+
+export type BookingMessageKind = 'confirmation' | 'reminder' | 'reply';
+
+export type BookingMessageStatus = 'sent' | 'delivered' | 'read' | 'failed' | 'received';
+
+// A message sent to or received from a client about a booking
+export interface BookingMessage {
+  id: string;
+  bookingId: string;
+  kind: BookingMessageKind;
+  direction: 'outbound' | 'inbound';
+  phone: string;
+  body: string;
+  status: BookingMessageStatus;
+  error?: string;
+  providerMessageId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A confirmation or reminder get_due_booking_messages() says to send
+export interface DueBookingMessage {
+  bookingId: string;
+  kind: Exclude<BookingMessageKind, 'reply'>;
+  clientName: string;
+  clientPhone: string;
+  clientLanguage?: MessageLanguage;
+  serviceName: string;
+  staffName: string;
+  startAt: string;
+  manageToken?: string; // for the link to the client's manage-booking page
+}
+
+export interface BookingStatusChange {
+  id: string;
+  bookingId: string;
+  fromStatus?: BookingStatus; // empty when the booking was created
+  toStatus: BookingStatus;
+  changedBy?: string; // empty for public bookings and automated changes
+  changedByName?: string;
+  changedAt: string;
+  note?: string;
+}
+
+// Staff schedules; times are HH:MM in salon local time
+export interface WeeklyScheduleRange {
+  weekday: number; // 0 = Sunday, as Date.getDay()
+  start: string;
+  end: string;
+  label?: string; // breaks only, e.g. "Lunch"
+}
+
+export interface StaffWeeklySchedule {
+  staffId: string;
+  hours: WeeklyScheduleRange[];
+  breaks: WeeklyScheduleRange[];
+}
+
+export interface ScheduleException {
+  id: string;
+  staffId: string;
+  date: string;
+  isDayOff: boolean;
+  start?: string; // hours replacing the weekly schedule when not a day off
+  end?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export interface SalonHoliday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+// A range a staff member actually works on a date, after breaks, exceptions,
+// leave and holidays
+export interface WorkingRange {
+  staffId: string;
+  date: string;
+  start: string;
+  end: string;
+}
+
+export type LeaveType = 'vacation' | 'sick' | 'personal' | 'other';
+export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface LeaveRequest {
+  id: string;
+  staffId: string;
+  staffName?: string;
+  startDate: string;
+  endDate: string;
+  leaveType: LeaveType;
+  reason?: string;
+  status: LeaveRequestStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+  createdAt: string;
 }
 
 export interface Sale {
@@ -103,12 +375,107 @@ export interface Sale {
   staffId: string;
   products: SaleProduct[];
   totalAmount: number;
-  paymentMethod: 'cash' | 'card' | 'transfer';
-  status: 'completed' | 'refunded';
+  paymentMethod: PaymentMethod | 'mixed'; // 'mixed' when paid with several tender types
+  payments?: SalePayment[];
+  status: 'completed' | 'partially_refunded' | 'refunded' | 'voided';
+  subtotalAmount?: number;
+  discountAmount?: number;
+  discounts?: SaleDiscount[];
+  tipAmount?: number; // gratuity paid on top of totalAmount, not revenue
+  tips?: SaleTip[];
+  refundedAmount?: number;
+  cashSessionId?: string; // cash drawer session the sale was rung up in
+  bookingId?: string; // booking this sale paid for; empty for walk-ins
+  receiptNumber?: number; // sequential, assigned when the sale is committed
+  invoiceNumber?: string; // gap-free yearly number, e.g. FA-2026-000001
+  taxAmount?: number; // TVA included in totalAmount
+  taxLines?: SaleTaxLine[];
+  retailItems?: SaleRetailItem[]; // products sold over the counter
   notes?: string;
   createdAt: string;
 }
 
+export type PaymentMethod = 'cash' | 'card' | 'transfer';
+
+export interface SalePayment {
+  id?: string;
+  method: PaymentMethod;
+  amount: number; // amount applied to the sale
+  tendered?: number; // cash handed over by the client
+  changeGiven?: number;
+  reference?: string; // card slip or transfer reference
+}
+
+export interface SaleRetailItem {
+  id?: string;
+  productId: string;
+  productName?: string;
+  quantity: number; // whole sealed bottles, or units for non-ml products
+  unitPrice: number; // Product.price at the time of sale
+  unitCost: number; // Product.cost at the time of sale
+  taxRate?: number;
+  priceIncludesTax?: boolean;
+  taxAmount?: number; // TVA of the whole line
+  refundedAt?: string;
+}
+
+export interface SaleTaxLine {
+  rate: number; // TVA rate in percent
+  inclusive: boolean; // tax was included in the line prices
+  taxableAmount: number; // amount before tax (HT)
+  taxAmount: number;
+}
+
+export interface SaleTip {
+  id?: string;
+  saleId?: string;
+  staffId: string;
+  staffName?: string;
+  amount: number;
+  status?: 'pending' | 'paid' | 'cancelled';
+  createdAt?: string;
+  paidAt?: string;
+}
+
+// Cash drawer interfaces
+export interface CashDrawerSession {
+  id: string;
+  staffId: string;
+  staffName?: string;
+  status: 'open' | 'closed';
+  openingFloat: number;
+  openedAt: string;
+  closedAt?: string;
+  expectedCash?: number; // set when the session is closed
+  countedCash?: number;
+  discrepancy?: number; // counted - expected; negative when cash is missing
+  closingNotes?: string;
+}
+
+export interface CashDrawerMovement {
+  id: string;
+  sessionId: string;
+  movementType: 'cash_in' | 'cash_out';
+  amount: number;
+  reason: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface SaleRefund {
+  id: string;
+  saleId: string;
+  refundType: 'void' | 'full' | 'partial';
+  amount: number; // tip included
+  tipAmount: number; // unpaid tip given back on a void
+  cashAmount: number; // paid back in cash from the drawer
+  reason: string;
+  refundedBy: string;
+  refundedByName?: string;
+  serviceItemIds: string[];
+  createdAt: string;
+}
+
 export interface SaleProduct {
   productId: string;
   quantity: number;
@@ -182,6 +549,19 @@ export interface AppSettings {
   };
 }
 
+export type ReceiptFormat = 'thermal58' | 'thermal80' | 'a4';
+
+export type ReceiptLanguage = 'fr' | 'en' | 'ar';
+
+export interface ReceiptTemplate {
+  format: ReceiptFormat;
+  language: ReceiptLanguage;
+  showClientPhone: boolean;
+  showProductsUsed: boolean;
+  showStaff: boolean;
+  footerMessage: string; // replaces the default thank-you line when set
+}
+
 // Enhanced types for new database schema
 export interface ServiceProductRelationship {
   id: string;
@@ -231,7 +611,7 @@ export interface StockHistory {
   productId: string;
   saleId?: string;
   staffId?: string;
-  movementType: 'sale' | 'adjustment' | 'restock' | 'return';
+  movementType: 'sale' | 'adjustment' | 'adjust_open_bottle' | 'restock' | 'return'; // adjust_open_bottle quantities are ml
   quantityBefore: number;
   quantityChange: number;
   quantityAfter: number;
@@ -239,12 +619,133 @@ export interface StockHistory {
   createdAt: string;
 }
 
+// Suppliers and purchase orders
+export interface SupplierProduct {
+  supplierId: string;
+  productId: string;
+  unitCost: number; // per sealed bottle or unit
+  supplierSku?: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  leadTimeDays: number;
+  notes?: string;
+  isActive: boolean;
+  catalogue: SupplierProduct[];
+  createdAt: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+export interface PurchaseOrderReceipt {
+  id: string;
+  lineId: string;
+  quantity: number;
+  unitCost: number; // as invoiced
+  invoiceNumber?: string;
+  receivedAt: string;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  productId: string;
+  productName?: string;
+  quantityOrdered: number; // sealed bottles or units
+  quantityReceived: number;
+  unitCost: number; // agreed when ordering
+  receipts: PurchaseOrderReceipt[];
+}
+
+export interface PurchaseOrder {
+  id: string;
+  orderNumber: string;
+  supplierId: string;
+  supplierName?: string;
+  status: PurchaseOrderStatus;
+  expectedAt?: string; // YYYY-MM-DD
+  notes?: string;
+  sentAt?: string;
+  receivedAt?: string;
+  lines: PurchaseOrderLine[];
+  createdAt: string;
+}
+
+// Stocktakes: physical counts reconciled with the system stock
+export type StocktakeStatus = 'counting' | 'posted' | 'cancelled';
+
+export interface StocktakeCount {
+  id: string;
+  productId: string;
+  productName?: string;
+  category?: string;
+  expectedSealed: number; // system stock when the count was saved
+  expectedOpenMl: number;
+  countedSealed: number;
+  countedOpenMl: number;
+  bottleCapacityMl: number;
+  unit?: string; // the product's unit (ml, g or pieces) for the open bottle quantities
+  unitCost: number; // per bottle when counted
+  reason?: string;
+  countedAt: string;
+}
+
+export interface Stocktake {
+  id: string;
+  stocktakeNumber: string;
+  status: StocktakeStatus;
+  notes?: string;
+  counts: StocktakeCount[];
+  postedAt?: string;
+  createdAt: string;
+}
+
 export interface SaleResult {
   sale: Sale;
   commission?: Commission;
   stockUpdates: StockHistory[];
 }
 
+// Payload of a POS checkout, sent to process_complete_sale() as is
+export interface CompleteSaleRequest {
+  requestKey: string;
+  clientId: string;
+  services: Array<{
+    serviceId: string;
+    originalPrice: number;
+    adjustedPrice: number;
+    priceAdjustmentReason?: string;
+    quantity: number;
+    discountAmount?: number;
+    discount?: { discountType: DiscountType; value: number }; // manual discount on this line, as entered
+    staffId?: string; // who performed it, when not the sale's staff member
+    products: Array<{
+      productId: string;
+      quantity: number;
+      unit: string;
+    }>;
+  }>;
+  retailItems?: Array<{
+    productId: string;
+    quantity: number; // whole sealed bottles or units
+  }>;
+  discounts?: SaleDiscount[];
+  payments?: SalePayment[];
+  tipAmount?: number;
+  tips?: SaleTip[];
+  cashSessionId?: string;
+  soldAt?: string; // checkout time; a sale synced from the offline queue keeps it
+  bookingId?: string; // checking out a booking
+  staffId: string;
+  paymentMethod: PaymentMethod | 'mixed';
+  totalAmount: number;
+  notes?: string;
+}
+
 // Bottle tracking interfaces
 export interface BottleInventory {
   id: string;
@@ -288,3 +789,38 @@ export interface BottleConsumptionResult {
   movements: BottleMovement[];
   error?: string;
 }
+
+// Discount interfaces
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description?: string;
+  discountType: DiscountType;
+  discountValue: number;
+  scope: 'cart' | 'service';
+  serviceIds: string[]; // services the code applies to when scope is 'service' (empty = all)
+  minSubtotal?: number;
+  validFrom?: string;
+  validUntil?: string;
+  usageLimit?: number; // total number of sales the code can be used on
+  usageCount: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaleDiscount {
+  id?: string;
+  source: 'manual' | 'promo' | 'loyalty';
+  scope: 'cart' | 'service';
+  discountType: DiscountType;
+  value: number; // percentage or fixed amount as entered
+  amount: number; // resolved amount taken off the sale
+  serviceId?: string;
+  promoCodeId?: string;
+  code?: string;
+  loyaltyPoints?: number;
+  reason?: string;
+}
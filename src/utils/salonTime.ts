@@ -0,0 +1,79 @@
+/**
+ * Salon local time utilities. Working hours, booking dates and slots are in
+ * the salon's time zone, whatever the time zone of the browser showing them.
+ */
+
+// Keep in sync with salon_timezone() (booking-availability.sql)
+export const SALON_TIME_ZONE = 'Africa/Casablanca';
+
+export interface SalonTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday, as Date.getDay()
+  minutes: number; // since midnight
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClockParts(instant: Date, timeZone: string): Record<string, number> {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return parts;
+}
+
+// Minutes the time zone is ahead of UTC at the given instant
+function offsetMinutes(instant: number, timeZone: string): number {
+  const parts = wallClockParts(new Date(instant), timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+/**
+ * Day of the week of a YYYY-MM-DD date
+ */
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Date, weekday and time of day an instant falls on in the salon
+ */
+export function toSalonTime(instant: Date | string, timeZone: string = SALON_TIME_ZONE): SalonTime {
+  const parts = wallClockParts(new Date(instant), timeZone);
+  const date = `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+  return { date, weekday: weekdayOf(date), minutes: parts.hour * 60 + parts.minute };
+}
+
+/**
+ * The instant of a salon wall-clock time: minutes after midnight of date
+ * (past 24:00 runs into the next days)
+ */
+export function fromSalonTime(date: string, minutes: number, timeZone: string = SALON_TIME_ZONE): Date {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * 60000;
+  // The offset is checked again at the result, in case a clock change lies in between
+  const guess = wallClock - offsetMinutes(wallClock, timeZone) * 60000;
+  return new Date(wallClock - offsetMinutes(guess, timeZone) * 60000);
+}
+
+/**
+ * Today's date in the salon, YYYY-MM-DD
+ */
+export function salonToday(now: Date = new Date(), timeZone: string = SALON_TIME_ZONE): string {
+  return toSalonTime(now, timeZone).date;
+}
@@ -0,0 +1,369 @@
+-- ============================================================================
+-- STAFF SCHEDULES, BREAKS, DAYS OFF AND LEAVE
+-- ============================================================================
+-- Builds on booking-availability.sql. A staff member works on a given date:
+--   - not at all while their account is inactive (users.is_active);
+--   - not at all on a salon holiday, during approved leave, or on a day off
+--     recorded as a one-off exception;
+--   - the hours of their one-off exceptions for that date, when there are any;
+--   - otherwise their weekly working hours minus their weekly breaks.
+--
+-- get_staff_working_ranges() resolves these rules and is the only place they
+-- live: the public booking page, admin Bookings and StaffBookings all read it,
+-- and the bookings trigger refuses bookings outside the ranges it returns.
+--
+-- Staff request leave from their portal; it only counts once an admin
+-- approves it with review_leave_request().
+-- ============================================================================
+
+-- Staff who left or are suspended keep their history but take no bookings
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+
+-- Weekly breaks, taken out of the working hours of the same weekday
+CREATE TABLE IF NOT EXISTS public.staff_breaks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    staff_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    label TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_time > start_time)
+);
+
+-- One-off changes for a date: a day off, or hours that replace the weekly
+-- schedule (several rows for split hours)
+CREATE TABLE IF NOT EXISTS public.staff_schedule_exceptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    staff_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    is_day_off BOOLEAN NOT NULL DEFAULT false,
+    start_time TIME,
+    end_time TIME,
+    reason TEXT,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (is_day_off OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time))
+);
+
+-- Days the whole salon is closed
+CREATE TABLE IF NOT EXISTS public.salon_holidays (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    date DATE NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.staff_leave_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    staff_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    leave_type TEXT NOT NULL DEFAULT 'vacation' CHECK (leave_type IN ('vacation', 'sick', 'personal', 'other')),
+    reason TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    reviewed_by UUID REFERENCES public.users(id),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_breaks_staff_id ON public.staff_breaks(staff_id);
+CREATE INDEX IF NOT EXISTS idx_staff_schedule_exceptions_staff_date ON public.staff_schedule_exceptions(staff_id, date);
+CREATE INDEX IF NOT EXISTS idx_staff_leave_requests_staff_id ON public.staff_leave_requests(staff_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_staff_leave_requests_status ON public.staff_leave_requests(status);
+
+-- ----------------------------------------------------------------------------
+-- Working ranges of staff for each date from p_from to p_to (at most 31 days),
+-- in salon local time
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_staff_working_ranges(
+    p_staff_ids UUID[],
+    p_from DATE,
+    p_to DATE
+)
+RETURNS TABLE (staff_id UUID, work_date DATE, start_time TIME, end_time TIME) AS $$
+    WITH days AS (
+        SELECT s.id AS staff_id, d::DATE AS work_date
+        FROM unnest(p_staff_ids) AS s(id)
+        JOIN public.users u ON u.id = s.id AND u.is_active
+        CROSS JOIN generate_series(p_from, LEAST(p_to, p_from + 30), INTERVAL '1 day') AS d
+    ),
+    working_days AS (
+        SELECT days.*
+        FROM days
+        WHERE NOT EXISTS (SELECT 1 FROM public.salon_holidays h WHERE h.date = days.work_date)
+          AND NOT EXISTS (
+              SELECT 1 FROM public.staff_leave_requests l
+              WHERE l.staff_id = days.staff_id
+                AND l.status = 'approved'
+                AND days.work_date BETWEEN l.start_date AND l.end_date
+          )
+          AND NOT EXISTS (
+              SELECT 1 FROM public.staff_schedule_exceptions e
+              WHERE e.staff_id = days.staff_id AND e.date = days.work_date AND e.is_day_off
+          )
+    ),
+    hours AS (
+        -- One-off hours replace the weekly schedule on their date
+        SELECT wd.staff_id, wd.work_date, tsrange(wd.work_date + e.start_time, wd.work_date + e.end_time) AS slot
+        FROM working_days wd
+        JOIN public.staff_schedule_exceptions e ON e.staff_id = wd.staff_id AND e.date = wd.work_date
+        UNION ALL
+        SELECT wd.staff_id, wd.work_date, tsrange(wd.work_date + h.start_time, wd.work_date + h.end_time)
+        FROM working_days wd
+        JOIN public.staff_working_hours h
+          ON h.staff_id = wd.staff_id AND h.weekday = EXTRACT(DOW FROM wd.work_date)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.staff_schedule_exceptions e
+            WHERE e.staff_id = wd.staff_id AND e.date = wd.work_date
+        )
+    ),
+    breaks AS (
+        SELECT wd.staff_id, wd.work_date,
+               range_agg(tsrange(wd.work_date + b.start_time, wd.work_date + b.end_time)) AS slots
+        FROM working_days wd
+        JOIN public.staff_breaks b
+          ON b.staff_id = wd.staff_id AND b.weekday = EXTRACT(DOW FROM wd.work_date)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.staff_schedule_exceptions e
+            WHERE e.staff_id = wd.staff_id AND e.date = wd.work_date
+        )
+        GROUP BY wd.staff_id, wd.work_date
+    ),
+    working AS (
+        SELECT hours.staff_id, hours.work_date, range_agg(hours.slot) AS slots
+        FROM hours
+        GROUP BY hours.staff_id, hours.work_date
+    )
+    SELECT w.staff_id, w.work_date, lower(r)::TIME, upper(r)::TIME
+    FROM working w
+    LEFT JOIN breaks b ON b.staff_id = w.staff_id AND b.work_date = w.work_date
+    CROSS JOIN LATERAL unnest(w.slots - COALESCE(b.slots, '{}'::tsmultirange)) AS r
+    ORDER BY w.staff_id, w.work_date, lower(r);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- A booking must fit inside one working range of its date. Replaces the
+-- weekly-hours-only check of booking-availability.sql.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.is_within_working_hours(
+    p_staff_id UUID,
+    p_start_at TIMESTAMP WITH TIME ZONE,
+    p_end_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.get_staff_working_ranges(
+            ARRAY[p_staff_id],
+            (p_start_at AT TIME ZONE public.salon_timezone())::DATE,
+            (p_start_at AT TIME ZONE public.salon_timezone())::DATE
+        ) r
+        WHERE (p_start_at AT TIME ZONE public.salon_timezone())::DATE = (p_end_at AT TIME ZONE public.salon_timezone())::DATE
+          AND r.start_time <= (p_start_at AT TIME ZONE public.salon_timezone())::TIME
+          AND r.end_time >= (p_end_at AT TIME ZONE public.salon_timezone())::TIME
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Bookings trigger: besides overlaps, refuse bookings outside the staff
+-- member's schedule, whichever screen they come from
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.check_booking_overlap()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_buffer INTEGER;
+BEGIN
+    IF NEW.staff_id IS NULL OR NEW.start_at IS NULL OR NEW.end_at IS NULL
+       OR COALESCE(NEW.status, 'pending') IN ('cancelled', 'no_show') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Status changes of a booking that already holds its slot need no check
+    IF TG_OP = 'UPDATE'
+       AND NEW.staff_id IS NOT DISTINCT FROM OLD.staff_id
+       AND NEW.start_at IS NOT DISTINCT FROM OLD.start_at
+       AND NEW.end_at IS NOT DISTINCT FROM OLD.end_at
+       AND COALESCE(OLD.status, 'pending') NOT IN ('cancelled', 'no_show') THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT public.is_within_working_hours(NEW.staff_id, NEW.start_at, NEW.end_at) THEN
+        RAISE EXCEPTION 'Staff member is not working at this time (outside their schedule, on a break, day off, leave or holiday)';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('booking_staff:' || NEW.staff_id::TEXT));
+
+    SELECT buffer_minutes INTO v_buffer FROM public.services WHERE id = NEW.service_id;
+
+    IF NOT public.is_staff_slot_free(NEW.staff_id, NEW.start_at, NEW.end_at, COALESCE(v_buffer, 0), NEW.id) THEN
+        RAISE EXCEPTION 'Time slot no longer available: the staff member is already booked at this time';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Replace a staff member's weekly hours and breaks in one go. p_hours and
+-- p_breaks are arrays of {"weekday": 1, "start": "09:00", "end": "13:00"}.
+-- Runs as the caller, so RLS keeps it to admins.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.save_staff_weekly_schedule(
+    p_staff_id UUID,
+    p_hours JSONB,
+    p_breaks JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM public.staff_working_hours WHERE staff_id = p_staff_id;
+    DELETE FROM public.staff_breaks WHERE staff_id = p_staff_id;
+
+    INSERT INTO public.staff_working_hours (staff_id, weekday, start_time, end_time)
+    SELECT p_staff_id, (range->>'weekday')::SMALLINT, (range->>'start')::TIME, (range->>'end')::TIME
+    FROM jsonb_array_elements(COALESCE(p_hours, '[]'::jsonb)) AS range;
+
+    INSERT INTO public.staff_breaks (staff_id, weekday, start_time, end_time, label)
+    SELECT p_staff_id, (range->>'weekday')::SMALLINT, (range->>'start')::TIME, (range->>'end')::TIME, NULLIF(range->>'label', '')
+    FROM jsonb_array_elements(COALESCE(p_breaks, '[]'::jsonb)) AS range;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------------------------------------
+-- Approve or reject a pending leave request. Returns the new status and how
+-- many bookings the staff member still has during the leave, so the admin
+-- can move them.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.review_leave_request(
+    p_request_id UUID,
+    p_approve BOOLEAN,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_request RECORD;
+    v_conflicts INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can review leave requests';
+    END IF;
+
+    SELECT * INTO v_request FROM public.staff_leave_requests WHERE id = p_request_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Leave request not found: %', p_request_id;
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'Leave request is already %', v_request.status;
+    END IF;
+
+    UPDATE public.staff_leave_requests
+    SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW(),
+        review_note = NULLIF(p_note, '')
+    WHERE id = p_request_id;
+
+    SELECT COUNT(*) INTO v_conflicts
+    FROM public.bookings b
+    WHERE b.staff_id = v_request.staff_id
+      AND COALESCE(b.status, 'pending') NOT IN ('cancelled', 'no_show', 'completed')
+      AND (b.start_at AT TIME ZONE public.salon_timezone())::DATE BETWEEN v_request.start_date AND v_request.end_date;
+
+    RETURN jsonb_build_object(
+        'status', CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        'conflictingBookings', CASE WHEN p_approve THEN v_conflicts ELSE 0 END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Staff withdraw their own leave request while it is still pending
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.cancel_leave_request(p_request_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.staff_leave_requests
+    SET status = 'cancelled'
+    WHERE id = p_request_id
+      AND staff_id = auth.uid()
+      AND status = 'pending';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only your own pending leave requests can be cancelled';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; the public booking page runs as anon
+GRANT EXECUTE ON FUNCTION public.get_staff_working_ranges(UUID[], DATE, DATE) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_staff_weekly_schedule(UUID, JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_leave_request(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_leave_request(UUID) TO authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.staff_breaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_schedule_exceptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.salon_holidays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_leave_requests ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in can see schedules and holidays; only admins change them
+CREATE POLICY "Allow authenticated users to read staff breaks" ON public.staff_breaks
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow admin users to manage staff breaks" ON public.staff_breaks
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Allow authenticated users to read schedule exceptions" ON public.staff_schedule_exceptions
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow admin users to manage schedule exceptions" ON public.staff_schedule_exceptions
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Allow authenticated users to read salon holidays" ON public.salon_holidays
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow admin users to manage salon holidays" ON public.salon_holidays
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Staff see and request their own leave; reviews go through review_leave_request()
+CREATE POLICY "Allow staff to read their own leave requests" ON public.staff_leave_requests
+    FOR SELECT TO authenticated USING (
+        staff_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Allow staff to request leave" ON public.staff_leave_requests
+    FOR INSERT TO authenticated WITH CHECK (
+        staff_id = auth.uid() AND status = 'pending' AND reviewed_by IS NULL
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.staff_breaks IS 'Weekly breaks, taken out of the working hours of the same weekday';
+COMMENT ON TABLE public.staff_schedule_exceptions IS 'One-off days off or hours replacing the weekly schedule on a date';
+COMMENT ON TABLE public.salon_holidays IS 'Dates the salon is closed; nobody can be booked';
+COMMENT ON TABLE public.staff_leave_requests IS 'Leave requested by staff; only approved leave blocks bookings';
+COMMENT ON FUNCTION public.get_staff_working_ranges(UUID[], DATE, DATE) IS 'Resolved working ranges per staff and date: weekly hours minus breaks, exceptions, leave and holidays; none for inactive staff';
+COMMENT ON FUNCTION public.review_leave_request(UUID, BOOLEAN, TEXT) IS 'Approves or rejects a pending leave request and reports bookings left during the leave';
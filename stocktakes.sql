@@ -0,0 +1,272 @@
+-- ============================================================================
+-- STOCKTAKES
+-- ============================================================================
+-- This script adds physical stock counts. A stocktake is started, the sealed
+-- bottles and the ml estimated in the open bottles are counted per product,
+-- then the variances are reviewed and posted as stock adjustments.
+--
+-- Saving a count snapshots what the system held for that product at that
+-- moment, so sales made while the count is in progress do not show up as
+-- variance. Posting goes through post_stocktake(): it applies each variance
+-- to the product and logs it in stock_history, sealed bottles as an
+-- 'adjustment' and the open bottles as an 'adjust_open_bottle' (quantities in
+-- ml), with the count's reason. Stocktakes are numbered INV-2026-0001 from
+-- the gap-free counters of sale-receipts.sql.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.stocktakes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    stocktake_number TEXT UNIQUE,
+    status TEXT NOT NULL DEFAULT 'counting'
+        CHECK (status IN ('counting', 'posted', 'cancelled')),
+    notes TEXT,
+    started_by UUID REFERENCES public.users(id),
+    posted_by UUID REFERENCES public.users(id),
+    posted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stocktakes_status ON public.stocktakes(status);
+
+-- One count per product and stocktake; expected_* and the cost are snapshots
+CREATE TABLE IF NOT EXISTS public.stocktake_counts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    stocktake_id UUID NOT NULL REFERENCES public.stocktakes(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products(id),
+    expected_sealed INTEGER NOT NULL DEFAULT 0,
+    expected_open_ml NUMERIC(10,2) NOT NULL DEFAULT 0,
+    counted_sealed INTEGER NOT NULL CHECK (counted_sealed >= 0),
+    counted_open_ml NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (counted_open_ml >= 0),
+    bottle_capacity_ml NUMERIC(10,2) NOT NULL DEFAULT 1000,
+    unit_cost NUMERIC(10,2) NOT NULL DEFAULT 0.00, -- per bottle, to value the variance
+    reason TEXT,
+    counted_by UUID REFERENCES public.users(id),
+    counted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (stocktake_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stocktake_counts_stocktake_id ON public.stocktake_counts(stocktake_id);
+CREATE INDEX IF NOT EXISTS idx_stocktake_counts_product_id ON public.stocktake_counts(product_id);
+
+-- ----------------------------------------------------------------------------
+-- Number new stocktakes, and only let a count in progress be posted or
+-- cancelled. Posting only happens through post_stocktake(). Runs as the owner
+-- to take the stocktake number, as next_document_number() is not callable by
+-- users.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.enforce_stocktake_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_year TEXT := to_char(NOW(), 'YYYY');
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'counting' THEN
+            RAISE EXCEPTION 'New stocktakes must be counting, not %', NEW.status;
+        END IF;
+        NEW.stocktake_number := 'INV-' || v_year || '-' ||
+            lpad(public.next_document_number('stocktake-' || v_year)::TEXT, 4, '0');
+        NEW.started_by := COALESCE(NEW.started_by, auth.uid());
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF OLD.status <> 'counting' THEN
+        RAISE EXCEPTION 'Stocktake % is already %', OLD.stocktake_number, OLD.status;
+    END IF;
+
+    IF NEW.status = 'posted' THEN
+        NEW.posted_at := NOW();
+        NEW.posted_by := COALESCE(NEW.posted_by, auth.uid());
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS stocktake_status_transition ON public.stocktakes;
+CREATE TRIGGER stocktake_status_transition
+    BEFORE INSERT OR UPDATE OF status ON public.stocktakes
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_stocktake_status();
+
+-- ----------------------------------------------------------------------------
+-- Counts can only change while counting; each save takes a fresh snapshot of
+-- the product's stock and cost
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.snapshot_stocktake_count()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_status TEXT;
+    v_product RECORD;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.stocktakes
+    WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.stocktake_id ELSE NEW.stocktake_id END;
+
+    IF v_status IS NOT NULL AND v_status <> 'counting' THEN
+        RAISE EXCEPTION 'Counts of a % stocktake cannot be changed', v_status;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    SELECT sealed_bottles, open_bottle_remaining_ml, bottle_capacity_ml, cost, unit INTO v_product
+    FROM public.products
+    WHERE id = NEW.product_id;
+
+    NEW.expected_sealed := COALESCE(v_product.sealed_bottles, 0);
+    NEW.expected_open_ml := COALESCE(v_product.open_bottle_remaining_ml, 0);
+    NEW.bottle_capacity_ml := COALESCE(v_product.bottle_capacity_ml, 1000);
+    NEW.unit_cost := COALESCE(v_product.cost, 0);
+    NEW.counted_by := COALESCE(NEW.counted_by, auth.uid());
+    NEW.counted_at := NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stocktake_count_snapshot ON public.stocktake_counts;
+CREATE TRIGGER stocktake_count_snapshot
+    BEFORE INSERT OR UPDATE OR DELETE ON public.stocktake_counts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.snapshot_stocktake_count();
+
+-- ----------------------------------------------------------------------------
+-- Post a stocktake: every counted variance is added to the product's current
+-- stock (not overwritten, so sales since the count are kept) and logged in
+-- stock_history. Only admins can post. Returns { "adjustedProducts": 3,
+-- "varianceMl": -450, "varianceCost": -38.25 }; negative is stock lost.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.post_stocktake(p_stocktake_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_stocktake RECORD;
+    v_count RECORD;
+    v_sealed_change INTEGER;
+    v_open_change NUMERIC;
+    v_product RECORD;
+    v_new_sealed INTEGER;
+    v_new_open NUMERIC;
+    v_reason TEXT;
+    v_adjusted INTEGER := 0;
+    v_variance_ml NUMERIC := 0;
+    v_variance_cost NUMERIC := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can post stocktakes';
+    END IF;
+
+    SELECT * INTO v_stocktake
+    FROM public.stocktakes
+    WHERE id = p_stocktake_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stocktake not found: %', p_stocktake_id;
+    END IF;
+
+    IF v_stocktake.status <> 'counting' THEN
+        RAISE EXCEPTION 'Stocktake % is already %', v_stocktake.stocktake_number, v_stocktake.status;
+    END IF;
+
+    FOR v_count IN
+        SELECT * FROM public.stocktake_counts
+        WHERE stocktake_id = p_stocktake_id
+          AND (counted_sealed <> expected_sealed OR counted_open_ml <> expected_open_ml)
+    LOOP
+        v_sealed_change := v_count.counted_sealed - v_count.expected_sealed;
+        v_open_change := v_count.counted_open_ml - v_count.expected_open_ml;
+        v_reason := 'Stocktake ' || v_stocktake.stocktake_number ||
+            COALESCE(': ' || NULLIF(btrim(COALESCE(v_count.reason, '')), ''), '');
+
+        SELECT sealed_bottles, open_bottle_remaining_ml, bottle_capacity_ml INTO v_product
+        FROM public.products
+        WHERE id = v_count.product_id
+        FOR UPDATE;
+
+        v_new_sealed := GREATEST(0, COALESCE(v_product.sealed_bottles, 0) + v_sealed_change);
+        -- Several bottles can be open; reconcile_product_lots() spreads the
+        -- ml over the open lots and opens new ones for ml found
+        v_new_open := GREATEST(0, COALESCE(v_product.open_bottle_remaining_ml, 0) + v_open_change);
+
+        UPDATE public.products
+        SET sealed_bottles = v_new_sealed,
+            open_bottle_remaining_ml = v_new_open,
+            updated_at = NOW()
+        WHERE id = v_count.product_id;
+
+        IF v_sealed_change <> 0 THEN
+            INSERT INTO public.stock_history (
+                product_id, movement_type, quantity_before, quantity_change, quantity_after, reason
+            ) VALUES (
+                v_count.product_id, 'adjustment', COALESCE(v_product.sealed_bottles, 0),
+                v_new_sealed - COALESCE(v_product.sealed_bottles, 0), v_new_sealed, v_reason
+            );
+        END IF;
+
+        IF v_open_change <> 0 THEN
+            INSERT INTO public.stock_history (
+                product_id, movement_type, quantity_before, quantity_change, quantity_after, reason
+            ) VALUES (
+                v_count.product_id, 'adjust_open_bottle', COALESCE(v_product.open_bottle_remaining_ml, 0),
+                v_new_open - COALESCE(v_product.open_bottle_remaining_ml, 0), v_new_open, v_reason
+            );
+        END IF;
+
+        v_adjusted := v_adjusted + 1;
+        v_variance_ml := v_variance_ml + v_sealed_change * v_count.bottle_capacity_ml + v_open_change;
+        v_variance_cost := v_variance_cost +
+            (v_sealed_change * v_count.bottle_capacity_ml + v_open_change) / NULLIF(v_count.bottle_capacity_ml, 0) * v_count.unit_cost;
+    END LOOP;
+
+    UPDATE public.stocktakes
+    SET status = 'posted', updated_at = NOW()
+    WHERE id = p_stocktake_id;
+
+    RETURN jsonb_build_object(
+        'adjustedProducts', v_adjusted,
+        'varianceMl', v_variance_ml,
+        'varianceCost', round(COALESCE(v_variance_cost, 0), 2)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions; post_stocktake() checks that the caller is an admin
+REVOKE EXECUTE ON FUNCTION public.post_stocktake(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_stocktake(UUID) TO authenticated;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.stocktakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stocktake_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read stocktakes" ON public.stocktakes
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated users to read stocktake counts" ON public.stocktake_counts
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow admin users to manage stocktakes" ON public.stocktakes
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Allow admin users to manage stocktake counts" ON public.stocktake_counts
+    FOR ALL TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.stocktakes IS 'Physical stock counts: counting, posted or cancelled';
+COMMENT ON TABLE public.stocktake_counts IS 'Counted stock per product against what the system held when counted';
+COMMENT ON FUNCTION public.post_stocktake(UUID) IS 'Posts a stocktake: applies the variances to stock and logs them as adjustments';
@@ -8,6 +8,11 @@ echo "Deploying Supabase Edge Functions..."
 # Deploy the process-sale function
 supabase functions deploy process-sale
 
+# Deploy the WhatsApp webhook; Meta calls it without a Supabase JWT, so it
+# checks the request signature itself (set WHATSAPP_VERIFY_TOKEN and
+# WHATSAPP_APP_SECRET with `supabase secrets set`)
+supabase functions deploy whatsapp-webhook --no-verify-jwt
+
 echo "Edge Functions deployed successfully!"
 echo ""
 echo "To test the function:"
@@ -23,11 +23,29 @@ interface SaleResponse {
   error?: string;
 }
 
-// Simple bottle consumption logic - exactly as specified
+// Stock unit of a product, as UnitService.getStockUnit in the app: quantities
+// are in ml, g or whole pieces
+function stockUnit(unit: string | null): 'ml' | 'g' | 'pieces' {
+  const normalized = (unit || '').trim().toLowerCase();
+  if (['g', 'gr', 'gram', 'grams'].includes(normalized)) return 'g';
+  if (['pieces', 'piece', 'pcs', 'pc', 'unit', 'units'].includes(normalized)) return 'pieces';
+  return 'ml';
+}
+
+function formatQuantity(quantity: number, unit: string | null): string {
+  const stock = stockUnit(unit);
+  const rounded = Math.round(quantity * 100) / 100;
+  return `${rounded} ${stock === 'pieces' && Math.abs(rounded) === 1 ? 'piece' : stock}`;
+}
+
+// Bottle consumption from the product's lots, first expired first out. The
+// lots, the product totals and the consumption log are written in one
+// transaction by consume_product_ml() (atomic-sale-transaction.sql), which
+// this function may call with the service role key.
 async function consumeProduct(
   supabaseClient: any,
   productId: string,
-  requiredMl: number,
+  requiredQuantity: number,
   saleId: string,
   serviceId: string,
   staffId: string
@@ -43,122 +61,30 @@ async function consumeProduct(
   error?: string;
 }> {
   try {
-    // Get current product state
-    const { data: product, error: productError } = await supabaseClient
-      .from('products')
-      .select('*')
-      .eq('id', productId)
-      .single();
-
-    if (productError || !product) {
-      return {
-        success: false,
-        productId,
-        requiredMl,
-        consumedMl: 0,
-        bottlesOpened: 0,
-        finalSealedBottles: 0,
-        finalOpenMl: 0,
-        totalRemainingMl: 0,
-        error: `Product not found: ${productError?.message}`
-      };
-    }
-
-    // Calculate total available ml
-    const totalAvailable = (product.sealed_bottles * product.bottle_capacity_ml) + product.open_bottle_remaining_ml;
-
-    // Check if we have enough stock
-    if (totalAvailable < requiredMl) {
-      return {
-        success: false,
-        productId,
-        requiredMl,
-        consumedMl: 0,
-        bottlesOpened: 0,
-        finalSealedBottles: product.sealed_bottles,
-        finalOpenMl: product.open_bottle_remaining_ml,
-        totalRemainingMl: totalAvailable,
-        error: `Insufficient stock. Available: ${totalAvailable}ml, Required: ${requiredMl}ml`
-      };
-    }
-
-    // Store initial values for logging
-    const initialSealedBottles = product.sealed_bottles;
-    const initialOpenMl = product.open_bottle_remaining_ml;
-    const bottleCapacity = product.bottle_capacity_ml;
-
-    // CONSUMPTION LOGIC - Exactly as specified
-    let remainingToConsume = requiredMl;
-    let bottlesOpened = 0;
-    let newSealedBottles = product.sealed_bottles;
-    let newOpenBottleRemaining = product.open_bottle_remaining_ml;
-
-    // Step 1: If open_bottle_remaining_ml >= used_ml → subtract directly
-    if (newOpenBottleRemaining >= remainingToConsume) {
-      newOpenBottleRemaining -= remainingToConsume;
-      remainingToConsume = 0;
-    } else {
-      // Step 2: Else - consume from open bottle first, then open sealed bottles
-      // Subtract what's left from open_bottle_remaining_ml
-      remainingToConsume -= newOpenBottleRemaining;
-      newOpenBottleRemaining = 0;
-
-      // Open sealed bottles as needed
-      while (remainingToConsume > 0 && newSealedBottles > 0) {
-        // Decrement sealed_bottles by 1
-        newSealedBottles -= 1;
-        bottlesOpened += 1;
-
-        // Set open_bottle_remaining_ml = bottle_capacity_ml - (remaining ml needed)
-        const consumeFromNewBottle = Math.min(bottleCapacity, remainingToConsume);
-        newOpenBottleRemaining = bottleCapacity - consumeFromNewBottle;
-        remainingToConsume -= consumeFromNewBottle;
-      }
+    const { data, error } = await supabaseClient.rpc('consume_product_ml', {
+      p_product_id: productId,
+      p_required_ml: requiredQuantity,
+      p_sale_id: saleId,
+      p_service_id: serviceId,
+      p_staff_id: staffId
+    });
+
+    if (error) {
+      throw new Error(error.message);
     }
 
-    // Update database
-    const { error: updateError } = await supabaseClient
-      .from('products')
-      .update({
-        sealed_bottles: newSealedBottles,
-        open_bottle_remaining_ml: newOpenBottleRemaining,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', productId);
-
-    if (updateError) {
-      throw new Error(`Failed to update product: ${updateError.message}`);
-    }
-
-    // Log the consumption
-    await supabaseClient
-      .from('product_consumption_log')
-      .insert({
-        product_id: productId,
-        sale_id: saleId,
-        service_id: serviceId,
-        consumption_type: 'service',
-        ml_consumed: requiredMl,
-        bottles_opened: bottlesOpened,
-        remaining_ml_before: initialOpenMl,
-        remaining_ml_after: newOpenBottleRemaining,
-        sealed_bottles_before: initialSealedBottles,
-        sealed_bottles_after: newSealedBottles,
-        staff_id: staffId,
-        created_at: new Date().toISOString()
-      });
-
-    const finalTotalMl = (newSealedBottles * bottleCapacity) + newOpenBottleRemaining;
+    // Pieces are taken whole
+    const consumedMl = Number(data.quantityUsed) || 0;
 
     return {
       success: true,
       productId,
-      requiredMl,
-      consumedMl: requiredMl,
-      bottlesOpened,
-      finalSealedBottles: newSealedBottles,
-      finalOpenMl: newOpenBottleRemaining,
-      totalRemainingMl: finalTotalMl
+      requiredMl: consumedMl,
+      consumedMl,
+      bottlesOpened: data.bottlesOpened || 0,
+      finalSealedBottles: data.sealedBottles || 0,
+      finalOpenMl: Number(data.openMl) || 0,
+      totalRemainingMl: Number(data.totalRemainingMl) || 0
     };
 
   } catch (error) {
@@ -166,7 +92,7 @@ async function consumeProduct(
     return {
       success: false,
       productId,
-      requiredMl,
+      requiredMl: requiredQuantity,
       consumedMl: 0,
       bottlesOpened: 0,
       finalSealedBottles: 0,
@@ -252,6 +178,7 @@ serve(async (req) => {
         products (
           id,
           name,
+          unit,
           sealed_bottles,
           open_bottle_remaining_ml,
           bottle_capacity_ml
@@ -279,12 +206,12 @@ serve(async (req) => {
         continue;
       }
 
-      // Calculate total available ml
+      // Calculate total available, in the product's unit
       const totalAvailableMl = (product.sealed_bottles * product.bottle_capacity_ml) + product.open_bottle_remaining_ml;
       const requiredMl = sp.default_qty || 0;
       
       if (totalAvailableMl < requiredMl) {
-        missingProducts.push(`${product.name}: need ${requiredMl}ml, have ${totalAvailableMl}ml`);
+        missingProducts.push(`${product.name}: need ${formatQuantity(requiredMl, product.unit)}, have ${formatQuantity(totalAvailableMl, product.unit)}`);
       }
     }
 
@@ -352,7 +279,7 @@ serve(async (req) => {
               product_id: sp.product_id,
               service_id: saleData.serviceId,
               qty_used: consumptionResult.consumedMl,
-              unit: 'ml'
+              unit: stockUnit(product.unit)
             }]);
         } catch (usageError) {
           console.warn('Failed to log sale_product_usage:', usageError);
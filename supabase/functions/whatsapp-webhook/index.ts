@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// WhatsApp Cloud API webhook: client replies to booking confirmations and
+// reminders ("1" to confirm, "2" to cancel) and delivery receipts for the
+// messages the app sent. What a reply does is decided by
+// handle_booking_reply() (see booking-reminders.sql).
+//
+// Environment:
+//   WHATSAPP_VERIFY_TOKEN - the token entered when subscribing the webhook
+//   WHATSAPP_APP_SECRET   - the Meta app secret, to check request signatures;
+//                           required, unsigned requests are always rejected
+
+interface WebhookMessage {
+  from: string;
+  type: string;
+  text?: { body: string };
+  button?: { text: string };
+}
+
+interface WebhookStatus {
+  id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  errors?: Array<{ title?: string; message?: string }>;
+}
+
+interface WebhookPayload {
+  entry?: Array<{
+    changes?: Array<{
+      value?: {
+        messages?: WebhookMessage[];
+        statuses?: WebhookStatus[];
+      };
+    }>;
+  }>;
+}
+
+// Meta signs each request with the app secret: X-Hub-Signature-256 is
+// "sha256=" and the hex HMAC of the raw body
+async function hasValidSignature(body: string, signature: string | null, secret: string): Promise<boolean> {
+  if (!signature?.startsWith('sha256=')) return false
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body))
+  const expected = Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+
+  return signature.slice('sha256='.length) === expected
+}
+
+serve(async (req) => {
+  const url = new URL(req.url)
+
+  // Subscription check when the webhook is registered
+  if (req.method === 'GET') {
+    if (
+      url.searchParams.get('hub.mode') === 'subscribe' &&
+      url.searchParams.get('hub.verify_token') === Deno.env.get('WHATSAPP_VERIFY_TOKEN')
+    ) {
+      return new Response(url.searchParams.get('hub.challenge') ?? '', { status: 200 })
+    }
+    return new Response('Forbidden', { status: 403 })
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  try {
+    const body = await req.text()
+    const appSecret = Deno.env.get('WHATSAPP_APP_SECRET')
+
+    // Without the secret nothing can be verified, and replies cancel bookings
+    if (!appSecret) {
+      console.error('WHATSAPP_APP_SECRET is not set; rejecting webhook request')
+      return new Response('Webhook not configured', { status: 500 })
+    }
+
+    if (!(await hasValidSignature(body, req.headers.get('X-Hub-Signature-256'), appSecret))) {
+      return new Response('Invalid signature', { status: 401 })
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const payload: WebhookPayload = JSON.parse(body)
+    const values = (payload.entry ?? []).flatMap(entry => entry.changes ?? []).map(change => change.value ?? {})
+
+    for (const value of values) {
+      for (const message of value.messages ?? []) {
+        const text = message.text?.body ?? message.button?.text
+        if (!text) continue
+
+        const { data, error } = await supabaseClient.rpc('handle_booking_reply', {
+          p_phone: message.from,
+          p_body: text,
+        })
+
+        if (error) {
+          console.error('Error handling booking reply:', error)
+        } else {
+          console.log('Booking reply handled:', data)
+        }
+      }
+
+      for (const status of value.statuses ?? []) {
+        const { error } = await supabaseClient.rpc('record_booking_message_status', {
+          p_provider_message_id: status.id,
+          p_status: status.status,
+          p_error: status.errors?.[0]?.message ?? status.errors?.[0]?.title ?? null,
+        })
+
+        if (error) {
+          console.error('Error recording message status:', error)
+        }
+      }
+    }
+
+    // WhatsApp retries anything but a 200, so processing errors are only logged
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+})